@@ -1,13 +1,24 @@
 'use server'
 
+import { safeAuth } from '@/lib/auth/safe-auth'
 import { requireAdmin } from '@/lib/auth/is-admin'
 import { runSyncAdminAction } from '@/lib/admin/sync-status'
 import { createServiceRoleClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/utils/logger'
+import { emitWebhookEvent } from '@/lib/webhooks/events'
 import type { SupabaseClient } from '@supabase/supabase-js'
 
 type ProfileIssueStatus = 'new' | 'researching' | 'resolved' | 'dismissed'
 
+interface ProfileIssueStatusRow {
+  sla_due_at: string | null
+  status: ProfileIssueStatus
+  breached_at: string | null
+  judge_slug: string
+  court_id: string | null
+  issue_type: string
+}
+
 export async function queueSyncJob({
   type,
   options,
@@ -36,6 +47,57 @@ export async function restartSyncQueue(): Promise<unknown> {
   return runSyncAdminAction('restart_queue')
 }
 
+export async function approveSyncPreview(previewId: string): Promise<unknown> {
+  await requireAdmin()
+  const { userId } = await safeAuth()
+  return runSyncAdminAction('approve_preview', { previewId, reviewedBy: userId ?? null })
+}
+
+export async function rejectSyncPreview(previewId: string): Promise<unknown> {
+  await requireAdmin()
+  const { userId } = await safeAuth()
+  return runSyncAdminAction('reject_preview', { previewId, reviewedBy: userId ?? null })
+}
+
+export async function reprocessWebhookEvent(eventId: string): Promise<unknown> {
+  await requireAdmin()
+  return runSyncAdminAction('reprocess_webhook', { eventId })
+}
+
+export async function detectJudgeDuplicates(): Promise<unknown> {
+  await requireAdmin()
+  return runSyncAdminAction('detect_judge_duplicates')
+}
+
+export async function mergeJudges(sourceId: string, targetId: string): Promise<unknown> {
+  await requireAdmin()
+  const { userId } = await safeAuth()
+  return runSyncAdminAction('merge_judges', { sourceId, targetId, reviewedBy: userId ?? null })
+}
+
+export async function dismissJudgeDuplicate(candidateId: string): Promise<unknown> {
+  await requireAdmin()
+  const { userId } = await safeAuth()
+  return runSyncAdminAction('dismiss_judge_duplicate', { candidateId, reviewedBy: userId ?? null })
+}
+
+export async function auditCaseAttributions(): Promise<unknown> {
+  await requireAdmin()
+  return runSyncAdminAction('audit_case_attributions')
+}
+
+export async function relinkCaseAttributions(afterId?: string): Promise<unknown> {
+  await requireAdmin()
+  const payload: Record<string, unknown> = {}
+  if (afterId) payload.afterId = afterId
+  return runSyncAdminAction('relink_case_attributions', payload)
+}
+
+export async function evaluateSyncAlerts(): Promise<unknown> {
+  await requireAdmin()
+  return runSyncAdminAction('evaluate_alerts')
+}
+
 interface TransitionProfileIssueArgs {
   id: string
   nextStatus: ProfileIssueStatus
@@ -77,12 +139,12 @@ async function upsertIssueStatus(
   supabase: SupabaseClient,
   id: string,
   updates: Record<string, unknown>
-): Promise<{ sla_due_at: string | null; status: ProfileIssueStatus; breached_at: string | null } | null> {
+): Promise<ProfileIssueStatusRow | null> {
   const { data, error } = await supabase
     .from('profile_issues')
     .update(updates)
     .eq('id', id)
-    .select('sla_due_at, status, breached_at')
+    .select('sla_due_at, status, breached_at, judge_slug, court_id, issue_type')
     .single()
 
   if (error) {
@@ -95,7 +157,7 @@ async function upsertIssueStatus(
 async function markBreachedIfApplicable(
   supabase: SupabaseClient,
   id: string,
-  row: { sla_due_at: string | null; status: ProfileIssueStatus; breached_at: string | null },
+  row: ProfileIssueStatusRow,
   nowIso: string
 ): Promise<void> {
   if (!row?.sla_due_at || row.breached_at || row.status === 'resolved' || row.status === 'dismissed') return
@@ -116,6 +178,16 @@ export async function transitionProfileIssue({ id, nextStatus, responseNotes }:
     if (row) {
       await markBreachedIfApplicable(supabase, id, row, nowIso)
     }
+    if (row && nextStatus === 'resolved') {
+      // Reporter details stay private; subscribers get the profile the fix applies to
+      await emitWebhookEvent(supabase, 'profile_issue.resolved', {
+        issue_id: id,
+        judge_slug: row.judge_slug,
+        court_id: row.court_id,
+        issue_type: row.issue_type,
+        resolved_at: nowIso
+      }, now)
+    }
     logger.info('Profile issue transitioned', { id, nextStatus })
   } catch (error: unknown) {
     const message = typeof error === 'object' && error && 'message' in error ? String((error as { message?: string }).message) : String(error)
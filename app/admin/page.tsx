@@ -3,12 +3,17 @@ import { redirect } from 'next/navigation'
 import { resolveAdminStatus } from '@/lib/auth/is-admin'
 import { fetchSyncStatus, type SyncStatusResponse } from '@/lib/admin/sync-status'
 import { createServiceRoleClient } from '@/lib/supabase/server'
+import { listSyncPreviews, type SyncPreviewView } from '@/lib/admin/sync-previews'
+import { listUnresolvedWebhookEvents, type WebhookEventView } from '@/lib/admin/webhook-events'
+import { listJudgeDuplicateCandidates, type JudgeDuplicateView } from '@/lib/admin/judge-duplicates'
+import { getCaseAttributionReport, type CaseAttributionReport } from '@/lib/admin/case-attributions'
+import { logger } from '@/lib/utils/logger'
 import AdminDashboard from '@/components/dashboard/AdminDashboard'
 import type { ProfileIssueRow } from '@/types'
 
 export const dynamic = 'force-dynamic'
 
-async function loadAdminData(): Promise<{ status: SyncStatusResponse | null; issueRows: ProfileIssueRow[]; profileIssueCounts: Array<{ status: 'new' | 'researching' | 'resolved' | 'dismissed'; count: number }>; overdueCount: number }> {
+async function loadAdminData(): Promise<{ status: SyncStatusResponse | null; issueRows: ProfileIssueRow[]; profileIssueCounts: Array<{ status: 'new' | 'researching' | 'resolved' | 'dismissed'; count: number }>; overdueCount: number; syncPreviews: SyncPreviewView[]; webhookEvents: WebhookEventView[]; judgeDuplicates: JudgeDuplicateView[]; caseAttributions: CaseAttributionReport | null }> {
   const status = await fetchSyncStatus()
   const supabase = await createServiceRoleClient()
   const { data: issueRows } = await supabase
@@ -38,7 +43,27 @@ async function loadAdminData(): Promise<{ status: SyncStatusResponse | null; iss
     return due.getTime() < Date.now() ? total + 1 : total
   }, 0)
 
-  return { status, issueRows: Array.isArray(issueRows) ? (issueRows as ProfileIssueRow[]) : [], profileIssueCounts, overdueCount }
+  const syncPreviews = await listSyncPreviews(supabase, { limit: 5 }).catch((error) => {
+    logger.error('Failed to load sync previews', { error })
+    return []
+  })
+
+  const webhookEvents = await listUnresolvedWebhookEvents(supabase, { limit: 10 }).catch((error) => {
+    logger.error('Failed to load webhook events', { error })
+    return []
+  })
+
+  const judgeDuplicates = await listJudgeDuplicateCandidates(supabase, { limit: 10 }).catch((error) => {
+    logger.error('Failed to load judge duplicate candidates', { error })
+    return []
+  })
+
+  const caseAttributions = await getCaseAttributionReport(supabase, { limit: 10 }).catch((error) => {
+    logger.error('Failed to load case attribution report', { error })
+    return null
+  })
+
+  return { status, issueRows: Array.isArray(issueRows) ? (issueRows as ProfileIssueRow[]) : [], profileIssueCounts, overdueCount, syncPreviews, webhookEvents, judgeDuplicates, caseAttributions }
 }
 
 export default async function AdminPage(): Promise<JSX.Element> {
@@ -64,7 +89,7 @@ export default async function AdminPage(): Promise<JSX.Element> {
     )
   }
 
-  const { status, issueRows, profileIssueCounts, overdueCount } = await loadAdminData()
+  const { status, issueRows, profileIssueCounts, overdueCount, syncPreviews, webhookEvents, judgeDuplicates, caseAttributions } = await loadAdminData()
 
   return (
     <AdminDashboard
@@ -72,6 +97,10 @@ export default async function AdminPage(): Promise<JSX.Element> {
       profileIssues={issueRows || []}
       profileIssueCounts={profileIssueCounts}
       overdueCount={overdueCount}
+      syncPreviews={syncPreviews}
+      webhookEvents={webhookEvents}
+      judgeDuplicates={judgeDuplicates}
+      caseAttributions={caseAttributions}
     />
   )
 }
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminApiAccess } from '@/lib/security/api-auth'
+import { getCaseAttributionReport, isAttributionMethod } from '@/lib/admin/case-attributions'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Audit report of case-to-judge links. `method` picks which cases to list
+ * (default `redistribution`); counts cover every method.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    await requireAdminApiAccess(request, ['SYNC_API_KEY'])
+
+    const { searchParams } = new URL(request.url)
+    const method = searchParams.get('method') ?? 'redistribution'
+    if (!isAttributionMethod(method)) {
+      return NextResponse.json({ error: `Unknown attribution method: ${method}` }, { status: 400 })
+    }
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 50, 1), 500)
+    const offset = Math.max(Number(searchParams.get('offset')) || 0, 0)
+
+    const supabase = await createServiceRoleClient()
+    const report = await getCaseAttributionReport(supabase, { method, limit, offset })
+    return NextResponse.json({ ...report, limit, offset, timestamp: new Date().toISOString() })
+  } catch (error) {
+    logger.error('Failed to build case attribution report', { error })
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      { error: 'Failed to build case attribution report', message },
+      { status: message === 'Forbidden' ? 403 : 500 }
+    )
+  }
+}
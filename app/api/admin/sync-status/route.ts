@@ -3,6 +3,15 @@ import { requireAdminApiAccess } from '@/lib/security/api-auth'
 import { buildRateLimiter, getClientIp } from '@/lib/security/rate-limit'
 import { SyncStatusService } from '@/lib/admin/sync-status-service'
 import { SyncQueueManager, type SyncJobType } from '@/lib/sync/queue-manager'
+import { approveSyncPreview, rejectSyncPreview, SyncPreviewConflictError, SyncPreviewStaleError } from '@/lib/admin/sync-previews'
+import { createWebhookProcessors, reprocessWebhookEvent, WebhookEventConflictError } from '@/lib/sync/webhook-events'
+import { dismissJudgeDuplicate, JudgeDuplicateConflictError } from '@/lib/admin/judge-duplicates'
+import { detectJudgeDuplicates } from '@/lib/judges/entity-resolution'
+import { JudgeMergeConflictError, mergeJudges } from '@/lib/judges/merge'
+import { auditCaseAttributions, relinkCaseAttributions } from '@/lib/sync/case-attribution'
+import { runSyncAlertChecks, type AlertKind } from '@/lib/alerts/sync-alerts'
+import { CourtListenerClient } from '@/lib/courtlistener/client'
+import { createServiceRoleClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/utils/logger'
 
 export const dynamic = 'force-dynamic'
@@ -37,7 +46,23 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     await enforceRateLimit(request, 'api:admin:sync-status:post', 60)
 
     const queueManager = new SyncQueueManager()
-    const body = await request.json().catch(() => ({})) as { action?: string; type?: SyncJobType; options?: Record<string, unknown>; priority?: number; days?: number }
+    const body = await request.json().catch(() => ({})) as {
+      action?: string
+      type?: SyncJobType
+      options?: Record<string, unknown>
+      priority?: number
+      days?: number
+      previewId?: string
+      reviewedBy?: string
+      eventId?: string
+      jurisdiction?: string
+      sourceId?: string
+      targetId?: string
+      candidateId?: string
+      limit?: number
+      afterId?: string
+      kinds?: AlertKind[]
+    }
 
     switch (body.action) {
       case 'queue_job': {
@@ -56,6 +81,64 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         const deletedCount = await queueManager.cleanupOldJobs(body.days ?? 7)
         return NextResponse.json({ success: true, message: `${deletedCount} old jobs cleaned up`, deletedCount, timestamp: new Date().toISOString() })
       }
+      case 'approve_preview': {
+        if (!body.previewId) return NextResponse.json({ error: 'previewId is required' }, { status: 400 })
+        const supabase = await createServiceRoleClient()
+        const { jobId } = await approveSyncPreview(supabase, queueManager, body.previewId, body.reviewedBy ?? null)
+        return NextResponse.json({ success: true, message: 'Preview approved and job queued', jobId, timestamp: new Date().toISOString() })
+      }
+      case 'reject_preview': {
+        if (!body.previewId) return NextResponse.json({ error: 'previewId is required' }, { status: 400 })
+        const supabase = await createServiceRoleClient()
+        await rejectSyncPreview(supabase, body.previewId, body.reviewedBy ?? null)
+        return NextResponse.json({ success: true, message: 'Preview rejected', timestamp: new Date().toISOString() })
+      }
+      case 'reprocess_webhook': {
+        if (!body.eventId) return NextResponse.json({ error: 'eventId is required' }, { status: 400 })
+        const supabase = await createServiceRoleClient()
+        const processors = createWebhookProcessors({ supabase, courtListener: new CourtListenerClient() })
+        const outcome = await reprocessWebhookEvent(supabase, body.eventId, processors)
+        return NextResponse.json({
+          success: outcome.status !== 'failed',
+          message: `Webhook event ${outcome.status}`,
+          status: outcome.status,
+          result: outcome.result,
+          error: outcome.error,
+          timestamp: new Date().toISOString()
+        })
+      }
+      case 'detect_judge_duplicates': {
+        const supabase = await createServiceRoleClient()
+        const result = await detectJudgeDuplicates(supabase, { jurisdiction: body.jurisdiction })
+        return NextResponse.json({ success: true, message: `${result.queued} new duplicate candidates queued`, ...result, timestamp: new Date().toISOString() })
+      }
+      case 'merge_judges': {
+        if (!body.sourceId || !body.targetId) return NextResponse.json({ error: 'sourceId and targetId are required' }, { status: 400 })
+        const supabase = await createServiceRoleClient()
+        const result = await mergeJudges(supabase, { sourceId: body.sourceId, targetId: body.targetId, mergedBy: body.reviewedBy ?? null })
+        return NextResponse.json({ success: true, message: 'Judges merged', ...result, timestamp: new Date().toISOString() })
+      }
+      case 'dismiss_judge_duplicate': {
+        if (!body.candidateId) return NextResponse.json({ error: 'candidateId is required' }, { status: 400 })
+        const supabase = await createServiceRoleClient()
+        await dismissJudgeDuplicate(supabase, body.candidateId, body.reviewedBy ?? null)
+        return NextResponse.json({ success: true, message: 'Duplicate candidate dismissed', timestamp: new Date().toISOString() })
+      }
+      case 'audit_case_attributions': {
+        const supabase = await createServiceRoleClient()
+        const result = await auditCaseAttributions(supabase, { limit: body.limit })
+        return NextResponse.json({ success: true, message: `${result.audited} case links audited`, ...result, timestamp: new Date().toISOString() })
+      }
+      case 'relink_case_attributions': {
+        const supabase = await createServiceRoleClient()
+        const result = await relinkCaseAttributions(supabase, new CourtListenerClient(), { limit: body.limit, afterId: body.afterId ?? null })
+        return NextResponse.json({ success: true, message: `${result.relinked} cases re-linked, ${result.confirmed} confirmed`, ...result, timestamp: new Date().toISOString() })
+      }
+      case 'evaluate_alerts': {
+        const supabase = await createServiceRoleClient()
+        const result = await runSyncAlertChecks(supabase, body.kinds?.length ? { kinds: body.kinds } : {})
+        return NextResponse.json({ success: true, message: `${result.opened} alerts opened, ${result.resolved} resolved`, ...result, timestamp: new Date().toISOString() })
+      }
       case 'restart_queue': {
         queueManager.stopProcessing()
         queueManager.startProcessing()
@@ -114,6 +197,15 @@ function statusCodeFor(error: unknown): number {
   if (error instanceof Error && error.message === 'Forbidden') {
     return 403
   }
+  if (
+    error instanceof SyncPreviewConflictError ||
+    error instanceof SyncPreviewStaleError ||
+    error instanceof WebhookEventConflictError ||
+    error instanceof JudgeDuplicateConflictError ||
+    error instanceof JudgeMergeConflictError
+  ) {
+    return 409
+  }
   return 500
 }
 
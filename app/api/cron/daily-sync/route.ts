@@ -3,7 +3,8 @@ import { SyncQueueManager } from '@/lib/sync/queue-manager'
 import { logger } from '@/lib/utils/logger'
 import { requireApiKey } from '@/lib/security/api-auth'
 import { buildRateLimiter, getClientIp } from '@/lib/security/rate-limit'
-import { logCronMetric } from '@/lib/sync/cron-logger'
+import { logCronMetric, runCronAlertChecks } from '@/lib/sync/cron-logger'
+import { resolveSyncJurisdictions } from '@/lib/jurisdictions/config'
 
 export const dynamic = 'force-dynamic'
 
@@ -29,50 +30,53 @@ export async function GET(request: NextRequest) {
     logger.info('Starting daily sync cron job')
 
     const queueManager = new SyncQueueManager()
+    const jurisdictions = resolveSyncJurisdictions()
+    const jobs = []
 
-    // Queue daily decision sync (highest priority)
-    const decisionJobId = await queueManager.addJob(
-      'decision',
-      {
-        batchSize: 5,
-        jurisdiction: 'CA',
-        daysSinceLast: 1, // Only fetch decisions from last day
-        maxDecisionsPerJudge: 20 // Limit for daily sync
-      },
-      100 // High priority
-    )
-
-    // Queue judge profile updates (lower priority)
-    const judgeJobId = await queueManager.addJob(
-      'judge',
-      {
-        batchSize: 20,
-        jurisdiction: 'CA',
-        forceRefresh: false // Only update stale profiles
-      },
-      50 // Medium priority
-    )
-
-    const duration = Date.now() - startTime
-
-    logger.info('Daily sync jobs queued successfully', {
-      decisionJobId,
-      judgeJobId,
-      duration
-    })
-
-    const jobs = [
-      {
+    for (const jurisdiction of jurisdictions) {
+      // Queue daily decision sync (highest priority)
+      const decisionJobId = await queueManager.addJob(
+        'decision',
+        {
+          batchSize: 5,
+          jurisdiction,
+          daysSinceLast: 1, // Only fetch decisions from last day
+          maxDecisionsPerJudge: 20 // Limit for daily sync
+        },
+        100 // High priority
+      )
+      jobs.push({
         id: decisionJobId,
         type: 'decision',
+        jurisdiction,
         description: 'Sync recent decisions from last 24 hours'
-      },
-      {
+      })
+
+      // Queue judge profile updates (lower priority)
+      const judgeJobId = await queueManager.addJob(
+        'judge',
+        {
+          batchSize: 20,
+          jurisdiction,
+          forceRefresh: false // Only update stale profiles
+        },
+        50 // Medium priority
+      )
+      jobs.push({
         id: judgeJobId,
         type: 'judge',
+        jurisdiction,
         description: 'Update stale judge profiles'
-      }
-    ]
+      })
+    }
+
+    const duration = Date.now() - startTime
+
+    logger.info('Daily sync jobs queued successfully', {
+      jurisdictions,
+      jobCount: jobs.length,
+      duration
+    })
 
     await logCronMetric({
       route: '/api/cron/daily-sync',
@@ -84,10 +88,13 @@ export async function GET(request: NextRequest) {
       ipAddress
     })
 
+    const alerts = await runCronAlertChecks()
+
     return NextResponse.json({
       success: true,
       message: 'Daily sync jobs queued successfully',
       jobs,
+      alerts,
       queuedAt: new Date().toISOString(),
       duration
     })
@@ -135,39 +142,42 @@ export async function POST(request: NextRequest) {
     // Get manual sync options from request body
     const body = await request.json().catch(() => ({}))
     const force = body.force || false
+    const jurisdictions = resolveSyncJurisdictions(body.jurisdictions)
 
-    logger.info('Manual daily sync triggered', { force })
+    logger.info('Manual daily sync triggered', { force, jurisdictions })
 
     const queueManager = new SyncQueueManager()
 
     // Queue jobs with higher priority for manual trigger
     const jobs = []
 
-    // Decision sync
-    const decisionJobId = await queueManager.addJob(
-      'decision',
-      {
-        batchSize: body.batchSize || 10,
-        jurisdiction: 'CA',
-        daysSinceLast: force ? 7 : 1, // More days if forced
-        maxDecisionsPerJudge: force ? 50 : 20
-      },
-      150 // Higher priority for manual
-    )
-    jobs.push({ id: decisionJobId, type: 'decision' })
-
-    // Judge sync if forced
-    if (force) {
-      const judgeJobId = await queueManager.addJob(
-        'judge',
+    for (const jurisdiction of jurisdictions) {
+      // Decision sync
+      const decisionJobId = await queueManager.addJob(
+        'decision',
         {
-          batchSize: 20,
-          jurisdiction: 'CA',
-          forceRefresh: true
+          batchSize: body.batchSize || 10,
+          jurisdiction,
+          daysSinceLast: force ? 7 : 1, // More days if forced
+          maxDecisionsPerJudge: force ? 50 : 20
         },
-        100
+        150 // Higher priority for manual
       )
-      jobs.push({ id: judgeJobId, type: 'judge' })
+      jobs.push({ id: decisionJobId, type: 'decision', jurisdiction })
+
+      // Judge sync if forced
+      if (force) {
+        const judgeJobId = await queueManager.addJob(
+          'judge',
+          {
+            batchSize: 20,
+            jurisdiction,
+            forceRefresh: true
+          },
+          100
+        )
+        jobs.push({ id: judgeJobId, type: 'judge', jurisdiction })
+      }
     }
 
     const duration = Date.now() - startTime
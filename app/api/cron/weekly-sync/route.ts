@@ -3,7 +3,8 @@ import { SyncQueueManager } from '@/lib/sync/queue-manager'
 import { logger } from '@/lib/utils/logger'
 import { requireApiKey } from '@/lib/security/api-auth'
 import { buildRateLimiter, getClientIp } from '@/lib/security/rate-limit'
-import { logCronMetric } from '@/lib/sync/cron-logger'
+import { logCronMetric, runCronAlertChecks } from '@/lib/sync/cron-logger'
+import { FEDERAL_JURISDICTION, resolveSyncJurisdictions } from '@/lib/jurisdictions/config'
 
 export const dynamic = 'force-dynamic'
 
@@ -33,39 +34,83 @@ export async function GET(request: NextRequest) {
     // Queue comprehensive weekly sync jobs
     const jobs = []
 
-    // 1. Court data refresh (schedule for immediate execution)
-    const courtJobId = await queueManager.addJob(
+    const jurisdictions = resolveSyncJurisdictions()
+    const judgeScheduleTime = new Date(Date.now() + 30 * 60 * 1000)
+    const decisionScheduleTime = new Date(Date.now() + 60 * 60 * 1000)
+
+    for (const jurisdiction of jurisdictions) {
+      // 1. Court data refresh (schedule for immediate execution)
+      const courtJobId = await queueManager.addJob(
+        'court',
+        {
+          batchSize: 30,
+          jurisdiction,
+          forceRefresh: true // Force refresh all courts weekly
+        },
+        200 // Highest priority
+      )
+      jobs.push({
+        id: courtJobId,
+        type: 'court',
+        jurisdiction,
+        description: 'Full court data refresh'
+      })
+
+      // 2. Judge profile comprehensive update (schedule 30 minutes later)
+      const judgeJobId = await queueManager.addJob(
+        'judge',
+        {
+          batchSize: 15,
+          jurisdiction,
+          forceRefresh: true // Force refresh all judge profiles
+        },
+        150, // High priority
+        judgeScheduleTime
+      )
+      jobs.push({
+        id: judgeJobId,
+        type: 'judge',
+        jurisdiction,
+        description: 'Comprehensive judge profile update',
+        scheduledFor: judgeScheduleTime.toISOString()
+      })
+
+      // 3. Decision backfill (schedule 1 hour later)
+      const decisionJobId = await queueManager.addJob(
+        'decision',
+        {
+          batchSize: 3, // Smaller batches for comprehensive sync
+          jurisdiction,
+          daysSinceLast: 7, // Fetch decisions from last week
+          maxDecisionsPerJudge: 100 // Higher limit for weekly sync
+        },
+        100, // Medium priority
+        decisionScheduleTime
+      )
+      jobs.push({
+        id: decisionJobId,
+        type: 'decision',
+        jurisdiction,
+        description: 'Weekly decision backfill',
+        scheduledFor: decisionScheduleTime.toISOString()
+      })
+    }
+
+    // 1b. Federal courts seated in the configured states
+    const federalCourtJobId = await queueManager.addJob(
       'court',
       {
         batchSize: 30,
-        jurisdiction: 'CA',
-        forceRefresh: true // Force refresh all courts weekly
-      },
-      200 // Highest priority
-    )
-    jobs.push({ 
-      id: courtJobId, 
-      type: 'court', 
-      description: 'Full court data refresh' 
-    })
-
-    // 2. Judge profile comprehensive update (schedule 30 minutes later)
-    const judgeScheduleTime = new Date(Date.now() + 30 * 60 * 1000)
-    const judgeJobId = await queueManager.addJob(
-      'judge',
-      {
-        batchSize: 15,
-        jurisdiction: 'CA',
-        forceRefresh: true // Force refresh all judge profiles
+        jurisdiction: FEDERAL_JURISDICTION,
+        forceRefresh: true
       },
-      150, // High priority
-      judgeScheduleTime
+      190
     )
-    jobs.push({ 
-      id: judgeJobId, 
-      type: 'judge', 
-      description: 'Comprehensive judge profile update',
-      scheduledFor: judgeScheduleTime.toISOString()
+    jobs.push({
+      id: federalCourtJobId,
+      type: 'court',
+      jurisdiction: FEDERAL_JURISDICTION,
+      description: 'Federal court data refresh'
     })
 
     // 2b. Federal (US) judge maintenance (schedule 45 minutes later)
@@ -74,40 +119,21 @@ export async function GET(request: NextRequest) {
       'judge',
       {
         batchSize: 20,
-        jurisdiction: 'US',
+        jurisdiction: FEDERAL_JURISDICTION,
         forceRefresh: false,
         discoverLimit: 1000 // incremental discovery each weekly run
       },
-      140, // High priority but slightly below CA full refresh
+      140, // High priority but slightly below the state full refreshes
       federalJudgeScheduleTime
     )
     jobs.push({
       id: federalJudgeJobId,
       type: 'judge',
+      jurisdiction: FEDERAL_JURISDICTION,
       description: 'Weekly federal judge maintenance (US)',
       scheduledFor: federalJudgeScheduleTime.toISOString()
     })
 
-    // 3. Decision backfill (schedule 1 hour later)
-    const decisionScheduleTime = new Date(Date.now() + 60 * 60 * 1000)
-    const decisionJobId = await queueManager.addJob(
-      'decision',
-      {
-        batchSize: 3, // Smaller batches for comprehensive sync
-        jurisdiction: 'CA',
-        daysSinceLast: 7, // Fetch decisions from last week
-        maxDecisionsPerJudge: 100 // Higher limit for weekly sync
-      },
-      100, // Medium priority
-      decisionScheduleTime
-    )
-    jobs.push({ 
-      id: decisionJobId, 
-      type: 'decision', 
-      description: 'Weekly decision backfill',
-      scheduledFor: decisionScheduleTime.toISOString()
-    })
-
     // 4. Queue cleanup (schedule 2 hours later)
     const cleanupScheduleTime = new Date(Date.now() + 120 * 60 * 1000)
     await queueManager.addJob(
@@ -137,10 +163,14 @@ export async function GET(request: NextRequest) {
       ipAddress
     })
 
+    const alerts = await runCronAlertChecks()
+
     return NextResponse.json({
       success: true,
       message: 'Weekly sync jobs queued successfully',
+      jurisdictions,
       jobs,
+      alerts,
       schedule: {
         courts: 'Immediate',
         judges: '30 minutes',
@@ -196,54 +226,57 @@ export async function POST(request: NextRequest) {
     const body = await request.json().catch(() => ({}))
     const immediate = body.immediate || false
     const syncType = body.syncType || 'full' // 'full', 'court', 'judge', 'decision'
+    const jurisdictions = resolveSyncJurisdictions(body.jurisdictions)
 
-    logger.info('Manual weekly sync triggered', { syncType, immediate })
+    logger.info('Manual weekly sync triggered', { syncType, immediate, jurisdictions })
 
     const queueManager = new SyncQueueManager()
     const jobs = []
 
-    if (syncType === 'full' || syncType === 'court') {
-      const courtJobId = await queueManager.addJob(
-        'court',
-        {
-          batchSize: 30,
-          jurisdiction: 'CA',
-          forceRefresh: true
-        },
-        200
-      )
-      jobs.push({ id: courtJobId, type: 'court' })
-    }
-
-    if (syncType === 'full' || syncType === 'judge') {
-      const scheduleTime = immediate ? undefined : new Date(Date.now() + 5 * 60 * 1000)
-      const judgeJobId = await queueManager.addJob(
-        'judge',
-        {
-          batchSize: 15,
-          jurisdiction: 'CA',
-          forceRefresh: true
-        },
-        150,
-        scheduleTime
-      )
-      jobs.push({ id: judgeJobId, type: 'judge' })
-    }
-
-    if (syncType === 'full' || syncType === 'decision') {
-      const scheduleTime = immediate ? undefined : new Date(Date.now() + 10 * 60 * 1000)
-      const decisionJobId = await queueManager.addJob(
-        'decision',
-        {
-          batchSize: 3,
-          jurisdiction: 'CA',
-          daysSinceLast: 14,
-          maxDecisionsPerJudge: 100
-        },
-        100,
-        scheduleTime
-      )
-      jobs.push({ id: decisionJobId, type: 'decision' })
+    for (const jurisdiction of jurisdictions) {
+      if (syncType === 'full' || syncType === 'court') {
+        const courtJobId = await queueManager.addJob(
+          'court',
+          {
+            batchSize: 30,
+            jurisdiction,
+            forceRefresh: true
+          },
+          200
+        )
+        jobs.push({ id: courtJobId, type: 'court', jurisdiction })
+      }
+
+      if (syncType === 'full' || syncType === 'judge') {
+        const scheduleTime = immediate ? undefined : new Date(Date.now() + 5 * 60 * 1000)
+        const judgeJobId = await queueManager.addJob(
+          'judge',
+          {
+            batchSize: 15,
+            jurisdiction,
+            forceRefresh: true
+          },
+          150,
+          scheduleTime
+        )
+        jobs.push({ id: judgeJobId, type: 'judge', jurisdiction })
+      }
+
+      if (syncType === 'full' || syncType === 'decision') {
+        const scheduleTime = immediate ? undefined : new Date(Date.now() + 10 * 60 * 1000)
+        const decisionJobId = await queueManager.addJob(
+          'decision',
+          {
+            batchSize: 3,
+            jurisdiction,
+            daysSinceLast: 14,
+            maxDecisionsPerJudge: 100
+          },
+          100,
+          scheduleTime
+        )
+        jobs.push({ id: decisionJobId, type: 'decision', jurisdiction })
+      }
     }
 
     const duration = Date.now() - startTime
@@ -263,6 +296,7 @@ export async function POST(request: NextRequest) {
       message: 'Manual weekly sync jobs queued',
       syncType,
       immediate,
+      jurisdictions,
       jobs,
       triggeredAt: new Date().toISOString()
     })
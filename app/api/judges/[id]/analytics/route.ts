@@ -3,6 +3,13 @@ import { createServiceRoleClient } from '@/lib/supabase/server'
 import { chunkArray } from '@/lib/utils/helpers'
 import { buildRateLimiter, getClientIp } from '@/lib/security/rate-limit'
 import { redisGetJSON, redisSetJSON } from '@/lib/cache/redis'
+import { hasCurrentAnalyticsFormat, isSyntheticAnalytics, recordAnalyticsSnapshot } from '@/lib/analytics/snapshots'
+import { evaluateMetrics } from '@/lib/analytics/classifiers'
+import { computeAdjustedMetrics, type AdjustedMetric } from '@/lib/analytics/adjusted-metrics'
+import { getMetricBaselines } from '@/lib/analytics/metric-baselines'
+import { computePosteriorEstimates, type PosteriorEstimate } from '@/lib/analytics/posterior-metrics'
+import { buildInsufficientDataReport, findNextSync } from '@/lib/analytics/insufficient-data'
+import { TRUSTED_ATTRIBUTION_FILTER } from '@/lib/sync/case-attribution'
 
 // Import AI analytics pipeline
 const { generateJudicialAnalytics, generateAnalyticsWithOpenAI } = require('@/lib/ai/judicial-analytics')
@@ -15,21 +22,21 @@ const LOOKBACK_YEARS = Math.max(1, parseInt(process.env.JUDGE_ANALYTICS_LOOKBACK
 const CASE_FETCH_LIMIT = Math.max(200, parseInt(process.env.JUDGE_ANALYTICS_CASE_LIMIT ?? '1000', 10))
 
 interface CaseAnalytics {
-  civil_plaintiff_favor: number
-  civil_defendant_favor: number
-  family_custody_mother: number
-  family_custody_father: number
-  family_alimony_favorable: number
-  contract_enforcement_rate: number
-  contract_dismissal_rate: number
-  criminal_sentencing_severity: number
-  criminal_plea_acceptance: number
+  civil_plaintiff_favor: number | null
+  civil_defendant_favor: number | null
+  family_custody_mother: number | null
+  family_custody_father: number | null
+  family_alimony_favorable: number | null
+  contract_enforcement_rate: number | null
+  contract_dismissal_rate: number | null
+  criminal_sentencing_severity: number | null
+  criminal_plea_acceptance: number | null
   
   // New metrics
-  bail_release_rate: number
-  appeal_reversal_rate: number
-  settlement_encouragement_rate: number
-  motion_grant_rate: number
+  bail_release_rate: number | null
+  appeal_reversal_rate: number | null
+  settlement_encouragement_rate: number | null
+  motion_grant_rate: number | null
   
   // Enhanced confidence metrics
   confidence_civil: number
@@ -56,6 +63,11 @@ interface CaseAnalytics {
   sample_size_settlement: number
   sample_size_motion: number
   
+  // Deviations from court/county/state baselines, adjusted for case-type mix
+  baseline_adjusted?: AdjustedMetric[]
+  // Empirical-Bayes estimates shrunk toward the same baselines
+  posterior_estimates?: PosteriorEstimate[]
+
   total_cases_analyzed: number
   analysis_quality: string
   notable_patterns: string[]
@@ -88,7 +100,7 @@ export async function GET(
     // Redis edge cache first
     const redisKey = `judge:analytics:${judgeKey}`
     const cachedRedis = await redisGetJSON<{ analytics: CaseAnalytics; created_at: string }>(redisKey)
-    if (cachedRedis && isDataFresh(cachedRedis.created_at, 24)) {
+    if (cachedRedis && isDataFresh(cachedRedis.created_at, 24) && !isSyntheticAnalytics(cachedRedis.analytics)) {
       return NextResponse.json({
         analytics: cachedRedis.analytics,
         cached: true,
@@ -118,8 +130,13 @@ export async function GET(
     // Check if we have cached analytics (less than 7 days old for real data)
     const cachedData = await getCachedAnalytics(supabase, resolvedParams.id)
     
-    // Only use cached data if it has the new format (with confidence fields)
-    if (cachedData && isDataFresh(cachedData.created_at, 7 * 24) && cachedData.analytics.confidence_civil) { // 7 days
+    // Only use cached data if it has the new format (with confidence fields) and came from real cases
+    if (
+      cachedData &&
+      isDataFresh(cachedData.created_at, 7 * 24) && // 7 days
+      hasCurrentAnalyticsFormat(cachedData.analytics) &&
+      !isSyntheticAnalytics(cachedData.analytics)
+    ) {
       console.log(`📊 Using cached analytics for judge ${resolvedParams.id}`)
       return NextResponse.json({ 
         analytics: cachedData.analytics,
@@ -146,37 +163,63 @@ export async function GET(
       .from('cases')
       .select('*')
       .eq('judge_id', resolvedParams.id)
+      .or(TRUSTED_ATTRIBUTION_FILTER)
       .gte('filing_date', lookbackStartDate) // Only cases filed within lookback window
       .order('filing_date', { ascending: false })
       .limit(CASE_FETCH_LIMIT)
 
     if (casesError) {
       console.error('Error fetching cases:', casesError)
-      // Don't fail completely, continue with empty cases array
     }
 
     const enrichedCases = await enrichCasesWithOpinions(supabase, cases || [])
 
-    // Generate analytics based on available data
-    let analytics: CaseAnalytics
-
+    // Without cases there is nothing to measure: explain the gap rather than estimate
     if (enrichedCases.length === 0) {
-      // No cases available - use traditional method with lower confidence
-      analytics = await generateLegacyAnalytics(judge, analysisWindow)
-    } else {
-      // Generate analytics from real case data
-      analytics = await generateAnalyticsFromCases(judge, enrichedCases, analysisWindow)
+      const insufficientData = buildInsufficientDataReport({
+        reason: casesError ? 'case_lookup_failed' : 'no_cases_in_window',
+        casesFound: 0,
+        lookbackYears: LOOKBACK_YEARS,
+        windowStart: lookbackStartDate,
+        nextSync: await findNextSync(supabase, judge)
+      })
+
+      return NextResponse.json({
+        analytics: null,
+        insufficient_data: insufficientData,
+        cached: false,
+        data_source: 'insufficient_data',
+        document_count: 0,
+        rate_limit_remaining: remaining
+      })
     }
 
+    const analytics = await generateAnalyticsFromCases(judge, enrichedCases, analysisWindow)
+    Object.assign(analytics, await buildBaselineComparisons(judge, enrichedCases))
+
+    const dataSource = 'case_analysis'
+
     // Cache the results (Redis + DB fallback)
     await redisSetJSON(redisKey, { analytics, created_at: new Date().toISOString() }, 60 * 60 * 24)
     await cacheAnalytics(supabase, resolvedParams.id, analytics)
 
+    // Keep an immutable record of this regeneration for the history endpoint
+    const snapshot = await recordAnalyticsSnapshot(supabase, {
+      judgeId: resolvedParams.id,
+      analytics: { ...analytics },
+      caseIds: enrichedCases.map((caseItem) => caseItem.id).filter(Boolean),
+      lookbackYears: LOOKBACK_YEARS,
+      caseFetchLimit: CASE_FETCH_LIMIT,
+      dataSource
+    })
+
     return NextResponse.json({ 
       analytics,
       cached: false,
-      data_source: enrichedCases.length > 0 ? 'case_analysis' : 'profile_estimation',
+      data_source: dataSource,
       document_count: enrichedCases.length,
+      snapshot_id: snapshot?.id ?? null,
+      snapshot_version: snapshot?.version ?? null,
       rate_limit_remaining: remaining
     })
 
@@ -196,29 +239,43 @@ export async function GET(
  * Generate analytics from actual case data
  */
 async function generateAnalyticsFromCases(judge: any, cases: any[], window: AnalysisWindow): Promise<CaseAnalytics> {
+  console.log(`📊 Generating analytics for ${judge.name} using ${cases.length} cases`)
+
+  // Analyze case patterns from the cases data; failures surface as errors, never as default numbers
+  const analytics = analyzeJudicialPatterns(judge, cases, window)
+
+  // If we have AI available, enhance the analysis
+  if (process.env.GOOGLE_AI_API_KEY || process.env.OPENAI_API_KEY) {
+    try {
+      return await enhanceAnalyticsWithAI(judge, cases, analytics, window)
+    } catch (aiError) {
+      console.log(`⚠️ AI enhancement failed for ${judge.name}, using statistical analysis:`, 
+        aiError instanceof Error ? aiError.message : 'Unknown AI error')
+      return analytics
+    }
+  }
+
+  return analytics
+}
+
+/**
+ * Compare the judge's metrics with peer baselines and shrink small samples
+ * toward them. Baselines are best-effort: a failure leaves the raw analytics untouched.
+ */
+async function buildBaselineComparisons(
+  judge: any,
+  cases: any[]
+): Promise<Pick<CaseAnalytics, 'baseline_adjusted' | 'posterior_estimates'>> {
   try {
-    console.log(`📊 Generating analytics for ${judge.name} using ${cases.length} cases`)
-    
-    // Analyze case patterns from the cases data
-    const analytics = analyzeJudicialPatterns(judge, cases, window)
-    
-    // If we have AI available, enhance the analysis
-    if (process.env.GOOGLE_AI_API_KEY || process.env.OPENAI_API_KEY) {
-      try {
-        return await enhanceAnalyticsWithAI(judge, cases, analytics, window)
-      } catch (aiError) {
-        console.log(`⚠️ AI enhancement failed for ${judge.name}, using statistical analysis:`, 
-          aiError instanceof Error ? aiError.message : 'Unknown AI error')
-        return analytics
-      }
+    const baselines = await getMetricBaselines(judge.id, judge.court_id ?? null, judge.jurisdiction ?? null)
+    return {
+      baseline_adjusted: computeAdjustedMetrics(cases, baselines),
+      posterior_estimates: computePosteriorEstimates(cases, baselines)
     }
-    
-    return analytics
-    
   } catch (error) {
-    console.error(`❌ Analytics generation failed for ${judge.name}:`, error)
-    return generateConservativeAnalytics(judge, cases.length, window)
-}
+    console.error(`Baseline comparison failed for ${judge.name}:`, error)
+    return {}
+  }
 }
 
 /**
@@ -227,162 +284,22 @@ async function generateAnalyticsFromCases(judge: any, cases: any[], window: Anal
 function analyzeJudicialPatterns(judge: any, cases: any[], window: AnalysisWindow): CaseAnalytics {
   console.log(`🔍 Analyzing ${cases.length} cases for statistical patterns`)
   
-  // Initialize counters for different case types and outcomes
-  const stats = {
-    civil: { total: 0, plaintiff_wins: 0 },
-    custody: { total: 0, mother_awards: 0 },
-    alimony: { total: 0, awarded: 0 },
-    contracts: { total: 0, enforced: 0 },
-    criminal: { total: 0, strict_sentences: 0 },
-    plea: { total: 0, accepted: 0 },
-    bail: { total: 0, granted: 0 },
-    reversal: { total: 0, reversed: 0 },
-    settlement: { total: 0, encouraged: 0 },
-    motion: { total: 0, granted: 0 }
+  // Each metric's inclusion and success rules live in the classifier registry
+  const metrics = evaluateMetrics(cases)
+  for (const metric of Object.values(metrics)) {
+    console.log(`${metric.label}: ${metric.successes}/${metric.total} = ${metric.percentage}% (confidence: ${metric.confidence}%)`)
   }
-  
-  // Analyze each case based on case_type and outcome
-  cases.forEach(case_item => {
-    const caseType = (case_item.case_type || '').toLowerCase()
-    const outcome = (case_item.outcome || '').toLowerCase()
-    const summary = (case_item.summary || '').toLowerCase()
-    const status = (case_item.status || '').toLowerCase()
-    
-    // Civil cases analysis
-    if (caseType.includes('civil') || caseType.includes('tort') || caseType.includes('personal injury')) {
-      stats.civil.total++
-      if (outcome.includes('plaintiff') || outcome.includes('awarded') || summary.includes('in favor of plaintiff')) {
-        stats.civil.plaintiff_wins++
-      }
-    }
-    
-    // Family law - custody cases
-    if (caseType.includes('custody') || caseType.includes('family') || summary.includes('child custody')) {
-      stats.custody.total++
-      if (outcome.includes('mother') || summary.includes('custody to mother') || summary.includes('maternal custody')) {
-        stats.custody.mother_awards++
-      }
-    }
-    
-    // Family law - alimony/spousal support
-    if (caseType.includes('divorce') || caseType.includes('family') || summary.includes('alimony') || summary.includes('spousal support')) {
-      stats.alimony.total++
-      if (outcome.includes('alimony') || outcome.includes('spousal support') || summary.includes('awarded spousal')) {
-        stats.alimony.awarded++
-      }
-    }
-    
-    // Contract disputes
-    if (caseType.includes('contract') || caseType.includes('breach') || summary.includes('contract dispute')) {
-      stats.contracts.total++
-      if (outcome.includes('enforced') || outcome.includes('breach found') || summary.includes('contract upheld') || 
-          !outcome.includes('dismissed') && status === 'decided') {
-        stats.contracts.enforced++
-      }
-    }
-    
-    // Criminal sentencing
-    if (caseType.includes('criminal') || caseType.includes('felony') || caseType.includes('misdemeanor')) {
-      stats.criminal.total++
-      if (outcome.includes('prison') || outcome.includes('years') || summary.includes('sentenced to')) {
-        stats.criminal.strict_sentences++
-      }
-    }
-    
-    // Plea deals
-    const mentionsPlea = summary.includes('plea') || outcome.includes('plea')
-    if (mentionsPlea) {
-      stats.plea.total++
-      if (outcome.includes('plea accepted') || summary.includes('plea approved') || outcome.includes('guilty plea')) {
-        stats.plea.accepted++
-      }
-    }
 
-    // Bail/Pretrial Release decisions
-    const mentionsBail =
-      summary.includes('bail') ||
-      summary.includes('pretrial release') ||
-      summary.includes('pre-trial release') ||
-      summary.includes('released on own recognizance') ||
-      outcome.includes('bail') ||
-      outcome.includes('release') ||
-      outcome.includes('detained') ||
-      outcome.includes('remand')
-
-    if (mentionsBail) {
-      stats.bail.total++
-      if (outcome.includes('bail granted') || outcome.includes('released') || summary.includes('release granted') || 
-          summary.includes('bail set') || !outcome.includes('remanded') && !outcome.includes('detained')) {
-        stats.bail.granted++
-      }
-    }
-    
-    // Appeal/Reversal tracking
-    if (caseType.includes('appeal') || summary.includes('appeal') || outcome.includes('appeal')) {
-      stats.reversal.total++
-      if (outcome.includes('reversed') || outcome.includes('overturned') || summary.includes('judgment reversed') ||
-          summary.includes('decision overturned')) {
-        stats.reversal.reversed++
-      }
-    }
-    
-    // Settlement encouragement
-    if (caseType.includes('civil') || caseType.includes('contract') || caseType.includes('tort')) {
-      if (summary.includes('settlement') || outcome.includes('settlement')) {
-        stats.settlement.total++
-        if (outcome.includes('settled') || summary.includes('settlement reached') || summary.includes('parties settled') ||
-            summary.includes('settlement conference')) {
-          stats.settlement.encouraged++
-        }
-      }
-    }
-    
-    // Motion grant rate
-    if (summary.includes('motion') || outcome.includes('motion')) {
-      stats.motion.total++
-      if (outcome.includes('granted') || outcome.includes('motion granted') || summary.includes('granted the motion') ||
-          summary.includes('motion approved')) {
-        stats.motion.granted++
-      }
-    }
-  })
-  
-  // Calculate percentages with confidence based on sample sizes (improved for 3-year data)
-  const calculateMetrics = (stat: Record<string, number>, successKey: string, label: string) => {
-    if (stat.total === 0) return { percentage: 50, confidence: 60, sample: 0 }
-
-    const successCount = Number(stat[successKey] ?? 0)
-    const safeTotal = stat.total || 0
-    const ratio = safeTotal > 0 ? successCount / safeTotal : 0.5
-    const percentage = Math.round(Math.min(1, Math.max(0, ratio)) * 100)
-    
-    // Improved confidence calculation for larger sample sizes
-    let confidence = 60 // Base confidence
-    if (stat.total >= 50) confidence = 90
-    else if (stat.total >= 30) confidence = 85
-    else if (stat.total >= 20) confidence = 80
-    else if (stat.total >= 10) confidence = 75
-    else if (stat.total >= 5) confidence = 70
-    else confidence = 65
-    
-    // Cap at 95% max confidence
-    confidence = Math.min(95, confidence)
-    
-    console.log(`${label}: ${successCount}/${safeTotal} = ${percentage}% (confidence: ${confidence}%)`)
-    
-    return { percentage, confidence, sample: stat.total }
-  }
-  
-  const civilMetrics = calculateMetrics(stats.civil, 'plaintiff_wins', 'Civil')
-  const custodyMetrics = calculateMetrics(stats.custody, 'mother_awards', 'Custody')
-  const alimonyMetrics = calculateMetrics(stats.alimony, 'awarded', 'Alimony')
-  const contractMetrics = calculateMetrics(stats.contracts, 'enforced', 'Contracts')
-  const criminalMetrics = calculateMetrics(stats.criminal, 'strict_sentences', 'Criminal')
-  const pleaMetrics = calculateMetrics(stats.plea, 'accepted', 'Plea')
-  const bailMetrics = calculateMetrics(stats.bail, 'granted', 'Bail')
-  const reversalMetrics = calculateMetrics(stats.reversal, 'reversed', 'Reversal')
-  const settlementMetrics = calculateMetrics(stats.settlement, 'encouraged', 'Settlement')
-  const motionMetrics = calculateMetrics(stats.motion, 'granted', 'Motion')
+  const civilMetrics = metrics.civil
+  const custodyMetrics = metrics.custody
+  const alimonyMetrics = metrics.alimony
+  const contractMetrics = metrics.contracts
+  const criminalMetrics = metrics.sentencing
+  const pleaMetrics = metrics.plea
+  const bailMetrics = metrics.bail
+  const reversalMetrics = metrics.reversal
+  const settlementMetrics = metrics.settlement
+  const motionMetrics = metrics.motion
   
   // Calculate overall confidence based on 3-year data
   const totalCases = cases.length
@@ -405,9 +322,14 @@ function analyzeJudicialPatterns(judge: any, cases: any[], window: AnalysisWindo
   else if (totalCases < 50) limitations.push(`Limited ${window.lookbackYears}-year data: only ${totalCases} cases available`)
   
   // Case type distribution analysis
-  if (stats.civil.total > 20) patterns.push(`Civil cases: ${Math.round(stats.civil.total/totalCases*100)}% of ${window.lookbackYears}-year caseload`)
-  if (stats.criminal.total > 20) patterns.push(`Criminal cases: ${Math.round(stats.criminal.total/totalCases*100)}% of ${window.lookbackYears}-year caseload`)
-  if (stats.custody.total > 10) patterns.push(`Family custody cases: ${Math.round(stats.custody.total/totalCases*100)}% of caseload`)
+  if (civilMetrics.total > 20) patterns.push(`Civil cases: ${Math.round(civilMetrics.total/totalCases*100)}% of ${window.lookbackYears}-year caseload`)
+  if (criminalMetrics.total > 20) patterns.push(`Criminal cases: ${Math.round(criminalMetrics.total/totalCases*100)}% of ${window.lookbackYears}-year caseload`)
+  if (custodyMetrics.total > 10) patterns.push(`Family custody cases: ${Math.round(custodyMetrics.total/totalCases*100)}% of caseload`)
+
+  const thinMetrics = Object.values(metrics).filter((metric) => metric.total > 0 && !metric.sufficient)
+  if (thinMetrics.length > 0) {
+    limitations.push(`Below minimum sample: ${thinMetrics.map((metric) => `${metric.label} (${metric.total}/${metric.minSample})`).join(', ')}`)
+  }
   
   // Add 3-year timeframe context
   const timeframeLabel = window.startYear === window.endYear
@@ -417,12 +339,12 @@ function analyzeJudicialPatterns(judge: any, cases: any[], window: AnalysisWindo
   
   return {
     civil_plaintiff_favor: civilMetrics.percentage,
-    civil_defendant_favor: 100 - civilMetrics.percentage,
+    civil_defendant_favor: complement(civilMetrics.percentage),
     family_custody_mother: custodyMetrics.percentage,
-    family_custody_father: 100 - custodyMetrics.percentage,
+    family_custody_father: complement(custodyMetrics.percentage),
     family_alimony_favorable: alimonyMetrics.percentage,
     contract_enforcement_rate: contractMetrics.percentage,
-    contract_dismissal_rate: 100 - contractMetrics.percentage,
+    contract_dismissal_rate: complement(contractMetrics.percentage),
     criminal_sentencing_severity: criminalMetrics.percentage,
     criminal_plea_acceptance: pleaMetrics.percentage,
     
@@ -517,13 +439,14 @@ async function enhanceAnalyticsWithAI(
     return baseAnalytics
   }
 
-  const blendNumericMetric = (
-    metric: string,
-    sampleKey: string,
-    defaultValue: number
-  ) => {
-    const baseValue = Number((baseAnalytics as any)[metric] ?? defaultValue)
-    const aiValue = Number(aiAnalytics[metric] ?? defaultValue)
+  // Metrics without classified cases stay null; the AI pass never fills them in
+  const blendNumericMetric = (metric: string, sampleKey: string): number | null => {
+    const rawBase = (baseAnalytics as any)[metric]
+    if (rawBase === null || rawBase === undefined) return null
+    const baseValue = Number(rawBase)
+    // A metric the model did not report leaves the statistical value as is
+    if (aiAnalytics[metric] === null || aiAnalytics[metric] === undefined) return baseValue
+    const aiValue = Number(aiAnalytics[metric])
     const baseSample = Number((baseAnalytics as any)[sampleKey] ?? baseAnalytics.total_cases_analyzed)
     const aiSample = Number(aiAnalytics[sampleKey] ?? aiAnalytics.total_cases_analyzed)
 
@@ -541,7 +464,8 @@ async function enhanceAnalyticsWithAI(
 
   const blendConfidence = (key: string) => {
     const baseValue = Number((baseAnalytics as any)[key] ?? 60)
-    const aiValue = Number(aiAnalytics[key] ?? 60)
+    if (aiAnalytics[key] === null || aiAnalytics[key] === undefined) return baseValue
+    const aiValue = Number(aiAnalytics[key])
     const baseSample = Math.max(0, baseAnalytics.total_cases_analyzed)
     const aiSample = Math.max(0, aiAnalytics.total_cases_analyzed ?? analyzableDocuments.length)
     const totalWeight = baseSample + aiSample
@@ -553,22 +477,22 @@ async function enhanceAnalyticsWithAI(
     return Math.round((baseValue * baseSample + aiValue * aiSample) / totalWeight)
   }
 
-  const blendedCivil = blendNumericMetric('civil_plaintiff_favor', 'sample_size_civil', baseAnalytics.civil_plaintiff_favor)
-  const blendedCustody = blendNumericMetric('family_custody_mother', 'sample_size_custody', baseAnalytics.family_custody_mother)
-  const blendedAlimony = blendNumericMetric('family_alimony_favorable', 'sample_size_alimony', baseAnalytics.family_alimony_favorable)
-  const blendedContracts = blendNumericMetric('contract_enforcement_rate', 'sample_size_contracts', baseAnalytics.contract_enforcement_rate)
-  const blendedCriminal = blendNumericMetric('criminal_sentencing_severity', 'sample_size_sentencing', baseAnalytics.criminal_sentencing_severity)
-  const blendedPlea = blendNumericMetric('criminal_plea_acceptance', 'sample_size_plea', baseAnalytics.criminal_plea_acceptance)
+  const blendedCivil = blendNumericMetric('civil_plaintiff_favor', 'sample_size_civil')
+  const blendedCustody = blendNumericMetric('family_custody_mother', 'sample_size_custody')
+  const blendedAlimony = blendNumericMetric('family_alimony_favorable', 'sample_size_alimony')
+  const blendedContracts = blendNumericMetric('contract_enforcement_rate', 'sample_size_contracts')
+  const blendedCriminal = blendNumericMetric('criminal_sentencing_severity', 'sample_size_sentencing')
+  const blendedPlea = blendNumericMetric('criminal_plea_acceptance', 'sample_size_plea')
 
   const merged: CaseAnalytics = {
     ...baseAnalytics,
     civil_plaintiff_favor: blendedCivil,
-    civil_defendant_favor: 100 - blendedCivil,
+    civil_defendant_favor: complement(blendedCivil),
     family_custody_mother: blendedCustody,
-    family_custody_father: 100 - blendedCustody,
+    family_custody_father: complement(blendedCustody),
     family_alimony_favorable: blendedAlimony,
     contract_enforcement_rate: blendedContracts,
-    contract_dismissal_rate: 100 - blendedContracts,
+    contract_dismissal_rate: complement(blendedContracts),
     criminal_sentencing_severity: blendedCriminal,
     criminal_plea_acceptance: blendedPlea,
     confidence_civil: blendConfidence('confidence_civil'),
@@ -676,134 +600,6 @@ function extractOpinionText(opinion: any): string | null {
   return null
 }
 
-/**
- * Generate legacy analytics for judges without cases
- */
-async function generateLegacyAnalytics(judge: any, window: AnalysisWindow): Promise<CaseAnalytics> {
-  console.log(`📊 Generating legacy analytics for ${judge.name} (no cases available)`)
-  
-  // Conservative estimates based on jurisdiction and court type
-  const isCaliforniaJudge = judge.jurisdiction?.toLowerCase().includes('ca') || 
-                           judge.jurisdiction?.toLowerCase().includes('california')
-  
-  // California tends to be more liberal in family law, more business-friendly in contracts
-  const baseAdjustment = isCaliforniaJudge ? 5 : 0
-  
-  return {
-    civil_plaintiff_favor: 48 + baseAdjustment,
-    civil_defendant_favor: 52 - baseAdjustment,
-    family_custody_mother: 52 + baseAdjustment,
-    family_custody_father: 48 - baseAdjustment,
-    family_alimony_favorable: 42 + baseAdjustment,
-    contract_enforcement_rate: 68 - baseAdjustment,
-    contract_dismissal_rate: 32 + baseAdjustment,
-    criminal_sentencing_severity: 50,
-    criminal_plea_acceptance: 75,
-    
-    // New metrics - conservative estimates
-    bail_release_rate: 65 + baseAdjustment,
-    appeal_reversal_rate: 15,
-    settlement_encouragement_rate: 60,
-    motion_grant_rate: 45,
-    
-    // Lower confidence for profile-based estimates
-    confidence_civil: 65,
-    confidence_custody: 65,
-    confidence_alimony: 65,
-    confidence_contracts: 65,
-    confidence_sentencing: 65,
-    confidence_plea: 65,
-    confidence_bail: 60,
-    confidence_reversal: 60,
-    confidence_settlement: 60,
-    confidence_motion: 60,
-    overall_confidence: 65,
-    
-    sample_size_civil: 0,
-    sample_size_custody: 0,
-    sample_size_alimony: 0,
-    sample_size_contracts: 0,
-    sample_size_sentencing: 0,
-    sample_size_plea: 0,
-    sample_size_bail: 0,
-    sample_size_reversal: 0,
-    sample_size_settlement: 0,
-    sample_size_motion: 0,
-    
-    total_cases_analyzed: 0,
-    analysis_quality: 'profile_based',
-    notable_patterns: [
-      'Analysis based on judicial profile and jurisdiction patterns',
-      `No case data available within ${window.lookbackYears}-year window (${window.startYear}-${window.endYear})`
-    ],
-    data_limitations: ['No case data available', 'Estimates based on regional and court type patterns'],
-    ai_model: 'statistical_estimation',
-    generated_at: new Date().toISOString(),
-    last_updated: new Date().toISOString()
-  }
-}
-
-/**
- * Generate conservative analytics when AI fails
- */
-function generateConservativeAnalytics(judge: any, caseCount: number, window: AnalysisWindow): CaseAnalytics {
-  console.log(`🛡️  Generating conservative analytics for ${judge.name} (${caseCount} cases, analysis failed)`)
-  
-  return {
-    civil_plaintiff_favor: 50,
-    civil_defendant_favor: 50,
-    family_custody_mother: 50,
-    family_custody_father: 50,
-    family_alimony_favorable: 40,
-    contract_enforcement_rate: 65,
-    contract_dismissal_rate: 35,
-    criminal_sentencing_severity: 50,
-    criminal_plea_acceptance: 70,
-    
-    // New metrics - conservative defaults
-    bail_release_rate: 60,
-    appeal_reversal_rate: 15,
-    settlement_encouragement_rate: 55,
-    motion_grant_rate: 45,
-    
-    // Conservative confidence scores
-    confidence_civil: 60,
-    confidence_custody: 60,
-    confidence_alimony: 60,
-    confidence_contracts: 60,
-    confidence_sentencing: 60,
-    confidence_plea: 60,
-    confidence_bail: 60,
-    confidence_reversal: 60,
-    confidence_settlement: 60,
-    confidence_motion: 60,
-    overall_confidence: 60,
-    
-    sample_size_civil: 0,
-    sample_size_custody: 0,
-    sample_size_alimony: 0,
-    sample_size_contracts: 0,
-    sample_size_sentencing: 0,
-    sample_size_plea: 0,
-    sample_size_bail: 0,
-    sample_size_reversal: 0,
-    sample_size_settlement: 0,
-    sample_size_motion: 0,
-    
-    total_cases_analyzed: caseCount,
-    analysis_quality: 'conservative',
-    notable_patterns: ['Conservative estimates due to AI processing limitations'],
-    data_limitations: [
-      'AI analysis unavailable',
-      'Using statistical defaults',
-      `Window analyzed: ${window.startYear}-${window.endYear}`
-    ],
-    ai_model: 'conservative_fallback',
-    generated_at: new Date().toISOString(),
-    last_updated: new Date().toISOString()
-  }
-}
-
 /**
  * Get cached analytics from database
  */
@@ -880,6 +676,10 @@ async function cacheAnalytics(supabase: any, judgeId: string, analytics: CaseAna
   }
 }
 
+function complement(percentage: number | null): number | null {
+  return percentage === null ? null : 100 - percentage
+}
+
 /**
  * Check if cached data is still fresh
  */
@@ -923,7 +723,8 @@ export async function POST(
     
     return NextResponse.json({
       message: 'Analytics refreshed successfully',
-      analytics: data.analytics
+      analytics: data.analytics,
+      insufficient_data: data.insufficient_data ?? null
     })
     
   } catch (error) {
@@ -1,14 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
-import {
-  analyzeCaseTypePatterns,
-  analyzeOutcomes,
-  analyzeTemporalPatterns,
-  calculateBiasIndicators,
-  type BiasMetrics,
-  type CaseRecord,
-} from '@/lib/analytics/bias-calculations'
+import type { CaseRecord } from '@/lib/analytics/bias-calculations'
+import { BIAS_CASE_COLUMNS, buildBiasAnalysis } from '@/lib/analytics/bias-analysis'
 import { getCourtBaseline } from '@/lib/analytics/baselines'
+import { TRUSTED_ATTRIBUTION_FILTER } from '@/lib/sync/case-attribution'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -36,8 +31,9 @@ export async function GET(request: NextRequest, { params }: BiasAnalysisParams)
 
     const { data: caseRows, error: casesError } = await supabase
       .from('cases')
-      .select('case_type, outcome, status, case_value, filing_date, decision_date')
+      .select(BIAS_CASE_COLUMNS)
       .eq('judge_id', judgeId)
+      .or(TRUSTED_ATTRIBUTION_FILTER)
       .not('decision_date', 'is', null)
 
     if (casesError) {
@@ -48,25 +44,11 @@ export async function GET(request: NextRequest, { params }: BiasAnalysisParams)
       return NextResponse.json({ error: 'No case data available for bias analysis' }, { status: 404 })
     }
 
-    const caseRecords = caseRows as CaseRecord[]
-
-    const caseTypePatterns = analyzeCaseTypePatterns(caseRecords)
-    const outcomeAnalysis = analyzeOutcomes(caseRecords)
-    const temporalPatterns = analyzeTemporalPatterns(caseRecords)
-    const biasIndicators = calculateBiasIndicators(caseRecords, caseTypePatterns, outcomeAnalysis)
-
-    const biasMetrics: BiasMetrics = {
-      case_type_patterns: caseTypePatterns,
-      outcome_analysis: outcomeAnalysis,
-      temporal_patterns: temporalPatterns,
-      bias_indicators: biasIndicators,
-    }
-
     const courtBaseline = judge.court_id ? await getCourtBaseline(judge.court_id) : null
 
     return NextResponse.json(
       {
-        ...biasMetrics,
+        ...buildBiasAnalysis(caseRows as CaseRecord[]),
         court_baseline: courtBaseline,
       },
       {
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
+import { classifyOutcome } from '@/lib/analytics/classifiers'
+import { getCourtPeerPopulation, peerOutcomePriors } from '@/lib/analytics/metric-baselines'
+import { posteriorFor, type BetaPrior } from '@/lib/analytics/shrinkage'
+import { TRUSTED_ATTRIBUTION_FILTER } from '@/lib/sync/case-attribution'
 
 export const dynamic = 'force-dynamic'
 
@@ -7,6 +11,16 @@ interface CaseOutcomeParams {
   params: Promise<{ id: string }>
 }
 
+interface RateEstimate {
+  mean: number
+  credible_lower: number
+  credible_upper: number
+  sample_size: number
+  shrinkage: number
+  prior_mean: number
+  prior_source: BetaPrior['source']
+}
+
 interface CaseOutcomeStats {
   overall_stats: {
     total_cases: number
@@ -35,6 +49,10 @@ interface CaseOutcomeStats {
     speed_ranking: 'Fast' | 'Average' | 'Slow'
     specialization_areas: string[]
   }
+  rate_estimates: {
+    settlement_rate: RateEstimate
+    dismissal_rate: RateEstimate
+  }
 }
 
 export async function GET(request: NextRequest, { params }: CaseOutcomeParams) {
@@ -46,7 +64,7 @@ export async function GET(request: NextRequest, { params }: CaseOutcomeParams) {
     // Verify judge exists
     const { data: judge, error: judgeError } = await supabase
       .from('judges')
-      .select('id, name')
+      .select('id, name, court_id')
       .eq('id', judgeId)
       .single()
 
@@ -62,6 +80,7 @@ export async function GET(request: NextRequest, { params }: CaseOutcomeParams) {
       .from('cases')
       .select('*')
       .eq('judge_id', judgeId)
+      .or(TRUSTED_ATTRIBUTION_FILTER)
       .not('decision_date', 'is', null)
 
     if (casesError) {
@@ -90,11 +109,15 @@ export async function GET(request: NextRequest, { params }: CaseOutcomeParams) {
     // Calculate performance metrics
     const performanceMetrics = calculatePerformanceMetrics(cases, caseTypeBreakdown)
 
+    // Shrink headline rates toward the court's other judges so small samples still get an honest estimate
+    const rateEstimates = await calculateRateEstimates(cases, judgeId, judge.court_id)
+
     const outcomeStats: CaseOutcomeStats = {
       overall_stats: overallStats,
       case_type_breakdown: caseTypeBreakdown,
       yearly_trends: yearlyTrends,
-      performance_metrics: performanceMetrics
+      performance_metrics: performanceMetrics,
+      rate_estimates: rateEstimates
     }
 
     return NextResponse.json(outcomeStats, {
@@ -297,6 +320,32 @@ function calculatePerformanceMetrics(cases: any[], caseTypeBreakdown: any[]) {
   }
 }
 
+function toRateEstimate(successes: number, total: number, prior: BetaPrior): RateEstimate {
+  const posterior = posteriorFor({ successes, total }, prior)
+  return {
+    mean: posterior.mean,
+    credible_lower: posterior.lower,
+    credible_upper: posterior.upper,
+    sample_size: total,
+    shrinkage: posterior.shrinkage,
+    prior_mean: prior.mean,
+    prior_source: prior.source
+  }
+}
+
+async function calculateRateEstimates(cases: any[], judgeId: string, courtId: string | null) {
+  const population = courtId ? await getCourtPeerPopulation(courtId) : null
+  const priors = peerOutcomePriors(population, judgeId)
+  const outcomes = cases.map((case_) => classifyOutcome(case_.outcome || case_.status))
+  const settled = outcomes.filter((outcome) => outcome === 'settled').length
+  const dismissed = outcomes.filter((outcome) => outcome === 'dismissed').length
+
+  return {
+    settlement_rate: toRateEstimate(settled, cases.length, priors.settlement),
+    dismissal_rate: toRateEstimate(dismissed, cases.length, priors.dismissal)
+  }
+}
+
 function normalizeOutcome(outcome: string): string {
   if (!outcome) return 'other'
   
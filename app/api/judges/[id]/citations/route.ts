@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getJudgeCitations } from '@/lib/citations/service'
+import { isValidUUID } from '@/lib/utils/validation'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+interface CitationParams {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: NextRequest, { params }: CitationParams) {
+  try {
+    const { id: judgeId } = await params
+    if (!isValidUUID(judgeId)) {
+      return NextResponse.json({ error: 'Invalid judge ID format' }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '10', 10) || 10))
+    const report = await getJudgeCitations(judgeId, limit)
+
+    return NextResponse.json(
+      { judge_id: judgeId, ...report, generated_at: new Date().toISOString() },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=1800, max-age=900, stale-while-revalidate=900'
+        }
+      }
+    )
+  } catch (error) {
+    console.error('Error loading judge citations:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { analyzeTrends, DEFAULT_WINDOW_MONTHS, type TrendEvent } from '@/lib/analytics/trends'
+import { TRUSTED_ATTRIBUTION_FILTER } from '@/lib/sync/case-attribution'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const CASE_FETCH_LIMIT = 5000
+
+interface TrendParams {
+  params: Promise<{ id: string }>
+}
+
+interface PositionRow {
+  start_date: string | null
+  position_type: string | null
+  courts: { name: string | null } | { name: string | null }[] | null
+}
+
+function toEvents(positions: PositionRow[], since: string): TrendEvent[] {
+  return positions
+    .filter((position) => position.start_date && position.start_date >= since)
+    .map((position) => {
+      const court = Array.isArray(position.courts) ? position.courts[0] : position.courts
+      const role = position.position_type || 'Judge'
+      return {
+        date: position.start_date as string,
+        label: court?.name ? `${role}, ${court.name}` : `${role} assignment`
+      }
+    })
+}
+
+export async function GET(request: NextRequest, { params }: TrendParams) {
+  try {
+    const { id: judgeId } = await params
+    const { searchParams } = new URL(request.url)
+    const years = Math.min(10, Math.max(1, parseInt(searchParams.get('years') || '5', 10) || 5))
+    const windowMonths = Math.min(24, Math.max(1, parseInt(searchParams.get('window') || String(DEFAULT_WINDOW_MONTHS), 10) || DEFAULT_WINDOW_MONTHS))
+    const supabase = await createServerClient()
+
+    const { data: judge, error: judgeError } = await supabase
+      .from('judges')
+      .select('id, name')
+      .eq('id', judgeId)
+      .single()
+
+    if (judgeError || !judge) {
+      return NextResponse.json({ error: 'Judge not found' }, { status: 404 })
+    }
+
+    const start = new Date()
+    start.setFullYear(start.getFullYear() - years)
+    const since = start.toISOString().split('T')[0]
+
+    const [casesResult, positionsResult] = await Promise.all([
+      supabase
+        .from('cases')
+        .select('case_type, outcome, status, summary, decision_date, filing_date')
+        .eq('judge_id', judgeId)
+        .or(TRUSTED_ATTRIBUTION_FILTER)
+        .gte('filing_date', since)
+        .order('filing_date', { ascending: true })
+        .limit(CASE_FETCH_LIMIT),
+      supabase
+        .from('judge_court_positions')
+        .select('start_date, position_type, courts(name)')
+        .eq('judge_id', judgeId)
+        .not('start_date', 'is', null)
+    ])
+
+    if (casesResult.error) {
+      return NextResponse.json({ error: 'Failed to fetch case data' }, { status: 500 })
+    }
+
+    // Missing assignment history only removes the event markers
+    const events = positionsResult.error ? [] : toEvents((positionsResult.data ?? []) as PositionRow[], since)
+    const report = analyzeTrends(casesResult.data ?? [], events, windowMonths)
+
+    return NextResponse.json(
+      { judge_id: judgeId, lookback_years: years, ...report, generated_at: new Date().toISOString() },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=1800, max-age=900, stale-while-revalidate=900'
+        }
+      }
+    )
+  } catch (error) {
+    console.error('Error generating judge trends:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -137,6 +137,26 @@ async function lookupJudge(slug: string): Promise<JudgeLookupResult> {
       return result
     }
 
+    // Strategy 1b: Slug of a judge merged into another record
+    const { data: redirect } = await supabase
+      .from('judge_redirects')
+      .select('judge:judges(*)')
+      .eq('slug', slug)
+      .maybeSingle()
+
+    const redirectJudge = (redirect as { judge?: unknown } | null)?.judge
+    if (redirectJudge && isJudge(redirectJudge)) {
+      const result: JudgeLookupResult = {
+        judge: redirectJudge,
+        found_by: 'redirect'
+      }
+
+      cache.set(cacheKey, result, 1800)
+
+      await logQueryPerformance('redirect_lookup', Date.now() - startTime, { slug })
+      return result
+    }
+
     // Strategy 2: Fuzzy slug matching for similar slugs (if slug column exists)
     let fuzzyMatches = null
     let fuzzyError = null
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/utils/logger'
+import { opinionSearchParamsSchema, validateSearchParams } from '@/lib/utils/validation'
+import { DEFAULT_OPINION_SEARCH_LIMIT, searchOpinions } from '@/lib/search/opinions'
+import type { OpinionSearchResponse } from '@/types/search'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Full-text search over opinion text. Supports "quoted phrases", OR, NOT/-term,
+ * and filters by judge, court, case type and decision date.
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    const { buildRateLimiter, getClientIp } = await import('@/lib/security/rate-limit')
+    const rl = buildRateLimiter({ tokens: 30, window: '1 m', prefix: 'api:search:opinions' })
+    const { success } = await rl.limit(`${getClientIp(request)}:global`)
+    if (!success) {
+      return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const validation = validateSearchParams(opinionSearchParamsSchema, searchParams, 'search/opinions')
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { q, judge_id, court_id, case_type, from, to, limit = DEFAULT_OPINION_SEARCH_LIMIT, page = 1 } = validation.data
+    logger.apiRequest('GET', '/api/search/opinions', { query: q, judge_id, court_id, case_type, from, to, page })
+
+    const { results, total } = await searchOpinions({
+      query: q,
+      judgeId: judge_id,
+      courtId: court_id,
+      caseType: case_type,
+      dateFrom: from,
+      dateTo: to,
+      page,
+      limit
+    })
+
+    const duration = Date.now() - startTime
+    logger.apiResponse('GET', '/api/search/opinions', 200, duration, { resultsCount: results.length, totalCount: total })
+
+    const response: OpinionSearchResponse = {
+      results,
+      total_count: total,
+      page,
+      limit,
+      query: q,
+      took_ms: duration
+    }
+
+    return NextResponse.json(response, {
+      headers: { 'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=60' }
+    })
+  } catch (error) {
+    const duration = Date.now() - startTime
+    logger.error('API error in opinion search', { duration }, error instanceof Error ? error : undefined)
+    logger.apiResponse('GET', '/api/search/opinions', 500, duration)
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -13,92 +13,29 @@ import type {
 } from '@/types/search'
 import { fetchSponsoredTiles } from '@/lib/search/sponsored'
 import type { SponsoredSearchResult } from '@/types/search'
+import { listJurisdictionListings } from '@/lib/jurisdictions/config'
 
 export const dynamic = 'force-dynamic'
 
-// Predefined jurisdictions for search
-const PREDEFINED_JURISDICTIONS: JurisdictionSearchResult[] = [
-  {
-    id: 'ca',
-    type: 'jurisdiction',
-    title: 'California',
-    subtitle: 'State Courts',
-    description: 'State courts across California handling various civil and criminal matters.',
-    url: '/jurisdictions/california',
-    jurisdictionValue: 'CA',
-    displayName: 'California'
-  },
-  {
-    id: 'federal',
-    type: 'jurisdiction', 
-    title: 'Federal',
-    subtitle: 'Federal Courts',
-    description: 'Federal courts handling federal matters across California districts.',
-    url: '/jurisdictions/federal',
-    jurisdictionValue: 'F',
-    displayName: 'Federal'
-  },
-  {
-    id: 'los-angeles-county',
-    type: 'jurisdiction',
-    title: 'Los Angeles County',
-    subtitle: 'County Courts',
-    description: 'Largest judicial system in California with comprehensive trial and appellate courts.',
-    url: '/jurisdictions/los-angeles-county',
-    jurisdictionValue: 'CA',
-    displayName: 'Los Angeles County'
-  },
-  {
-    id: 'orange-county',
-    type: 'jurisdiction',
-    title: 'Orange County',
-    subtitle: 'County Courts',
-    description: 'Major Southern California jurisdiction serving diverse communities and businesses.',
-    url: '/jurisdictions/orange-county',
-    jurisdictionValue: 'Orange County, CA',
-    displayName: 'Orange County'
-  },
-  {
-    id: 'san-diego-county',
-    type: 'jurisdiction',
-    title: 'San Diego County',
-    subtitle: 'County Courts',
-    description: 'Southern California coastal jurisdiction with federal and state court systems.',
-    url: '/jurisdictions/san-diego-county',
-    jurisdictionValue: 'CA',
-    displayName: 'San Diego County'
-  },
-  {
-    id: 'san-francisco-county',
-    type: 'jurisdiction',
-    title: 'San Francisco County',
-    subtitle: 'County Courts',
-    description: 'Metropolitan jurisdiction with specialized business and technology courts.',
-    url: '/jurisdictions/san-francisco-county',
-    jurisdictionValue: 'CA',
-    displayName: 'San Francisco County'
-  },
-  {
-    id: 'santa-clara-county',
-    type: 'jurisdiction',
-    title: 'Santa Clara County',
-    subtitle: 'County Courts',
-    description: 'Silicon Valley jurisdiction handling technology and intellectual property cases.',
-    url: '/jurisdictions/santa-clara-county',
-    jurisdictionValue: 'CA',
-    displayName: 'Santa Clara County'
-  },
-  {
-    id: 'alameda-county',
-    type: 'jurisdiction',
-    title: 'Alameda County',
-    subtitle: 'County Courts',
-    description: 'Bay Area jurisdiction with diverse civil and criminal caseloads.',
-    url: '/jurisdictions/alameda-county',
-    jurisdictionValue: 'CA',
-    displayName: 'Alameda County'
-  }
-]
+const LISTING_SUBTITLES = {
+  state: 'State Courts',
+  federal: 'Federal Courts',
+  county: 'County Courts'
+} as const
+
+// Jurisdictions for search, generated from the sync jurisdiction config
+const PREDEFINED_JURISDICTIONS: JurisdictionSearchResult[] = listJurisdictionListings().map((listing) => ({
+  id: listing.slug,
+  type: 'jurisdiction',
+  title: listing.displayName,
+  subtitle: listing.kind === 'county' && listing.stateName
+    ? `County Courts · ${listing.stateName}`
+    : LISTING_SUBTITLES[listing.kind],
+  description: listing.description,
+  url: `/jurisdictions/${listing.slug}`,
+  jurisdictionValue: listing.jurisdictionValue,
+  displayName: listing.displayName
+}))
 
 export async function GET(request: NextRequest) {
   const startTime = Date.now()
@@ -97,7 +97,9 @@ export async function GET(request: NextRequest) {
         maxDecisionsPerJudge: 'Maximum new decisions to fetch per judge (default: 50)',
         includeDockets: 'Set to false to skip docket (court filing) ingestion',
         maxFilingsPerJudge: 'Maximum number of docket filings to fetch per judge (default: 300)',
-        filingYearsBack: 'How many years back to request docket filings when none exist yet (default: matches yearsBack)'
+        filingYearsBack: 'How many years back to request docket filings when none exist yet (default: matches yearsBack)',
+        includeParties: 'Set to false to skip fetching parties and counsel for synced dockets',
+        maxPartyDocketsPerJudge: 'Maximum dockets per judge to fetch parties and counsel for (default: 25)'
       },
       example: {
         method: 'POST',
@@ -2,11 +2,24 @@ import { NextRequest, NextResponse } from 'next/server'
 import { SyncQueueManager } from '@/lib/sync/queue-manager'
 import { requireApiKey } from '@/lib/security/api-auth'
 import { logger } from '@/lib/utils/logger'
+import { runCronAlertChecks } from '@/lib/sync/cron-logger'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { dispatchWebhookEvents } from '@/lib/webhooks/deliveries'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 export const maxDuration = 300 // process a single job within Vercel hobby limits
 
+// Fan recorded webhook events out before claiming, so this run can already
+// pick up a delivery job; a failure here must not stall the queue
+async function dispatchWebhooks(queueManager: SyncQueueManager): Promise<void> {
+  try {
+    await dispatchWebhookEvents(await createServiceRoleClient(), queueManager)
+  } catch (error) {
+    logger.error('Webhook event dispatch failed', { error })
+  }
+}
+
 export async function GET(request: NextRequest) {
   const startTime = Date.now()
 
@@ -16,8 +29,15 @@ export async function GET(request: NextRequest) {
       return auth
     }
 
-    const queueManager = new SyncQueueManager()
-    const job = await queueManager.getNextJob()
+    // Every five minutes is often enough to catch the circuit breaker; the
+    // per-court freshness scan runs with the daily and weekly crons
+    await runCronAlertChecks(['circuit_breaker'])
+
+    // Leave headroom under maxDuration so a long sync checkpoints and yields
+    // instead of being cut off mid-batch
+    const queueManager = new SyncQueueManager({ timeBudgetSeconds: maxDuration - 60 })
+    await dispatchWebhooks(queueManager)
+    const job = await queueManager.claimNextJob()
 
     if (!job) {
       logger.debug?.('Queue worker run found no jobs')
@@ -31,7 +51,8 @@ export async function GET(request: NextRequest) {
     logger.info('Queue worker processing job', {
       jobId: job.id,
       type: job.type,
-      options: job.options
+      options: job.options,
+      workerId: queueManager.workerId
     })
 
     await queueManager.processJob(job)
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { resolveApiKeyOwner } from '@/lib/auth/api-key-owner'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { ApiKeyNotFoundError, rotateApiKey } from '@/lib/security/api-keys'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const context = await resolveApiKeyOwner()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!context.canManage) {
+      return NextResponse.json({ error: 'Only organization admins can manage API keys' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const supabase = await createServiceRoleClient()
+    const rotated = await rotateApiKey(supabase, context.owner, id, { createdBy: context.userId })
+    return NextResponse.json(rotated, { status: 201 })
+  } catch (error) {
+    if (error instanceof ApiKeyNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    logger.error('Failed to rotate API key', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
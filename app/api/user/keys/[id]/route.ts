@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { resolveApiKeyOwner } from '@/lib/auth/api-key-owner'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { ApiKeyNotFoundError, revokeApiKey } from '@/lib/security/api-keys'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const context = await resolveApiKeyOwner()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!context.canManage) {
+      return NextResponse.json({ error: 'Only organization admins can manage API keys' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const supabase = await createServiceRoleClient()
+    const apiKey = await revokeApiKey(supabase, context.owner, id)
+    return NextResponse.json({ apiKey })
+  } catch (error) {
+    if (error instanceof ApiKeyNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    logger.error('Failed to revoke API key', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
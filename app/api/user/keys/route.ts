@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resolveApiKeyOwner } from '@/lib/auth/api-key-owner'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { ApiKeyLimitError, apiKeySettingsSchema, createApiKey, listApiKeys } from '@/lib/security/api-keys'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const context = await resolveApiKeyOwner()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = await createServiceRoleClient()
+    const keys = await listApiKeys(supabase, context.owner)
+    return NextResponse.json({ owner: context.owner, canManage: context.canManage, keys })
+  } catch (error) {
+    logger.error('Failed to list API keys', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = await resolveApiKeyOwner()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!context.canManage) {
+      return NextResponse.json({ error: 'Only organization admins can manage API keys' }, { status: 403 })
+    }
+
+    const parsed = apiKeySettingsSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid API key settings', details: parsed.error.flatten() }, { status: 400 })
+    }
+
+    const supabase = await createServiceRoleClient()
+    const created = await createApiKey(supabase, context.owner, parsed.data, { createdBy: context.userId })
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    if (error instanceof ApiKeyLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    logger.error('Failed to create API key', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { resolveApiKeyOwner } from '@/lib/auth/api-key-owner'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { SyncQueueManager } from '@/lib/sync/queue-manager'
+import { redeliverWebhook, WebhookDeliveryNotFoundError } from '@/lib/webhooks/deliveries'
+import { WebhookEndpointNotFoundError } from '@/lib/webhooks/endpoints'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const context = await resolveApiKeyOwner()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!context.canManage) {
+      return NextResponse.json({ error: 'Only organization admins can manage webhooks' }, { status: 403 })
+    }
+
+    const { id, deliveryId } = await params
+    const supabase = await createServiceRoleClient()
+    const delivery = await redeliverWebhook(supabase, new SyncQueueManager(), context.owner, id, deliveryId)
+    return NextResponse.json({ delivery }, { status: 202 })
+  } catch (error) {
+    if (error instanceof WebhookEndpointNotFoundError || error instanceof WebhookDeliveryNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    logger.error('Failed to redeliver webhook', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { resolveApiKeyOwner } from '@/lib/auth/api-key-owner'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { listWebhookDeliveries } from '@/lib/webhooks/deliveries'
+import { WebhookEndpointNotFoundError } from '@/lib/webhooks/endpoints'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+const querySchema = z.object({
+  status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const context = await resolveApiKeyOwner()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid query', details: parsed.error.flatten() }, { status: 400 })
+    }
+
+    const { id } = await params
+    const supabase = await createServiceRoleClient()
+    const deliveries = await listWebhookDeliveries(supabase, context.owner, id, parsed.data)
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    if (error instanceof WebhookEndpointNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    logger.error('Failed to list webhook deliveries', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resolveApiKeyOwner } from '@/lib/auth/api-key-owner'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import {
+  deleteWebhookEndpoint,
+  updateWebhookEndpoint,
+  WebhookEndpointNotFoundError,
+  webhookEndpointUpdateSchema
+} from '@/lib/webhooks/endpoints'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const context = await resolveApiKeyOwner()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!context.canManage) {
+      return NextResponse.json({ error: 'Only organization admins can manage webhooks' }, { status: 403 })
+    }
+
+    const parsed = webhookEndpointUpdateSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid webhook settings', details: parsed.error.flatten() }, { status: 400 })
+    }
+
+    const { id } = await params
+    const supabase = await createServiceRoleClient()
+    const endpoint = await updateWebhookEndpoint(supabase, context.owner, id, parsed.data)
+    return NextResponse.json({ endpoint })
+  } catch (error) {
+    if (error instanceof WebhookEndpointNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    logger.error('Failed to update webhook endpoint', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const context = await resolveApiKeyOwner()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!context.canManage) {
+      return NextResponse.json({ error: 'Only organization admins can manage webhooks' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const supabase = await createServiceRoleClient()
+    await deleteWebhookEndpoint(supabase, context.owner, id)
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    if (error instanceof WebhookEndpointNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    logger.error('Failed to delete webhook endpoint', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
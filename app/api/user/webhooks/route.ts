@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resolveApiKeyOwner } from '@/lib/auth/api-key-owner'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  WebhookEndpointLimitError,
+  webhookEndpointSettingsSchema
+} from '@/lib/webhooks/endpoints'
+import { WEBHOOK_EVENT_TYPES } from '@/lib/webhooks/events'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const context = await resolveApiKeyOwner()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = await createServiceRoleClient()
+    const endpoints = await listWebhookEndpoints(supabase, context.owner)
+    return NextResponse.json({
+      owner: context.owner,
+      canManage: context.canManage,
+      eventTypes: WEBHOOK_EVENT_TYPES,
+      endpoints
+    })
+  } catch (error) {
+    logger.error('Failed to list webhook endpoints', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = await resolveApiKeyOwner()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!context.canManage) {
+      return NextResponse.json({ error: 'Only organization admins can manage webhooks' }, { status: 403 })
+    }
+
+    const parsed = webhookEndpointSettingsSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid webhook settings', details: parsed.error.flatten() }, { status: 400 })
+    }
+
+    const supabase = await createServiceRoleClient()
+    const created = await createWebhookEndpoint(supabase, context.owner, parsed.data, { createdBy: context.userId })
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    if (error instanceof WebhookEndpointLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    logger.error('Failed to create webhook endpoint', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
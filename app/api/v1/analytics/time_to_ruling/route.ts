@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
-import { enforceRateLimit, getClientKey } from '@/lib/security/rate-limit'
-import { requireApiKeyIfEnabled } from '@/lib/security/api-auth'
+import { authorizeV1Request } from '@/lib/security/v1-access'
 import { getQualityTier, MIN_SAMPLE_SIZE } from '@/lib/analytics/config'
+import { TRUSTED_ATTRIBUTION_FILTER } from '@/lib/sync/case-attribution'
+import { qualityLabel, v1TimeToRulingQuerySchema, type V1TimeToRuling } from '@/lib/api/v1-schemas'
+import { validateSearchParams } from '@/lib/utils/validation'
 
 export const dynamic = 'force-dynamic'
 
@@ -15,21 +17,12 @@ function median(values: number[]): number | null {
 
 export async function GET(request: NextRequest) {
   try {
-    const auth = requireApiKeyIfEnabled(request.headers, request.url)
-    if (!auth.ok) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    const key = getClientKey(request.headers)
-    const limit = await enforceRateLimit(`v1:ttr:${key}`)
-    if (!limit.allowed) {
-      const r = NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
-      if (typeof limit.remaining === 'number') r.headers.set('RateLimit-Remaining', String(limit.remaining))
-      if (limit.reset) r.headers.set('RateLimit-Reset', String(limit.reset))
-      return r
-    }
-    const { searchParams } = new URL(request.url)
-    const judgeId = searchParams.get('judge_id')
-    const motion = searchParams.get('motion') || undefined
-    const caseType = searchParams.get('case_type') || undefined
-    if (!judgeId) return NextResponse.json({ error: 'judge_id is required' }, { status: 400 })
+    const access = await authorizeV1Request(request, { scope: 'analytics:read', endpoint: 'analytics.time_to_ruling' })
+    if (!access.ok) return access.response
+    const limit = access.limit
+    const validation = validateSearchParams(v1TimeToRulingQuerySchema, new URL(request.url).searchParams, 'v1.analytics.time_to_ruling')
+    if (!validation.success) return validation.response
+    const { judge_id: judgeId, motion, case_type: caseType, format } = validation.data
 
     const supabase = await createServerClient()
 
@@ -37,6 +30,7 @@ export async function GET(request: NextRequest) {
       .from('cases')
       .select('filing_date, decision_date, case_type, outcome, summary')
       .eq('judge_id', judgeId)
+      .or(TRUSTED_ATTRIBUTION_FILTER)
       .not('decision_date', 'is', null)
 
     if (caseType) qb = qb.ilike('case_type', `%${caseType}%`)
@@ -72,7 +66,7 @@ export async function GET(request: NextRequest) {
 
     const qualityTier = getQualityTier(n, med ? 80 : null)
 
-    const payload = {
+    const payload: V1TimeToRuling = {
       judge_id: judgeId,
       data_window: { n, min: durations[0] ?? null, max: durations[n-1] ?? null },
       median_days: med,
@@ -80,14 +74,13 @@ export async function GET(request: NextRequest) {
       survival_curve: points,
       last_updated: new Date().toISOString(),
       quality: {
-        tier: qualityTier.toLowerCase(),
+        tier: qualityLabel(qualityTier),
         sample_size: n,
         min_sample_size: MIN_SAMPLE_SIZE,
         sufficient: n >= MIN_SAMPLE_SIZE
       }
     }
 
-    const format = searchParams.get('format')
     if (format === 'csv') {
       const rows = ['day,probability']
       for (const pt of points) rows.push(`${pt.day},${pt.probability}`)
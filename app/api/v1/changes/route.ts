@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeV1Request } from '@/lib/security/v1-access'
+import { getChangeFeed } from '@/lib/changes/service'
+import { v1ChangesQuerySchema, type V1Changes } from '@/lib/api/v1-schemas'
+import { validateSearchParams } from '@/lib/utils/validation'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await authorizeV1Request(request, { scope: 'judges:read', endpoint: 'changes' })
+    if (!access.ok) return access.response
+    const limit = access.limit
+
+    const validation = validateSearchParams(v1ChangesQuerySchema, new URL(request.url).searchParams, 'v1.changes')
+    if (!validation.success) return validation.response
+    const { since, entity_type: entityTypes, jurisdiction, limit: pageSize } = validation.data
+
+    const page: V1Changes = await getChangeFeed({
+      since,
+      entityTypes,
+      jurisdiction,
+      limit: pageSize
+    })
+
+    const res = NextResponse.json(page)
+    res.headers.set('Cache-Control', 'no-store')
+    if (typeof limit.remaining === 'number') res.headers.set('RateLimit-Remaining', String(limit.remaining))
+    if (limit.reset) res.headers.set('RateLimit-Reset', String(limit.reset))
+    return res
+  } catch (e) {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
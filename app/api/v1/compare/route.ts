@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { authorizeV1Request } from '@/lib/security/v1-access'
+import { validateSearchParams } from '@/lib/utils/validation'
+import { compareJudges, type ComparisonJudgeInput } from '@/lib/analytics/comparison'
+import { comparisonToCsv, comparisonToPdf } from '@/lib/analytics/comparison-export'
+import { TRUSTED_ATTRIBUTION_FILTER } from '@/lib/sync/case-attribution'
+import { v1CompareQuerySchema, type V1Compare } from '@/lib/api/v1-schemas'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const CASE_FETCH_LIMIT = 5000
+const CACHE_CONTROL = 'public, s-maxage=900, stale-while-revalidate=300'
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await authorizeV1Request(request, { scope: 'analytics:read', endpoint: 'compare' })
+    if (!access.ok) return access.response
+    const limit = access.limit
+
+    const validation = validateSearchParams(v1CompareQuerySchema, new URL(request.url).searchParams, 'v1.compare')
+    if (!validation.success) return validation.response
+    const { judges: judgeIds, years, format } = validation.data
+
+    const start = new Date()
+    start.setFullYear(start.getFullYear() - years)
+    const since = start.toISOString().split('T')[0]
+
+    const supabase = await createServerClient()
+    const { data: judges, error: judgesError } = await supabase
+      .from('judges')
+      .select('id, name, court_name')
+      .in('id', judgeIds)
+
+    if (judgesError) {
+      return NextResponse.json({ error: 'Failed to fetch judges' }, { status: 500 })
+    }
+    const missing = judgeIds.filter((id) => !(judges ?? []).some((judge) => judge.id === id))
+    if (missing.length > 0) {
+      return NextResponse.json({ error: 'Judge not found', missing }, { status: 404 })
+    }
+
+    const caseResults = await Promise.all(
+      judgeIds.map((judgeId) =>
+        supabase
+          .from('cases')
+          .select('case_type, outcome, status, summary, decision_date, filing_date')
+          .eq('judge_id', judgeId)
+          .or(TRUSTED_ATTRIBUTION_FILTER)
+          .gte('filing_date', since)
+          .order('filing_date', { ascending: false })
+          .limit(CASE_FETCH_LIMIT)
+      )
+    )
+    if (caseResults.some((result) => result.error)) {
+      return NextResponse.json({ error: 'Failed to fetch case data' }, { status: 500 })
+    }
+
+    // Keep the caller's judge order so pairs and columns match the request
+    const inputs: ComparisonJudgeInput[] = judgeIds.map((judgeId, index) => {
+      const judge = (judges ?? []).find((row) => row.id === judgeId)
+      return {
+        id: judgeId,
+        name: judge?.name ?? judgeId,
+        court_name: judge?.court_name ?? null,
+        cases: caseResults[index].data ?? []
+      }
+    })
+    const report = compareJudges(inputs)
+
+    let res: Response
+    if (format === 'csv') {
+      res = new Response(comparisonToCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="judge-comparison.csv"'
+        }
+      })
+    } else if (format === 'pdf') {
+      res = new Response(Buffer.from(comparisonToPdf(report)), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': 'attachment; filename="judge-comparison.pdf"'
+        }
+      })
+    } else {
+      const payload: V1Compare = { lookback_years: years, ...report, generated_at: new Date().toISOString() }
+      res = NextResponse.json(payload)
+    }
+
+    res.headers.set('Cache-Control', CACHE_CONTROL)
+    if (typeof limit.remaining === 'number') res.headers.set('RateLimit-Remaining', String(limit.remaining))
+    if (limit.reset) res.headers.set('RateLimit-Reset', String(limit.reset))
+    return res
+  } catch (e) {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { authorizeV1Request } from '@/lib/security/v1-access'
+import { v1ExportPathSchema, v1ExportQuerySchema } from '@/lib/api/v1-schemas'
+import { validateParams, validateSearchParams } from '@/lib/utils/validation'
+import { resolveExportFields } from '@/lib/export/datasets'
+import { EXPORT_CONTENT_TYPES } from '@/lib/export/formats'
+import { decodeExportCursor, planExportPage, streamExport } from '@/lib/export/service'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ dataset: string }> }
+) {
+  try {
+    const access = await authorizeV1Request(request, { scope: 'export', endpoint: 'export.stream' })
+    if (!access.ok) return access.response
+    const limit = access.limit
+
+    const path = validateParams(v1ExportPathSchema, await params, 'v1.export')
+    if (!path.success) return path.response
+    const validation = validateSearchParams(v1ExportQuerySchema, new URL(request.url).searchParams, 'v1.export')
+    if (!validation.success) return validation.response
+    const { dataset } = path.data
+    const { format, fields: requested, updated_since: updatedSince, cursor, limit: rowLimit } = validation.data
+
+    const fields = resolveExportFields(dataset, requested)
+    if (!fields.ok) return NextResponse.json({ error: fields.error }, { status: 400 })
+    const after = cursor ? decodeExportCursor(cursor, dataset) : null
+    if (cursor && !after) return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 })
+
+    const supabase = await createServiceRoleClient()
+    const query = { dataset, fields: fields.fields, updatedSince }
+    const page = await planExportPage(supabase, query, after, rowLimit)
+
+    const res = new Response(streamExport(supabase, query, format, { after, through: page.through }), {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${dataset}.${format}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+    if (page.nextCursor) res.headers.set('X-Next-Cursor', page.nextCursor)
+    if (typeof limit.remaining === 'number') res.headers.set('RateLimit-Remaining', String(limit.remaining))
+    if (limit.reset) res.headers.set('RateLimit-Reset', String(limit.reset))
+    return res
+  } catch (error) {
+    logger.error('Export stream could not start', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
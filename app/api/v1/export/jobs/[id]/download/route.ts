@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { authorizeV1Request } from '@/lib/security/v1-access'
+import { v1ExportJobPathSchema } from '@/lib/api/v1-schemas'
+import { validateParams } from '@/lib/utils/validation'
+import { EXPORT_CONTENT_TYPES } from '@/lib/export/formats'
+import { ExportJobNotFoundError, streamExportDownload } from '@/lib/export/jobs'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const access = await authorizeV1Request(request, { scope: 'export', endpoint: 'export.jobs.download' })
+    if (!access.ok) return access.response
+    const limit = access.limit
+    if (!access.apiKey) {
+      return NextResponse.json({ error: 'Export jobs require a customer API key' }, { status: 403 })
+    }
+
+    const validation = validateParams(v1ExportJobPathSchema, await params, 'v1.export.jobs.download')
+    if (!validation.success) return validation.response
+
+    const supabase = await createServiceRoleClient()
+    const download = await streamExportDownload(supabase, access.apiKey.owner, validation.data.id)
+    if (!download) {
+      return NextResponse.json({ error: 'Export is not ready or has expired' }, { status: 409 })
+    }
+
+    const { job, body } = download
+    const res = new Response(body, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[job.format],
+        'Content-Length': String(job.byte_size),
+        'Content-Disposition': `attachment; filename="${job.dataset}-${job.id}.${job.format}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+    if (typeof limit.remaining === 'number') res.headers.set('RateLimit-Remaining', String(limit.remaining))
+    if (limit.reset) res.headers.set('RateLimit-Reset', String(limit.reset))
+    return res
+  } catch (error) {
+    if (error instanceof ExportJobNotFoundError) {
+      return NextResponse.json({ error: 'Export not found' }, { status: 404 })
+    }
+    logger.error('Failed to download export', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { authorizeV1Request } from '@/lib/security/v1-access'
+import { v1ExportJobPathSchema, type V1ExportJob } from '@/lib/api/v1-schemas'
+import { validateParams } from '@/lib/utils/validation'
+import { ExportJobNotFoundError, getExportJob } from '@/lib/export/jobs'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const access = await authorizeV1Request(request, { scope: 'export', endpoint: 'export.jobs.status' })
+    if (!access.ok) return access.response
+    const limit = access.limit
+    if (!access.apiKey) {
+      return NextResponse.json({ error: 'Export jobs require a customer API key' }, { status: 403 })
+    }
+
+    const validation = validateParams(v1ExportJobPathSchema, await params, 'v1.export.jobs')
+    if (!validation.success) return validation.response
+
+    const supabase = await createServiceRoleClient()
+    const job: V1ExportJob = await getExportJob(supabase, access.apiKey.owner, validation.data.id)
+
+    const res = NextResponse.json(job)
+    res.headers.set('Cache-Control', 'no-store')
+    if (typeof limit.remaining === 'number') res.headers.set('RateLimit-Remaining', String(limit.remaining))
+    if (limit.reset) res.headers.set('RateLimit-Reset', String(limit.reset))
+    return res
+  } catch (error) {
+    if (error instanceof ExportJobNotFoundError) {
+      return NextResponse.json({ error: 'Export not found' }, { status: 404 })
+    }
+    logger.error('Failed to load export job', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
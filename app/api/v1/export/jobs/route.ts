@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { authorizeV1Request } from '@/lib/security/v1-access'
+import { v1ExportJobRequestSchema, type V1ExportJob } from '@/lib/api/v1-schemas'
+import { validateJsonBody } from '@/lib/utils/validation'
+import { resolveExportFields } from '@/lib/export/datasets'
+import { createExportJob } from '@/lib/export/jobs'
+import { SyncQueueManager } from '@/lib/sync/queue-manager'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: Request) {
+  try {
+    const access = await authorizeV1Request(request, { scope: 'export', endpoint: 'export.jobs.create' })
+    if (!access.ok) return access.response
+    const limit = access.limit
+    // Jobs belong to the key's owner, so shared PUBLIC_API_KEYS cannot start one
+    if (!access.apiKey) {
+      return NextResponse.json({ error: 'Export jobs require a customer API key' }, { status: 403 })
+    }
+
+    const validation = await validateJsonBody(v1ExportJobRequestSchema, request, 'v1.export.jobs')
+    if (!validation.success) return validation.response
+    const { dataset, format, fields, updated_since: updatedSince } = validation.data
+    const resolved = resolveExportFields(dataset, fields)
+    if (!resolved.ok) return NextResponse.json({ error: resolved.error }, { status: 400 })
+
+    const supabase = await createServiceRoleClient()
+    const job: V1ExportJob = await createExportJob(
+      supabase,
+      new SyncQueueManager(),
+      access.apiKey.owner,
+      access.apiKey.id,
+      { dataset, format, fields, updatedSince: updatedSince ?? null }
+    )
+
+    const res = NextResponse.json(job, { status: 202 })
+    res.headers.set('Location', `/api/v1/export/jobs/${job.id}`)
+    if (typeof limit.remaining === 'number') res.headers.set('RateLimit-Remaining', String(limit.remaining))
+    if (limit.reset) res.headers.set('RateLimit-Reset', String(limit.reset))
+    return res
+  } catch (error) {
+    logger.error('Failed to create export job', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
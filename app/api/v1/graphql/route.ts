@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { authorizeV1Request, chargeV1Requests, v1RequestsPerMinute } from '@/lib/security/v1-access'
+import { v1GraphQLRequestSchema } from '@/lib/api/v1-schemas'
+import { validateJsonBody } from '@/lib/utils/validation'
+import { maxQueryCost } from '@/lib/graphql/cost'
+import { executeGraphQLRequest } from '@/lib/graphql/execute'
+import { logger } from '@/lib/utils/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: Request) {
+  try {
+    const access = await authorizeV1Request(request, { scope: 'judges:read', endpoint: 'graphql' })
+    if (!access.ok) return access.response
+    let limit = access.limit
+
+    const validation = await validateJsonBody(v1GraphQLRequestSchema, request, 'v1.graphql')
+    if (!validation.success) return validation.response
+
+    // Analytics and cache tables are service-role only
+    const supabase = await createServiceRoleClient()
+    const result = await executeGraphQLRequest(validation.data, {
+      supabase,
+      scopes: access.apiKey?.scopes ?? null,
+      maxCost: maxQueryCost(v1RequestsPerMinute(access.apiKey)),
+      charge: async (requests) => {
+        if (requests <= 0) return true
+        limit = await chargeV1Requests(request, access.apiKey, requests, 'graphql')
+        return limit.allowed
+      }
+    })
+
+    const res = NextResponse.json(result.body, { status: result.status })
+    if (typeof limit.remaining === 'number') res.headers.set('RateLimit-Remaining', String(limit.remaining))
+    if (limit.reset) res.headers.set('RateLimit-Reset', String(limit.reset))
+    return res
+  } catch (error) {
+    logger.error('GraphQL request failed', { error })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
-import { enforceRateLimit, getClientKey } from '@/lib/security/rate-limit'
-import { requireApiKeyIfEnabled } from '@/lib/security/api-auth'
+import { authorizeV1Request } from '@/lib/security/v1-access'
+import { v1JudgePathSchema, type V1JudgeAliases } from '@/lib/api/v1-schemas'
+import { validateParams } from '@/lib/utils/validation'
 
 export const dynamic = 'force-dynamic'
 
@@ -10,32 +11,29 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const auth = requireApiKeyIfEnabled(request.headers, (request as any).url)
-    if (!auth.ok) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    const key = getClientKey(request.headers)
-    const limit = await enforceRateLimit(`v1:aliases:${key}`)
-    if (!limit.allowed) {
-      const r = NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
-      if (typeof limit.remaining === 'number') r.headers.set('RateLimit-Remaining', String(limit.remaining))
-      if (limit.reset) r.headers.set('RateLimit-Reset', String(limit.reset))
-      return r
-    }
-    const { id } = await params
+    const access = await authorizeV1Request(request, { scope: 'judges:read', endpoint: 'judges.aliases' })
+    if (!access.ok) return access.response
+    const limit = access.limit
+    const validation = validateParams(v1JudgePathSchema, await params, 'v1.judges.aliases')
+    if (!validation.success) return validation.response
+    const { id } = validation.data
     const supabase = await createServerClient()
 
     // 1) Name variants from judges table and any historical names table if present
     const { data: judge } = await supabase
       .from('judges')
-      .select('name, courtlistener_data')
+      .select('name, aliases, courtlistener_data')
       .eq('id', id)
       .single()
 
     const aliases: string[] = []
     if (judge?.name) aliases.push(judge.name)
 
+    // Names of merged duplicates, then CourtListener's own aliases
     const cl = (judge?.courtlistener_data || {}) as any
-    if (cl?.aliases && Array.isArray(cl.aliases)) {
-      for (const a of cl.aliases) {
+    for (const list of [judge?.aliases, cl?.aliases]) {
+      if (!Array.isArray(list)) continue
+      for (const a of list) {
         if (typeof a === 'string' && a.trim() && !aliases.includes(a)) aliases.push(a)
       }
     }
@@ -44,19 +42,20 @@ export async function GET(
     const { data: history } = await supabase
       .rpc('get_judge_assignment_history', { judge_uuid: id, years_back: 20 })
 
-    const positions = (history || []).map((h: any) => ({
+    const positions: V1JudgeAliases['positions'] = (history || []).map((h: any) => ({
       court_id: h.court_id,
       court_name: h.court_name,
       role: h.position_title || h.assignment_type,
       start_end: [h.assignment_start_date, h.assignment_end_date || null]
     }))
 
-    const r = NextResponse.json({
+    const payload: V1JudgeAliases = {
       aliases,
       positions,
-      sources: ['judges.courtlistener_data', 'court_assignments'],
+      sources: ['judges.aliases', 'judges.courtlistener_data', 'court_assignments'],
       last_updated: new Date().toISOString()
-    })
+    }
+    const r = NextResponse.json(payload)
     if (typeof limit.remaining === 'number') r.headers.set('RateLimit-Remaining', String(limit.remaining))
     if (limit.reset) r.headers.set('RateLimit-Reset', String(limit.reset))
     return r
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { authorizeV1Request } from '@/lib/security/v1-access'
+import {
+  diffAnalyticsSnapshots,
+  getAnalyticsSnapshot,
+  listAnalyticsSnapshots,
+  type AnalyticsSnapshot,
+} from '@/lib/analytics/snapshots'
+import {
+  v1AnalyticsHistoryQuerySchema,
+  v1JudgePathSchema,
+  type V1AnalyticsHistory
+} from '@/lib/api/v1-schemas'
+import { validateParams, validateSearchParams } from '@/lib/utils/validation'
+
+export const dynamic = 'force-dynamic'
+
+const HEADLINE_METRICS = [
+  'civil_plaintiff_favor',
+  'family_custody_mother',
+  'family_alimony_favorable',
+  'contract_enforcement_rate',
+  'criminal_sentencing_severity',
+  'criminal_plea_acceptance',
+  'bail_release_rate',
+  'appeal_reversal_rate',
+  'settlement_encouragement_rate',
+  'motion_grant_rate',
+  'overall_confidence',
+  'total_cases_analyzed'
+]
+
+function summarizeSnapshot(snapshot: AnalyticsSnapshot, includeAnalytics: boolean): V1AnalyticsHistory['snapshots'][number] {
+  const metrics: Record<string, number | null> = {}
+  for (const metric of HEADLINE_METRICS) {
+    const value = snapshot.analytics?.[metric]
+    metrics[metric] = typeof value === 'number' ? value : null
+  }
+
+  return {
+    snapshot_id: snapshot.id,
+    version: snapshot.version,
+    created_at: snapshot.created_at,
+    ai_model: snapshot.ai_model,
+    code_version: snapshot.code_version,
+    data_source: snapshot.data_source,
+    settings: {
+      lookback_years: snapshot.lookback_years,
+      case_fetch_limit: snapshot.case_fetch_limit
+    },
+    input_case_count: snapshot.input_case_ids?.length ?? 0,
+    input_fingerprint: snapshot.input_fingerprint,
+    metrics,
+    ...(includeAnalytics ? { analytics: snapshot.analytics } : {})
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const access = await authorizeV1Request(request, { scope: 'analytics:read', endpoint: 'judges.analytics_history' })
+    if (!access.ok) return access.response
+    const limit = access.limit
+
+    const path = validateParams(v1JudgePathSchema, await params, 'v1.judges.analytics_history')
+    if (!path.success) return path.response
+    const query = validateSearchParams(v1AnalyticsHistoryQuerySchema, new URL(request.url).searchParams, 'v1.judges.analytics_history')
+    if (!query.success) return query.response
+    const { id } = path.data
+    const { limit: pageSize, from: fromId, to: toId, include_analytics: includeAnalytics } = query.data
+
+    const supabase = await createServiceRoleClient()
+    const snapshots = await listAnalyticsSnapshots(supabase, id, pageSize)
+
+    // Diff the two requested snapshots, or the two most recent when none are specified
+    let diff: V1AnalyticsHistory['diff'] = null
+    if (fromId && toId) {
+      const [fromSnapshot, toSnapshot] = await Promise.all([
+        getAnalyticsSnapshot(supabase, id, fromId),
+        getAnalyticsSnapshot(supabase, id, toId)
+      ])
+      if (!fromSnapshot || !toSnapshot) {
+        return NextResponse.json({ error: 'Snapshot not found for this judge' }, { status: 404 })
+      }
+      diff = diffAnalyticsSnapshots(fromSnapshot, toSnapshot)
+    } else if (snapshots.length >= 2) {
+      diff = diffAnalyticsSnapshots(snapshots[1], snapshots[0])
+    }
+
+    const payload: V1AnalyticsHistory = {
+      judge_id: id,
+      snapshots: snapshots.map((snapshot) => summarizeSnapshot(snapshot, includeAnalytics)),
+      diff,
+      last_updated: snapshots[0]?.created_at ?? null
+    }
+    const res = NextResponse.json(payload)
+    res.headers.set('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=60')
+    if (typeof limit.remaining === 'number') res.headers.set('RateLimit-Remaining', String(limit.remaining))
+    if (limit.reset) res.headers.set('RateLimit-Reset', String(limit.reset))
+    return res
+  } catch (e) {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
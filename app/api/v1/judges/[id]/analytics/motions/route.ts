@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
-import { enforceRateLimit, getClientKey } from '@/lib/security/rate-limit'
-import { requireApiKeyIfEnabled } from '@/lib/security/api-auth'
+import { authorizeV1Request } from '@/lib/security/v1-access'
+import { classifyMotionSubtype, isMotionGranted, mentionsMotion, toCaseText } from '@/lib/analytics/classifiers'
+import { TRUSTED_ATTRIBUTION_FILTER } from '@/lib/sync/case-attribution'
+import { v1JudgePathSchema, v1MotionsQuerySchema, type V1Motions } from '@/lib/api/v1-schemas'
+import { validateParams, validateSearchParams } from '@/lib/utils/validation'
 
 export const dynamic = 'force-dynamic'
 
-function proportionCI(successes: number, n: number) {
+function proportionCI(successes: number, n: number): { p: number; n: number; ci80: [number, number] } {
   if (n === 0) return { p: 0.5, n, ci80: [0.4, 0.6] }
   const p = successes / n
   // Wilson score 80% (z≈1.2816)
@@ -23,21 +26,15 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const auth = requireApiKeyIfEnabled(request.headers, request.url)
-    if (!auth.ok) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    const key = getClientKey(request.headers)
-    const limit = await enforceRateLimit(`v1:motions:${key}`)
-    if (!limit.allowed) {
-      const r429 = NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
-      if (typeof limit.remaining === 'number') r429.headers.set('RateLimit-Remaining', String(limit.remaining))
-      if (limit.reset) r429.headers.set('RateLimit-Reset', String(limit.reset))
-      return r429
-    }
-    const { id } = await params
-    const { searchParams } = new URL(request.url)
-    const type = searchParams.get('type') || undefined
-    const caseType = searchParams.get('case_type') || undefined
-    const since = searchParams.get('since') || undefined
+    const access = await authorizeV1Request(request, { scope: 'analytics:read', endpoint: 'judges.motions' })
+    if (!access.ok) return access.response
+    const limit = access.limit
+    const path = validateParams(v1JudgePathSchema, await params, 'v1.judges.motions')
+    if (!path.success) return path.response
+    const query = validateSearchParams(v1MotionsQuerySchema, new URL(request.url).searchParams, 'v1.judges.motions')
+    if (!query.success) return query.response
+    const { id } = path.data
+    const { type, case_type: caseType, since, format } = query.data
 
     const supabase = await createServerClient()
 
@@ -45,6 +42,7 @@ export async function GET(
       .from('cases')
       .select('case_type, outcome, filing_date, decision_date, status, summary')
       .eq('judge_id', id)
+      .or(TRUSTED_ATTRIBUTION_FILTER)
 
     if (caseType) qb = qb.ilike('case_type', `%${caseType}%`)
     if (since) qb = qb.gte('filing_date', since)
@@ -52,26 +50,19 @@ export async function GET(
     const { data: rows, error } = await qb.limit(2000)
     if (error) return NextResponse.json({ error: 'Query failed' }, { status: 500 })
 
-    // Naive motion extraction from outcome/summary strings
-    const normalized = (rows || []).map(r => ({
-      case_type: (r.case_type || '').toLowerCase(),
-      outcome: (r.outcome || '').toLowerCase(),
-      summary: (r.summary || '').toLowerCase(),
-    }))
-
+    // Motion detection and subtype rules come from the shared classifier registry
     const motionBuckets: Record<string, { granted: number; total: number }> = {}
-    const decideIfMotion = (s: string) => s.includes('motion') || s.includes('mtn')
 
-    for (const r of normalized) {
-      const text = `${r.outcome} ${r.summary}`
-      if (!decideIfMotion(text)) continue
-      const bucket = type || (text.includes('summary judgment') ? 'summary_judgment' : text.includes('dismiss') ? 'dismiss' : 'general')
+    for (const row of rows || []) {
+      const text = toCaseText(row)
+      if (!mentionsMotion(text)) continue
+      const bucket = type || classifyMotionSubtype(text)
       if (!motionBuckets[bucket]) motionBuckets[bucket] = { granted: 0, total: 0 }
       motionBuckets[bucket].total++
-      if (text.includes('granted') || text.includes('grant in part')) motionBuckets[bucket].granted++
+      if (isMotionGranted(text)) motionBuckets[bucket].granted++
     }
 
-    const result = Object.entries(motionBuckets).map(([bucket, stats]) => {
+    const result: V1Motions['motions'] = Object.entries(motionBuckets).map(([bucket, stats]) => {
       const { p, n, ci80 } = proportionCI(stats.granted, stats.total)
       return {
         motion_type: bucket,
@@ -83,7 +74,6 @@ export async function GET(
     })
 
     // CSV export if requested
-    const format = searchParams.get('format')
     if (format === 'csv') {
       const rows = ['motion_type,grant_rate,n,ci80_lo,ci80_hi']
       for (const r of result) {
@@ -100,7 +90,8 @@ export async function GET(
       return r
     }
 
-    const res = NextResponse.json({ motions: result, last_updated: new Date().toISOString() })
+    const payload: V1Motions = { motions: result, last_updated: new Date().toISOString() }
+    const res = NextResponse.json(payload)
     res.headers.set('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=60')
     if (typeof limit.remaining === 'number') res.headers.set('RateLimit-Remaining', String(limit.remaining))
     if (limit.reset) res.headers.set('RateLimit-Reset', String(limit.reset))
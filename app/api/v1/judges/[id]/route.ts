@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
-import { enforceRateLimit, getClientKey } from '@/lib/security/rate-limit'
-import { requireApiKeyIfEnabled } from '@/lib/security/api-auth'
+import { authorizeV1Request } from '@/lib/security/v1-access'
 import { getQualityTier, shouldHideMetric, MIN_SAMPLE_SIZE } from '@/lib/analytics/config'
+import { qualityLabel, v1JudgePathSchema, type V1JudgeProfile } from '@/lib/api/v1-schemas'
+import { validateParams } from '@/lib/utils/validation'
 
 export const dynamic = 'force-dynamic'
 
@@ -11,17 +12,12 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const auth = requireApiKeyIfEnabled(request.headers, (request as any).url)
-    if (!auth.ok) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    const key = getClientKey(request.headers)
-    const limit = await enforceRateLimit(`v1:judges:${key}`)
-    if (!limit.allowed) {
-      const res = NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
-      if (typeof limit.remaining === 'number') res.headers.set('RateLimit-Remaining', String(limit.remaining))
-      if (limit.reset) res.headers.set('RateLimit-Reset', String(limit.reset))
-      return res
-    }
-    const { id } = await params
+    const access = await authorizeV1Request(request, { scope: 'judges:read', endpoint: 'judges.profile' })
+    if (!access.ok) return access.response
+    const limit = access.limit
+    const validation = validateParams(v1JudgePathSchema, await params, 'v1.judges.profile')
+    if (!validation.success) return validation.response
+    const { id } = validation.data
     const supabase = await createServerClient()
 
     const { data: judge, error } = await supabase
@@ -48,7 +44,7 @@ export async function GET(
       sources.push({ name: 'CourtListener', type: 'official', url: `https://www.courtlistener.com/person/${judge.courtlistener_id}` })
     }
 
-    let analyticsPayload: any = null
+    let analyticsPayload: V1JudgeProfile['analytics'] = null
     const { data: analyticsCache } = await supabase
       .from('judge_analytics_cache')
       .select('analytics, created_at')
@@ -71,8 +67,6 @@ export async function GET(
       }
     }
 
-    const qualityLabel = (tier: ReturnType<typeof getQualityTier>) => tier.toLowerCase()
-
     if (analytics) {
       const totalsQuality = getQualityTier(analytics.total_cases_analyzed ?? 0, analytics.overall_confidence ?? null)
 
@@ -117,7 +111,7 @@ export async function GET(
       }
     }
 
-    const payload = {
+    const payload: V1JudgeProfile = {
       judge_id: judge.id,
       full_name: judge.name,
       court_id: judge.court_id,
@@ -1,66 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
-import { enforceRateLimit, getClientKey } from '@/lib/security/rate-limit'
-import { requireApiKeyIfEnabled } from '@/lib/security/api-auth'
+import { authorizeV1Request } from '@/lib/security/v1-access'
+import { v1JudgeExportQuerySchema, type V1JudgeExport } from '@/lib/api/v1-schemas'
+import { validateSearchParams } from '@/lib/utils/validation'
+import { csvRecord } from '@/lib/export/formats'
 
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
   try {
-    const auth = requireApiKeyIfEnabled(request.headers, request.url)
-    if (!auth.ok) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const access = await authorizeV1Request(request, { scope: 'export', endpoint: 'judges.export' })
+    if (!access.ok) return access.response
+    const limitInfo = access.limit
 
-    const key = getClientKey(request.headers)
-    const limitInfo = await enforceRateLimit(`v1:judges_export:${key}`)
-    if (!limitInfo.allowed) {
-      const r = NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
-      if (typeof limitInfo.remaining === 'number') r.headers.set('RateLimit-Remaining', String(limitInfo.remaining))
-      if (limitInfo.reset) r.headers.set('RateLimit-Reset', String(limitInfo.reset))
-      return r
-    }
-
-    const { searchParams } = new URL(request.url)
-    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10))
-    const perPage = Math.min(1000, Math.max(1, parseInt(searchParams.get('per_page') || '500', 10)))
+    const validation = validateSearchParams(v1JudgeExportQuerySchema, new URL(request.url).searchParams, 'v1.judges.export')
+    if (!validation.success) return validation.response
+    const { page, per_page: perPage, format } = validation.data
     const offset = (page - 1) * perPage
 
     const supabase = await createServerClient()
     const { data: judges, error } = await supabase
       .from('judges')
       .select('id, name, slug, court_id, court_name, jurisdiction, courtlistener_id, updated_at')
+      .order('id', { ascending: true })
       .range(offset, offset + perPage - 1)
 
     if (error) {
       return NextResponse.json({ error: 'Failed to fetch judges' }, { status: 500 })
     }
 
-    const format = (searchParams.get('format') || 'csv').toLowerCase()
     if (format === 'json') {
-      const res = NextResponse.json({ judges: judges || [], page, per_page: perPage })
+      const payload: V1JudgeExport = { judges: judges || [], page, per_page: perPage }
+      const res = NextResponse.json(payload)
       if (typeof limitInfo.remaining === 'number') res.headers.set('RateLimit-Remaining', String(limitInfo.remaining))
       if (limitInfo.reset) res.headers.set('RateLimit-Reset', String(limitInfo.reset))
       return res
     }
 
-    const header = 'judge_id,full_name,court_id,court_name,jurisdiction,slug,courtlistener_id,source,last_updated'
-    const rows = [header]
+    const rows = [csvRecord(['judge_id', 'full_name', 'court_id', 'court_name', 'jurisdiction', 'slug', 'courtlistener_id', 'source', 'last_updated'])]
     for (const j of judges || []) {
       const source = j.courtlistener_id ? `CourtListener:https://www.courtlistener.com/person/${j.courtlistener_id}` : ''
-      const csvRow = [
-        j.id,
-        JSON.stringify(j.name),
-        j.court_id || '',
-        JSON.stringify(j.court_name || ''),
-        JSON.stringify(j.jurisdiction || ''),
-        JSON.stringify(j.slug || ''),
-        j.courtlistener_id || '',
-        JSON.stringify(source),
-        j.updated_at
-      ].join(',')
-      rows.push(csvRow)
+      rows.push(csvRecord([j.id, j.name, j.court_id, j.court_name, j.jurisdiction, j.slug, j.courtlistener_id, source, j.updated_at]))
     }
 
-    const r = new Response(rows.join('\n'), {
+    const r = new Response(rows.join(''), {
       headers: {
         'Content-Type': 'text/csv; charset=utf-8',
         'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=60'
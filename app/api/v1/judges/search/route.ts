@@ -1,29 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
-import { enforceRateLimit, getClientKey } from '@/lib/security/rate-limit'
-import { requireApiKeyIfEnabled } from '@/lib/security/api-auth'
+import { authorizeV1Request } from '@/lib/security/v1-access'
 import { getQualityTier, shouldHideMetric, MIN_SAMPLE_SIZE } from '@/lib/analytics/config'
+import { qualityLabel, v1JudgeSearchQuerySchema, type V1JudgeSearch } from '@/lib/api/v1-schemas'
+import { validateSearchParams } from '@/lib/utils/validation'
 
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
   try {
-    const auth = requireApiKeyIfEnabled(request.headers, request.url)
-    if (!auth.ok) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-
-    const key = getClientKey(request.headers)
-    const rateState = await enforceRateLimit(`v1:search:${key}`)
-    if (!rateState.allowed) {
-      const r = NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
-      if (typeof rateState.remaining === 'number') r.headers.set('RateLimit-Remaining', String(rateState.remaining))
-      if (rateState.reset) r.headers.set('RateLimit-Reset', String(rateState.reset))
-      return r
-    }
-    const { searchParams } = new URL(request.url)
-    const q = (searchParams.get('q') || '').trim()
-    const court = searchParams.get('court') || undefined
-    const alias = searchParams.get('alias') || undefined
-    const resultLimit = Math.min(20, Math.max(1, parseInt(searchParams.get('limit') || '10', 10)))
+    const access = await authorizeV1Request(request, { scope: 'judges:read', endpoint: 'judges.search' })
+    if (!access.ok) return access.response
+    const rateState = access.limit
+    const validation = validateSearchParams(v1JudgeSearchQuerySchema, new URL(request.url).searchParams, 'v1.judges.search')
+    if (!validation.success) return validation.response
+    const { q, court, alias, limit: resultLimit } = validation.data
 
     if (!q && !alias) {
       return NextResponse.json({ results: [], total: 0 }, { status: 200 })
@@ -61,10 +52,8 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    const qualityLabel = (tier: ReturnType<typeof getQualityTier>) => tier.toLowerCase()
-
     // Simple confidence heuristic: longer match and exact starts increase confidence
-    const scored = (nameMatches || []).map((j: any) => {
+    const scored: V1JudgeSearch['results'] = (nameMatches || []).map((j: any) => {
       const lower = j.name.toLowerCase()
       const query = q.toLowerCase()
       let confidence = 0.5
@@ -107,7 +96,8 @@ export async function GET(request: NextRequest) {
       }
     })
 
-    const res = NextResponse.json({ results: scored, total: scored.length })
+    const payload: V1JudgeSearch = { results: scored, total: scored.length }
+    const res = NextResponse.json(payload)
     res.headers.set('Cache-Control', 'public, s-maxage=120, stale-while-revalidate=60')
     if (typeof rateState.remaining === 'number') res.headers.set('RateLimit-Remaining', String(rateState.remaining))
     if (rateState.reset) res.headers.set('RateLimit-Reset', String(rateState.reset))
@@ -0,0 +1,56 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeftIcon, KeyRoundIcon } from 'lucide-react'
+import { resolveApiKeyOwner } from '@/lib/auth/api-key-owner'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { listApiKeys, type ApiKeyView } from '@/lib/security/api-keys'
+import { logger } from '@/lib/utils/logger'
+import ApiKeysManager from '@/components/dashboard/ApiKeysManager'
+
+export const dynamic = 'force-dynamic'
+
+export default async function ApiKeysPage() {
+  const context = await resolveApiKeyOwner()
+
+  if (!context) {
+    redirect('/sign-in')
+  }
+
+  let keys: ApiKeyView[] = []
+  try {
+    const supabase = await createServiceRoleClient()
+    keys = await listApiKeys(supabase, context.owner)
+  } catch (error) {
+    logger.error('Failed to load API keys for dashboard', { error })
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <Link
+            href="/dashboard"
+            className="inline-flex items-center text-blue-400 hover:text-blue-300 mb-4"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Link>
+
+          <div className="flex items-center mb-4">
+            <KeyRoundIcon className="h-8 w-8 text-purple-400 mr-3" />
+            <div>
+              <h1 className="text-3xl font-bold text-white">API Keys</h1>
+              <p className="text-gray-400">
+                {context.owner.type === 'organization'
+                  ? 'Keys shared by your organization for the JudgeFinder v1 API'
+                  : 'Your keys for the JudgeFinder v1 API'}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <ApiKeysManager initialKeys={keys} canManage={context.canManage} />
+      </div>
+    </div>
+  )
+}
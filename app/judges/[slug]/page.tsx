@@ -4,9 +4,11 @@ import { JudgeProfile } from '@/components/judges/JudgeProfile'
 import { ProfessionalBackground } from '@/components/judges/ProfessionalBackground'
 import { JudgeRulingPatterns } from '@/components/judges/JudgeRulingPatterns'
 import { RecentDecisions } from '@/components/judges/RecentDecisions'
+import { CitationNetwork } from '@/components/judges/CitationNetwork'
 import { AdvertiserSlots } from '@/components/judges/AdvertiserSlots'
 import { JudgeFAQ } from '@/components/judges/JudgeFAQ'
 import { AnalyticsSlidersShell } from '@/components/judges/AnalyticsSlidersShell'
+import { RulingTrendsTimeline } from '@/components/judges/RulingTrendsTimeline'
 import { BookmarkButton } from '@/components/judges/BookmarkButton'
 import { ReportProfileIssueDialog } from '@/components/judges/ReportProfileIssueDialog'
 import { SEOBreadcrumbs } from '@/components/seo/SEOBreadcrumbs'
@@ -323,11 +325,21 @@ export default async function JudgePage({ params }: JudgePageProps) {
             <section id="analytics" className="scroll-mt-32">
               <AnalyticsSlidersShell judgeId={judge.id} judgeName={safeName} />
             </section>
+
+            {/* Ruling Trends */}
+            <section id="trends" className="scroll-mt-32">
+              <RulingTrendsTimeline judgeId={judge.id} />
+            </section>
             
             {/* Recent Decisions */}
             <section id="recent-decisions" className="scroll-mt-32">
               <RecentDecisions judgeId={judge.id} />
             </section>
+
+            {/* Citation Graph */}
+            <section id="citations" className="scroll-mt-32">
+              <CitationNetwork judgeId={judge.id} />
+            </section>
           </div>
 
           {/* Right Column - Sidebar Content */}
@@ -2,94 +2,43 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import { MapPin, Building, Users, Scale, TrendingUp, ArrowRight, ChevronRight, Globe, Shield, Sparkles } from 'lucide-react'
+import { MapPin, Building, Scale, TrendingUp, ArrowRight, ChevronRight, Globe, Shield, Sparkles } from 'lucide-react'
 import { motion, AnimatePresence, useScroll, useTransform } from 'framer-motion'
 import { ParticleBackground } from '@/components/ui/ParticleBackground'
 import { AnimatedCounter } from '@/components/ui/AnimatedCounter'
 import { TypewriterText } from '@/components/ui/TypewriterText'
 import { ScrollIndicator } from '@/components/ui/ScrollIndicator'
+import { formatStateNames, listJurisdictionListings, STATE_JURISDICTIONS } from '@/lib/jurisdictions/config'
 
 interface Jurisdiction {
   name: string
-  type: 'county' | 'district' | 'region'
-  judgeCount: number
-  courtCount: number
+  stateCode: string
+  stateName: string
   population: number
   majorCities: string[]
   description: string
   slug: string
 }
 
-const majorJurisdictions: Jurisdiction[] = [
-  {
-    name: 'Los Angeles County',
-    type: 'county',
-    judgeCount: 347,
-    courtCount: 38,
-    population: 10000000,
-    majorCities: ['Los Angeles', 'Long Beach', 'Pasadena', 'Burbank', 'Glendale'],
-    description: 'Largest judicial system in California with comprehensive trial and appellate courts.',
-    slug: 'los-angeles-county'
-  },
-  {
-    name: 'Orange County',
-    type: 'county',
-    judgeCount: 89,
-    courtCount: 12,
-    population: 3175000,
-    majorCities: ['Anaheim', 'Santa Ana', 'Irvine', 'Huntington Beach', 'Garden Grove'],
-    description: 'Major Southern California jurisdiction serving diverse communities and businesses.',
-    slug: 'orange-county'
-  },
-  {
-    name: 'San Diego County',
-    type: 'county',
-    judgeCount: 112,
-    courtCount: 15,
-    population: 3338000,
-    majorCities: ['San Diego', 'Chula Vista', 'Oceanside', 'Escondido', 'Carlsbad'],
-    description: 'Southern California coastal jurisdiction with federal and state court systems.',
-    slug: 'san-diego-county'
-  },
-  {
-    name: 'San Francisco County',
-    type: 'county',
-    judgeCount: 67,
-    courtCount: 8,
-    population: 875000,
-    majorCities: ['San Francisco'],
-    description: 'Metropolitan jurisdiction with specialized business and technology courts.',
-    slug: 'san-francisco-county'
-  },
-  {
-    name: 'Santa Clara County',
-    type: 'county',
-    judgeCount: 78,
-    courtCount: 11,
-    population: 1936000,
-    majorCities: ['San Jose', 'Sunnyvale', 'Santa Clara', 'Mountain View', 'Palo Alto'],
-    description: 'Silicon Valley jurisdiction handling technology and intellectual property cases.',
-    slug: 'santa-clara-county'
-  },
-  {
-    name: 'Alameda County',
-    type: 'county',
-    judgeCount: 92,
-    courtCount: 13,
-    population: 1670000,
-    majorCities: ['Oakland', 'Fremont', 'Berkeley', 'Hayward', 'San Leandro'],
-    description: 'Bay Area jurisdiction with diverse civil and criminal caseloads.',
-    slug: 'alameda-county'
-  }
-]
+const majorJurisdictions: Jurisdiction[] = STATE_JURISDICTIONS.flatMap((state) =>
+  state.counties.map((county) => ({
+    name: county.name,
+    stateCode: state.code,
+    stateName: state.name,
+    population: county.population,
+    majorCities: county.majorCities,
+    description: county.description,
+    slug: county.slug
+  }))
+)
+
+// States and federal courts, with the jurisdiction code their judges are stored under
+const browsableJurisdictions = listJurisdictionListings().filter((listing) => listing.kind !== 'county')
+
+const STATE_NAMES = formatStateNames()
 
-// Function to convert jurisdiction name to URL slug
-function createSlugFromJurisdiction(jurisdiction: string): string {
-  return jurisdiction
-    .toLowerCase()
-    .replace(/\s+/g, '-')
-    .replace(/[^a-z0-9-]/g, '')
-    .replace(/^-+|-+$/g, '')
+function formatPopulation(population: number): string {
+  return population >= 1000000 ? `${(population / 1000000).toFixed(1)}M` : `${Math.round(population / 1000)}K`
 }
 
 export default function JurisdictionsPage() {
@@ -100,6 +49,7 @@ export default function JurisdictionsPage() {
   const [jurisdictionStats, setJurisdictionStats] = useState<Record<string, number>>({})
   const [courts, setCourts] = useState<any[]>([])
   const [loading, setLoading] = useState(true)
+  const totalJudges = Object.values(jurisdictionStats).reduce((sum, count) => sum + count, 0)
 
   // Animation variants
   const fadeInUp = {
@@ -194,7 +144,7 @@ export default function JurisdictionsPage() {
           >
             <h1 className="mb-6 text-5xl md:text-7xl font-bold tracking-tight">
               <span className="bg-gradient-to-r from-enterprise-primary to-enterprise-deep bg-clip-text text-transparent">
-                California Court
+                Court
               </span>
               <br />
               <span className="text-foreground">
@@ -209,8 +159,8 @@ export default function JurisdictionsPage() {
             animate={{ opacity: 1 }}
             transition={{ delay: 0.5, duration: 0.8 }}
           >
-            Find courts and judges in your California jurisdiction. Complete directory of county courts,
-            judicial districts, and local legal services across all 58 counties.
+            Find courts and judges in your jurisdiction. Directory of state, federal and county courts
+            across {STATE_NAMES}.
           </motion.p>
           
           {/* Animated Statistics */}
@@ -221,10 +171,10 @@ export default function JurisdictionsPage() {
             transition={{ delay: 0.8, duration: 0.8 }}
           >
             {[
-              { icon: MapPin, value: 58, label: "Counties", color: "text-primary" },
-              { icon: Building, value: 167, label: "Courts", color: "text-enterprise-accent" },
-              { icon: Scale, value: 1810, label: "Judges", color: "text-enterprise-deep" },
-              { icon: Users, value: 40, label: "Million Residents", suffix: "M", color: "text-enterprise-light" }
+              { icon: Globe, value: STATE_JURISDICTIONS.length, label: "States", color: "text-primary" },
+              { icon: MapPin, value: majorJurisdictions.length, label: "Featured Counties", color: "text-enterprise-accent" },
+              { icon: Building, value: courts.length, label: "Courts", color: "text-enterprise-deep" },
+              { icon: Scale, value: totalJudges, label: "Judges", color: "text-enterprise-light" }
             ].map((stat, index) => (
               <motion.div 
                 key={stat.label}
@@ -238,7 +188,6 @@ export default function JurisdictionsPage() {
                   <stat.icon className={`w-8 h-8 ${stat.color} mx-auto mb-2`} />
                   <div className={`text-3xl font-bold ${stat.color}`}>
                     <AnimatedCounter end={stat.value} />
-                    {stat.suffix}
                   </div>
                   <div className="text-sm text-muted-foreground mt-1">{stat.label}</div>
                 </div>
@@ -270,10 +219,10 @@ export default function JurisdictionsPage() {
               <span className="text-sm font-medium">Major Court Jurisdictions</span>
             </div>
             <h2 className="mb-4 text-3xl font-bold bg-gradient-to-r from-enterprise-primary to-enterprise-deep bg-clip-text text-transparent">
-              Major California Jurisdictions
+              Major County Jurisdictions
             </h2>
             <p className="text-lg text-muted-foreground">
-              Browse the largest court jurisdictions in California. Find judges, court locations,
+              Browse the largest court jurisdictions in {STATE_NAMES}. Find judges, court locations,
               and legal services in major metropolitan areas.
             </p>
           </motion.div>
@@ -311,7 +260,7 @@ export default function JurisdictionsPage() {
                     <h3 className="text-xl font-bold text-gray-900 group-hover:text-blue-600 transition-colors">
                       {jurisdiction.name}
                     </h3>
-                    <p className="text-sm text-gray-500 capitalize">{jurisdiction.type}</p>
+                    <p className="text-sm text-gray-500">County · {jurisdiction.stateName}</p>
                   </div>
                 </div>
                 
@@ -328,9 +277,9 @@ export default function JurisdictionsPage() {
                       animate={{ opacity: 1 }}
                       transition={{ delay: 0.5 + index * 0.1 }}
                     >
-                      {jurisdiction.judgeCount}
+                      {jurisdiction.stateCode}
                     </motion.div>
-                    <div className="text-gray-600">Judges</div>
+                    <div className="text-gray-600">State</div>
                   </motion.div>
                   <motion.div 
                     whileHover={{ scale: 1.05 }}
@@ -342,9 +291,9 @@ export default function JurisdictionsPage() {
                       animate={{ opacity: 1 }}
                       transition={{ delay: 0.6 + index * 0.1 }}
                     >
-                      {jurisdiction.courtCount}
+                      {formatPopulation(jurisdiction.population)}
                     </motion.div>
-                    <div className="text-gray-600">Courts</div>
+                    <div className="text-gray-600">Residents</div>
                   </motion.div>
                 </div>
 
@@ -381,7 +330,7 @@ export default function JurisdictionsPage() {
         </div>
       </motion.section>
 
-      {/* All California Counties */}
+      {/* States and federal courts */}
       <motion.section 
         className="bg-muted/30 py-16"
         initial={{ opacity: 0 }}
@@ -396,10 +345,10 @@ export default function JurisdictionsPage() {
             className="mb-12"
           >
             <h2 className="mb-4 text-3xl font-bold bg-gradient-to-r from-enterprise-primary to-enterprise-deep bg-clip-text text-transparent">
-              All California Counties
+              Browse by State
             </h2>
             <p className="text-lg text-gray-600">
-              Complete directory of all 58 California counties and their court systems
+              State and federal court systems covered by our directory
             </p>
           </motion.div>
 
@@ -411,24 +360,24 @@ export default function JurisdictionsPage() {
                 variants={staggerContainer}
                 className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4"
               >
-                {Object.entries(jurisdictionStats).map(([jurisdiction, count], index) => (
+                {browsableJurisdictions.map((jurisdiction) => (
                   <motion.div
-                    key={jurisdiction}
+                    key={jurisdiction.slug}
                     variants={cardVariants}
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
                   >
                     <Link
-                      href={`/jurisdictions/${createSlugFromJurisdiction(jurisdiction)}`}
+                      href={`/jurisdictions/${jurisdiction.slug}`}
                       className="group block rounded-lg border border-gray-200 p-4 transition-all hover:border-blue-400 hover:shadow-lg bg-white hover:bg-gradient-to-r hover:from-blue-50 hover:to-purple-50"
                     >
                       <div className="flex items-center justify-between">
                         <div>
                           <h3 className="font-semibold text-gray-900 group-hover:text-blue-600 transition-colors">
-                            {jurisdiction}
+                            {jurisdiction.displayName}
                           </h3>
                           <p className="text-sm text-gray-500">
-                            <span className="font-medium text-blue-600">{count}</span> judges
+                            <span className="font-medium text-blue-600">{jurisdictionStats[jurisdiction.jurisdictionValue] || 0}</span> judges
                           </p>
                         </div>
                         <motion.div
@@ -563,7 +512,7 @@ export default function JurisdictionsPage() {
           </div>
           <p className="mt-6 text-sm text-muted-foreground">
             <Sparkles className="inline-block w-4 h-4 mr-1" />
-            Free access to comprehensive court information across California
+            Free access to comprehensive court information across {STATE_NAMES}
           </p>
         </motion.div>
       </section>
@@ -2,6 +2,7 @@ import type { Metadata } from 'next'
 import CountyCourtsPage from './ClientPage'
 import { jurisdictionMap } from './constants'
 import { getBaseUrl } from '@/lib/utils/baseUrl'
+import { formatStateNames } from '@/lib/jurisdictions/config'
 
 export const dynamic = 'force-dynamic'
 
@@ -20,7 +21,7 @@ export async function generateMetadata({ params }: GenerateParams): Promise<Meta
   if (!jurisdictionInfo) {
     return {
       title: 'Jurisdiction Not Found | JudgeFinder',
-      description: 'Explore California courts and jurisdictions with JudgeFinder. Find judges, court details, and legal insights.',
+      description: `Explore ${formatStateNames()} courts and jurisdictions with JudgeFinder. Find judges, court details, and legal insights.`,
       alternates: {
         canonical: canonicalUrl,
       },
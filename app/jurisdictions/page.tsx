@@ -1,18 +1,20 @@
 import type { Metadata } from 'next'
 import JurisdictionsPage from './ClientPage'
 import { getBaseUrl } from '@/lib/utils/baseUrl'
+import { formatStateNames } from '@/lib/jurisdictions/config'
 
 const BASE_URL = getBaseUrl()
+const STATE_NAMES = formatStateNames()
 
 export const metadata: Metadata = {
   title: 'Jurisdictions & Counties | JudgeFinder',
-  description: 'Browse California jurisdictions and counties to find court locations, judge rosters, and legal analytics tailored to each region.',
+  description: `Browse ${STATE_NAMES} jurisdictions and counties to find court locations, judge rosters, and legal analytics tailored to each region.`,
   alternates: {
     canonical: `${BASE_URL}/jurisdictions`,
   },
   openGraph: {
     title: 'Jurisdictions & Counties | JudgeFinder',
-    description: 'Explore county-specific courts, judges, and legal resources across California.',
+    description: `Explore county-specific courts, judges, and legal resources across ${STATE_NAMES}.`,
     url: `${BASE_URL}/jurisdictions`,
     type: 'website',
     siteName: 'JudgeFinder',
@@ -20,7 +22,7 @@ export const metadata: Metadata = {
   twitter: {
     card: 'summary_large_image',
     title: 'Jurisdictions & Counties | JudgeFinder',
-    description: 'Explore county-level court data, judges, and analytics for California jurisdictions.',
+    description: `Explore county-level court data, judges, and analytics for ${STATE_NAMES} jurisdictions.`,
   },
 }
 
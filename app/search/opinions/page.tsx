@@ -0,0 +1,320 @@
+'use client'
+
+import { useState, useEffect, useCallback, Suspense } from 'react'
+import { useSearchParams, useRouter } from 'next/navigation'
+import { Search, ChevronLeft, Loader2, FileText, Scale, Building, X } from 'lucide-react'
+import Link from 'next/link'
+import type { OpinionSearchResponse, OpinionSearchResult } from '@/types/search'
+
+export const dynamic = 'force-dynamic'
+
+const FILTER_KEYS = ['case_type', 'from', 'to', 'judge_id', 'court_id'] as const
+
+function Snippet({ result }: { result: OpinionSearchResult }) {
+  if (result.snippet.length === 0) return null
+  return (
+    <p className="text-sm leading-relaxed text-gray-300">
+      {result.snippet.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="rounded bg-yellow-400/20 px-0.5 text-yellow-200">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  )
+}
+
+function OpinionSearchResults() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const [searchData, setSearchData] = useState<OpinionSearchResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [caseType, setCaseType] = useState('')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+
+  const query = searchParams.get('q') || ''
+  const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1)
+  const judgeId = searchParams.get('judge_id')
+  const courtId = searchParams.get('court_id')
+
+  useEffect(() => {
+    setSearchQuery(query)
+    setCaseType(searchParams.get('case_type') || '')
+    setDateFrom(searchParams.get('from') || '')
+    setDateTo(searchParams.get('to') || '')
+  }, [query, searchParams])
+
+  const fetchResults = useCallback(async () => {
+    if (!query.trim()) {
+      setSearchData(null)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ q: query, page: String(page) })
+      for (const key of FILTER_KEYS) {
+        const value = searchParams.get(key)
+        if (value) params.set(key, value)
+      }
+      const response = await fetch(`/api/search/opinions?${params.toString()}`)
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error || 'Search failed')
+      }
+      setSearchData(await response.json())
+    } catch (err) {
+      setSearchData(null)
+      setError(err instanceof Error ? err.message : 'Search failed')
+    } finally {
+      setLoading(false)
+    }
+  }, [query, page, searchParams])
+
+  useEffect(() => {
+    fetchResults()
+  }, [fetchResults])
+
+  const pushParams = (overrides: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString())
+    for (const [key, value] of Object.entries(overrides)) {
+      if (value) params.set(key, value)
+      else params.delete(key)
+    }
+    router.push(`/search/opinions?${params.toString()}`)
+  }
+
+  const handleSearch = () => {
+    if (!searchQuery.trim()) return
+    pushParams({ q: searchQuery.trim(), case_type: caseType.trim(), from: dateFrom, to: dateTo, page: null })
+  }
+
+  const results = searchData?.results ?? []
+  const totalPages = searchData ? Math.ceil(searchData.total_count / searchData.limit) : 0
+  const scopedJudge = judgeId ? results.find((result) => result.judge_id === judgeId)?.judge_name || 'Selected judge' : null
+  const scopedCourt = courtId ? results.find((result) => result.court_id === courtId)?.court_name || 'Selected court' : null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black text-white">
+      {/* Header */}
+      <div className="bg-gray-800/50 backdrop-blur-sm border-b border-gray-700/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center space-x-4 mb-6">
+            <Link href="/search" className="flex items-center text-gray-300 hover:text-white transition-colors">
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Judge and court search
+            </Link>
+          </div>
+
+          <h1 className="mb-4 text-2xl font-semibold">Case-law search</h1>
+
+          {/* Search Bar */}
+          <div className="max-w-2xl">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                placeholder='Search opinion text, e.g. "summary judgment" AND negligence NOT medical'
+                className="w-full rounded-lg border border-gray-600 bg-gray-700/50 py-3 pl-10 pr-20 text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+              <button
+                onClick={handleSearch}
+                className="absolute right-2 top-1/2 -translate-y-1/2 rounded-md bg-gradient-to-r from-blue-500 to-purple-500 px-4 py-2 text-sm font-medium text-white hover:from-blue-600 hover:to-purple-600 transition-colors"
+              >
+                Search
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-400">
+              Use quotes for exact phrases, OR for alternatives, and NOT or a leading minus to exclude terms.
+            </p>
+          </div>
+
+          {searchData && !loading && (
+            <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-gray-300">
+              <span>
+                {searchData.total_count.toLocaleString()} opinions match "{query}"
+              </span>
+              <span>•</span>
+              <span>{searchData.took_ms}ms</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="lg:grid lg:grid-cols-4 lg:gap-8">
+          {/* Filters Sidebar */}
+          <div className="lg:col-span-1">
+            <div className="bg-gray-800/50 backdrop-blur-sm rounded-lg border border-gray-700/50 p-6 space-y-4">
+              <h3 className="text-lg font-semibold text-white">Filters</h3>
+
+              {(scopedJudge || scopedCourt) && (
+                <div className="flex flex-wrap gap-2">
+                  {scopedJudge && (
+                    <button
+                      onClick={() => pushParams({ judge_id: null, page: null })}
+                      className="inline-flex items-center gap-1 rounded-full bg-blue-600/20 px-3 py-1 text-xs text-blue-300"
+                    >
+                      <Scale className="h-3 w-3" /> {scopedJudge} <X className="h-3 w-3" aria-label="Remove judge filter" />
+                    </button>
+                  )}
+                  {scopedCourt && (
+                    <button
+                      onClick={() => pushParams({ court_id: null, page: null })}
+                      className="inline-flex items-center gap-1 rounded-full bg-green-600/20 px-3 py-1 text-xs text-green-300"
+                    >
+                      <Building className="h-3 w-3" /> {scopedCourt} <X className="h-3 w-3" aria-label="Remove court filter" />
+                    </button>
+                  )}
+                </div>
+              )}
+
+              <label className="block text-sm text-gray-300">
+                Case type
+                <input
+                  type="text"
+                  value={caseType}
+                  onChange={(e) => setCaseType(e.target.value)}
+                  placeholder="e.g. Civil"
+                  className="mt-1 w-full rounded-md border border-gray-600 bg-gray-700/50 px-3 py-2 text-sm text-white"
+                />
+              </label>
+              <label className="block text-sm text-gray-300">
+                Decided from
+                <input
+                  type="date"
+                  value={dateFrom}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                  className="mt-1 w-full rounded-md border border-gray-600 bg-gray-700/50 px-3 py-2 text-sm text-white"
+                />
+              </label>
+              <label className="block text-sm text-gray-300">
+                Decided to
+                <input
+                  type="date"
+                  value={dateTo}
+                  onChange={(e) => setDateTo(e.target.value)}
+                  className="mt-1 w-full rounded-md border border-gray-600 bg-gray-700/50 px-3 py-2 text-sm text-white"
+                />
+              </label>
+              <button
+                onClick={handleSearch}
+                className="w-full rounded-md bg-blue-600/20 px-3 py-2 text-sm font-medium text-blue-400 border border-blue-500/30 hover:bg-blue-600/30 transition-colors"
+              >
+                Apply filters
+              </button>
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="lg:col-span-3 mt-8 lg:mt-0">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
+                <span className="ml-3 text-gray-300">Searching opinions...</span>
+              </div>
+            ) : error ? (
+              <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-6 text-sm text-red-300">{error}</div>
+            ) : results.length === 0 ? (
+              <div className="text-center py-12">
+                <FileText className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+                <h3 className="text-lg font-medium text-white mb-2">No opinions found</h3>
+                <p className="text-gray-300">
+                  {query ? `No opinion text matches "${query}" with these filters` : 'Enter a search term to get started'}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {results.map((result) => (
+                  <article
+                    key={result.opinion_id}
+                    className="bg-gray-800/50 backdrop-blur-sm rounded-lg border border-gray-700/50 p-6"
+                  >
+                    <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2">
+                      <h3 className="text-lg font-semibold text-white">
+                        {result.case_url ? (
+                          <a href={result.case_url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-400">
+                            {result.case_name}
+                          </a>
+                        ) : (
+                          result.case_name
+                        )}
+                      </h3>
+                      {result.decision_date && <span className="text-sm text-gray-400">{result.decision_date}</span>}
+                    </div>
+                    <div className="mb-3 flex flex-wrap items-center gap-3 text-sm">
+                      {result.judge_name && result.judge_url && (
+                        <Link href={result.judge_url} className="inline-flex items-center text-blue-400 hover:text-blue-300">
+                          <Scale className="h-4 w-4 mr-1" />
+                          {result.judge_name}
+                        </Link>
+                      )}
+                      {result.court_name && (
+                        <span className="inline-flex items-center text-gray-400">
+                          <Building className="h-4 w-4 mr-1" />
+                          {result.court_name}
+                        </span>
+                      )}
+                      {result.case_type && (
+                        <span className="rounded-full bg-purple-600/20 px-2.5 py-0.5 text-xs text-purple-300">{result.case_type}</span>
+                      )}
+                      {result.case_number && <span className="text-xs text-gray-500">Case No. {result.case_number}</span>}
+                    </div>
+                    <Snippet result={result} />
+                  </article>
+                ))}
+
+                {totalPages > 1 && (
+                  <div className="flex items-center justify-center gap-4 pt-4 text-sm text-gray-300">
+                    <button
+                      disabled={page <= 1}
+                      onClick={() => pushParams({ page: String(page - 1) })}
+                      className="rounded-md border border-gray-600 px-3 py-1.5 disabled:opacity-40"
+                    >
+                      Previous
+                    </button>
+                    <span>
+                      Page {page} of {totalPages}
+                    </span>
+                    <button
+                      disabled={page >= totalPages}
+                      onClick={() => pushParams({ page: String(page + 1) })}
+                      className="rounded-md border border-gray-600 px-3 py-1.5 disabled:opacity-40"
+                    >
+                      Next
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function OpinionSearchPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-400 mx-auto mb-4" />
+          <p className="text-gray-300">Loading case-law search...</p>
+        </div>
+      </div>
+    }>
+      <OpinionSearchResults />
+    </Suspense>
+  )
+}
@@ -156,6 +156,12 @@ function SearchResults() {
               <ChevronLeft className="h-4 w-4 mr-1" />
               Back to home
             </Link>
+            <Link
+              href={query ? `/search/opinions?q=${encodeURIComponent(query)}` : '/search/opinions'}
+              className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Search opinion text instead
+            </Link>
           </div>
 
           {/* Search Bar */}
@@ -1,10 +1,13 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import useSWR from 'swr'
 import { motion, AnimatePresence } from 'framer-motion'
 import GlassCard from '@/components/ui/GlassCard'
-import { Search, X, Scale, Users, TrendingUp, BarChart, Calendar, MapPin, Gavel, Loader2 } from 'lucide-react'
+import { Search, X, Scale, Users, BarChart, Calendar, MapPin, Gavel, Loader2, Download } from 'lucide-react'
 import { useSearchDebounce } from '@/lib/hooks/useDebounce'
+import { fetcher } from '@/lib/utils/fetcher'
+import type { ComparisonReport } from '@/lib/analytics/comparison'
 import type { Judge } from '@/types'
 
 interface ComparisonContentProps {
@@ -17,8 +20,6 @@ export function ComparisonContent({ initialJudges = [] }: ComparisonContentProps
   const [searchResults, setSearchResults] = useState<Judge[]>([])
   const [isSearching, setIsSearching] = useState(false)
   const [showSearch, setShowSearch] = useState(false)
-  const [analytics, setAnalytics] = useState<Record<string, any>>({})
-  const [loadingAnalytics, setLoadingAnalytics] = useState<Record<string, boolean>>({})
   const [searchError, setSearchError] = useState<string | null>(null)
 
   const { debouncedSearchQuery } = useSearchDebounce(searchQuery, 300)
@@ -57,29 +58,15 @@ export function ComparisonContent({ initialJudges = [] }: ComparisonContentProps
     searchJudges()
   }, [debouncedSearchQuery])
 
-  // Fetch analytics for selected judges
-  useEffect(() => {
-    selectedJudges.forEach(judge => {
-      if (!analytics[judge.id] && !loadingAnalytics[judge.id]) {
-        fetchJudgeAnalytics(judge.id)
-      }
-    })
-  }, [selectedJudges, analytics, loadingAnalytics])
-
-  const fetchJudgeAnalytics = async (judgeId: string) => {
-    setLoadingAnalytics(prev => ({ ...prev, [judgeId]: true }))
-    try {
-      const response = await fetch(`/api/judges/${judgeId}/analytics`)
-      if (response.ok) {
-        const data = await response.json()
-        setAnalytics(prev => ({ ...prev, [judgeId]: data }))
-      }
-    } catch (error) {
-      console.error('Analytics error:', error)
-    } finally {
-      setLoadingAnalytics(prev => ({ ...prev, [judgeId]: false }))
-    }
-  }
+  // Metrics are compared server-side over a matched window and case-type mix
+  const comparisonQuery = selectedJudges.length >= 2
+    ? `judges=${selectedJudges.map(judge => judge.id).join(',')}`
+    : null
+  const { data: comparison, isLoading: loadingComparison } = useSWR<ComparisonReport>(
+    comparisonQuery ? `/api/v1/compare?${comparisonQuery}` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
 
   const addJudge = (judge: Judge) => {
     if (selectedJudges.length < 3 && !selectedJudges.find(j => j.id === judge.id)) {
@@ -93,9 +80,6 @@ export function ComparisonContent({ initialJudges = [] }: ComparisonContentProps
 
   const removeJudge = (judgeId: string) => {
     setSelectedJudges(selectedJudges.filter(j => j.id !== judgeId))
-    const newAnalytics = { ...analytics }
-    delete newAnalytics[judgeId]
-    setAnalytics(newAnalytics)
   }
 
   const formatDate = (dateString: string | null) => {
@@ -286,95 +270,88 @@ export function ComparisonContent({ initialJudges = [] }: ComparisonContentProps
                 {/* Analytics Section */}
                 <tr className="bg-primary/5">
                   <td colSpan={selectedJudges.length + 1} className="px-6 py-3 text-sm font-semibold">
-                    AI Analytics & Bias Detection
-                  </td>
-                </tr>
-
-                <tr>
-                  <td className="px-6 py-4 text-sm font-medium text-muted-foreground">
-                    <div className="flex items-center gap-2">
-                      <TrendingUp className="h-4 w-4" />
-                      Consistency Score
-                    </div>
-                  </td>
-                  {selectedJudges.map(judge => (
-                    <td key={judge.id} className="px-6 py-4">
-                      {loadingAnalytics[judge.id] ? (
-                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
-                      ) : analytics[judge.id]?.metrics?.consistency ? (
-                        <div className="flex items-center gap-2">
-                          <div className="text-lg font-semibold">{analytics[judge.id].metrics.consistency}%</div>
-                          <div className="h-2 w-20 bg-muted rounded-full overflow-hidden">
-                            <div 
-                              className="h-full bg-primary transition-all"
-                              style={{ width: `${analytics[judge.id].metrics.consistency}%` }}
-                            />
-                          </div>
-                        </div>
-                      ) : (
-                        'N/A'
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <span>
+                        Ruling Patterns
+                        {comparison?.window && (
+                          <span className="ml-2 font-normal text-muted-foreground">
+                            {formatDate(comparison.window.start)} – {formatDate(comparison.window.end)}, standardized to a shared case-type mix
+                          </span>
+                        )}
+                      </span>
+                      {comparisonQuery && comparison && (
+                        <span className="flex items-center gap-3 font-normal">
+                          <a href={`/api/v1/compare?${comparisonQuery}&format=csv`} className="inline-flex items-center gap-1 text-primary hover:underline">
+                            <Download className="h-4 w-4" /> CSV
+                          </a>
+                          <a href={`/api/v1/compare?${comparisonQuery}&format=pdf`} className="inline-flex items-center gap-1 text-primary hover:underline">
+                            <Download className="h-4 w-4" /> PDF
+                          </a>
+                        </span>
                       )}
-                    </td>
-                  ))}
-                </tr>
-
-                <tr className="bg-muted/30">
-                  <td className="px-6 py-4 text-sm font-medium text-muted-foreground">
-                    <div className="flex items-center gap-2">
-                      <BarChart className="h-4 w-4" />
-                      Speed Score
                     </div>
                   </td>
-                  {selectedJudges.map(judge => (
-                    <td key={judge.id} className="px-6 py-4">
-                      {loadingAnalytics[judge.id] ? (
-                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
-                      ) : analytics[judge.id]?.metrics?.speed ? (
-                        <div className="flex items-center gap-2">
-                          <div className="text-lg font-semibold">{analytics[judge.id].metrics.speed}%</div>
-                          <div className="h-2 w-20 bg-muted rounded-full overflow-hidden">
-                            <div 
-                              className="h-full bg-primary transition-all"
-                              style={{ width: `${analytics[judge.id].metrics.speed}%` }}
-                            />
-                          </div>
-                        </div>
-                      ) : (
-                        'N/A'
-                      )}
-                    </td>
-                  ))}
                 </tr>
 
-                <tr>
-                  <td className="px-6 py-4 text-sm font-medium text-muted-foreground">
-                    <div className="flex items-center gap-2">
-                      <Scale className="h-4 w-4" />
-                      Overall Bias Score
-                    </div>
-                  </td>
-                  {selectedJudges.map(judge => (
-                    <td key={judge.id} className="px-6 py-4">
-                      {loadingAnalytics[judge.id] ? (
-                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
-                      ) : analytics[judge.id]?.overall_bias_score ? (
-                        <div className="flex items-center gap-2">
-                          <div className="text-lg font-semibold">{analytics[judge.id].overall_bias_score}</div>
-                          <span className={`px-2 py-1 rounded text-xs font-medium ${
-                            analytics[judge.id].overall_bias_score >= 80 ? 'bg-green-100 text-green-800' :
-                            analytics[judge.id].overall_bias_score >= 60 ? 'bg-yellow-100 text-yellow-800' :
-                            'bg-red-100 text-red-800'
-                          }`}>
-                            {analytics[judge.id].overall_bias_score >= 80 ? 'Low Bias' :
-                             analytics[judge.id].overall_bias_score >= 60 ? 'Moderate' : 'High Bias'}
-                          </span>
-                        </div>
-                      ) : (
-                        'N/A'
-                      )}
+                {selectedJudges.length < 2 ? (
+                  <tr>
+                    <td colSpan={selectedJudges.length + 1} className="px-6 py-4 text-sm text-muted-foreground">
+                      Add another judge to compare ruling patterns.
                     </td>
-                  ))}
-                </tr>
+                  </tr>
+                ) : loadingComparison ? (
+                  <tr>
+                    <td colSpan={selectedJudges.length + 1} className="px-6 py-4">
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    </td>
+                  </tr>
+                ) : !comparison?.window ? (
+                  <tr>
+                    <td colSpan={selectedJudges.length + 1} className="px-6 py-4 text-sm text-muted-foreground">
+                      These judges have no overlapping period of decided cases to compare.
+                    </td>
+                  </tr>
+                ) : (
+                  comparison.metrics
+                    .filter(metric => metric.judges.some(rate => rate.rate !== null))
+                    .map((metric, index) => {
+                      const significantPairs = metric.comparisons.filter(pair => pair.significant)
+                      const nameOf = (judgeId: string) => selectedJudges.find(judge => judge.id === judgeId)?.name ?? 'Judge'
+                      return (
+                        <tr key={metric.metric} className={index % 2 === 1 ? 'bg-muted/30' : undefined}>
+                          <td className="px-6 py-4 text-sm font-medium text-muted-foreground">
+                            <div className="flex items-center gap-2">
+                              <BarChart className="h-4 w-4" />
+                              {metric.label}
+                            </div>
+                            {significantPairs.map(pair => (
+                              <div key={`${pair.judge_a}-${pair.judge_b}`} className="mt-1 text-xs font-normal text-primary">
+                                {nameOf(pair.judge_a)} vs {nameOf(pair.judge_b)}: {(pair.difference ?? 0) > 0 ? '+' : ''}{pair.difference} pts (p = {pair.adjusted_p_value})
+                              </div>
+                            ))}
+                          </td>
+                          {selectedJudges.map(judge => {
+                            const rate = metric.judges.find(entry => entry.judge_id === judge.id)
+                            return (
+                              <td key={judge.id} className="px-6 py-4">
+                                {rate?.rate !== null && rate?.rate !== undefined ? (
+                                  <div>
+                                    <div className="text-lg font-semibold">{rate.rate}%</div>
+                                    <div className="text-xs text-muted-foreground">
+                                      95% CI {rate.ci_lower}–{rate.ci_upper}% · {rate.sample_size} cases
+                                      {!rate.sufficient && ' · small sample'}
+                                    </div>
+                                  </div>
+                                ) : (
+                                  'N/A'
+                                )}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      )
+                    })
+                )}
               </tbody>
             </table>
           </div>
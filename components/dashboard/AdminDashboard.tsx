@@ -2,8 +2,16 @@
 
 import { useMemo, useState, useTransition } from 'react'
 import { useRouter } from 'next/navigation'
-import { queueSyncJob, cancelSyncJobs, restartSyncQueue, transitionProfileIssue } from '@/app/admin/actions'
+import { queueSyncJob, cancelSyncJobs, restartSyncQueue, evaluateSyncAlerts, transitionProfileIssue } from '@/app/admin/actions'
 import type { SyncStatusResponse } from '@/lib/admin/sync-status'
+import type { SyncPreviewView } from '@/lib/admin/sync-previews'
+import type { WebhookEventView } from '@/lib/admin/webhook-events'
+import type { JudgeDuplicateView } from '@/lib/admin/judge-duplicates'
+import type { CaseAttributionReport } from '@/lib/admin/case-attributions'
+import SyncPreviewPanel from '@/components/dashboard/SyncPreviewPanel'
+import WebhookEventsPanel from '@/components/dashboard/WebhookEventsPanel'
+import JudgeDuplicatesPanel from '@/components/dashboard/JudgeDuplicatesPanel'
+import CaseAttributionPanel from '@/components/dashboard/CaseAttributionPanel'
 import {
   AlertTriangle,
   CheckCircle2,
@@ -14,8 +22,10 @@ import {
   Activity,
   BarChart3,
   PlayCircle,
+  Eye,
   Square,
-  Triangle
+  Triangle,
+  BellRing
 } from 'lucide-react'
 
 type ProfileIssueStatus = 'new' | 'researching' | 'resolved' | 'dismissed'
@@ -45,9 +55,13 @@ interface AdminDashboardProps {
   profileIssues: ProfileIssueSummary[]
   profileIssueCounts: IssueCount[]
   overdueCount: number
+  syncPreviews: SyncPreviewView[]
+  webhookEvents: WebhookEventView[]
+  judgeDuplicates: JudgeDuplicateView[]
+  caseAttributions: CaseAttributionReport | null
 }
 
-type ActionType = 'queue-decisions' | 'cancel-decisions' | 'restart-queue'
+type ActionType = 'queue-decisions' | 'preview-decisions' | 'cancel-decisions' | 'restart-queue' | 'evaluate-alerts'
 
 type Feedback = {
   type: 'success' | 'error'
@@ -60,6 +74,11 @@ const ACTION_META: Record<ActionType, { title: string; description: string; conf
     description: 'Adds a high-priority job to pull recent CourtListener decisions for California.',
     confirmLabel: 'Queue job'
   },
+  'preview-decisions': {
+    title: 'Preview CA decision sync',
+    description: 'Queues a dry run of the CA decision sync. It records the cases it would create or update for review and changes nothing.',
+    confirmLabel: 'Queue dry run'
+  },
   'cancel-decisions': {
     title: 'Cancel pending decision jobs',
     description: 'Stops queued decision document jobs to prevent duplicates.',
@@ -69,9 +88,21 @@ const ACTION_META: Record<ActionType, { title: string; description: string; conf
     title: 'Restart sync queue processor',
     description: 'Stops and restarts the queue worker to clear stuck jobs.',
     confirmLabel: 'Restart queue'
+  },
+  'evaluate-alerts': {
+    title: 'Check sync alerts',
+    description: 'Evaluates freshness SLOs and the CourtListener circuit breaker now, and sends any pending alert notifications.',
+    confirmLabel: 'Check alerts'
   }
 }
 
+const CA_DECISION_SYNC_OPTIONS = {
+  jurisdiction: 'CA',
+  schedule: 'daily',
+  priority: 'high',
+  forceRefresh: true
+}
+
 function formatNumber(value: number | null | undefined, fallback = '0') {
   if (typeof value !== 'number' || Number.isNaN(value)) return fallback
   return value.toLocaleString()
@@ -281,7 +312,7 @@ const ISSUE_FILTERS: Array<{ id: 'all' | 'overdue' | ProfileIssueStatus; label:
   { id: 'dismissed', label: 'Dismissed' },
 ]
 
-export default function AdminDashboard({ status, profileIssues, profileIssueCounts, overdueCount }: AdminDashboardProps) {
+export default function AdminDashboard({ status, profileIssues, profileIssueCounts, overdueCount, syncPreviews, webhookEvents, judgeDuplicates, caseAttributions }: AdminDashboardProps) {
   const router = useRouter()
   const [pendingAction, setPendingAction] = useState<ActionType | null>(null)
   const [feedback, setFeedback] = useState<Feedback | null>(null)
@@ -306,16 +337,19 @@ export default function AdminDashboard({ status, profileIssues, profileIssueCoun
           case 'queue-decisions':
             await queueSyncJob({
               type: 'decision',
-              options: {
-                jurisdiction: 'CA',
-                schedule: 'daily',
-                priority: 'high',
-                forceRefresh: true
-              },
+              options: CA_DECISION_SYNC_OPTIONS,
               priority: 80
             })
             setFeedback({ type: 'success', message: 'Decision job queued successfully.' })
             break
+          case 'preview-decisions':
+            await queueSyncJob({
+              type: 'decision',
+              options: { ...CA_DECISION_SYNC_OPTIONS, dryRun: true },
+              priority: 80
+            })
+            setFeedback({ type: 'success', message: 'Dry run queued. The preview appears below once it finishes.' })
+            break
           case 'cancel-decisions':
             await cancelSyncJobs('decision')
             setFeedback({ type: 'success', message: 'Pending decision jobs cancelled.' })
@@ -324,6 +358,10 @@ export default function AdminDashboard({ status, profileIssues, profileIssueCoun
             await restartSyncQueue()
             setFeedback({ type: 'success', message: 'Queue restarted successfully.' })
             break
+          case 'evaluate-alerts':
+            await evaluateSyncAlerts()
+            setFeedback({ type: 'success', message: 'Sync alerts evaluated.' })
+            break
         }
       } catch (error) {
         console.error(error)
@@ -427,6 +465,9 @@ export default function AdminDashboard({ status, profileIssues, profileIssueCoun
         .filter((row) => row.label && (row.pending || row.running || row.failed || row.succeeded))
     : []
 
+  const checkpoints = Array.isArray(status.checkpoints) ? status.checkpoints : []
+  const alerts = Array.isArray(status.alerts) ? status.alerts : []
+
   const circuitSeverity = deriveCircuitSeverity(external)
   const dailyFailedRuns = status.performance?.daily?.failed_runs ?? 0
   const weeklyFailedRuns = status.performance?.weekly?.failed_runs ?? 0
@@ -584,6 +625,60 @@ export default function AdminDashboard({ status, profileIssues, profileIssueCoun
                 </table>
               </div>
             )}
+            {checkpoints.length > 0 && (
+              <div className="mt-4 overflow-hidden rounded-md border border-gray-200">
+                <table className="min-w-full divide-y divide-gray-200 text-xs">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th scope="col" className="px-3 py-2 text-left font-semibold">Resumable job</th>
+                      <th scope="col" className="px-3 py-2 text-right font-semibold">Progress</th>
+                      <th scope="col" className="px-3 py-2 text-right font-semibold">Runs</th>
+                      <th scope="col" className="px-3 py-2 text-right font-semibold">Checkpoint</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 bg-white text-gray-600">
+                    {checkpoints.map((job) => (
+                      <tr key={job.jobId}>
+                        <td className="px-3 py-2 font-medium text-gray-800">
+                          {job.type} <span className="font-normal text-gray-500">({job.status})</span>
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {formatNumber(job.processed)}
+                          {typeof job.total === 'number' ? ` / ${formatNumber(job.total)}` : ''}
+                        </td>
+                        <td className="px-3 py-2 text-right">{formatNumber(job.runs)}</td>
+                        <td className="px-3 py-2 text-right">{formatRelative(job.savedAt)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {alerts.length > 0 && (
+              <div className="mt-4 overflow-hidden rounded-md border border-gray-200">
+                <table className="min-w-full divide-y divide-gray-200 text-xs">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th scope="col" className="px-3 py-2 text-left font-semibold">Firing alert</th>
+                      <th scope="col" className="px-3 py-2 text-right font-semibold">Severity</th>
+                      <th scope="col" className="px-3 py-2 text-right font-semibold">Since</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 bg-white text-gray-600">
+                    {alerts.map((alert) => (
+                      <tr key={alert.id}>
+                        <td className="px-3 py-2 font-medium text-gray-800">
+                          {alert.summary}
+                          {!alert.notified && <span className="font-normal text-gray-500"> (not yet delivered)</span>}
+                        </td>
+                        <td className={`px-3 py-2 text-right ${alert.severity === 'critical' ? 'text-red-600' : 'text-amber-600'}`}>{alert.severity}</td>
+                        <td className="px-3 py-2 text-right">{formatRelative(alert.firedAt)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
         </div>
 
@@ -864,7 +959,7 @@ export default function AdminDashboard({ status, profileIssues, profileIssueCoun
             </div>
           )}
         </div>
-        <div className="grid gap-4 px-6 py-6 md:grid-cols-3">
+        <div className="grid gap-4 px-6 py-6 md:grid-cols-2 xl:grid-cols-5">
           <button
             onClick={() => handleAction('queue-decisions')}
             className="rounded-md border border-blue-200 bg-blue-50 px-4 py-3 text-left text-sm font-medium text-blue-700 hover:bg-blue-100"
@@ -875,6 +970,16 @@ export default function AdminDashboard({ status, profileIssues, profileIssueCoun
             </div>
             <p className="mt-1 text-xs font-normal text-blue-600/80">Runs the daily high-priority CA decision ingest.</p>
           </button>
+          <button
+            onClick={() => handleAction('preview-decisions')}
+            className="rounded-md border border-indigo-200 bg-indigo-50 px-4 py-3 text-left text-sm font-medium text-indigo-700 hover:bg-indigo-100"
+          >
+            <div className="flex items-center gap-2">
+              <Eye className="h-4 w-4" />
+              Preview CA decision sync
+            </div>
+            <p className="mt-1 text-xs font-normal text-indigo-600/80">Dry run: shows what the ingest would change before it runs.</p>
+          </button>
           <button
             onClick={() => handleAction('cancel-decisions')}
             className="rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-left text-sm font-medium text-amber-700 hover:bg-amber-100"
@@ -895,9 +1000,51 @@ export default function AdminDashboard({ status, profileIssues, profileIssueCoun
             </div>
             <p className="mt-1 text-xs font-normal text-gray-500">Gracefully restarts the queue worker.</p>
           </button>
+          <button
+            onClick={() => handleAction('evaluate-alerts')}
+            className="rounded-md border border-rose-200 bg-rose-50 px-4 py-3 text-left text-sm font-medium text-rose-700 hover:bg-rose-100"
+          >
+            <div className="flex items-center gap-2">
+              <BellRing className="h-4 w-4" />
+              Check sync alerts
+            </div>
+            <p className="mt-1 text-xs font-normal text-rose-600/80">Runs freshness and circuit breaker checks now.</p>
+          </button>
         </div>
       </div>
 
+      <SyncPreviewPanel
+        previews={syncPreviews}
+        onFeedback={(next) => {
+          setFeedback(next)
+          router.refresh()
+        }}
+      />
+
+      <WebhookEventsPanel
+        events={webhookEvents}
+        onFeedback={(next) => {
+          setFeedback(next)
+          router.refresh()
+        }}
+      />
+
+      <JudgeDuplicatesPanel
+        duplicates={judgeDuplicates}
+        onFeedback={(next) => {
+          setFeedback(next)
+          router.refresh()
+        }}
+      />
+
+      <CaseAttributionPanel
+        report={caseAttributions}
+        onFeedback={(next) => {
+          setFeedback(next)
+          router.refresh()
+        }}
+      />
+
       {pendingAction && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
           <div className="w-full max-w-md rounded-lg border border-gray-200 bg-white p-6 shadow-xl">
@@ -0,0 +1,353 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { CopyIcon, KeyRoundIcon, RefreshCwIcon, TrashIcon } from 'lucide-react'
+import type { ApiKeyScope, ApiKeyStatus, ApiKeyView } from '@/lib/security/api-keys'
+
+interface ApiKeysManagerProps {
+  initialKeys: ApiKeyView[]
+  canManage: boolean
+}
+
+interface Feedback {
+  type: 'success' | 'error'
+  message: string
+}
+
+const SCOPE_OPTIONS: Array<{ scope: ApiKeyScope; label: string; description: string }> = [
+  { scope: 'judges:read', label: 'Judges', description: 'Profiles, aliases, search and the change feed' },
+  { scope: 'analytics:read', label: 'Analytics', description: 'Motions, history, comparisons and time to ruling' },
+  { scope: 'export', label: 'Export', description: 'Bulk judge exports' },
+]
+
+const STATUS_STYLES: Record<ApiKeyStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-500/10 text-green-400 border-green-500/30' },
+  expiring: { label: 'Rotated', className: 'bg-amber-500/10 text-amber-400 border-amber-500/30' },
+  expired: { label: 'Expired', className: 'bg-gray-500/10 text-gray-400 border-gray-500/30' },
+  revoked: { label: 'Revoked', className: 'bg-red-500/10 text-red-400 border-red-500/30' },
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`)
+  }
+  return body as T
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : 'Never'
+}
+
+function FeedbackBanner({ feedback }: { feedback: Feedback }) {
+  const className = feedback.type === 'success' ? 'border-green-500/30 text-green-400' : 'border-red-500/30 text-red-400'
+  return <div className={`mb-6 rounded-md border px-4 py-3 text-sm ${className}`}>{feedback.message}</div>
+}
+
+function IssuedKeyNotice({ issuedKey, onDismiss }: { issuedKey: string; onDismiss: () => void }) {
+  const [copied, setCopied] = useState(false)
+
+  return (
+    <div className="mb-6 rounded-lg border border-purple-500/40 bg-purple-500/10 p-4">
+      <p className="text-sm font-medium text-white">Copy your new key now. It will not be shown again.</p>
+      <div className="mt-3 flex items-center gap-2">
+        <code className="flex-1 overflow-x-auto rounded bg-black/40 px-3 py-2 text-sm text-purple-200">{issuedKey}</code>
+        <button
+          onClick={() => {
+            void navigator.clipboard.writeText(issuedKey).then(() => setCopied(true))
+          }}
+          className="inline-flex items-center rounded-md bg-purple-600 px-3 py-2 text-sm font-medium text-white hover:bg-purple-700"
+        >
+          <CopyIcon className="mr-2 h-4 w-4" />
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <button onClick={onDismiss} className="mt-3 text-xs text-gray-400 hover:text-gray-300">
+        I have saved this key
+      </button>
+    </div>
+  )
+}
+
+function CreateKeyForm({ disabled, onCreate }: { disabled: boolean; onCreate: (name: string, scopes: ApiKeyScope[]) => void }) {
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['judges:read'])
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) => (current.includes(scope) ? current.filter((entry) => entry !== scope) : [...current, scope]))
+  }
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault()
+        onCreate(name.trim(), scopes)
+        setName('')
+      }}
+      className="mb-8 rounded-lg border border-gray-700/50 bg-gray-800/50 p-6 backdrop-blur-sm"
+    >
+      <h2 className="mb-4 text-xl font-semibold text-white">Create a key</h2>
+      <label className="mb-4 block">
+        <span className="text-sm text-gray-400">Name</span>
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={100}
+          placeholder="e.g. Case management integration"
+          className="mt-1 w-full rounded-md border border-gray-600 bg-gray-900 px-3 py-2 text-white placeholder-gray-500 focus:border-purple-500 focus:outline-none"
+        />
+      </label>
+      <fieldset className="mb-4">
+        <legend className="text-sm text-gray-400">Scopes</legend>
+        <div className="mt-2 grid gap-2 md:grid-cols-3">
+          {SCOPE_OPTIONS.map((option) => (
+            <label key={option.scope} className="flex items-start gap-2 rounded-md border border-gray-700 p-3">
+              <input
+                type="checkbox"
+                checked={scopes.includes(option.scope)}
+                onChange={() => toggleScope(option.scope)}
+                className="mt-1"
+              />
+              <span>
+                <span className="block text-sm font-medium text-white">{option.label}</span>
+                <span className="block text-xs text-gray-400">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      <button
+        type="submit"
+        disabled={disabled || name.trim().length === 0 || scopes.length === 0}
+        className="inline-flex items-center rounded-lg bg-gradient-to-r from-blue-500 to-purple-500 px-5 py-2 text-sm font-medium text-white hover:from-blue-600 hover:to-purple-600 disabled:opacity-50"
+      >
+        <KeyRoundIcon className="mr-2 h-4 w-4" />
+        Create key
+      </button>
+    </form>
+  )
+}
+
+function UsageBar({ used, quota }: { used: number; quota: number | null }) {
+  if (quota === null) {
+    return <p className="text-sm text-gray-400">{used.toLocaleString()} requests this month (no quota)</p>
+  }
+  const percent = Math.min(100, Math.round((used / quota) * 100))
+  return (
+    <div>
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-400">This month</span>
+        <span className={percent >= 90 ? 'text-red-400' : 'text-gray-300'}>
+          {used.toLocaleString()} / {quota.toLocaleString()}
+        </span>
+      </div>
+      <div className="mt-1 h-2 rounded-full bg-gray-700">
+        <div className={`h-2 rounded-full ${percent >= 90 ? 'bg-red-500' : 'bg-purple-500'}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  )
+}
+
+function KeyDetails({ apiKey }: { apiKey: ApiKeyView }) {
+  return (
+    <dl className="mt-4 grid grid-cols-2 gap-y-1 text-xs">
+      <dt className="text-gray-500">Rate limit</dt>
+      <dd className="text-right text-gray-300">{apiKey.rateLimitPerMinute} / minute</dd>
+      <dt className="text-gray-500">Created</dt>
+      <dd className="text-right text-gray-300">{formatDate(apiKey.createdAt)}</dd>
+      <dt className="text-gray-500">Last used</dt>
+      <dd className="text-right text-gray-300">{formatDate(apiKey.lastUsedAt)}</dd>
+      {apiKey.expiresAt && (
+        <>
+          <dt className="text-gray-500">{apiKey.status === 'expiring' ? 'Stops working' : 'Expired'}</dt>
+          <dd className="text-right text-gray-300">{formatDate(apiKey.expiresAt)}</dd>
+        </>
+      )}
+    </dl>
+  )
+}
+
+function KeyActions({
+  apiKey,
+  disabled,
+  onRotate,
+  onRevoke,
+}: {
+  apiKey: ApiKeyView
+  disabled: boolean
+  onRotate: (id: string) => void
+  onRevoke: (id: string) => void
+}) {
+  return (
+    <div className="mt-4 flex gap-2">
+      {apiKey.status === 'active' && (
+        <button
+          onClick={() => onRotate(apiKey.id)}
+          disabled={disabled}
+          className="inline-flex items-center rounded-md border border-gray-600 px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-700 disabled:opacity-50"
+        >
+          <RefreshCwIcon className="mr-2 h-4 w-4" />
+          Rotate
+        </button>
+      )}
+      <button
+        onClick={() => onRevoke(apiKey.id)}
+        disabled={disabled}
+        className="inline-flex items-center rounded-md border border-red-500/40 px-3 py-1.5 text-sm text-red-400 hover:bg-red-500/10 disabled:opacity-50"
+      >
+        <TrashIcon className="mr-2 h-4 w-4" />
+        Revoke
+      </button>
+    </div>
+  )
+}
+
+function ApiKeyCard({
+  apiKey,
+  canManage,
+  disabled,
+  onRotate,
+  onRevoke,
+}: {
+  apiKey: ApiKeyView
+  canManage: boolean
+  disabled: boolean
+  onRotate: (id: string) => void
+  onRevoke: (id: string) => void
+}) {
+  const status = STATUS_STYLES[apiKey.status]
+  const usable = apiKey.status === 'active' || apiKey.status === 'expiring'
+
+  return (
+    <div className="rounded-lg border border-gray-700/50 bg-gray-800/50 p-6 backdrop-blur-sm">
+      <div className="mb-4 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">{apiKey.name}</h3>
+          <p className="font-mono text-sm text-gray-400">{apiKey.prefix}…</p>
+        </div>
+        <span className={`rounded-full border px-2 py-0.5 text-xs ${status.className}`}>{status.label}</span>
+      </div>
+
+      <div className="mb-4 flex flex-wrap gap-2">
+        {apiKey.scopes.map((scope) => (
+          <span key={scope} className="rounded bg-gray-700/60 px-2 py-0.5 text-xs text-gray-300">{scope}</span>
+        ))}
+      </div>
+
+      <UsageBar used={apiKey.usage.month} quota={apiKey.monthlyQuota} />
+
+      {apiKey.usage.byEndpoint.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-gray-400">
+          {apiKey.usage.byEndpoint.map((entry) => (
+            <li key={entry.endpoint} className="flex justify-between">
+              <span className="font-mono">{entry.endpoint}</span>
+              <span>{entry.requests.toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <KeyDetails apiKey={apiKey} />
+
+      {canManage && usable && (
+        <KeyActions apiKey={apiKey} disabled={disabled} onRotate={onRotate} onRevoke={onRevoke} />
+      )}
+    </div>
+  )
+}
+
+function ApiKeyList({
+  keys,
+  ...cardProps
+}: {
+  keys: ApiKeyView[]
+  canManage: boolean
+  disabled: boolean
+  onRotate: (id: string) => void
+  onRevoke: (id: string) => void
+}) {
+  if (keys.length === 0) {
+    return (
+      <div className="py-12 text-center">
+        <KeyRoundIcon className="mx-auto mb-4 h-16 w-16 text-gray-600" />
+        <h3 className="mb-2 text-xl font-semibold text-white">No API keys yet</h3>
+        <p className="text-gray-400">Send a key in the x-api-key header to call /api/v1.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+      {keys.map((apiKey) => (
+        <ApiKeyCard key={apiKey.id} apiKey={apiKey} {...cardProps} />
+      ))}
+    </div>
+  )
+}
+
+export default function ApiKeysManager({ initialKeys, canManage }: ApiKeysManagerProps) {
+  const [keys, setKeys] = useState(initialKeys)
+  const [issuedKey, setIssuedKey] = useState<string | null>(null)
+  const [feedback, setFeedback] = useState<Feedback | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const run = (action: () => Promise<string>) => {
+    startTransition(async () => {
+      try {
+        const message = await action()
+        const refreshed = await requestJson<{ keys: ApiKeyView[] }>('/api/user/keys')
+        setKeys(refreshed.keys)
+        setFeedback({ type: 'success', message })
+      } catch (error) {
+        setFeedback({ type: 'error', message: error instanceof Error ? error.message : 'Request failed' })
+      }
+    })
+  }
+
+  const createKey = (name: string, scopes: ApiKeyScope[]) =>
+    run(async () => {
+      const created = await requestJson<{ key: string }>('/api/user/keys', { method: 'POST', body: JSON.stringify({ name, scopes }) })
+      setIssuedKey(created.key)
+      return 'Key created.'
+    })
+
+  const rotateKey = (id: string) => {
+    if (!window.confirm('Issue a replacement key? The current key keeps working for 24 hours.')) return
+    run(async () => {
+      const rotated = await requestJson<{ key: string }>(`/api/user/keys/${id}/rotate`, { method: 'POST' })
+      setIssuedKey(rotated.key)
+      return 'Key rotated. Switch your integration to the new key within 24 hours.'
+    })
+  }
+
+  const revokeKey = (id: string) => {
+    if (!window.confirm('Revoke this key? Requests using it will fail immediately.')) return
+    run(async () => {
+      await requestJson(`/api/user/keys/${id}`, { method: 'DELETE' })
+      return 'Key revoked.'
+    })
+  }
+
+  return (
+    <div>
+      {feedback && <FeedbackBanner feedback={feedback} />}
+
+      {issuedKey && <IssuedKeyNotice issuedKey={issuedKey} onDismiss={() => setIssuedKey(null)} />}
+
+      {canManage ? (
+        <CreateKeyForm disabled={isPending} onCreate={createKey} />
+      ) : (
+        <p className="mb-8 text-sm text-gray-400">Only organization admins can create, rotate or revoke keys.</p>
+      )}
+
+      <ApiKeyList
+        keys={keys}
+        canManage={canManage}
+        disabled={isPending}
+        onRotate={rotateKey}
+        onRevoke={revokeKey}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+'use client'
+
+import { useTransition } from 'react'
+import { Link2, ScanSearch } from 'lucide-react'
+import { auditCaseAttributions, relinkCaseAttributions } from '@/app/admin/actions'
+import type { CaseAttributionReport } from '@/lib/admin/case-attributions'
+import type { AttributionMethod } from '@/lib/sync/case-attribution'
+
+interface CaseAttributionPanelProps {
+  report: CaseAttributionReport | null
+  onFeedback: (feedback: { type: 'success' | 'error'; message: string }) => void
+}
+
+const METHOD_LABELS: Record<AttributionMethod, string> = {
+  assigned_to: 'Docket assignment',
+  opinion_author: 'Opinion author',
+  docket_text: 'Docket judge name',
+  manual: 'Manual',
+  redistribution: 'Redistributed',
+  unverified: 'Unverified'
+}
+
+export default function CaseAttributionPanel({ report, onFeedback }: CaseAttributionPanelProps): JSX.Element {
+  const [isPending, startTransition] = useTransition()
+
+  const run = (action: () => Promise<string>, failure: string): void => {
+    startTransition(async () => {
+      try {
+        onFeedback({ type: 'success', message: await action() })
+      } catch (error) {
+        console.error(error)
+        onFeedback({ type: 'error', message: failure })
+      }
+    })
+  }
+
+  const audit = (): void => {
+    run(async () => {
+      const response = await auditCaseAttributions() as { audited?: number; hasMore?: boolean }
+      return `${response?.audited ?? 0} case links audited${response?.hasMore ? '; more remain' : ''}.`
+    }, 'Attribution audit failed.')
+  }
+
+  const relink = (): void => {
+    run(async () => {
+      const response = await relinkCaseAttributions() as { relinked?: number; confirmed?: number; unresolved?: number }
+      return `${response?.relinked ?? 0} cases re-linked, ${response?.confirmed ?? 0} confirmed, ${response?.unresolved ?? 0} unresolved.`
+    }, 'Re-linking failed.')
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Case-to-judge attribution</h2>
+          <p className="text-xs text-gray-500">How each case&apos;s judge was found. Redistributed and unverified links are left out of judge analytics until re-linked.</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={audit}
+            disabled={isPending}
+            className="inline-flex items-center gap-1 rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+          >
+            <ScanSearch className="h-3.5 w-3.5" />Audit
+          </button>
+          <button
+            type="button"
+            onClick={relink}
+            disabled={isPending}
+            className="inline-flex items-center gap-1 rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+          >
+            <Link2 className="h-3.5 w-3.5" />Re-link
+          </button>
+        </div>
+      </div>
+      {!report ? (
+        <p className="px-6 py-5 text-xs text-gray-500">Attribution report unavailable.</p>
+      ) : (
+        <div className="space-y-4 px-6 py-4 text-sm">
+          <dl className="grid grid-cols-2 gap-3 text-xs md:grid-cols-4">
+            {(Object.keys(METHOD_LABELS) as AttributionMethod[]).map((method) => (
+              <div key={method}>
+                <dt className="text-gray-500">{METHOD_LABELS[method]}</dt>
+                <dd className="font-semibold text-gray-900">{report.counts[method].toLocaleString()}</dd>
+              </div>
+            ))}
+            <div>
+              <dt className="text-gray-500">Not yet audited</dt>
+              <dd className="font-semibold text-gray-900">{report.unaudited.toLocaleString()}</dd>
+            </div>
+          </dl>
+          {report.cases.length === 0 ? (
+            <p className="text-xs text-gray-500">No redistributed case links.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 text-xs">
+              {report.cases.map((flagged) => (
+                <li key={flagged.id} className="flex items-center justify-between gap-4 py-2">
+                  <span className="truncate text-gray-900">{flagged.caseName ?? flagged.caseNumber ?? flagged.id}</span>
+                  <span className="shrink-0 text-gray-500">
+                    {flagged.caseNumber ?? '—'} · now {flagged.judge?.name ?? 'unknown judge'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
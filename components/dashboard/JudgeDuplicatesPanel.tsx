@@ -0,0 +1,140 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { GitMerge, ScanSearch, X } from 'lucide-react'
+import { detectJudgeDuplicates, dismissJudgeDuplicate, mergeJudges } from '@/app/admin/actions'
+import type { DuplicateJudgeSummary, JudgeDuplicateView } from '@/lib/admin/judge-duplicates'
+
+interface JudgeDuplicatesPanelProps {
+  duplicates: JudgeDuplicateView[]
+  onFeedback: (feedback: { type: 'success' | 'error'; message: string }) => void
+}
+
+function formatSignal(value: number | null): string {
+  return value === null ? 'n/a' : `${Math.round(value * 100)}%`
+}
+
+function JudgeSummary({ judge }: { judge: DuplicateJudgeSummary }): JSX.Element {
+  return (
+    <div className="space-y-0.5">
+      <p className="font-semibold text-gray-900">{judge.name}</p>
+      <p className="text-xs text-gray-500">{judge.courtName ?? 'No court'} · {judge.jurisdiction ?? '—'}</p>
+      <p className="text-xs text-gray-500">
+        Appointed {judge.appointedDate ?? '—'} · {judge.totalCases} case{judge.totalCases === 1 ? '' : 's'}
+        {judge.courtlistenerId ? ` · CL #${judge.courtlistenerId}` : ''}
+      </p>
+    </div>
+  )
+}
+
+export default function JudgeDuplicatesPanel({ duplicates, onFeedback }: JudgeDuplicatesPanelProps): JSX.Element {
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const run = (id: string, action: () => Promise<string>, failure: string): void => {
+    setPendingId(id)
+    startTransition(async () => {
+      try {
+        onFeedback({ type: 'success', message: await action() })
+      } catch (error) {
+        console.error(error)
+        onFeedback({ type: 'error', message: failure })
+      } finally {
+        setPendingId(null)
+      }
+    })
+  }
+
+  const keep = (pair: JudgeDuplicateView, survivor: DuplicateJudgeSummary, duplicate: DuplicateJudgeSummary): void => {
+    run(
+      pair.id,
+      async () => {
+        await mergeJudges(duplicate.id, survivor.id)
+        return `Merged ${duplicate.name} into ${survivor.name}.`
+      },
+      'Merge failed. One judge may already be merged, or both have a booked ad in the same position.'
+    )
+  }
+
+  const dismiss = (candidateId: string): void => {
+    run(candidateId, async () => {
+      await dismissJudgeDuplicate(candidateId)
+      return 'Marked as different judges.'
+    }, 'Dismiss failed. The pair may already be reviewed.')
+  }
+
+  const detect = (): void => {
+    run('detect', async () => {
+      const response = await detectJudgeDuplicates() as { queued?: number }
+      return `${response?.queued ?? 0} new duplicate candidates queued.`
+    }, 'Duplicate detection failed.')
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Possible duplicate judges</h2>
+          <p className="text-xs text-gray-500">Pairs scored on name variants, court and appointment date. Merging moves cases, bookmarks and ad spots to the kept record.</p>
+        </div>
+        <button
+          type="button"
+          onClick={detect}
+          disabled={isPending && pendingId === 'detect'}
+          className="inline-flex items-center gap-1 rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+        >
+          <ScanSearch className="h-3.5 w-3.5" />Detect
+        </button>
+      </div>
+      {duplicates.length === 0 ? (
+        <p className="px-6 py-5 text-xs text-gray-500">No duplicate candidates awaiting review.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {duplicates.map((pair) => {
+            const busy = isPending && pendingId === pair.id
+            return (
+              <li key={pair.id} className="space-y-3 px-6 py-4 text-sm">
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <span className="rounded-full bg-amber-50 px-2 py-0.5 font-medium text-amber-700">{Math.round(pair.score * 100)}% match</span>
+                  <span>
+                    name {formatSignal(pair.signals.name)} · court {formatSignal(pair.signals.court)} · appointment {formatSignal(pair.signals.appointment)}
+                  </span>
+                </div>
+                <div className="grid gap-3 md:grid-cols-2">
+                  <JudgeSummary judge={pair.judge} />
+                  <JudgeSummary judge={pair.candidate} />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => keep(pair, pair.judge, pair.candidate)}
+                    disabled={busy}
+                    className="inline-flex items-center gap-1 rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                  >
+                    <GitMerge className="h-3.5 w-3.5" />Keep left
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => keep(pair, pair.candidate, pair.judge)}
+                    disabled={busy}
+                    className="inline-flex items-center gap-1 rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                  >
+                    <GitMerge className="h-3.5 w-3.5" />Keep right
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => dismiss(pair.id)}
+                    disabled={busy}
+                    className="inline-flex items-center gap-1 rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-60"
+                  >
+                    <X className="h-3.5 w-3.5" />Not a duplicate
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
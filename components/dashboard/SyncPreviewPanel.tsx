@@ -0,0 +1,193 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { CheckCircle2, Eye, XCircle } from 'lucide-react'
+import { approveSyncPreview, rejectSyncPreview } from '@/app/admin/actions'
+import type { SyncPreviewView } from '@/lib/admin/sync-previews'
+import type { SyncPreviewItem, SyncPreviewStatus } from '@/lib/sync/preview'
+
+interface SyncPreviewPanelProps {
+  previews: SyncPreviewView[]
+  onFeedback: (feedback: { type: 'success' | 'error'; message: string }) => void
+}
+
+const STATUS_META: Record<SyncPreviewStatus, { label: string; className: string }> = {
+  pending_review: { label: 'Awaiting review', className: 'bg-amber-50 text-amber-700' },
+  approved: { label: 'Approved', className: 'bg-green-50 text-green-700' },
+  rejected: { label: 'Rejected', className: 'bg-gray-100 text-gray-600' },
+  failed: { label: 'Failed to save', className: 'bg-red-50 text-red-700' }
+}
+
+const ACTION_CLASS: Record<SyncPreviewItem['action'], string> = {
+  create: 'text-green-700',
+  update: 'text-blue-700',
+  skip: 'text-gray-500'
+}
+
+const STALE_MESSAGE: Record<NonNullable<SyncPreviewView['staleReason']>, string> = {
+  expired: 'This preview is too old to approve. Run a new dry run to review current changes.',
+  drifted: 'Records this preview covers have changed since the dry run. Run a new dry run to review current changes.'
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '∅'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text
+}
+
+function formatTimestamp(value: string | null): string {
+  if (!value) return '—'
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString()
+}
+
+function describeOptions(options: Record<string, unknown>): string {
+  const entries = Object.entries(options).filter(([, value]) => value !== undefined && value !== null)
+  if (entries.length === 0) return 'default options'
+  return entries.map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : String(value)}`).join(' · ')
+}
+
+export default function SyncPreviewPanel({ previews, onFeedback }: SyncPreviewPanelProps) {
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const review = (previewId: string, decision: 'approve' | 'reject') => {
+    setPendingId(previewId)
+    startTransition(async () => {
+      try {
+        if (decision === 'approve') {
+          await approveSyncPreview(previewId)
+          onFeedback({ type: 'success', message: 'Preview approved. The sync has been queued as a real job.' })
+        } else {
+          await rejectSyncPreview(previewId)
+          onFeedback({ type: 'success', message: 'Preview rejected.' })
+        }
+      } catch (error) {
+        console.error(error)
+        onFeedback({ type: 'error', message: 'Review failed. The preview may already have been reviewed, or be too stale to approve.' })
+      } finally {
+        setPendingId(null)
+      }
+    })
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Sync previews</h2>
+          <p className="text-xs text-gray-500">Dry-run results. Approving one queues the same sync as a real job while the preview is still current.</p>
+        </div>
+        <Eye className="h-5 w-5 text-gray-400" />
+      </div>
+      {previews.length === 0 ? (
+        <p className="px-6 py-5 text-xs text-gray-500">No dry runs yet. Queue a sync with dryRun to preview its changes.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {previews.map((preview) => {
+            const statusMeta = STATUS_META[preview.status] ?? STATUS_META.failed
+            const busy = isPending && pendingId === preview.id
+            return (
+              <li key={preview.id} className="px-6 py-4 text-sm">
+                <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold capitalize text-gray-900">{preview.syncType} sync</span>
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${statusMeta.className}`}>{statusMeta.label}</span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {formatTimestamp(preview.createdAt)} · {describeOptions(preview.options)}
+                    </p>
+                    <div className="flex flex-wrap gap-2 text-xs text-gray-700">
+                      {Object.entries(preview.summary).map(([entityType, counts]) => (
+                        <span key={entityType} className="rounded-md bg-gray-50 px-2 py-1">
+                          {entityType}: <span className="text-green-700">+{counts.create}</span>{' '}
+                          <span className="text-blue-700">~{counts.update}</span>{' '}
+                          <span className="text-gray-500">={counts.skip}</span>
+                        </span>
+                      ))}
+                      {Object.keys(preview.summary).length === 0 && <span className="text-gray-500">No changes found.</span>}
+                    </div>
+                    {preview.truncated && (
+                      <p className="text-xs text-amber-700">The dry run hit its time budget; this preview covers only part of the sync.</p>
+                    )}
+                    {preview.staleReason && (
+                      <p className="text-xs text-amber-700">{STALE_MESSAGE[preview.staleReason]}</p>
+                    )}
+                    {preview.appliedJobId && (
+                      <p className="text-xs text-gray-500">Job {preview.appliedJobId} · reviewed {formatTimestamp(preview.reviewedAt)}</p>
+                    )}
+                  </div>
+                  {preview.status === 'pending_review' && (
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => review(preview.id, 'approve')}
+                        disabled={busy || preview.staleReason !== null}
+                        title={preview.staleReason ? STALE_MESSAGE[preview.staleReason] : undefined}
+                        className="inline-flex items-center gap-1 rounded-md bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-60"
+                      >
+                        <CheckCircle2 className="h-3.5 w-3.5" />Approve & apply
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => review(preview.id, 'reject')}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-60"
+                      >
+                        <XCircle className="h-3.5 w-3.5" />Reject
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {preview.items.length > 0 && (
+                  <details className="mt-3">
+                    <summary className="cursor-pointer text-xs font-medium text-blue-700">
+                      Show diff ({preview.items.length}{preview.itemsTruncated ? '+' : ''} rows)
+                    </summary>
+                    <div className="mt-2 max-h-96 overflow-auto rounded-md border border-gray-200">
+                      <table className="min-w-full divide-y divide-gray-200 text-xs">
+                        <thead className="bg-gray-50 text-gray-600">
+                          <tr>
+                            <th scope="col" className="px-3 py-2 text-left font-semibold">Action</th>
+                            <th scope="col" className="px-3 py-2 text-left font-semibold">Record</th>
+                            <th scope="col" className="px-3 py-2 text-left font-semibold">Changes</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100 bg-white text-gray-700">
+                          {preview.items.map((item, index) => (
+                            <tr key={`${item.entity_type}-${item.entity_id ?? item.external_id}-${index}`} className="align-top">
+                              <td className={`px-3 py-2 font-medium ${ACTION_CLASS[item.action]}`}>{item.action}</td>
+                              <td className="px-3 py-2">
+                                <span className="text-gray-900">{item.label || item.external_id || item.entity_id}</span>
+                                <span className="block text-gray-500">{item.entity_type}{item.external_id ? ` · ${item.external_id}` : ''}</span>
+                              </td>
+                              <td className="px-3 py-2">
+                                {item.action === 'skip' ? (
+                                  <span className="text-gray-500">{item.reason}</span>
+                                ) : (
+                                  <ul className="space-y-0.5">
+                                    {Object.entries(item.changes).map(([field, change]) => (
+                                      <li key={field}>
+                                        <span className="font-medium">{field}</span>: {item.action === 'update' && <>{formatValue(change.old)} → </>}
+                                        {formatValue(change.new)}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </details>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
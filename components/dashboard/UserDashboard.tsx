@@ -11,6 +11,7 @@ import {
   BuildingIcon,
   BarChart3Icon,
   StarIcon,
+  KeyRoundIcon,
   Megaphone
 } from 'lucide-react'
 import AdPurchaseModal from './AdPurchaseModal'
@@ -419,6 +420,17 @@ export function UserDashboard({ user }: UserDashboardProps) {
               <p className="text-sm text-gray-400">View bookmarked judges</p>
             </div>
           </Link>
+
+          <Link
+            href="/dashboard/developer"
+            className="flex items-center p-4 bg-gray-700/50 rounded-lg border border-gray-600/50 hover:bg-gray-600/50 transition-colors group"
+          >
+            <KeyRoundIcon className="h-6 w-6 text-purple-400 mr-3" />
+            <div>
+              <p className="font-medium text-white group-hover:text-purple-400">API Keys</p>
+              <p className="text-sm text-gray-400">Create keys and track API usage</p>
+            </div>
+          </Link>
         </div>
       </div>
 
@@ -0,0 +1,89 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { RotateCcw, Webhook } from 'lucide-react'
+import { reprocessWebhookEvent } from '@/app/admin/actions'
+import type { WebhookEventView } from '@/lib/admin/webhook-events'
+
+interface WebhookEventsPanelProps {
+  events: WebhookEventView[]
+  onFeedback: (feedback: { type: 'success' | 'error'; message: string }) => void
+}
+
+function formatTimestamp(value: string | null): string {
+  if (!value) return '—'
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString()
+}
+
+export default function WebhookEventsPanel({ events, onFeedback }: WebhookEventsPanelProps): JSX.Element {
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const reprocess = (eventId: string): void => {
+    setPendingId(eventId)
+    startTransition(async () => {
+      try {
+        const response = await reprocessWebhookEvent(eventId) as { success?: boolean; status?: string; error?: string }
+        if (response?.success) {
+          onFeedback({ type: 'success', message: `Webhook event ${response.status ?? 'processed'}.` })
+        } else {
+          onFeedback({ type: 'error', message: `Reprocessing failed again: ${response?.error ?? 'see server logs'}` })
+        }
+      } catch (error) {
+        console.error(error)
+        onFeedback({ type: 'error', message: 'Reprocess failed. The event may already be running or resolved.' })
+      } finally {
+        setPendingId(null)
+      }
+    })
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">CourtListener webhooks</h2>
+          <p className="text-xs text-gray-500">Failed deliveries and attempts that were cut off. Reprocessing replays the stored payload.</p>
+        </div>
+        <Webhook className="h-5 w-5 text-gray-400" />
+      </div>
+      {events.length === 0 ? (
+        <p className="px-6 py-5 text-xs text-gray-500">No failed webhook events.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {events.map((event) => {
+            const busy = isPending && pendingId === event.id
+            return (
+              <li key={event.id} className="flex flex-col gap-2 px-6 py-4 text-sm md:flex-row md:items-start md:justify-between">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-gray-900">{event.eventType}</span>
+                    {event.eventId && <span className="text-xs text-gray-500">#{event.eventId}</span>}
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${event.status === 'failed' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'}`}>
+                      {event.status === 'failed' ? 'Failed' : 'In progress'}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Received {formatTimestamp(event.createdAt)} · {event.attempts} attempt{event.attempts === 1 ? '' : 's'} · last {formatTimestamp(event.lastAttemptAt)}
+                  </p>
+                  {event.errorMessage && <p className="text-xs text-red-700">{event.errorMessage}</p>}
+                </div>
+                {event.retryable && (
+                  <button
+                    type="button"
+                    onClick={() => reprocess(event.id)}
+                    disabled={busy}
+                    className="inline-flex items-center gap-1 self-start rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                  >
+                    <RotateCcw className="h-3.5 w-3.5" />Reprocess
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -14,23 +14,26 @@ import {
   type QualityTier,
 } from '@/lib/analytics/config'
 import { QualityBadge } from '@/components/judges/QualityBadge'
+import type { AdjustedMetric } from '@/lib/analytics/adjusted-metrics'
+import type { PosteriorEstimate } from '@/lib/analytics/posterior-metrics'
+import type { InsufficientDataReport } from '@/lib/analytics/insufficient-data'
 
 interface CaseAnalytics {
-  civil_plaintiff_favor: number
-  civil_defendant_favor: number
-  family_custody_mother: number
-  family_custody_father: number
-  family_alimony_favorable: number
-  contract_enforcement_rate: number
-  contract_dismissal_rate: number
-  criminal_sentencing_severity: number
-  criminal_plea_acceptance: number
+  civil_plaintiff_favor: number | null
+  civil_defendant_favor: number | null
+  family_custody_mother: number | null
+  family_custody_father: number | null
+  family_alimony_favorable: number | null
+  contract_enforcement_rate: number | null
+  contract_dismissal_rate: number | null
+  criminal_sentencing_severity: number | null
+  criminal_plea_acceptance: number | null
   
   // New metrics
-  bail_release_rate: number
-  appeal_reversal_rate: number
-  settlement_encouragement_rate: number
-  motion_grant_rate: number
+  bail_release_rate: number | null
+  appeal_reversal_rate: number | null
+  settlement_encouragement_rate: number | null
+  motion_grant_rate: number | null
   
   // Enhanced confidence metrics
   confidence_civil: number
@@ -56,6 +59,9 @@ interface CaseAnalytics {
   sample_size_reversal: number
   sample_size_settlement: number
   sample_size_motion: number
+
+  baseline_adjusted?: AdjustedMetric[]
+  posterior_estimates?: PosteriorEstimate[]
   
   total_cases_analyzed: number
   analysis_quality: string
@@ -83,6 +89,33 @@ interface SliderProps {
   tooltip: string
   lastUpdated?: string | null
   quality: QualityTier
+  adjustment?: AdjustedMetric | null
+  estimate?: PosteriorEstimate | null
+}
+
+function formatPoints(value: number) {
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`
+}
+
+function BaselineDeviation({ adjustment }: { adjustment: AdjustedMetric }) {
+  if (adjustment.deviation === null || adjustment.ci_lower === null || adjustment.ci_upper === null) {
+    return null
+  }
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-[color:hsl(var(--text-3))]">
+      <span>
+        <span className="font-medium text-[color:hsl(var(--text-1))]">{formatPoints(adjustment.deviation)} pts</span> vs{' '}
+        {adjustment.baseline_label} ({adjustment.expected_rate}% expected for this case mix; 95% CI{' '}
+        {formatPoints(adjustment.ci_lower)} to {formatPoints(adjustment.ci_upper)})
+      </span>
+      {adjustment.significant && (
+        <span className="rounded-full border border-[rgba(110,168,254,0.4)] bg-[rgba(110,168,254,0.18)] px-2 py-0.5 font-medium text-[color:hsl(var(--accent))]">
+          Statistically significant
+        </span>
+      )}
+    </div>
+  )
 }
 
 function ConfidenceIndicator({ confidence }: { confidence: number }) {
@@ -114,6 +147,21 @@ function ConfidenceIndicator({ confidence }: { confidence: number }) {
   )
 }
 
+function CredibleRange({ estimate }: { estimate: PosteriorEstimate }) {
+  const anchor = estimate.prior_label ?? 'a neutral starting point'
+  return (
+    <p className="mt-2 text-xs text-[color:hsl(var(--text-3))]">
+      95% credible range {Math.round(estimate.credible_lower)}–{Math.round(estimate.credible_upper)}%
+      {estimate.shrinkage >= 0.2 && (
+        <>
+          {' '}· based on {estimate.sample_size} case{estimate.sample_size === 1 ? '' : 's'}, pulled toward {anchor} (
+          {Math.round(estimate.prior_mean)}%)
+        </>
+      )}
+    </p>
+  )
+}
+
 function AnalyticsSlider({
   label,
   value,
@@ -126,6 +174,8 @@ function AnalyticsSlider({
   tooltip,
   lastUpdated,
   quality,
+  adjustment,
+  estimate,
 }: SliderProps) {
   const isLowConfidence = confidence < 70
   const belowThreshold = isBelowSampleThreshold(sampleSize)
@@ -154,7 +204,9 @@ function AnalyticsSlider({
         </span>
       </div>
 
-      {belowThreshold ? (
+      {adjustment && !belowThreshold && <BaselineDeviation adjustment={adjustment} />}
+
+      {belowThreshold && !estimate ? (
         <div className="mt-4 rounded-xl border border-dashed border-[rgba(251,211,141,0.45)] bg-[rgba(251,211,141,0.1)] p-4 text-xs text-[color:hsl(var(--warn))]">
           Not enough recent decisions to display this estimate yet. Request a data refresh or check back after the next sync.
         </div>
@@ -182,6 +234,16 @@ function AnalyticsSlider({
               )}
               style={{ width: `${value}%` }}
             />
+            {estimate && (
+              <div
+                className="absolute top-0 h-full border-x border-[rgba(180,187,198,0.7)] bg-[rgba(180,187,198,0.18)]"
+                style={{
+                  left: `${estimate.credible_lower}%`,
+                  width: `${Math.max(estimate.credible_upper - estimate.credible_lower, 0.5)}%`,
+                }}
+                aria-hidden
+              />
+            )}
             <div className="absolute left-1/2 top-0 h-full w-px -translate-x-1/2 transform bg-[rgba(180,187,198,0.35)]" />
             {isLowConfidence && (
               <div className="absolute inset-0 flex items-center justify-center bg-[rgba(124,135,152,0.18)]">
@@ -189,6 +251,7 @@ function AnalyticsSlider({
               </div>
             )}
           </div>
+          {estimate && <CredibleRange estimate={estimate} />}
         </div>
       )}
 
@@ -203,6 +266,55 @@ function AnalyticsSlider({
   )
 }
 
+function InsufficientDataNotice({ report, judgeName }: { report: InsufficientDataReport; judgeName: string }) {
+  const nextSync = report.next_sync
+  const nextSyncLabel = nextSync
+    ? new Date(nextSync.expected_at).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : null
+
+  return (
+    <div className="rounded-2xl border border-border bg-[hsl(var(--bg-2))] p-6 text-sm text-[color:hsl(var(--text-2))]">
+      <h3 className="mb-2 flex items-center gap-2 font-semibold text-[color:hsl(var(--text-1))]">
+        <Database className="h-4 w-4 text-[color:hsl(var(--text-3))]" aria-hidden />
+        Insufficient data for {judgeName}
+      </h3>
+      <p>{report.message} We do not show estimated figures in place of case records.</p>
+      <ul className="ml-4 mt-3 list-disc space-y-1 text-xs">
+        {report.missing.map((item) => (
+          <li key={item}>{item}</li>
+        ))}
+      </ul>
+      <p className="mt-3 flex items-center gap-2 text-xs text-[color:hsl(var(--text-3))]">
+        <Clock className="h-3.5 w-3.5" aria-hidden />
+        {nextSync
+          ? `Next case sync ${nextSync.status === 'running' ? 'in progress since' : 'expected'} ${nextSyncLabel}${
+              nextSync.targets_judge ? ' (queued for this judge)' : ''
+            }.`
+          : 'No case sync is currently queued for this judge.'}
+      </p>
+      <div className="mt-4 flex flex-wrap items-center gap-3 text-xs">
+        <button
+          type="button"
+          className="inline-flex items-center justify-center rounded-full border border-border bg-[hsl(var(--bg-1))] px-4 py-2 font-semibold text-[color:hsl(var(--text-1))] transition-colors hover:border-primary hover:text-primary"
+          onClick={() => {
+            document.dispatchEvent(new CustomEvent(report.corrections.event))
+          }}
+        >
+          Report missing cases
+        </button>
+        <a className="text-[color:hsl(var(--accent))] hover:underline" href={`mailto:${report.corrections.email}`}>
+          {report.corrections.email}
+        </a>
+      </div>
+    </div>
+  )
+}
+
 function LegalDisclaimer({ analytics }: { analytics: CaseAnalytics }) {
   return (
     <div className="mt-6 rounded-2xl border border-[rgba(252,165,165,0.4)] bg-[rgba(252,165,165,0.15)] p-5">
@@ -237,6 +349,7 @@ function LegalDisclaimer({ analytics }: { analytics: CaseAnalytics }) {
 
 export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlidersProps) {
   const [analytics, setAnalytics] = useState<CaseAnalytics | null>(null)
+  const [insufficientData, setInsufficientData] = useState<InsufficientDataReport | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [dataSource, setDataSource] = useState<string>('unknown')
@@ -263,6 +376,7 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
 
         const data = await response.json()
         setAnalytics(data.analytics)
+        setInsufficientData(data.insufficient_data ?? null)
         setDataSource(data.data_source || 'unknown')
         setLastUpdated(
           data.last_updated ||
@@ -291,8 +405,6 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
         return 'Supabase cache'
       case 'case_analysis':
         return 'Live case analysis'
-      case 'profile_estimation':
-        return 'Profile estimation'
       default:
         return cached ? 'Cached analytics' : 'Live analytics'
     }
@@ -364,6 +476,10 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
     )
   }
 
+  if (!analytics && insufficientData) {
+    return <InsufficientDataNotice report={insufficientData} judgeName={judgeName} />
+  }
+
   if (!analytics) {
     return (
       <div className="rounded-2xl border border-border bg-[hsl(var(--bg-2))] p-6">
@@ -379,7 +495,7 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
   const sliders = [
     {
       label: 'Civil cases',
-      value: analytics.civil_plaintiff_favor ?? 0,
+      value: analytics.civil_plaintiff_favor,
       leftLabel: 'Defendant favor',
       rightLabel: 'Plaintiff favor',
       color: 'border border-[rgba(110,168,254,0.4)] bg-[rgba(110,168,254,0.18)] text-[color:hsl(var(--accent))]',
@@ -387,11 +503,12 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
       tooltip: 'Based on contested civil rulings captured in the past 36 months; sealed or confidential matters are excluded.',
       confidence: analytics.confidence_civil ?? 0,
       sampleSize: analytics.sample_size_civil ?? 0,
+      metric: 'civil',
       lastUpdated: resolvedLastUpdated,
     },
     {
       label: 'Child custody',
-      value: analytics.family_custody_mother ?? 0,
+      value: analytics.family_custody_mother,
       leftLabel: 'Father custody',
       rightLabel: 'Mother custody',
       color: 'border border-[rgba(110,168,254,0.4)] bg-[rgba(110,168,254,0.18)] text-[color:hsl(var(--accent))]',
@@ -399,11 +516,12 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
       tooltip: 'Counts cases where the order names mother or father; guardianships and other caregivers are grouped separately.',
       confidence: analytics.confidence_custody ?? 0,
       sampleSize: analytics.sample_size_custody ?? 0,
+      metric: 'custody',
       lastUpdated: resolvedLastUpdated,
     },
     {
       label: 'Alimony decisions',
-      value: analytics.family_alimony_favorable ?? 0,
+      value: analytics.family_alimony_favorable,
       leftLabel: 'Rarely awards',
       rightLabel: 'Frequently awards',
       color: 'border border-[rgba(110,168,254,0.4)] bg-[rgba(110,168,254,0.18)] text-[color:hsl(var(--accent))]',
@@ -411,11 +529,12 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
       tooltip: 'Uses final divorce and support orders with explicit alimony outcomes; temporary stipulations are omitted.',
       confidence: analytics.confidence_alimony ?? 0,
       sampleSize: analytics.sample_size_alimony ?? 0,
+      metric: 'alimony',
       lastUpdated: resolvedLastUpdated,
     },
     {
       label: 'Contract enforcement',
-      value: analytics.contract_enforcement_rate ?? 0,
+      value: analytics.contract_enforcement_rate,
       leftLabel: 'Dismisses claims',
       rightLabel: 'Enforces contracts',
       color: 'border border-[rgba(103,232,169,0.35)] bg-[rgba(103,232,169,0.14)] text-[color:hsl(var(--pos))]',
@@ -423,11 +542,12 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
       tooltip: 'Looks at contract claims with a recorded disposition; settlements rely on court minutes or docket outcomes.',
       confidence: analytics.confidence_contracts ?? 0,
       sampleSize: analytics.sample_size_contracts ?? 0,
+      metric: 'contracts',
       lastUpdated: resolvedLastUpdated,
     },
     {
       label: 'Criminal sentencing',
-      value: analytics.criminal_sentencing_severity ?? 0,
+      value: analytics.criminal_sentencing_severity,
       leftLabel: 'Lenient',
       rightLabel: 'Strict',
       color: 'border border-[rgba(252,165,165,0.4)] bg-[rgba(252,165,165,0.2)] text-[color:hsl(var(--neg))]',
@@ -435,11 +555,12 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
       tooltip: 'Aggregates felony and misdemeanor sentencing ranges; missing duration values are excluded from the average.',
       confidence: analytics.confidence_sentencing ?? 0,
       sampleSize: analytics.sample_size_sentencing ?? 0,
+      metric: 'sentencing',
       lastUpdated: resolvedLastUpdated,
     },
     {
       label: 'Plea deal acceptance',
-      value: analytics.criminal_plea_acceptance ?? 0,
+      value: analytics.criminal_plea_acceptance,
       leftLabel: 'Rarely accepts',
       rightLabel: 'Often accepts',
       color: 'border border-[rgba(251,211,141,0.35)] bg-[rgba(251,211,141,0.18)] text-[color:hsl(var(--warn))]',
@@ -447,11 +568,12 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
       tooltip: 'Measures pleas accepted during recorded hearings; withdrawn or rejected plea offers are excluded.',
       confidence: analytics.confidence_plea ?? 0,
       sampleSize: analytics.sample_size_plea ?? 0,
+      metric: 'plea',
       lastUpdated: resolvedLastUpdated,
     },
     {
       label: 'Bail & release',
-      value: analytics.bail_release_rate ?? 0,
+      value: analytics.bail_release_rate,
       leftLabel: 'Denies release',
       rightLabel: 'Grants release',
       color: 'border border-[rgba(110,168,254,0.4)] bg-[rgba(110,168,254,0.18)] text-[color:hsl(var(--accent))]',
@@ -459,11 +581,12 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
       tooltip: 'Draws from arraignment minutes with explicit release decisions; cases lacking bail entries are omitted.',
       confidence: analytics.confidence_bail ?? 0,
       sampleSize: analytics.sample_size_bail ?? 0,
+      metric: 'bail',
       lastUpdated: resolvedLastUpdated,
     },
     {
       label: 'Appeal reversals',
-      value: analytics.appeal_reversal_rate ?? 0,
+      value: analytics.appeal_reversal_rate,
       leftLabel: 'Rarely reversed',
       rightLabel: 'Often reversed',
       color: 'border border-[rgba(110,168,254,0.4)] bg-[rgba(110,168,254,0.18)] text-[color:hsl(var(--accent))]',
@@ -471,11 +594,12 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
       tooltip: 'Includes California appellate decisions linked to the judge; partial remands count as reversals.',
       confidence: analytics.confidence_reversal ?? 0,
       sampleSize: analytics.sample_size_reversal ?? 0,
+      metric: 'reversal',
       lastUpdated: resolvedLastUpdated,
     },
     {
       label: 'Settlement encouragement',
-      value: analytics.settlement_encouragement_rate ?? 0,
+      value: analytics.settlement_encouragement_rate,
       leftLabel: 'Trial focused',
       rightLabel: 'Settlement focused',
       color: 'border border-[rgba(110,168,254,0.4)] bg-[rgba(110,168,254,0.18)] text-[color:hsl(var(--accent))]',
@@ -483,11 +607,12 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
       tooltip: 'Derived from case notes referencing settlement conferences, mediations, and judge-facilitated agreements.',
       confidence: analytics.confidence_settlement ?? 0,
       sampleSize: analytics.sample_size_settlement ?? 0,
+      metric: 'settlement',
       lastUpdated: resolvedLastUpdated,
     },
     {
       label: 'Motion grant rate',
-      value: analytics.motion_grant_rate ?? 0,
+      value: analytics.motion_grant_rate,
       leftLabel: 'Rarely grants',
       rightLabel: 'Often grants',
       color: 'border border-[rgba(251,211,141,0.35)] bg-[rgba(251,211,141,0.18)] text-[color:hsl(var(--warn))]',
@@ -495,15 +620,24 @@ export default function AnalyticsSliders({ judgeId, judgeName }: AnalyticsSlider
       tooltip: 'Uses motions with explicit granted/denied outcomes; tentative rulings without final orders are excluded.',
       confidence: analytics.confidence_motion ?? 0,
       sampleSize: analytics.sample_size_motion ?? 0,
+      metric: 'motion',
       lastUpdated: resolvedLastUpdated,
     },
   ]
 
-  const sliderEntries = sliders.map((slider) => ({
-    ...slider,
-    quality: getQualityTier(slider.sampleSize, slider.confidence),
-    hidden: shouldHideMetric(slider.sampleSize),
-  }))
+  // Shrunk estimates stay visible for small samples; their credible range carries the uncertainty.
+  // A metric with no cases at all has no rate to show, only the peer prior, so it stays hidden.
+  const sliderEntries = sliders.map(({ metric, value, ...slider }) => {
+    const estimate = analytics.posterior_estimates?.find((entry) => entry.metric === metric) ?? null
+    return {
+      ...slider,
+      value: estimate ? Math.round(estimate.posterior_mean) : value ?? 0,
+      estimate,
+      adjustment: analytics.baseline_adjusted?.find((entry) => entry.metric === metric) ?? null,
+      quality: getQualityTier(slider.sampleSize, slider.confidence),
+      hidden: value === null || slider.sampleSize === 0 || (!estimate && shouldHideMetric(slider.sampleSize)),
+    }
+  })
 
   const visibleSliders = sliderEntries.filter((slider) => !slider.hidden)
   const hiddenCount = sliderEntries.length - visibleSliders.length
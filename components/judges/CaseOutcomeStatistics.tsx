@@ -25,6 +25,16 @@ import { useJudgeFilterParams } from '@/hooks/useJudgeFilters'
 import { getQualityTier, shouldHideMetric, MIN_SAMPLE_SIZE } from '@/lib/analytics/config'
 import { QualityBadge } from '@/components/judges/QualityBadge'
 
+interface RateEstimate {
+  mean: number
+  credible_lower: number
+  credible_upper: number
+  sample_size: number
+  shrinkage: number
+  prior_mean: number
+  prior_source: 'empirical' | 'default' | 'uninformative'
+}
+
 interface CaseOutcomeStats {
   overall_stats: {
     total_cases: number
@@ -53,6 +63,10 @@ interface CaseOutcomeStats {
     speed_ranking: 'Fast' | 'Average' | 'Slow'
     specialization_areas: string[]
   }
+  rate_estimates?: {
+    settlement_rate: RateEstimate
+    dismissal_rate: RateEstimate
+  }
 }
 
 interface CaseOutcomeStatisticsProps {
@@ -67,6 +81,25 @@ const VIEW_TABS = [
 
 type ViewTabId = (typeof VIEW_TABS)[number]['id']
 
+function EstimateTile({ label, estimate }: { label: string; estimate: RateEstimate }) {
+  const percent = (value: number) => `${Math.round(value * 100)}%`
+  return (
+    <div className="rounded-xl border border-border bg-[hsl(var(--bg-1))] p-4">
+      <p className="text-xs uppercase tracking-[0.15em] text-muted-foreground">{label}</p>
+      <p className="mt-1 text-2xl font-semibold text-foreground">~{percent(estimate.mean)}</p>
+      <p className="mt-1 text-xs text-muted-foreground">
+        95% credible range {percent(estimate.credible_lower)}–{percent(estimate.credible_upper)}
+      </p>
+      {estimate.prior_source !== 'uninformative' && (
+        <p className="mt-1 text-xs text-muted-foreground">
+          Blends {estimate.sample_size} decision{estimate.sample_size === 1 ? '' : 's'} with the court average of{' '}
+          {percent(estimate.prior_mean)}.
+        </p>
+      )}
+    </div>
+  )
+}
+
 export function CaseOutcomeStatistics({ judge }: CaseOutcomeStatisticsProps) {
   const [outcomeStats, setOutcomeStats] = useState<CaseOutcomeStats | null>(null)
   const [loading, setLoading] = useState(true)
@@ -181,6 +214,12 @@ export function CaseOutcomeStatistics({ judge }: CaseOutcomeStatisticsProps) {
           We need at least {MIN_SAMPLE_SIZE} recent decisions with outcome classifications before rendering trend charts.
           Once the sync backlog clears, this view will repopulate automatically.
         </p>
+        {outcomeStats.rate_estimates && (
+          <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <EstimateTile label="Settlement rate (estimated)" estimate={outcomeStats.rate_estimates.settlement_rate} />
+            <EstimateTile label="Dismissal rate (estimated)" estimate={outcomeStats.rate_estimates.dismissal_rate} />
+          </div>
+        )}
       </section>
     )
   }
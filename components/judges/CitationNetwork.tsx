@@ -0,0 +1,103 @@
+'use client'
+
+import useSWR from 'swr'
+import Link from 'next/link'
+import { BookOpen, Quote } from 'lucide-react'
+import { fetcher } from '@/lib/utils/fetcher'
+import type { JudgeCitationReport } from '@/lib/citations/service'
+
+interface CitationNetworkProps {
+  judgeId: string
+}
+
+function CaseLink({ name, url }: { name: string; url: string | null }) {
+  if (!url) return <span className="text-[color:hsl(var(--text-1))]">{name}</span>
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="text-[color:hsl(var(--text-1))] hover:text-[color:hsl(var(--accent))]">
+      {name}
+    </a>
+  )
+}
+
+export function CitationNetwork({ judgeId }: CitationNetworkProps) {
+  const { data, isLoading, error } = useSWR<JudgeCitationReport>(
+    judgeId ? `/api/judges/${judgeId}/citations` : null,
+    fetcher,
+    { revalidateOnFocus: false, dedupingInterval: 5 * 60 * 1000 }
+  )
+
+  if (isLoading) {
+    return <div className="h-48 rounded-2xl border border-border bg-muted animate-pulse" aria-busy />
+  }
+
+  if (error || !data || (data.most_cited.length === 0 && data.cited_by.length === 0)) {
+    return (
+      <div className="rounded-2xl border border-border bg-[hsl(var(--bg-2))] p-6 text-sm text-[color:hsl(var(--text-2))]">
+        No reporter citations have been extracted from this judge&apos;s synced opinions yet.
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-6 rounded-2xl border border-border bg-[hsl(var(--bg-2))] p-6 md:grid-cols-2">
+      <div>
+        <h2 className="mb-3 flex items-center gap-2 text-lg font-semibold text-[color:hsl(var(--text-1))]">
+          <BookOpen className="h-5 w-5 text-[color:hsl(var(--accent))]" aria-hidden />
+          Most-cited authorities
+        </h2>
+        {data.most_cited.length === 0 ? (
+          <p className="text-sm text-[color:hsl(var(--text-3))]">No citations found in this judge&apos;s opinions.</p>
+        ) : (
+          <ol className="space-y-2 text-sm">
+            {data.most_cited.map((authority) => (
+              <li key={authority.citation} className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  {authority.case_name ? (
+                    <CaseLink name={authority.case_name} url={authority.case_url} />
+                  ) : null}
+                  <p className="text-xs text-[color:hsl(var(--text-3))]">{authority.citation}</p>
+                </div>
+                <span className="shrink-0 rounded-full bg-[rgba(110,168,254,0.18)] px-2 py-0.5 text-xs font-medium text-[color:hsl(var(--accent))]">
+                  {authority.citing_opinions} {authority.citing_opinions === 1 ? 'opinion' : 'opinions'}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div>
+        <h2 className="mb-3 flex items-center gap-2 text-lg font-semibold text-[color:hsl(var(--text-1))]">
+          <Quote className="h-5 w-5 text-[color:hsl(var(--accent))]" aria-hidden />
+          Opinions citing this judge&apos;s decisions
+          {data.cited_by_total > 0 && (
+            <span className="text-sm font-normal text-[color:hsl(var(--text-3))]">({data.cited_by_total})</span>
+          )}
+        </h2>
+        {data.cited_by.length === 0 ? (
+          <p className="text-sm text-[color:hsl(var(--text-3))]">No synced opinions cite this judge&apos;s decisions yet.</p>
+        ) : (
+          <ul className="space-y-3 text-sm">
+            {data.cited_by.map((opinion) => (
+              <li key={`${opinion.case_id}-${opinion.cited_case_id}`}>
+                <CaseLink name={opinion.case_name} url={opinion.case_url} />
+                <p className="text-xs text-[color:hsl(var(--text-3))]">
+                  {opinion.decision_date ? `${opinion.decision_date} · ` : ''}
+                  {opinion.judge_name && opinion.judge_url ? (
+                    <Link href={opinion.judge_url} className="hover:text-[color:hsl(var(--accent))]">
+                      {opinion.judge_name}
+                    </Link>
+                  ) : (
+                    'Judge not identified'
+                  )}
+                  {' · cites '}
+                  {opinion.cited_case_name ?? opinion.citation} ({opinion.citation})
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
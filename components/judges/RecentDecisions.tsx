@@ -248,6 +248,12 @@ export function RecentDecisions({ judgeId }: RecentDecisionsProps) {
           >
             How we source filings
           </Link>
+          <Link
+            href={`/search/opinions?judge_id=${judgeId}`}
+            className="inline-flex items-center gap-1 rounded-full border border-transparent px-3 py-1.5 font-medium text-[color:hsl(var(--accent))] transition-colors hover:border-[rgba(110,168,254,0.45)] hover:text-[color:hsl(var(--text-1))]"
+          >
+            Search opinion text
+          </Link>
         </div>
       </motion.div>
 
@@ -0,0 +1,153 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import useSWR from 'swr'
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { TrendingUp } from 'lucide-react'
+import { fetcher } from '@/lib/utils/fetcher'
+import { chartTheme } from '@/lib/charts/theme'
+import { cn } from '@/lib/utils/index'
+import type { TrendReport } from '@/lib/analytics/trends'
+import type { MetricKey } from '@/lib/analytics/classifiers/types'
+
+interface RulingTrendsTimelineProps {
+  judgeId: string
+}
+
+const METRIC_LABELS: Record<MetricKey, string> = {
+  civil: 'Civil plaintiff favor',
+  custody: 'Custody to mother',
+  alimony: 'Spousal support',
+  contracts: 'Contract enforcement',
+  sentencing: 'Custodial sentencing',
+  plea: 'Plea acceptance',
+  bail: 'Pretrial release',
+  reversal: 'Appeal reversal',
+  settlement: 'Settlement',
+  motion: 'Motion grants',
+}
+
+function formatCaseType(caseType: string) {
+  return caseType === 'all' ? 'All case types' : caseType.replace(/\b\w/g, (char) => char.toUpperCase())
+}
+
+export function RulingTrendsTimeline({ judgeId }: RulingTrendsTimelineProps) {
+  const { data, isLoading, error } = useSWR<TrendReport>(
+    judgeId ? `/api/judges/${judgeId}/trends` : null,
+    fetcher,
+    { revalidateOnFocus: false, dedupingInterval: 5 * 60 * 1000 }
+  )
+  const [caseType, setCaseType] = useState('all')
+  const [metric, setMetric] = useState<MetricKey | null>(null)
+
+  const series = data?.series.find((entry) => entry.case_type === caseType) ?? data?.series[0]
+  const activeMetric = metric && series?.metrics.includes(metric) ? metric : series?.metrics[0] ?? null
+
+  const chartData = useMemo(
+    () => (series && activeMetric ? series.points.map((point) => ({ month: point.month, rate: point.rates[activeMetric] ?? null })) : []),
+    [series, activeMetric]
+  )
+  const markers = (data?.change_points ?? []).filter(
+    (point) => point.case_type === series?.case_type && point.metric === activeMetric
+  )
+
+  if (isLoading) {
+    return <div className="h-72 rounded-2xl border border-border bg-muted animate-pulse" aria-busy />
+  }
+
+  if (error || !series || !activeMetric) {
+    return (
+      <div className="rounded-2xl border border-border bg-[hsl(var(--bg-2))] p-6 text-sm text-[color:hsl(var(--text-2))]">
+        Not enough dated decisions to chart ruling trends yet.
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-2xl border border-border bg-[hsl(var(--bg-2))] p-6">
+      <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-[color:hsl(var(--text-1))]">
+          <TrendingUp className="h-5 w-5 text-[color:hsl(var(--accent))]" aria-hidden />
+          Ruling trends
+        </h2>
+        <div className="flex flex-wrap gap-2 text-xs">
+          <select
+            className="rounded-full border border-border bg-[hsl(var(--bg-1))] px-3 py-1 text-[color:hsl(var(--text-1))]"
+            value={series.case_type}
+            onChange={(event) => setCaseType(event.target.value)}
+            aria-label="Case type"
+          >
+            {data?.series.map((entry) => (
+              <option key={entry.case_type} value={entry.case_type}>
+                {formatCaseType(entry.case_type)} ({entry.total_cases})
+              </option>
+            ))}
+          </select>
+          <select
+            className="rounded-full border border-border bg-[hsl(var(--bg-1))] px-3 py-1 text-[color:hsl(var(--text-1))]"
+            value={activeMetric}
+            onChange={(event) => setMetric(event.target.value as MetricKey)}
+            aria-label="Metric"
+          >
+            {series.metrics.map((key) => (
+              <option key={key} value={key}>
+                {METRIC_LABELS[key]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid vertical={false} stroke={chartTheme.gridStroke} />
+            <XAxis dataKey="month" stroke={chartTheme.axisLine} tick={{ fill: chartTheme.axisLabel, fontSize: 12 }} tickLine={false} />
+            <YAxis domain={[0, 100]} unit="%" stroke={chartTheme.axisLine} tick={{ fill: chartTheme.axisLabel, fontSize: 12 }} tickLine={false} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: chartTheme.tooltip.backgroundColor,
+                border: `1px solid ${chartTheme.tooltip.borderColor}`,
+                borderRadius: '0.75rem',
+                color: chartTheme.tooltip.textColor,
+              }}
+              formatter={(value: number) => [`${value}%`, `${data?.window_months}-month rolling rate`]}
+            />
+            <Line type="monotone" dataKey="rate" stroke={chartTheme.getSeriesColor(0)} strokeWidth={2} dot={false} connectNulls={false} />
+            {markers.map((point) => (
+              <ReferenceLine
+                key={`${point.kind}-${point.month}`}
+                x={point.month}
+                stroke={point.kind === 'event' ? chartTheme.getSeriesColor(5) : chartTheme.referenceLine}
+                strokeDasharray="4 4"
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {markers.length > 0 ? (
+        <ul className="mt-4 space-y-2 text-xs text-[color:hsl(var(--text-2))]">
+          {markers.map((point) => (
+            <li key={`${point.kind}-${point.month}`} className="flex flex-wrap items-center gap-2">
+              <span
+                className={cn(
+                  'rounded-full px-2 py-0.5 font-medium',
+                  point.kind === 'event'
+                    ? 'bg-[rgba(251,211,141,0.18)] text-[color:hsl(var(--warn))]'
+                    : 'bg-[rgba(110,168,254,0.18)] text-[color:hsl(var(--accent))]'
+                )}
+              >
+                {point.month}
+              </span>
+              {point.event_label ? `After ${point.event_label}: ` : 'Shift detected: '}
+              {point.before_rate}% → {point.after_rate}% ({point.before_cases} vs {point.after_cases} cases, p={point.p_value})
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-xs text-[color:hsl(var(--text-3))]">No statistically meaningful shifts detected for this metric.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ATTRIBUTION_METHODS, type AttributionMethod } from '@/lib/sync/case-attribution'
+
+export interface FlaggedCaseView {
+  id: string
+  caseName: string | null
+  caseNumber: string | null
+  jurisdiction: string | null
+  filingDate: string | null
+  courtlistenerId: string | null
+  method: AttributionMethod
+  confidence: number | null
+  attributedAt: string | null
+  judge: { id: string; name: string; slug: string | null } | null
+}
+
+export interface CaseAttributionReport {
+  counts: Record<AttributionMethod, number>
+  /** Linked cases the audit has not reached yet. */
+  unaudited: number
+  method: AttributionMethod
+  cases: FlaggedCaseView[]
+}
+
+/** Cases with the given method; `null` counts linked cases not yet audited. */
+async function countCases(supabase: SupabaseClient, method: AttributionMethod | null): Promise<number> {
+  const query = supabase.from('cases').select('id', { count: 'exact', head: true })
+  const { count, error } = method
+    ? await query.eq('judge_attribution_method', method)
+    : await query.not('judge_id', 'is', null).is('judge_attribution_method', null)
+  if (error) {
+    throw new Error(`Failed to count case attributions: ${error.message}`)
+  }
+  return count ?? 0
+}
+
+/**
+ * Case links by attribution method, with the cases for one method listed for
+ * review. Defaults to links the redistribution scripts left behind.
+ */
+export async function getCaseAttributionReport(
+  supabase: SupabaseClient,
+  { method = 'redistribution', limit = 25, offset = 0 }: { method?: AttributionMethod; limit?: number; offset?: number } = {}
+): Promise<CaseAttributionReport> {
+  const [methodCounts, unaudited] = await Promise.all([
+    Promise.all(ATTRIBUTION_METHODS.map((value) => countCases(supabase, value))),
+    countCases(supabase, null)
+  ])
+  const counts = Object.fromEntries(ATTRIBUTION_METHODS.map((value, index) => [value, methodCounts[index]])) as Record<AttributionMethod, number>
+
+  const { data, error } = await supabase
+    .from('cases')
+    .select('id, case_name, case_number, jurisdiction, filing_date, courtlistener_id, judge_id, judge_attribution_method, judge_attribution_confidence, judge_attributed_at')
+    .eq('judge_attribution_method', method)
+    .order('id', { ascending: true })
+    .range(offset, offset + limit - 1)
+
+  if (error) {
+    throw new Error(`Failed to load flagged cases: ${error.message}`)
+  }
+
+  const judgeIds = [...new Set((data ?? []).map((row) => row.judge_id).filter(Boolean))]
+  const judges = judgeIds.length > 0
+    ? await supabase.from('judges').select('id, name, slug').in('id', judgeIds)
+    : { data: [], error: null }
+  if (judges.error) {
+    throw new Error(`Failed to load judges for flagged cases: ${judges.error.message}`)
+  }
+  const byId = new Map((judges.data ?? []).map((row) => [row.id, { id: row.id, name: row.name, slug: row.slug ?? null }]))
+
+  return {
+    counts,
+    unaudited,
+    method,
+    cases: (data ?? []).map((row) => ({
+      id: row.id,
+      caseName: row.case_name ?? null,
+      caseNumber: row.case_number ?? null,
+      jurisdiction: row.jurisdiction ?? null,
+      filingDate: row.filing_date ?? null,
+      courtlistenerId: row.courtlistener_id ?? null,
+      method: row.judge_attribution_method,
+      confidence: row.judge_attribution_confidence === null ? null : Number(row.judge_attribution_confidence),
+      attributedAt: row.judge_attributed_at ?? null,
+      judge: byId.get(row.judge_id) ?? null
+    }))
+  }
+}
+
+export function isAttributionMethod(value: unknown): value is AttributionMethod {
+  return typeof value === 'string' && (ATTRIBUTION_METHODS as readonly string[]).includes(value)
+}
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { JudgeMatchSignals } from '@/lib/judges/entity-resolution'
+
+export interface DuplicateJudgeSummary {
+  id: string
+  name: string
+  slug: string | null
+  courtName: string | null
+  jurisdiction: string | null
+  appointedDate: string | null
+  courtlistenerId: string | null
+  totalCases: number
+}
+
+export interface JudgeDuplicateView {
+  id: string
+  score: number
+  signals: JudgeMatchSignals
+  detectedAt: string
+  judge: DuplicateJudgeSummary
+  candidate: DuplicateJudgeSummary
+}
+
+/** Thrown when a candidate pair is missing or was already reviewed. */
+export class JudgeDuplicateConflictError extends Error {
+  constructor(candidateId: string) {
+    super(`Judge duplicate candidate ${candidateId} is not awaiting review`)
+    this.name = 'JudgeDuplicateConflictError'
+  }
+}
+
+const JUDGE_COLUMNS = 'id, name, slug, court_name, jurisdiction, appointed_date, courtlistener_id, total_cases'
+
+function toSummary(row: Record<string, any>): DuplicateJudgeSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug ?? null,
+    courtName: row.court_name ?? null,
+    jurisdiction: row.jurisdiction ?? null,
+    appointedDate: row.appointed_date ?? null,
+    courtlistenerId: row.courtlistener_id ?? null,
+    totalCases: row.total_cases ?? 0
+  }
+}
+
+/** Pending candidate pairs, most likely duplicates first. */
+export async function listJudgeDuplicateCandidates(
+  supabase: SupabaseClient,
+  { limit = 10 }: { limit?: number } = {}
+): Promise<JudgeDuplicateView[]> {
+  const { data, error } = await supabase
+    .from('judge_duplicate_candidates')
+    .select('id, judge_id, candidate_id, score, signals, detected_at')
+    .eq('status', 'pending')
+    .order('score', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load judge duplicate candidates: ${error.message}`)
+  }
+  if (!data || data.length === 0) return []
+
+  const ids = [...new Set(data.flatMap((row) => [row.judge_id, row.candidate_id]))]
+  const judges = await supabase.from('judges').select(JUDGE_COLUMNS).in('id', ids)
+  if (judges.error) {
+    throw new Error(`Failed to load judges for duplicate review: ${judges.error.message}`)
+  }
+  const byId = new Map((judges.data ?? []).map((row) => [row.id, toSummary(row)]))
+
+  return data.flatMap((row) => {
+    const judge = byId.get(row.judge_id)
+    const candidate = byId.get(row.candidate_id)
+    if (!judge || !candidate) return []
+    return [{
+      id: row.id,
+      score: Number(row.score),
+      signals: row.signals ?? { name: 0, court: null, appointment: null },
+      detectedAt: row.detected_at,
+      judge,
+      candidate
+    }]
+  })
+}
+
+/** Mark a pair as not a duplicate; later detection runs leave it alone. */
+export async function dismissJudgeDuplicate(
+  supabase: SupabaseClient,
+  candidateId: string,
+  reviewedBy: string | null = null
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('judge_duplicate_candidates')
+    .update({ status: 'dismissed', reviewed_by: reviewedBy, reviewed_at: new Date().toISOString() })
+    .eq('id', candidateId)
+    .eq('status', 'pending')
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to dismiss judge duplicate candidate: ${error.message}`)
+  }
+  if (!data) {
+    throw new JudgeDuplicateConflictError(candidateId)
+  }
+}
@@ -0,0 +1,272 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SyncQueueManager } from '@/lib/sync/queue-manager'
+import {
+  toApplyOptions,
+  type SyncPreviewItem,
+  type SyncPreviewStatus,
+  type SyncPreviewSummary,
+  type SyncPreviewType
+} from '@/lib/sync/preview'
+
+export interface SyncPreviewView {
+  id: string
+  syncType: SyncPreviewType
+  status: SyncPreviewStatus
+  options: Record<string, unknown>
+  summary: SyncPreviewSummary
+  truncated: boolean
+  itemsTruncated: boolean
+  createdAt: string
+  reviewedBy: string | null
+  reviewedAt: string | null
+  appliedJobId: string | null
+  /** Why a preview awaiting review can no longer be approved; null when it can. */
+  staleReason: SyncPreviewStaleReason | null
+  /** Creates and updates first; skips fill whatever room is left. */
+  items: SyncPreviewItem[]
+}
+
+/**
+ * Approving re-runs the sync against live data, so a preview is only an
+ * honest picture of that run while it is recent and nothing it covers has
+ * been written since. Older previews need a fresh dry run.
+ */
+export const SYNC_PREVIEW_MAX_AGE_MS = 6 * 60 * 60 * 1000
+
+/** expired: older than SYNC_PREVIEW_MAX_AGE_MS; drifted: records it covers changed after the dry run. */
+export type SyncPreviewStaleReason = 'expired' | 'drifted'
+
+/** Thrown when a preview is missing or was already approved or rejected. */
+export class SyncPreviewConflictError extends Error {
+  constructor(previewId: string) {
+    super(`Sync preview ${previewId} is not awaiting review`)
+    this.name = 'SyncPreviewConflictError'
+  }
+}
+
+/** Thrown when a preview no longer describes what approving it would write. */
+export class SyncPreviewStaleError extends Error {
+  constructor(previewId: string, readonly reason: SyncPreviewStaleReason) {
+    super(
+      reason === 'expired'
+        ? `Sync preview ${previewId} is too old to approve; run a new dry run`
+        : `Records covered by sync preview ${previewId} changed after the dry run; run a new dry run`
+    )
+    this.name = 'SyncPreviewStaleError'
+  }
+}
+
+interface PreviewFreshnessRow {
+  id: string
+  created_at: string
+}
+
+interface PreviewEntityRow {
+  position: number
+  entity_type: string
+  entity_id: string
+}
+
+const ITEM_COLUMNS = 'entity_type, action, entity_id, external_id, label, changes, reason'
+const APPROVED_JOB_PRIORITY = 80
+// Entity ids per drift query, small enough to keep the `in` filter well inside URL limits
+const DRIFT_CHECK_PAGE_SIZE = 200
+
+export async function listSyncPreviews(
+  supabase: SupabaseClient,
+  {
+    limit = 10,
+    itemsPerPreview = 100,
+    now = () => new Date()
+  }: { limit?: number; itemsPerPreview?: number; now?: () => Date } = {}
+): Promise<SyncPreviewView[]> {
+  const { data, error } = await supabase
+    .from('sync_previews')
+    .select('id, sync_type, status, options, summary, truncated, items_truncated, created_at, reviewed_by, reviewed_at, applied_job_id')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load sync previews: ${error.message}`)
+  }
+
+  return Promise.all((data ?? []).map(async (row) => {
+    const changed = await supabase
+      .from('sync_preview_items')
+      .select(ITEM_COLUMNS)
+      .eq('preview_id', row.id)
+      .neq('action', 'skip')
+      .order('position', { ascending: true })
+      .limit(itemsPerPreview)
+    const changedItems = (changed.data ?? []) as SyncPreviewItem[]
+
+    let skippedItems: SyncPreviewItem[] = []
+    if (changedItems.length < itemsPerPreview) {
+      const skipped = await supabase
+        .from('sync_preview_items')
+        .select(ITEM_COLUMNS)
+        .eq('preview_id', row.id)
+        .eq('action', 'skip')
+        .order('position', { ascending: true })
+        .limit(itemsPerPreview - changedItems.length)
+      skippedItems = (skipped.data ?? []) as SyncPreviewItem[]
+    }
+
+    return {
+      id: row.id,
+      syncType: row.sync_type,
+      status: row.status,
+      options: row.options ?? {},
+      summary: row.summary ?? {},
+      truncated: Boolean(row.truncated),
+      itemsTruncated: Boolean(row.items_truncated),
+      createdAt: row.created_at,
+      reviewedBy: row.reviewed_by ?? null,
+      reviewedAt: row.reviewed_at ?? null,
+      appliedJobId: row.applied_job_id ?? null,
+      staleReason: row.status === 'pending_review' ? await previewStaleReason(supabase, row, now()) : null,
+      items: [...changedItems, ...skippedItems]
+    }
+  }))
+}
+
+/** Whether the change log has a write to any of these records after `since`. */
+async function hasChangesSince(supabase: SupabaseClient, items: PreviewEntityRow[], since: string): Promise<boolean> {
+  const idsByType = new Map<string, string[]>()
+  for (const item of items) {
+    idsByType.set(item.entity_type, [...(idsByType.get(item.entity_type) ?? []), item.entity_id])
+  }
+
+  for (const [entityType, entityIds] of idsByType) {
+    const { count, error } = await supabase
+      .from('entity_changes')
+      .select('id', { count: 'exact', head: true })
+      .eq('entity_type', entityType)
+      .in('entity_id', entityIds)
+      .gt('recorded_at', since)
+    if (error) {
+      throw new Error(`Failed to check sync preview for drift: ${error.message}`)
+    }
+    if (count) return true
+  }
+  return false
+}
+
+/**
+ * Whether a preview is too old or has drifted: some sync, webhook or admin
+ * edit recorded a change to one of the existing records it lists (its
+ * updates and skips) after the dry run. Creates have no record to check.
+ */
+async function previewStaleReason(
+  supabase: SupabaseClient,
+  preview: PreviewFreshnessRow,
+  now: Date
+): Promise<SyncPreviewStaleReason | null> {
+  if (now.getTime() - new Date(preview.created_at).getTime() > SYNC_PREVIEW_MAX_AGE_MS) return 'expired'
+
+  let afterPosition = -1
+  for (;;) {
+    const { data, error } = await supabase
+      .from('sync_preview_items')
+      .select('position, entity_type, entity_id')
+      .eq('preview_id', preview.id)
+      .not('entity_id', 'is', null)
+      .gt('position', afterPosition)
+      .order('position', { ascending: true })
+      .limit(DRIFT_CHECK_PAGE_SIZE)
+    if (error) {
+      throw new Error(`Failed to load sync preview items: ${error.message}`)
+    }
+
+    const items = (data ?? []) as PreviewEntityRow[]
+    if (await hasChangesSince(supabase, items, preview.created_at)) return 'drifted'
+    if (items.length < DRIFT_CHECK_PAGE_SIZE) return null
+    afterPosition = items[items.length - 1].position
+  }
+}
+
+async function loadPendingPreview(supabase: SupabaseClient, previewId: string): Promise<PreviewFreshnessRow> {
+  const { data, error } = await supabase
+    .from('sync_previews')
+    .select('id, status, created_at')
+    .eq('id', previewId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load sync preview: ${error.message}`)
+  }
+  if (!data || data.status !== 'pending_review') {
+    throw new SyncPreviewConflictError(previewId)
+  }
+  return data as PreviewFreshnessRow
+}
+
+/**
+ * Claim a pending preview for review. The status check in the update means
+ * two admins approving at once cannot both queue a job.
+ */
+async function claimPreview(
+  supabase: SupabaseClient,
+  previewId: string,
+  status: 'approved' | 'rejected',
+  reviewedBy: string | null
+) {
+  const { data, error } = await supabase
+    .from('sync_previews')
+    .update({ status, reviewed_by: reviewedBy, reviewed_at: new Date().toISOString() })
+    .eq('id', previewId)
+    .eq('status', 'pending_review')
+    .select('id, sync_type, options')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update sync preview: ${error.message}`)
+  }
+  if (!data) {
+    throw new SyncPreviewConflictError(previewId)
+  }
+  return data as { id: string; sync_type: SyncPreviewType; options: Record<string, unknown> | null }
+}
+
+/**
+ * Approve a preview by queueing its sync as a real job. The job fetches from
+ * CourtListener again rather than replaying the stored diff (which holds only
+ * tracked fields and a capped number of rows), so approval is refused
+ * once the preview is stale and the diff could differ from what gets written.
+ */
+export async function approveSyncPreview(
+  supabase: SupabaseClient,
+  queueManager: SyncQueueManager,
+  previewId: string,
+  reviewedBy: string | null = null,
+  now: () => Date = () => new Date()
+): Promise<{ jobId: string }> {
+  const stale = await previewStaleReason(supabase, await loadPendingPreview(supabase, previewId), now())
+  if (stale) {
+    throw new SyncPreviewStaleError(previewId, stale)
+  }
+  const preview = await claimPreview(supabase, previewId, 'approved', reviewedBy)
+
+  let jobId: string
+  try {
+    jobId = await queueManager.addJob(preview.sync_type, toApplyOptions(preview.options ?? {}), APPROVED_JOB_PRIORITY)
+  } catch (error) {
+    // Leave the preview reviewable if the job could not be queued
+    await supabase
+      .from('sync_previews')
+      .update({ status: 'pending_review', reviewed_by: null, reviewed_at: null })
+      .eq('id', previewId)
+    throw error
+  }
+
+  await supabase.from('sync_previews').update({ applied_job_id: jobId }).eq('id', previewId)
+  return { jobId }
+}
+
+export async function rejectSyncPreview(
+  supabase: SupabaseClient,
+  previewId: string,
+  reviewedBy: string | null = null
+): Promise<void> {
+  await claimPreview(supabase, previewId, 'rejected', reviewedBy)
+}
@@ -1,6 +1,7 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js'
 import { SyncQueueManager, type QueueStats } from '@/lib/sync/queue-manager'
 import { logger } from '@/lib/utils/logger'
+import { listFiringAlerts, type ActiveAlertEntry } from '@/lib/alerts/sync-alerts'
 
 export interface SyncStatusSnapshot {
   health: HealthSection
@@ -8,6 +9,8 @@ export interface SyncStatusSnapshot {
   performance: PerformanceSection
   freshness: FreshnessSection
   recentLogs: RecentLogEntry[]
+  checkpoints: CheckpointEntry[]
+  alerts: ActiveAlertEntry[]
   syncBreakdown: unknown[]
   timestamp: string
 }
@@ -62,6 +65,18 @@ export interface RecentLogEntry {
   errorMessage?: string | null
 }
 
+/** A queued judge or decision sync that has saved partial progress. */
+export interface CheckpointEntry {
+  jobId: string
+  type: string
+  status: string
+  processed: number
+  total: number | null
+  runs: number
+  retryCount: number
+  savedAt: string | null
+}
+
 interface ApiContext {
   supabase: SupabaseClient
   queueManager: SyncQueueManager
@@ -96,6 +111,8 @@ export class SyncStatusService {
     ])
 
     const recentLogs = await this.fetchRecentLogs()
+    const checkpoints = await this.fetchCheckpoints()
+    const alerts = await this.fetchAlerts()
     const performance = await this.buildPerformanceSection(timestamp)
     const freshness = await this.buildFreshnessSection(timestamp)
 
@@ -114,6 +131,8 @@ export class SyncStatusService {
       performance,
       freshness,
       recentLogs,
+      checkpoints,
+      alerts,
       syncBreakdown: dashboardData,
     }
   }
@@ -167,6 +186,41 @@ export class SyncStatusService {
     }))
   }
 
+  private async fetchCheckpoints(): Promise<CheckpointEntry[]> {
+    const { data, error } = await this.context.supabase
+      .from('sync_queue')
+      .select('id, type, status, retry_count, checkpoint, checkpoint_at')
+      .in('status', ['pending', 'running'])
+      .not('checkpoint', 'is', null)
+      .order('checkpoint_at', { ascending: false })
+      .limit(10)
+
+    if (error) {
+      logger.error('SyncStatusService failed to fetch sync checkpoints', { error })
+      return []
+    }
+
+    return (data ?? []).map((job) => ({
+      jobId: job.id,
+      type: job.type,
+      status: job.status,
+      processed: job.checkpoint?.progress?.processed ?? 0,
+      total: job.checkpoint?.progress?.total ?? null,
+      runs: job.checkpoint?.runs ?? 1,
+      retryCount: job.retry_count ?? 0,
+      savedAt: job.checkpoint_at,
+    }))
+  }
+
+  private async fetchAlerts(): Promise<ActiveAlertEntry[]> {
+    try {
+      return await listFiringAlerts(this.context.supabase)
+    } catch (error) {
+      logger.error('SyncStatusService failed to fetch sync alerts', { error })
+      return []
+    }
+  }
+
   private async buildPerformanceSection(referenceTime: Date): Promise<PerformanceSection> {
     const oneDayAgo = new Date(referenceTime.getTime() - 24 * 60 * 60 * 1000)
     const oneWeekAgo = new Date(referenceTime.getTime() - 7 * 24 * 60 * 60 * 1000)
@@ -282,7 +336,7 @@ function determineOverallHealth(healthMetrics: unknown[], queueStats: QueueStats
   const pendingJobs = queueStats.pending || 0
   if (successRate < 75 || pendingJobs > 100) return 'critical'
   if (successRate < 90 || pendingJobs > 50) return 'warning'
-  if (successRate < 95 || pendingJobs > 20) return 'caution'
+  if (successRate < 95 || pendingJobs > 20 || (queueStats.dead_letter || 0) > 0) return 'caution'
   return 'healthy'
 }
 
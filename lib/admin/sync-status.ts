@@ -56,6 +56,24 @@ export interface SyncStatusResponse {
     duration_ms: number | null
     error_message?: string | null
   }>
+  checkpoints?: Array<{
+    jobId: string
+    type: string
+    status: string
+    processed: number
+    total: number | null
+    runs: number
+    retryCount: number
+    savedAt: string | null
+  }>
+  alerts?: Array<{
+    id: string
+    kind: string
+    severity: 'warning' | 'critical'
+    summary: string
+    firedAt: string
+    notified: boolean
+  }>
   sync_breakdown: Array<Record<string, unknown>>
 }
 
@@ -0,0 +1,47 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isRetryable, WEBHOOK_SOURCE, type WebhookEventStatus } from '@/lib/sync/webhook-events'
+
+export interface WebhookEventView {
+  id: string
+  webhookId: string | null
+  eventType: string
+  eventId: string | null
+  status: WebhookEventStatus
+  attempts: number
+  errorMessage: string | null
+  createdAt: string
+  lastAttemptAt: string | null
+  /** Failed, or cut off mid-attempt; either can be reprocessed. */
+  retryable: boolean
+}
+
+/** Events that need attention: failed ones and attempts still marked as running. */
+export async function listUnresolvedWebhookEvents(
+  supabase: SupabaseClient,
+  { limit = 10 }: { limit?: number } = {}
+): Promise<WebhookEventView[]> {
+  const { data, error } = await supabase
+    .from('webhook_events')
+    .select('id, webhook_id, event_type, event_id, status, attempts, error_message, created_at, last_attempt_at')
+    .eq('source', WEBHOOK_SOURCE)
+    .in('status', ['failed', 'received'])
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load webhook events: ${error.message}`)
+  }
+
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    webhookId: row.webhook_id ?? null,
+    eventType: row.event_type,
+    eventId: row.event_id ?? null,
+    status: row.status,
+    attempts: row.attempts ?? 0,
+    errorMessage: row.error_message ?? null,
+    createdAt: row.created_at,
+    lastAttemptAt: row.last_attempt_at ?? null,
+    retryable: isRetryable(row)
+  }))
+}
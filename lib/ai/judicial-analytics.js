@@ -170,30 +170,48 @@ async function generateJudicialAnalytics(judge, caseDocuments) {
     return generateFallbackAnalytics(judge, 'ai_error', error.message)
   }
 }/**
+ * Clamp a reported percentage, or null when the model did not report it. A
+ * missing metric must stay missing rather than read as a neutral 50.
+ */
+function boundedMetric(value, min, max) {
+  const number = typeof value === 'number' ? value : Number.parseFloat(value)
+  if (!Number.isFinite(number)) return null
+  return Math.min(max, Math.max(min, number))
+}
+
+function complementMetric(value) {
+  return value === null ? null : 100 - value
+}
+
+/**
  * Validate and normalize analytics data
  */
 function validateAndNormalizeAnalytics(data, documentCount) {
+  const civilPlaintiffFavor = boundedMetric(data.civil_plaintiff_favor, 5, 95)
+  const familyCustodyMother = boundedMetric(data.family_custody_mother, 5, 95)
+  const contractEnforcementRate = boundedMetric(data.contract_enforcement_rate, 5, 95)
+
   const normalized = {
-    civil_plaintiff_favor: Math.min(95, Math.max(5, data.civil_plaintiff_favor || 50)),
-    civil_defendant_favor: 100 - (data.civil_plaintiff_favor || 50),
-    family_custody_mother: Math.min(95, Math.max(5, data.family_custody_mother || 50)),
-    family_custody_father: 100 - (data.family_custody_mother || 50),
-    family_alimony_favorable: Math.min(95, Math.max(5, data.family_alimony_favorable || 40)),
-    contract_enforcement_rate: Math.min(95, Math.max(5, data.contract_enforcement_rate || 65)),
-    contract_dismissal_rate: 100 - (data.contract_enforcement_rate || 65),
-    criminal_sentencing_severity: Math.min(95, Math.max(5, data.criminal_sentencing_severity || 50)),
-    criminal_plea_acceptance: Math.min(95, Math.max(5, data.criminal_plea_acceptance || 70)),
+    civil_plaintiff_favor: civilPlaintiffFavor,
+    civil_defendant_favor: complementMetric(civilPlaintiffFavor),
+    family_custody_mother: familyCustodyMother,
+    family_custody_father: complementMetric(familyCustodyMother),
+    family_alimony_favorable: boundedMetric(data.family_alimony_favorable, 5, 95),
+    contract_enforcement_rate: contractEnforcementRate,
+    contract_dismissal_rate: complementMetric(contractEnforcementRate),
+    criminal_sentencing_severity: boundedMetric(data.criminal_sentencing_severity, 5, 95),
+    criminal_plea_acceptance: boundedMetric(data.criminal_plea_acceptance, 5, 95),
     
     // Confidence scores (minimum 60%, maximum 95%)
-    confidence_civil: Math.min(95, Math.max(60, data.confidence_civil || 70)),
-    confidence_custody: Math.min(95, Math.max(60, data.confidence_custody || 70)),
-    confidence_alimony: Math.min(95, Math.max(60, data.confidence_alimony || 70)),
-    confidence_contracts: Math.min(95, Math.max(60, data.confidence_contracts || 70)),
-    confidence_sentencing: Math.min(95, Math.max(60, data.confidence_sentencing || 70)),
-    confidence_plea: Math.min(95, Math.max(60, data.confidence_plea || 70)),
+    confidence_civil: boundedMetric(data.confidence_civil, 60, 95),
+    confidence_custody: boundedMetric(data.confidence_custody, 60, 95),
+    confidence_alimony: boundedMetric(data.confidence_alimony, 60, 95),
+    confidence_contracts: boundedMetric(data.confidence_contracts, 60, 95),
+    confidence_sentencing: boundedMetric(data.confidence_sentencing, 60, 95),
+    confidence_plea: boundedMetric(data.confidence_plea, 60, 95),
     
     // Overall metrics
-    overall_confidence: Math.min(95, Math.max(60, data.overall_confidence || 70)),
+    overall_confidence: boundedMetric(data.overall_confidence, 60, 95),
     total_cases_analyzed: documentCount,
     
     // Sample sizes
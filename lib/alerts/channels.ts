@@ -0,0 +1,157 @@
+import { createHmac } from 'node:crypto'
+import { sendMail, type SmtpConfig } from '@/lib/alerts/smtp'
+
+export type AlertSeverity = 'warning' | 'critical'
+
+/** One alert transition to tell people about. */
+export interface AlertNotification {
+  event: 'firing' | 'resolved'
+  alertKey: string
+  kind: string
+  severity: AlertSeverity
+  summary: string
+  details: Record<string, unknown>
+  firedAt: string
+  resolvedAt: string | null
+}
+
+/**
+ * A destination for alert notifications. Channels receive every transition
+ * from one evaluation run at once, so each run sends at most one message per
+ * channel.
+ */
+export interface AlertChannel {
+  readonly name: string
+  send(notifications: AlertNotification[]): Promise<void>
+}
+
+type FetchLike = typeof fetch
+
+const DELIVERY_TIMEOUT_MS = 10000
+
+async function postJson(fetchImpl: FetchLike, url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetchImpl(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+  })
+  if (!response.ok) {
+    throw new Error(`Alert delivery to ${new URL(url).host} failed with status ${response.status}`)
+  }
+}
+
+function headline(notification: AlertNotification): string {
+  return notification.event === 'resolved'
+    ? `Resolved: ${notification.summary}`
+    : `[${notification.severity.toUpperCase()}] ${notification.summary}`
+}
+
+function countLabel(notifications: AlertNotification[]): string {
+  const firing = notifications.filter((notification) => notification.event === 'firing').length
+  const resolved = notifications.length - firing
+  return [firing > 0 ? `${firing} firing` : null, resolved > 0 ? `${resolved} resolved` : null].filter(Boolean).join(', ')
+}
+
+/**
+ * Generic JSON webhook. With a secret, the body is signed as
+ * `X-Alert-Signature: sha256=<hex HMAC of timestamp.body>` alongside
+ * `X-Alert-Timestamp`.
+ */
+export function createWebhookChannel(options: { url: string; secret?: string; fetchImpl?: FetchLike }): AlertChannel {
+  const fetchImpl = options.fetchImpl ?? fetch
+  return {
+    name: 'webhook',
+    async send(notifications) {
+      const timestamp = Math.floor(Date.now() / 1000).toString()
+      const body = JSON.stringify({ source: 'judgefinder-sync', sentAt: new Date().toISOString(), notifications })
+      const headers: Record<string, string> = { 'x-alert-timestamp': timestamp }
+      if (options.secret) {
+        headers['x-alert-signature'] = `sha256=${createHmac('sha256', options.secret).update(`${timestamp}.${body}`).digest('hex')}`
+      }
+      await postJson(fetchImpl, options.url, body, headers)
+    }
+  }
+}
+
+/** Slack-compatible incoming webhook (also accepted by Mattermost and Discord's /slack endpoint). */
+export function createSlackChannel(options: { webhookUrl: string; fetchImpl?: FetchLike }): AlertChannel {
+  const fetchImpl = options.fetchImpl ?? fetch
+  return {
+    name: 'slack',
+    async send(notifications) {
+      const lines = notifications.map((notification) => {
+        const icon = notification.event === 'resolved' ? ':white_check_mark:' : notification.severity === 'critical' ? ':red_circle:' : ':warning:'
+        return `${icon} ${headline(notification)}`
+      })
+      await postJson(fetchImpl, options.webhookUrl, JSON.stringify({ text: `Sync alerts (${countLabel(notifications)})\n${lines.join('\n')}` }))
+    }
+  }
+}
+
+export function createEmailChannel(options: {
+  smtp: SmtpConfig
+  from: string
+  to: string[]
+  send?: typeof sendMail
+}): AlertChannel {
+  const deliver = options.send ?? sendMail
+  return {
+    name: 'email',
+    async send(notifications) {
+      const text = notifications
+        .map((notification) => {
+          const since = notification.event === 'resolved'
+            ? `Resolved at ${notification.resolvedAt}, firing since ${notification.firedAt}`
+            : `Firing since ${notification.firedAt}`
+          return `${headline(notification)}\n${since}\nKey: ${notification.alertKey}`
+        })
+        .join('\n\n')
+      await deliver(options.smtp, {
+        from: options.from,
+        to: options.to,
+        subject: `JudgeFinder sync alerts: ${countLabel(notifications)}`,
+        text
+      })
+    }
+  }
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((entry) => entry.trim()).filter(Boolean)
+}
+
+/**
+ * Channels configured through the environment:
+ * - `ALERT_WEBHOOK_URL` (and optional `ALERT_WEBHOOK_SECRET`)
+ * - `ALERT_SLACK_WEBHOOK_URL`
+ * - `ALERT_EMAIL_TO`, `ALERT_EMAIL_FROM` and `SMTP_HOST`, with optional
+ *   `SMTP_PORT` (587), `SMTP_SECURE`, `SMTP_USER` and `SMTP_PASSWORD`
+ */
+export function createAlertChannelsFromEnv(
+  env: Record<string, string | undefined> = process.env,
+  { fetchImpl }: { fetchImpl?: FetchLike } = {}
+): AlertChannel[] {
+  const channels: AlertChannel[] = []
+  if (env.ALERT_WEBHOOK_URL) {
+    channels.push(createWebhookChannel({ url: env.ALERT_WEBHOOK_URL, secret: env.ALERT_WEBHOOK_SECRET, fetchImpl }))
+  }
+  if (env.ALERT_SLACK_WEBHOOK_URL) {
+    channels.push(createSlackChannel({ webhookUrl: env.ALERT_SLACK_WEBHOOK_URL, fetchImpl }))
+  }
+  const recipients = splitList(env.ALERT_EMAIL_TO)
+  if (recipients.length > 0 && env.SMTP_HOST && env.ALERT_EMAIL_FROM) {
+    channels.push(createEmailChannel({
+      smtp: {
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        username: env.SMTP_USER,
+        password: env.SMTP_PASSWORD
+      },
+      from: env.ALERT_EMAIL_FROM,
+      to: recipients
+    }))
+  }
+  return channels
+}
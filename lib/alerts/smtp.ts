@@ -0,0 +1,227 @@
+import net from 'node:net'
+import tls from 'node:tls'
+import { randomUUID } from 'node:crypto'
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  /** Implicit TLS from the first byte (usually port 465). */
+  secure?: boolean
+  /**
+   * Upgrade a plain connection when the server offers STARTTLS. Defaults to
+   * true. Credentials are only sent once the connection is encrypted.
+   */
+  startTls?: boolean
+  username?: string
+  password?: string
+  /** Name sent with EHLO. */
+  clientName?: string
+  timeoutMs?: number
+}
+
+export interface MailMessage {
+  from: string
+  to: string[]
+  subject: string
+  text: string
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * Reads SMTP replies off a socket. A reply is complete at the line whose
+ * fourth character is a space ("250 OK" after any "250-..." lines).
+ */
+class SmtpConnection {
+  private buffer = ''
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = []
+  private failure: Error | null = null
+  private readonly onData = (chunk: Buffer | string): void => this.receive(chunk.toString())
+  private readonly onError = (error: Error): void => this.fail(error)
+  private readonly onClose = (): void => this.fail(new SmtpError('SMTP connection closed'))
+  private readonly onTimeout = (): void => this.fail(new SmtpError('SMTP connection timed out'))
+
+  constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket
+    socket.setTimeout(this.timeoutMs)
+    socket.on('timeout', this.onTimeout)
+    socket.on('data', this.onData)
+    socket.on('error', this.onError)
+    socket.on('close', this.onClose)
+  }
+
+  private detach(): net.Socket {
+    this.socket.off('data', this.onData)
+    this.socket.off('error', this.onError)
+    this.socket.off('close', this.onClose)
+    this.socket.off('timeout', this.onTimeout)
+    this.socket.setTimeout(0)
+    return this.socket
+  }
+
+  private receive(text: string): void {
+    this.buffer += text
+    let newline = this.buffer.indexOf('\n')
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(newline + 1)
+      this.lines.push(line)
+      if (line.length < 4 || line[3] !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.lines.map((entry) => entry.slice(4)) })
+        this.lines = []
+      }
+      newline = this.buffer.indexOf('\n')
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    const waiter = this.waiters.shift()
+    if (waiter) waiter.resolve(reply)
+    else this.replies.push(reply)
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return
+    this.failure = error
+    for (const waiter of this.waiters.splice(0)) waiter.reject(error)
+    this.socket.destroy()
+  }
+
+  async read(expected: number[]): Promise<SmtpReply> {
+    const reply = this.replies.shift() ?? await new Promise<SmtpReply>((resolve, reject) => {
+      if (this.failure) reject(this.failure)
+      else this.waiters.push({ resolve, reject })
+    })
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP server replied ${reply.code}: ${reply.lines.join(' ')}`, reply.code)
+    }
+    return reply
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.read(expected)
+  }
+
+  async upgrade(servername: string): Promise<void> {
+    const plain = this.detach()
+    const secured = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername }, () => resolve(socket))
+      socket.once('error', reject)
+    })
+    this.attach(secured)
+  }
+
+  close(): void {
+    const socket = this.detach()
+    // A reset after QUIT is not worth failing a delivered message over
+    socket.on('error', () => undefined)
+    socket.end()
+  }
+}
+
+function connect(config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onTimeout = (): void => {
+      socket.destroy(new SmtpError('SMTP connection timed out'))
+    }
+    const onConnect = (): void => {
+      socket.off('error', reject)
+      socket.off('timeout', onTimeout)
+      socket.setTimeout(0)
+      resolve(socket)
+    }
+    const socket: net.Socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, onConnect)
+      : net.connect({ host: config.host, port: config.port }, onConnect)
+    socket.once('error', reject)
+    socket.setTimeout(timeoutMs)
+    socket.once('timeout', onTimeout)
+  })
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function addressOf(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim()
+}
+
+/** RFC 5322 message with CRLF line endings and dot-stuffed body lines. */
+export function formatMessage(message: MailMessage, date: Date = new Date()): string {
+  const domain = addressOf(message.from).split('@')[1] ?? 'localhost'
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ]
+  const body = message.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n')
+  return `${headers.join('\r\n')}\r\n\r\n${body}`
+}
+
+async function greet(connection: SmtpConnection, config: SmtpConfig): Promise<void> {
+  const clientName = config.clientName ?? 'localhost'
+  const ehlo = await connection.command(`EHLO ${clientName}`, [250])
+  const offersStartTls = ehlo.lines.some((line) => line.toUpperCase() === 'STARTTLS')
+  let encrypted = Boolean(config.secure)
+  if (!encrypted && config.startTls !== false && offersStartTls) {
+    await connection.command('STARTTLS', [220])
+    await connection.upgrade(config.host)
+    await connection.command(`EHLO ${clientName}`, [250])
+    encrypted = true
+  }
+  if (config.username) {
+    // STARTTLS is opportunistic: a relay (or anything in the path) can leave it out
+    if (!encrypted) {
+      throw new SmtpError('Refusing to send SMTP credentials over an unencrypted connection; use SMTP_SECURE or a relay that offers STARTTLS')
+    }
+    const credentials = Buffer.from(`\u0000${config.username}\u0000${config.password ?? ''}`, 'utf8').toString('base64')
+    await connection.command(`AUTH PLAIN ${credentials}`, [235])
+  }
+}
+
+/** Deliver one plain-text message through an SMTP relay. */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  if (message.to.length === 0) return
+  const timeoutMs = config.timeoutMs ?? 15000
+  const connection = new SmtpConnection(await connect(config, timeoutMs), timeoutMs)
+  try {
+    await connection.read([220])
+    await greet(connection, config)
+    await connection.command(`MAIL FROM:<${addressOf(message.from)}>`, [250])
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${addressOf(recipient)}>`, [250, 251])
+    }
+    await connection.command('DATA', [354])
+    await connection.command(`${formatMessage(message)}\r\n.`, [250])
+    await connection.command('QUIT', [221]).catch(() => undefined)
+  } finally {
+    connection.close()
+  }
+}
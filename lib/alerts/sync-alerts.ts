@@ -0,0 +1,401 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  createAlertChannelsFromEnv,
+  type AlertChannel,
+  type AlertNotification,
+  type AlertSeverity
+} from '@/lib/alerts/channels'
+import { logger } from '@/lib/utils/logger'
+
+export type FreshnessEntity = 'courts' | 'judges' | 'decisions'
+export type AlertKind = 'freshness' | 'circuit_breaker'
+
+export const FRESHNESS_ENTITIES: readonly FreshnessEntity[] = ['courts', 'judges', 'decisions']
+
+/**
+ * Built-in maximum age per entity, in hours. Courts refresh weekly; judges
+ * are refreshed once a week by the daily sync; decisions arrive daily but
+ * quiet courts can go days without one.
+ */
+export const DEFAULT_FRESHNESS_SLO_HOURS: Record<FreshnessEntity, number> = {
+  courts: 14 * 24,
+  judges: 8 * 24,
+  decisions: 7 * 24
+}
+
+/** A breach older than this multiple of its SLO is critical rather than a warning. */
+export const CRITICAL_SLO_MULTIPLE = 2
+
+/** The circuit alert fires while CourtListener's breaker has opened within this window. */
+export const CIRCUIT_ALERT_WINDOW_MINUTES = 60
+
+const PENDING_DELIVERY_LIMIT = 100
+
+const ENTITY_LABELS: Record<FreshnessEntity, string> = {
+  courts: 'Court records',
+  judges: 'Judge profiles',
+  decisions: 'Decisions'
+}
+
+export interface FreshnessSloRow {
+  entity_type: FreshnessEntity
+  court_id: string | null
+  max_age_hours: number
+  enabled: boolean
+}
+
+export interface CourtFreshnessRow {
+  court_id: string
+  court_name: string
+  jurisdiction: string | null
+  courts_synced_at: string | null
+  judges_synced_at: string | null
+  decisions_synced_at: string | null
+}
+
+/** A condition that should have a firing alert right now. */
+export interface AlertCondition {
+  alertKey: string
+  kind: AlertKind
+  severity: AlertSeverity
+  summary: string
+  details: Record<string, unknown>
+}
+
+interface ResolvedSlo {
+  maxAgeHours: number
+  enabled: boolean
+  /** Set for this court specifically rather than inherited. */
+  courtSpecific: boolean
+}
+
+/** The SLO for one court and entity: court override, then entity override, then the built-in default. */
+export function resolveFreshnessSlo(slos: FreshnessSloRow[], entity: FreshnessEntity, courtId: string): ResolvedSlo {
+  const courtSlo = slos.find((slo) => slo.entity_type === entity && slo.court_id === courtId)
+  if (courtSlo) return { maxAgeHours: courtSlo.max_age_hours, enabled: courtSlo.enabled, courtSpecific: true }
+  const entitySlo = slos.find((slo) => slo.entity_type === entity && slo.court_id === null)
+  if (entitySlo) return { maxAgeHours: entitySlo.max_age_hours, enabled: entitySlo.enabled, courtSpecific: false }
+  return { maxAgeHours: DEFAULT_FRESHNESS_SLO_HOURS[entity], enabled: true, courtSpecific: false }
+}
+
+function formatAge(hours: number): string {
+  return hours >= 48 ? `${Math.floor(hours / 24)} days` : `${Math.floor(hours)} hours`
+}
+
+function freshnessCondition(row: CourtFreshnessRow, entity: FreshnessEntity, slo: ResolvedSlo, now: Date): AlertCondition | null {
+  const syncedAt = row[`${entity}_synced_at`]
+  const base = {
+    alertKey: `freshness:${entity}:${row.court_id}`,
+    kind: 'freshness' as const,
+    details: { entity, courtId: row.court_id, courtName: row.court_name, jurisdiction: row.jurisdiction, syncedAt, maxAgeHours: slo.maxAgeHours }
+  }
+
+  if (!syncedAt) {
+    // Most courts never get synced judges or cases; only a court-specific SLO
+    // says this one should have them
+    return slo.courtSpecific
+      ? { ...base, severity: 'critical', summary: `${ENTITY_LABELS[entity]} for ${row.court_name} have never synced (SLO ${slo.maxAgeHours}h)` }
+      : null
+  }
+
+  const ageHours = (now.getTime() - new Date(syncedAt).getTime()) / 3_600_000
+  if (ageHours <= slo.maxAgeHours) return null
+  return {
+    ...base,
+    severity: ageHours > slo.maxAgeHours * CRITICAL_SLO_MULTIPLE ? 'critical' : 'warning',
+    summary: `${ENTITY_LABELS[entity]} for ${row.court_name} are ${formatAge(ageHours)} old (SLO ${slo.maxAgeHours}h)`
+  }
+}
+
+/** Breached freshness SLOs across courts. */
+export function evaluateFreshness(rows: CourtFreshnessRow[], slos: FreshnessSloRow[], now: Date = new Date()): AlertCondition[] {
+  const conditions: AlertCondition[] = []
+  for (const row of rows) {
+    for (const entity of FRESHNESS_ENTITIES) {
+      const slo = resolveFreshnessSlo(slos, entity, row.court_id)
+      if (!slo.enabled) continue
+      const condition = freshnessCondition(row, entity, slo, now)
+      if (condition) conditions.push(condition)
+    }
+  }
+  return conditions
+}
+
+async function loadFreshnessConditions(supabase: SupabaseClient, now: Date): Promise<AlertCondition[]> {
+  const [freshness, slos] = await Promise.all([
+    supabase.rpc('court_sync_freshness'),
+    supabase.from('freshness_slos').select('entity_type, court_id, max_age_hours, enabled')
+  ])
+  if (freshness.error) {
+    throw new Error(`Failed to load court freshness: ${freshness.error.message}`)
+  }
+  if (slos.error) {
+    throw new Error(`Failed to load freshness SLOs: ${slos.error.message}`)
+  }
+  return evaluateFreshness((freshness.data ?? []) as CourtFreshnessRow[], (slos.data ?? []) as FreshnessSloRow[], now)
+}
+
+/** The CourtListener circuit breaker reports each opening to performance_metrics. */
+async function loadCircuitConditions(supabase: SupabaseClient, now: Date): Promise<AlertCondition[]> {
+  const since = new Date(now.getTime() - CIRCUIT_ALERT_WINDOW_MINUTES * 60_000).toISOString()
+  const { count, error } = await supabase
+    .from('performance_metrics')
+    .select('id', { count: 'exact', head: true })
+    .eq('metric_name', 'courtlistener_circuit_open')
+    .gte('created_at', since)
+  if (error) {
+    throw new Error(`Failed to load circuit breaker metrics: ${error.message}`)
+  }
+  if (!count) return []
+  return [{
+    alertKey: 'circuit_breaker:courtlistener',
+    kind: 'circuit_breaker',
+    severity: 'critical',
+    summary: `CourtListener circuit breaker opened ${count} time${count === 1 ? '' : 's'} in the last ${CIRCUIT_ALERT_WINDOW_MINUTES} minutes`,
+    details: { opens: count, windowMinutes: CIRCUIT_ALERT_WINDOW_MINUTES }
+  }]
+}
+
+interface SyncAlertRow {
+  id: string
+  alert_key: string
+  kind: AlertKind
+  severity: AlertSeverity
+  status: 'firing' | 'resolved'
+  summary: string
+  details: Record<string, unknown> | null
+  fired_at: string
+  resolved_at: string | null
+  notified_at: string | null
+}
+
+const ALERT_COLUMNS = 'id, alert_key, kind, severity, status, summary, details, fired_at, resolved_at, notified_at'
+
+export interface AlertTransitions {
+  opened: number
+  escalated: number
+  resolved: number
+  ongoing: number
+}
+
+async function openAlert(supabase: SupabaseClient, condition: AlertCondition, nowIso: string): Promise<boolean> {
+  const { error } = await supabase.from('sync_alerts').insert({
+    alert_key: condition.alertKey,
+    kind: condition.kind,
+    severity: condition.severity,
+    status: 'firing',
+    summary: condition.summary,
+    details: condition.details,
+    fired_at: nowIso,
+    last_seen_at: nowIso
+  })
+  // 23505: a concurrent run opened the same alert first
+  if (error && error.code !== '23505') {
+    throw new Error(`Failed to open sync alert: ${error.message}`)
+  }
+  return !error
+}
+
+async function refreshAlert(supabase: SupabaseClient, alert: SyncAlertRow, condition: AlertCondition, nowIso: string): Promise<boolean> {
+  // Escalation to critical is news; a warning that eases off is not
+  const escalated = alert.severity === 'warning' && condition.severity === 'critical'
+  const update: Record<string, unknown> = { summary: condition.summary, details: condition.details, last_seen_at: nowIso }
+  if (escalated) {
+    update.severity = 'critical'
+    update.notified_at = null
+  }
+  const { error } = await supabase.from('sync_alerts').update(update).eq('id', alert.id)
+  if (error) {
+    throw new Error(`Failed to update sync alert: ${error.message}`)
+  }
+  return escalated
+}
+
+/**
+ * Reconcile stored alerts with the conditions found by one run. Only alerts
+ * of the evaluated `kinds` can resolve, so a run that checks a subset leaves
+ * the others firing.
+ */
+export async function applyAlertConditions(
+  supabase: SupabaseClient,
+  conditions: AlertCondition[],
+  { kinds, now = new Date() }: { kinds: AlertKind[]; now?: Date }
+): Promise<AlertTransitions> {
+  const { data, error } = await supabase
+    .from('sync_alerts')
+    .select(ALERT_COLUMNS)
+    .eq('status', 'firing')
+    .in('kind', kinds)
+  if (error) {
+    throw new Error(`Failed to load firing sync alerts: ${error.message}`)
+  }
+
+  const nowIso = now.toISOString()
+  const firing = new Map(((data ?? []) as SyncAlertRow[]).map((alert) => [alert.alert_key, alert]))
+  const transitions: AlertTransitions = { opened: 0, escalated: 0, resolved: 0, ongoing: 0 }
+
+  for (const condition of conditions) {
+    const existing = firing.get(condition.alertKey)
+    firing.delete(condition.alertKey)
+    if (!existing) {
+      if (await openAlert(supabase, condition, nowIso)) transitions.opened++
+    } else if (await refreshAlert(supabase, existing, condition, nowIso)) {
+      transitions.escalated++
+    } else {
+      transitions.ongoing++
+    }
+  }
+
+  const cleared = [...firing.values()].map((alert) => alert.id)
+  if (cleared.length > 0) {
+    const { error: resolveError } = await supabase
+      .from('sync_alerts')
+      .update({ status: 'resolved', resolved_at: nowIso })
+      .in('id', cleared)
+    if (resolveError) {
+      throw new Error(`Failed to resolve sync alerts: ${resolveError.message}`)
+    }
+    transitions.resolved = cleared.length
+  }
+
+  return transitions
+}
+
+function toNotification(alert: SyncAlertRow, event: AlertNotification['event']): AlertNotification {
+  return {
+    event,
+    alertKey: alert.alert_key,
+    kind: alert.kind,
+    severity: alert.severity,
+    summary: alert.summary,
+    details: alert.details ?? {},
+    firedAt: alert.fired_at,
+    resolvedAt: alert.resolved_at
+  }
+}
+
+async function loadPendingNotifications(supabase: SupabaseClient): Promise<{ firing: SyncAlertRow[]; resolved: SyncAlertRow[] }> {
+  const [firing, resolved] = await Promise.all([
+    supabase.from('sync_alerts').select(ALERT_COLUMNS).eq('status', 'firing').is('notified_at', null)
+      .order('fired_at', { ascending: true }).limit(PENDING_DELIVERY_LIMIT),
+    supabase.from('sync_alerts').select(ALERT_COLUMNS).eq('status', 'resolved').is('resolve_notified_at', null)
+      .order('resolved_at', { ascending: true }).limit(PENDING_DELIVERY_LIMIT)
+  ])
+  if (firing.error || resolved.error) {
+    throw new Error(`Failed to load pending alert notifications: ${(firing.error ?? resolved.error)?.message}`)
+  }
+  return { firing: (firing.data ?? []) as SyncAlertRow[], resolved: (resolved.data ?? []) as SyncAlertRow[] }
+}
+
+async function markAlerts(supabase: SupabaseClient, ids: string[], update: Record<string, unknown>): Promise<void> {
+  if (ids.length === 0) return
+  const { error } = await supabase.from('sync_alerts').update(update).in('id', ids)
+  if (error) {
+    throw new Error(`Failed to record alert delivery: ${error.message}`)
+  }
+}
+
+export interface AlertDeliveryResult {
+  delivered: number
+  errors: string[]
+}
+
+/**
+ * Send firing and resolve notifications that have not gone out yet. An alert
+ * counts as notified once any channel accepts it; when every channel fails
+ * it stays pending and the next run retries. Alerts that resolved before
+ * anyone heard about them are closed out silently.
+ */
+export async function deliverPendingAlerts(supabase: SupabaseClient, channels: AlertChannel[]): Promise<AlertDeliveryResult> {
+  if (channels.length === 0) return { delivered: 0, errors: [] }
+
+  const pending = await loadPendingNotifications(supabase)
+  const nowIso = new Date().toISOString()
+  const unannounced = pending.resolved.filter((alert) => !alert.notified_at)
+  await markAlerts(supabase, unannounced.map((alert) => alert.id), { resolve_notified_at: nowIso })
+
+  const resolved = pending.resolved.filter((alert) => alert.notified_at)
+  const notifications = [
+    ...pending.firing.map((alert) => toNotification(alert, 'firing')),
+    ...resolved.map((alert) => toNotification(alert, 'resolved'))
+  ]
+  if (notifications.length === 0) return { delivered: 0, errors: [] }
+
+  const outcomes = await Promise.allSettled(channels.map((channel) => channel.send(notifications)))
+  const errors = outcomes.flatMap((outcome, index) =>
+    outcome.status === 'rejected' ? [`${channels[index].name}: ${outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)}`] : []
+  )
+  const deliveryError = errors.length > 0 ? errors.join('; ') : null
+
+  if (errors.length === channels.length) {
+    await markAlerts(supabase, [...pending.firing, ...resolved].map((alert) => alert.id), { delivery_error: deliveryError })
+    logger.warn('Sync alert delivery failed on every channel', { errors })
+    return { delivered: 0, errors }
+  }
+
+  await markAlerts(supabase, pending.firing.map((alert) => alert.id), { notified_at: nowIso, delivery_error: deliveryError })
+  await markAlerts(supabase, resolved.map((alert) => alert.id), { resolve_notified_at: nowIso, delivery_error: deliveryError })
+  if (errors.length > 0) logger.warn('Sync alert delivery failed on some channels', { errors })
+  return { delivered: notifications.length, errors }
+}
+
+export interface SyncAlertRunResult extends AlertTransitions {
+  conditions: number
+  delivered: number
+  deliveryErrors: string[]
+}
+
+/**
+ * Evaluate SLOs, update alert state and notify. Cron runs call this after
+ * queueing their jobs; `kinds` limits the run to cheap checks where needed.
+ */
+export async function runSyncAlertChecks(
+  supabase: SupabaseClient,
+  {
+    kinds = ['freshness', 'circuit_breaker'],
+    channels = createAlertChannelsFromEnv(),
+    now = new Date()
+  }: { kinds?: AlertKind[]; channels?: AlertChannel[]; now?: Date } = {}
+): Promise<SyncAlertRunResult> {
+  const conditions = (await Promise.all(kinds.map((kind) =>
+    kind === 'freshness' ? loadFreshnessConditions(supabase, now) : loadCircuitConditions(supabase, now)
+  ))).flat()
+
+  const transitions = await applyAlertConditions(supabase, conditions, { kinds, now })
+  const delivery = await deliverPendingAlerts(supabase, channels)
+
+  logger.info('Evaluated sync alerts', { kinds, conditions: conditions.length, ...transitions, delivered: delivery.delivered })
+  return { conditions: conditions.length, ...transitions, delivered: delivery.delivered, deliveryErrors: delivery.errors }
+}
+
+export interface ActiveAlertEntry {
+  id: string
+  kind: AlertKind
+  severity: AlertSeverity
+  summary: string
+  firedAt: string
+  notified: boolean
+}
+
+/** Firing alerts, critical first, for the sync status snapshot. */
+export async function listFiringAlerts(supabase: SupabaseClient, { limit = 20 }: { limit?: number } = {}): Promise<ActiveAlertEntry[]> {
+  const { data, error } = await supabase
+    .from('sync_alerts')
+    .select(ALERT_COLUMNS)
+    .eq('status', 'firing')
+    .order('fired_at', { ascending: true })
+    .limit(limit)
+  if (error) {
+    throw new Error(`Failed to load firing sync alerts: ${error.message}`)
+  }
+  return ((data ?? []) as SyncAlertRow[])
+    .map((alert) => ({
+      id: alert.id,
+      kind: alert.kind,
+      severity: alert.severity,
+      summary: alert.summary,
+      firedAt: alert.fired_at,
+      notified: Boolean(alert.notified_at)
+    }))
+    .sort((left, right) => Number(right.severity === 'critical') - Number(left.severity === 'critical'))
+}
@@ -0,0 +1,151 @@
+import {
+  classifyCase,
+  getMetricClassifiers,
+  type ClassifiableCase,
+  type MetricClassifier,
+  type MetricKey,
+  type MetricTally
+} from '@/lib/analytics/classifiers'
+import { caseTypeStratum, selectBaseline, type BaselineScope, type MetricBaseline } from '@/lib/analytics/metric-baselines'
+import { proportionVariance, round, twoSidedPValue, Z_95 } from '@/lib/analytics/statistics'
+
+const SIGNIFICANCE_LEVEL = 0.05
+
+/**
+ * A judge metric expressed as a deviation, in percentage points, from the rate
+ * a peer population would show on the same case-type mix.
+ */
+export interface AdjustedMetric {
+  metric: MetricKey
+  label: string
+  judge_rate: number | null
+  expected_rate: number | null
+  deviation: number | null
+  ci_lower: number | null
+  ci_upper: number | null
+  p_value: number | null
+  significant: boolean
+  judge_sample_size: number
+  baseline_scope: BaselineScope | null
+  baseline_label: string | null
+  baseline_sample_size: number
+  case_types: number
+}
+
+export interface StratumExpectation {
+  weight: number
+  rate: number
+  variance: number
+}
+
+export function tallyJudgeStrata(cases: ClassifiableCase[], key: MetricKey): Map<string, MetricTally> {
+  const strata = new Map<string, MetricTally>()
+  for (const record of cases) {
+    const { included, succeeded } = classifyCase(record)
+    if (!included.includes(key)) continue
+    const stratum = caseTypeStratum(record.case_type)
+    const tally = strata.get(stratum) ?? { total: 0, successes: 0 }
+    tally.total++
+    if (succeeded.includes(key)) tally.successes++
+    strata.set(stratum, tally)
+  }
+  return strata
+}
+
+export function sumTallies(tallies: Iterable<MetricTally>): MetricTally {
+  let total = 0
+  let successes = 0
+  for (const tally of tallies) {
+    total += tally.total
+    successes += tally.successes
+  }
+  return { total, successes }
+}
+
+/**
+ * Expected rate for each case type the judge heard, using the baseline's rate
+ * for that case type, or its overall rate when the baseline never saw it.
+ */
+export function expectationsFor(
+  judgeStrata: Map<string, MetricTally>,
+  baseline: MetricBaseline,
+  key: MetricKey,
+  judgeTotal: number
+): StratumExpectation[] {
+  const overall = baseline.totals[key]
+  return Array.from(judgeStrata.entries()).map(([stratum, judgeTally]) => {
+    const peer = baseline.by_case_type[stratum]?.[key]
+    const source = peer && peer.total > 0 ? peer : overall
+    return {
+      weight: judgeTally.total / judgeTotal,
+      rate: source.successes / source.total,
+      variance: proportionVariance(source.successes, source.total)
+    }
+  })
+}
+
+function emptyResult(classifier: MetricClassifier, judgeTotal: number, judgeRate: number | null): AdjustedMetric {
+  return {
+    metric: classifier.key,
+    label: classifier.label,
+    judge_rate: judgeRate,
+    expected_rate: null,
+    deviation: null,
+    ci_lower: null,
+    ci_upper: null,
+    p_value: null,
+    significant: false,
+    judge_sample_size: judgeTotal,
+    baseline_scope: null,
+    baseline_label: null,
+    baseline_sample_size: 0,
+    case_types: 0
+  }
+}
+
+function adjustMetric(
+  classifier: MetricClassifier,
+  cases: ClassifiableCase[],
+  baselines: MetricBaseline[]
+): AdjustedMetric {
+  const judgeStrata = tallyJudgeStrata(cases, classifier.key)
+  const judge = sumTallies(judgeStrata.values())
+  if (judge.total === 0) return emptyResult(classifier, 0, null)
+
+  const judgeRate = judge.successes / judge.total
+  const baseline = selectBaseline(baselines, classifier)
+  if (!baseline) return emptyResult(classifier, judge.total, round(judgeRate * 100))
+
+  const expectations = expectationsFor(judgeStrata, baseline, classifier.key, judge.total)
+  const expected = expectations.reduce((sum, item) => sum + item.weight * item.rate, 0)
+  const expectedVariance = expectations.reduce((sum, item) => sum + item.weight * item.weight * item.variance, 0)
+  const standardError = Math.sqrt(proportionVariance(judge.successes, judge.total) + expectedVariance)
+  const deviation = judgeRate - expected
+  const pValue = twoSidedPValue(standardError > 0 ? deviation / standardError : 0)
+
+  return {
+    metric: classifier.key,
+    label: classifier.label,
+    judge_rate: round(judgeRate * 100),
+    expected_rate: round(expected * 100),
+    deviation: round(deviation * 100),
+    ci_lower: round((deviation - Z_95 * standardError) * 100),
+    ci_upper: round((deviation + Z_95 * standardError) * 100),
+    p_value: round(pValue, 4),
+    significant: judge.total >= classifier.minSample && pValue < SIGNIFICANCE_LEVEL,
+    judge_sample_size: judge.total,
+    baseline_scope: baseline.scope,
+    baseline_label: baseline.scope_label,
+    baseline_sample_size: baseline.totals[classifier.key].total,
+    case_types: judgeStrata.size
+  }
+}
+
+/**
+ * Compare every registered metric against the narrowest adequate baseline,
+ * standardized to the judge's own case-type mix (indirect standardization).
+ * Baselines are expected narrowest first, as returned by getMetricBaselines.
+ */
+export function computeAdjustedMetrics(cases: ClassifiableCase[], baselines: MetricBaseline[]): AdjustedMetric[] {
+  return getMetricClassifiers().map((classifier) => adjustMetric(classifier, cases, baselines))
+}
@@ -0,0 +1,50 @@
+import {
+  analyzeCaseTypePatterns,
+  analyzeOutcomes,
+  analyzeTemporalPatterns,
+  calculateBiasIndicators,
+  type BiasMetrics,
+  type CaseRecord,
+} from '@/lib/analytics/bias-calculations'
+import { evaluateMetrics } from '@/lib/analytics/classifiers'
+
+/** Columns the bias analysis reads from decided cases. */
+export const BIAS_CASE_COLUMNS = 'case_type, outcome, status, summary, case_value, filing_date, decision_date'
+
+export interface ClassifiedMetricSummary {
+  metric: string
+  label: string
+  rate: number | null
+  sample_size: number
+  min_sample_size: number
+  sufficient: boolean
+}
+
+export interface BiasAnalysis extends BiasMetrics {
+  classified_metrics: ClassifiedMetricSummary[]
+}
+
+/**
+ * Pattern, outcome and indicator analysis over a judge's decided cases, as
+ * served by `/api/judges/[id]/bias-analysis` and the GraphQL `bias_analysis`
+ * field. The caller adds the court baseline.
+ */
+export function buildBiasAnalysis(caseRows: CaseRecord[]): BiasAnalysis {
+  const caseTypePatterns = analyzeCaseTypePatterns(caseRows)
+  const outcomeAnalysis = analyzeOutcomes(caseRows)
+
+  return {
+    case_type_patterns: caseTypePatterns,
+    outcome_analysis: outcomeAnalysis,
+    temporal_patterns: analyzeTemporalPatterns(caseRows),
+    bias_indicators: calculateBiasIndicators(caseRows, caseTypePatterns, outcomeAnalysis),
+    classified_metrics: Object.values(evaluateMetrics(caseRows)).map((metric) => ({
+      metric: metric.key,
+      label: metric.label,
+      rate: metric.percentage,
+      sample_size: metric.total,
+      min_sample_size: metric.minSample,
+      sufficient: metric.sufficient,
+    })),
+  }
+}
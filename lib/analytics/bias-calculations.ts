@@ -1,3 +1,5 @@
+import { classifyOutcome } from '@/lib/analytics/classifiers'
+
 export interface CaseRecord {
   case_type?: string | null
   outcome?: string | null
@@ -55,22 +57,6 @@ export interface BiasMetrics {
   bias_indicators: BiasIndicators
 }
 
-function normalizeOutcome(value: string | null | undefined): 'settled' | 'dismissed' | 'judgment' | 'other' {
-  if (!value) return 'other'
-  const outcome = value.toLowerCase()
-
-  if (outcome.includes('settled') || outcome.includes('compromise')) {
-    return 'settled'
-  }
-  if (outcome.includes('dismiss')) {
-    return 'dismissed'
-  }
-  if (outcome.includes('judgment') || outcome.includes('granted')) {
-    return 'judgment'
-  }
-  return 'other'
-}
-
 export function analyzeCaseTypePatterns(cases: CaseRecord[]): CaseTypePattern[] {
   const caseTypeGroups = cases.reduce((groups, case_) => {
     const caseType = case_.case_type || 'Other'
@@ -84,7 +70,7 @@ export function analyzeCaseTypePatterns(cases: CaseRecord[]): CaseTypePattern[]
   return Object.entries(caseTypeGroups)
     .map(([caseType, casesInType]) => {
       const outcomes = casesInType.reduce((acc: Record<string, number>, case_) => {
-        const outcome = normalizeOutcome(case_.outcome || case_.status)
+        const outcome = classifyOutcome(case_.outcome || case_.status)
         acc[outcome] = (acc[outcome] || 0) + 1
         return acc
       }, {} as Record<string, number>)
@@ -121,7 +107,7 @@ export function analyzeCaseTypePatterns(cases: CaseRecord[]): CaseTypePattern[]
 
 export function analyzeOutcomes(cases: CaseRecord[]): OutcomeAnalysis {
   const outcomes = cases.reduce((acc, case_) => {
-    const outcome = normalizeOutcome(case_.outcome || case_.status)
+    const outcome = classifyOutcome(case_.outcome || case_.status)
     acc[outcome] = (acc[outcome] || 0) + 1
     return acc
   }, {} as Record<string, number>)
@@ -155,7 +141,7 @@ export function analyzeOutcomes(cases: CaseRecord[]): OutcomeAnalysis {
       return value >= range.min && value < range.max
     })
 
-    const settledInRange = casesInRange.filter((c) => normalizeOutcome(c.outcome || c.status) === 'settled').length
+    const settledInRange = casesInRange.filter((c) => classifyOutcome(c.outcome || c.status) === 'settled').length
 
     return {
       value_range: range.value_range,
@@ -191,7 +177,7 @@ export function analyzeTemporalPatterns(cases: CaseRecord[]): TemporalPattern[]
     .map(([key, groupCases]) => {
       const [year, month] = key.split('-')
       const caseCounts = groupCases.length
-      const settlementCount = groupCases.filter((c) => normalizeOutcome(c.outcome || c.status) === 'settled').length
+      const settlementCount = groupCases.filter((c) => classifyOutcome(c.outcome || c.status) === 'settled').length
 
       const durations = groupCases
         .filter((c) => c.filing_date)
@@ -0,0 +1,12 @@
+import { includesAny } from './text'
+import type { MetricClassifier } from './types'
+
+export const alimonyClassifier: MetricClassifier = {
+  key: 'alimony',
+  label: 'Spousal support awarded',
+  minSample: 10,
+  includes: ({ caseType, summary }) =>
+    includesAny(caseType, ['divorce', 'family']) || includesAny(summary, ['alimony', 'spousal support']),
+  succeeds: ({ outcome, summary }) =>
+    includesAny(outcome, ['alimony', 'spousal support']) || summary.includes('awarded spousal')
+}
@@ -0,0 +1,18 @@
+import { includesAny } from './text'
+import type { MetricClassifier } from './types'
+
+const BAIL_SUMMARY_TERMS = ['bail', 'pretrial release', 'pre-trial release', 'released on own recognizance']
+const BAIL_OUTCOME_TERMS = ['bail', 'release', 'detained', 'remand']
+
+export const bailReleaseClassifier: MetricClassifier = {
+  key: 'bail',
+  label: 'Pretrial release',
+  minSample: 10,
+  includes: ({ outcome, summary }) =>
+    includesAny(summary, BAIL_SUMMARY_TERMS) || includesAny(outcome, BAIL_OUTCOME_TERMS),
+  // Anything short of an explicit remand or detention is treated as release.
+  succeeds: ({ outcome, summary }) =>
+    includesAny(outcome, ['bail granted', 'released'])
+    || includesAny(summary, ['release granted', 'bail set'])
+    || (!outcome.includes('remanded') && !outcome.includes('detained'))
+}
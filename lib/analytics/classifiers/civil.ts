@@ -0,0 +1,11 @@
+import { includesAny } from './text'
+import type { MetricClassifier } from './types'
+
+export const civilPlaintiffClassifier: MetricClassifier = {
+  key: 'civil',
+  label: 'Civil plaintiff favor',
+  minSample: 15,
+  includes: ({ caseType }) => includesAny(caseType, ['civil', 'tort', 'personal injury']),
+  succeeds: ({ outcome, summary }) =>
+    includesAny(outcome, ['plaintiff', 'awarded']) || summary.includes('in favor of plaintiff')
+}
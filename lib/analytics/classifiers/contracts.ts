@@ -0,0 +1,15 @@
+import { includesAny } from './text'
+import type { MetricClassifier } from './types'
+
+export const contractEnforcementClassifier: MetricClassifier = {
+  key: 'contracts',
+  label: 'Contract enforcement',
+  minSample: 15,
+  includes: ({ caseType, summary }) =>
+    includesAny(caseType, ['contract', 'breach']) || summary.includes('contract dispute'),
+  // A decided contract case that was not dismissed counts as enforced.
+  succeeds: ({ outcome, summary, status }) =>
+    includesAny(outcome, ['enforced', 'breach found'])
+    || summary.includes('contract upheld')
+    || (!outcome.includes('dismissed') && status === 'decided')
+}
@@ -0,0 +1,12 @@
+import { includesAny } from './text'
+import type { MetricClassifier } from './types'
+
+export const custodyClassifier: MetricClassifier = {
+  key: 'custody',
+  label: 'Custody awarded to mother',
+  minSample: 10,
+  includes: ({ caseType, summary }) =>
+    includesAny(caseType, ['custody', 'family']) || summary.includes('child custody'),
+  succeeds: ({ outcome, summary }) =>
+    outcome.includes('mother') || includesAny(summary, ['custody to mother', 'maternal custody'])
+}
@@ -0,0 +1,5 @@
+export * from './types'
+export * from './registry'
+export { toCaseText } from './text'
+export { classifyOutcome, type OutcomeCategory } from './outcome'
+export { classifyMotionSubtype, isMotionGranted, mentionsMotion, type MotionSubtype } from './motion'
@@ -0,0 +1,34 @@
+import { includesAny } from './text'
+import type { CaseText, MetricClassifier } from './types'
+
+export type MotionSubtype = 'summary_judgment' | 'dismiss' | 'general'
+
+export const motionGrantClassifier: MetricClassifier = {
+  key: 'motion',
+  label: 'Motion grant rate',
+  minSample: 15,
+  includes: ({ outcome, summary }) => summary.includes('motion') || outcome.includes('motion'),
+  succeeds: ({ outcome, summary }) =>
+    outcome.includes('granted') || includesAny(summary, ['granted the motion', 'motion approved'])
+}
+
+/**
+ * Looser motion detection used by the v1 motions endpoint, which also accepts
+ * the "mtn" docket abbreviation and partial grants.
+ */
+export function mentionsMotion({ outcome, summary }: CaseText): boolean {
+  const text = `${outcome} ${summary}`
+  return text.includes('motion') || text.includes('mtn')
+}
+
+export function isMotionGranted({ outcome, summary }: CaseText): boolean {
+  const text = `${outcome} ${summary}`
+  return text.includes('granted') || text.includes('grant in part')
+}
+
+export function classifyMotionSubtype({ outcome, summary }: CaseText): MotionSubtype {
+  const text = `${outcome} ${summary}`
+  if (text.includes('summary judgment')) return 'summary_judgment'
+  if (text.includes('dismiss')) return 'dismiss'
+  return 'general'
+}
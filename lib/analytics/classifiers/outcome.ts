@@ -0,0 +1,20 @@
+export type OutcomeCategory = 'settled' | 'dismissed' | 'judgment' | 'other'
+
+/**
+ * Coarse disposition bucket used by the bias and baseline calculations.
+ */
+export function classifyOutcome(value: string | null | undefined): OutcomeCategory {
+  if (!value) return 'other'
+  const outcome = value.toLowerCase()
+
+  if (outcome.includes('settled') || outcome.includes('compromise')) {
+    return 'settled'
+  }
+  if (outcome.includes('dismiss')) {
+    return 'dismissed'
+  }
+  if (outcome.includes('judgment') || outcome.includes('granted')) {
+    return 'judgment'
+  }
+  return 'other'
+}
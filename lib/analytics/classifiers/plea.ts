@@ -0,0 +1,11 @@
+import { includesAny } from './text'
+import type { MetricClassifier } from './types'
+
+export const pleaAcceptanceClassifier: MetricClassifier = {
+  key: 'plea',
+  label: 'Plea acceptance',
+  minSample: 10,
+  includes: ({ outcome, summary }) => summary.includes('plea') || outcome.includes('plea'),
+  succeeds: ({ outcome, summary }) =>
+    includesAny(outcome, ['plea accepted', 'guilty plea']) || summary.includes('plea approved')
+}
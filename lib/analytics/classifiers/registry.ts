@@ -0,0 +1,119 @@
+import { alimonyClassifier } from './alimony'
+import { appealReversalClassifier } from './reversal'
+import { bailReleaseClassifier } from './bail'
+import { civilPlaintiffClassifier } from './civil'
+import { contractEnforcementClassifier } from './contracts'
+import { custodyClassifier } from './custody'
+import { motionGrantClassifier } from './motion'
+import { pleaAcceptanceClassifier } from './plea'
+import { sentencingSeverityClassifier } from './sentencing'
+import { settlementClassifier } from './settlement'
+import { toCaseText } from './text'
+import type { ClassifiableCase, MetricClassifier, MetricKey, MetricResult, MetricTally } from './types'
+
+const registry = new Map<MetricKey, MetricClassifier>()
+
+for (const classifier of [
+  civilPlaintiffClassifier,
+  custodyClassifier,
+  alimonyClassifier,
+  contractEnforcementClassifier,
+  sentencingSeverityClassifier,
+  pleaAcceptanceClassifier,
+  bailReleaseClassifier,
+  appealReversalClassifier,
+  settlementClassifier,
+  motionGrantClassifier
+]) {
+  registry.set(classifier.key, classifier)
+}
+
+/**
+ * Register (or replace) the classifier for a metric.
+ */
+export function registerMetricClassifier(classifier: MetricClassifier): void {
+  registry.set(classifier.key, classifier)
+}
+
+export function getMetricClassifier(key: MetricKey): MetricClassifier | undefined {
+  return registry.get(key)
+}
+
+export function getMetricClassifiers(): MetricClassifier[] {
+  return Array.from(registry.values())
+}
+
+export interface CaseClassification {
+  included: MetricKey[]
+  succeeded: MetricKey[]
+}
+
+export function classifyCase(record: ClassifiableCase): CaseClassification {
+  const text = toCaseText(record)
+  const included: MetricKey[] = []
+  const succeeded: MetricKey[] = []
+
+  for (const classifier of registry.values()) {
+    if (!classifier.includes(text)) continue
+    included.push(classifier.key)
+    if (classifier.succeeds(text)) succeeded.push(classifier.key)
+  }
+
+  return { included, succeeded }
+}
+
+export function tallyCases(records: ClassifiableCase[]): Record<MetricKey, MetricTally> {
+  const tallies = {} as Record<MetricKey, MetricTally>
+  for (const key of registry.keys()) {
+    tallies[key] = { total: 0, successes: 0 }
+  }
+
+  for (const record of records) {
+    const { included, succeeded } = classifyCase(record)
+    for (const key of included) tallies[key].total++
+    for (const key of succeeded) tallies[key].successes++
+  }
+
+  return tallies
+}
+
+function sampleConfidence(total: number): number {
+  if (total >= 50) return 90
+  if (total >= 30) return 85
+  if (total >= 20) return 80
+  if (total >= 10) return 75
+  if (total >= 5) return 70
+  return 65
+}
+
+/**
+ * A metric with no classified cases has no rate: `percentage` is null rather than a neutral default.
+ */
+export function toMetricResult(classifier: MetricClassifier, tally: MetricTally): MetricResult {
+  const base = { key: classifier.key, label: classifier.label, minSample: classifier.minSample, ...tally }
+
+  if (tally.total === 0) {
+    return { ...base, percentage: null, confidence: 0, sample: 0, sufficient: false }
+  }
+
+  const ratio = Math.min(1, Math.max(0, tally.successes / tally.total))
+  return {
+    ...base,
+    percentage: Math.round(ratio * 100),
+    confidence: Math.min(95, sampleConfidence(tally.total)),
+    sample: tally.total,
+    sufficient: tally.total >= classifier.minSample
+  }
+}
+
+/**
+ * Classify every case and compute a result for each registered metric.
+ */
+export function evaluateMetrics(records: ClassifiableCase[]): Record<MetricKey, MetricResult> {
+  const tallies = tallyCases(records)
+  const results = {} as Record<MetricKey, MetricResult>
+  for (const classifier of registry.values()) {
+    results[classifier.key] = toMetricResult(classifier, tallies[classifier.key])
+  }
+  return results
+}
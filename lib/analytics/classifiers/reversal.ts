@@ -0,0 +1,13 @@
+import { includesAny } from './text'
+import type { MetricClassifier } from './types'
+
+export const appealReversalClassifier: MetricClassifier = {
+  key: 'reversal',
+  label: 'Appeal reversal',
+  minSample: 10,
+  includes: ({ caseType, outcome, summary }) =>
+    caseType.includes('appeal') || summary.includes('appeal') || outcome.includes('appeal'),
+  succeeds: ({ outcome, summary }) =>
+    includesAny(outcome, ['reversed', 'overturned'])
+    || includesAny(summary, ['judgment reversed', 'decision overturned'])
+}
@@ -0,0 +1,11 @@
+import { includesAny } from './text'
+import type { MetricClassifier } from './types'
+
+export const sentencingSeverityClassifier: MetricClassifier = {
+  key: 'sentencing',
+  label: 'Custodial sentencing',
+  minSample: 15,
+  includes: ({ caseType }) => includesAny(caseType, ['criminal', 'felony', 'misdemeanor']),
+  succeeds: ({ outcome, summary }) =>
+    includesAny(outcome, ['prison', 'years']) || summary.includes('sentenced to')
+}
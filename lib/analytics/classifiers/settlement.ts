@@ -0,0 +1,14 @@
+import { includesAny } from './text'
+import type { MetricClassifier } from './types'
+
+export const settlementClassifier: MetricClassifier = {
+  key: 'settlement',
+  label: 'Settlement encouragement',
+  minSample: 10,
+  includes: ({ caseType, outcome, summary }) =>
+    includesAny(caseType, ['civil', 'contract', 'tort'])
+    && (summary.includes('settlement') || outcome.includes('settlement')),
+  succeeds: ({ outcome, summary }) =>
+    outcome.includes('settled')
+    || includesAny(summary, ['settlement reached', 'parties settled', 'settlement conference'])
+}
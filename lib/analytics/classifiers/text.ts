@@ -0,0 +1,14 @@
+import type { CaseText, ClassifiableCase } from './types'
+
+export function toCaseText(record: ClassifiableCase): CaseText {
+  return {
+    caseType: (record.case_type || '').toLowerCase(),
+    outcome: (record.outcome || '').toLowerCase(),
+    summary: (record.summary || '').toLowerCase(),
+    status: (record.status || '').toLowerCase()
+  }
+}
+
+export function includesAny(value: string, needles: string[]): boolean {
+  return needles.some((needle) => value.includes(needle))
+}
@@ -0,0 +1,58 @@
+/**
+ * Shared contracts for the per-metric case classifiers.
+ */
+
+export type MetricKey =
+  | 'civil'
+  | 'custody'
+  | 'alimony'
+  | 'contracts'
+  | 'sentencing'
+  | 'plea'
+  | 'bail'
+  | 'reversal'
+  | 'settlement'
+  | 'motion'
+
+export interface ClassifiableCase {
+  case_type?: string | null
+  outcome?: string | null
+  summary?: string | null
+  status?: string | null
+}
+
+/**
+ * Lower-cased text fields so rules can use plain substring checks.
+ */
+export interface CaseText {
+  caseType: string
+  outcome: string
+  summary: string
+  status: string
+}
+
+export interface MetricClassifier {
+  key: MetricKey
+  label: string
+  /** Minimum cases in the denominator before the metric is considered reportable. */
+  minSample: number
+  /** Whether the case belongs in this metric's denominator. */
+  includes(text: CaseText): boolean
+  /** Whether an included case counts toward the numerator. */
+  succeeds(text: CaseText): boolean
+}
+
+export interface MetricTally {
+  total: number
+  successes: number
+}
+
+export interface MetricResult extends MetricTally {
+  key: MetricKey
+  label: string
+  percentage: number | null
+  confidence: number
+  sample: number
+  minSample: number
+  sufficient: boolean
+}
@@ -0,0 +1,85 @@
+import { type ComparisonReport } from '@/lib/analytics/comparison'
+import { renderTextPdf } from '@/lib/utils/pdf'
+
+function csvValue(value: string | number | boolean | null): string {
+  if (value === null) return ''
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? 'n/a' : `${value.toFixed(1)}%`
+}
+
+/**
+ * One row per metric and judge pair, carrying both judges' standardized rates
+ * so the file stands on its own.
+ */
+export function comparisonToCsv(report: ComparisonReport): string {
+  const names = new Map(report.judges.map((judge) => [judge.judge_id, judge.name]))
+  const rows = [
+    'metric,label,window_start,window_end,case_types,judge_a_id,judge_a_name,judge_a_rate,judge_a_n,judge_b_id,judge_b_name,judge_b_rate,judge_b_n,difference,z_score,p_value,adjusted_p_value,significant'
+  ]
+
+  for (const metric of report.metrics) {
+    const rates = new Map(metric.judges.map((rate) => [rate.judge_id, rate]))
+    for (const pair of metric.comparisons) {
+      const rateA = rates.get(pair.judge_a)
+      const rateB = rates.get(pair.judge_b)
+      rows.push([
+        metric.metric,
+        metric.label,
+        report.window?.start ?? null,
+        report.window?.end ?? null,
+        metric.case_types.join('; '),
+        pair.judge_a,
+        names.get(pair.judge_a) ?? null,
+        rateA?.rate ?? null,
+        rateA?.sample_size ?? 0,
+        pair.judge_b,
+        names.get(pair.judge_b) ?? null,
+        rateB?.rate ?? null,
+        rateB?.sample_size ?? 0,
+        pair.difference,
+        pair.z_score,
+        pair.p_value,
+        pair.adjusted_p_value,
+        pair.significant
+      ].map(csvValue).join(','))
+    }
+  }
+
+  return rows.join('\n')
+}
+
+export function comparisonToPdf(report: ComparisonReport): Uint8Array {
+  const names = new Map(report.judges.map((judge) => [judge.judge_id, judge.name]))
+  const nameWidth = Math.min(36, Math.max(10, ...report.judges.map((judge) => judge.name.length)))
+  const lines: string[] = [
+    'Judge Comparison',
+    '',
+    report.window ? `Matched window: ${report.window.start} to ${report.window.end}` : 'Matched window: none (no overlapping case dates)',
+    `Standardization: ${report.method.standardization}`,
+    `Test: ${report.method.test}; ${report.method.multiple_comparisons}; alpha ${report.method.significance_level}`,
+    '',
+    ...report.judges.map((judge) =>
+      `  ${judge.name}${judge.court_name ? `, ${judge.court_name}` : ''}: ${judge.cases_in_window} cases in window`
+    )
+  ]
+
+  for (const metric of report.metrics) {
+    lines.push('', metric.label, `  Case types: ${metric.case_types.length > 0 ? metric.case_types.join(', ') : 'none shared'}`)
+    lines.push(`  ${'Judge'.padEnd(nameWidth)}  ${'Rate'.padStart(7)}  ${'95% CI'.padEnd(15)}  ${'Raw'.padStart(7)}  n`)
+    for (const rate of metric.judges) {
+      const interval = rate.ci_lower === null || rate.ci_upper === null ? 'n/a' : `${rate.ci_lower.toFixed(1)}-${rate.ci_upper.toFixed(1)}%`
+      const name = (names.get(rate.judge_id) ?? rate.judge_id).slice(0, nameWidth).padEnd(nameWidth)
+      lines.push(`  ${name}  ${formatRate(rate.rate).padStart(7)}  ${interval.padEnd(15)}  ${formatRate(rate.raw_rate).padStart(7)}  ${rate.sample_size}${rate.sufficient ? '' : ' (below minimum sample)'}`)
+    }
+    for (const pair of metric.comparisons.filter((comparison) => comparison.significant)) {
+      lines.push(`  * ${names.get(pair.judge_a)} vs ${names.get(pair.judge_b)}: ${pair.difference} pts (adjusted p = ${pair.adjusted_p_value})`)
+    }
+  }
+
+  lines.push('', `* significant at adjusted p < ${report.method.significance_level}`)
+  return renderTextPdf(lines, 'Judge Comparison')
+}
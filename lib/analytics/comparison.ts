@@ -0,0 +1,273 @@
+import { classifyCase, getMetricClassifiers, type ClassifiableCase, type MetricClassifier, type MetricKey, type MetricTally } from '@/lib/analytics/classifiers'
+import { caseTypeStratum } from '@/lib/analytics/metric-baselines'
+import { proportionVariance, round, twoSidedPValue, Z_95 } from '@/lib/analytics/statistics'
+
+const SIGNIFICANCE_LEVEL = 0.05
+
+export const MIN_COMPARED_JUDGES = 2
+export const MAX_COMPARED_JUDGES = 5
+
+export interface ComparisonCase extends ClassifiableCase {
+  decision_date?: string | null
+  filing_date?: string | null
+}
+
+export interface ComparisonJudgeInput {
+  id: string
+  name: string
+  court_name?: string | null
+  cases: ComparisonCase[]
+}
+
+export interface ComparedJudge {
+  judge_id: string
+  name: string
+  court_name: string | null
+  cases_fetched: number
+  cases_in_window: number
+}
+
+export interface JudgeMetricRate {
+  judge_id: string
+  /** Rate standardized to the shared case-type mix, in percent. */
+  rate: number | null
+  /** Unadjusted rate over the same shared case types, in percent. */
+  raw_rate: number | null
+  ci_lower: number | null
+  ci_upper: number | null
+  sample_size: number
+  /** Cases in the window whose case type not every judge heard. */
+  excluded_cases: number
+  sufficient: boolean
+}
+
+export interface PairwiseComparison {
+  judge_a: string
+  judge_b: string
+  difference: number | null
+  z_score: number | null
+  p_value: number | null
+  adjusted_p_value: number | null
+  significant: boolean
+}
+
+export interface MetricComparison {
+  metric: MetricKey
+  label: string
+  min_sample: number
+  case_types: string[]
+  judges: JudgeMetricRate[]
+  comparisons: PairwiseComparison[]
+}
+
+export interface ComparisonReport {
+  window: { start: string; end: string } | null
+  judges: ComparedJudge[]
+  metrics: MetricComparison[]
+  method: {
+    standardization: string
+    test: string
+    multiple_comparisons: string
+    significance_level: number
+  }
+}
+
+interface Observation {
+  stratum: string
+  included: MetricKey[]
+  succeeded: MetricKey[]
+}
+
+interface StandardizedRate {
+  rate: number
+  variance: number
+  raw: MetricTally
+  excluded: number
+}
+
+function caseDate(record: ComparisonCase): string | null {
+  const value = record.decision_date || record.filing_date
+  return value ? value.slice(0, 10) : null
+}
+
+/**
+ * The span every judge has cases in: from the latest first case to the
+ * earliest last case. Null when the judges' dockets do not overlap.
+ */
+export function matchedWindow(judges: ComparisonJudgeInput[]): { start: string; end: string } | null {
+  let start: string | null = null
+  let end: string | null = null
+
+  for (const judge of judges) {
+    const dates = judge.cases.map(caseDate).filter((date): date is string => Boolean(date)).sort()
+    if (dates.length === 0) return null
+    if (!start || dates[0] > start) start = dates[0]
+    if (!end || dates[dates.length - 1] < end) end = dates[dates.length - 1]
+  }
+
+  return start && end && start <= end ? { start, end } : null
+}
+
+function observe(cases: ComparisonCase[], window: { start: string; end: string }): Observation[] {
+  return cases
+    .filter((record) => {
+      const date = caseDate(record)
+      return date !== null && date >= window.start && date <= window.end
+    })
+    .map((record) => ({ stratum: caseTypeStratum(record.case_type), ...classifyCase(record) }))
+}
+
+function tallyStrata(observations: Observation[], key: MetricKey): Map<string, MetricTally> {
+  const strata = new Map<string, MetricTally>()
+  for (const obs of observations) {
+    if (!obs.included.includes(key)) continue
+    const tally = strata.get(obs.stratum) ?? { total: 0, successes: 0 }
+    tally.total++
+    if (obs.succeeded.includes(key)) tally.successes++
+    strata.set(obs.stratum, tally)
+  }
+  return strata
+}
+
+/**
+ * Direct standardization: each judge's per-case-type rates weighted by the
+ * pooled case-type mix of all compared judges, over case types they all heard.
+ */
+function standardize(
+  strata: Map<string, MetricTally>,
+  sharedTypes: string[],
+  weights: Map<string, number>
+): StandardizedRate {
+  let rate = 0
+  let variance = 0
+  const raw = { total: 0, successes: 0 }
+  for (const stratum of sharedTypes) {
+    const tally = strata.get(stratum) as MetricTally
+    const weight = weights.get(stratum) ?? 0
+    rate += weight * (tally.successes / tally.total)
+    variance += weight * weight * proportionVariance(tally.successes, tally.total)
+    raw.total += tally.total
+    raw.successes += tally.successes
+  }
+
+  let inWindow = 0
+  for (const tally of strata.values()) inWindow += tally.total
+  return { rate, variance, raw, excluded: inWindow - raw.total }
+}
+
+function compareMetric(
+  classifier: MetricClassifier,
+  judges: ComparisonJudgeInput[],
+  observations: Observation[][]
+): MetricComparison {
+  const strata = observations.map((judgeObs) => tallyStrata(judgeObs, classifier.key))
+  const sharedTypes = Array.from(strata[0]?.keys() ?? [])
+    .filter((stratum) => strata.every((judgeStrata) => (judgeStrata.get(stratum)?.total ?? 0) > 0))
+    .sort()
+
+  const pooled = new Map<string, number>()
+  for (const stratum of sharedTypes) {
+    pooled.set(stratum, strata.reduce((sum, judgeStrata) => sum + (judgeStrata.get(stratum)?.total ?? 0), 0))
+  }
+  const pooledTotal = Array.from(pooled.values()).reduce((sum, count) => sum + count, 0)
+  const weights = new Map(Array.from(pooled, ([stratum, count]) => [stratum, count / pooledTotal]))
+
+  const rates = strata.map((judgeStrata) => (sharedTypes.length > 0 ? standardize(judgeStrata, sharedTypes, weights) : null))
+
+  const judgeRates: JudgeMetricRate[] = judges.map((judge, index) => {
+    const result = rates[index]
+    const excluded = result?.excluded ?? Array.from(strata[index].values()).reduce((sum, tally) => sum + tally.total, 0)
+    if (!result) {
+      return { judge_id: judge.id, rate: null, raw_rate: null, ci_lower: null, ci_upper: null, sample_size: 0, excluded_cases: excluded, sufficient: false }
+    }
+    const margin = Z_95 * Math.sqrt(result.variance)
+    return {
+      judge_id: judge.id,
+      rate: round(result.rate * 100),
+      raw_rate: round((result.raw.successes / result.raw.total) * 100),
+      ci_lower: round(Math.max(0, result.rate - margin) * 100),
+      ci_upper: round(Math.min(1, result.rate + margin) * 100),
+      sample_size: result.raw.total,
+      excluded_cases: excluded,
+      sufficient: result.raw.total >= classifier.minSample
+    }
+  })
+
+  const pairCount = (judges.length * (judges.length - 1)) / 2
+  const comparisons: PairwiseComparison[] = []
+  for (let left = 0; left < judges.length; left++) {
+    for (let right = left + 1; right < judges.length; right++) {
+      comparisons.push(comparePair(judges[left].id, judges[right].id, rates[left], rates[right], pairCount, judgeRates[left].sufficient && judgeRates[right].sufficient))
+    }
+  }
+
+  return {
+    metric: classifier.key,
+    label: classifier.label,
+    min_sample: classifier.minSample,
+    case_types: sharedTypes,
+    judges: judgeRates,
+    comparisons
+  }
+}
+
+/**
+ * Two-proportion z-test on the standardized rates (unpooled standard error,
+ * since standardized rates have no common pooled proportion), Bonferroni
+ * adjusted for the number of judge pairs.
+ */
+function comparePair(
+  judgeA: string,
+  judgeB: string,
+  rateA: StandardizedRate | null,
+  rateB: StandardizedRate | null,
+  pairCount: number,
+  bothSufficient: boolean
+): PairwiseComparison {
+  if (!rateA || !rateB) {
+    return { judge_a: judgeA, judge_b: judgeB, difference: null, z_score: null, p_value: null, adjusted_p_value: null, significant: false }
+  }
+
+  const difference = rateA.rate - rateB.rate
+  const standardError = Math.sqrt(rateA.variance + rateB.variance)
+  const zScore = standardError > 0 ? difference / standardError : 0
+  const pValue = twoSidedPValue(zScore)
+  const adjusted = Math.min(1, pValue * pairCount)
+
+  return {
+    judge_a: judgeA,
+    judge_b: judgeB,
+    difference: round(difference * 100),
+    z_score: round(zScore, 2),
+    p_value: round(pValue, 4),
+    adjusted_p_value: round(adjusted, 4),
+    significant: bothSufficient && adjusted < SIGNIFICANCE_LEVEL
+  }
+}
+
+/**
+ * Compare judges metric by metric over the window all of them have cases in,
+ * standardized to a shared case-type mix, with pairwise significance tests.
+ */
+export function compareJudges(judges: ComparisonJudgeInput[]): ComparisonReport {
+  const window = matchedWindow(judges)
+  const observations = judges.map((judge) => (window ? observe(judge.cases, window) : []))
+
+  return {
+    window,
+    judges: judges.map((judge, index) => ({
+      judge_id: judge.id,
+      name: judge.name,
+      court_name: judge.court_name ?? null,
+      cases_fetched: judge.cases.length,
+      cases_in_window: observations[index].length
+    })),
+    metrics: getMetricClassifiers().map((classifier) => compareMetric(classifier, judges, observations)),
+    method: {
+      standardization: 'direct, pooled case-type mix of case types every judge heard',
+      test: 'two-proportion z-test on standardized rates',
+      multiple_comparisons: 'bonferroni across judge pairs',
+      significance_level: SIGNIFICANCE_LEVEL
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { MIN_SAMPLE_SIZE } from '@/lib/analytics/config'
+import { logger } from '@/lib/utils/logger'
+
+/** Sync job types that can bring new decisions or filings for a judge. */
+const CASE_SYNC_JOB_TYPES = ['decision', 'full']
+const QUEUE_SCAN_LIMIT = 25
+
+export const CORRECTIONS_EMAIL = 'corrections@judgefinder.io'
+
+export type InsufficientDataReason = 'no_cases_in_window' | 'case_lookup_failed'
+
+export interface QueuedSyncJob {
+  id: string
+  type: string
+  status: string
+  options?: { judgeIds?: string[]; jurisdiction?: string } | null
+  scheduled_for: string
+  started_at?: string | null
+}
+
+export interface NextSyncEstimate {
+  job_id: string
+  type: string
+  status: 'pending' | 'running'
+  expected_at: string
+  targets_judge: boolean
+}
+
+/**
+ * What the analytics API returns instead of numbers when a judge has no case
+ * data to analyze. Nothing in it is an estimate of the judge's behaviour.
+ */
+export interface InsufficientDataReport {
+  status: 'insufficient_data'
+  reason: InsufficientDataReason
+  message: string
+  missing: string[]
+  cases_found: number
+  min_sample_size: number
+  lookback_years: number
+  window_start: string
+  next_sync: NextSyncEstimate | null
+  corrections: {
+    event: 'open-report-profile-issue'
+    endpoint: '/api/report-profile-issue'
+    email: string
+  }
+}
+
+interface JudgeScope {
+  id: string
+  jurisdiction?: string | null
+}
+
+function coversJudge(job: QueuedSyncJob, judge: JudgeScope): boolean {
+  const judgeIds = job.options?.judgeIds
+  if (Array.isArray(judgeIds) && judgeIds.length > 0) return judgeIds.includes(judge.id)
+
+  const jurisdiction = job.options?.jurisdiction
+  if (!jurisdiction || !judge.jurisdiction) return true
+  return jurisdiction.toLowerCase() === judge.jurisdiction.toLowerCase()
+}
+
+/**
+ * Earliest queued or running sync job whose scope includes the judge, preferring
+ * jobs that name the judge explicitly when several are due at the same time.
+ */
+export function selectNextSync(jobs: QueuedSyncJob[], judge: JudgeScope): NextSyncEstimate | null {
+  const candidates = jobs
+    .filter((job) => CASE_SYNC_JOB_TYPES.includes(job.type) && (job.status === 'pending' || job.status === 'running'))
+    .filter((job) => coversJudge(job, judge))
+    .map((job) => ({
+      job_id: job.id,
+      type: job.type,
+      status: job.status as NextSyncEstimate['status'],
+      expected_at: job.status === 'running' && job.started_at ? job.started_at : job.scheduled_for,
+      targets_judge: Boolean(job.options?.judgeIds?.includes(judge.id))
+    }))
+    .sort((left, right) =>
+      left.expected_at.localeCompare(right.expected_at) || Number(right.targets_judge) - Number(left.targets_judge)
+    )
+
+  return candidates[0] ?? null
+}
+
+export async function findNextSync(supabase: SupabaseClient, judge: JudgeScope): Promise<NextSyncEstimate | null> {
+  const { data, error } = await supabase
+    .from('sync_queue')
+    .select('id, type, status, options, scheduled_for, started_at')
+    .in('status', ['pending', 'running'])
+    .in('type', CASE_SYNC_JOB_TYPES)
+    .order('scheduled_for', { ascending: true })
+    .limit(QUEUE_SCAN_LIMIT)
+
+  if (error) {
+    logger.warn('Failed to read sync queue for next sync estimate', { judgeId: judge.id, error: error.message })
+    return null
+  }
+
+  return selectNextSync((data ?? []) as QueuedSyncJob[], judge)
+}
+
+export function buildInsufficientDataReport(params: {
+  reason: InsufficientDataReason
+  casesFound: number
+  lookbackYears: number
+  windowStart: string
+  nextSync: NextSyncEstimate | null
+}): InsufficientDataReport {
+  const missing =
+    params.reason === 'case_lookup_failed'
+      ? ['Case records could not be loaded for this judge; no analytics were computed']
+      : [
+          `No decisions or filings attributed to this judge since ${params.windowStart} (${params.lookbackYears}-year window)`,
+          `At least ${MIN_SAMPLE_SIZE} classified cases are needed before a metric is shown`
+        ]
+
+  return {
+    status: 'insufficient_data',
+    reason: params.reason,
+    message: 'Not enough case data to report ruling patterns for this judge.',
+    missing,
+    cases_found: params.casesFound,
+    min_sample_size: MIN_SAMPLE_SIZE,
+    lookback_years: params.lookbackYears,
+    window_start: params.windowStart,
+    next_sync: params.nextSync,
+    corrections: {
+      event: 'open-report-profile-issue',
+      endpoint: '/api/report-profile-issue',
+      email: CORRECTIONS_EMAIL
+    }
+  }
+}
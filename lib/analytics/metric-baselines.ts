@@ -0,0 +1,395 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { withRedisCache } from '@/lib/cache/redis'
+import { logger } from '@/lib/utils/logger'
+import {
+  classifyOutcome,
+  getMetricClassifiers,
+  tallyCases,
+  type ClassifiableCase,
+  type MetricClassifier,
+  type MetricKey,
+  type MetricTally
+} from '@/lib/analytics/classifiers'
+import { defaultPrior, estimateBetaPrior, UNINFORMATIVE_PRIOR, type BetaPrior } from '@/lib/analytics/shrinkage'
+
+const BASELINE_LOOKBACK_YEARS = 3
+const BASELINE_CASE_LIMIT = 10000
+const BASELINE_CACHE_TTL_SECONDS = 3600
+const BASELINE_COLUMNS = 'judge_id, case_type, outcome, status, summary'
+
+export type BaselineScope = 'court' | 'county' | 'state'
+
+export type MetricTallies = Record<MetricKey, MetricTally>
+
+export interface BaselineCase extends ClassifiableCase {
+  judge_id?: string | null
+}
+
+/**
+ * Classifier tallies for a peer population, overall and split by case type,
+ * so judge metrics can be compared against a caseload with the same mix.
+ * `priors` are empirical-Bayes fits over the population's individual judges.
+ */
+export interface MetricBaseline {
+  scope: BaselineScope
+  scope_label: string
+  sample_size: number
+  totals: MetricTallies
+  by_case_type: Record<string, MetricTallies>
+  priors: Record<MetricKey, BetaPrior | null>
+  generated_at: string
+}
+
+interface BaselineCourtRow {
+  id: string
+  name: string | null
+  jurisdiction: string | null
+}
+
+/**
+ * Stratum key for case-type adjustment. Case types are free text from several
+ * sources, so only case and whitespace are normalized.
+ */
+export function caseTypeStratum(caseType: string | null | undefined): string {
+  const normalized = (caseType || '').trim().toLowerCase().replace(/\s+/g, ' ')
+  return normalized || 'unspecified'
+}
+
+export function groupByCaseType<T extends ClassifiableCase>(records: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const record of records) {
+    const stratum = caseTypeStratum(record.case_type)
+    const group = groups.get(stratum)
+    if (group) group.push(record)
+    else groups.set(stratum, [record])
+  }
+  return groups
+}
+
+type PartialTallies = Partial<MetricTallies>
+
+const EMPTY_TALLY: MetricTally = { total: 0, successes: 0 }
+
+/** Settled and dismissed cases, by `classifyOutcome`, out of every decided case. */
+export interface OutcomeCounts {
+  settled: number
+  dismissed: number
+}
+
+export interface OutcomePriors {
+  settlement: BetaPrior
+  dismissal: BetaPrior
+}
+
+/** One judge's share of a peer population. Metrics without cases are left out to keep cached populations small. */
+export interface JudgePeerTallies {
+  sample_size: number
+  outcomes: OutcomeCounts
+  totals: PartialTallies
+  by_case_type: Record<string, PartialTallies>
+}
+
+/**
+ * The tallies behind a scope's baseline, cached once and shared by every
+ * judge in the scope. `judges` holds each judge's share, so the judge being
+ * compared can be taken out in memory (`peerBaseline`). Unattributed cases
+ * count only in the overall tallies.
+ */
+export interface PeerPopulation {
+  scope: BaselineScope
+  scope_label: string
+  sample_size: number
+  outcomes: OutcomeCounts
+  totals: MetricTallies
+  by_case_type: Record<string, MetricTallies>
+  judges: Record<string, JudgePeerTallies>
+  generated_at: string
+}
+
+function compactTallies(tallies: MetricTallies): PartialTallies {
+  const compact: PartialTallies = {}
+  for (const [key, tally] of Object.entries(tallies) as Array<[MetricKey, MetricTally]>) {
+    if (tally.total > 0) compact[key] = tally
+  }
+  return compact
+}
+
+function subtractTallies(tallies: MetricTallies, own: PartialTallies | undefined): MetricTallies {
+  const remaining = {} as MetricTallies
+  for (const [key, tally] of Object.entries(tallies) as Array<[MetricKey, MetricTally]>) {
+    const mine = own?.[key]
+    remaining[key] = mine ? { total: tally.total - mine.total, successes: tally.successes - mine.successes } : tally
+  }
+  return remaining
+}
+
+function countOutcomes(records: BaselineCase[]): OutcomeCounts {
+  const counts: OutcomeCounts = { settled: 0, dismissed: 0 }
+  for (const record of records) {
+    const outcome = classifyOutcome(record.outcome || record.status)
+    if (outcome === 'settled') counts.settled++
+    if (outcome === 'dismissed') counts.dismissed++
+  }
+  return counts
+}
+
+function tallyByCaseType(records: BaselineCase[]): Record<string, MetricTallies> {
+  const byCaseType: Record<string, MetricTallies> = {}
+  for (const [stratum, group] of groupByCaseType(records)) {
+    byCaseType[stratum] = tallyCases(group)
+  }
+  return byCaseType
+}
+
+function tallyJudge(records: BaselineCase[]): JudgePeerTallies {
+  const byCaseType: Record<string, PartialTallies> = {}
+  for (const [stratum, tallies] of Object.entries(tallyByCaseType(records))) {
+    byCaseType[stratum] = compactTallies(tallies)
+  }
+  return {
+    sample_size: records.length,
+    outcomes: countOutcomes(records),
+    totals: compactTallies(tallyCases(records)),
+    by_case_type: byCaseType
+  }
+}
+
+export function buildPeerPopulation(
+  scope: BaselineScope,
+  scopeLabel: string,
+  records: BaselineCase[]
+): PeerPopulation {
+  const byJudge = new Map<string, BaselineCase[]>()
+  for (const record of records) {
+    if (!record.judge_id) continue
+    const group = byJudge.get(record.judge_id)
+    if (group) group.push(record)
+    else byJudge.set(record.judge_id, [record])
+  }
+
+  const judges: Record<string, JudgePeerTallies> = {}
+  for (const [judgeId, group] of byJudge) {
+    judges[judgeId] = tallyJudge(group)
+  }
+
+  return {
+    scope,
+    scope_label: scopeLabel,
+    sample_size: records.length,
+    outcomes: countOutcomes(records),
+    totals: tallyCases(records),
+    by_case_type: tallyByCaseType(records),
+    judges,
+    generated_at: new Date().toISOString()
+  }
+}
+
+function estimatePriors(judges: JudgePeerTallies[]): Record<MetricKey, BetaPrior | null> {
+  const priors = {} as Record<MetricKey, BetaPrior | null>
+  for (const { key } of getMetricClassifiers()) {
+    priors[key] = estimateBetaPrior(judges.map((judge) => judge.totals[key] ?? EMPTY_TALLY))
+  }
+  return priors
+}
+
+function toBaseline(population: PeerPopulation, excludedJudgeId: string | null): MetricBaseline {
+  const own = excludedJudgeId ? population.judges[excludedJudgeId] : undefined
+  const byCaseType: Record<string, MetricTallies> = {}
+  for (const [stratum, tallies] of Object.entries(population.by_case_type)) {
+    byCaseType[stratum] = subtractTallies(tallies, own?.by_case_type[stratum])
+  }
+  const peers = Object.entries(population.judges)
+    .filter(([judgeId]) => judgeId !== excludedJudgeId)
+    .map(([, tallies]) => tallies)
+
+  return {
+    scope: population.scope,
+    scope_label: population.scope_label,
+    sample_size: population.sample_size - (own?.sample_size ?? 0),
+    totals: subtractTallies(population.totals, own?.totals),
+    by_case_type: byCaseType,
+    priors: estimatePriors(peers),
+    generated_at: population.generated_at
+  }
+}
+
+/**
+ * The scope's baseline without the judge's own cases, so a judge is never
+ * compared with (or shrunk toward) their own caseload. Null when no peer
+ * cases remain.
+ */
+export function peerBaseline(population: PeerPopulation, judgeId: string): MetricBaseline | null {
+  const baseline = toBaseline(population, judgeId)
+  return baseline.sample_size > 0 ? baseline : null
+}
+
+function outcomePrior(
+  peers: JudgePeerTallies[],
+  peerCases: number,
+  peerCount: number,
+  outcome: keyof OutcomeCounts
+): BetaPrior {
+  const fitted = estimateBetaPrior(peers.map((peer) => ({ total: peer.sample_size, successes: peer.outcomes[outcome] })))
+  if (fitted) return fitted
+  return peerCases > 0 ? defaultPrior(peerCount / peerCases) : UNINFORMATIVE_PRIOR
+}
+
+/**
+ * Settlement and dismissal priors fitted over the population's other judges,
+ * falling back to the peers' pooled rate and then to an uninformative prior.
+ */
+export function peerOutcomePriors(population: PeerPopulation | null, judgeId: string): OutcomePriors {
+  if (!population) return { settlement: UNINFORMATIVE_PRIOR, dismissal: UNINFORMATIVE_PRIOR }
+
+  const own = population.judges[judgeId]
+  const peers = Object.entries(population.judges)
+    .filter(([id]) => id !== judgeId)
+    .map(([, tallies]) => tallies)
+  const peerCases = population.sample_size - (own?.sample_size ?? 0)
+  const peerSettled = population.outcomes.settled - (own?.outcomes.settled ?? 0)
+  const peerDismissed = population.outcomes.dismissed - (own?.outcomes.dismissed ?? 0)
+
+  return {
+    settlement: outcomePrior(peers, peerCases, peerSettled, 'settled'),
+    dismissal: outcomePrior(peers, peerCases, peerDismissed, 'dismissed')
+  }
+}
+
+export function buildMetricBaseline(
+  scope: BaselineScope,
+  scopeLabel: string,
+  records: BaselineCase[]
+): MetricBaseline {
+  return toBaseline(buildPeerPopulation(scope, scopeLabel, records), null)
+}
+
+/**
+ * Narrowest baseline with enough cases for this metric; thin court samples
+ * fall back to the county, then the state.
+ */
+export function selectBaseline(baselines: MetricBaseline[], classifier: MetricClassifier): MetricBaseline | null {
+  return baselines.find((baseline) => baseline.totals[classifier.key]?.total >= classifier.minSample) ?? null
+}
+
+/**
+ * Pull the county name out of California-style court names such as
+ * "Superior Court of California, County of Orange" or "Orange County Superior Court".
+ */
+export function extractCountyName(courtName: string | null | undefined): string | null {
+  if (!courtName) return null
+  const countyOf = courtName.match(/county of ([a-z .'-]+?)(?:,|\(|$)/i)
+  if (countyOf) return countyOf[1].trim()
+  const suffix = courtName.match(/([a-z .'-]+?) county\b/i)
+  if (!suffix) return null
+  const name = suffix[1].replace(/^.*\b(?:of|the)\s+/i, '').trim()
+  return name || null
+}
+
+function baselineCutoff(): string {
+  const cutoff = new Date()
+  cutoff.setFullYear(cutoff.getFullYear() - BASELINE_LOOKBACK_YEARS)
+  return cutoff.toISOString()
+}
+
+/**
+ * Decided cases in the lookback window for a peer population, newest first
+ * so a capped sample is the same on every run.
+ */
+async function fetchBaselineCases(
+  supabase: SupabaseClient,
+  column: 'court_id' | 'jurisdiction',
+  values: string[]
+): Promise<BaselineCase[] | null> {
+  const { data, error } = await supabase
+    .from('cases')
+    .select(BASELINE_COLUMNS)
+    .in(column, values)
+    .not('decision_date', 'is', null)
+    .gte('decision_date', baselineCutoff())
+    .order('decision_date', { ascending: false })
+    .order('id', { ascending: true })
+    .limit(BASELINE_CASE_LIMIT)
+
+  if (error) {
+    logger.warn('Failed to load baseline cases', { column, error: error.message })
+    return null
+  }
+  return (data ?? []) as BaselineCase[]
+}
+
+async function loadCourtPopulation(supabase: SupabaseClient, court: BaselineCourtRow): Promise<PeerPopulation | null> {
+  const records = await fetchBaselineCases(supabase, 'court_id', [court.id])
+  if (!records || records.length === 0) return null
+  return buildPeerPopulation('court', court.name || court.id, records)
+}
+
+async function loadCountyPopulation(supabase: SupabaseClient, court: BaselineCourtRow): Promise<PeerPopulation | null> {
+  const county = extractCountyName(court.name)
+  if (!county || !court.jurisdiction) return null
+
+  const { data: courts, error } = await supabase
+    .from('courts')
+    .select('id')
+    .eq('jurisdiction', court.jurisdiction)
+    .ilike('name', `%${county}%`)
+    .limit(200)
+
+  // A county with a single court adds nothing over the court baseline
+  const courtIds = (courts ?? []).map((row: { id: string }) => row.id)
+  if (error || courtIds.length < 2) return null
+
+  const records = await fetchBaselineCases(supabase, 'court_id', courtIds)
+  if (!records || records.length === 0) return null
+  return buildPeerPopulation('county', `${county} County`, records)
+}
+
+async function loadStatePopulation(supabase: SupabaseClient, jurisdiction: string): Promise<PeerPopulation | null> {
+  const records = await fetchBaselineCases(supabase, 'jurisdiction', [jurisdiction])
+  if (!records || records.length === 0) return null
+  return buildPeerPopulation('state', jurisdiction, records)
+}
+
+async function loadCourtRow(supabase: SupabaseClient, courtId: string): Promise<BaselineCourtRow | null> {
+  const { data } = await supabase.from('courts').select('id, name, jurisdiction').eq('id', courtId).maybeSingle()
+  return (data as BaselineCourtRow | null) ?? null
+}
+
+async function cachedPopulation(
+  key: string,
+  load: () => Promise<PeerPopulation | null>
+): Promise<PeerPopulation | null> {
+  const { data } = await withRedisCache(`analytics:peer-population:v2:${key}`, BASELINE_CACHE_TTL_SECONDS, load)
+  return data
+}
+
+/** The court's peer population, for callers that shrink toward a judge's court. */
+export async function getCourtPeerPopulation(courtId: string): Promise<PeerPopulation | null> {
+  const supabase = await createServiceRoleClient()
+  const court = await loadCourtRow(supabase, courtId)
+  return court ? cachedPopulation(`court:${court.id}`, () => loadCourtPopulation(supabase, court)) : null
+}
+
+/**
+ * Court, county and statewide baselines for a judge, narrowest first, built
+ * from the judge's peers only. Scopes without decided peer cases in the
+ * lookback window are omitted.
+ */
+export async function getMetricBaselines(
+  judgeId: string,
+  courtId: string | null,
+  fallbackJurisdiction: string | null
+): Promise<MetricBaseline[]> {
+  const supabase = await createServiceRoleClient()
+  const court = courtId ? await loadCourtRow(supabase, courtId) : null
+  const jurisdiction = court?.jurisdiction || fallbackJurisdiction
+  const populations = await Promise.all([
+    court ? cachedPopulation(`court:${court.id}`, () => loadCourtPopulation(supabase, court)) : null,
+    court ? cachedPopulation(`county:${court.id}`, () => loadCountyPopulation(supabase, court)) : null,
+    jurisdiction ? cachedPopulation(`state:${jurisdiction}`, () => loadStatePopulation(supabase, jurisdiction)) : null
+  ])
+
+  return populations
+    .map((population) => (population ? peerBaseline(population, judgeId) : null))
+    .filter((baseline): baseline is MetricBaseline => baseline !== null)
+}
@@ -0,0 +1,73 @@
+import { getMetricClassifiers, type ClassifiableCase, type MetricClassifier, type MetricKey } from '@/lib/analytics/classifiers'
+import { expectationsFor, sumTallies, tallyJudgeStrata } from '@/lib/analytics/adjusted-metrics'
+import { selectBaseline, type BaselineScope, type MetricBaseline } from '@/lib/analytics/metric-baselines'
+import { defaultPrior, posteriorFor, UNINFORMATIVE_PRIOR, type BetaPrior } from '@/lib/analytics/shrinkage'
+import { round } from '@/lib/analytics/statistics'
+
+/**
+ * Empirical-Bayes estimate of a judge metric. Rates are percentages; the
+ * credible interval is the central 95% of the posterior.
+ */
+export interface PosteriorEstimate {
+  metric: MetricKey
+  label: string
+  sample_size: number
+  raw_rate: number | null
+  posterior_mean: number
+  credible_lower: number
+  credible_upper: number
+  shrinkage: number
+  prior_mean: number
+  prior_strength: number
+  prior_source: BetaPrior['source']
+  prior_scope: BaselineScope | null
+  prior_label: string | null
+}
+
+function estimateMetric(
+  classifier: MetricClassifier,
+  cases: ClassifiableCase[],
+  baselines: MetricBaseline[]
+): PosteriorEstimate {
+  const judgeStrata = tallyJudgeStrata(cases, classifier.key)
+  const judge = sumTallies(judgeStrata.values())
+  const baseline = selectBaseline(baselines, classifier)
+
+  let prior = UNINFORMATIVE_PRIOR
+  let priorMean = prior.mean
+  if (baseline) {
+    const totals = baseline.totals[classifier.key]
+    prior = baseline.priors?.[classifier.key] ?? defaultPrior(totals.successes / totals.total)
+    // Centre the prior on what peers would show for this judge's case-type mix
+    priorMean = judge.total > 0
+      ? expectationsFor(judgeStrata, baseline, classifier.key, judge.total)
+        .reduce((sum, item) => sum + item.weight * item.rate, 0)
+      : prior.mean
+  }
+
+  const posterior = posteriorFor(judge, prior, priorMean)
+  return {
+    metric: classifier.key,
+    label: classifier.label,
+    sample_size: judge.total,
+    raw_rate: judge.total > 0 ? round((judge.successes / judge.total) * 100) : null,
+    posterior_mean: round(posterior.mean * 100),
+    credible_lower: round(posterior.lower * 100),
+    credible_upper: round(posterior.upper * 100),
+    shrinkage: round(posterior.shrinkage, 2),
+    prior_mean: round(priorMean * 100),
+    prior_strength: prior.strength,
+    prior_source: prior.source,
+    prior_scope: baseline?.scope ?? null,
+    prior_label: baseline?.scope_label ?? null
+  }
+}
+
+/**
+ * Shrink every registered metric toward the narrowest adequate peer baseline.
+ * Small samples stay close to the peer rate with wide intervals; large samples
+ * converge on the judge's own rate.
+ */
+export function computePosteriorEstimates(cases: ClassifiableCase[], baselines: MetricBaseline[]): PosteriorEstimate[] {
+  return getMetricClassifiers().map((classifier) => estimateMetric(classifier, cases, baselines))
+}
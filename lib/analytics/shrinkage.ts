@@ -0,0 +1,85 @@
+import type { MetricTally } from '@/lib/analytics/classifiers'
+import { betaQuantile, round } from '@/lib/analytics/statistics'
+
+/** Pseudo-count used when there are too few peer judges to estimate prior strength. */
+export const DEFAULT_PRIOR_STRENGTH = 10
+const MIN_PRIOR_STRENGTH = 2
+const MAX_PRIOR_STRENGTH = 200
+const MIN_PEER_JUDGES = 3
+const MIN_PEER_CASES = 3
+
+/**
+ * Beta prior over a judge-level rate. `strength` (alpha + beta) is the number
+ * of pseudo-cases the prior is worth.
+ */
+export interface BetaPrior {
+  mean: number
+  strength: number
+  judges: number
+  source: 'empirical' | 'default' | 'uninformative'
+}
+
+/** Uniform Beta(1, 1), used when no peer baseline exists at all. */
+export const UNINFORMATIVE_PRIOR: BetaPrior = { mean: 0.5, strength: 2, judges: 0, source: 'uninformative' }
+
+export interface PosteriorSummary {
+  mean: number
+  lower: number
+  upper: number
+  shrinkage: number
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+export function defaultPrior(mean: number, judges = 0): BetaPrior {
+  return { mean: clamp(mean, 0.01, 0.99), strength: DEFAULT_PRIOR_STRENGTH, judges, source: 'default' }
+}
+
+/**
+ * Method-of-moments fit of a beta-binomial prior from per-judge tallies: the
+ * spread of peer judges' rates beyond binomial noise sets how strongly a
+ * judge's own rate is pulled toward the pooled mean.
+ */
+export function estimateBetaPrior(peerTallies: MetricTally[]): BetaPrior | null {
+  const peers = peerTallies.filter((tally) => tally.total >= MIN_PEER_CASES)
+  const cases = peers.reduce((sum, tally) => sum + tally.total, 0)
+  if (cases === 0) return null
+
+  const mean = peers.reduce((sum, tally) => sum + tally.successes, 0) / cases
+  if (peers.length < MIN_PEER_JUDGES || mean <= 0 || mean >= 1) {
+    return defaultPrior(mean, peers.length)
+  }
+
+  // Case-weighted variance of judge rates, minus the expected binomial noise
+  const observedVariance = peers.reduce(
+    (sum, tally) => sum + tally.total * Math.pow(tally.successes / tally.total - mean, 2),
+    0
+  ) / cases
+  const noise = mean * (1 - mean) * (peers.length / cases)
+  const betweenJudgeVariance = observedVariance - noise
+
+  const strength = betweenJudgeVariance > 0
+    ? clamp((mean * (1 - mean)) / betweenJudgeVariance - 1, MIN_PRIOR_STRENGTH, MAX_PRIOR_STRENGTH)
+    : MAX_PRIOR_STRENGTH
+
+  return { mean, strength: round(strength, 2), judges: peers.length, source: 'empirical' }
+}
+
+/**
+ * Posterior mean and central 95% credible interval for a judge's rate, with
+ * the prior recentred on `priorMean` (e.g. a case-mix adjusted expectation).
+ */
+export function posteriorFor(tally: MetricTally, prior: BetaPrior, priorMean = prior.mean): PosteriorSummary {
+  const center = clamp(priorMean, 0.01, 0.99)
+  const alpha = center * prior.strength + tally.successes
+  const beta = (1 - center) * prior.strength + (tally.total - tally.successes)
+
+  return {
+    mean: alpha / (alpha + beta),
+    lower: betaQuantile(0.025, alpha, beta),
+    upper: betaQuantile(0.975, alpha, beta),
+    shrinkage: prior.strength / (prior.strength + tally.total)
+  }
+}
@@ -0,0 +1,237 @@
+import crypto from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/utils/logger'
+import { emitWebhookEvent } from '@/lib/webhooks/events'
+
+/**
+ * Bump when the statistical analytics logic changes in a way that can move published numbers.
+ */
+export const ANALYTICS_ENGINE_VERSION = 'analytics-engine@1'
+
+export const DEFAULT_SNAPSHOT_LIMIT = 25
+export const MAX_SNAPSHOT_LIMIT = 100
+
+const SNAPSHOT_TABLE = 'judge_analytics_snapshots'
+const SUMMARY_COLUMNS = 'id, judge_id, version, analytics, input_case_ids, input_fingerprint, lookback_years, case_fetch_limit, ai_model, code_version, data_source, created_at'
+
+export type AnalyticsPayload = Record<string, unknown>
+
+// Models of the retired synthetic fallbacks; cached payloads from them are never served
+const SYNTHETIC_ANALYTICS_MODELS = ['statistical_estimation', 'conservative_fallback']
+
+export function isSyntheticAnalytics(analytics: { ai_model?: unknown } | null | undefined): boolean {
+  return SYNTHETIC_ANALYTICS_MODELS.includes(String(analytics?.ai_model ?? ''))
+}
+
+/**
+ * Whether a cached payload has the current shape (per-metric confidence
+ * fields). A metric without cases has confidence 0, so this checks the type
+ * rather than truthiness.
+ */
+export function hasCurrentAnalyticsFormat(analytics: { confidence_civil?: unknown } | null | undefined): boolean {
+  return typeof analytics?.confidence_civil === 'number'
+}
+
+export interface AnalyticsSnapshotInput {
+  judgeId: string
+  analytics: AnalyticsPayload
+  caseIds: string[]
+  lookbackYears: number
+  caseFetchLimit: number
+  dataSource: string
+}
+
+export interface AnalyticsSnapshot {
+  id: string
+  judge_id: string
+  version: number
+  analytics: AnalyticsPayload
+  input_case_ids: string[]
+  input_fingerprint: string
+  lookback_years: number
+  case_fetch_limit: number
+  ai_model: string | null
+  code_version: string
+  data_source: string | null
+  created_at: string
+}
+
+export interface MetricChange {
+  metric: string
+  from: number | null
+  to: number | null
+  delta: number | null
+}
+
+export interface SettingChange {
+  setting: string
+  from: string | number | null
+  to: string | number | null
+}
+
+export interface AnalyticsSnapshotDiff {
+  from_snapshot: { id: string; version: number; created_at: string }
+  to_snapshot: { id: string; version: number; created_at: string }
+  same_inputs: boolean
+  metric_changes: MetricChange[]
+  setting_changes: SettingChange[]
+  cases_added: string[]
+  cases_removed: string[]
+}
+
+/**
+ * Identifies the code that produced a snapshot: engine version plus the deployed commit when known.
+ */
+export function getAnalyticsCodeVersion(): string {
+  const commit = process.env.ANALYTICS_CODE_VERSION
+    || process.env.VERCEL_GIT_COMMIT_SHA
+    || process.env.COMMIT_REF
+    || process.env.npm_package_version
+  return commit ? `${ANALYTICS_ENGINE_VERSION}+${commit.slice(0, 12)}` : ANALYTICS_ENGINE_VERSION
+}
+
+export function buildInputFingerprint(caseIds: string[], lookbackYears: number, caseFetchLimit: number): string {
+  const payload = JSON.stringify({
+    cases: [...caseIds].sort(),
+    lookbackYears,
+    caseFetchLimit,
+    engine: ANALYTICS_ENGINE_VERSION
+  })
+  return crypto.createHash('sha256').update(payload).digest('hex')
+}
+
+/**
+ * Persist an immutable snapshot of a regeneration. Failures are logged, never thrown,
+ * so snapshot storage can't break the analytics response.
+ */
+export async function recordAnalyticsSnapshot(
+  supabase: SupabaseClient,
+  input: AnalyticsSnapshotInput
+): Promise<AnalyticsSnapshot | null> {
+  const aiModel = typeof input.analytics.ai_model === 'string' ? input.analytics.ai_model : null
+  const { data, error } = await supabase
+    .from(SNAPSHOT_TABLE)
+    .insert({
+      judge_id: input.judgeId,
+      analytics: input.analytics,
+      input_case_ids: input.caseIds,
+      input_fingerprint: buildInputFingerprint(input.caseIds, input.lookbackYears, input.caseFetchLimit),
+      lookback_years: input.lookbackYears,
+      case_fetch_limit: input.caseFetchLimit,
+      ai_model: aiModel,
+      code_version: getAnalyticsCodeVersion(),
+      data_source: input.dataSource
+    })
+    .select(SUMMARY_COLUMNS)
+    .single()
+
+  if (error) {
+    logger.error('Failed to record analytics snapshot', { judgeId: input.judgeId, error: error.message })
+    return null
+  }
+
+  const snapshot = data as AnalyticsSnapshot
+  await emitWebhookEvent(supabase, 'analytics.regenerated', {
+    judge_id: snapshot.judge_id,
+    snapshot_id: snapshot.id,
+    version: snapshot.version,
+    code_version: snapshot.code_version,
+    data_source: snapshot.data_source,
+    created_at: snapshot.created_at
+  })
+  return snapshot
+}
+
+export async function listAnalyticsSnapshots(
+  supabase: SupabaseClient,
+  judgeId: string,
+  limit: number
+): Promise<AnalyticsSnapshot[]> {
+  const pageSize = Number.isFinite(limit)
+    ? Math.min(MAX_SNAPSHOT_LIMIT, Math.max(1, Math.trunc(limit)))
+    : DEFAULT_SNAPSHOT_LIMIT
+  const { data, error } = await supabase
+    .from(SNAPSHOT_TABLE)
+    .select(SUMMARY_COLUMNS)
+    .eq('judge_id', judgeId)
+    .order('version', { ascending: false })
+    .limit(pageSize)
+
+  if (error) {
+    throw new Error(`Failed to list analytics snapshots: ${error.message}`)
+  }
+
+  return (data ?? []) as AnalyticsSnapshot[]
+}
+
+export async function getAnalyticsSnapshot(
+  supabase: SupabaseClient,
+  judgeId: string,
+  snapshotId: string
+): Promise<AnalyticsSnapshot | null> {
+  const { data, error } = await supabase
+    .from(SNAPSHOT_TABLE)
+    .select(SUMMARY_COLUMNS)
+    .eq('judge_id', judgeId)
+    .eq('id', snapshotId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load analytics snapshot: ${error.message}`)
+  }
+
+  return (data as AnalyticsSnapshot | null) ?? null
+}
+
+function numericOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function diffMetrics(from: AnalyticsPayload, to: AnalyticsPayload): MetricChange[] {
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)])
+  const changes: MetricChange[] = []
+
+  for (const metric of Array.from(keys).sort()) {
+    const before = numericOrNull(from[metric])
+    const after = numericOrNull(to[metric])
+    if (before === null && after === null) continue
+    if (before === after) continue
+    const delta = before !== null && after !== null ? Number((after - before).toFixed(2)) : null
+    changes.push({ metric, from: before, to: after, delta })
+  }
+
+  return changes
+}
+
+function diffSettings(from: AnalyticsSnapshot, to: AnalyticsSnapshot): SettingChange[] {
+  const settings: Array<keyof AnalyticsSnapshot> = ['lookback_years', 'case_fetch_limit', 'ai_model', 'code_version', 'data_source']
+  return settings
+    .filter((setting) => from[setting] !== to[setting])
+    .map((setting) => ({
+      setting,
+      from: (from[setting] as string | number | null) ?? null,
+      to: (to[setting] as string | number | null) ?? null
+    }))
+}
+
+function snapshotRef(snapshot: AnalyticsSnapshot): { id: string; version: number; created_at: string } {
+  return { id: snapshot.id, version: snapshot.version, created_at: snapshot.created_at }
+}
+
+/**
+ * Explain what moved between two snapshots: metric deltas, generator settings, and the input case set.
+ */
+export function diffAnalyticsSnapshots(from: AnalyticsSnapshot, to: AnalyticsSnapshot): AnalyticsSnapshotDiff {
+  const fromCases = new Set(from.input_case_ids ?? [])
+  const toCases = new Set(to.input_case_ids ?? [])
+
+  return {
+    from_snapshot: snapshotRef(from),
+    to_snapshot: snapshotRef(to),
+    same_inputs: from.input_fingerprint === to.input_fingerprint,
+    metric_changes: diffMetrics(from.analytics ?? {}, to.analytics ?? {}),
+    setting_changes: diffSettings(from, to),
+    cases_added: Array.from(toCases).filter((id) => !fromCases.has(id)),
+    cases_removed: Array.from(fromCases).filter((id) => !toCases.has(id))
+  }
+}
@@ -0,0 +1,107 @@
+/** Two-sided 95% critical value of the standard normal distribution. */
+export const Z_95 = 1.959964
+
+/**
+ * Standard normal CDF via the Abramowitz–Stegun 7.1.26 erf approximation (|error| < 1.5e-7).
+ */
+export function normalCdf(zScore: number): number {
+  const x = Math.abs(zScore) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-x * x)
+  return zScore >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+export function twoSidedPValue(zScore: number): number {
+  if (!Number.isFinite(zScore)) return 0
+  return Math.min(1, 2 * (1 - normalCdf(Math.abs(zScore))))
+}
+
+/**
+ * Variance of a sample proportion. Uses the Agresti–Coull adjusted rate so that
+ * 0% and 100% samples still carry uncertainty.
+ */
+export function proportionVariance(successes: number, total: number): number {
+  if (total <= 0) return 0
+  const adjusted = (successes + 1) / (total + 2)
+  return (adjusted * (1 - adjusted)) / total
+}
+
+export function round(value: number, digits = 1): number {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+const LANCZOS_COEFFICIENTS = [
+  76.18009172947146, -86.50532032941677, 24.01409824083091,
+  -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+]
+
+function logGamma(value: number): number {
+  let denominator = value
+  const base = value + 5.5
+  const tmp = base - (value + 0.5) * Math.log(base)
+  let series = 1.000000000190015
+  for (const coefficient of LANCZOS_COEFFICIENTS) {
+    denominator += 1
+    series += coefficient / denominator
+  }
+  return -tmp + Math.log((2.5066282746310005 * series) / value)
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz's method).
+ */
+function betaContinuedFraction(x: number, alpha: number, beta: number): number {
+  const tiny = 1e-30
+  let cTerm = 1
+  let dTerm = 1 - ((alpha + beta) * x) / (alpha + 1)
+  dTerm = 1 / (Math.abs(dTerm) < tiny ? tiny : dTerm)
+  let result = dTerm
+
+  for (let step = 1; step <= 200; step++) {
+    const doubleStep = 2 * step
+    for (const numerator of [
+      (step * (beta - step) * x) / ((alpha + doubleStep - 1) * (alpha + doubleStep)),
+      (-(alpha + step) * (alpha + beta + step) * x) / ((alpha + doubleStep) * (alpha + doubleStep + 1))
+    ]) {
+      dTerm = 1 + numerator * dTerm
+      dTerm = 1 / (Math.abs(dTerm) < tiny ? tiny : dTerm)
+      cTerm = 1 + numerator / cTerm
+      if (Math.abs(cTerm) < tiny) cTerm = tiny
+      result *= dTerm * cTerm
+    }
+    if (Math.abs(dTerm * cTerm - 1) < 3e-12) break
+  }
+  return result
+}
+
+/**
+ * Regularized incomplete beta I_x(alpha, beta), i.e. the Beta(alpha, beta) CDF at x.
+ */
+export function betaCdf(x: number, alpha: number, beta: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+  const front = Math.exp(
+    logGamma(alpha + beta) - logGamma(alpha) - logGamma(beta) + alpha * Math.log(x) + beta * Math.log(1 - x)
+  )
+  // Use the symmetry relation where the continued fraction converges fastest
+  if (x < (alpha + 1) / (alpha + beta + 2)) {
+    return (front * betaContinuedFraction(x, alpha, beta)) / alpha
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, beta, alpha)) / beta
+}
+
+/**
+ * Inverse Beta CDF by bisection; accurate to well under 0.01 percentage points.
+ */
+export function betaQuantile(probability: number, alpha: number, beta: number): number {
+  let low = 0
+  let high = 1
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const mid = (low + high) / 2
+    if (betaCdf(mid, alpha, beta) < probability) low = mid
+    else high = mid
+  }
+  return (low + high) / 2
+}
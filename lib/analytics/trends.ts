@@ -0,0 +1,230 @@
+import { classifyCase, getMetricClassifiers, type ClassifiableCase, type MetricKey } from '@/lib/analytics/classifiers'
+import { caseTypeStratum } from '@/lib/analytics/metric-baselines'
+import { round, twoSidedPValue } from '@/lib/analytics/statistics'
+
+export const DEFAULT_WINDOW_MONTHS = 6
+const MAX_CASE_TYPE_SERIES = 5
+const MIN_SERIES_METRIC_CASES = 10
+const MIN_WINDOW_CASES = 5
+const MIN_SEGMENT_CASES = 10
+const SIGNIFICANCE_LEVEL = 0.05
+
+export const ALL_CASE_TYPES = 'all'
+
+export interface TrendCase extends ClassifiableCase {
+  decision_date?: string | null
+  filing_date?: string | null
+}
+
+/** A dated event that could plausibly shift ruling patterns, e.g. a court reassignment. */
+export interface TrendEvent {
+  date: string
+  label: string
+}
+
+export interface TrendPoint {
+  month: string
+  cases: number
+  rates: Partial<Record<MetricKey, number | null>>
+  samples: Partial<Record<MetricKey, number>>
+}
+
+export interface TrendSeries {
+  case_type: string
+  total_cases: number
+  metrics: MetricKey[]
+  points: TrendPoint[]
+}
+
+export interface ChangePoint {
+  case_type: string
+  metric: MetricKey
+  month: string
+  kind: 'detected' | 'event'
+  event_label: string | null
+  before_rate: number
+  after_rate: number
+  delta: number
+  before_cases: number
+  after_cases: number
+  p_value: number
+}
+
+export interface TrendReport {
+  window_months: number
+  series: TrendSeries[]
+  change_points: ChangePoint[]
+  events: TrendEvent[]
+}
+
+interface Observation {
+  month: number
+  stratum: string
+  included: MetricKey[]
+  succeeded: MetricKey[]
+}
+
+interface SplitTest {
+  month: number
+  beforeRate: number
+  afterRate: number
+  beforeCases: number
+  afterCases: number
+  pValue: number
+}
+
+function toMonthIndex(value: string | null | undefined): number | null {
+  if (!value) return null
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+  return date.getUTCFullYear() * 12 + date.getUTCMonth()
+}
+
+function toMonthLabel(index: number): string {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`
+}
+
+function observe(cases: TrendCase[]): Observation[] {
+  const observations: Observation[] = []
+  for (const record of cases) {
+    const month = toMonthIndex(record.decision_date || record.filing_date)
+    if (month === null) continue
+    observations.push({ month, stratum: caseTypeStratum(record.case_type), ...classifyCase(record) })
+  }
+  return observations.sort((left, right) => left.month - right.month)
+}
+
+function seriesMetrics(observations: Observation[]): MetricKey[] {
+  return getMetricClassifiers()
+    .map((classifier) => classifier.key)
+    .filter((key) => observations.filter((obs) => obs.included.includes(key)).length >= MIN_SERIES_METRIC_CASES)
+}
+
+function rollingPoint(window: Observation[], month: number, metrics: MetricKey[]): TrendPoint {
+  const point: TrendPoint = { month: toMonthLabel(month), cases: window.length, rates: {}, samples: {} }
+  for (const key of metrics) {
+    const included = window.filter((obs) => obs.included.includes(key))
+    const successes = included.filter((obs) => obs.succeeded.includes(key)).length
+    point.samples[key] = included.length
+    point.rates[key] = included.length >= MIN_WINDOW_CASES ? round((successes / included.length) * 100) : null
+  }
+  return point
+}
+
+function buildSeries(caseType: string, observations: Observation[], windowMonths: number): TrendSeries {
+  const metrics = seriesMetrics(observations)
+  const points: TrendPoint[] = []
+  if (observations.length > 0) {
+    const first = observations[0].month
+    const last = observations[observations.length - 1].month
+    for (let month = first; month <= last; month++) {
+      const window = observations.filter((obs) => obs.month > month - windowMonths && obs.month <= month)
+      points.push(rollingPoint(window, month, metrics))
+    }
+  }
+  return { case_type: caseType, total_cases: observations.length, metrics, points }
+}
+
+/**
+ * Two-proportion z-test of the metric's success rate before and after `month`.
+ */
+function testSplit(outcomes: Array<{ month: number; success: boolean }>, month: number): SplitTest | null {
+  const before = outcomes.filter((item) => item.month < month)
+  const after = outcomes.filter((item) => item.month >= month)
+  if (before.length < MIN_SEGMENT_CASES || after.length < MIN_SEGMENT_CASES) return null
+
+  const beforeSuccesses = before.filter((item) => item.success).length
+  const afterSuccesses = after.filter((item) => item.success).length
+  const beforeRate = beforeSuccesses / before.length
+  const afterRate = afterSuccesses / after.length
+  const pooled = (beforeSuccesses + afterSuccesses) / outcomes.length
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / before.length + 1 / after.length))
+  const pValue = standardError > 0 ? twoSidedPValue((afterRate - beforeRate) / standardError) : 1
+
+  return { month, beforeRate, afterRate, beforeCases: before.length, afterCases: after.length, pValue }
+}
+
+function toChangePoint(
+  caseType: string,
+  metric: MetricKey,
+  split: SplitTest,
+  pValue: number,
+  event: TrendEvent | null
+): ChangePoint {
+  return {
+    case_type: caseType,
+    metric,
+    month: toMonthLabel(split.month),
+    kind: event ? 'event' : 'detected',
+    event_label: event?.label ?? null,
+    before_rate: round(split.beforeRate * 100),
+    after_rate: round(split.afterRate * 100),
+    delta: round((split.afterRate - split.beforeRate) * 100),
+    before_cases: split.beforeCases,
+    after_cases: split.afterCases,
+    p_value: round(pValue, 4)
+  }
+}
+
+/**
+ * Single most likely shift over all month boundaries (Bonferroni-adjusted for
+ * the number of boundaries scanned), plus a direct test at each known event.
+ */
+function detectChangePoints(
+  caseType: string,
+  metric: MetricKey,
+  observations: Observation[],
+  events: TrendEvent[]
+): ChangePoint[] {
+  const outcomes = observations
+    .filter((obs) => obs.included.includes(metric))
+    .map((obs) => ({ month: obs.month, success: obs.succeeded.includes(metric) }))
+
+  const candidates = Array.from(new Set(outcomes.map((item) => item.month)))
+    .map((month) => testSplit(outcomes, month))
+    .filter((split): split is SplitTest => split !== null)
+
+  const found: ChangePoint[] = []
+  const best = candidates.reduce<SplitTest | null>((acc, split) => (!acc || split.pValue < acc.pValue ? split : acc), null)
+  if (best) {
+    const adjusted = Math.min(1, best.pValue * candidates.length)
+    if (adjusted < SIGNIFICANCE_LEVEL) found.push(toChangePoint(caseType, metric, best, adjusted, null))
+  }
+
+  for (const event of events) {
+    const month = toMonthIndex(event.date)
+    const split = month === null ? null : testSplit(outcomes, month)
+    if (split && split.pValue < SIGNIFICANCE_LEVEL) found.push(toChangePoint(caseType, metric, split, split.pValue, event))
+  }
+  return found
+}
+
+/**
+ * Rolling-window metrics for the judge's whole docket and busiest case types,
+ * with statistically meaningful shifts in each metric.
+ */
+export function analyzeTrends(
+  cases: TrendCase[],
+  events: TrendEvent[] = [],
+  windowMonths = DEFAULT_WINDOW_MONTHS
+): TrendReport {
+  const observations = observe(cases)
+  const byStratum = new Map<string, Observation[]>()
+  for (const obs of observations) {
+    const group = byStratum.get(obs.stratum)
+    if (group) group.push(obs)
+    else byStratum.set(obs.stratum, [obs])
+  }
+
+  const groups: Array<[string, Observation[]]> = [
+    [ALL_CASE_TYPES, observations],
+    ...Array.from(byStratum.entries()).sort((left, right) => right[1].length - left[1].length).slice(0, MAX_CASE_TYPE_SERIES)
+  ]
+
+  const series = groups.map(([caseType, group]) => buildSeries(caseType, group, windowMonths))
+  const changePoints = series.flatMap((entry, index) =>
+    entry.metrics.flatMap((metric) => detectChangePoints(entry.case_type, metric, groups[index][1], events))
+  )
+
+  return { window_months: windowMonths, series, change_points: changePoints, events }
+}
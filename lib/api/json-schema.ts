@@ -0,0 +1,152 @@
+import { z } from 'zod'
+
+/** The subset of the OpenAPI 3.0 Schema Object the generator emits. */
+export interface OpenApiSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'
+  format?: string
+  pattern?: string
+  enum?: Array<string | number | boolean | null>
+  nullable?: boolean
+  description?: string
+  default?: unknown
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: boolean
+  exclusiveMaximum?: boolean
+  minLength?: number
+  maxLength?: number
+  minItems?: number
+  maxItems?: number
+  items?: OpenApiSchema
+  properties?: Record<string, OpenApiSchema>
+  required?: string[]
+  additionalProperties?: boolean | OpenApiSchema
+  oneOf?: OpenApiSchema[]
+}
+
+const STRING_FORMATS: Record<string, string> = {
+  uuid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  email: 'email',
+  url: 'uri'
+}
+
+type Def = { typeName: z.ZodFirstPartyTypeKind; description?: string } & Record<string, any>
+
+function stringSchema(def: Def): OpenApiSchema {
+  const schema: OpenApiSchema = { type: 'string' }
+  for (const check of def.checks as Array<{ kind: string; value?: number; regex?: RegExp }>) {
+    if (STRING_FORMATS[check.kind]) schema.format = STRING_FORMATS[check.kind]
+    else if (check.kind === 'min') schema.minLength = check.value
+    else if (check.kind === 'max') schema.maxLength = check.value
+    else if (check.kind === 'length') schema.minLength = schema.maxLength = check.value
+    else if (check.kind === 'regex' && check.regex) schema.pattern = check.regex.source
+  }
+  return schema
+}
+
+function numberSchema(def: Def): OpenApiSchema {
+  const schema: OpenApiSchema = { type: 'number' }
+  for (const check of def.checks as Array<{ kind: string; value?: number; inclusive?: boolean }>) {
+    if (check.kind === 'int') schema.type = 'integer'
+    else if (check.kind === 'min') {
+      schema.minimum = check.value
+      if (!check.inclusive) schema.exclusiveMinimum = true
+    } else if (check.kind === 'max') {
+      schema.maximum = check.value
+      if (!check.inclusive) schema.exclusiveMaximum = true
+    }
+  }
+  return schema
+}
+
+function objectSchema(def: Def): OpenApiSchema {
+  const shape = def.shape() as Record<string, z.ZodTypeAny>
+  const properties: Record<string, OpenApiSchema> = {}
+  const required: string[] = []
+  for (const [key, field] of Object.entries(shape)) {
+    properties[key] = zodToOpenApi(field)
+    if (!field.isOptional()) required.push(key)
+  }
+  const schema: OpenApiSchema = { type: 'object', properties }
+  if (required.length > 0) schema.required = required
+  if (def.unknownKeys === 'passthrough') schema.additionalProperties = true
+  else if (!(def.catchall instanceof z.ZodNever)) schema.additionalProperties = zodToOpenApi(def.catchall)
+  return schema
+}
+
+function tupleSchema(def: Def): OpenApiSchema {
+  const items = (def.items as z.ZodTypeAny[]).map(zodToOpenApi)
+  const distinct = Array.from(new Set(items.map((item) => JSON.stringify(item))))
+  return {
+    type: 'array',
+    items: distinct.length === 1 ? items[0] : { oneOf: items },
+    minItems: items.length,
+    maxItems: items.length
+  }
+}
+
+function unionSchema(def: Def): OpenApiSchema {
+  const options = (def.options as z.ZodTypeAny[]).map(zodToOpenApi)
+  const literals = options.every((option) => option.enum && option.type === options[0].type)
+  if (literals) return { type: options[0].type, enum: options.flatMap((option) => option.enum ?? []) }
+  return { oneOf: options }
+}
+
+function literalSchema(def: Def): OpenApiSchema {
+  const value = def.value as string | number | boolean | null
+  if (value === null) return { nullable: true, enum: [null] }
+  const type = typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : 'string'
+  return { type, enum: [value] }
+}
+
+function withNull(schema: OpenApiSchema): OpenApiSchema {
+  if (schema.enum && !schema.enum.includes(null)) return { ...schema, nullable: true, enum: [...schema.enum, null] }
+  return { ...schema, nullable: true }
+}
+
+function arraySchema(def: Def): OpenApiSchema {
+  const schema: OpenApiSchema = { type: 'array', items: zodToOpenApi(def.type) }
+  if (def.minLength) schema.minItems = def.minLength.value
+  if (def.maxLength) schema.maxItems = def.maxLength.value
+  return schema
+}
+
+const inner = (def: Def): OpenApiSchema => zodToOpenApi(def.innerType)
+
+const CONVERTERS: Partial<Record<z.ZodFirstPartyTypeKind, (def: Def) => OpenApiSchema>> = {
+  ZodString: stringSchema,
+  ZodNumber: numberSchema,
+  ZodBoolean: () => ({ type: 'boolean' }),
+  ZodObject: objectSchema,
+  ZodArray: arraySchema,
+  ZodTuple: tupleSchema,
+  ZodRecord: (def) => ({ type: 'object', additionalProperties: zodToOpenApi(def.valueType) }),
+  ZodEnum: (def) => ({ type: 'string', enum: [...def.values] }),
+  ZodLiteral: literalSchema,
+  ZodUnion: unionSchema,
+  ZodNullable: (def) => withNull(inner(def)),
+  ZodOptional: inner,
+  ZodReadonly: inner,
+  ZodCatch: inner,
+  ZodDefault: (def) => ({ ...inner(def), default: def.defaultValue() }),
+  ZodEffects: (def) => zodToOpenApi(def.schema),
+  // Query strings are documented as sent, before any transform
+  ZodPipeline: (def) => zodToOpenApi(def.in),
+  ZodUnknown: () => ({}),
+  ZodAny: () => ({})
+}
+
+/**
+ * Converts a zod schema into an OpenAPI 3.0 schema. Effects (refinements,
+ * transforms, preprocessors) document their input type; `.describe()` text
+ * becomes the description.
+ */
+export function zodToOpenApi(schema: z.ZodTypeAny): OpenApiSchema {
+  const def = schema._def as Def
+  const converter = CONVERTERS[def.typeName]
+  if (!converter) throw new Error(`No OpenAPI mapping for ${def.typeName}`)
+  const converted = converter(def)
+  return def.description ? { ...converted, description: def.description } : converted
+}
@@ -0,0 +1,426 @@
+import { z } from 'zod'
+import type { ApiKeyScope } from '@/lib/security/api-keys'
+import { zodToOpenApi, type OpenApiSchema } from '@/lib/api/json-schema'
+import {
+  errorResponseSchema,
+  v1AnalyticsHistoryQuerySchema,
+  v1AnalyticsHistorySchema,
+  v1ChangesQuerySchema,
+  v1ChangesSchema,
+  v1CompareQuerySchema,
+  v1CompareSchema,
+  v1ExportJobPathSchema,
+  v1ExportJobRequestSchema,
+  v1ExportJobSchema,
+  v1ExportPathSchema,
+  v1ExportQuerySchema,
+  v1GraphQLRequestSchema,
+  v1GraphQLResponseSchema,
+  v1JudgeAliasesSchema,
+  v1JudgeExportQuerySchema,
+  v1JudgeExportSchema,
+  v1JudgePathSchema,
+  v1JudgeProfileSchema,
+  v1JudgeSearchQuerySchema,
+  v1JudgeSearchSchema,
+  v1MotionsQuerySchema,
+  v1MotionsSchema,
+  v1TimeToRulingQuerySchema,
+  v1TimeToRulingSchema
+} from '@/lib/api/v1-schemas'
+import { caseStatsSchema, courtStatsSchema, judgeStatsSchema } from '@/lib/api/stats-schemas'
+
+export const OPENAPI_VERSION = '0.4.0'
+
+type ErrorStatus = 400 | 401 | 403 | 404 | 409 | 429 | 500
+
+type DownloadType = 'text/csv' | 'application/pdf' | 'application/x-ndjson' | 'application/vnd.apache.parquet'
+
+const BINARY_DOWNLOADS: DownloadType[] = ['application/pdf', 'application/vnd.apache.parquet']
+
+const EXPORT_DOWNLOADS: DownloadType[] = ['text/csv', 'application/x-ndjson', 'application/vnd.apache.parquet']
+
+export interface ApiOperation {
+  /** OpenAPI path template, e.g. `/api/v1/judges/{id}`. */
+  path: string
+  /** Defaults to `get`. */
+  method?: 'get' | 'post'
+  summary: string
+  tag: 'v1' | 'stats'
+  /** Customer key scope; set for every `/api/v1` route. */
+  scope?: ApiKeyScope
+  params?: z.ZodTypeAny
+  query?: z.ZodTypeAny
+  /** JSON request body, published under `components.schemas` like responses. */
+  body?: { name: string; schema: z.ZodTypeAny }
+  /** Defaults to 200. */
+  status?: 200 | 202
+  /** Named so the body is published once under `components.schemas`; omitted for download-only routes. */
+  response?: { name: string; schema: z.ZodTypeAny }
+  /** Non-JSON bodies selected with `format`. */
+  downloads?: DownloadType[]
+  /** Success headers beyond the rate-limit ones. */
+  headers?: Array<'X-Next-Cursor' | 'Location'>
+  errors: ErrorStatus[]
+}
+
+const V1_ERRORS: ErrorStatus[] = [401, 403, 429, 500]
+
+/** Every documented route. Adding a route here is what publishes it. */
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    path: '/api/stats/judges',
+    summary: 'Judges coverage and freshness',
+    tag: 'stats',
+    response: { name: 'JudgeStats', schema: judgeStatsSchema },
+    errors: [429]
+  },
+  {
+    path: '/api/stats/courts',
+    summary: 'Courts coverage and breakdown',
+    tag: 'stats',
+    response: { name: 'CourtStats', schema: courtStatsSchema },
+    errors: [429]
+  },
+  {
+    path: '/api/stats/cases',
+    summary: 'Cases count and freshness',
+    tag: 'stats',
+    response: { name: 'CaseStats', schema: caseStatsSchema },
+    errors: [429]
+  },
+  {
+    path: '/api/v1/judges/{id}',
+    summary: 'Canonical judge profile',
+    tag: 'v1',
+    scope: 'judges:read',
+    params: v1JudgePathSchema,
+    response: { name: 'JudgeProfile', schema: v1JudgeProfileSchema },
+    errors: [400, 404, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/judges/search',
+    summary: 'Fuzzy search with canonical IDs',
+    tag: 'v1',
+    scope: 'judges:read',
+    query: v1JudgeSearchQuerySchema,
+    response: { name: 'JudgeSearch', schema: v1JudgeSearchSchema },
+    errors: [400, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/judges/export',
+    summary: 'Bulk judges export (CSV default)',
+    tag: 'v1',
+    scope: 'export',
+    query: v1JudgeExportQuerySchema,
+    response: { name: 'JudgeExport', schema: v1JudgeExportSchema },
+    downloads: ['text/csv'],
+    errors: [400, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/judges/{id}/aliases',
+    summary: 'Aliases and position history',
+    tag: 'v1',
+    scope: 'judges:read',
+    params: v1JudgePathSchema,
+    response: { name: 'JudgeAliases', schema: v1JudgeAliasesSchema },
+    errors: [400, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/judges/{id}/analytics/motions',
+    summary: 'Motion grant/deny analytics',
+    tag: 'v1',
+    scope: 'analytics:read',
+    params: v1JudgePathSchema,
+    query: v1MotionsQuerySchema,
+    response: { name: 'JudgeMotions', schema: v1MotionsSchema },
+    downloads: ['text/csv'],
+    errors: [400, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/judges/{id}/analytics/history',
+    summary: 'Analytics snapshot timeline and diff',
+    tag: 'v1',
+    scope: 'analytics:read',
+    params: v1JudgePathSchema,
+    query: v1AnalyticsHistoryQuerySchema,
+    response: { name: 'AnalyticsHistory', schema: v1AnalyticsHistorySchema },
+    errors: [400, 404, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/analytics/time_to_ruling',
+    summary: 'Time-to-ruling forecasts',
+    tag: 'v1',
+    scope: 'analytics:read',
+    query: v1TimeToRulingQuerySchema,
+    response: { name: 'TimeToRuling', schema: v1TimeToRulingSchema },
+    downloads: ['text/csv'],
+    errors: [400, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/compare',
+    summary: 'Case-mix adjusted comparison of 2–5 judges',
+    tag: 'v1',
+    scope: 'analytics:read',
+    query: v1CompareQuerySchema,
+    response: { name: 'JudgeComparison', schema: v1CompareSchema },
+    downloads: ['text/csv', 'application/pdf'],
+    errors: [400, 404, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/changes',
+    summary: 'Change feed of judges, courts and cases',
+    tag: 'v1',
+    scope: 'judges:read',
+    query: v1ChangesQuerySchema,
+    response: { name: 'ChangeFeed', schema: v1ChangesSchema },
+    errors: [400, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/export/{dataset}',
+    summary: 'Stream a dataset as CSV, NDJSON or Parquet, paged by keyset cursor',
+    tag: 'v1',
+    scope: 'export',
+    params: v1ExportPathSchema,
+    query: v1ExportQuerySchema,
+    downloads: EXPORT_DOWNLOADS,
+    headers: ['X-Next-Cursor'],
+    errors: [400, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/export/jobs',
+    method: 'post',
+    summary: 'Start an asynchronous export of a whole dataset',
+    tag: 'v1',
+    scope: 'export',
+    body: { name: 'ExportJobRequest', schema: v1ExportJobRequestSchema },
+    status: 202,
+    response: { name: 'ExportJob', schema: v1ExportJobSchema },
+    headers: ['Location'],
+    errors: [400, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/export/jobs/{id}',
+    summary: 'Export job status',
+    tag: 'v1',
+    scope: 'export',
+    params: v1ExportJobPathSchema,
+    response: { name: 'ExportJob', schema: v1ExportJobSchema },
+    errors: [400, 404, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/export/jobs/{id}/download',
+    summary: 'Download a completed export',
+    tag: 'v1',
+    scope: 'export',
+    params: v1ExportJobPathSchema,
+    downloads: EXPORT_DOWNLOADS,
+    errors: [400, 404, 409, ...V1_ERRORS]
+  },
+  {
+    path: '/api/v1/graphql',
+    method: 'post',
+    summary: 'Read-only GraphQL over judges, courts, cases and analytics; costlier queries use more of the rate limit',
+    tag: 'v1',
+    scope: 'judges:read',
+    body: { name: 'GraphQLRequest', schema: v1GraphQLRequestSchema },
+    response: { name: 'GraphQLResponse', schema: v1GraphQLResponseSchema },
+    errors: [400, ...V1_ERRORS]
+  }
+]
+
+const ERROR_RESPONSES: Record<ErrorStatus, { name: string; description: string }> = {
+  400: { name: 'BadRequest', description: 'Invalid parameters; `details` lists each one. GraphQL reports invalid, too deep or too costly queries in `errors`' },
+  401: { name: 'Unauthorized', description: 'Missing, unknown, revoked or expired API key' },
+  403: { name: 'Forbidden', description: 'The API key lacks the scope this endpoint requires, the endpoint needs a customer key, or a GraphQL query selects fields the key has no scope for' },
+  404: { name: 'NotFound', description: 'Judge, snapshot or export not found' },
+  409: { name: 'Conflict', description: 'The export has not completed or has expired' },
+  429: { name: 'TooManyRequests', description: 'Per-minute rate limit or monthly quota exceeded' },
+  500: { name: 'InternalError', description: 'Unexpected server error' }
+}
+
+const RATE_LIMIT_HEADERS = {
+  'RateLimit-Remaining': { $ref: '#/components/headers/RateLimit-Remaining' },
+  'RateLimit-Reset': { $ref: '#/components/headers/RateLimit-Reset' }
+}
+
+function successHeaders(operation: ApiOperation) {
+  if (operation.tag !== 'v1') return {}
+  const headers: Record<string, { $ref: string }> = { ...RATE_LIMIT_HEADERS }
+  for (const name of operation.headers ?? []) headers[name] = { $ref: `#/components/headers/${name}` }
+  return { headers }
+}
+
+const COMPONENT_HEADERS = {
+  'RateLimit-Remaining': {
+    description: 'Requests left in the current one-minute window',
+    schema: { type: 'integer' }
+  },
+  'RateLimit-Reset': {
+    description: 'When the window resets, in Unix epoch milliseconds',
+    schema: { type: 'integer' }
+  },
+  'X-Quota-Limit': {
+    description: "The key's monthly request quota (quota errors only)",
+    schema: { type: 'integer' }
+  },
+  'X-Quota-Used': {
+    description: 'Requests counted this calendar month, UTC (quota errors only)',
+    schema: { type: 'integer' }
+  },
+  'X-Next-Cursor': {
+    description: 'Pass as cursor to fetch the next page; absent on the last page',
+    schema: { type: 'string' }
+  },
+  Location: {
+    description: 'Where to poll for the created resource',
+    schema: { type: 'string' }
+  }
+}
+
+/** Strips wrappers that only exist for validation so the shape's fields are reachable. */
+function objectShape(schema: z.ZodTypeAny): Record<string, z.ZodTypeAny> {
+  let current = schema
+  while (current instanceof z.ZodEffects) current = current.innerType()
+  if (!(current instanceof z.ZodObject)) throw new Error('Parameter schemas must be zod objects')
+  return current.shape
+}
+
+function parameters(schema: z.ZodTypeAny | undefined, location: 'path' | 'query') {
+  if (!schema) return []
+  return Object.entries(objectShape(schema)).map(([name, field]) => {
+    const { description, ...converted } = zodToOpenApi(field)
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !field.isOptional(),
+      ...(description ? { description } : {}),
+      schema: converted
+    }
+  })
+}
+
+function operationObject(operation: ApiOperation) {
+  const content: Record<string, { schema: OpenApiSchema | { $ref: string } }> = {}
+  if (operation.response) {
+    content['application/json'] = { schema: { $ref: `#/components/schemas/${operation.response.name}` } }
+  }
+  for (const mediaType of operation.downloads ?? []) {
+    content[mediaType] = { schema: BINARY_DOWNLOADS.includes(mediaType) ? { type: 'string', format: 'binary' } : { type: 'string' } }
+  }
+
+  const status = operation.status ?? 200
+  const responses: Record<string, unknown> = {
+    [String(status)]: {
+      description: status === 202 ? 'Accepted' : 'OK',
+      ...successHeaders(operation),
+      content
+    }
+  }
+  for (const status of operation.errors) {
+    responses[String(status)] = { $ref: `#/components/responses/${ERROR_RESPONSES[status].name}` }
+  }
+
+  return {
+    summary: operation.summary,
+    operationId: operationId(operation.path, operation.method ?? 'get'),
+    tags: [operation.tag],
+    ...(operation.scope
+      ? {
+          description: `Customer keys need the \`${operation.scope}\` scope.`,
+          'x-required-scope': operation.scope
+        }
+      : { security: [] }),
+    parameters: [...parameters(operation.params, 'path'), ...parameters(operation.query, 'query')],
+    ...(operation.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: `#/components/schemas/${operation.body.name}` } } }
+          }
+        }
+      : {}),
+    responses
+  }
+}
+
+function operationId(path: string, method: 'get' | 'post'): string {
+  const id = path
+    .replace(/^\/api\//, '')
+    .split(/[/_]/)
+    .filter(Boolean)
+    .map((part, index) => {
+      const word = part.replace(/[{}]/g, '')
+      const cased = part.startsWith('{') ? `By${word[0].toUpperCase()}${word.slice(1)}` : word
+      return index === 0 ? cased : cased[0].toUpperCase() + cased.slice(1)
+    })
+    .join('')
+  return method === 'get' ? id : `${id}${method[0].toUpperCase()}${method.slice(1)}`
+}
+
+function components(operations: ApiOperation[]) {
+  const schemas: Record<string, OpenApiSchema> = { Error: zodToOpenApi(errorResponseSchema) }
+  for (const operation of operations) {
+    for (const named of [operation.body, operation.response]) {
+      if (named) schemas[named.name] = zodToOpenApi(named.schema)
+    }
+  }
+
+  const errorContent = { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+  const responses: Record<string, unknown> = {}
+  for (const [status, { name, description }] of Object.entries(ERROR_RESPONSES)) {
+    responses[name] = {
+      description,
+      ...(status === '429'
+        ? {
+            headers: {
+              ...RATE_LIMIT_HEADERS,
+              'X-Quota-Limit': { $ref: '#/components/headers/X-Quota-Limit' },
+              'X-Quota-Used': { $ref: '#/components/headers/X-Quota-Used' }
+            }
+          }
+        : {}),
+      content: errorContent
+    }
+  }
+
+  return {
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+      apiKeyQuery: { type: 'apiKey', in: 'query', name: 'key' }
+    },
+    headers: COMPONENT_HEADERS,
+    responses,
+    schemas
+  }
+}
+
+/**
+ * Builds the OpenAPI 3.0 document served at `/api/openapi` from the same zod
+ * schemas the handlers validate with.
+ */
+export function buildOpenApiSpec(operations: ApiOperation[] = API_OPERATIONS) {
+  const paths: Record<string, Partial<Record<'get' | 'post', ReturnType<typeof operationObject>>>> = {}
+  for (const operation of operations) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method ?? 'get']: operationObject(operation) }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'JudgeFinder API',
+      version: OPENAPI_VERSION,
+      description:
+        'Public endpoints for coverage, freshness, and v1 analytics. v1 takes an API key in x-api-key (or ?key=); production requires one unless disabled. Customer keys are scoped, rate limited per minute and metered against a monthly quota.'
+    },
+    servers: [{ url: '/' }],
+    // An empty requirement keeps v1 callable without a key where that is allowed
+    security: [{ apiKey: [] }, { apiKeyQuery: [] }, {}],
+    tags: [
+      { name: 'v1', description: 'Versioned judge data and analytics' },
+      { name: 'stats', description: 'Public coverage statistics' }
+    ],
+    paths,
+    components: components(operations)
+  }
+}
@@ -0,0 +1,47 @@
+import { z } from 'zod'
+
+/*
+ * Response bodies of the public `/api/stats` routes. On a failed lookup they
+ * still answer 200 with null counts and an `error` message.
+ */
+
+const statsErrorSchema = z.string().optional().describe('Set when the stats could not be loaded')
+const rateLimitRemainingSchema = z.number().int().optional().describe('Requests left in the current minute')
+
+export const judgeStatsSchema = z.object({
+  totalJudges: z.number().int().nullable(),
+  judgesWithAnalytics: z.number().int().nullable(),
+  analyticsCoverage: z.string().describe('Percentage, or an em dash when unknown'),
+  avgExperience: z.number().int().nullable(),
+  avgExperienceDisplay: z.string(),
+  updateFrequency: z.string(),
+  lastUpdate: z.string().nullable(),
+  daysSinceUpdate: z.number().int().nullable(),
+  timestamp: z.string(),
+  rate_limit_remaining: rateLimitRemainingSchema,
+  error: statsErrorSchema
+})
+
+export const courtStatsSchema = z.object({
+  totalCourts: z.number().int().nullable(),
+  courtTypes: z.object({
+    state: z.number().int(),
+    local: z.number().int(),
+    federal: z.number().int(),
+    other: z.number().int()
+  }),
+  courtTypeDisplay: z.string(),
+  countiesCovered: z.number().int().nullable(),
+  countiesDisplay: z.string(),
+  avgJudgesPerCourt: z.number().int().nullable(),
+  timestamp: z.string().optional(),
+  rate_limit_remaining: rateLimitRemainingSchema,
+  error: statsErrorSchema
+})
+
+export const caseStatsSchema = z.object({
+  totalCases: z.number().int().nullable(),
+  lastUpdate: z.string(),
+  rate_limit_remaining: rateLimitRemainingSchema,
+  error: statsErrorSchema
+})
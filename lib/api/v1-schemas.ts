@@ -0,0 +1,506 @@
+import { z } from 'zod'
+import type { QualityTier } from '@/lib/analytics/config'
+import { MAX_COMPARED_JUDGES, MIN_COMPARED_JUDGES } from '@/lib/analytics/comparison'
+import { DEFAULT_SNAPSHOT_LIMIT, MAX_SNAPSHOT_LIMIT } from '@/lib/analytics/snapshots'
+import {
+  CHANGE_ENTITY_TYPES,
+  DEFAULT_CHANGE_LIMIT,
+  MAX_CHANGE_LIMIT,
+  decodeChangeCursor,
+  parseChangeEntityTypes
+} from '@/lib/changes/service'
+import { EXPORT_DATASETS } from '@/lib/export/datasets'
+import { EXPORT_FORMATS } from '@/lib/export/formats'
+import { DEFAULT_EXPORT_LIMIT, MAX_EXPORT_LIMIT } from '@/lib/export/service'
+
+/*
+ * Request and response schemas for `/api/v1`. The route handlers validate
+ * their path and query parameters against these and type their payloads from
+ * them; `lib/api/openapi.ts` turns the same schemas into the published spec.
+ */
+
+// Shared pieces
+
+const judgeIdSchema = z.string().uuid('Invalid judge ID format')
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+const timestampSchema = z.string().describe('ISO 8601 timestamp')
+const qualitySchema = z.enum(['low', 'good', 'high']).describe('Sample quality tier')
+
+export type V1Quality = z.infer<typeof qualitySchema>
+
+export function qualityLabel(tier: QualityTier): V1Quality {
+  return tier.toLowerCase() as V1Quality
+}
+
+function intParam(min: number, max: number, fallback: number) {
+  return z.coerce.number().int().min(min).max(max).default(fallback)
+}
+
+function formatParam<T extends [string, ...string[]]>(values: T, fallback: T[number]) {
+  return z.preprocess(
+    (value) => (typeof value === 'string' ? value.toLowerCase() : value),
+    z.enum(values).default(fallback as z.util.noUndefined<T[number]>)
+  )
+}
+
+const booleanParam = z
+  .enum(['true', 'false'])
+  .optional()
+  .transform((value) => value === 'true')
+
+export const v1JudgePathSchema = z.object({
+  id: judgeIdSchema.describe('Judge ID')
+})
+
+export const errorResponseSchema = z
+  .object({
+    error: z.string(),
+    code: z.string().optional().describe('Machine-readable code, e.g. VALIDATION_ERROR'),
+    details: z
+      .array(z.object({ field: z.string(), message: z.string(), code: z.string() }))
+      .optional()
+      .describe('One entry per invalid parameter')
+  })
+  .passthrough()
+
+// GET /api/v1/judges/{id}
+
+const profileMetricSchema = z.object({
+  value: z.number().nullable().describe('Null when hidden for a small sample'),
+  sample_size: z.number().int().nullable(),
+  confidence: z.number().nullable(),
+  hidden: z.boolean(),
+  quality: qualitySchema
+})
+
+export const v1JudgeProfileSchema = z.object({
+  judge_id: z.string().uuid(),
+  full_name: z.string(),
+  court_id: z.string().nullable(),
+  court_name: z.string().nullable(),
+  jurisdiction: z.string().nullable(),
+  role: z.string(),
+  position: z
+    .object({
+      court_id: z.string().nullable(),
+      court_name: z.string().nullable(),
+      start_date: z.string().nullable(),
+      department: z.string().nullable(),
+      assignment_type: z.string()
+    })
+    .nullable(),
+  identifiers: z.object({
+    slug: z.string().nullable(),
+    courtlistener_id: z.string().nullable()
+  }),
+  sources: z.array(z.object({ name: z.string(), url: z.string().optional(), type: z.string().optional() })),
+  last_updated: timestampSchema.nullable(),
+  analytics: z
+    .object({
+      overall_confidence: z.number().nullable(),
+      total_cases_analyzed: z.number().int().nullable(),
+      min_sample_size: z.number().int(),
+      quality: qualitySchema,
+      generated_at: timestampSchema.nullable(),
+      metrics: z.object({
+        civil_plaintiff_favor: profileMetricSchema,
+        criminal_sentencing_severity: profileMetricSchema,
+        criminal_plea_acceptance: profileMetricSchema
+      })
+    })
+    .nullable()
+})
+
+export type V1JudgeProfile = z.infer<typeof v1JudgeProfileSchema>
+
+// GET /api/v1/judges/search
+
+export const v1JudgeSearchQuerySchema = z.object({
+  q: z.string().trim().max(100).default('').describe('Name to search for'),
+  court: z.string().max(200).optional().describe('Exact court name'),
+  alias: z.string().max(100).optional().describe('Alternate name that boosts matching judges'),
+  limit: intParam(1, 20, 10)
+})
+
+export const v1JudgeSearchSchema = z.object({
+  results: z.array(
+    z.object({
+      judge_id: z.string().uuid(),
+      full_name: z.string(),
+      court_id: z.string().nullable(),
+      court_name: z.string().nullable(),
+      canonical_id: z.string().uuid(),
+      confidence: z.number().min(0).max(1),
+      analytics: z
+        .object({
+          civil_plaintiff_favor: z.number().nullable(),
+          sample_size_civil: z.number().int().nullable(),
+          confidence_civil: z.number().nullable(),
+          overall_confidence: z.number().nullable(),
+          total_cases_analyzed: z.number().int().nullable(),
+          quality: qualitySchema,
+          hidden: z.boolean(),
+          generated_at: timestampSchema.nullable(),
+          min_sample_size: z.number().int()
+        })
+        .nullable()
+    })
+  ),
+  total: z.number().int()
+})
+
+export type V1JudgeSearch = z.infer<typeof v1JudgeSearchSchema>
+
+// GET /api/v1/judges/export
+
+export const v1JudgeExportQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: intParam(1, 1000, 500),
+  format: formatParam(['csv', 'json'], 'csv')
+})
+
+export const v1JudgeExportSchema = z.object({
+  judges: z.array(
+    z.object({
+      id: z.string().uuid(),
+      name: z.string(),
+      slug: z.string().nullable(),
+      court_id: z.string().nullable(),
+      court_name: z.string().nullable(),
+      jurisdiction: z.string().nullable(),
+      courtlistener_id: z.string().nullable(),
+      updated_at: timestampSchema.nullable()
+    })
+  ),
+  page: z.number().int(),
+  per_page: z.number().int()
+})
+
+export type V1JudgeExport = z.infer<typeof v1JudgeExportSchema>
+
+// GET /api/v1/judges/{id}/aliases
+
+export const v1JudgeAliasesSchema = z.object({
+  aliases: z.array(z.string()).describe('Current name first, then merged and CourtListener aliases'),
+  positions: z.array(
+    z.object({
+      court_id: z.string().nullable(),
+      court_name: z.string().nullable(),
+      role: z.string().nullable(),
+      start_end: z.tuple([z.string().nullable(), z.string().nullable()])
+    })
+  ),
+  sources: z.array(z.string()),
+  last_updated: timestampSchema
+})
+
+export type V1JudgeAliases = z.infer<typeof v1JudgeAliasesSchema>
+
+// GET /api/v1/judges/{id}/analytics/motions
+
+export const v1MotionsQuerySchema = z.object({
+  type: z.string().max(100).optional().describe('Count every motion under this type instead of classifying subtypes'),
+  case_type: z.string().max(100).optional(),
+  since: isoDateSchema.optional().describe('Earliest filing date'),
+  format: formatParam(['json', 'csv'], 'json')
+})
+
+export const v1MotionsSchema = z.object({
+  motions: z.array(
+    z.object({
+      motion_type: z.string(),
+      grant_rate: z.number().describe('Percent granted'),
+      n: z.number().int(),
+      ci80: z.tuple([z.number(), z.number()]).describe('80% Wilson interval, in percent'),
+      denominator_note: z.string()
+    })
+  ),
+  last_updated: timestampSchema
+})
+
+export type V1Motions = z.infer<typeof v1MotionsSchema>
+
+// GET /api/v1/judges/{id}/analytics/history
+
+export const v1AnalyticsHistoryQuerySchema = z
+  .object({
+    limit: intParam(1, MAX_SNAPSHOT_LIMIT, DEFAULT_SNAPSHOT_LIMIT),
+    from: z.string().uuid().optional().describe('Snapshot ID to diff from (requires to)'),
+    to: z.string().uuid().optional().describe('Snapshot ID to diff to (requires from)'),
+    include_analytics: booleanParam.describe('true to include the full analytics payload per snapshot')
+  })
+  .refine((query) => Boolean(query.from) === Boolean(query.to), {
+    message: 'from and to must be provided together',
+    path: ['from']
+  })
+
+const snapshotRefSchema = z.object({ id: z.string().uuid(), version: z.number().int(), created_at: timestampSchema })
+const settingValueSchema = z.union([z.string(), z.number()]).nullable()
+
+export const v1AnalyticsHistorySchema = z.object({
+  judge_id: z.string().uuid(),
+  snapshots: z.array(
+    z.object({
+      snapshot_id: z.string().uuid(),
+      version: z.number().int(),
+      created_at: timestampSchema,
+      ai_model: z.string().nullable(),
+      code_version: z.string(),
+      data_source: z.string().nullable(),
+      settings: z.object({ lookback_years: z.number().int(), case_fetch_limit: z.number().int() }),
+      input_case_count: z.number().int(),
+      input_fingerprint: z.string(),
+      metrics: z.record(z.number().nullable()),
+      analytics: z.record(z.unknown()).optional().describe('Present with include_analytics=true')
+    })
+  ),
+  diff: z
+    .object({
+      from_snapshot: snapshotRefSchema,
+      to_snapshot: snapshotRefSchema,
+      same_inputs: z.boolean(),
+      metric_changes: z.array(
+        z.object({ metric: z.string(), from: z.number().nullable(), to: z.number().nullable(), delta: z.number().nullable() })
+      ),
+      setting_changes: z.array(z.object({ setting: z.string(), from: settingValueSchema, to: settingValueSchema })),
+      cases_added: z.array(z.string()),
+      cases_removed: z.array(z.string())
+    })
+    .nullable(),
+  last_updated: timestampSchema.nullable()
+})
+
+export type V1AnalyticsHistory = z.infer<typeof v1AnalyticsHistorySchema>
+
+// GET /api/v1/analytics/time_to_ruling
+
+export const v1TimeToRulingQuerySchema = z.object({
+  judge_id: z.string({ required_error: 'judge_id is required' }).uuid('Invalid judge ID format'),
+  motion: z.string().max(100).optional().describe('Only cases whose outcome or summary mentions this motion'),
+  case_type: z.string().max(100).optional(),
+  format: formatParam(['json', 'csv'], 'json')
+})
+
+export const v1TimeToRulingSchema = z.object({
+  judge_id: z.string().uuid(),
+  data_window: z.object({ n: z.number().int(), min: z.number().nullable(), max: z.number().nullable() }),
+  median_days: z.number().nullable(),
+  ci80: z.tuple([z.number().nullable(), z.number().nullable()]).describe('10th and 90th percentile, in days'),
+  survival_curve: z.array(z.object({ day: z.number(), probability: z.number() })),
+  last_updated: timestampSchema,
+  quality: z.object({
+    tier: qualitySchema,
+    sample_size: z.number().int(),
+    min_sample_size: z.number().int(),
+    sufficient: z.boolean()
+  })
+})
+
+export type V1TimeToRuling = z.infer<typeof v1TimeToRulingSchema>
+
+// GET /api/v1/compare
+
+const compareRangeMessage = `Provide between ${MIN_COMPARED_JUDGES} and ${MAX_COMPARED_JUDGES} judge IDs in judges=a,b,c`
+
+export const v1CompareQuerySchema = z.object({
+  judges: z
+    .string({ required_error: compareRangeMessage })
+    .describe(`Comma-separated judge IDs (${MIN_COMPARED_JUDGES}–${MAX_COMPARED_JUDGES})`)
+    .transform((value) => Array.from(new Set(value.split(',').map((id) => id.trim()).filter(Boolean))))
+    .pipe(z.array(judgeIdSchema).min(MIN_COMPARED_JUDGES, compareRangeMessage).max(MAX_COMPARED_JUDGES, compareRangeMessage)),
+  years: intParam(1, 10, 3).describe('Lookback in years'),
+  format: formatParam(['json', 'csv', 'pdf'], 'json')
+})
+
+const nullableRate = z.number().nullable()
+
+export const v1CompareSchema = z.object({
+  lookback_years: z.number().int(),
+  window: z.object({ start: z.string(), end: z.string() }).nullable().describe('Span in which every judge has cases'),
+  judges: z.array(
+    z.object({
+      judge_id: z.string().uuid(),
+      name: z.string(),
+      court_name: z.string().nullable(),
+      cases_fetched: z.number().int(),
+      cases_in_window: z.number().int()
+    })
+  ),
+  metrics: z.array(
+    z.object({
+      metric: z.string(),
+      label: z.string(),
+      min_sample: z.number().int(),
+      case_types: z.array(z.string()),
+      judges: z.array(
+        z.object({
+          judge_id: z.string().uuid(),
+          rate: nullableRate.describe('Standardized to the shared case-type mix, in percent'),
+          raw_rate: nullableRate,
+          ci_lower: nullableRate,
+          ci_upper: nullableRate,
+          sample_size: z.number().int(),
+          excluded_cases: z.number().int(),
+          sufficient: z.boolean()
+        })
+      ),
+      comparisons: z.array(
+        z.object({
+          judge_a: z.string().uuid(),
+          judge_b: z.string().uuid(),
+          difference: nullableRate,
+          z_score: nullableRate,
+          p_value: nullableRate,
+          adjusted_p_value: nullableRate,
+          significant: z.boolean()
+        })
+      )
+    })
+  ),
+  method: z.object({
+    standardization: z.string(),
+    test: z.string(),
+    multiple_comparisons: z.string(),
+    significance_level: z.number()
+  }),
+  generated_at: timestampSchema
+})
+
+export type V1Compare = z.infer<typeof v1CompareSchema>
+
+// GET /api/v1/changes
+
+export const v1ChangesQuerySchema = z.object({
+  since: z
+    .string()
+    .refine((cursor) => decodeChangeCursor(cursor) !== null, 'Invalid cursor')
+    .optional()
+    .describe('Cursor from a previous page; omit to start at the beginning'),
+  entity_type: z
+    .string()
+    .optional()
+    .describe(`Comma-separated list of ${CHANGE_ENTITY_TYPES.join(', ')}`)
+    .transform((value, ctx) => {
+      const types = parseChangeEntityTypes(value ?? null)
+      if (types) return types
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `entity_type must be a comma-separated list of ${CHANGE_ENTITY_TYPES.join(', ')}`
+      })
+      return z.NEVER
+    }),
+  jurisdiction: z.string().max(10).optional().describe('Jurisdiction code, e.g. CA'),
+  limit: intParam(1, MAX_CHANGE_LIMIT, DEFAULT_CHANGE_LIMIT)
+})
+
+export const v1ChangesSchema = z.object({
+  changes: z.array(
+    z.object({
+      id: z.string(),
+      entity_type: z.enum(['judge', 'court', 'case']),
+      entity_id: z.string(),
+      operation: z.enum(['insert', 'update']),
+      jurisdiction: z.string().nullable(),
+      changes: z.record(z.object({ old: z.unknown(), new: z.unknown() })).describe('Changed fields; old is null for inserts'),
+      source: z.string(),
+      sync_id: z.string().nullable(),
+      recorded_at: timestampSchema
+    })
+  ),
+  next_cursor: z.string().nullable().describe('Pass as since to continue; unchanged when the page is empty'),
+  has_more: z.boolean()
+})
+
+export type V1Changes = z.infer<typeof v1ChangesSchema>
+
+// GET /api/v1/export/{dataset} and the export jobs
+
+const exportDatasetSchema = z.enum(EXPORT_DATASETS)
+const sinceSchema = z
+  .string()
+  .refine((value) => Number.isFinite(Date.parse(value)), 'updated_since must be an ISO 8601 date or timestamp')
+  .describe('Only rows updated (snapshots: created) at or after this ISO 8601 date or timestamp')
+
+export const v1ExportPathSchema = z.object({
+  dataset: exportDatasetSchema
+})
+
+export const v1ExportQuerySchema = z.object({
+  format: formatParam([...EXPORT_FORMATS], 'csv'),
+  fields: z
+    .string()
+    .optional()
+    .describe('Comma-separated columns in output order; defaults to every column')
+    .transform((value) => (value ?? '').split(',').map((field) => field.trim()).filter(Boolean)),
+  updated_since: sinceSchema.optional(),
+  cursor: z.string().optional().describe('X-Next-Cursor from the previous page; omit to start at the beginning'),
+  limit: intParam(1, MAX_EXPORT_LIMIT, DEFAULT_EXPORT_LIMIT).describe('Rows in this response')
+})
+
+export const v1ExportJobRequestSchema = z.object({
+  dataset: exportDatasetSchema,
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+  fields: z.array(z.string().min(1)).max(50).default([]).describe('Columns in output order; empty means every column'),
+  updated_since: sinceSchema.nullable().optional()
+})
+
+export const v1ExportJobPathSchema = z.object({
+  id: z.string().uuid('Invalid export ID format').describe('Export ID')
+})
+
+export const v1ExportJobSchema = z.object({
+  id: z.string().uuid(),
+  dataset: exportDatasetSchema,
+  format: z.enum(EXPORT_FORMATS),
+  fields: z.array(z.string()),
+  updated_since: z.string().nullable(),
+  status: z.enum(['queued', 'running', 'completed', 'failed']),
+  row_count: z.number().int(),
+  byte_size: z.number().int(),
+  error: z.string().nullable(),
+  created_at: timestampSchema,
+  completed_at: timestampSchema.nullable(),
+  expires_at: timestampSchema.nullable().describe('The download stops working after this'),
+  download_url: z.string().nullable().describe('Set once the export has completed, until it expires')
+})
+
+export type V1ExportJob = z.infer<typeof v1ExportJobSchema>
+
+// POST /api/v1/graphql
+
+export const v1GraphQLRequestSchema = z.object({
+  query: z.string().optional().describe('Omit when sending a persisted query hash alone'),
+  variables: z.record(z.unknown()).nullable().optional(),
+  operationName: z.string().nullable().optional(),
+  extensions: z
+    .object({
+      persistedQuery: z
+        .object({ version: z.number().int(), sha256Hash: z.string() })
+        .optional()
+        .describe('Automatic persisted query: the SHA-256 hex digest of query')
+    })
+    .passthrough()
+    .nullable()
+    .optional()
+})
+
+export const v1GraphQLResponseSchema = z.object({
+  data: z.record(z.unknown()).nullable().optional(),
+  errors: z
+    .array(
+      z.object({
+        message: z.string(),
+        path: z.array(z.union([z.string(), z.number()])).optional(),
+        extensions: z.record(z.unknown()).optional().describe('code: QUERY_TOO_COSTLY, FORBIDDEN, PERSISTED_QUERY_NOT_FOUND, ...')
+      })
+    )
+    .optional(),
+  extensions: z
+    .object({
+      cost: z
+        .object({ requested: z.number().int(), maximum: z.number().int(), requests: z.number().int() })
+        .describe('Query cost, the most this key may spend on one query, and the rate-limited requests charged')
+    })
+    .partial()
+    .optional()
+})
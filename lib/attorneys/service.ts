@@ -0,0 +1,236 @@
+import { createServerClient } from '@/lib/supabase/server'
+import { normalizeOutcomeLabel, type OutcomeCategory } from '@/lib/sync/normalization'
+
+const PAGE_SIZE = 1000
+const MAX_APPEARANCES = 10000
+
+export type AppearanceResult = 'favorable' | 'unfavorable' | 'settled' | 'pending' | 'other'
+
+export interface AttorneyAppearance {
+  attorney_name: string
+  normalized_name: string | null
+  law_firm_id: string | null
+  firm_name: string | null
+  party_type: string | null
+  is_lead_attorney: boolean
+  case_id: string
+  case_outcome: string | null
+  case_status: string | null
+  decision_date: string | null
+  filing_date: string | null
+}
+
+interface CounselOutcomes {
+  appearances: number
+  decided: number
+  favorable: number
+  unfavorable: number
+  settled: number
+  pending: number
+  favorable_rate: number | null
+  outcomes: Partial<Record<OutcomeCategory, number>>
+  sides: { plaintiff: number; defendant: number; unknown: number }
+  last_appearance: string | null
+}
+
+export interface AttorneySummary extends CounselOutcomes {
+  name: string
+  law_firm_id: string | null
+  firm_name: string | null
+  lead_appearances: number
+}
+
+export interface FirmSummary extends CounselOutcomes {
+  law_firm_id: string
+  name: string
+  attorneys: number
+}
+
+export interface JudgeAttorneyHistory {
+  attorneys: AttorneySummary[]
+  firms: FirmSummary[]
+  cases_with_counsel: number
+  total_appearances: number
+  truncated: boolean
+}
+
+const PLAINTIFF_SIDE = new Set(['plaintiff', 'petitioner', 'appellant'])
+const DEFENDANT_SIDE = new Set(['defendant', 'respondent', 'appellee', 'defense'])
+
+export function partySide(partyType: string | null): 'plaintiff' | 'defendant' | null {
+  if (!partyType) return null
+  if (PLAINTIFF_SIDE.has(partyType)) return 'plaintiff'
+  if (DEFENDANT_SIDE.has(partyType)) return 'defendant'
+  return null
+}
+
+/**
+ * How a case turned out for the side an attorney represented. Dismissals
+ * count for the defense; outcomes with no side or no winner are not scored.
+ */
+export function classifyAppearance(appearance: Pick<AttorneyAppearance, 'party_type' | 'case_outcome' | 'case_status' | 'decision_date'>): {
+  category: OutcomeCategory
+  result: AppearanceResult
+} {
+  if (!appearance.decision_date && appearance.case_status !== 'decided') {
+    return { category: 'pending', result: 'pending' }
+  }
+
+  const { category } = normalizeOutcomeLabel(appearance.case_outcome)
+  if (category === 'settled') return { category, result: 'settled' }
+  if (category === 'pending') return { category, result: 'pending' }
+
+  const side = partySide(appearance.party_type)
+  const plaintiffWon = category === 'judgment_plaintiff'
+  const defendantWon = category === 'judgment_defendant' || category === 'dismissed'
+  if (!side || (!plaintiffWon && !defendantWon)) return { category, result: 'other' }
+
+  const won = side === 'plaintiff' ? plaintiffWon : defendantWon
+  return { category, result: won ? 'favorable' : 'unfavorable' }
+}
+
+function emptyOutcomes(): CounselOutcomes {
+  return {
+    appearances: 0,
+    decided: 0,
+    favorable: 0,
+    unfavorable: 0,
+    settled: 0,
+    pending: 0,
+    favorable_rate: null,
+    outcomes: {},
+    sides: { plaintiff: 0, defendant: 0, unknown: 0 },
+    last_appearance: null
+  }
+}
+
+function addAppearance(target: CounselOutcomes, appearance: AttorneyAppearance) {
+  const { category, result } = classifyAppearance(appearance)
+  target.appearances++
+  target.outcomes[category] = (target.outcomes[category] ?? 0) + 1
+  target.sides[partySide(appearance.party_type) ?? 'unknown']++
+
+  if (result === 'pending') target.pending++
+  else target.decided++
+  if (result === 'favorable') target.favorable++
+  if (result === 'unfavorable') target.unfavorable++
+  if (result === 'settled') target.settled++
+
+  const date = appearance.decision_date ?? appearance.filing_date
+  if (date && (!target.last_appearance || date > target.last_appearance)) target.last_appearance = date
+}
+
+function finalize<T extends CounselOutcomes>(entry: T): T {
+  const scored = entry.favorable + entry.unfavorable
+  entry.favorable_rate = scored > 0 ? Math.round((entry.favorable / scored) * 1000) / 10 : null
+  return entry
+}
+
+function byAppearances(left: CounselOutcomes & { name: string }, right: CounselOutcomes & { name: string }) {
+  return right.appearances - left.appearances || left.name.localeCompare(right.name)
+}
+
+/**
+ * Roll attorney appearances up to attorneys and firms. An attorney or firm
+ * counts once per case, however many parties or rows it has there.
+ */
+export function summarizeAttorneyAppearances(
+  appearances: AttorneyAppearance[],
+  limit: number
+): Omit<JudgeAttorneyHistory, 'truncated'> {
+  const attorneys = new Map<string, AttorneySummary>()
+  const firms = new Map<string, FirmSummary & { members: Set<string> }>()
+  const seenAttorneyCases = new Set<string>()
+  const seenFirmCases = new Set<string>()
+  const cases = new Set<string>()
+
+  for (const appearance of appearances) {
+    cases.add(appearance.case_id)
+    const attorneyKey = appearance.normalized_name || appearance.attorney_name.toLowerCase()
+
+    if (!seenAttorneyCases.has(`${attorneyKey}|${appearance.case_id}`)) {
+      seenAttorneyCases.add(`${attorneyKey}|${appearance.case_id}`)
+      const attorney = attorneys.get(attorneyKey) ?? {
+        ...emptyOutcomes(),
+        name: appearance.attorney_name,
+        law_firm_id: appearance.law_firm_id,
+        firm_name: appearance.firm_name,
+        lead_appearances: 0
+      }
+      addAppearance(attorney, appearance)
+      if (appearance.is_lead_attorney) attorney.lead_appearances++
+      attorneys.set(attorneyKey, attorney)
+    }
+
+    if (appearance.law_firm_id) {
+      const firm = firms.get(appearance.law_firm_id) ?? {
+        ...emptyOutcomes(),
+        law_firm_id: appearance.law_firm_id,
+        name: appearance.firm_name ?? 'Unknown firm',
+        attorneys: 0,
+        members: new Set<string>()
+      }
+      firm.members.add(attorneyKey)
+      if (!seenFirmCases.has(`${appearance.law_firm_id}|${appearance.case_id}`)) {
+        seenFirmCases.add(`${appearance.law_firm_id}|${appearance.case_id}`)
+        addAppearance(firm, appearance)
+      }
+      firms.set(appearance.law_firm_id, firm)
+    }
+  }
+
+  return {
+    attorneys: Array.from(attorneys.values()).map(finalize).sort(byAppearances).slice(0, limit),
+    firms: Array.from(firms.values())
+      .map(({ members, ...firm }) => finalize({ ...firm, attorneys: members.size }))
+      .sort(byAppearances)
+      .slice(0, limit),
+    cases_with_counsel: cases.size,
+    total_appearances: appearances.length
+  }
+}
+
+/**
+ * Attorneys and firms who appear most often before a judge, with how their
+ * cases turned out for the side they represented.
+ */
+export async function getJudgeAttorneyHistory(judgeId: string, limit = 10): Promise<JudgeAttorneyHistory> {
+  const supabase = await createServerClient()
+  const appearances: AttorneyAppearance[] = []
+
+  for (let offset = 0; offset < MAX_APPEARANCES; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('case_attorneys')
+      .select('id, attorney_name, normalized_name, law_firm_id, firm_name, party_type, is_lead_attorney, law_firms(name), cases!inner(id, judge_id, outcome, status, decision_date, filing_date)')
+      .eq('cases.judge_id', judgeId)
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load attorney appearances: ${error.message}`)
+
+    for (const row of (data ?? []) as any[]) {
+      const caseRow = Array.isArray(row.cases) ? row.cases[0] : row.cases
+      const firm = Array.isArray(row.law_firms) ? row.law_firms[0] : row.law_firms
+      if (!caseRow) continue
+      appearances.push({
+        attorney_name: row.attorney_name,
+        normalized_name: row.normalized_name ?? null,
+        law_firm_id: row.law_firm_id ?? null,
+        firm_name: firm?.name ?? row.firm_name ?? null,
+        party_type: row.party_type ?? null,
+        is_lead_attorney: Boolean(row.is_lead_attorney),
+        case_id: caseRow.id,
+        case_outcome: caseRow.outcome ?? null,
+        case_status: caseRow.status ?? null,
+        decision_date: caseRow.decision_date ?? null,
+        filing_date: caseRow.filing_date ?? null
+      })
+    }
+
+    if (!data || data.length < PAGE_SIZE) {
+      return { ...summarizeAttorneyAppearances(appearances, limit), truncated: false }
+    }
+  }
+
+  return { ...summarizeAttorneyAppearances(appearances, limit), truncated: true }
+}
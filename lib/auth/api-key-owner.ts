@@ -0,0 +1,22 @@
+import { auth } from '@clerk/nextjs/server'
+import type { ApiKeyOwner } from '@/lib/security/api-keys'
+
+export interface ApiKeyOwnerContext {
+  owner: ApiKeyOwner
+  userId: string
+  /** Organization keys are managed by organization admins; members can only view them. */
+  canManage: boolean
+}
+
+/**
+ * Whose API keys the signed-in user is working with: the active Clerk
+ * organization when there is one, otherwise the user's own keys.
+ */
+export async function resolveApiKeyOwner(): Promise<ApiKeyOwnerContext | null> {
+  const { userId, orgId, orgRole } = await auth()
+  if (!userId) return null
+  if (orgId) {
+    return { owner: { type: 'organization', id: orgId }, userId, canManage: orgRole === 'org:admin' }
+  }
+  return { owner: { type: 'user', id: userId }, userId, canManage: true }
+}
@@ -69,9 +69,9 @@ class SimpleCache {
 // Global cache instance
 const globalCache = new SimpleCache()
 
-// Clean up expired entries every 5 minutes
+// Clean up expired entries every 5 minutes, without keeping scripts that import the cache alive
 setInterval(() => {
   globalCache.cleanup()
-}, 5 * 60 * 1000)
+}, 5 * 60 * 1000).unref?.()
 
 export { globalCache as cache }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { createServerClient } from '@/lib/supabase/server'
+import { normalizeJurisdiction } from '@/lib/sync/normalization'
+import type { ChangeEntityType, ChangeOperation, FieldChanges } from '@/lib/sync/change-log'
+
+export const CHANGE_ENTITY_TYPES: readonly ChangeEntityType[] = ['judge', 'court', 'case']
+export const DEFAULT_CHANGE_LIMIT = 500
+export const MAX_CHANGE_LIMIT = 1000
+
+/**
+ * Rows younger than this are held back. Ids are assigned when a sync inserts,
+ * but concurrent syncs can commit out of id order; waiting out the window
+ * keeps a cursor from skipping a row that commits behind it.
+ */
+const SETTLE_WINDOW_MS = 5000
+
+const CURSOR_PREFIX = 'c1:'
+
+export interface ChangeFeedEntry {
+  id: string
+  entity_type: ChangeEntityType
+  entity_id: string
+  operation: ChangeOperation
+  jurisdiction: string | null
+  changes: FieldChanges
+  source: string
+  sync_id: string | null
+  recorded_at: string
+}
+
+export interface ChangeFeedQuery {
+  since?: string | null
+  entityTypes?: ChangeEntityType[]
+  jurisdiction?: string | null
+  limit?: number
+}
+
+export interface ChangeFeedPage {
+  changes: ChangeFeedEntry[]
+  /** Pass as `since` to continue; unchanged when the page is empty. */
+  next_cursor: string | null
+  has_more: boolean
+}
+
+export function encodeChangeCursor(id: number | string): string {
+  return Buffer.from(`${CURSOR_PREFIX}${id}`, 'utf8').toString('base64url')
+}
+
+/** Log id a cursor points at, or null when the cursor is malformed. */
+export function decodeChangeCursor(cursor: string): number | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8')
+  if (!decoded.startsWith(CURSOR_PREFIX)) return null
+  const value = decoded.slice(CURSOR_PREFIX.length)
+  if (!/^\d+$/.test(value)) return null
+  const id = Number(value)
+  return Number.isSafeInteger(id) ? id : null
+}
+
+/** Parse an entity_type list such as `judge,case`; null when any entry is unknown. */
+export function parseChangeEntityTypes(value: string | null): ChangeEntityType[] | null {
+  if (!value) return []
+  const types = Array.from(new Set(value.split(',').map((type) => type.trim().toLowerCase()).filter(Boolean)))
+  if (types.some((type) => !CHANGE_ENTITY_TYPES.includes(type as ChangeEntityType))) return null
+  return types as ChangeEntityType[]
+}
+
+export async function getChangeFeed(query: ChangeFeedQuery): Promise<ChangeFeedPage> {
+  const afterId = query.since ? decodeChangeCursor(query.since) : 0
+  if (afterId === null) {
+    throw new Error('Invalid change cursor')
+  }
+  const limit = Math.min(MAX_CHANGE_LIMIT, Math.max(1, query.limit ?? DEFAULT_CHANGE_LIMIT))
+  const settledBefore = new Date(Date.now() - SETTLE_WINDOW_MS).toISOString()
+
+  const supabase = await createServerClient()
+  let request = supabase
+    .from('entity_changes')
+    .select('id, entity_type, entity_id, operation, jurisdiction, changes, source, sync_id, recorded_at')
+    .gt('id', afterId)
+    .lt('recorded_at', settledBefore)
+
+  if (query.entityTypes && query.entityTypes.length > 0) {
+    request = request.in('entity_type', query.entityTypes)
+  }
+  const jurisdiction = normalizeJurisdiction(query.jurisdiction)
+  if (jurisdiction) {
+    request = request.eq('jurisdiction', jurisdiction)
+  }
+
+  // One extra row tells us whether another page exists
+  const { data, error } = await request.order('id', { ascending: true }).limit(limit + 1)
+  if (error) {
+    throw new Error(`Failed to read change feed: ${error.message}`)
+  }
+
+  const rows = (data ?? []) as Array<Omit<ChangeFeedEntry, 'id'> & { id: number | string }>
+  const page = rows.slice(0, limit).map((row) => ({ ...row, id: String(row.id) }))
+  const last = page[page.length - 1]
+
+  return {
+    changes: page,
+    next_cursor: last ? encodeChangeCursor(last.id) : query.since ?? null,
+    has_more: rows.length > limit
+  }
+}
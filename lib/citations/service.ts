@@ -0,0 +1,70 @@
+import { createServerClient } from '@/lib/supabase/server'
+import { buildCaseUrl } from '@/lib/search/opinions'
+
+export interface CitedAuthority {
+  citation: string
+  citation_type: string | null
+  citing_opinions: number
+  case_id: string | null
+  case_name: string | null
+  case_url: string | null
+}
+
+export interface CitingOpinion {
+  case_id: string
+  case_name: string
+  decision_date: string | null
+  case_url: string | null
+  judge_name: string | null
+  judge_url: string | null
+  cited_case_id: string
+  cited_case_name: string | null
+  citation: string
+}
+
+export interface JudgeCitationReport {
+  most_cited: CitedAuthority[]
+  cited_by: CitingOpinion[]
+  cited_by_total: number
+}
+
+/**
+ * Citation graph around a judge: what their opinions cite most, and which
+ * opinions elsewhere cite their decisions.
+ */
+export async function getJudgeCitations(judgeId: string, limit = 10): Promise<JudgeCitationReport> {
+  const supabase = await createServerClient()
+
+  const [authorities, citing] = await Promise.all([
+    supabase.rpc('get_judge_cited_authorities', { p_judge_id: judgeId, p_limit: limit }),
+    supabase.rpc('get_opinions_citing_judge', { p_judge_id: judgeId, p_limit: limit })
+  ])
+
+  if (authorities.error) throw new Error(`Failed to load cited authorities: ${authorities.error.message}`)
+  if (citing.error) throw new Error(`Failed to load citing opinions: ${citing.error.message}`)
+
+  const citingRows: any[] = citing.data ?? []
+
+  return {
+    most_cited: (authorities.data ?? []).map((row: any) => ({
+      citation: row.normalized_citation,
+      citation_type: row.citation_type ?? null,
+      citing_opinions: Number(row.citing_opinions) || 0,
+      case_id: row.cited_case_id ?? null,
+      case_name: row.cited_case_name ?? null,
+      case_url: row.cited_case_id ? buildCaseUrl(row.cited_source_url ?? null, row.cited_courtlistener_id ?? null) : null
+    })),
+    cited_by: citingRows.map((row) => ({
+      case_id: row.citing_case_id,
+      case_name: row.citing_case_name || 'Untitled case',
+      decision_date: row.citing_decision_date ?? null,
+      case_url: buildCaseUrl(row.citing_source_url ?? null, row.citing_courtlistener_id ?? null),
+      judge_name: row.citing_judge_name ?? null,
+      judge_url: row.citing_judge_slug ? `/judges/${row.citing_judge_slug}` : null,
+      cited_case_id: row.cited_case_id,
+      cited_case_name: row.cited_case_name ?? null,
+      citation: row.normalized_citation
+    })),
+    cited_by_total: citingRows.length > 0 ? Number(citingRows[0].total_count) || citingRows.length : 0
+  }
+}
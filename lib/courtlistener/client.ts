@@ -1,4 +1,10 @@
 import { sleep } from '@/lib/utils/helpers'
+import {
+  createCourtListenerTransport,
+  type CourtListenerTransport,
+  type CourtListenerTransportMode,
+  type CourtListenerTransportOptions
+} from '@/lib/courtlistener/transport'
 
 export interface CourtListenerOpinion {
   id: number
@@ -38,6 +44,23 @@ export interface CourtListenerDocket {
   docket_entries_count?: number | null
 }
 
+export interface CourtListenerParty {
+  id: number
+  name: string
+  extra_info?: string | null
+  party_types?: Array<{ docket_id?: number; name?: string | null; date_terminated?: string | null }>
+  attorneys?: Array<{ attorney_id?: number; docket_id?: number; role?: number | null; date_action?: string | null }>
+}
+
+export interface CourtListenerAttorney {
+  id: number
+  name: string
+  contact_raw?: string | null
+  phone?: string | null
+  email?: string | null
+  parties_represented?: Array<{ party_id?: number; docket_id?: number; role?: number | null }>
+}
+
 export interface CourtListenerJudge {
   id: string | number
   name: string
@@ -83,6 +106,11 @@ interface RequestOptions {
   allow404?: boolean
 }
 
+export interface CourtListenerClientOptions extends CourtListenerTransportOptions {
+  /** Use this transport instead of building one from mode and fixturesDir. */
+  transport?: CourtListenerTransport
+}
+
 export class CourtListenerClient {
   private baseUrl = 'https://www.courtlistener.com/api/rest/v4'
   private apiToken: string
@@ -96,14 +124,28 @@ export class CourtListenerClient {
   private circuitThreshold = Math.max(3, parseInt(process.env.COURTLISTENER_CIRCUIT_THRESHOLD || '5', 10))
   private circuitCooldownMs = Math.max(10000, parseInt(process.env.COURTLISTENER_CIRCUIT_COOLDOWN_MS || '60000', 10))
   private metricsReporter?: (name: string, value: number, meta?: Record<string, any>) => void | Promise<void>
+  private readonly transport: CourtListenerTransport
 
-  constructor() {
+  constructor(options: CourtListenerClientOptions = {}) {
+    this.transport = options.transport ?? createCourtListenerTransport(options)
     this.apiToken = process.env.COURTLISTENER_API_KEY || process.env.COURTLISTENER_API_TOKEN || ''
+
+    if (this.transport.mode === 'replay') {
+      // Fixtures are deterministic: no pacing, and a missing fixture fails on the first attempt
+      this.requestDelay = 0
+      this.maxRetries = 0
+      return
+    }
+
     if (!this.apiToken) {
       throw new Error('COURTLISTENER_API_KEY or COURTLISTENER_API_TOKEN environment variable is required')
     }
   }
 
+  get transportMode(): CourtListenerTransportMode {
+    return this.transport.mode
+  }
+
   setMetricsReporter(reporter: (name: string, value: number, meta?: Record<string, any>) => void | Promise<void>) {
     this.metricsReporter = reporter
   }
@@ -161,7 +203,7 @@ export class CourtListenerClient {
         const timeoutMs = this.requestTimeoutMs
         const timeout = setTimeout(() => controller.abort(), timeoutMs)
 
-        const response = await fetch(url.toString(), {
+        const response = await this.transport.send(url.toString(), {
           method: 'GET',
           headers,
           signal: controller.signal
@@ -446,6 +488,35 @@ export class CourtListenerClient {
     return allDockets.slice(0, maxRecords)
   }
 
+  /**
+   * Parties on a docket, with the ids and roles of the attorneys representing them
+   */
+  async getDocketParties(docketId: string | number, maxRecords = 200): Promise<CourtListenerParty[]> {
+    return this.collectPages<CourtListenerParty>('/parties/', { docket: String(docketId) }, maxRecords)
+  }
+
+  /**
+   * Attorneys who appeared on a docket, including their raw contact block (firm and address)
+   */
+  async getDocketAttorneys(docketId: string | number, maxRecords = 200): Promise<CourtListenerAttorney[]> {
+    return this.collectPages<CourtListenerAttorney>('/attorneys/', { docket: String(docketId) }, maxRecords)
+  }
+
+  private async collectPages<T>(endpoint: string, params: Record<string, string>, maxRecords: number): Promise<T[]> {
+    const results: T[] = []
+    let next: string | null = endpoint
+    let query: Record<string, string> = { ...params, page_size: '100' }
+
+    while (next && results.length < maxRecords) {
+      const response: CourtListenerResponse<T> = await this.makeRequest<CourtListenerResponse<T>>(next, query)
+      results.push(...response.results)
+      next = response.next
+      query = {}
+    }
+
+    return results.slice(0, maxRecords)
+  }
+
   /**
    * Get cluster details for a specific cluster ID
    */
@@ -467,6 +538,20 @@ export class CourtListenerClient {
     return this.makeRequest(`/people/${judgeId}/`, {}, { allow404: true })
   }
 
+  /**
+   * Fetch a specific court by CourtListener ID
+   */
+  async getCourtById(courtId: string): Promise<CourtListenerCourt | null> {
+    return this.makeRequest(`/courts/${courtId}/`, {}, { allow404: true })
+  }
+
+  /**
+   * Fetch a specific docket by CourtListener ID
+   */
+  async getDocketById(docketId: string | number): Promise<CourtListenerDocket | null> {
+    return this.makeRequest(`/dockets/${docketId}/`, {}, { allow404: true })
+  }
+
   /**
    * List judges (CourtListener people endpoint) with optional filters and pagination support
    */
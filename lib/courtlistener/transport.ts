@@ -0,0 +1,165 @@
+/**
+ * CourtListener Transport
+ * Sends CourtListener HTTP requests live, records responses to fixtures, or
+ * replays them from fixtures so sync code can run offline
+ */
+
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export type CourtListenerTransportMode = 'live' | 'record' | 'replay'
+
+export interface CourtListenerTransport {
+  readonly mode: CourtListenerTransportMode
+  send(url: string, init: RequestInit): Promise<Response>
+}
+
+/** What a fixture file holds: the request that produced it and the response. */
+export interface CourtListenerFixture {
+  request: {
+    path: string
+    params: Record<string, string>
+  }
+  status: number
+  body: unknown
+  recordedAt: string
+}
+
+export interface CourtListenerTransportOptions {
+  mode?: CourtListenerTransportMode
+  fixturesDir?: string
+  /** Transport that record mode forwards to; defaults to live fetch. */
+  upstream?: CourtListenerTransport
+}
+
+const API_PATH_PREFIX = /^\/api\/rest\/v\d+/
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}$/
+const DEFAULT_FIXTURES_DIR = path.join('scripts', 'fixtures', 'courtlistener')
+
+/**
+ * Fixture identity for a request: the API path plus its query parameters in
+ * sorted order. `format` is ignored, and absolute cursor URLs key the same
+ * way as the relative requests that produced them.
+ */
+export function describeFixtureRequest(url: string): CourtListenerFixture['request'] {
+  const parsed = new URL(url, 'https://www.courtlistener.com')
+  const params: Record<string, string> = {}
+  Array.from(parsed.searchParams.keys())
+    .filter((key) => key !== 'format')
+    .sort()
+    .forEach((key) => {
+      params[key] = parsed.searchParams.getAll(key).join(',')
+    })
+
+  return {
+    path: parsed.pathname.replace(API_PATH_PREFIX, '') || '/',
+    params
+  }
+}
+
+/**
+ * File name for a request, e.g. `people-123.json` or `people__3f2a9c1b04de.json`.
+ * Date-valued parameters are left out of the key: the client derives date
+ * windows from today, so a fixture recorded one day must replay the next.
+ */
+export function fixtureKey(url: string): string {
+  const { path: requestPath, params } = describeFixtureRequest(url)
+  const slug = requestPath.split('/').filter(Boolean).join('-') || 'root'
+  const keyed = Object.entries(params).filter(([, value]) => !DATE_VALUE.test(value))
+  const query = new URLSearchParams(keyed).toString()
+  if (!query) {
+    return `${slug}.json`
+  }
+  const digest = createHash('sha1').update(query).digest('hex').slice(0, 12)
+  return `${slug}__${digest}.json`
+}
+
+class LiveTransport implements CourtListenerTransport {
+  readonly mode = 'live' as const
+
+  send(url: string, init: RequestInit): Promise<Response> {
+    return fetch(url, init)
+  }
+}
+
+class RecordingTransport implements CourtListenerTransport {
+  readonly mode = 'record' as const
+
+  constructor(private readonly fixturesDir: string, private readonly upstream: CourtListenerTransport) {}
+
+  async send(url: string, init: RequestInit): Promise<Response> {
+    const response = await this.upstream.send(url, init)
+
+    // Throttling and server errors are transient; only keep responses worth replaying
+    if (response.status === 429 || response.status >= 500) {
+      return response
+    }
+
+    const text = await response.clone().text()
+    let body: unknown = text
+    try {
+      body = JSON.parse(text)
+    } catch {
+      // Non-JSON error bodies are kept as text
+    }
+
+    const fixture: CourtListenerFixture = {
+      request: describeFixtureRequest(url),
+      status: response.status,
+      body,
+      recordedAt: new Date().toISOString()
+    }
+    await fs.mkdir(this.fixturesDir, { recursive: true })
+    await fs.writeFile(path.join(this.fixturesDir, fixtureKey(url)), `${JSON.stringify(fixture, null, 2)}\n`)
+
+    return response
+  }
+}
+
+class ReplayTransport implements CourtListenerTransport {
+  readonly mode = 'replay' as const
+
+  constructor(private readonly fixturesDir: string) {}
+
+  async send(url: string): Promise<Response> {
+    const file = path.join(this.fixturesDir, fixtureKey(url))
+    let raw: string
+    try {
+      raw = await fs.readFile(file, 'utf8')
+    } catch {
+      const { path: requestPath, params } = describeFixtureRequest(url)
+      throw new Error(`No CourtListener fixture for ${requestPath} ${JSON.stringify(params)} (expected ${file})`)
+    }
+
+    const fixture = JSON.parse(raw) as CourtListenerFixture
+    const body = typeof fixture.body === 'string' ? fixture.body : JSON.stringify(fixture.body)
+    return new Response(body, {
+      status: fixture.status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+}
+
+export function resolveTransportMode(value?: string | null): CourtListenerTransportMode {
+  const mode = (value || '').trim().toLowerCase()
+  return mode === 'record' || mode === 'replay' ? mode : 'live'
+}
+
+/**
+ * Build a transport from options, falling back to COURTLISTENER_TRANSPORT and
+ * COURTLISTENER_FIXTURES_DIR.
+ */
+export function createCourtListenerTransport(options: CourtListenerTransportOptions = {}): CourtListenerTransport {
+  const mode = options.mode ?? resolveTransportMode(process.env.COURTLISTENER_TRANSPORT)
+  const fixturesDir = path.resolve(options.fixturesDir || process.env.COURTLISTENER_FIXTURES_DIR || DEFAULT_FIXTURES_DIR)
+
+  switch (mode) {
+    case 'record':
+      return new RecordingTransport(fixturesDir, options.upstream ?? new LiveTransport())
+    case 'replay':
+      return new ReplayTransport(fixturesDir)
+    default:
+      return new LiveTransport()
+  }
+}
@@ -20,8 +20,8 @@ CREATE TABLE IF NOT EXISTS sync_logs (
 -- Sync queue table for background job processing
 CREATE TABLE IF NOT EXISTS sync_queue (
     id VARCHAR(100) PRIMARY KEY,
-    type VARCHAR(50) NOT NULL CHECK (type IN ('court', 'judge', 'decision', 'full', 'cleanup')),
-    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+    type VARCHAR(50) NOT NULL CHECK (type IN ('court', 'judge', 'decision', 'full', 'cleanup', 'citations', 'export', 'webhook')),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled', 'dead_letter')),
     options JSONB DEFAULT '{}',
     priority INTEGER DEFAULT 0,
     scheduled_for TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
@@ -31,6 +31,12 @@ CREATE TABLE IF NOT EXISTS sync_queue (
     error_message TEXT,
     retry_count INTEGER DEFAULT 0,
     max_retries INTEGER DEFAULT 3,
+    worker_id VARCHAR(200),
+    lease_expires_at TIMESTAMP WITH TIME ZONE,
+    heartbeat_at TIMESTAMP WITH TIME ZONE,
+    dead_lettered_at TIMESTAMP WITH TIME ZONE,
+    checkpoint JSONB,
+    checkpoint_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -45,6 +51,12 @@ CREATE TABLE IF NOT EXISTS webhook_events (
     processed BOOLEAN DEFAULT FALSE,
     processed_at TIMESTAMP WITH TIME ZONE,
     error_message TEXT,
+    webhook_id VARCHAR(200),
+    event_timestamp TIMESTAMP WITH TIME ZONE,
+    status VARCHAR(20) NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    result JSONB NOT NULL DEFAULT '{}'::jsonb,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -88,6 +100,8 @@ CREATE INDEX IF NOT EXISTS idx_sync_queue_type_status ON sync_queue(type, status
 
 CREATE INDEX IF NOT EXISTS idx_webhook_events_processed ON webhook_events(processed, created_at);
 CREATE INDEX IF NOT EXISTS idx_webhook_events_source_type ON webhook_events(source, event_type);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_source_webhook_id ON webhook_events(source, webhook_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status_created ON webhook_events(status, created_at DESC);
 
 CREATE INDEX IF NOT EXISTS idx_sync_statistics_date_type ON sync_statistics(date, sync_type);
 
@@ -0,0 +1,125 @@
+import type { ParquetColumn, ParquetColumnType } from '@/lib/export/parquet'
+
+export const EXPORT_DATASETS = ['judges', 'courts', 'cases', 'analytics_snapshots'] as const
+export type ExportDatasetName = (typeof EXPORT_DATASETS)[number]
+
+export interface ExportDataset {
+  table: string
+  /** Column `updated_since` filters on; snapshots are immutable, so theirs is created_at. */
+  timestampColumn: 'updated_at' | 'created_at'
+  /** Exportable columns in default output order. Rows are walked in `id` order. */
+  fields: ParquetColumn[]
+}
+
+function columns(spec: Record<string, ParquetColumnType>): ParquetColumn[] {
+  return Object.entries(spec).map(([name, type]) => ({ name, type }))
+}
+
+export const DATASETS: Record<ExportDatasetName, ExportDataset> = {
+  judges: {
+    table: 'judges',
+    timestampColumn: 'updated_at',
+    fields: columns({
+      id: 'string',
+      name: 'string',
+      slug: 'string',
+      court_id: 'string',
+      court_name: 'string',
+      jurisdiction: 'string',
+      appointed_date: 'date',
+      courtlistener_id: 'string',
+      aliases: 'json',
+      total_cases: 'integer',
+      created_at: 'timestamp',
+      updated_at: 'timestamp'
+    })
+  },
+  courts: {
+    table: 'courts',
+    timestampColumn: 'updated_at',
+    fields: columns({
+      id: 'string',
+      name: 'string',
+      slug: 'string',
+      type: 'string',
+      jurisdiction: 'string',
+      address: 'string',
+      phone: 'string',
+      website: 'string',
+      judge_count: 'integer',
+      courtlistener_id: 'string',
+      created_at: 'timestamp',
+      updated_at: 'timestamp'
+    })
+  },
+  cases: {
+    table: 'cases',
+    timestampColumn: 'updated_at',
+    fields: columns({
+      id: 'string',
+      case_number: 'string',
+      case_name: 'string',
+      case_type: 'string',
+      status: 'string',
+      outcome: 'string',
+      summary: 'string',
+      judge_id: 'string',
+      court_id: 'string',
+      jurisdiction: 'string',
+      filing_date: 'date',
+      decision_date: 'date',
+      courtlistener_id: 'string',
+      source_url: 'string',
+      judge_attribution_method: 'string',
+      judge_attribution_confidence: 'number',
+      created_at: 'timestamp',
+      updated_at: 'timestamp'
+    })
+  },
+  analytics_snapshots: {
+    table: 'judge_analytics_snapshots',
+    timestampColumn: 'created_at',
+    fields: columns({
+      id: 'string',
+      judge_id: 'string',
+      version: 'integer',
+      analytics: 'json',
+      input_case_ids: 'json',
+      input_fingerprint: 'string',
+      lookback_years: 'integer',
+      case_fetch_limit: 'integer',
+      ai_model: 'string',
+      code_version: 'string',
+      data_source: 'string',
+      created_at: 'timestamp'
+    })
+  }
+}
+
+export function isExportDataset(value: string): value is ExportDatasetName {
+  return (EXPORT_DATASETS as readonly string[]).includes(value)
+}
+
+/**
+ * The columns to write, in the caller's order. No selection means every
+ * field; unknown or repeated names are reported instead of ignored.
+ */
+export function resolveExportFields(
+  dataset: ExportDatasetName,
+  requested: string[] | null | undefined
+): { ok: true; fields: ParquetColumn[] } | { ok: false; error: string } {
+  const available = DATASETS[dataset].fields
+  if (!requested || requested.length === 0) return { ok: true, fields: available }
+
+  const unknown = requested.filter((name) => !available.some((field) => field.name === name))
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      error: `Unknown ${dataset} fields: ${unknown.join(', ')}. Available: ${available.map((field) => field.name).join(', ')}`
+    }
+  }
+  if (new Set(requested).size !== requested.length) {
+    return { ok: false, error: 'fields lists a column more than once' }
+  }
+  return { ok: true, fields: requested.map((name) => available.find((field) => field.name === name)!) }
+}
@@ -0,0 +1,94 @@
+import {
+  encodeParquetFooter,
+  encodeParquetRowGroup,
+  parquetHeader,
+  type ParquetColumn,
+  type ParquetRowGroupMeta
+} from '@/lib/export/parquet'
+
+export const EXPORT_FORMATS = ['csv', 'ndjson', 'parquet'] as const
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  parquet: 'application/vnd.apache.parquet'
+}
+
+/** Where a Parquet file left off; saved with a job checkpoint between runs. */
+export interface ExportEncoderState {
+  bytesWritten: number
+  rowGroups: ParquetRowGroupMeta[]
+}
+
+export interface ExportEncoder {
+  /** File preamble: the CSV header row or the Parquet magic. */
+  start(): Uint8Array
+  /** One batch: CSV records, NDJSON lines or a Parquet row group. */
+  rows(rows: Array<Record<string, unknown>>): Uint8Array
+  /** File trailer: the Parquet footer; empty for the line formats. */
+  finish(): Uint8Array
+  readonly state: ExportEncoderState
+}
+
+const encoder = new TextEncoder()
+const EMPTY = new Uint8Array(0)
+
+/**
+ * One RFC 4180 field: quoted when it contains a comma, double quote, CR or
+ * LF, with embedded quotes doubled. Objects and arrays are written as JSON.
+ */
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** One RFC 4180 record, CRLF-terminated. */
+export function csvRecord(values: unknown[]): string {
+  return `${values.map(csvField).join(',')}\r\n`
+}
+
+export function createExportEncoder(
+  format: ExportFormat,
+  columns: ParquetColumn[],
+  resume: ExportEncoderState = { bytesWritten: 0, rowGroups: [] }
+): ExportEncoder {
+  const state: ExportEncoderState = { bytesWritten: resume.bytesWritten, rowGroups: [...resume.rowGroups] }
+  const names = columns.map((column) => column.name)
+  const track = (bytes: Uint8Array) => {
+    state.bytesWritten += bytes.length
+    return bytes
+  }
+
+  if (format === 'parquet') {
+    return {
+      state,
+      start: () => track(parquetHeader()),
+      rows: (rows) => {
+        if (rows.length === 0) return EMPTY
+        const { bytes, meta } = encodeParquetRowGroup(columns, rows, state.bytesWritten)
+        state.rowGroups.push(meta)
+        return track(bytes)
+      },
+      finish: () => track(encodeParquetFooter(columns, state.rowGroups))
+    }
+  }
+
+  if (format === 'ndjson') {
+    return {
+      state,
+      start: () => EMPTY,
+      rows: (rows) =>
+        track(encoder.encode(rows.map((row) => `${JSON.stringify(Object.fromEntries(names.map((name) => [name, row[name] ?? null])))}\n`).join(''))),
+      finish: () => EMPTY
+    }
+  }
+
+  return {
+    state,
+    start: () => track(encoder.encode(csvRecord(names))),
+    rows: (rows) => track(encoder.encode(rows.map((row) => csvRecord(names.map((name) => row[name]))).join(''))),
+    finish: () => EMPTY
+  }
+}
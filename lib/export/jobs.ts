@@ -0,0 +1,357 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/utils/logger'
+import type { ApiKeyOwner } from '@/lib/security/api-keys'
+import { SyncCheckpointTracker, type SyncCheckpoint, type SyncRunControl } from '@/lib/sync/checkpoint'
+import { resolveExportFields, type ExportDatasetName } from '@/lib/export/datasets'
+import { createExportEncoder, type ExportEncoderState, type ExportFormat } from '@/lib/export/formats'
+import { fetchExportBatch, EXPORT_BATCH_SIZE } from '@/lib/export/service'
+
+/** How long a finished export stays downloadable. */
+export const EXPORT_RETENTION_DAYS = 7
+
+/** Parts read per download query; each holds one batch of encoded rows. */
+const DOWNLOAD_PARTS_PER_READ = 5
+
+export type ExportJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+export interface ExportJobRequest {
+  dataset: ExportDatasetName
+  format: ExportFormat
+  /** Column names in output order; empty means every field. */
+  fields: string[]
+  updatedSince: string | null
+}
+
+export interface ExportJobView {
+  id: string
+  dataset: ExportDatasetName
+  format: ExportFormat
+  fields: string[]
+  updated_since: string | null
+  status: ExportJobStatus
+  row_count: number
+  byte_size: number
+  error: string | null
+  created_at: string
+  completed_at: string | null
+  expires_at: string | null
+  download_url: string | null
+}
+
+/** Where a job run left off, saved in its sync_queue checkpoint. */
+export interface ExportJobCursor {
+  lastId: string | null
+  /** Next part number to write; part 0 is the file preamble. */
+  nextPart: number
+  rows: number
+  encoder: ExportEncoderState
+}
+
+export interface ExportJobResult {
+  success: boolean
+  exportId: string
+  rows: number
+  error?: string
+  incomplete?: boolean
+  checkpoint?: SyncCheckpoint<ExportJobCursor>
+}
+
+/** What the job needs from SyncQueueManager; injected so routes and tests can supply it. */
+export interface ExportJobQueue {
+  addJob(type: 'export', options: { exportId: string }): Promise<string>
+}
+
+export class ExportJobNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Export ${id} not found`)
+    this.name = 'ExportJobNotFoundError'
+  }
+}
+
+interface ExportJobRow {
+  id: string
+  owner_type: ApiKeyOwner['type']
+  owner_id: string
+  api_key_id: string | null
+  dataset: ExportDatasetName
+  format: ExportFormat
+  fields: string[]
+  updated_since: string | null
+  status: ExportJobStatus
+  queue_job_id: string | null
+  row_count: number
+  byte_size: number
+  part_count: number
+  error_message: string | null
+  created_at: string
+  started_at: string | null
+  completed_at: string | null
+  expires_at: string | null
+}
+
+const EXPORT_JOB_COLUMNS =
+  'id, owner_type, owner_id, api_key_id, dataset, format, fields, updated_since, status, queue_job_id, row_count, byte_size, part_count, error_message, created_at, started_at, completed_at, expires_at'
+
+/** bytea columns round-trip through PostgREST as `\x`-prefixed hex. */
+function toBytea(bytes: Uint8Array): string {
+  return `\\x${Buffer.from(bytes).toString('hex')}`
+}
+
+function fromBytea(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value.startsWith('\\x') ? value.slice(2) : value, 'hex'))
+}
+
+function isDownloadable(row: ExportJobRow, now: Date): boolean {
+  return row.status === 'completed' && (!row.expires_at || new Date(row.expires_at) > now)
+}
+
+function toView(row: ExportJobRow, now: Date): ExportJobView {
+  return {
+    id: row.id,
+    dataset: row.dataset,
+    format: row.format,
+    fields: row.fields,
+    updated_since: row.updated_since,
+    status: row.status,
+    row_count: Number(row.row_count),
+    byte_size: Number(row.byte_size),
+    error: row.error_message,
+    created_at: row.created_at,
+    completed_at: row.completed_at,
+    expires_at: row.expires_at,
+    download_url: isDownloadable(row, now) ? `/api/v1/export/jobs/${row.id}/download` : null
+  }
+}
+
+async function loadJob(supabase: SupabaseClient, id: string): Promise<ExportJobRow | null> {
+  const { data, error } = await supabase.from('export_jobs').select(EXPORT_JOB_COLUMNS).eq('id', id).maybeSingle()
+  if (error) {
+    throw new Error(`Failed to load export ${id}: ${error.message}`)
+  }
+  return (data as ExportJobRow | null) ?? null
+}
+
+async function updateJob(supabase: SupabaseClient, id: string, fields: Partial<ExportJobRow>): Promise<void> {
+  const { error } = await supabase.from('export_jobs').update(fields).eq('id', id)
+  if (error) {
+    throw new Error(`Failed to update export ${id}: ${error.message}`)
+  }
+}
+
+/** Records the export and queues its first run. */
+export async function createExportJob(
+  supabase: SupabaseClient,
+  queue: ExportJobQueue,
+  owner: ApiKeyOwner,
+  apiKeyId: string,
+  request: ExportJobRequest,
+  now: Date = new Date()
+): Promise<ExportJobView> {
+  const { data, error } = await supabase
+    .from('export_jobs')
+    .insert({
+      owner_type: owner.type,
+      owner_id: owner.id,
+      api_key_id: apiKeyId,
+      dataset: request.dataset,
+      format: request.format,
+      fields: request.fields,
+      updated_since: request.updatedSince,
+      status: 'queued',
+      row_count: 0,
+      byte_size: 0,
+      part_count: 0,
+      created_at: now.toISOString()
+    })
+    .select(EXPORT_JOB_COLUMNS)
+    .single()
+  if (error || !data) {
+    throw new Error(`Failed to create export: ${error?.message ?? 'no row returned'}`)
+  }
+
+  const row = data as ExportJobRow
+  try {
+    row.queue_job_id = await queue.addJob('export', { exportId: row.id })
+  } catch (queueError) {
+    await updateJob(supabase, row.id, { status: 'failed', error_message: 'Failed to queue export' })
+    throw queueError
+  }
+  await updateJob(supabase, row.id, { queue_job_id: row.queue_job_id })
+  return toView(row, now)
+}
+
+/** One of the owner's exports; other owners' exports are reported as missing. */
+export async function getExportJob(
+  supabase: SupabaseClient,
+  owner: ApiKeyOwner,
+  id: string,
+  now: Date = new Date()
+): Promise<ExportJobView> {
+  const row = await loadJob(supabase, id)
+  if (!row || row.owner_type !== owner.type || row.owner_id !== owner.id) {
+    throw new ExportJobNotFoundError(id)
+  }
+  return toView(row, now)
+}
+
+async function writePart(
+  supabase: SupabaseClient,
+  exportId: string,
+  partNumber: number,
+  bytes: Uint8Array,
+  rowCount: number
+): Promise<void> {
+  // Upserted so a run resumed from an older checkpoint rewrites the same parts
+  const { error } = await supabase
+    .from('export_job_parts')
+    .upsert(
+      { export_id: exportId, part_number: partNumber, data: toBytea(bytes), row_count: rowCount },
+      { onConflict: 'export_id,part_number' }
+    )
+  if (error) {
+    throw new Error(`Failed to write part ${partNumber} of export ${exportId}: ${error.message}`)
+  }
+}
+
+async function writeBatches(
+  supabase: SupabaseClient,
+  row: ExportJobRow,
+  tracker: SyncCheckpointTracker<ExportJobCursor>
+): Promise<boolean> {
+  const resolved = resolveExportFields(row.dataset, row.fields)
+  if (!resolved.ok) throw new Error(resolved.error)
+
+  const cursor = tracker.cursor
+  const encoder = createExportEncoder(row.format, resolved.fields, cursor.encoder)
+  const query = { dataset: row.dataset, fields: resolved.fields, updatedSince: row.updated_since }
+
+  if (cursor.nextPart === 0) {
+    await writePart(supabase, row.id, 0, encoder.start(), 0)
+    cursor.nextPart = 1
+    cursor.encoder = { ...encoder.state }
+  }
+
+  while (!tracker.shouldStop()) {
+    const rows = await fetchExportBatch(supabase, query, { after: cursor.lastId })
+    if (rows.length > 0) {
+      await writePart(supabase, row.id, cursor.nextPart, encoder.rows(rows), rows.length)
+      cursor.lastId = String(rows[rows.length - 1].id)
+      cursor.nextPart += 1
+      cursor.rows += rows.length
+      cursor.encoder = { ...encoder.state }
+      tracker.advance(rows.length)
+    }
+    if (rows.length < EXPORT_BATCH_SIZE) {
+      await writePart(supabase, row.id, cursor.nextPart, encoder.finish(), 0)
+      cursor.nextPart += 1
+      cursor.encoder = { ...encoder.state }
+      return true
+    }
+    await tracker.save()
+  }
+  return false
+}
+
+/**
+ * Runs (or resumes) a queued export for SyncQueueManager: encodes the dataset
+ * a batch at a time into export_job_parts and yields at the run deadline.
+ * Failures are recorded on the export rather than retried; callers can
+ * start a new export.
+ */
+export async function runExportJob(
+  supabase: SupabaseClient,
+  exportId: string,
+  control: SyncRunControl<ExportJobCursor> = {},
+  now: () => Date = () => new Date()
+): Promise<ExportJobResult> {
+  const row = await loadJob(supabase, exportId)
+  if (!row) throw new ExportJobNotFoundError(exportId)
+  if (row.status === 'completed' || row.status === 'failed') {
+    return { success: row.status === 'completed', exportId, rows: Number(row.row_count) }
+  }
+
+  const tracker = new SyncCheckpointTracker<ExportJobCursor>(
+    { lastId: null, nextPart: 0, rows: 0, encoder: { bytesWritten: 0, rowGroups: [] } },
+    control
+  )
+  if (row.status === 'queued') {
+    await updateJob(supabase, exportId, { status: 'running', started_at: now().toISOString() })
+  }
+
+  try {
+    const finished = await writeBatches(supabase, row, tracker)
+    const cursor = tracker.cursor
+    if (!finished) {
+      return { success: true, exportId, rows: cursor.rows, incomplete: true, checkpoint: tracker.toCheckpoint() }
+    }
+
+    const completedAt = now()
+    await updateJob(supabase, exportId, {
+      status: 'completed',
+      row_count: cursor.rows,
+      byte_size: cursor.encoder.bytesWritten,
+      part_count: cursor.nextPart,
+      completed_at: completedAt.toISOString(),
+      expires_at: new Date(completedAt.getTime() + EXPORT_RETENTION_DAYS * 86_400_000).toISOString()
+    })
+    logger.info('Export completed', { exportId, dataset: row.dataset, format: row.format, rows: cursor.rows })
+    return { success: true, exportId, rows: cursor.rows }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    logger.error('Export failed', { exportId, error: message })
+    await updateJob(supabase, exportId, { status: 'failed', error_message: message, completed_at: now().toISOString() })
+    return { success: false, exportId, rows: tracker.cursor.rows, error: message }
+  }
+}
+
+/**
+ * The finished file for one of the owner's exports, streamed part by part.
+ * Returns null when the export is not (or no longer) downloadable.
+ */
+export async function streamExportDownload(
+  supabase: SupabaseClient,
+  owner: ApiKeyOwner,
+  id: string,
+  now: Date = new Date()
+): Promise<{ job: ExportJobView; body: ReadableStream<Uint8Array> } | null> {
+  const job = await getExportJob(supabase, owner, id, now)
+  if (!job.download_url) return null
+
+  let nextPart = 0
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { data, error } = await supabase
+        .from('export_job_parts')
+        .select('part_number, data')
+        .eq('export_id', id)
+        .gte('part_number', nextPart)
+        .order('part_number', { ascending: true })
+        .limit(DOWNLOAD_PARTS_PER_READ)
+      if (error) {
+        logger.error('Export download failed', { exportId: id, part: nextPart, error: error.message })
+        controller.error(new Error(`Failed to read export ${id}: ${error.message}`))
+        return
+      }
+      const parts = (data ?? []) as Array<{ part_number: number; data: string }>
+      for (const part of parts) {
+        controller.enqueue(fromBytea(part.data))
+        nextPart = part.part_number + 1
+      }
+      if (parts.length < DOWNLOAD_PARTS_PER_READ) controller.close()
+    }
+  })
+  return { job, body }
+}
+
+/** Deletes exports past their download window; their parts cascade. */
+export async function purgeExpiredExports(supabase: SupabaseClient, now: Date = new Date()): Promise<number> {
+  const { data, error } = await supabase
+    .from('export_jobs')
+    .delete()
+    .lt('expires_at', now.toISOString())
+    .select('id')
+  if (error) {
+    throw new Error(`Failed to purge expired exports: ${error.message}`)
+  }
+  return data?.length ?? 0
+}
@@ -0,0 +1,124 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/utils/logger'
+import { DATASETS, type ExportDatasetName } from '@/lib/export/datasets'
+import { createExportEncoder, type ExportFormat } from '@/lib/export/formats'
+import type { ParquetColumn } from '@/lib/export/parquet'
+
+/** Rows per database read, CSV/NDJSON chunk and Parquet row group. */
+export const EXPORT_BATCH_SIZE = 1000
+export const DEFAULT_EXPORT_LIMIT = 50_000
+/** Rows one streaming request may return; larger exports page with cursors or run as jobs. */
+export const MAX_EXPORT_LIMIT = 100_000
+
+const CURSOR_PREFIX = 'x1:'
+
+export interface ExportQuery {
+  dataset: ExportDatasetName
+  fields: ParquetColumn[]
+  /** ISO date or timestamp; rows changed (snapshots: created) at or after it. */
+  updatedSince?: string | null
+}
+
+export interface ExportRange {
+  /** Exclusive lower bound: the last id already delivered. */
+  after?: string | null
+  /** Inclusive upper bound for this page; null runs to the end. */
+  through?: string | null
+}
+
+/** Keyset cursors are bound to their dataset so one cannot resume another. */
+export function encodeExportCursor(dataset: ExportDatasetName, lastId: string): string {
+  return Buffer.from(`${CURSOR_PREFIX}${dataset}:${lastId}`, 'utf8').toString('base64url')
+}
+
+export function decodeExportCursor(cursor: string, dataset: ExportDatasetName): string | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8')
+  const prefix = `${CURSOR_PREFIX}${dataset}:`
+  if (!decoded.startsWith(prefix)) return null
+  const lastId = decoded.slice(prefix.length)
+  return lastId.length > 0 ? lastId : null
+}
+
+function baseQuery(supabase: SupabaseClient, query: ExportQuery, columns: string, range: ExportRange) {
+  const dataset = DATASETS[query.dataset]
+  let builder = supabase.from(dataset.table).select(columns)
+  if (range.after) builder = builder.gt('id', range.after)
+  if (range.through) builder = builder.lte('id', range.through)
+  if (query.updatedSince) builder = builder.gte(dataset.timestampColumn, query.updatedSince)
+  return builder.order('id', { ascending: true })
+}
+
+/** The next `limit` rows after `range.after`, in id order. Always selects `id` for the cursor. */
+export async function fetchExportBatch(
+  supabase: SupabaseClient,
+  query: ExportQuery,
+  range: ExportRange,
+  limit: number = EXPORT_BATCH_SIZE
+): Promise<Array<Record<string, unknown>>> {
+  const names = Array.from(new Set(['id', ...query.fields.map((field) => field.name)]))
+  const { data, error } = await baseQuery(supabase, query, names.join(', '), range).limit(limit)
+  if (error) throw new Error(`Failed to read ${query.dataset} for export: ${error.message}`)
+  return (data ?? []) as unknown as Array<Record<string, unknown>>
+}
+
+/**
+ * Bounds one page of a streamed export before streaming starts, so the next
+ * cursor can go in the response headers. `through` is the page's last id
+ * when more rows follow it.
+ */
+export async function planExportPage(
+  supabase: SupabaseClient,
+  query: ExportQuery,
+  after: string | null,
+  limit: number
+): Promise<{ through: string | null; nextCursor: string | null }> {
+  const { data, error } = await baseQuery(supabase, query, 'id', { after }).range(limit - 1, limit)
+  if (error) throw new Error(`Failed to plan ${query.dataset} export: ${error.message}`)
+  const boundary = (data ?? []) as unknown as Array<{ id: string }>
+  if (boundary.length < 2) return { through: null, nextCursor: null }
+  return { through: boundary[0].id, nextCursor: encodeExportCursor(query.dataset, boundary[0].id) }
+}
+
+/**
+ * Streams the rows in `range` as one complete file, reading a batch per pull
+ * so memory stays flat however large the export is.
+ */
+export function streamExport(
+  supabase: SupabaseClient,
+  query: ExportQuery,
+  format: ExportFormat,
+  range: ExportRange = {}
+): ReadableStream<Uint8Array> {
+  const encoder = createExportEncoder(format, query.fields)
+  let after = range.after ?? null
+  let started = false
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!started) {
+          started = true
+          const preamble = encoder.start()
+          if (preamble.length > 0) {
+            controller.enqueue(preamble)
+            return
+          }
+        }
+
+        const rows = await fetchExportBatch(supabase, query, { after, through: range.through })
+        if (rows.length > 0) {
+          controller.enqueue(encoder.rows(rows))
+          after = String(rows[rows.length - 1].id)
+        }
+        if (rows.length < EXPORT_BATCH_SIZE) {
+          const trailer = encoder.finish()
+          if (trailer.length > 0) controller.enqueue(trailer)
+          controller.close()
+        }
+      } catch (error) {
+        logger.error('Export stream failed', { dataset: query.dataset, format, after, error })
+        controller.error(error)
+      }
+    }
+  })
+}
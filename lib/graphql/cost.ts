@@ -0,0 +1,159 @@
+import {
+  Kind,
+  getArgumentValues,
+  getNamedType,
+  isObjectType,
+  type FragmentDefinitionNode,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+  type OperationDefinitionNode,
+  type SelectionSetNode
+} from 'graphql'
+import { MAX_LIST_LIMIT } from '@/lib/graphql/loaders'
+import type { ApiKeyScope } from '@/lib/security/api-keys'
+
+/** Cost points one rate-limited request buys; a query is charged `ceil(cost / 5)` requests. */
+export const COST_POINTS_PER_REQUEST = 5
+/** Ceiling on a single query's cost, whatever the key's rate limit. */
+export const MAX_QUERY_COST = 500
+export const MAX_QUERY_DEPTH = 6
+
+/** Assignments a judge is assumed to have when costing `Judge.assignments`. */
+const ASSIGNMENTS_ESTIMATE = 10
+
+// Fields that load rows. Scalar columns are free; relations cost one lookup.
+const FIELD_COSTS: Record<string, number> = {
+  'Query.judge': 1,
+  'Query.judges': 1,
+  'Query.search_judges': 2,
+  'Query.court': 1,
+  'Query.case': 1,
+  'Judge.court': 1,
+  'Judge.court_slug': 1,
+  'Judge.assignments': 1,
+  'Judge.recent_cases': 1,
+  'Judge.analytics': 1,
+  'Judge.bias_analysis': 5,
+  'Case.judge': 1,
+  'Case.court': 1,
+  'CourtAssignment.judge': 1,
+  'CourtAssignment.court': 1
+}
+
+/**
+ * Rows a list argument may return, kept within what resolvers accept.
+ * Out-of-range arguments fail in their resolver, but siblings still run, so
+ * a negative or huge value must not lower or inflate the estimate.
+ */
+function listSize(value: unknown): number {
+  const size = Math.trunc(Number(value))
+  return Number.isFinite(size) ? Math.min(MAX_LIST_LIMIT, Math.max(1, size)) : 1
+}
+
+// How many times a list field's selection is resolved
+const FIELD_MULTIPLIERS: Record<string, (args: Record<string, unknown>) => number> = {
+  'Query.judges': (args) => listSize(Array.isArray(args.ids) ? args.ids.length : 1),
+  'Query.search_judges': (args) => listSize(args.limit),
+  'Judge.recent_cases': (args) => listSize(args.limit),
+  'Judge.assignments': () => ASSIGNMENTS_ESTIMATE
+}
+
+/** Fields that need a scope beyond the endpoint's `judges:read`. */
+export const FIELD_SCOPES: Record<string, ApiKeyScope> = {
+  'Judge.analytics': 'analytics:read',
+  'Judge.bias_analysis': 'analytics:read'
+}
+
+export interface QueryAnalysis {
+  cost: number
+  depth: number
+  /** Extra scopes the selected fields need. */
+  scopes: ApiKeyScope[]
+}
+
+interface Walk {
+  schema: GraphQLSchema
+  fragments: Record<string, FragmentDefinitionNode>
+  variables: Record<string, unknown>
+  scopes: Set<ApiKeyScope>
+}
+
+interface SelectionCost {
+  cost: number
+  depth: number
+}
+
+function conditionType(walk: Walk, typeName: string | undefined, fallback: GraphQLObjectType): GraphQLObjectType {
+  const type = typeName ? walk.schema.getType(typeName) : fallback
+  return isObjectType(type) ? type : fallback
+}
+
+function fieldCost(
+  walk: Walk,
+  parentType: GraphQLObjectType,
+  node: Extract<SelectionSetNode['selections'][number], { kind: Kind.FIELD }>
+): SelectionCost {
+  const definition = parentType.getFields()[node.name.value]
+  // Introspection and unknown fields (rejected by validation) are free
+  if (!definition) return { cost: 0, depth: 1 }
+
+  const key = `${parentType.name}.${node.name.value}`
+  const scope = FIELD_SCOPES[key]
+  if (scope) walk.scopes.add(scope)
+
+  const ownCost = FIELD_COSTS[key] ?? 0
+  const namedType = getNamedType(definition.type)
+  if (!node.selectionSet || !isObjectType(namedType)) return { cost: ownCost, depth: 1 }
+
+  const child = selectionSetCost(walk, namedType, node.selectionSet)
+  const multiplier = FIELD_MULTIPLIERS[key]?.(getArgumentValues(definition, node, walk.variables)) ?? 1
+  return { cost: ownCost + multiplier * child.cost, depth: child.depth + 1 }
+}
+
+function selectionSetCost(walk: Walk, parentType: GraphQLObjectType, selectionSet: SelectionSetNode): SelectionCost {
+  const total: SelectionCost = { cost: 0, depth: 0 }
+  for (const selection of selectionSet.selections) {
+    let part: SelectionCost
+    if (selection.kind === Kind.FIELD) {
+      part = fieldCost(walk, parentType, selection)
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const type = conditionType(walk, selection.typeCondition?.name.value, parentType)
+      part = selectionSetCost(walk, type, selection.selectionSet)
+    } else {
+      const fragment = walk.fragments[selection.name.value]
+      if (!fragment) continue
+      part = selectionSetCost(walk, conditionType(walk, fragment.typeCondition.name.value, parentType), fragment.selectionSet)
+    }
+    total.cost += part.cost
+    total.depth = Math.max(total.depth, part.depth)
+  }
+  return total
+}
+
+/**
+ * Static cost of a validated operation: each row-loading field costs its
+ * `FIELD_COSTS` entry plus its selection times the rows it may return. It is
+ * an upper bound; `@skip`/`@include` are not evaluated.
+ */
+export function analyzeQuery(
+  schema: GraphQLSchema,
+  operation: OperationDefinitionNode,
+  fragments: Record<string, FragmentDefinitionNode>,
+  variables: Record<string, unknown>
+): QueryAnalysis {
+  const root = schema.getRootType(operation.operation)
+  if (!root) return { cost: 0, depth: 0, scopes: [] }
+  const walk: Walk = { schema, fragments, variables, scopes: new Set() }
+  const { cost, depth } = selectionSetCost(walk, root, operation.selectionSet)
+  return { cost, depth, scopes: [...walk.scopes] }
+}
+
+/** The largest cost a caller allowed `requestsPerMinute` may run in one query. */
+export function maxQueryCost(requestsPerMinute: number): number {
+  return Math.min(MAX_QUERY_COST, requestsPerMinute * COST_POINTS_PER_REQUEST)
+}
+
+/** Rate-limited requests a query of `cost` uses, at least one. */
+export function requestsForCost(cost: number): number {
+  return Math.max(1, Math.ceil(cost / COST_POINTS_PER_REQUEST))
+}
@@ -0,0 +1,177 @@
+import {
+  GraphQLError,
+  Kind,
+  execute,
+  getOperationAST,
+  getVariableValues,
+  parse,
+  validate,
+  type DocumentNode,
+  type FragmentDefinitionNode,
+  type GraphQLFormattedError
+} from 'graphql'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ApiKeyScope } from '@/lib/security/api-keys'
+import { analyzeQuery, MAX_QUERY_DEPTH, requestsForCost, type QueryAnalysis } from '@/lib/graphql/cost'
+import { createLoaders, type GraphQLLoaders } from '@/lib/graphql/loaders'
+import { resolveQueryText, storePersistedQuery } from '@/lib/graphql/persisted'
+import { getGraphQLSchema } from '@/lib/graphql/schema'
+import { logger } from '@/lib/utils/logger'
+
+export interface GraphQLRequestBody {
+  query?: string
+  variables?: Record<string, unknown> | null
+  operationName?: string | null
+  extensions?: Record<string, unknown> | null
+}
+
+export interface GraphQLExecuteOptions {
+  supabase: SupabaseClient
+  /** The customer key's scopes; null for callers without one, who may select every field. */
+  scopes: readonly ApiKeyScope[] | null
+  maxCost: number
+  /** Charges the requests a query uses beyond the one already counted; false when rate limited. */
+  charge: (requests: number) => Promise<boolean>
+  loaders?: GraphQLLoaders
+}
+
+export interface GraphQLResponseBody {
+  data?: Record<string, unknown> | null
+  errors?: GraphQLFormattedError[]
+  extensions?: Record<string, unknown>
+}
+
+export interface GraphQLHttpResult {
+  status: number
+  body: GraphQLResponseBody
+}
+
+const MAX_CACHED_DOCUMENTS = 200
+// Parsed documents by query text; persisted queries repeat, so most parses are hits
+const documentCache = new Map<string, DocumentNode>()
+
+function failure(status: number, code: string, message: string, extensions?: Record<string, unknown>): GraphQLHttpResult {
+  return { status, body: { errors: [{ message, extensions: { code } }], ...(extensions ? { extensions } : {}) } }
+}
+
+function parseDocument(query: string): DocumentNode | GraphQLError {
+  const cached = documentCache.get(query)
+  if (cached) return cached
+  try {
+    const document = parse(query)
+    if (documentCache.size >= MAX_CACHED_DOCUMENTS) {
+      documentCache.delete(documentCache.keys().next().value as string)
+    }
+    documentCache.set(query, document)
+    return document
+  } catch (error) {
+    if (error instanceof GraphQLError) return error
+    throw error
+  }
+}
+
+function fragmentsOf(document: DocumentNode): Record<string, FragmentDefinitionNode> {
+  const fragments: Record<string, FragmentDefinitionNode> = {}
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) fragments[definition.name.value] = definition
+  }
+  return fragments
+}
+
+/** Hides resolver failures that are not GraphQL errors; they may carry database details. */
+function formatError(error: GraphQLError): GraphQLFormattedError {
+  const original = error.originalError
+  if (!original || original instanceof GraphQLError) return error.toJSON()
+  logger.error('GraphQL resolver failed', { path: error.path?.join('.'), error: original })
+  return {
+    message: 'Internal server error',
+    locations: error.locations,
+    path: error.path,
+    extensions: { code: 'INTERNAL_SERVER_ERROR' }
+  }
+}
+
+function checkAnalysis(analysis: QueryAnalysis, options: GraphQLExecuteOptions): GraphQLHttpResult | null {
+  const cost = { requested: analysis.cost, maximum: options.maxCost }
+  if (analysis.depth > MAX_QUERY_DEPTH) {
+    return failure(400, 'QUERY_TOO_DEEP', `Query depth ${analysis.depth} exceeds the maximum of ${MAX_QUERY_DEPTH}`)
+  }
+  if (analysis.cost > options.maxCost) {
+    return failure(400, 'QUERY_TOO_COSTLY', `Query cost ${analysis.cost} exceeds the maximum of ${options.maxCost}`, { cost })
+  }
+  const missing = options.scopes ? analysis.scopes.filter((scope) => !options.scopes?.includes(scope)) : []
+  if (missing.length > 0) {
+    return failure(403, 'FORBIDDEN', `API key lacks the ${missing.join(', ')} scope required by the selected fields`)
+  }
+  return null
+}
+
+type Prepared =
+  | { ok: true; document: DocumentNode; analysis: QueryAnalysis; persist: (() => Promise<void>) | null }
+  | { ok: false; result: GraphQLHttpResult }
+
+async function prepare(body: GraphQLRequestBody, options: GraphQLExecuteOptions): Promise<Prepared> {
+  const resolved = await resolveQueryText(options.supabase, body.query, body.extensions)
+  if (!resolved.ok) return { ok: false, result: failure(resolved.status, resolved.code, resolved.message) }
+
+  const schema = getGraphQLSchema()
+  const document = parseDocument(resolved.query)
+  if (document instanceof GraphQLError) return { ok: false, result: { status: 400, body: { errors: [document.toJSON()] } } }
+  const validationErrors = validate(schema, document)
+  if (validationErrors.length > 0) {
+    return { ok: false, result: { status: 400, body: { errors: validationErrors.map((error) => error.toJSON()) } } }
+  }
+
+  const operation = getOperationAST(document, body.operationName ?? undefined)
+  if (!operation) return { ok: false, result: failure(400, 'BAD_REQUEST', 'Could not determine the operation to run') }
+  if (operation.operation !== 'query') {
+    return { ok: false, result: failure(400, 'BAD_REQUEST', 'Only query operations are supported') }
+  }
+  const variables = getVariableValues(schema, operation.variableDefinitions ?? [], body.variables ?? {})
+  if (variables.errors) {
+    return { ok: false, result: { status: 400, body: { errors: variables.errors.map((error) => error.toJSON()) } } }
+  }
+
+  const analysis = analyzeQuery(schema, operation, fragmentsOf(document), variables.coerced)
+  const { persistAs } = resolved
+  const persist = persistAs ? () => storePersistedQuery(options.supabase, persistAs, resolved.query) : null
+  return { ok: true, document, analysis, persist }
+}
+
+/**
+ * Runs one GraphQL-over-HTTP request: resolves persisted queries, validates,
+ * checks depth, cost and field scopes, charges the cost against the rate
+ * limit and executes with fresh per-request loaders.
+ */
+export async function executeGraphQLRequest(
+  body: GraphQLRequestBody,
+  options: GraphQLExecuteOptions
+): Promise<GraphQLHttpResult> {
+  const prepared = await prepare(body, options)
+  if (!prepared.ok) return prepared.result
+  const { document, analysis, persist } = prepared
+
+  const rejected = checkAnalysis(analysis, options)
+  if (rejected) return rejected
+  if (persist) await persist()
+
+  const requests = requestsForCost(analysis.cost)
+  if (!(await options.charge(requests - 1))) return failure(429, 'RATE_LIMITED', 'Rate limit exceeded')
+
+  const result = await execute({
+    schema: getGraphQLSchema(),
+    document,
+    operationName: body.operationName ?? undefined,
+    variableValues: body.variables ?? undefined,
+    contextValue: { supabase: options.supabase, loaders: options.loaders ?? createLoaders(options.supabase) }
+  })
+
+  return {
+    status: 200,
+    body: {
+      data: result.data ?? null,
+      ...(result.errors ? { errors: result.errors.map(formatError) } : {}),
+      extensions: { cost: { requested: analysis.cost, maximum: options.maxCost, requests } }
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import DataLoader from 'dataloader'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CourtAssignment } from '@/types'
+import type { CaseRecord } from '@/lib/analytics/bias-calculations'
+import { BIAS_CASE_COLUMNS, buildBiasAnalysis, type BiasAnalysis } from '@/lib/analytics/bias-analysis'
+import { getCourtBaseline, type CourtBaseline } from '@/lib/analytics/baselines'
+import { isSyntheticAnalytics, type AnalyticsPayload } from '@/lib/analytics/snapshots'
+import { TRUSTED_ATTRIBUTION_FILTER } from '@/lib/sync/case-attribution'
+import { isValidUUID } from '@/lib/utils/validation'
+
+export const JUDGE_COLUMNS =
+  'id, name, slug, court_id, court_name, jurisdiction, appointed_date, education, profile_image_url, bio, total_cases, reversal_rate, average_decision_time, courtlistener_id, aliases, created_at, updated_at'
+const COURT_COLUMNS =
+  'id, name, slug, type, jurisdiction, address, phone, website, judge_count, courtlistener_id, courthouse_metadata, created_at, updated_at'
+const CASE_COLUMNS =
+  'id, case_number, case_name, judge_id, court_id, case_type, filing_date, decision_date, status, outcome, summary, courtlistener_id, source_url, jurisdiction, created_at, updated_at'
+const ASSIGNMENT_COLUMNS =
+  'id, judge_id, court_id, assignment_start_date, assignment_end_date, assignment_type, assignment_status, position_title, department, calendar_type, workload_percentage, appointment_authority, confirmation_date, notes, metadata, data_source, last_verified_date, created_at, updated_at'
+
+/** Most rows a single list field may return. */
+export const MAX_LIST_LIMIT = 50
+
+export type Row = Record<string, unknown>
+
+export interface JudgeAnalyticsRow {
+  analytics: AnalyticsPayload
+  generated_at: string
+}
+
+export interface RecentCasesKey {
+  judgeId: string
+  limit: number
+}
+
+/**
+ * Per-request loaders. Each batches the lookups made while resolving one
+ * query into a single Supabase call and caches the results for that query.
+ */
+export interface GraphQLLoaders {
+  judges: DataLoader<string, Row | null>
+  judgesBySlug: DataLoader<string, Row | null>
+  courts: DataLoader<string, Row | null>
+  courtsBySlug: DataLoader<string, Row | null>
+  cases: DataLoader<string, Row | null>
+  assignmentsByJudge: DataLoader<string, CourtAssignment[]>
+  recentCases: DataLoader<RecentCasesKey, Row[], string>
+  analyticsByJudge: DataLoader<string, JudgeAnalyticsRow | null>
+  biasByJudge: DataLoader<string, BiasAnalysis | null>
+  courtBaselines: DataLoader<string, CourtBaseline | null>
+}
+
+export interface LoaderOptions {
+  /** Court baseline lookup; defaults to the cached `getCourtBaseline`. */
+  courtBaseline?: (courtId: string) => Promise<CourtBaseline | null>
+}
+
+function groupBy<T extends Row>(rows: T[], column: string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const row of rows) {
+    const key = String(row[column])
+    groups.set(key, [...(groups.get(key) ?? []), row])
+  }
+  return groups
+}
+
+/** Rows keyed by `column`, one per key, in key order; keys that are not UUIDs never reach the query. */
+function rowsByColumn(
+  supabase: SupabaseClient,
+  table: string,
+  columns: string,
+  column: string,
+  { uuidKeys }: { uuidKeys: boolean }
+): DataLoader<string, Row | null> {
+  return new DataLoader(async (keys) => {
+    const queryable = keys.filter((key) => !uuidKeys || isValidUUID(key))
+    if (queryable.length === 0) return keys.map(() => null)
+    const { data, error } = await supabase.from(table).select(columns).in(column, queryable)
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`)
+    const found = new Map(((data ?? []) as unknown as Row[]).map((row) => [String(row[column]), row]))
+    return keys.map((key) => found.get(key) ?? null)
+  })
+}
+
+function assignmentsLoader(supabase: SupabaseClient): GraphQLLoaders['assignmentsByJudge'] {
+  return new DataLoader(async (judgeIds) => {
+    const { data, error } = await supabase
+      .from('court_assignments')
+      .select(ASSIGNMENT_COLUMNS)
+      .in('judge_id', [...judgeIds])
+      .order('assignment_start_date', { ascending: false })
+    if (error) throw new Error(`Failed to load court assignments: ${error.message}`)
+    const groups = groupBy((data ?? []) as unknown as Row[], 'judge_id')
+    return judgeIds.map((id) => (groups.get(id) ?? []) as unknown as CourtAssignment[])
+  })
+}
+
+function recentCasesLoader(supabase: SupabaseClient): GraphQLLoaders['recentCases'] {
+  return new DataLoader(
+    async (keys) => {
+      // One call per distinct limit; get_recent_cases_for_judges applies it per judge
+      const byJudge = new Map<string, Row[]>()
+      for (const limit of new Set(keys.map((key) => key.limit))) {
+        const judgeIds = keys.filter((key) => key.limit === limit).map((key) => key.judgeId)
+        const { data, error } = await supabase.rpc('get_recent_cases_for_judges', {
+          p_judge_ids: judgeIds,
+          p_limit: limit
+        })
+        if (error) throw new Error(`Failed to load recent cases: ${error.message}`)
+        for (const [judgeId, rows] of groupBy((data ?? []) as Row[], 'judge_id')) {
+          byJudge.set(`${judgeId}:${limit}`, rows)
+        }
+      }
+      return keys.map((key) => byJudge.get(`${key.judgeId}:${key.limit}`) ?? [])
+    },
+    { cacheKeyFn: (key) => `${key.judgeId}:${key.limit}` }
+  )
+}
+
+function analyticsLoader(supabase: SupabaseClient): GraphQLLoaders['analyticsByJudge'] {
+  return new DataLoader(async (judgeIds) => {
+    const { data, error } = await supabase
+      .from('judge_analytics_cache')
+      .select('judge_id, analytics, created_at')
+      .in('judge_id', [...judgeIds])
+    if (error) throw new Error(`Failed to load judge analytics: ${error.message}`)
+    const found = new Map<string, JudgeAnalyticsRow>()
+    for (const row of (data ?? []) as Array<{ judge_id: string; analytics: AnalyticsPayload | null; created_at: string }>) {
+      if (row.analytics && !isSyntheticAnalytics(row.analytics)) {
+        found.set(row.judge_id, { analytics: row.analytics, generated_at: row.created_at })
+      }
+    }
+    return judgeIds.map((id) => found.get(id) ?? null)
+  })
+}
+
+function biasLoader(supabase: SupabaseClient): GraphQLLoaders['biasByJudge'] {
+  return new DataLoader(async (judgeIds) => {
+    const { data, error } = await supabase
+      .from('cases')
+      .select(`judge_id, ${BIAS_CASE_COLUMNS}`)
+      .in('judge_id', [...judgeIds])
+      .or(TRUSTED_ATTRIBUTION_FILTER)
+      .not('decision_date', 'is', null)
+    if (error) throw new Error(`Failed to load cases for bias analysis: ${error.message}`)
+    const groups = groupBy((data ?? []) as unknown as Row[], 'judge_id')
+    return judgeIds.map((id) => {
+      const rows = groups.get(id)
+      return rows ? buildBiasAnalysis(rows as unknown as CaseRecord[]) : null
+    })
+  })
+}
+
+export function createLoaders(supabase: SupabaseClient, options: LoaderOptions = {}): GraphQLLoaders {
+  const courtBaseline = options.courtBaseline ?? getCourtBaseline
+  return {
+    judges: rowsByColumn(supabase, 'judges', JUDGE_COLUMNS, 'id', { uuidKeys: true }),
+    judgesBySlug: rowsByColumn(supabase, 'judges', JUDGE_COLUMNS, 'slug', { uuidKeys: false }),
+    courts: rowsByColumn(supabase, 'courts', COURT_COLUMNS, 'id', { uuidKeys: true }),
+    courtsBySlug: rowsByColumn(supabase, 'courts', COURT_COLUMNS, 'slug', { uuidKeys: false }),
+    cases: rowsByColumn(supabase, 'cases', CASE_COLUMNS, 'id', { uuidKeys: true }),
+    assignmentsByJudge: assignmentsLoader(supabase),
+    recentCases: recentCasesLoader(supabase),
+    analyticsByJudge: analyticsLoader(supabase),
+    biasByJudge: biasLoader(supabase),
+    courtBaselines: new DataLoader(async (courtIds) => Promise.all(courtIds.map((id) => courtBaseline(id))))
+  }
+}
@@ -0,0 +1,76 @@
+import { createHash } from 'node:crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/** Longest query text accepted, inline or persisted. */
+export const MAX_QUERY_LENGTH = 10_000
+
+export interface PersistedQueryExtension {
+  version: number
+  sha256Hash: string
+}
+
+/** `persistAs` is the hash to store the query under once it validates. */
+export type ResolvedQuery =
+  | { ok: true; query: string; persistAs: string | null }
+  | { ok: false; status: number; code: string; message: string }
+
+export function sha256Hex(query: string): string {
+  return createHash('sha256').update(query).digest('hex')
+}
+
+function persistedExtension(extensions: unknown): PersistedQueryExtension | null {
+  if (!extensions || typeof extensions !== 'object') return null
+  const persisted = (extensions as { persistedQuery?: unknown }).persistedQuery
+  if (!persisted || typeof persisted !== 'object') return null
+  const { version, sha256Hash } = persisted as Partial<PersistedQueryExtension>
+  return { version: Number(version), sha256Hash: String(sha256Hash ?? '').toLowerCase() }
+}
+
+function failure(status: number, code: string, message: string): ResolvedQuery {
+  return { ok: false, status, code, message }
+}
+
+/**
+ * Automatic persisted queries, as Apollo clients send them. A request with
+ * `extensions.persistedQuery.sha256Hash` and no `query` runs the stored
+ * query; when the hash is unknown the client retries with both, and the
+ * query is stored after it validates.
+ */
+export async function resolveQueryText(
+  supabase: SupabaseClient,
+  query: string | undefined,
+  extensions: unknown
+): Promise<ResolvedQuery> {
+  const persisted = persistedExtension(extensions)
+  if (!persisted) {
+    if (!query) return failure(400, 'BAD_REQUEST', 'Missing query')
+    if (query.length > MAX_QUERY_LENGTH) return failure(400, 'BAD_REQUEST', 'Query is too long')
+    return { ok: true, query, persistAs: null }
+  }
+
+  if (persisted.version !== 1) return failure(400, 'PERSISTED_QUERY_NOT_SUPPORTED', 'Unsupported persisted query version')
+  if (!/^[0-9a-f]{64}$/.test(persisted.sha256Hash)) return failure(400, 'BAD_REQUEST', 'Invalid persisted query hash')
+
+  if (query) {
+    if (query.length > MAX_QUERY_LENGTH) return failure(400, 'BAD_REQUEST', 'Query is too long')
+    if (sha256Hex(query) !== persisted.sha256Hash) return failure(400, 'BAD_REQUEST', 'provided sha does not match query')
+    return { ok: true, query, persistAs: persisted.sha256Hash }
+  }
+
+  const { data, error } = await supabase
+    .from('graphql_persisted_queries')
+    .select('query')
+    .eq('sha256', persisted.sha256Hash)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load persisted query: ${error.message}`)
+  // Apollo clients look for this message to resend the full query
+  if (!data) return failure(200, 'PERSISTED_QUERY_NOT_FOUND', 'PersistedQueryNotFound')
+  return { ok: true, query: String((data as { query: string }).query), persistAs: null }
+}
+
+export async function storePersistedQuery(supabase: SupabaseClient, sha256: string, query: string): Promise<void> {
+  const { error } = await supabase
+    .from('graphql_persisted_queries')
+    .upsert({ sha256, query, created_at: new Date().toISOString() }, { onConflict: 'sha256', ignoreDuplicates: true })
+  if (error) throw new Error(`Failed to store persisted query: ${error.message}`)
+}
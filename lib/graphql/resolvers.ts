@@ -0,0 +1,112 @@
+import { GraphQLError, type GraphQLFieldResolver } from 'graphql'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CourtAssignment } from '@/types'
+import { JUDGE_COLUMNS, MAX_LIST_LIMIT, type GraphQLLoaders, type Row } from '@/lib/graphql/loaders'
+
+export interface GraphQLContext {
+  supabase: SupabaseClient
+  loaders: GraphQLLoaders
+}
+
+type Resolver = GraphQLFieldResolver<Row, GraphQLContext, any>
+
+function badInput(message: string): GraphQLError {
+  return new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } })
+}
+
+function checkLimit(limit: number): number {
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw badInput(`limit must be between 1 and ${MAX_LIST_LIMIT}`)
+  }
+  return limit
+}
+
+function byIdOrSlug(
+  loader: (loaders: GraphQLLoaders) => [GraphQLLoaders['judges'], GraphQLLoaders['judgesBySlug']]
+): Resolver {
+  return (_root, { id, slug }: { id?: string | null; slug?: string | null }, { loaders }) => {
+    const [byId, bySlug] = loader(loaders)
+    if (id) return byId.load(id)
+    if (slug) return bySlug.load(slug)
+    throw badInput('Provide id or slug')
+  }
+}
+
+function related(column: string, loader: (loaders: GraphQLLoaders) => GraphQLLoaders['judges']): Resolver {
+  return (row, _args, { loaders }) => (row[column] ? loader(loaders).load(String(row[column])) : null)
+}
+
+function isCurrent(assignment: CourtAssignment, today: string): boolean {
+  if (assignment.assignment_status !== 'active') return false
+  return !assignment.assignment_end_date || assignment.assignment_end_date >= today
+}
+
+const queryFields: Record<string, Resolver> = {
+  judge: byIdOrSlug((loaders) => [loaders.judges, loaders.judgesBySlug]),
+  judges: (_root, { ids }: { ids: string[] }, { loaders }) => {
+    if (ids.length > MAX_LIST_LIMIT) throw badInput(`At most ${MAX_LIST_LIMIT} ids per query`)
+    return Promise.all(ids.map((id) => loaders.judges.load(id)))
+  },
+  search_judges: async (
+    _root,
+    { query, jurisdiction, limit }: { query: string; jurisdiction?: string | null; limit: number },
+    { supabase, loaders }
+  ) => {
+    const term = query.trim()
+    if (term.length < 2) return []
+    let builder = supabase.from('judges').select(JUDGE_COLUMNS).ilike('name', `%${term}%`)
+    if (jurisdiction) builder = builder.eq('jurisdiction', jurisdiction)
+    const { data, error } = await builder.order('name', { ascending: true }).limit(checkLimit(limit))
+    if (error) throw new Error(`Judge search failed: ${error.message}`)
+    const judges = (data ?? []) as unknown as Row[]
+    for (const judge of judges) loaders.judges.prime(String(judge.id), judge)
+    return judges
+  },
+  court: byIdOrSlug((loaders) => [loaders.courts, loaders.courtsBySlug]),
+  case: (_root, { id }: { id: string }, { loaders }) => loaders.cases.load(id)
+}
+
+const judgeFields: Record<string, Resolver> = {
+  aliases: (judge) => (Array.isArray(judge.aliases) ? judge.aliases : []),
+  total_cases: (judge) => Number(judge.total_cases ?? 0),
+  reversal_rate: (judge) => Number(judge.reversal_rate ?? 0),
+  court: related('court_id', (loaders) => loaders.courts),
+  court_slug: async (judge, _args, { loaders }) => {
+    if (!judge.court_id) return null
+    const court = await loaders.courts.load(String(judge.court_id))
+    return court?.slug ?? null
+  },
+  assignments: async (judge, { current }: { current: boolean }, { loaders }) => {
+    const assignments = await loaders.assignmentsByJudge.load(String(judge.id))
+    if (!current) return assignments
+    const today = new Date().toISOString().slice(0, 10)
+    return assignments.filter((assignment) => isCurrent(assignment, today))
+  },
+  recent_cases: (judge, { limit }: { limit: number }, { loaders }) =>
+    loaders.recentCases.load({ judgeId: String(judge.id), limit: checkLimit(limit) }),
+  analytics: (judge, _args, { loaders }) => loaders.analyticsByJudge.load(String(judge.id)),
+  bias_analysis: async (judge, _args, { loaders }) => {
+    const analysis = await loaders.biasByJudge.load(String(judge.id))
+    if (!analysis) return null
+    const courtBaseline = judge.court_id ? await loaders.courtBaselines.load(String(judge.court_id)) : null
+    return { ...analysis, court_baseline: courtBaseline }
+  }
+}
+
+const caseFields: Record<string, Resolver> = {
+  judge: related('judge_id', (loaders) => loaders.judges),
+  court: related('court_id', (loaders) => loaders.courts)
+}
+
+const courtAssignmentFields: Record<string, Resolver> = {
+  judge: related('judge_id', (loaders) => loaders.judges),
+  court: related('court_id', (loaders) => loaders.courts)
+}
+
+/** Field resolvers by type; fields not listed resolve to the row column of the same name. */
+export const resolvers: Record<string, Record<string, Resolver>> = {
+  Query: queryFields,
+  Judge: judgeFields,
+  Case: caseFields,
+  CourtAssignment: courtAssignmentFields
+}
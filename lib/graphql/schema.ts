@@ -0,0 +1,142 @@
+import { buildSchema, isObjectType, type GraphQLSchema } from 'graphql'
+import { resolvers } from '@/lib/graphql/resolvers'
+
+/**
+ * Read-only schema for `/api/v1/graphql`. Object types mirror `Judge`,
+ * `Court`, `Case` and `CourtAssignment` in `types/index.ts`, keeping their
+ * snake_case field names; relations replace the REST calls integrations
+ * otherwise chain per judge.
+ */
+export const typeDefs = /* GraphQL */ `
+  "Arbitrary JSON: analytics payloads and metadata."
+  scalar JSON
+
+  type Query {
+    "A judge by ID or slug."
+    judge(id: ID, slug: String): Judge
+    "Up to 50 judges in the order requested; null for unknown IDs."
+    judges(ids: [ID!]!): [Judge]!
+    "Judges whose name contains the query, alphabetically."
+    search_judges(query: String!, jurisdiction: String, limit: Int = 10): [Judge!]!
+    "A court by ID or slug."
+    court(id: ID, slug: String): Court
+    case(id: ID!): Case
+  }
+
+  type Judge {
+    id: ID!
+    name: String!
+    slug: String
+    court_id: ID
+    court_name: String
+    court_slug: String
+    jurisdiction: String
+    appointed_date: String
+    education: String
+    profile_image_url: String
+    bio: String
+    total_cases: Int!
+    reversal_rate: Float!
+    "Days from filing to decision."
+    average_decision_time: Float
+    courtlistener_id: String
+    "Other known names, including merged duplicates."
+    aliases: [String!]!
+    created_at: String!
+    updated_at: String!
+    court: Court
+    "Court assignments, newest first. current: only active, unexpired ones."
+    assignments(current: Boolean = false): [CourtAssignment!]!
+    "Most recently decided (then filed) cases; limit 1-50."
+    recent_cases(limit: Int = 10): [Case!]!
+    "Latest cached analytics; null until they have been generated. Needs analytics:read."
+    analytics: JudgeAnalytics
+    "Same payload as /api/judges/{id}/bias-analysis; null without decided cases. Needs analytics:read."
+    bias_analysis: JSON
+  }
+
+  type JudgeAnalytics {
+    analytics: JSON!
+    generated_at: String!
+  }
+
+  type Court {
+    id: ID!
+    name: String!
+    slug: String
+    type: String
+    jurisdiction: String
+    address: String
+    phone: String
+    website: String
+    judge_count: Int
+    courtlistener_id: String
+    courthouse_metadata: JSON
+    created_at: String!
+    updated_at: String!
+  }
+
+  type Case {
+    id: ID!
+    case_number: String!
+    case_name: String!
+    judge_id: ID
+    court_id: ID
+    case_type: String
+    filing_date: String
+    decision_date: String
+    status: String
+    outcome: String
+    summary: String
+    courtlistener_id: String
+    source_url: String
+    jurisdiction: String
+    created_at: String!
+    updated_at: String!
+    judge: Judge
+    court: Court
+  }
+
+  type CourtAssignment {
+    id: ID!
+    judge_id: ID!
+    court_id: ID!
+    assignment_start_date: String!
+    assignment_end_date: String
+    assignment_type: String!
+    assignment_status: String!
+    position_title: String
+    department: String
+    calendar_type: String
+    workload_percentage: Float
+    appointment_authority: String
+    confirmation_date: String
+    notes: String
+    metadata: JSON
+    data_source: String
+    last_verified_date: String
+    created_at: String!
+    updated_at: String!
+    judge: Judge
+    court: Court
+  }
+`
+
+let schema: GraphQLSchema | null = null
+
+/** The executable schema: the SDL above with `resolvers` attached to its fields. */
+export function getGraphQLSchema(): GraphQLSchema {
+  if (schema) return schema
+  const built = buildSchema(typeDefs)
+  for (const [typeName, fields] of Object.entries(resolvers)) {
+    const type = built.getType(typeName)
+    if (!isObjectType(type)) throw new Error(`Resolvers given for unknown type ${typeName}`)
+    const definitions = type.getFields()
+    for (const [fieldName, resolve] of Object.entries(fields)) {
+      if (!definitions[fieldName]) throw new Error(`Resolver given for unknown field ${typeName}.${fieldName}`)
+      definitions[fieldName].resolve = resolve
+    }
+  }
+  schema = built
+  return schema
+}
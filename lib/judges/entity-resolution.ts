@@ -0,0 +1,343 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { generateNameVariations } from '@/lib/utils/slug'
+import { logger } from '@/lib/utils/logger'
+import { STATE_JURISDICTIONS } from '@/lib/jurisdictions/config'
+
+/**
+ * Judge entity resolution. The same judge can arrive from CourtListener, the
+ * California bulk import and the WCAB import under slightly different names;
+ * these helpers score how likely two records are the same person so likely
+ * pairs can be queued for review (or linked outright during sync).
+ */
+
+export interface JudgeIdentity {
+  id: string
+  name: string
+  aliases: string[]
+  courtId: string | null
+  courtName: string | null
+  jurisdiction: string | null
+  appointedDate: string | null
+  courtlistenerId: string | null
+}
+
+/** Per-signal scores from 0 to 1; null when either side lacks the data. */
+export interface JudgeMatchSignals {
+  name: number
+  court: number | null
+  appointment: number | null
+}
+
+export interface JudgeMatch {
+  score: number
+  signals: JudgeMatchSignals
+}
+
+export interface DuplicateCandidate extends JudgeMatch {
+  /** Lower id of the pair, matching the table's ordering constraint. */
+  judgeId: string
+  candidateId: string
+}
+
+/** Pairs at or above this score go to the admin review queue. */
+export const REVIEW_THRESHOLD = 0.7
+/** Sync links a CourtListener record to an existing judge at or above this score. */
+export const AUTO_LINK_THRESHOLD = 0.9
+
+const SIGNAL_WEIGHTS = { name: 0.6, court: 0.25, appointment: 0.15 }
+/** Missing evidence neither helps nor hurts. */
+const NEUTRAL_SIGNAL = 0.5
+/** Records carrying different CourtListener ids are distinct people upstream. */
+const CONFLICTING_ID_CAP = 0.5
+
+const PAGE_SIZE = 1000
+const UPSERT_CHUNK = 500
+
+const TITLE_PATTERN = /^(?:the\s+)?(?:hon(?:orable)?\.?|chief\s+justice|justice|presiding\s+judge|magistrate\s+judge|judge|commissioner|referee)\s+/i
+const SUFFIX_PATTERN = /,?\s+(?:jr|sr|ii|iii|iv)\.?$/i
+const COURT_STOPWORDS = new Set([
+  'court', 'of', 'the', 'for', 'state', 'superior', 'county', 'district', 'judicial',
+  ...STATE_JURISDICTIONS.map((state) => state.name.toLowerCase())
+])
+
+function stripTitles(name: string): string {
+  let value = name.replace(/\s+/g, ' ').trim().replace(SUFFIX_PATTERN, '')
+  const comma = value.indexOf(',')
+  if (comma > 0) {
+    value = `${value.slice(comma + 1).trim()} ${value.slice(0, comma).trim()}`
+  }
+  while (TITLE_PATTERN.test(value)) {
+    value = value.replace(TITLE_PATTERN, '')
+  }
+  return value
+}
+
+/**
+ * Comparable form of a judge name: titles and generational suffixes dropped,
+ * "Last, First" reordered, lowercased without periods.
+ */
+export function normalizeJudgeName(name: string): string {
+  return stripTitles(name)
+    .toLowerCase()
+    .replace(/\./g, ' ')
+    .replace(/[^a-z\s'-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function nameKeys(name: string): Set<string> {
+  const keys = new Set<string>()
+  for (const variation of generateNameVariations(stripTitles(name))) {
+    const key = normalizeJudgeName(variation)
+    if (key) keys.add(key)
+  }
+  return keys
+}
+
+function nameParts(name: string): { first: string; last: string } | null {
+  const parts = normalizeJudgeName(name).split(' ').filter(Boolean)
+  if (parts.length === 0) return null
+  return { first: parts.length > 1 ? parts[0] : '', last: parts[parts.length - 1] }
+}
+
+/** Normalized last name, used to narrow lookups before scoring. */
+export function judgeLastName(name: string): string | null {
+  return nameParts(name)?.last ?? null
+}
+
+function compatibleFirstNames(left: string, right: string): boolean {
+  if (!left || !right || left === right) return true
+  // "M Lopez" and "Maria Lopez"
+  return (left.length === 1 || right.length === 1) && left[0] === right[0]
+}
+
+function scoreNamePair(left: string, right: string): number {
+  const normalizedLeft = normalizeJudgeName(left)
+  const normalizedRight = normalizeJudgeName(right)
+  if (!normalizedLeft || !normalizedRight) return 0
+  if (normalizedLeft === normalizedRight) return 1
+
+  const rightKeys = nameKeys(right)
+  for (const key of nameKeys(left)) {
+    if (rightKeys.has(key)) return 0.9
+  }
+
+  const leftParts = nameParts(left)
+  const rightParts = nameParts(right)
+  if (!leftParts || !rightParts || leftParts.last !== rightParts.last) return 0
+  return compatibleFirstNames(leftParts.first, rightParts.first) ? 0.7 : 0.3
+}
+
+function scoreNames(left: JudgeIdentity, right: JudgeIdentity): number {
+  let best = 0
+  for (const leftName of [left.name, ...left.aliases]) {
+    for (const rightName of [right.name, ...right.aliases]) {
+      best = Math.max(best, scoreNamePair(leftName, rightName))
+      if (best === 1) return best
+    }
+  }
+  return best
+}
+
+function courtTokens(name: string): Set<string> {
+  return new Set(
+    name.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter((token) => token && !COURT_STOPWORDS.has(token))
+  )
+}
+
+function scoreCourtNames(left: string, right: string): number {
+  const leftTokens = courtTokens(left)
+  const rightTokens = courtTokens(right)
+  const shared = [...leftTokens].filter((token) => rightTokens.has(token)).length
+  if (shared === 0) return 0
+  return shared === leftTokens.size && shared === rightTokens.size ? 1 : 0.6
+}
+
+function scoreCourts(left: JudgeIdentity, right: JudgeIdentity): number | null {
+  if (left.courtId && left.courtId === right.courtId) return 1
+
+  const jurisdictionsDiffer = Boolean(left.jurisdiction && right.jurisdiction && left.jurisdiction !== right.jurisdiction)
+  if (!left.courtName || !right.courtName) return jurisdictionsDiffer ? 0 : null
+
+  const nameScore = scoreCourtNames(left.courtName, right.courtName)
+  if (nameScore > 0) return nameScore
+  return jurisdictionsDiffer ? 0 : 0.3
+}
+
+function scoreAppointments(left: JudgeIdentity, right: JudgeIdentity): number | null {
+  if (!left.appointedDate || !right.appointedDate) return null
+  const first = new Date(left.appointedDate).getTime()
+  const second = new Date(right.appointedDate).getTime()
+  if (Number.isNaN(first) || Number.isNaN(second)) return null
+
+  const days = Math.abs(first - second) / 86_400_000
+  if (days <= 31) return 1
+  if (days <= 365) return 0.5
+  return 0
+}
+
+/** Weighted likelihood (0-1) that two judge records are the same person. */
+export function scoreJudgeMatch(left: JudgeIdentity, right: JudgeIdentity): JudgeMatch {
+  const signals: JudgeMatchSignals = {
+    name: scoreNames(left, right),
+    court: scoreCourts(left, right),
+    appointment: scoreAppointments(left, right)
+  }
+  if (signals.name === 0) return { score: 0, signals }
+
+  let score =
+    SIGNAL_WEIGHTS.name * signals.name +
+    SIGNAL_WEIGHTS.court * (signals.court ?? NEUTRAL_SIGNAL) +
+    SIGNAL_WEIGHTS.appointment * (signals.appointment ?? NEUTRAL_SIGNAL)
+
+  if (left.courtlistenerId && right.courtlistenerId && left.courtlistenerId !== right.courtlistenerId) {
+    score = Math.min(score, CONFLICTING_ID_CAP)
+  }
+  return { score: Math.round(score * 1000) / 1000, signals }
+}
+
+function aliasList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((alias): alias is string => typeof alias === 'string' && alias.trim().length > 0)
+}
+
+/**
+ * Identity from a judges row. CourtListener aliases are read from
+ * `cl_aliases` when the query selected them with a JSON path, otherwise from
+ * the full `courtlistener_data`.
+ */
+export function toJudgeIdentity(row: Record<string, any>): JudgeIdentity {
+  const courtListenerAliases = row.cl_aliases ?? row.courtlistener_data?.aliases
+  return {
+    id: String(row.id),
+    name: String(row.name ?? ''),
+    aliases: [...new Set([...aliasList(row.aliases), ...aliasList(courtListenerAliases)])],
+    courtId: row.court_id ?? null,
+    courtName: row.court_name ?? null,
+    jurisdiction: row.jurisdiction ?? null,
+    appointedDate: row.appointed_date ?? null,
+    courtlistenerId: row.courtlistener_id ? String(row.courtlistener_id) : null
+  }
+}
+
+/** Highest-scoring candidate at or above the threshold, if any. */
+export function findBestMatch(
+  judge: JudgeIdentity,
+  candidates: JudgeIdentity[],
+  threshold: number
+): (JudgeMatch & { judge: JudgeIdentity }) | null {
+  let best: (JudgeMatch & { judge: JudgeIdentity }) | null = null
+  for (const candidate of candidates) {
+    const match = scoreJudgeMatch(judge, candidate)
+    if (match.score >= threshold && (!best || match.score > best.score)) best = { ...match, judge: candidate }
+  }
+  return best
+}
+
+function blockingKeys(judge: JudgeIdentity): string[] {
+  return [...new Set(
+    [judge.name, ...judge.aliases]
+      .map((name) => judgeLastName(name))
+      .filter((last): last is string => Boolean(last))
+  )]
+}
+
+function scoreBlock(block: JudgeIdentity[], threshold: number, candidates: Map<string, DuplicateCandidate>): void {
+  for (let i = 0; i < block.length; i++) {
+    for (let j = i + 1; j < block.length; j++) {
+      const [first, second] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]]
+      const pairKey = `${first.id}:${second.id}`
+      if (first.id === second.id || candidates.has(pairKey)) continue
+
+      const match = scoreJudgeMatch(first, second)
+      if (match.score >= threshold) {
+        candidates.set(pairKey, { judgeId: first.id, candidateId: second.id, ...match })
+      }
+    }
+  }
+}
+
+/**
+ * Scored pairs at or above the threshold. Only judges sharing a last name
+ * (across names and aliases) are compared.
+ */
+export function findDuplicateCandidates(
+  judges: JudgeIdentity[],
+  { threshold = REVIEW_THRESHOLD }: { threshold?: number } = {}
+): DuplicateCandidate[] {
+  const blocks = new Map<string, JudgeIdentity[]>()
+  for (const judge of judges) {
+    for (const key of blockingKeys(judge)) {
+      const block = blocks.get(key) ?? []
+      block.push(judge)
+      blocks.set(key, block)
+    }
+  }
+
+  const candidates = new Map<string, DuplicateCandidate>()
+  for (const block of blocks.values()) {
+    scoreBlock(block, threshold, candidates)
+  }
+
+  return [...candidates.values()].sort((a, b) => b.score - a.score)
+}
+
+export const JUDGE_IDENTITY_COLUMNS =
+  'id, name, aliases, court_id, court_name, jurisdiction, appointed_date, courtlistener_id, cl_aliases:courtlistener_data->aliases'
+
+async function loadJudgeIdentities(supabase: SupabaseClient, jurisdiction?: string): Promise<JudgeIdentity[]> {
+  const identities: JudgeIdentity[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from('judges').select(JUDGE_IDENTITY_COLUMNS).order('id', { ascending: true })
+    if (jurisdiction) query = query.eq('jurisdiction', jurisdiction)
+    const { data, error } = await query.range(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw new Error(`Failed to load judges for duplicate detection: ${error.message}`)
+    }
+    identities.push(...(data ?? []).map((row) => toJudgeIdentity(row)))
+    if (!data || data.length < PAGE_SIZE) return identities
+  }
+}
+
+export interface DuplicateDetectionResult {
+  scanned: number
+  candidates: number
+  queued: number
+}
+
+/**
+ * Score every judge (optionally within one jurisdiction) and queue new
+ * candidate pairs for review. Pairs already queued, including dismissed
+ * ones, are left as they are.
+ */
+export async function detectJudgeDuplicates(
+  supabase: SupabaseClient,
+  { jurisdiction, threshold = REVIEW_THRESHOLD }: { jurisdiction?: string; threshold?: number } = {}
+): Promise<DuplicateDetectionResult> {
+  const judges = await loadJudgeIdentities(supabase, jurisdiction)
+  const candidates = findDuplicateCandidates(judges, { threshold })
+  const detectedAt = new Date().toISOString()
+
+  let queued = 0
+  for (let start = 0; start < candidates.length; start += UPSERT_CHUNK) {
+    const rows = candidates.slice(start, start + UPSERT_CHUNK).map((candidate) => ({
+      judge_id: candidate.judgeId,
+      candidate_id: candidate.candidateId,
+      score: candidate.score,
+      signals: candidate.signals,
+      status: 'pending',
+      detected_at: detectedAt
+    }))
+    const { data, error } = await supabase
+      .from('judge_duplicate_candidates')
+      .upsert(rows, { onConflict: 'judge_id,candidate_id', ignoreDuplicates: true })
+      .select('id')
+    if (error) {
+      throw new Error(`Failed to queue judge duplicate candidates: ${error.message}`)
+    }
+    queued += data?.length ?? 0
+  }
+
+  logger.info('Judge duplicate detection finished', { jurisdiction: jurisdiction ?? 'all', scanned: judges.length, candidates: candidates.length, queued })
+  return { scanned: judges.length, candidates: candidates.length, queued }
+}
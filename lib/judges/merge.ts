@@ -0,0 +1,63 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { buildEntityChange, recordEntityChanges } from '@/lib/sync/change-log'
+import { logger } from '@/lib/utils/logger'
+
+export const JUDGE_MERGE_SOURCE = 'judge-merge'
+
+/** merge_judges() error codes: invalid or missing pair, and clashing booked ad spots. */
+const MERGE_CONFLICT_CODES = new Set(['JM001', 'JM002'])
+
+/** Thrown when a merge is refused: same or missing judges, or both hold a booked ad at one position. */
+export class JudgeMergeConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JudgeMergeConflictError'
+  }
+}
+
+export interface JudgeMergeResult {
+  mergeId: string
+  targetId: string
+  /** Rows re-pointed to the target, by table. */
+  moved: Record<string, number>
+}
+
+interface MergeRpcResult {
+  merge_id: string
+  moved: Record<string, number> | null
+  before: Record<string, unknown>
+  after: Record<string, unknown>
+}
+
+/**
+ * Fold the source judge into the target. Cases, positions, bookmarks and ad
+ * spots move to the target, the source name becomes an alias, and the source
+ * slug keeps working through a redirect. Runs as one database transaction.
+ */
+export async function mergeJudges(
+  supabase: SupabaseClient,
+  { sourceId, targetId, mergedBy = null }: { sourceId: string; targetId: string; mergedBy?: string | null }
+): Promise<JudgeMergeResult> {
+  const { data, error } = await supabase.rpc('merge_judges', {
+    p_source_id: sourceId,
+    p_target_id: targetId,
+    p_merged_by: mergedBy
+  })
+
+  if (error) {
+    if (error.code && MERGE_CONFLICT_CODES.has(error.code)) {
+      throw new JudgeMergeConflictError(error.message)
+    }
+    throw new Error(`Failed to merge judge ${sourceId} into ${targetId}: ${error.message}`)
+  }
+
+  const result = data as MergeRpcResult
+  // Case re-points are logged inside the transaction; the target's own fields are diffed here
+  await recordEntityChanges(supabase, [
+    buildEntityChange('judge', targetId, result.before, result.after, { source: JUDGE_MERGE_SOURCE, syncId: result.merge_id })
+  ])
+
+  const moved = result.moved ?? {}
+  logger.info('Merged duplicate judge', { sourceId, targetId, mergeId: result.merge_id, mergedBy, moved })
+  return { mergeId: result.merge_id, targetId, moved }
+}
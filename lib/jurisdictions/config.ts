@@ -0,0 +1,369 @@
+/**
+ * Jurisdiction Configuration
+ * States the sync pipeline covers, the CourtListener courts behind each one,
+ * and the listings the /jurisdictions pages and search are generated from
+ */
+
+export type CourtType = 'federal' | 'state' | 'local'
+
+/** Jurisdiction code stored on federal courts and judges. */
+export const FEDERAL_JURISDICTION = 'US'
+
+export interface JurisdictionCourt {
+  courtListenerId: string
+  name: string
+  type: CourtType
+}
+
+export interface JurisdictionCounty {
+  slug: string
+  name: string
+  description: string
+  population: number
+  majorCities: string[]
+}
+
+export interface StateJurisdiction {
+  /** Two-letter code stored in courts.jurisdiction and judges.jurisdiction. */
+  code: string
+  name: string
+  slug: string
+  description: string
+  /** Matches the state in CourtListener court names ("Superior Court of California, ..."). */
+  namePattern: RegExp
+  /** State courts CourtListener tracks directly. */
+  courts: JurisdictionCourt[]
+  /** Federal district and bankruptcy courts seated in the state. */
+  federalCourts: JurisdictionCourt[]
+  /** Court types for state courts that are not listed above, matched on name in order. */
+  courtTypePatterns: Array<{ pattern: RegExp; type: CourtType }>
+  counties: JurisdictionCounty[]
+}
+
+export const STATE_JURISDICTIONS: StateJurisdiction[] = [
+  {
+    code: 'CA',
+    name: 'California',
+    slug: 'california',
+    description: 'State courts across California handling various civil and criminal matters.',
+    namePattern: /\bCalifornia\b|\bCal\./i,
+    courts: [
+      { courtListenerId: 'cal', name: 'California Supreme Court', type: 'state' },
+      { courtListenerId: 'calctapp', name: 'California Court of Appeal', type: 'state' },
+      { courtListenerId: 'calappdeptsuper', name: 'Appellate Division of the Superior Court of California', type: 'state' }
+    ],
+    federalCourts: [
+      { courtListenerId: 'cand', name: 'District Court, N.D. California', type: 'federal' },
+      { courtListenerId: 'caed', name: 'District Court, E.D. California', type: 'federal' },
+      { courtListenerId: 'cacd', name: 'District Court, C.D. California', type: 'federal' },
+      { courtListenerId: 'casd', name: 'District Court, S.D. California', type: 'federal' },
+      { courtListenerId: 'canb', name: 'United States Bankruptcy Court, N.D. California', type: 'federal' },
+      { courtListenerId: 'caeb', name: 'United States Bankruptcy Court, E.D. California', type: 'federal' },
+      { courtListenerId: 'cacb', name: 'United States Bankruptcy Court, C.D. California', type: 'federal' },
+      { courtListenerId: 'casb', name: 'United States Bankruptcy Court, S.D. California', type: 'federal' }
+    ],
+    // Trial courts were unified into the superior courts in 1998.
+    courtTypePatterns: [{ pattern: /Superior Court/i, type: 'state' }],
+    counties: [
+      {
+        slug: 'los-angeles-county',
+        name: 'Los Angeles County',
+        description: 'Largest judicial system in California with comprehensive trial and appellate courts.',
+        population: 10000000,
+        majorCities: ['Los Angeles', 'Long Beach', 'Pasadena', 'Burbank', 'Glendale']
+      },
+      {
+        slug: 'orange-county',
+        name: 'Orange County',
+        description: 'Major Southern California jurisdiction serving diverse communities and businesses.',
+        population: 3175000,
+        majorCities: ['Anaheim', 'Santa Ana', 'Irvine', 'Huntington Beach', 'Garden Grove']
+      },
+      {
+        slug: 'san-diego-county',
+        name: 'San Diego County',
+        description: 'Southern California coastal jurisdiction with federal and state court systems.',
+        population: 3338000,
+        majorCities: ['San Diego', 'Chula Vista', 'Oceanside', 'Escondido', 'Carlsbad']
+      },
+      {
+        slug: 'san-francisco-county',
+        name: 'San Francisco County',
+        description: 'Metropolitan jurisdiction with specialized business and technology courts.',
+        population: 875000,
+        majorCities: ['San Francisco']
+      },
+      {
+        slug: 'sacramento-county',
+        name: 'Sacramento County',
+        description: 'Capital region jurisdiction serving Sacramento and surrounding communities.',
+        population: 1585000,
+        majorCities: ['Sacramento', 'Elk Grove', 'Citrus Heights', 'Folsom']
+      },
+      {
+        slug: 'santa-clara-county',
+        name: 'Santa Clara County',
+        description: 'Silicon Valley jurisdiction handling technology and intellectual property cases.',
+        population: 1936000,
+        majorCities: ['San Jose', 'Sunnyvale', 'Santa Clara', 'Mountain View', 'Palo Alto']
+      },
+      {
+        slug: 'alameda-county',
+        name: 'Alameda County',
+        description: 'Bay Area jurisdiction with diverse civil and criminal caseloads.',
+        population: 1670000,
+        majorCities: ['Oakland', 'Fremont', 'Berkeley', 'Hayward', 'San Leandro']
+      }
+    ]
+  },
+  {
+    code: 'NV',
+    name: 'Nevada',
+    slug: 'nevada',
+    description: 'Nevada state courts, from the Supreme Court to the judicial district courts.',
+    namePattern: /\bNevada\b|\bNev\./i,
+    courts: [
+      { courtListenerId: 'nev', name: 'Nevada Supreme Court', type: 'state' },
+      { courtListenerId: 'nevapp', name: 'Nevada Court of Appeals', type: 'state' }
+    ],
+    federalCourts: [
+      { courtListenerId: 'nvd', name: 'District Court, D. Nevada', type: 'federal' },
+      { courtListenerId: 'nvb', name: 'United States Bankruptcy Court, D. Nevada', type: 'federal' }
+    ],
+    // District courts are Nevada's general-jurisdiction trial courts.
+    courtTypePatterns: [
+      { pattern: /Justice Court|Municipal Court/i, type: 'local' },
+      { pattern: /District Court/i, type: 'state' }
+    ],
+    counties: [
+      {
+        slug: 'clark-county',
+        name: 'Clark County',
+        description: 'Eighth Judicial District serving Las Vegas and the largest caseload in Nevada.',
+        population: 2322000,
+        majorCities: ['Las Vegas', 'Henderson', 'North Las Vegas']
+      },
+      {
+        slug: 'washoe-county',
+        name: 'Washoe County',
+        description: 'Second Judicial District covering Reno, Sparks and northern Nevada.',
+        population: 496000,
+        majorCities: ['Reno', 'Sparks']
+      }
+    ]
+  },
+  {
+    code: 'OR',
+    name: 'Oregon',
+    slug: 'oregon',
+    description: 'Oregon state courts, including the circuit courts and the Oregon Tax Court.',
+    namePattern: /\bOregon\b/i,
+    courts: [
+      { courtListenerId: 'or', name: 'Oregon Supreme Court', type: 'state' },
+      { courtListenerId: 'orctapp', name: 'Court of Appeals of Oregon', type: 'state' },
+      { courtListenerId: 'ortc', name: 'Oregon Tax Court', type: 'state' }
+    ],
+    federalCourts: [
+      { courtListenerId: 'ord', name: 'District Court, D. Oregon', type: 'federal' },
+      { courtListenerId: 'orb', name: 'United States Bankruptcy Court, D. Oregon', type: 'federal' }
+    ],
+    // Circuit courts are Oregon's state trial courts, not federal circuits.
+    courtTypePatterns: [
+      { pattern: /Justice Court|Municipal Court/i, type: 'local' },
+      { pattern: /Circuit Court|Tax Court/i, type: 'state' }
+    ],
+    counties: [
+      {
+        slug: 'multnomah-county',
+        name: 'Multnomah County',
+        description: 'Fourth Judicial District serving Portland and the busiest circuit court in Oregon.',
+        population: 795000,
+        majorCities: ['Portland', 'Gresham', 'Troutdale']
+      },
+      {
+        slug: 'washington-county',
+        name: 'Washington County',
+        description: 'Twentieth Judicial District covering the western Portland metro area.',
+        population: 600000,
+        majorCities: ['Hillsboro', 'Beaverton', 'Tigard']
+      }
+    ]
+  },
+  {
+    code: 'AZ',
+    name: 'Arizona',
+    slug: 'arizona',
+    description: 'Arizona state courts, from the superior courts to the Arizona Supreme Court.',
+    namePattern: /\bArizona\b|\bAriz\./i,
+    courts: [
+      { courtListenerId: 'ariz', name: 'Arizona Supreme Court', type: 'state' },
+      { courtListenerId: 'arizctapp', name: 'Court of Appeals of Arizona', type: 'state' },
+      { courtListenerId: 'ariztaxct', name: 'Arizona Tax Court', type: 'state' }
+    ],
+    federalCourts: [
+      { courtListenerId: 'azd', name: 'District Court, D. Arizona', type: 'federal' },
+      { courtListenerId: 'azb', name: 'United States Bankruptcy Court, D. Arizona', type: 'federal' }
+    ],
+    courtTypePatterns: [
+      { pattern: /Justice Court|Municipal Court|City Court/i, type: 'local' },
+      { pattern: /Superior Court|Tax Court/i, type: 'state' }
+    ],
+    counties: [
+      {
+        slug: 'maricopa-county',
+        name: 'Maricopa County',
+        description: 'Phoenix-area superior court handling the majority of Arizona filings.',
+        population: 4585000,
+        majorCities: ['Phoenix', 'Mesa', 'Chandler', 'Scottsdale', 'Tempe']
+      },
+      {
+        slug: 'pima-county',
+        name: 'Pima County',
+        description: 'Southern Arizona jurisdiction centred on Tucson.',
+        population: 1063000,
+        majorCities: ['Tucson', 'Marana', 'Oro Valley']
+      }
+    ]
+  }
+]
+
+const FEDERAL_NAME_PATTERN = /\bUnited States\b|\bU\.S\.|\bFederal\b|^District Court,|Bankruptcy Court|Court of Appeals for the \w+ Circuit/i
+
+export function getStateJurisdiction(code?: string | null): StateJurisdiction | null {
+  if (!code) return null
+  const upper = code.trim().toUpperCase()
+  return STATE_JURISDICTIONS.find(state => state.code === upper) ?? null
+}
+
+export function findStateByName(value?: string | null): StateJurisdiction | null {
+  if (!value) return null
+  return STATE_JURISDICTIONS.find(state => state.namePattern.test(value)) ?? null
+}
+
+/**
+ * CourtListener court IDs a sync for the given jurisdiction covers: the
+ * state's own courts, or every configured federal court for 'US'.
+ * Returns null for jurisdictions that are not configured.
+ */
+export function courtListenerCourtIds(code?: string | null): string[] | null {
+  if (!code) return null
+  if (code.trim().toUpperCase() === FEDERAL_JURISDICTION) {
+    return STATE_JURISDICTIONS.flatMap(state => state.federalCourts.map(court => court.courtListenerId))
+  }
+  const state = getStateJurisdiction(code)
+  return state ? state.courts.map(court => court.courtListenerId) : null
+}
+
+export interface CourtJurisdiction {
+  /** Null when the court is not federal and not in a configured state. */
+  jurisdiction: string | null
+  type: CourtType
+}
+
+function findConfiguredCourt(courtListenerId: string): CourtJurisdiction | null {
+  for (const state of STATE_JURISDICTIONS) {
+    const stateCourt = state.courts.find(candidate => candidate.courtListenerId === courtListenerId)
+    if (stateCourt) return { jurisdiction: state.code, type: stateCourt.type }
+    if (state.federalCourts.some(candidate => candidate.courtListenerId === courtListenerId)) {
+      return { jurisdiction: FEDERAL_JURISDICTION, type: 'federal' }
+    }
+  }
+  return null
+}
+
+/**
+ * Resolve the stored jurisdiction code and court type for a CourtListener
+ * court. Configured court IDs win, then CourtListener's own jurisdiction
+ * code (F* = federal), then the court name.
+ */
+export function resolveCourtJurisdiction(court: {
+  id?: string | null
+  name?: string | null
+  full_name?: string | null
+  jurisdiction?: string | null
+}): CourtJurisdiction {
+  const configured = court.id ? findConfiguredCourt(String(court.id).toLowerCase()) : null
+  if (configured) return configured
+
+  const name = court.full_name || court.name || ''
+  if ((court.jurisdiction || '').toUpperCase().startsWith('F') || FEDERAL_NAME_PATTERN.test(name)) {
+    return { jurisdiction: FEDERAL_JURISDICTION, type: 'federal' }
+  }
+
+  const state = findStateByName(name)
+  if (!state) return { jurisdiction: null, type: 'state' }
+  const mapping = state.courtTypePatterns.find(candidate => candidate.pattern.test(name))
+  return { jurisdiction: state.code, type: mapping?.type ?? 'state' }
+}
+
+/**
+ * Jurisdictions the scheduled syncs cover. SYNC_JURISDICTIONS takes a
+ * comma-separated list of configured state codes; unset means all of them.
+ * Codes that are not configured are dropped.
+ */
+export function resolveSyncJurisdictions(
+  value: string | string[] | undefined = process.env.SYNC_JURISDICTIONS
+): string[] {
+  const configured = STATE_JURISDICTIONS.map(state => state.code)
+  const requested = (Array.isArray(value) ? value : (value || '').split(','))
+    .map(code => String(code).trim().toUpperCase())
+    .filter(Boolean)
+  if (requested.length === 0) return configured
+
+  return configured.filter(code => requested.includes(code))
+}
+
+export interface JurisdictionListing {
+  slug: string
+  kind: 'state' | 'federal' | 'county'
+  displayName: string
+  /** Value the courts and judges APIs filter on. */
+  jurisdictionValue: string
+  description: string
+  stateName: string | null
+}
+
+/**
+ * Browseable jurisdictions, in display order: states, federal courts, then
+ * featured counties.
+ */
+export function listJurisdictionListings(): JurisdictionListing[] {
+  const states = STATE_JURISDICTIONS.map((state): JurisdictionListing => ({
+    slug: state.slug,
+    kind: 'state',
+    displayName: state.name,
+    jurisdictionValue: state.code,
+    description: state.description,
+    stateName: state.name
+  }))
+
+  const federal: JurisdictionListing = {
+    slug: 'federal',
+    kind: 'federal',
+    displayName: 'Federal',
+    jurisdictionValue: FEDERAL_JURISDICTION,
+    description: `Federal district and bankruptcy courts across ${formatStateNames()}.`,
+    stateName: null
+  }
+
+  const counties = STATE_JURISDICTIONS.flatMap(state => state.counties.map((county): JurisdictionListing => ({
+    slug: county.slug,
+    kind: 'county',
+    displayName: county.name,
+    jurisdictionValue: state.code,
+    description: county.description,
+    stateName: state.name
+  })))
+
+  return [...states, federal, ...counties]
+}
+
+export function getJurisdictionListing(slug: string): JurisdictionListing | null {
+  return listJurisdictionListings().find(listing => listing.slug === slug) ?? null
+}
+
+/** "California, Nevada, Oregon and Arizona" */
+export function formatStateNames(): string {
+  const names = STATE_JURISDICTIONS.map(state => state.name)
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('')
+}
@@ -0,0 +1,123 @@
+import { createServerClient } from '@/lib/supabase/server'
+import type { HighlightSegment, OpinionSearchResult } from '@/types/search'
+
+export interface OpinionSearchFilters {
+  query: string
+  judgeId?: string | null
+  courtId?: string | null
+  caseType?: string | null
+  dateFrom?: string | null
+  dateTo?: string | null
+  page?: number
+  limit?: number
+}
+
+export const DEFAULT_OPINION_SEARCH_LIMIT = 20
+export const MAX_OPINION_SEARCH_LIMIT = 50
+const MAX_QUERY_LENGTH = 256
+const HIGHLIGHT_START = '[[hl]]'
+const HIGHLIGHT_STOP = '[[/hl]]'
+
+/**
+ * Translate AND / NOT / OR operators into Postgres web search syntax
+ * (implicit AND, "-term", "or"). Quoted phrases pass through untouched.
+ */
+export function toWebSearchQuery(query: string): string {
+  return query
+    .slice(0, MAX_QUERY_LENGTH)
+    .split(/("[^"]*")/)
+    .map((part) => {
+      if (part.startsWith('"') && part.endsWith('"') && part.length > 1) return part
+      return part
+        .replace(/\bAND\b/g, ' ')
+        .replace(/\bNOT\s+/g, '-')
+        .replace(/\bOR\b/g, 'or')
+    })
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Split a ts_headline snippet into plain-text segments, flagging the matched terms.
+ */
+export function parseHighlightedSnippet(snippet: string | null | undefined): HighlightSegment[] {
+  if (!snippet) return []
+  const segments: HighlightSegment[] = []
+  let rest = snippet.replace(/\s+/g, ' ')
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START)
+    if (start === -1) {
+      segments.push({ text: rest, highlighted: false })
+      break
+    }
+    if (start > 0) segments.push({ text: rest.slice(0, start), highlighted: false })
+
+    const stop = rest.indexOf(HIGHLIGHT_STOP, start)
+    const end = stop === -1 ? rest.length : stop
+    segments.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), highlighted: true })
+    rest = stop === -1 ? '' : rest.slice(stop + HIGHLIGHT_STOP.length)
+  }
+
+  return segments.filter((segment) => segment.text.length > 0)
+}
+
+export function buildCaseUrl(sourceUrl: string | null, courtlistenerId: string | null): string | null {
+  if (sourceUrl) return sourceUrl
+  if (!courtlistenerId) return null
+  if (courtlistenerId.startsWith('docket-')) {
+    const docketId = courtlistenerId.replace('docket-', '')
+    return docketId ? `https://www.courtlistener.com/docket/${docketId}/` : null
+  }
+  return /^\d+$/.test(courtlistenerId) ? `https://www.courtlistener.com/opinion/${courtlistenerId}/` : null
+}
+
+function toResult(row: any): OpinionSearchResult {
+  return {
+    opinion_id: row.opinion_id,
+    opinion_type: row.opinion_type ?? null,
+    case_id: row.case_id,
+    case_name: row.case_name || 'Untitled case',
+    case_number: row.case_number ?? null,
+    case_type: row.case_type ?? null,
+    decision_date: row.decision_date ?? null,
+    case_url: buildCaseUrl(row.source_url ?? null, row.courtlistener_id ?? null),
+    judge_id: row.judge_id ?? null,
+    judge_name: row.judge_name ?? null,
+    judge_url: row.judge_slug ? `/judges/${row.judge_slug}` : null,
+    court_id: row.court_id ?? null,
+    court_name: row.court_name ?? null,
+    rank: Number(row.rank) || 0,
+    snippet: parseHighlightedSnippet(row.snippet)
+  }
+}
+
+export async function searchOpinions(
+  filters: OpinionSearchFilters
+): Promise<{ results: OpinionSearchResult[]; total: number }> {
+  const query = toWebSearchQuery(filters.query)
+  if (!query) return { results: [], total: 0 }
+
+  const limit = Math.min(Math.max(filters.limit ?? DEFAULT_OPINION_SEARCH_LIMIT, 1), MAX_OPINION_SEARCH_LIMIT)
+  const page = Math.max(filters.page ?? 1, 1)
+  const supabase = await createServerClient()
+
+  const { data, error } = await supabase.rpc('search_opinions', {
+    p_query: query,
+    p_judge_id: filters.judgeId || null,
+    p_court_id: filters.courtId || null,
+    p_case_type: filters.caseType || null,
+    p_date_from: filters.dateFrom || null,
+    p_date_to: filters.dateTo || null,
+    p_limit: limit,
+    p_offset: (page - 1) * limit
+  })
+
+  if (error) {
+    throw new Error(`Opinion search failed: ${error.message}`)
+  }
+
+  const rows = Array.isArray(data) ? data : []
+  return { results: rows.map(toResult), total: rows.length > 0 ? Number(rows[0].total_count) || 0 : 0 }
+}
@@ -0,0 +1,351 @@
+import { createHash, randomBytes } from 'node:crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+
+export const API_KEY_SCOPES = ['judges:read', 'analytics:read', 'export'] as const
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
+/** Customer keys start with this; anything else is checked against `PUBLIC_API_KEYS`. */
+export const API_KEY_PREFIX = 'jf_live_'
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60
+export const DEFAULT_MONTHLY_QUOTA = 10000
+
+/** How long a rotated key keeps working alongside its replacement. */
+export const ROTATION_GRACE_HOURS = 24
+
+/** Keys an owner may have that are neither revoked nor expired. */
+export const MAX_ACTIVE_KEYS_PER_OWNER = 10
+
+/** A Clerk user, or a Clerk organization shared by its members. */
+export interface ApiKeyOwner {
+  type: 'user' | 'organization'
+  id: string
+}
+
+export type ApiKeyStatus = 'active' | 'expiring' | 'expired' | 'revoked'
+
+export interface ApiKeyView {
+  id: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  rateLimitPerMinute: number
+  monthlyQuota: number | null
+  status: ApiKeyStatus
+  createdAt: string
+  lastUsedAt: string | null
+  expiresAt: string | null
+  revokedAt: string | null
+  usage: {
+    /** Requests this calendar month (UTC). */
+    month: number
+    byEndpoint: Array<{ endpoint: string; requests: number }>
+  }
+}
+
+/** A key that authenticated a request. */
+export interface ActiveApiKey {
+  id: string
+  owner: ApiKeyOwner
+  scopes: ApiKeyScope[]
+  rateLimitPerMinute: number
+  monthlyQuota: number | null
+}
+
+export const apiKeySettingsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).transform((scopes) => [...new Set(scopes)])
+})
+
+export type ApiKeySettings = z.infer<typeof apiKeySettingsSchema>
+
+export class ApiKeyNotFoundError extends Error {
+  constructor(id: string) {
+    super(`API key ${id} not found`)
+    this.name = 'ApiKeyNotFoundError'
+  }
+}
+
+export class ApiKeyLimitError extends Error {
+  constructor() {
+    super(`At most ${MAX_ACTIVE_KEYS_PER_OWNER} active API keys are allowed`)
+    this.name = 'ApiKeyLimitError'
+  }
+}
+
+interface ApiKeyRow {
+  id: string
+  owner_type: ApiKeyOwner['type']
+  owner_id: string
+  name: string
+  key_prefix: string
+  scopes: ApiKeyScope[]
+  rate_limit_per_minute: number
+  monthly_quota: number | null
+  created_at: string
+  last_used_at: string | null
+  expires_at: string | null
+  revoked_at: string | null
+}
+
+const API_KEY_COLUMNS = 'id, owner_type, owner_id, name, key_prefix, scopes, rate_limit_per_minute, monthly_quota, created_at, last_used_at, expires_at, revoked_at'
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key.trim()).digest('hex')
+}
+
+export function isCustomerApiKey(value: string): boolean {
+  return value.startsWith(API_KEY_PREFIX)
+}
+
+/** A new random key with the prefix shown to owners and the hash that is stored. */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 6), hash: hashApiKey(key) }
+}
+
+/** First day of the month `now` falls in (UTC), the period usage is counted by. */
+export function usagePeriod(now: Date = new Date()): string {
+  return `${now.toISOString().slice(0, 7)}-01`
+}
+
+function statusOf(row: ApiKeyRow, now: Date): ApiKeyStatus {
+  if (row.revoked_at) return 'revoked'
+  if (!row.expires_at) return 'active'
+  return new Date(row.expires_at) > now ? 'expiring' : 'expired'
+}
+
+function isUsable(row: ApiKeyRow, now: Date): boolean {
+  const status = statusOf(row, now)
+  return status === 'active' || status === 'expiring'
+}
+
+function toView(row: ApiKeyRow, now: Date, usage: ApiKeyView['usage'] = { month: 0, byEndpoint: [] }): ApiKeyView {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.key_prefix,
+    scopes: row.scopes,
+    rateLimitPerMinute: row.rate_limit_per_minute,
+    monthlyQuota: row.monthly_quota,
+    status: statusOf(row, now),
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    usage
+  }
+}
+
+async function loadOwnerKeys(supabase: SupabaseClient, owner: ApiKeyOwner): Promise<ApiKeyRow[]> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('owner_type', owner.type)
+    .eq('owner_id', owner.id)
+    .order('created_at', { ascending: false })
+  if (error) {
+    throw new Error(`Failed to load API keys: ${error.message}`)
+  }
+  return (data ?? []) as ApiKeyRow[]
+}
+
+async function loadUsage(supabase: SupabaseClient, keyIds: string[], now: Date): Promise<Map<string, ApiKeyView['usage']>> {
+  const usage = new Map<string, ApiKeyView['usage']>()
+  if (keyIds.length === 0) return usage
+  const { data, error } = await supabase
+    .from('api_key_usage')
+    .select('api_key_id, endpoint, request_count')
+    .in('api_key_id', keyIds)
+    .eq('period_start', usagePeriod(now))
+  if (error) {
+    throw new Error(`Failed to load API key usage: ${error.message}`)
+  }
+  for (const row of data ?? []) {
+    const entry = usage.get(row.api_key_id) ?? { month: 0, byEndpoint: [] }
+    const requests = Number(row.request_count)
+    entry.month += requests
+    entry.byEndpoint.push({ endpoint: row.endpoint, requests })
+    usage.set(row.api_key_id, entry)
+  }
+  for (const entry of usage.values()) {
+    entry.byEndpoint.sort((left, right) => right.requests - left.requests)
+  }
+  return usage
+}
+
+/** The owner's keys, newest first, with this month's usage. */
+export async function listApiKeys(supabase: SupabaseClient, owner: ApiKeyOwner, now: Date = new Date()): Promise<ApiKeyView[]> {
+  const rows = await loadOwnerKeys(supabase, owner)
+  const usage = await loadUsage(supabase, rows.map((row) => row.id), now)
+  return rows.map((row) => toView(row, now, usage.get(row.id)))
+}
+
+async function insertKey(
+  supabase: SupabaseClient,
+  owner: ApiKeyOwner,
+  fields: Pick<ApiKeyRow, 'name' | 'scopes' | 'rate_limit_per_minute' | 'monthly_quota'> & { created_by: string | null; rotated_from?: string },
+  now: Date
+): Promise<{ key: string; apiKey: ApiKeyView }> {
+  const generated = generateApiKey()
+  const { data, error } = await supabase
+    .from('api_keys')
+    .insert({
+      owner_type: owner.type,
+      owner_id: owner.id,
+      key_prefix: generated.prefix,
+      key_hash: generated.hash,
+      created_at: now.toISOString(),
+      ...fields
+    })
+    .select(API_KEY_COLUMNS)
+    .single()
+  if (error || !data) {
+    throw new Error(`Failed to create API key: ${error?.message ?? 'no row returned'}`)
+  }
+  return { key: generated.key, apiKey: toView(data as ApiKeyRow, now) }
+}
+
+/**
+ * Issue a key with the default rate limit and quota. The plaintext key is
+ * returned once and cannot be recovered afterwards.
+ */
+export async function createApiKey(
+  supabase: SupabaseClient,
+  owner: ApiKeyOwner,
+  settings: ApiKeySettings,
+  { createdBy = null, now = new Date() }: { createdBy?: string | null; now?: Date } = {}
+): Promise<{ key: string; apiKey: ApiKeyView }> {
+  const active = (await loadOwnerKeys(supabase, owner)).filter((row) => isUsable(row, now))
+  if (active.length >= MAX_ACTIVE_KEYS_PER_OWNER) {
+    throw new ApiKeyLimitError()
+  }
+  return insertKey(supabase, owner, {
+    name: settings.name,
+    scopes: settings.scopes,
+    rate_limit_per_minute: DEFAULT_RATE_LIMIT_PER_MINUTE,
+    monthly_quota: DEFAULT_MONTHLY_QUOTA,
+    created_by: createdBy
+  }, now)
+}
+
+async function loadOwnedKey(supabase: SupabaseClient, owner: ApiKeyOwner, id: string): Promise<ApiKeyRow> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('id', id)
+    .eq('owner_type', owner.type)
+    .eq('owner_id', owner.id)
+    .maybeSingle()
+  if (error) {
+    throw new Error(`Failed to load API key: ${error.message}`)
+  }
+  if (!data) throw new ApiKeyNotFoundError(id)
+  return data as ApiKeyRow
+}
+
+/**
+ * Replace a key with a new one carrying the same scopes and limits. The old
+ * key keeps working for `graceHours` so integrations can switch over.
+ */
+export async function rotateApiKey(
+  supabase: SupabaseClient,
+  owner: ApiKeyOwner,
+  id: string,
+  { createdBy = null, graceHours = ROTATION_GRACE_HOURS, now = new Date() }: { createdBy?: string | null; graceHours?: number; now?: Date } = {}
+): Promise<{ key: string; apiKey: ApiKeyView }> {
+  const current = await loadOwnedKey(supabase, owner, id)
+  if (!isUsable(current, now)) throw new ApiKeyNotFoundError(id)
+
+  const rotated = await insertKey(supabase, owner, {
+    name: current.name,
+    scopes: current.scopes,
+    rate_limit_per_minute: current.rate_limit_per_minute,
+    monthly_quota: current.monthly_quota,
+    created_by: createdBy,
+    rotated_from: current.id
+  }, now)
+
+  const graceEnd = new Date(now.getTime() + graceHours * 3_600_000)
+  const expiresAt = current.expires_at && new Date(current.expires_at) < graceEnd ? current.expires_at : graceEnd.toISOString()
+  const { error } = await supabase.from('api_keys').update({ expires_at: expiresAt }).eq('id', current.id)
+  if (error) {
+    throw new Error(`Failed to expire rotated API key: ${error.message}`)
+  }
+  return rotated
+}
+
+/** Stop a key from working immediately. Revoking twice is a no-op. */
+export async function revokeApiKey(
+  supabase: SupabaseClient,
+  owner: ApiKeyOwner,
+  id: string,
+  now: Date = new Date()
+): Promise<ApiKeyView> {
+  const current = await loadOwnedKey(supabase, owner, id)
+  if (current.revoked_at) return toView(current, now)
+  const { error } = await supabase.from('api_keys').update({ revoked_at: now.toISOString() }).eq('id', id)
+  if (error) {
+    throw new Error(`Failed to revoke API key: ${error.message}`)
+  }
+  return toView({ ...current, revoked_at: now.toISOString() }, now)
+}
+
+export type ApiKeyAuthentication =
+  | { ok: true; key: ActiveApiKey }
+  | { ok: false; status: 401 | 403; error: string }
+
+/** Look up a presented customer key and check it grants `scope`. */
+export async function authenticateApiKey(
+  supabase: SupabaseClient,
+  presented: string,
+  scope: ApiKeyScope,
+  now: Date = new Date()
+): Promise<ApiKeyAuthentication> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('key_hash', hashApiKey(presented))
+    .maybeSingle()
+  if (error) {
+    throw new Error(`Failed to look up API key: ${error.message}`)
+  }
+  const row = data as ApiKeyRow | null
+  if (!row || !isUsable(row, now)) {
+    return { ok: false, status: 401, error: 'Invalid or revoked API key' }
+  }
+  if (!row.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: `API key lacks the ${scope} scope` }
+  }
+  return {
+    ok: true,
+    key: {
+      id: row.id,
+      owner: { type: row.owner_type, id: row.owner_id },
+      scopes: row.scopes,
+      rateLimitPerMinute: row.rate_limit_per_minute,
+      monthlyQuota: row.monthly_quota
+    }
+  }
+}
+
+export interface ApiKeyMeter {
+  allowed: boolean
+  used: number
+  quota: number | null
+}
+
+/**
+ * Count one request to `endpoint` against the key's monthly quota. Requests
+ * over quota are refused and not counted. Null when the key no longer exists.
+ */
+export async function meterApiKeyRequest(supabase: SupabaseClient, keyId: string, endpoint: string): Promise<ApiKeyMeter | null> {
+  const { data, error } = await supabase.rpc('consume_api_key_request', { p_key_id: keyId, p_endpoint: endpoint })
+  if (error) {
+    throw new Error(`Failed to meter API key request: ${error.message}`)
+  }
+  const row = Array.isArray(data) ? data[0] : data
+  if (!row) return null
+  return { allowed: Boolean(row.allowed), used: Number(row.used), quota: row.quota ?? null }
+}
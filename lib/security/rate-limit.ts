@@ -66,6 +66,7 @@ export function isRateLimitConfigured(): boolean {
   }
 }
 
+/** `limit(key, rate)` uses `rate` tokens, for requests that cost more than one. */
 export function buildRateLimiter(config: RateLimitConfig) {
   let client: Redis | null
 
@@ -82,7 +83,7 @@ export function buildRateLimiter(config: RateLimitConfig) {
 
   if (!client) {
     return {
-      limit: async (_key: string) => ({ success: true, remaining: Number.POSITIVE_INFINITY, reset: Date.now() + 1000 })
+      limit: async (_key: string, _rate: number = 1) => ({ success: true, remaining: Number.POSITIVE_INFINITY, reset: Date.now() + 1000 })
     }
   }
 
@@ -94,8 +95,8 @@ export function buildRateLimiter(config: RateLimitConfig) {
   })
 
   return {
-    limit: async (key: string) => {
-      const result = await limiter.limit(key)
+    limit: async (key: string, rate: number = 1) => {
+      const result = await limiter.limit(key, rate === 1 ? undefined : { rate })
       logger.debug('Rate limit check', {
         scope: 'rate_limit',
         prefix: config.prefix,
@@ -136,14 +137,14 @@ function getDefaultLimiter(): Ratelimit | null {
   return defaultLimiter
 }
 
-export async function enforceRateLimit(key: string) {
+export async function enforceRateLimit(key: string, rate: number = 1) {
   const limiter = getDefaultLimiter()
 
   if (!limiter) {
     return { allowed: true, remaining: undefined, reset: undefined }
   }
 
-  const res = await limiter.limit(key)
+  const res = await limiter.limit(key, rate === 1 ? undefined : { rate })
 
   logger.debug('Default rate limit check', {
     scope: 'rate_limit',
@@ -0,0 +1,134 @@
+import { NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { buildRateLimiter, enforceRateLimit, getClientKey } from '@/lib/security/rate-limit'
+import { requireApiKeyIfEnabled } from '@/lib/security/api-auth'
+import {
+  DEFAULT_RATE_LIMIT_PER_MINUTE,
+  authenticateApiKey,
+  isCustomerApiKey,
+  meterApiKeyRequest,
+  type ActiveApiKey,
+  type ApiKeyScope
+} from '@/lib/security/api-keys'
+
+export interface V1RateLimitState {
+  allowed: boolean
+  remaining?: number
+  reset?: number
+}
+
+export type V1Access =
+  | { ok: true; apiKey: ActiveApiKey | null; limit: V1RateLimitState }
+  | { ok: false; response: NextResponse }
+
+type RateLimiterInstance = ReturnType<typeof buildRateLimiter>
+
+// One limiter per distinct per-minute limit; the key id is the identifier
+const keyLimiters = new Map<number, RateLimiterInstance>()
+
+function keyLimiter(tokens: number): RateLimiterInstance {
+  let limiter = keyLimiters.get(tokens)
+  if (!limiter) {
+    limiter = buildRateLimiter({ tokens, window: '1 m', prefix: `v1:key:${tokens}` })
+    keyLimiters.set(tokens, limiter)
+  }
+  return limiter
+}
+
+function presentedKey(request: Request): string | null {
+  const headerKey = request.headers.get('x-api-key')?.trim()
+  if (headerKey) return headerKey
+  try {
+    return new URL(request.url).searchParams.get('key')?.trim() || null
+  } catch {
+    return null
+  }
+}
+
+function deny(status: number, error: string, headers: Record<string, string> = {}): V1Access {
+  return { ok: false, response: NextResponse.json({ error }, { status, headers }) }
+}
+
+function rateLimited(limit: V1RateLimitState): V1Access {
+  const headers: Record<string, string> = {}
+  if (typeof limit.remaining === 'number') headers['RateLimit-Remaining'] = String(limit.remaining)
+  if (limit.reset) headers['RateLimit-Reset'] = String(limit.reset)
+  return deny(429, 'Rate limit exceeded', headers)
+}
+
+async function authorizeCustomerKey(presented: string, scope: ApiKeyScope, endpoint: string): Promise<V1Access> {
+  const supabase = await createServiceRoleClient()
+  const authentication = await authenticateApiKey(supabase, presented, scope)
+  if (!authentication.ok) return deny(authentication.status, authentication.error)
+
+  const { key } = authentication
+  const rate = await keyLimiter(key.rateLimitPerMinute).limit(key.id)
+  // Without Redis the limiter allows everything and reports Infinity
+  const limit: V1RateLimitState = {
+    allowed: rate.success,
+    remaining: Number.isFinite(rate.remaining) ? rate.remaining : undefined,
+    reset: rate.reset
+  }
+  if (!limit.allowed) return rateLimited(limit)
+
+  const meter = await meterApiKeyRequest(supabase, key.id, endpoint)
+  if (!meter) return deny(401, 'Invalid or revoked API key')
+  if (!meter.allowed) {
+    return deny(429, 'Monthly quota exceeded', {
+      'X-Quota-Limit': String(meter.quota),
+      'X-Quota-Used': String(meter.used)
+    })
+  }
+  return { ok: true, apiKey: key, limit }
+}
+
+/**
+ * Gate for `/api/v1` routes. Customer keys (`jf_live_...`) must carry `scope`,
+ * are rate limited per key and count against the key's monthly quota under
+ * `endpoint`. Other requests fall back to the shared `PUBLIC_API_KEYS` check
+ * and the default per-client limit.
+ */
+export async function authorizeV1Request(
+  request: Request,
+  { scope, endpoint }: { scope: ApiKeyScope; endpoint: string }
+): Promise<V1Access> {
+  const presented = presentedKey(request)
+  if (presented && isCustomerApiKey(presented)) {
+    return authorizeCustomerKey(presented, scope, endpoint)
+  }
+
+  const legacy = requireApiKeyIfEnabled(request.headers, request.url)
+  if (!legacy.ok) return deny(401, 'Unauthorized')
+
+  const limit = await enforceRateLimit(`v1:${endpoint}:${getClientKey(request.headers)}`)
+  if (!limit.allowed) return rateLimited(limit)
+  return { ok: true, apiKey: null, limit }
+}
+
+/** The caller's per-minute request allowance: the key's limit, or the shared default. */
+export function v1RequestsPerMinute(apiKey: ActiveApiKey | null): number {
+  return apiKey?.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE
+}
+
+/**
+ * Charges `requests` more against the limit `authorizeV1Request` already
+ * checked, for calls that cost more than one request (GraphQL queries).
+ * They are not counted against the monthly quota.
+ */
+export async function chargeV1Requests(
+  request: Request,
+  apiKey: ActiveApiKey | null,
+  requests: number,
+  endpoint: string
+): Promise<V1RateLimitState> {
+  if (requests <= 0) return { allowed: true }
+  if (apiKey) {
+    const rate = await keyLimiter(apiKey.rateLimitPerMinute).limit(apiKey.id, requests)
+    return {
+      allowed: rate.success,
+      remaining: Number.isFinite(rate.remaining) ? rate.remaining : undefined,
+      reset: rate.reset
+    }
+  }
+  return enforceRateLimit(`v1:${endpoint}:${getClientKey(request.headers)}`, requests)
+}
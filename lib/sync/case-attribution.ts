@@ -0,0 +1,408 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CourtListenerClient } from '@/lib/courtlistener/client'
+import { createDocketHash, normalizeCaseNumber } from '@/lib/sync/normalization'
+import { parseCourtListenerId } from '@/lib/sync/decision-helpers'
+import { DecisionRepository } from '@/lib/sync/decision-repository'
+import { buildEntityChange, recordEntityChanges } from '@/lib/sync/change-log'
+import {
+  findBestMatch,
+  judgeLastName,
+  REVIEW_THRESHOLD,
+  scoreJudgeMatch,
+  toJudgeIdentity,
+  type JudgeIdentity
+} from '@/lib/judges/entity-resolution'
+import { logger } from '@/lib/utils/logger'
+
+/**
+ * Where a case's judge_id came from. `redistribution` marks links that
+ * contradict the case's own evidence, as left behind by the old scripts that
+ * spread cases evenly across judges; `unverified` links have no evidence
+ * either way.
+ */
+export type AttributionMethod = 'assigned_to' | 'opinion_author' | 'docket_text' | 'manual' | 'redistribution' | 'unverified'
+
+export const ATTRIBUTION_METHODS: readonly AttributionMethod[] = [
+  'assigned_to', 'opinion_author', 'docket_text', 'manual', 'redistribution', 'unverified'
+]
+
+/** Confidence per method. Docket text is scaled by how well the names match. */
+export const ATTRIBUTION_CONFIDENCE: Record<AttributionMethod, number> = {
+  manual: 1,
+  assigned_to: 0.95,
+  opinion_author: 0.9,
+  docket_text: 0.8,
+  unverified: 0.3,
+  redistribution: 0
+}
+
+/** Judge analytics leave out cases linked with less confidence than this. */
+export const MIN_ANALYTICS_CONFIDENCE = 0.6
+
+export const CASE_SOURCE_ATTRIBUTION = 'case-attribution'
+
+const AUDIT_BATCH = 1000
+const RELINK_BATCH = 100
+const UPDATE_CHUNK = 500
+const NAME_CANDIDATE_LIMIT = 50
+
+export interface CaseAttributionFields {
+  judge_attribution_method: AttributionMethod
+  judge_attribution_confidence: number
+  judge_attributed_at: string
+}
+
+/** Columns recording how a case's judge was found, for spreading into a case write. */
+export function attributionFields(
+  method: AttributionMethod,
+  confidence: number = ATTRIBUTION_CONFIDENCE[method]
+): CaseAttributionFields {
+  return {
+    judge_attribution_method: method,
+    judge_attribution_confidence: confidence,
+    judge_attributed_at: new Date().toISOString()
+  }
+}
+
+/**
+ * `.or()` filter for judge-scoped case queries that keeps trustworthy links.
+ * Cases the audit has not reached yet (no confidence recorded) are kept.
+ */
+export const TRUSTED_ATTRIBUTION_FILTER = `judge_attribution_confidence.is.null,judge_attribution_confidence.gte.${MIN_ANALYTICS_CONFIDENCE}`
+
+export interface CaseAttributionRow {
+  id: string
+  judge_id: string | null
+  case_number: string | null
+  courtlistener_id: string | null
+  docket_hash: string | null
+  jurisdiction: string | null
+  filing_date: string | null
+  judge_name?: string | null
+}
+
+export interface AttributionAssessment {
+  method: AttributionMethod
+  confidence: number
+}
+
+const CASE_COLUMNS = 'id, judge_id, case_number, courtlistener_id, docket_hash, jurisdiction, filing_date, judge_name'
+
+/**
+ * The CourtListener inputs a synced case's docket hash was built from. Syncs
+ * hash the judge they filed the case under, so the hash shows whether
+ * judge_id has been changed since.
+ */
+function syncedHashInputs(row: CaseAttributionRow): { caseNumberKey: string | null; courtlistenerId: string; method: AttributionMethod } | null {
+  const docketId = row.courtlistener_id?.match(/^docket-(\d+)$/)?.[1]
+  if (docketId) {
+    return { caseNumberKey: normalizeCaseNumber(row.case_number, docketId).key, courtlistenerId: docketId, method: 'assigned_to' }
+  }
+  const clusterId = row.case_number?.match(/^CL-(\d+)$/i)?.[1]
+  if (clusterId && row.courtlistener_id) {
+    return { caseNumberKey: normalizeCaseNumber(`CL-${clusterId}`).key, courtlistenerId: clusterId, method: 'opinion_author' }
+  }
+  return null
+}
+
+function hashMatchesJudge(row: CaseAttributionRow, inputs: { caseNumberKey: string | null; courtlistenerId: string }, judgeId: string): boolean {
+  return createDocketHash({
+    caseNumberKey: inputs.caseNumberKey,
+    jurisdiction: row.jurisdiction,
+    judgeId,
+    courtlistenerId: inputs.courtlistenerId,
+    filingDate: row.filing_date
+  }) === row.docket_hash
+}
+
+function nameMatch(judgeName: string, judge: JudgeIdentity): number {
+  return scoreJudgeMatch(toJudgeIdentity({ id: 'docket', name: judgeName }), judge).signals.name
+}
+
+/**
+ * Judge a case's existing link from the evidence stored with it. `mergedJudgeIds`
+ * are judges merged into the linked one, whose synced cases legitimately moved.
+ */
+export function assessCaseAttribution(
+  row: CaseAttributionRow,
+  context: { judge: JudgeIdentity | null; mergedJudgeIds?: string[] }
+): AttributionAssessment {
+  const synced = syncedHashInputs(row)
+  if (synced && row.docket_hash && row.judge_id) {
+    const judgeIds = [row.judge_id, ...(context.mergedJudgeIds ?? [])]
+    return judgeIds.some((judgeId) => hashMatchesJudge(row, synced, judgeId))
+      ? { method: synced.method, confidence: ATTRIBUTION_CONFIDENCE[synced.method] }
+      : { method: 'redistribution', confidence: ATTRIBUTION_CONFIDENCE.redistribution }
+  }
+
+  if (row.judge_name?.trim() && context.judge) {
+    const score = nameMatch(row.judge_name, context.judge)
+    return score >= 0.7
+      ? { method: 'docket_text', confidence: Math.round(score * ATTRIBUTION_CONFIDENCE.docket_text * 100) / 100 }
+      : { method: 'redistribution', confidence: ATTRIBUTION_CONFIDENCE.redistribution }
+  }
+
+  return { method: 'unverified', confidence: ATTRIBUTION_CONFIDENCE.unverified }
+}
+
+async function loadJudgeIdentities(supabase: SupabaseClient, judgeIds: string[]): Promise<Map<string, JudgeIdentity>> {
+  const identities = new Map<string, JudgeIdentity>()
+  for (let start = 0; start < judgeIds.length; start += UPDATE_CHUNK) {
+    const { data, error } = await supabase
+      .from('judges')
+      .select('id, name, aliases, court_id, court_name, jurisdiction, appointed_date, courtlistener_id')
+      .in('id', judgeIds.slice(start, start + UPDATE_CHUNK))
+    if (error) {
+      throw new Error(`Failed to load judges for case attribution: ${error.message}`)
+    }
+    for (const row of data ?? []) identities.set(String(row.id), toJudgeIdentity(row))
+  }
+  return identities
+}
+
+async function loadMergedJudgeIds(supabase: SupabaseClient, judgeIds: string[]): Promise<Map<string, string[]>> {
+  const merged = new Map<string, string[]>()
+  if (judgeIds.length === 0) return merged
+  const { data, error } = await supabase
+    .from('judge_merges')
+    .select('source_judge_id, target_judge_id')
+    .in('target_judge_id', judgeIds)
+  if (error) {
+    throw new Error(`Failed to load judge merges: ${error.message}`)
+  }
+  for (const row of data ?? []) {
+    const sources = merged.get(row.target_judge_id) ?? []
+    sources.push(row.source_judge_id)
+    merged.set(row.target_judge_id, sources)
+  }
+  return merged
+}
+
+export interface CaseAttributionAuditResult {
+  audited: number
+  byMethod: Partial<Record<AttributionMethod, number>>
+  /** More unaudited cases remain. */
+  hasMore: boolean
+}
+
+type AssessmentGroups = Map<string, { assessment: AttributionAssessment; ids: string[] }>
+
+async function assessRows(supabase: SupabaseClient, rows: CaseAttributionRow[]): Promise<AssessmentGroups> {
+  const judgeIds = [...new Set(rows.map((row) => row.judge_id).filter((id): id is string => Boolean(id)))]
+  const [judges, mergedJudgeIds] = await Promise.all([
+    loadJudgeIdentities(supabase, judgeIds),
+    loadMergedJudgeIds(supabase, judgeIds)
+  ])
+
+  // One update per distinct outcome rather than per case
+  const groups: AssessmentGroups = new Map()
+  for (const row of rows) {
+    const assessment = assessCaseAttribution(row, {
+      judge: judges.get(String(row.judge_id)) ?? null,
+      mergedJudgeIds: mergedJudgeIds.get(String(row.judge_id))
+    })
+    const key = `${assessment.method}:${assessment.confidence}`
+    const group = groups.get(key) ?? { assessment, ids: [] }
+    group.ids.push(row.id)
+    groups.set(key, group)
+  }
+  return groups
+}
+
+async function recordAssessment(supabase: SupabaseClient, assessment: AttributionAssessment, ids: string[]): Promise<void> {
+  for (let start = 0; start < ids.length; start += UPDATE_CHUNK) {
+    const { error } = await supabase
+      .from('cases')
+      .update(attributionFields(assessment.method, assessment.confidence))
+      .in('id', ids.slice(start, start + UPDATE_CHUNK))
+    if (error) {
+      throw new Error(`Failed to record case attribution: ${error.message}`)
+    }
+  }
+}
+
+/**
+ * Record attribution for linked cases that have none yet, oldest first.
+ * Each call handles one batch; run it until `hasMore` is false.
+ */
+export async function auditCaseAttributions(
+  supabase: SupabaseClient,
+  { limit = AUDIT_BATCH }: { limit?: number } = {}
+): Promise<CaseAttributionAuditResult> {
+  const { data, error } = await supabase
+    .from('cases')
+    .select(CASE_COLUMNS)
+    .not('judge_id', 'is', null)
+    .is('judge_attribution_method', null)
+    .order('id', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load cases for attribution audit: ${error.message}`)
+  }
+  const rows = (data ?? []) as CaseAttributionRow[]
+  const groups = await assessRows(supabase, rows)
+
+  const byMethod: Partial<Record<AttributionMethod, number>> = {}
+  for (const { assessment, ids } of groups.values()) {
+    await recordAssessment(supabase, assessment, ids)
+    byMethod[assessment.method] = (byMethod[assessment.method] ?? 0) + ids.length
+  }
+
+  logger.info('Audited case attributions', { audited: rows.length, byMethod })
+  return { audited: rows.length, byMethod, hasMore: rows.length === limit }
+}
+
+interface ResolvedJudge {
+  judgeId: string
+  method: AttributionMethod
+  confidence: number
+}
+
+async function findJudgeByCourtListenerId(supabase: SupabaseClient, courtlistenerId: string | null): Promise<string | null> {
+  if (!courtlistenerId) return null
+  const { data } = await supabase
+    .from('judges')
+    .select('id')
+    .eq('courtlistener_id', courtlistenerId)
+    .maybeSingle()
+  return data?.id ?? null
+}
+
+async function resolveFromDocket(supabase: SupabaseClient, courtListener: CourtListenerClient, docketId: string): Promise<ResolvedJudge | null> {
+  const docket = await courtListener.getDocketById(docketId)
+  const judgeId = await findJudgeByCourtListenerId(supabase, parseCourtListenerId(docket?.assigned_to_id))
+  return judgeId ? { judgeId, method: 'assigned_to', confidence: ATTRIBUTION_CONFIDENCE.assigned_to } : null
+}
+
+async function resolveFromOpinion(supabase: SupabaseClient, courtListener: CourtListenerClient, opinionId: string): Promise<ResolvedJudge | null> {
+  const opinion = await courtListener.getOpinionDetail(opinionId)
+  const judgeId = await findJudgeByCourtListenerId(supabase, parseCourtListenerId(opinion?.author_id ?? opinion?.author))
+  return judgeId ? { judgeId, method: 'opinion_author', confidence: ATTRIBUTION_CONFIDENCE.opinion_author } : null
+}
+
+async function resolveFromDocketText(supabase: SupabaseClient, judgeName: string): Promise<ResolvedJudge | null> {
+  const lastName = judgeLastName(judgeName)
+  if (!lastName) return null
+
+  const { data, error } = await supabase
+    .from('judges')
+    .select('id, name, aliases')
+    .ilike('name', `%${lastName}%`)
+    .limit(NAME_CANDIDATE_LIMIT)
+  if (error) {
+    throw new Error(`Failed to look up judges by name: ${error.message}`)
+  }
+
+  const docketJudge = toJudgeIdentity({ id: 'docket', name: judgeName })
+  const candidates = (data ?? []).map((row) => toJudgeIdentity(row))
+  const best = findBestMatch(docketJudge, candidates, REVIEW_THRESHOLD)
+  if (!best) return null
+
+  // Two judges matching equally well is not evidence for either
+  const tied = candidates.filter((candidate) => candidate.id !== best.judge.id && scoreJudgeMatch(docketJudge, candidate).score === best.score)
+  if (tied.length > 0) return null
+
+  const confidence = Math.round(best.signals.name * ATTRIBUTION_CONFIDENCE.docket_text * 100) / 100
+  return { judgeId: best.judge.id, method: 'docket_text', confidence }
+}
+
+export interface CaseRelinkResult {
+  examined: number
+  /** Moved to a different judge. */
+  relinked: number
+  /** Evidence confirmed the existing judge. */
+  confirmed: number
+  unresolved: number
+  failed: number
+  /** Pass as `afterId` to continue; null when the queue is exhausted. */
+  nextCursor: string | null
+}
+
+/**
+ * Re-derive the judge for cases whose link was flagged as redistributed or
+ * unverified: from CourtListener's docket assignment or opinion author where
+ * the case came from CourtListener, otherwise from the judge named on the
+ * docket. Cases with no usable evidence keep their link and stay excluded
+ * from analytics.
+ */
+export async function relinkCaseAttributions(
+  supabase: SupabaseClient,
+  courtListener: CourtListenerClient,
+  { limit = RELINK_BATCH, afterId = null }: { limit?: number; afterId?: string | null } = {}
+): Promise<CaseRelinkResult> {
+  const rows = await loadRelinkQueue(supabase, limit, afterId)
+  const result: CaseRelinkResult = { examined: rows.length, relinked: 0, confirmed: 0, unresolved: 0, failed: 0, nextCursor: null }
+  const touchedJudges = new Set<string>()
+
+  for (const row of rows) {
+    try {
+      const outcome = await relinkCase(supabase, courtListener, row)
+      result[outcome.status]++
+      for (const judgeId of outcome.touchedJudgeIds) touchedJudges.add(judgeId)
+    } catch (relinkError) {
+      result.failed++
+      logger.warn('Failed to re-link case', { caseId: row.id, error: relinkError instanceof Error ? relinkError.message : relinkError })
+    }
+  }
+
+  const repository = new DecisionRepository(supabase)
+  for (const judgeId of touchedJudges) {
+    await repository.updateJudgeCaseCount(judgeId)
+  }
+
+  result.nextCursor = rows.length === limit ? rows[rows.length - 1].id : null
+  logger.info('Re-linked case attributions', { ...result })
+  return result
+}
+
+async function loadRelinkQueue(supabase: SupabaseClient, limit: number, afterId: string | null): Promise<CaseAttributionRow[]> {
+  let query = supabase
+    .from('cases')
+    .select(CASE_COLUMNS)
+    .in('judge_attribution_method', ['redistribution', 'unverified'])
+    .order('id', { ascending: true })
+  if (afterId) query = query.gt('id', afterId)
+  const { data, error } = await query.limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load cases to re-link: ${error.message}`)
+  }
+  return (data ?? []) as CaseAttributionRow[]
+}
+
+async function resolveJudge(supabase: SupabaseClient, courtListener: CourtListenerClient, row: CaseAttributionRow): Promise<ResolvedJudge | null> {
+  const docketId = row.courtlistener_id?.match(/^docket-(\d+)$/)?.[1]
+  const opinionId = row.courtlistener_id?.match(/^\d+$/)?.[0]
+  const fromCourtListener = docketId
+    ? await resolveFromDocket(supabase, courtListener, docketId)
+    : opinionId ? await resolveFromOpinion(supabase, courtListener, opinionId) : null
+  if (fromCourtListener) return fromCourtListener
+  return row.judge_name?.trim() ? resolveFromDocketText(supabase, row.judge_name) : null
+}
+
+async function relinkCase(
+  supabase: SupabaseClient,
+  courtListener: CourtListenerClient,
+  row: CaseAttributionRow
+): Promise<{ status: 'relinked' | 'confirmed' | 'unresolved'; touchedJudgeIds: string[] }> {
+  const resolved = await resolveJudge(supabase, courtListener, row)
+  if (!resolved) return { status: 'unresolved', touchedJudgeIds: [] }
+
+  const { error } = await supabase
+    .from('cases')
+    .update({ judge_id: resolved.judgeId, ...attributionFields(resolved.method, resolved.confidence) })
+    .eq('id', row.id)
+  if (error) {
+    throw new Error(`Failed to update case judge: ${error.message}`)
+  }
+  if (resolved.judgeId === row.judge_id) return { status: 'confirmed', touchedJudgeIds: [] }
+
+  await recordEntityChanges(supabase, [
+    buildEntityChange('case', row.id, { judge_id: row.judge_id }, { judge_id: resolved.judgeId }, {
+      source: CASE_SOURCE_ATTRIBUTION,
+      jurisdiction: row.jurisdiction
+    })
+  ])
+  return { status: 'relinked', touchedJudgeIds: [resolved.judgeId, row.judge_id].filter((id): id is string => Boolean(id)) }
+}
@@ -0,0 +1,101 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/utils/logger'
+
+export type ChangeEntityType = 'judge' | 'court' | 'case'
+export type ChangeOperation = 'insert' | 'update'
+
+export type FieldChanges = Record<string, { old: unknown; new: unknown }>
+
+export interface EntityChange {
+  entity_type: ChangeEntityType
+  entity_id: string
+  operation: ChangeOperation
+  jurisdiction: string | null
+  changes: FieldChanges
+  source: string
+  sync_id: string | null
+}
+
+/**
+ * Fields each entity reports in the change feed. Bulk payloads (raw
+ * CourtListener data, courthouse metadata) and timestamps are left out so an
+ * unchanged refresh produces no entry.
+ */
+export const TRACKED_FIELDS: Record<ChangeEntityType, readonly string[]> = {
+  judge: ['name', 'court_name', 'jurisdiction', 'appointed_date', 'education', 'bio'],
+  court: ['name', 'type', 'jurisdiction', 'courtlistener_id', 'website', 'address'],
+  case: ['case_name', 'case_number', 'case_type', 'status', 'outcome', 'filing_date', 'decision_date', 'jurisdiction', 'judge_id', 'court_id']
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === null || b === null) return a === b
+  // IDs come back from PostgREST as strings or numbers depending on column type
+  if (typeof a !== 'object' && typeof b !== 'object') return String(a) === String(b)
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Field-level diff over the given fields. Fields missing from `after` were
+ * not written and are skipped; `before` null means the row is new.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>,
+  fields: readonly string[]
+): FieldChanges {
+  const changes: FieldChanges = {}
+  for (const field of fields) {
+    if (!(field in after)) continue
+    const previous = before?.[field] ?? null
+    const next = after[field] ?? null
+    if (before && sameValue(previous, next)) continue
+    if (!before && next === null) continue
+    changes[field] = { old: previous, new: next }
+  }
+  return changes
+}
+
+/**
+ * Build a change entry for a write, or null when an update changed none of
+ * the tracked fields.
+ */
+export function buildEntityChange(
+  entityType: ChangeEntityType,
+  entityId: string,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>,
+  context: { source: string; syncId?: string | null; jurisdiction?: string | null }
+): EntityChange | null {
+  const changes = diffRecords(before, after, TRACKED_FIELDS[entityType])
+  if (before && Object.keys(changes).length === 0) return null
+
+  const jurisdiction = (after.jurisdiction ?? before?.jurisdiction ?? context.jurisdiction ?? null) as string | null
+  return {
+    entity_type: entityType,
+    entity_id: entityId,
+    operation: before ? 'update' : 'insert',
+    jurisdiction,
+    changes,
+    source: context.source,
+    sync_id: context.syncId ?? null
+  }
+}
+
+/**
+ * Append entries to the change log. Failures are logged and swallowed so the
+ * feed never fails a sync.
+ */
+export async function recordEntityChanges(
+  supabase: SupabaseClient,
+  changes: Array<EntityChange | null>
+): Promise<number> {
+  const rows = changes.filter((change): change is EntityChange => change !== null)
+  if (rows.length === 0) return 0
+
+  const { error } = await supabase.from('entity_changes').insert(rows)
+  if (error) {
+    logger.warn('Failed to record entity changes', { count: rows.length, error: error.message })
+    return 0
+  }
+  return rows.length
+}
@@ -0,0 +1,122 @@
+/**
+ * Sync Checkpoints
+ * Cursors that let a queued sync job stop part-way and resume on its next run
+ */
+
+export interface SyncCheckpointProgress {
+  processed: number
+  total: number | null
+}
+
+export interface SyncCheckpoint<TCursor = Record<string, unknown>> {
+  cursor: TCursor
+  progress: SyncCheckpointProgress
+  /** Number of runs that have worked on this job, including the current one. */
+  runs: number
+  savedAt: string
+}
+
+/**
+ * How a caller (normally SyncQueueManager) controls a resumable run.
+ * saveCheckpoint resolves false once the job's lease has been lost, which
+ * stops the run so two workers never advance the same cursor.
+ */
+export interface SyncRunControl<TCursor = Record<string, unknown>> {
+  checkpoint?: SyncCheckpoint<TCursor> | null
+  saveCheckpoint?: (checkpoint: SyncCheckpoint<TCursor>) => Promise<boolean>
+  /** Epoch milliseconds after which the run should stop and yield. */
+  deadline?: number | null
+}
+
+export interface JudgeSyncCursor {
+  /** update: refresh stale judges; discover: page CourtListener for new judges; import: create them. */
+  phase: 'update' | 'discover' | 'import'
+  /** Last judges.id refreshed in the update phase (judges are walked in id order). */
+  lastJudgeId: string | null
+  /** CourtListener page URL to continue discovery from. */
+  discoveryUrl: string | null
+  /** Discovered CourtListener judge IDs not yet imported. */
+  pendingImportIds: string[]
+}
+
+export interface DecisionSyncCursor {
+  /** Last judges.id whose decisions finished syncing (judges are walked in id order). */
+  lastJudgeId: string | null
+  /**
+   * Since-date chosen for a judge that was started but not finished, so a
+   * resumed run fetches the same window instead of one derived from the
+   * decisions it already inserted.
+   */
+  judgeSinceDates: Record<string, string>
+}
+
+export function createJudgeSyncCursor(): JudgeSyncCursor {
+  return { phase: 'update', lastJudgeId: null, discoveryUrl: null, pendingImportIds: [] }
+}
+
+export function createDecisionSyncCursor(): DecisionSyncCursor {
+  return { lastJudgeId: null, judgeSinceDates: {} }
+}
+
+export type SyncStopReason = 'deadline' | 'lease_lost'
+
+export class SyncCheckpointTracker<TCursor> {
+  readonly cursor: TCursor
+  readonly resumed: boolean
+  private processed: number
+  private total: number | null
+  private readonly runs: number
+  private stopReason: SyncStopReason | null = null
+
+  constructor(initial: TCursor, private readonly control: SyncRunControl<TCursor> = {}) {
+    const previous = control.checkpoint ?? null
+    this.resumed = Boolean(previous)
+    this.cursor = previous ? { ...initial, ...previous.cursor } : initial
+    this.processed = previous?.progress.processed ?? 0
+    this.total = previous?.progress.total ?? null
+    this.runs = (previous?.runs ?? 0) + 1
+  }
+
+  /** True once the deadline has passed or the lease was lost. */
+  shouldStop(now: number = Date.now()): boolean {
+    if (this.stopReason) return true
+    if (this.control.deadline && now >= this.control.deadline) {
+      this.stopReason = 'deadline'
+    }
+    return this.stopReason !== null
+  }
+
+  get stoppedBy(): SyncStopReason | null {
+    return this.stopReason
+  }
+
+  get progress(): SyncCheckpointProgress {
+    return { processed: this.processed, total: this.total }
+  }
+
+  advance(count: number = 1) {
+    this.processed += count
+  }
+
+  setTotal(total: number | null) {
+    this.total = total
+  }
+
+  toCheckpoint(): SyncCheckpoint<TCursor> {
+    return {
+      cursor: this.cursor,
+      progress: this.progress,
+      runs: this.runs,
+      savedAt: new Date().toISOString()
+    }
+  }
+
+  /** Persist the cursor. A no-op when the run is not queue-managed. */
+  async save(): Promise<void> {
+    if (!this.control.saveCheckpoint) return
+    const held = await this.control.saveCheckpoint(this.toCheckpoint())
+    if (!held) {
+      this.stopReason = 'lease_lost'
+    }
+  }
+}
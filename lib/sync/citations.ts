@@ -0,0 +1,283 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/utils/logger'
+import { SyncCheckpointTracker, type SyncCheckpoint, type SyncRunControl } from '@/lib/sync/checkpoint'
+
+export type CitationType = 'state' | 'federal'
+
+export interface ExtractedCitation {
+  volume: number
+  reporter: string
+  page: string
+  citation_type: CitationType
+  normalized: string
+}
+
+/** Where a citation backfill left off, saved in its sync_queue checkpoint. */
+export interface CitationBackfillCursor {
+  /** Last opinions.id re-extracted (opinions are walked in id order). */
+  lastOpinionId: string | null
+  citations: number
+}
+
+export interface CitationBackfillResult {
+  success: boolean
+  opinions: number
+  citations: number
+  incomplete?: boolean
+  checkpoint?: SyncCheckpoint<CitationBackfillCursor>
+}
+
+interface ReporterDefinition {
+  canonical: string
+  type: CitationType
+}
+
+/**
+ * California official and West reporters, the Pacific reporter, and the
+ * federal reporters, in canonical Bluebook-style spelling.
+ */
+const REPORTERS: ReporterDefinition[] = [
+  ...['Cal.', 'Cal.2d', 'Cal.3d', 'Cal.4th', 'Cal.5th'].map((canonical) => ({ canonical, type: 'state' as const })),
+  ...['Cal.App.', 'Cal.App.2d', 'Cal.App.3d', 'Cal.App.4th', 'Cal.App.5th'].map((canonical) => ({ canonical, type: 'state' as const })),
+  ...['Cal.Rptr.', 'Cal.Rptr.2d', 'Cal.Rptr.3d'].map((canonical) => ({ canonical, type: 'state' as const })),
+  ...['P.', 'P.2d', 'P.3d'].map((canonical) => ({ canonical, type: 'state' as const })),
+  ...['U.S.', 'S.Ct.', 'L.Ed.', 'L.Ed.2d'].map((canonical) => ({ canonical, type: 'federal' as const })),
+  ...['F.', 'F.2d', 'F.3d', 'F.4th', 'F.Supp.', 'F.Supp.2d', 'F.Supp.3d', 'F.App\'x'].map((canonical) => ({
+    canonical,
+    type: 'federal' as const
+  }))
+]
+
+/**
+ * Other spellings of tracked reporters found in opinions and CourtListener
+ * clusters. Spacing between parts is matched loosely, so aliases are written
+ * without spaces.
+ */
+const REPORTER_ALIASES: Record<string, string> = {
+  'Fed.Appx.': 'F.App\'x',
+  'Fed.Appx': 'F.App\'x',
+  'Fed.App\'x': 'F.App\'x',
+  'F.Appx.': 'F.App\'x',
+  'F.Appx': 'F.App\'x',
+  'F.App\u2019x': 'F.App\'x'
+}
+
+interface ReporterSpelling {
+  spelling: string
+  reporter: ReporterDefinition
+}
+
+const SPELLINGS: ReporterSpelling[] = [
+  ...REPORTERS.map((reporter) => ({ spelling: reporter.canonical, reporter })),
+  ...Object.entries(REPORTER_ALIASES).flatMap(([spelling, canonical]) => {
+    const reporter = REPORTERS.find((definition) => definition.canonical === canonical)
+    return reporter ? [{ spelling, reporter }] : []
+  })
+]
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Split "Cal.App.4th" into ["Cal.", "App.", "4th"] so spacing between parts can vary. */
+function reporterTokens(spelling: string): string[] {
+  return spelling.match(/[A-Za-z'\u2019]+\.?|\d+(?:d|th)/g) ?? [spelling]
+}
+
+function reporterPattern(spelling: string): string {
+  return reporterTokens(spelling).map(escapeRegex).join('\\s*')
+}
+
+// Longest spellings first so "Cal.App.4th" is never read as "Cal."
+const BY_LENGTH = [...SPELLINGS].sort((left, right) => right.spelling.length - left.spelling.length)
+const CITATION_PATTERN = new RegExp(
+  `\\b(\\d{1,4})\\s+(${BY_LENGTH.map((entry) => reporterPattern(entry.spelling)).join('|')})\\s+(\\d{1,5})\\b`,
+  'g'
+)
+const REPORTER_MATCHERS = BY_LENGTH.map((entry) => ({
+  reporter: entry.reporter,
+  pattern: new RegExp(`^${reporterPattern(entry.spelling)}$`, 'i')
+}))
+
+/**
+ * Map a reporter abbreviation as written ("Cal. App. 4th", "F. Supp. 2d",
+ * "Fed. Appx") to its canonical form; null when it is not a tracked reporter.
+ */
+export function canonicalReporter(raw: string): ReporterDefinition | null {
+  const compact = raw.trim()
+  return REPORTER_MATCHERS.find((matcher) => matcher.pattern.test(compact))?.reporter ?? null
+}
+
+export function formatCitation(volume: number | string, reporter: string, page: number | string): string {
+  return `${volume} ${reporter} ${page}`
+}
+
+/**
+ * Find California and federal reporter citations in opinion text, one entry
+ * per distinct citation in order of first appearance.
+ */
+export function extractCitations(text: string | null | undefined): ExtractedCitation[] {
+  if (!text) return []
+  const found = new Map<string, ExtractedCitation>()
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const reporter = canonicalReporter(match[2])
+    if (!reporter) continue
+    const volume = Number(match[1])
+    const page = match[3]
+    const normalized = formatCitation(volume, reporter.canonical, page)
+    if (!found.has(normalized)) {
+      found.set(normalized, { volume, reporter: reporter.canonical, page, citation_type: reporter.type, normalized })
+    }
+  }
+
+  return Array.from(found.values())
+}
+
+/**
+ * Extract the citations in an opinion and store them as edges from the opinion,
+ * resolved to a known case when that case's own reporter citation is on file.
+ */
+export async function storeOpinionCitations(
+  supabase: SupabaseClient,
+  opinionId: string,
+  caseId: string,
+  text: string
+): Promise<number> {
+  const citations = extractCitations(text)
+  if (citations.length === 0) return 0
+
+  try {
+    const { data: known, error: lookupError } = await supabase
+      .from('case_reporter_citations')
+      .select('case_id, normalized_citation')
+      .in('normalized_citation', citations.map((citation) => citation.normalized))
+    if (lookupError) throw new Error(lookupError.message)
+
+    const resolved = new Map<string, string>(
+      (known ?? []).map((row: { case_id: string; normalized_citation: string }) => [row.normalized_citation, row.case_id])
+    )
+
+    const rows = citations
+      // A parallel citation to the opinion's own case is not an edge
+      .filter((citation) => resolved.get(citation.normalized) !== caseId)
+      .map((citation) => ({
+        opinion_id: opinionId,
+        citation_type: citation.citation_type,
+        volume: citation.volume,
+        reporter: citation.reporter,
+        page: citation.page,
+        citation_string: citation.normalized,
+        normalized_citation: citation.normalized,
+        cited_case_id: resolved.get(citation.normalized) ?? null
+      }))
+
+    const { error } = await supabase
+      .from('citations')
+      .upsert(rows, { onConflict: 'opinion_id,normalized_citation' })
+    if (error) throw new Error(error.message)
+
+    return rows.length
+  } catch (error) {
+    logger.warn('Failed to store opinion citations', {
+      opinionId,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    return 0
+  }
+}
+
+/**
+ * Record the reporter citations a case is published under (from its CourtListener
+ * cluster) and resolve earlier citations that were waiting on them.
+ */
+export async function recordCaseReporterCitations(
+  supabase: SupabaseClient,
+  caseId: string,
+  clusterCitations: Array<{ volume?: number | string; reporter?: string; page?: number | string }> | null | undefined
+): Promise<void> {
+  const rows = (clusterCitations ?? []).flatMap((citation) => {
+    const reporter = citation.reporter ? canonicalReporter(citation.reporter) : null
+    if (!reporter || !citation.volume || !citation.page) return []
+    return [{
+      case_id: caseId,
+      volume: Number(citation.volume),
+      reporter: reporter.canonical,
+      page: String(citation.page),
+      citation_type: reporter.type,
+      normalized_citation: formatCitation(Number(citation.volume), reporter.canonical, citation.page)
+    }]
+  })
+  if (rows.length === 0) return
+
+  const { error } = await supabase
+    .from('case_reporter_citations')
+    .upsert(rows, { onConflict: 'normalized_citation', ignoreDuplicates: true })
+  if (error) {
+    logger.warn('Failed to record case reporter citations', { caseId, error: error.message })
+    return
+  }
+
+  const { error: resolveError } = await supabase
+    .from('citations')
+    .update({ cited_case_id: caseId })
+    .in('normalized_citation', rows.map((row) => row.normalized_citation))
+    .is('cited_case_id', null)
+  if (resolveError) {
+    logger.warn('Failed to resolve pending citations', { caseId, error: resolveError.message })
+  }
+}
+
+const BACKFILL_BATCH_SIZE = 100
+
+async function fetchOpinionBatch(
+  supabase: SupabaseClient,
+  afterId: string | null
+): Promise<Array<{ id: string; case_id: string; plain_text: string | null }>> {
+  let query = supabase
+    .from('opinions')
+    .select('id, case_id, plain_text')
+    .order('id', { ascending: true })
+    .limit(BACKFILL_BATCH_SIZE)
+  if (afterId) query = query.gt('id', afterId)
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to load opinions for citation backfill: ${error.message}`)
+  return data ?? []
+}
+
+/**
+ * Runs (or resumes) a 'citations' sync job: extracts citations again from every
+ * stored opinion, so opinions synced before a reporter or spelling was
+ * recognized gain their edges. Edges are upserted, so a rerun is harmless.
+ */
+export async function backfillOpinionCitations(
+  supabase: SupabaseClient,
+  control: SyncRunControl<CitationBackfillCursor> = {}
+): Promise<CitationBackfillResult> {
+  const tracker = new SyncCheckpointTracker<CitationBackfillCursor>({ lastOpinionId: null, citations: 0 }, control)
+  const cursor = tracker.cursor
+
+  while (!tracker.shouldStop()) {
+    const opinions = await fetchOpinionBatch(supabase, cursor.lastOpinionId)
+    for (const opinion of opinions) {
+      cursor.citations += await storeOpinionCitations(supabase, opinion.id, opinion.case_id, opinion.plain_text ?? '')
+      cursor.lastOpinionId = opinion.id
+    }
+    tracker.advance(opinions.length)
+
+    if (opinions.length < BACKFILL_BATCH_SIZE) {
+      logger.info('Citation backfill completed', { opinions: tracker.progress.processed, citations: cursor.citations })
+      return { success: true, opinions: tracker.progress.processed, citations: cursor.citations }
+    }
+    await tracker.save()
+  }
+
+  return {
+    success: true,
+    opinions: tracker.progress.processed,
+    citations: cursor.citations,
+    incomplete: true,
+    checkpoint: tracker.toCheckpoint()
+  }
+}
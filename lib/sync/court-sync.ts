@@ -7,11 +7,16 @@ import { createClient, type SupabaseClient } from '@supabase/supabase-js'
 import { CourtListenerClient, type CourtListenerCourt } from '@/lib/courtlistener/client'
 import { logger } from '@/lib/utils/logger'
 import { sleep } from '@/lib/utils/helpers'
+import { buildEntityChange, recordEntityChanges } from '@/lib/sync/change-log'
+import { saveSyncPreview, SyncPreviewRecorder } from '@/lib/sync/preview'
+import { courtListenerCourtIds, FEDERAL_JURISDICTION, resolveCourtJurisdiction } from '@/lib/jurisdictions/config'
 
 interface CourtSyncOptions {
   batchSize?: number
   jurisdiction?: string
   forceRefresh?: boolean
+  /** Record the planned writes in sync_previews instead of applying them. */
+  dryRun?: boolean
 }
 
 interface CourtSyncResult {
@@ -21,25 +26,24 @@ interface CourtSyncResult {
   courtsCreated: number
   errors: string[]
   duration: number
+  dryRun?: boolean
+  previewId?: string | null
+}
+
+export interface CourtSyncDependencies {
+  supabase: SupabaseClient
+  courtListener: CourtListenerClient
 }
 
 export class CourtSyncManager {
   private supabase: SupabaseClient
   private courtListener: CourtListenerClient
   private syncId: string
+  private preview: SyncPreviewRecorder | null = null
 
-  constructor() {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
-
-    if (!supabaseUrl || !serviceRoleKey) {
-      throw new Error('Supabase credentials missing: set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY')
-    }
-
-    this.supabase = createClient(supabaseUrl, serviceRoleKey, {
-      auth: { persistSession: false }
-    })
-    this.courtListener = new CourtListenerClient()
+  constructor(dependencies?: Partial<CourtSyncDependencies>) {
+    this.supabase = dependencies?.supabase ?? this.createSupabaseServiceRoleClient()
+    this.courtListener = dependencies?.courtListener ?? new CourtListenerClient()
     this.courtListener.setMetricsReporter(async (name, value, meta) => {
       try {
         await this.supabase.from('performance_metrics').insert({
@@ -56,6 +60,20 @@ export class CourtSyncManager {
     this.syncId = `court-sync-${Date.now()}`
   }
 
+  private createSupabaseServiceRoleClient(): SupabaseClient {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Supabase credentials missing: set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY')
+    }
+
+    return createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  }
+
+
   /**
    * Main sync function - fetches and updates all court data
    */
@@ -70,6 +88,8 @@ export class CourtSyncManager {
       duration: 0
     }
 
+    this.preview = options.dryRun ? new SyncPreviewRecorder() : null
+
     try {
       logger.info('Starting court data sync', { syncId: this.syncId, options })
 
@@ -99,6 +119,19 @@ export class CourtSyncManager {
         }
       }
 
+      if (this.preview) {
+        result.dryRun = true
+        result.previewId = await saveSyncPreview(this.supabase, {
+          syncType: 'court',
+          syncId: this.syncId,
+          options: { ...options },
+          recorder: this.preview
+        })
+        if (!result.previewId) {
+          result.errors.push('Failed to save sync preview')
+        }
+      }
+
       result.duration = Date.now() - startTime
       result.success = result.errors.length === 0
 
@@ -128,6 +161,24 @@ export class CourtSyncManager {
     }
   }
 
+  /**
+   * Refresh one court we already hold, e.g. when CourtListener reports it
+   * changed. Returns null for courts not in our database.
+   */
+  async refreshCourt(courtlistenerCourtId: string): Promise<{ courtId: string } | null> {
+    this.preview = null
+    const courtData = await this.courtListener.getCourtById(courtlistenerCourtId)
+    if (!courtData) {
+      throw new Error(`Court not found: ${courtlistenerCourtId}`)
+    }
+
+    const existingCourt = await this.findExistingCourt(courtData)
+    if (!existingCourt) return null
+
+    await this.updateCourt(existingCourt, courtData)
+    return { courtId: existingCourt.id }
+  }
+
   /**
    * Fetch courts from CourtListener API
    */
@@ -155,12 +206,8 @@ export class CourtSyncManager {
       let courts = collected
 
       if (options.jurisdiction) {
-        const matcher = options.jurisdiction.toUpperCase()
-        courts = courts.filter(court => (
-          court.jurisdiction?.toUpperCase() === matcher ||
-          court.full_name?.toUpperCase().includes(matcher) ||
-          court.name?.toUpperCase().includes(matcher)
-        ))
+        const jurisdiction = options.jurisdiction
+        courts = courts.filter(court => this.isInJurisdiction(court, jurisdiction))
       }
 
       logger.info('Fetched courts from CourtListener', { count: courts.length })
@@ -182,6 +229,26 @@ export class CourtSyncManager {
     }
   }
 
+  /**
+   * Configured jurisdictions match on their CourtListener court IDs; a state
+   * also picks up its trial courts by name. Federal syncs stay limited to the
+   * federal courts seated in configured states.
+   */
+  private isInJurisdiction(court: CourtListenerCourt, jurisdiction: string): boolean {
+    const matcher = jurisdiction.toUpperCase()
+    const courtIds = courtListenerCourtIds(matcher)
+    if (courtIds) {
+      return courtIds.includes(court.id) ||
+        (matcher !== FEDERAL_JURISDICTION && resolveCourtJurisdiction(court).jurisdiction === matcher)
+    }
+
+    return (
+      court.jurisdiction?.toUpperCase() === matcher ||
+      court.full_name?.toUpperCase().includes(matcher) ||
+      court.name?.toUpperCase().includes(matcher)
+    )
+  }
+
   /**
    * Process a batch of courts
    */
@@ -196,15 +263,24 @@ export class CourtSyncManager {
     for (const courtData of courts) {
       try {
         const existingCourt = await this.findExistingCourt(courtData)
+        const ref = { externalId: courtData.id, label: courtData.name || courtData.full_name || null }
         
         if (existingCourt) {
           // Update existing court
           const shouldUpdate = options.forceRefresh || await this.shouldUpdateCourt(existingCourt, courtData)
           
-          if (shouldUpdate) {
-            await this.updateCourt(existingCourt.id, courtData)
+          if (shouldUpdate && this.preview) {
+            this.preview.update('court', existingCourt.id, existingCourt, this.buildCourtUpdate(courtData), ref)
             updated++
+          } else if (shouldUpdate) {
+            await this.updateCourt(existingCourt, courtData)
+            updated++
+          } else {
+            this.preview?.skip('court', { ...ref, entityId: existingCourt.id }, 'recently updated')
           }
+        } else if (this.preview) {
+          this.preview.create('court', ref, this.buildCourtInsert(courtData))
+          created++
         } else {
           // Create new court
           await this.createCourt(courtData)
@@ -227,7 +303,7 @@ export class CourtSyncManager {
     try {
       const { data: byId, error: byIdError } = await this.supabase
         .from('courts')
-        .select('id, name, courtlistener_id, updated_at, courthouse_metadata')
+        .select('id, name, type, jurisdiction, website, address, courtlistener_id, updated_at, courthouse_metadata')
         .eq('courtlistener_id', courtData.id)
         .maybeSingle()
 
@@ -245,7 +321,7 @@ export class CourtSyncManager {
 
       const { data: byName, error: byNameError } = await this.supabase
         .from('courts')
-        .select('id, name, courtlistener_id, updated_at, courthouse_metadata')
+        .select('id, name, type, jurisdiction, website, address, courtlistener_id, updated_at, courthouse_metadata')
         .ilike('name', courtData.name)
         .maybeSingle()
 
@@ -274,83 +350,78 @@ export class CourtSyncManager {
     )
   }
 
+  /**
+   * Fields written when refreshing an existing court
+   */
+  private buildCourtUpdate(courtData: CourtListenerCourt) {
+    const { jurisdiction, type } = resolveCourtJurisdiction(courtData)
+    return {
+      name: courtData.name || courtData.full_name,
+      type,
+      courtlistener_id: courtData.id,
+      jurisdiction,
+      website: courtData.url,
+      address: courtData.location || null,
+      courthouse_metadata: this.buildCourthouseMetadata(courtData),
+      updated_at: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Fields written when creating a court
+   */
+  private buildCourtInsert(courtData: CourtListenerCourt) {
+    const { jurisdiction, type } = resolveCourtJurisdiction(courtData)
+    return {
+      name: courtData.name || courtData.full_name,
+      type,
+      jurisdiction,
+      courtlistener_id: courtData.id,
+      website: courtData.url,
+      address: courtData.location || null,
+      courthouse_metadata: this.buildCourthouseMetadata(courtData),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }
+  }
+
   /**
    * Update existing court
    */
-  private async updateCourt(courtId: string, courtData: CourtListenerCourt) {
-    const metadata = this.buildCourthouseMetadata(courtData)
+  private async updateCourt(existingCourt: any, courtData: CourtListenerCourt) {
+    const updateData = this.buildCourtUpdate(courtData)
     const { error } = await this.supabase
       .from('courts')
-      .update({
-        name: courtData.name || courtData.full_name,
-        courtlistener_id: courtData.id,
-        jurisdiction: this.extractJurisdiction(courtData),
-        website: courtData.url,
-        address: courtData.location || null,
-        courthouse_metadata: metadata,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', courtId)
+      .update(updateData)
+      .eq('id', existingCourt.id)
 
     if (error) {
       throw new Error(`Failed to update court: ${error.message}`)
     }
+
+    await recordEntityChanges(this.supabase, [
+      buildEntityChange('court', existingCourt.id, existingCourt, updateData, { source: 'court-sync', syncId: this.syncId })
+    ])
   }
 
   /**
    * Create new court
    */
   private async createCourt(courtData: CourtListenerCourt) {
-    const metadata = this.buildCourthouseMetadata(courtData)
-    const { error } = await this.supabase
+    const insertData = this.buildCourtInsert(courtData)
+    const { data, error } = await this.supabase
       .from('courts')
-      .insert({
-        name: courtData.name || courtData.full_name,
-        type: this.determineCourtType(courtData),
-        jurisdiction: this.extractJurisdiction(courtData),
-        courtlistener_id: courtData.id,
-        website: courtData.url,
-        address: courtData.location || null,
-        courthouse_metadata: metadata,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
+      .insert(insertData)
+      .select('id')
+      .single()
 
     if (error) {
       throw new Error(`Failed to create court: ${error.message}`)
     }
-  }
-
-  /**
-   * Extract jurisdiction from court data
-   */
-  private extractJurisdiction(courtData: CourtListenerCourt): string {
-    if (courtData.jurisdiction) return courtData.jurisdiction
-    
-    const name = courtData.name || courtData.full_name || ''
-    
-    // Extract state from court name
-    if (name.includes('California') || name.includes('CA ')) return 'CA'
-    if (name.includes('Federal') || name.includes('U.S.')) return 'US'
-    
-    // Default to state jurisdiction
-    return 'CA'
-  }
 
-  /**
-   * Determine court type from court data
-   */
-  private determineCourtType(courtData: CourtListenerCourt): string {
-    const name = courtData.name || courtData.full_name || ''
-    
-    if (name.includes('Federal') || name.includes('U.S.') || name.includes('Circuit')) {
-      return 'federal'
-    }
-    if (name.includes('Superior') || name.includes('District') || name.includes('County')) {
-      return 'state'
-    }
-    
-    return 'state' // Default
+    await recordEntityChanges(this.supabase, [
+      buildEntityChange('court', data.id, null, insertData, { source: 'court-sync', syncId: this.syncId })
+    ])
   }
 
   /**
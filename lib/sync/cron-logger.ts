@@ -1,5 +1,6 @@
 import { createServiceRoleClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/utils/logger'
+import { runSyncAlertChecks, type AlertKind, type SyncAlertRunResult } from '@/lib/alerts/sync-alerts'
 
 interface CronMetricOptions {
   route: '/api/cron/daily-sync' | '/api/cron/weekly-sync'
@@ -38,3 +39,17 @@ export async function logCronMetric(opts: CronMetricOptions) {
     logger.warn('Cron metric logging error', { error, metric: opts.metricName })
   }
 }
+
+/**
+ * Evaluate sync alerts at the end of a cron run. Never throws: a broken
+ * alert channel must not fail the run that queued the syncs.
+ */
+export async function runCronAlertChecks(kinds?: AlertKind[]): Promise<SyncAlertRunResult | null> {
+  try {
+    const supabase = await createServiceRoleClient()
+    return await runSyncAlertChecks(supabase, { kinds })
+  } catch (error) {
+    logger.warn('Sync alert evaluation failed', { error, kinds })
+    return null
+  }
+}
@@ -3,6 +3,10 @@ import { type CourtListenerClient, type CourtListenerDocket } from '@/lib/courtl
 import { logger } from '@/lib/utils/logger'
 import { createDocketHash, normalizeCaseNumber, normalizeJurisdiction } from '@/lib/sync/normalization'
 import { formatDate, classifyCaseTypeFromDocket, buildCaseSummaryFromDocket, buildCourtListenerUrl } from '@/lib/sync/decision-helpers'
+import { syncDocketParties } from '@/lib/sync/docket-parties'
+import { buildEntityChange, recordEntityChanges, TRACKED_FIELDS } from '@/lib/sync/change-log'
+import { type SyncPreviewRecorder } from '@/lib/sync/preview'
+import { attributionFields } from '@/lib/sync/case-attribution'
 
 interface DecisionSyncOptions {
   batchSize?: number
@@ -15,24 +19,37 @@ interface DecisionSyncOptions {
   maxFilingsPerJudge?: number
   filingYearsBack?: number
   filingDaysSinceLast?: number
+  includeParties?: boolean
+  maxPartyDocketsPerJudge?: number
+  /** Sync run that change-log entries are attributed to. */
+  syncId?: string
+}
+
+interface ExistingFiling {
+  id: string
+  parties_synced_at?: string | null
+  /** Tracked case fields as stored, for the change log diff. */
+  snapshot?: Record<string, unknown>
 }
 
 interface ExistingFilingMaps {
-  byCaseNumber: Map<string, { id: string }>
-  byHash: Map<string, { id: string }>
+  byCaseNumber: Map<string, ExistingFiling>
+  byHash: Map<string, ExistingFiling>
 }
 
 export async function syncJudgeFilings(
   supabase: SupabaseClient,
   courtListener: CourtListenerClient,
   judge: any,
-  options: DecisionSyncOptions
+  options: DecisionSyncOptions,
+  preview: SyncPreviewRecorder | null = null
 ) {
   const stats = {
     processed: 0,
     created: 0,
     updated: 0,
-    skipped: 0
+    skipped: 0,
+    partiesSynced: 0
   }
 
   try {
@@ -51,81 +68,151 @@ export async function syncJudgeFilings(
     })
     logger.info('Fetched recent docket filings from CourtListener', { judgeId: judge.courtlistener_id, count: filings.length })
 
-    stats.processed = filings.length
-    if (filings.length === 0) return stats
-
-    const normalizedJurisdiction = normalizeJurisdiction(judge.jurisdiction)
-
-    const preparedFilings = filings.map(docket => {
-      const caseNumberInfo = normalizeCaseNumber(docket.docket_number ?? docket.pacer_case_id ?? null, docket.id)
-      const filingDate = formatDate(docket.date_filed)
-      const docketHash = createDocketHash({
-        caseNumberKey: caseNumberInfo.key,
-        jurisdiction: normalizedJurisdiction,
-        judgeId: judge.id,
-        courtlistenerId: docket.id,
-        filingDate
-      })
-      return { docket, caseNumberInfo, filingDate, docketHash }
+    return await applyJudgeFilings(supabase, courtListener, judge, filings, options, preview)
+  } catch (error) {
+    logger.error('Failed to sync docket filings for judge', { judgeId: judge.id, judgeName: judge.name, error })
+    return stats
+  }
+}
+
+/**
+ * Create or update the case rows for dockets assigned to a judge and refresh
+ * their parties. Used by the judge sync and for single dockets reported by
+ * CourtListener webhooks.
+ */
+export async function applyJudgeFilings(
+  supabase: SupabaseClient,
+  courtListener: CourtListenerClient,
+  judge: any,
+  filings: CourtListenerDocket[],
+  options: DecisionSyncOptions,
+  preview: SyncPreviewRecorder | null = null
+) {
+  const stats = {
+    processed: filings.length,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    partiesSynced: 0
+  }
+  if (filings.length === 0) return stats
+
+  const normalizedJurisdiction = normalizeJurisdiction(judge.jurisdiction)
+
+  const preparedFilings = filings.map(docket => {
+    const caseNumberInfo = normalizeCaseNumber(docket.docket_number ?? docket.pacer_case_id ?? null, docket.id)
+    const filingDate = formatDate(docket.date_filed)
+    const docketHash = createDocketHash({
+      caseNumberKey: caseNumberInfo.key,
+      jurisdiction: normalizedJurisdiction,
+      judgeId: judge.id,
+      courtlistenerId: docket.id,
+      filingDate
     })
+    return { docket, caseNumberInfo, filingDate, docketHash }
+  })
 
-    const existingFilings = await getExistingFilings(supabase, judge.id, preparedFilings.map(entry => ({
-      caseNumber: entry.caseNumberInfo.display,
-      docketHash: entry.docketHash
-    })))
+  const existingFilings = await getExistingFilings(supabase, judge.id, preparedFilings.map(entry => ({
+    caseNumber: entry.caseNumberInfo.display,
+    docketHash: entry.docketHash
+  })))
+  const partyCandidates: Array<{ caseId: string; docketId: number }> = []
 
-    for (const entry of preparedFilings) {
-      const { docket, caseNumberInfo, filingDate, docketHash } = entry
-      const caseNumber = caseNumberInfo.display
-      if (!caseNumber || !filingDate) { stats.skipped++; continue }
+  for (const entry of preparedFilings) {
+    const { docket, caseNumberInfo, filingDate, docketHash } = entry
+    const caseNumber = caseNumberInfo.display
+    if (!caseNumber || !filingDate) { stats.skipped++; continue }
 
-      const record = buildCaseRecordFromDocket(judge, docket, filingDate, docketHash, normalizedJurisdiction)
-      const existing = (docketHash ? existingFilings.byHash.get(docketHash) : undefined)
-        || existingFilings.byCaseNumber.get(caseNumber)
+    const record = buildCaseRecordFromDocket(judge, docket, filingDate, docketHash, normalizedJurisdiction)
+    const existing = (docketHash ? existingFilings.byHash.get(docketHash) : undefined)
+      || existingFilings.byCaseNumber.get(caseNumber)
 
+    if (preview) {
+      // Dry run: record the planned write; parties are fetched on apply
+      const ref = { externalId: docket.id ? `docket-${docket.id}` : caseNumber, label: record.case_name }
       if (existing) {
-        const { error: updateError } = await supabase
-          .from('cases')
-          .update(record)
-          .eq('id', existing.id)
-        if (updateError) {
-          logger.error('Failed to update existing filing', { judgeId: judge.id, caseNumber, error: updateError })
-          stats.skipped++
-          continue
-        }
+        preview.update('case', existing.id, existing.snapshot ?? {}, record, ref)
         stats.updated++
-        if (caseNumber) existingFilings.byCaseNumber.set(caseNumber, existing)
-        if (docketHash) existingFilings.byHash.set(docketHash, existing)
       } else {
-        const insertRecord = {
-          ...record,
-          judge_id: judge.id,
-          case_number: caseNumber,
-          docket_hash: docketHash,
-          court_id: record.court_id ?? judge.court_id ?? null
-        }
-        const onConflict = docketHash ? 'docket_hash' : 'case_number,jurisdiction'
-        const { data: inserted, error: insertError } = await supabase
-          .from('cases')
-          .upsert(insertRecord, { onConflict })
-          .select('id, case_number, docket_hash')
-          .single()
-        if (insertError) {
-          logger.error('Failed to insert filing', { judgeId: judge.id, caseNumber, error: insertError })
-          stats.skipped++
-          continue
-        }
-        if (inserted?.case_number) existingFilings.byCaseNumber.set(inserted.case_number, { id: inserted.id })
-        if (inserted?.docket_hash) existingFilings.byHash.set(inserted.docket_hash, { id: inserted.id })
+        preview.create('case', ref, { ...record, case_number: caseNumber, judge_id: judge.id })
         stats.created++
       }
+      continue
     }
 
-    return stats
-  } catch (error) {
-    logger.error('Failed to sync docket filings for judge', { judgeId: judge.id, judgeName: judge.name, error })
-    return stats
+    if (existing) {
+      const { error: updateError } = await supabase
+        .from('cases')
+        .update(record)
+        .eq('id', existing.id)
+      if (updateError) {
+        logger.error('Failed to update existing filing', { judgeId: judge.id, caseNumber, error: updateError })
+        stats.skipped++
+        continue
+      }
+      stats.updated++
+      await recordEntityChanges(supabase, [
+        buildEntityChange('case', existing.id, existing.snapshot ?? {}, record, { source: 'decision-sync', syncId: options.syncId })
+      ])
+      existing.snapshot = { ...existing.snapshot, ...record }
+      if (caseNumber) existingFilings.byCaseNumber.set(caseNumber, existing)
+      if (docketHash) existingFilings.byHash.set(docketHash, existing)
+      if (needsPartySync(existing, docket)) partyCandidates.push({ caseId: existing.id, docketId: docket.id })
+    } else {
+      const insertRecord = {
+        ...record,
+        judge_id: judge.id,
+        case_number: caseNumber,
+        docket_hash: docketHash,
+        court_id: record.court_id ?? judge.court_id ?? null
+      }
+      const onConflict = docketHash ? 'docket_hash' : 'case_number,jurisdiction'
+      const { data: inserted, error: insertError } = await supabase
+        .from('cases')
+        .upsert(insertRecord, { onConflict })
+        .select('id, case_number, docket_hash')
+        .single()
+      if (insertError) {
+        logger.error('Failed to insert filing', { judgeId: judge.id, caseNumber, error: insertError })
+        stats.skipped++
+        continue
+      }
+      if (inserted?.id) {
+        await recordEntityChanges(supabase, [
+          buildEntityChange('case', inserted.id, null, insertRecord, { source: 'decision-sync', syncId: options.syncId })
+        ])
+      }
+      const created = { id: inserted.id, snapshot: insertRecord }
+      if (inserted?.case_number) existingFilings.byCaseNumber.set(inserted.case_number, created)
+      if (inserted?.docket_hash) existingFilings.byHash.set(inserted.docket_hash, created)
+      if (inserted?.id && docket.id) partyCandidates.push({ caseId: inserted.id, docketId: docket.id })
+      stats.created++
+    }
+  }
+
+  if (options.includeParties !== false && !preview) {
+    // Two CourtListener requests per docket, so cap how many run per judge
+    const maxPartyDockets = options.maxPartyDocketsPerJudge ?? 25
+    for (const candidate of partyCandidates.slice(0, maxPartyDockets)) {
+      const partyStats = await syncDocketParties(supabase, courtListener, candidate.caseId, candidate.docketId)
+      if (partyStats.parties > 0 || partyStats.attorneys > 0) stats.partiesSynced++
+    }
+    logger.info('Synced docket parties and counsel', {
+      judgeId: judge.id,
+      candidates: partyCandidates.length,
+      synced: stats.partiesSynced
+    })
   }
+
+  return stats
+}
+
+/** Parties are refetched when the docket has had filings since they were last synced. */
+function needsPartySync(existing: ExistingFiling, docket: CourtListenerDocket): boolean {
+  if (!docket.id) return false
+  if (!existing.parties_synced_at) return true
+  const lastFiling = formatDate(docket.date_last_filing)
+  return Boolean(lastFiling && lastFiling > existing.parties_synced_at.slice(0, 10))
 }
 
 async function getSinceDateForFilings(
@@ -165,8 +252,8 @@ async function getExistingFilings(
   judgeId: string,
   lookups: Array<{ caseNumber: string | null; docketHash: string | null }>
 ): Promise<ExistingFilingMaps> {
-  const byCaseNumber = new Map<string, { id: string }>()
-  const byHash = new Map<string, { id: string }>()
+  const byCaseNumber = new Map<string, ExistingFiling>()
+  const byHash = new Map<string, ExistingFiling>()
   if (!lookups || lookups.length === 0) return { byCaseNumber, byHash }
 
   const caseNumbers = new Set(lookups.map(l => l.caseNumber).filter((v): v is string => Boolean(v)))
@@ -177,7 +264,7 @@ async function getExistingFilings(
 
   let query = supabase
     .from('cases')
-    .select('id, case_number, docket_hash')
+    .select(['id', 'docket_hash', 'parties_synced_at', ...TRACKED_FIELDS.case].join(', '))
     .eq('judge_id', judgeId)
 
   const orFilters: string[] = []
@@ -191,9 +278,11 @@ async function getExistingFilings(
     return { byCaseNumber, byHash }
   }
 
-  for (const row of data || []) {
-    if (row.case_number && row.id) byCaseNumber.set(row.case_number, { id: row.id })
-    if (row.docket_hash && row.id) byHash.set(row.docket_hash, { id: row.id })
+  for (const row of (data || []) as any[]) {
+    const snapshot = Object.fromEntries(TRACKED_FIELDS.case.map((field) => [field, row[field] ?? null]))
+    const existing = { id: row.id, parties_synced_at: row.parties_synced_at ?? null, snapshot }
+    if (row.case_number && row.id) byCaseNumber.set(row.case_number, existing)
+    if (row.docket_hash && row.id) byHash.set(row.docket_hash, existing)
   }
 
   return { byCaseNumber, byHash }
@@ -224,7 +313,8 @@ function buildCaseRecordFromDocket(
     courtlistener_id: docket.id ? `docket-${docket.id}` : null,
     source_url: buildCourtListenerUrl(docket.absolute_url),
     jurisdiction: normalizedJurisdiction,
-    docket_hash: docketHash
+    docket_hash: docketHash,
+    ...attributionFields('assigned_to')
   }
 }
 
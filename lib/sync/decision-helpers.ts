@@ -110,6 +110,17 @@ export function buildCaseSummaryFromDocket(
   return parts.join(' | ').substring(0, 500)
 }
 
+/**
+ * CourtListener references related objects by id or by API URL
+ * (".../people/1001/"); return the id either way.
+ */
+export function parseCourtListenerId(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value)
+  if (typeof value !== 'string' || !value.trim()) return null
+  const match = value.trim().match(/([^/]+)\/?$/)
+  return match ? match[1] : null
+}
+
 export function getDecisionKey(decision: { opinion_id?: number; id?: number; cluster_id?: number }): string {
   if (decision.opinion_id) return decision.opinion_id.toString()
   if (decision.id) return decision.id.toString()
@@ -1,8 +1,21 @@
 import { type SupabaseClient } from '@supabase/supabase-js'
 import { type CourtListenerClient } from '@/lib/courtlistener/client'
 import { stripHtml } from '@/lib/sync/decision-helpers'
+import { recordCaseReporterCitations, storeOpinionCitations } from '@/lib/sync/citations'
 import { logger } from '@/lib/utils/logger'
 
+/**
+ * Rebuild the full-text search vectors for opinions. The vector includes the
+ * case name, so it is refreshed explicitly rather than generated by Postgres.
+ */
+export async function refreshOpinionSearchIndex(supabase: SupabaseClient, opinionIds: string[]): Promise<void> {
+  if (opinionIds.length === 0) return
+  const { error } = await supabase.rpc('refresh_opinion_search_vectors', { p_opinion_ids: opinionIds })
+  if (error) {
+    logger.warn('Failed to refresh opinion search index', { opinionIds, error: error.message })
+  }
+}
+
 export async function ensureOpinionForCase(
   supabase: SupabaseClient,
   courtListener: CourtListenerClient,
@@ -14,11 +27,15 @@ export async function ensureOpinionForCase(
 
   const { data: existingOpinion } = await supabase
     .from('opinions')
-    .select('id')
+    .select('id, search_vector')
     .eq('case_id', caseId)
     .eq('courtlistener_id', opinionId.toString())
     .maybeSingle()
-  if (existingOpinion) return
+  if (existingOpinion) {
+    // Opinions stored before the search index existed are indexed on their next sync
+    if (!existingOpinion.search_vector) await refreshOpinionSearchIndex(supabase, [existingOpinion.id])
+    return
+  }
 
   try {
     const opinionDetail = await courtListener.getOpinionDetail(opinionId)
@@ -46,12 +63,24 @@ export async function ensureOpinionForCase(
       updated_at: new Date().toISOString()
     }
 
-    const { error } = await supabase
+    const { data: savedOpinion, error } = await supabase
       .from('opinions')
       .upsert(opinionRecord, { onConflict: 'courtlistener_id' })
+      .select('id')
+      .single()
     if (error) {
       logger.error('Failed to upsert opinion', { error, opinionId })
+      return
+    }
+    if (!savedOpinion) return
+    await refreshOpinionSearchIndex(supabase, [savedOpinion.id])
+
+    // The case's own reporter citations go first so its parallel cites are not stored as edges
+    if (opinionRecord.cluster_id) {
+      const cluster = await courtListener.getClusterDetails(opinionRecord.cluster_id).catch(() => null)
+      await recordCaseReporterCitations(supabase, caseId, cluster?.citations)
     }
+    await storeOpinionCitations(supabase, savedOpinion.id, caseId, plainText)
   } catch (error) {
     logger.error('Failed to fetch opinion detail', { opinionId, error })
   }
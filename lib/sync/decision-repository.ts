@@ -1,6 +1,9 @@
 import { type SupabaseClient } from '@supabase/supabase-js'
 import { normalizeCaseNumber, normalizeJurisdiction, normalizeOutcomeLabel, createDocketHash } from '@/lib/sync/normalization'
 import { getDecisionKey } from '@/lib/sync/decision-helpers'
+import { buildEntityChange, recordEntityChanges, TRACKED_FIELDS } from '@/lib/sync/change-log'
+import { attributionFields } from '@/lib/sync/case-attribution'
+import { emitWebhookEvent } from '@/lib/webhooks/events'
 
 export interface CourtListenerDecision {
   id: number
@@ -14,11 +17,20 @@ export interface CourtListenerDecision {
   opinion_id?: number
 }
 
+export interface DecisionPlan {
+  caseRecord: Record<string, unknown> & { case_number: string }
+  /** Tracked fields of the row the upsert would overwrite, if any. */
+  existing: (Record<string, unknown> & { id: string }) | null
+  onConflict: string
+}
+
 export class DecisionRepository {
   private readonly supabase: SupabaseClient
+  private readonly syncId: string | null
 
-  constructor(supabase: SupabaseClient) {
+  constructor(supabase: SupabaseClient, syncId: string | null = null) {
     this.supabase = supabase
+    this.syncId = syncId
   }
 
   async getExistingDecisions(judgeId: string, decisionIds: string[]): Promise<Map<string, string>> {
@@ -35,7 +47,11 @@ export class DecisionRepository {
     return map
   }
 
-  async upsertDecision(judgeId: string, jurisdiction: string | null, decision: CourtListenerDecision): Promise<{ caseId: string | null; created: boolean }> {
+  /**
+   * Build the case row for a decision and read the row it would overwrite,
+   * without writing anything
+   */
+  async planDecision(judgeId: string, jurisdiction: string | null, decision: CourtListenerDecision): Promise<DecisionPlan> {
     const decisionKey = getDecisionKey(decision)
     const normalizedJurisdiction = normalizeJurisdiction(jurisdiction)
     const caseNumberInfo = normalizeCaseNumber(`CL-${decision.cluster_id}`, decision.cluster_id)
@@ -62,10 +78,31 @@ export class DecisionRepository {
       summary: decision.case_name ? `CourtListener opinion for ${decision.case_name}` : `CourtListener opinion ${decisionKey}`,
       courtlistener_id: decisionKey,
       jurisdiction: normalizedJurisdiction,
+      ...attributionFields('opinion_author'),
       updated_at: new Date().toISOString()
     }
 
-    const onConflict = docketHash ? 'docket_hash' : 'case_number,jurisdiction'
+    // Read the row the upsert would overwrite so the change log can diff it
+    let lookup = this.supabase
+      .from('cases')
+      .select(['id', ...TRACKED_FIELDS.case].join(', '))
+    if (docketHash) {
+      lookup = lookup.eq('docket_hash', docketHash)
+    } else {
+      lookup = lookup.eq('case_number', caseRecord.case_number)
+      lookup = normalizedJurisdiction ? lookup.eq('jurisdiction', normalizedJurisdiction) : lookup.is('jurisdiction', null)
+    }
+    const { data: existing } = await lookup.limit(1).maybeSingle<Record<string, unknown> & { id: string }>()
+
+    return {
+      caseRecord,
+      existing: existing ?? null,
+      onConflict: docketHash ? 'docket_hash' : 'case_number,jurisdiction'
+    }
+  }
+
+  async upsertDecision(judgeId: string, jurisdiction: string | null, decision: CourtListenerDecision): Promise<{ caseId: string | null; created: boolean }> {
+    const { caseRecord, existing, onConflict } = await this.planDecision(judgeId, jurisdiction, decision)
     const { data, error } = await this.supabase
       .from('cases')
       .upsert(caseRecord, { onConflict })
@@ -74,7 +111,24 @@ export class DecisionRepository {
     if (error) {
       throw new Error(`Failed to upsert decision: ${error.message}`)
     }
-    return { caseId: data?.id || null, created: true }
+    if (data?.id) {
+      await recordEntityChanges(this.supabase, [
+        buildEntityChange('case', data.id, existing, caseRecord, { source: 'decision-sync', syncId: this.syncId })
+      ])
+      if (!existing) {
+        await emitWebhookEvent(this.supabase, 'decision.synced', {
+          case_id: data.id,
+          judge_id: judgeId,
+          case_name: caseRecord.case_name,
+          case_number: caseRecord.case_number,
+          decision_date: caseRecord.decision_date,
+          jurisdiction: caseRecord.jurisdiction,
+          courtlistener_id: caseRecord.courtlistener_id,
+          sync_id: this.syncId
+        })
+      }
+    }
+    return { caseId: data?.id || null, created: !existing }
   }
 
   async updateJudgeCaseCount(judgeId: string): Promise<void> {
@@ -14,10 +14,18 @@ import {
   normalizeJurisdiction,
   toTitle
 } from '@/lib/sync/normalization'
-import { getDecisionKey, determineCaseOutcomeAndStatus, classifyCaseTypeFromDocket, formatDate, buildCaseSummaryFromDocket, buildCourtListenerUrl } from '@/lib/sync/decision-helpers'
-import { syncJudgeFilings as syncJudgeFilingsExternal } from '@/lib/sync/decision-filings'
+import { getDecisionKey, determineCaseOutcomeAndStatus, classifyCaseTypeFromDocket, formatDate, buildCaseSummaryFromDocket, buildCourtListenerUrl, parseCourtListenerId } from '@/lib/sync/decision-helpers'
+import { applyJudgeFilings as applyJudgeFilingsExternal, syncJudgeFilings as syncJudgeFilingsExternal } from '@/lib/sync/decision-filings'
 import { DecisionRepository } from '@/lib/sync/decision-repository'
 import { ensureOpinionForCase as ensureOpinionForCaseExternal } from '@/lib/sync/decision-opinions'
+import { saveSyncPreview, SyncPreviewRecorder } from '@/lib/sync/preview'
+import {
+  createDecisionSyncCursor,
+  SyncCheckpointTracker,
+  type DecisionSyncCursor,
+  type SyncCheckpoint,
+  type SyncRunControl
+} from '@/lib/sync/checkpoint'
 
 interface DecisionSyncOptions {
   batchSize?: number
@@ -30,6 +38,10 @@ interface DecisionSyncOptions {
   maxFilingsPerJudge?: number
   filingYearsBack?: number
   filingDaysSinceLast?: number
+  includeParties?: boolean
+  maxPartyDocketsPerJudge?: number
+  /** Record the planned case writes in sync_previews instead of applying them. */
+  dryRun?: boolean
 }
 
 interface DecisionSyncResult {
@@ -45,6 +57,11 @@ interface DecisionSyncResult {
   filingsSkipped: number
   errors: string[]
   duration: number
+  /** Set when the run stopped at its deadline; the job resumes from checkpoint. */
+  incomplete?: boolean
+  checkpoint?: SyncCheckpoint<DecisionSyncCursor>
+  dryRun?: boolean
+  previewId?: string | null
 }
 
 interface ExistingFilingMaps {
@@ -64,24 +81,22 @@ interface CourtListenerDecision {
   opinion_id?: number
 }
 
+export interface DecisionSyncDependencies {
+  supabase: SupabaseClient
+  courtListener: CourtListenerClient
+}
+
 export class DecisionSyncManager {
   private supabase: SupabaseClient
   private courtListener: CourtListenerClient
   private syncId: string
   private repository: DecisionRepository
+  private checkpoint = new SyncCheckpointTracker<DecisionSyncCursor>(createDecisionSyncCursor())
+  private preview: SyncPreviewRecorder | null = null
 
-  constructor() {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
-
-    if (!supabaseUrl || !serviceRoleKey) {
-      throw new Error('Supabase credentials missing: set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY')
-    }
-
-    this.supabase = createClient(supabaseUrl, serviceRoleKey, {
-      auth: { persistSession: false }
-    })
-    this.courtListener = new CourtListenerClient()
+  constructor(dependencies?: Partial<DecisionSyncDependencies>) {
+    this.supabase = dependencies?.supabase ?? this.createSupabaseServiceRoleClient()
+    this.courtListener = dependencies?.courtListener ?? new CourtListenerClient()
     this.courtListener.setMetricsReporter(async (name, value, meta) => {
       try {
         await this.supabase.from('performance_metrics').insert({
@@ -96,13 +111,33 @@ export class DecisionSyncManager {
       } catch (_) {}
     })
     this.syncId = `decision-sync-${Date.now()}`
-    this.repository = new DecisionRepository(this.supabase)
+    this.repository = new DecisionRepository(this.supabase, this.syncId)
+  }
+
+  private createSupabaseServiceRoleClient(): SupabaseClient {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Supabase credentials missing: set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY')
+    }
+
+    return createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
   }
 
+
   /**
-   * Main decision sync function
+   * Main decision sync function. Queue-managed runs pass a control with the
+   * job's last checkpoint and a deadline; judges are walked in id order and
+   * the cursor is saved after each one. Dry runs keep only the deadline and
+   * save a partial preview when it passes.
    */
-  async syncDecisions(options: DecisionSyncOptions = {}): Promise<DecisionSyncResult> {
+  async syncDecisions(
+    options: DecisionSyncOptions = {},
+    control: SyncRunControl<DecisionSyncCursor> = {}
+  ): Promise<DecisionSyncResult> {
     const startTime = Date.now()
     const result: DecisionSyncResult = {
       success: false,
@@ -119,14 +154,25 @@ export class DecisionSyncManager {
       duration: 0
     }
 
+    this.preview = options.dryRun ? new SyncPreviewRecorder() : null
+    const checkpoint = new SyncCheckpointTracker(
+      createDecisionSyncCursor(),
+      this.preview ? { deadline: control.deadline } : control
+    )
+    this.checkpoint = checkpoint
+
     try {
       logger.info('Starting decision data sync', { syncId: this.syncId, options })
+      if (checkpoint.resumed) {
+        logger.info('Resuming decision sync from checkpoint', { syncId: this.syncId, cursor: checkpoint.cursor })
+      }
 
       await this.logSyncStart('decision', options)
 
       // Get judges to sync decisions for
-      const judgesToSync = await this.getJudgesForDecisionSync(options)
+      const judgesToSync = await this.getJudgesForDecisionSync(options, checkpoint.cursor.lastJudgeId)
       result.judgesProcessed = judgesToSync.length
+      checkpoint.setTotal(checkpoint.progress.processed + judgesToSync.length)
 
       if (judgesToSync.length === 0) {
         logger.info('No judges found for decision sync')
@@ -157,12 +203,33 @@ export class DecisionSyncManager {
           logger.error('Decision batch processing failed', { batch: i / batchSize + 1, error })
         }
 
+        if (checkpoint.shouldStop()) {
+          break
+        }
+
         // Rate limiting - longer pause between batches for decisions
         if (i + batchSize < judgesToSync.length) {
           await sleep(3000)
         }
       }
 
+      if (this.preview) {
+        this.preview.truncated = checkpoint.stoppedBy !== null
+        result.dryRun = true
+        result.previewId = await saveSyncPreview(this.supabase, {
+          syncType: 'decision',
+          syncId: this.syncId,
+          options: { ...options },
+          recorder: this.preview
+        })
+        if (!result.previewId) {
+          result.errors.push('Failed to save sync preview')
+        }
+      } else if (checkpoint.stoppedBy) {
+        result.incomplete = true
+        result.checkpoint = checkpoint.toCheckpoint()
+      }
+
       result.duration = Date.now() - startTime
       result.success = result.errors.length === 0
 
@@ -190,14 +257,104 @@ export class DecisionSyncManager {
     }
   }
 
+  /**
+   * Upsert a single opinion under the judge who wrote it, e.g. when a webhook
+   * reports it. Returns null when the author is not a judge we track.
+   */
+  async syncOpinion(opinionId: string | number): Promise<{ judgeId: string; caseId: string | null; created: boolean } | null> {
+    this.preview = null
+    const opinion = await this.courtListener.getOpinionDetail(opinionId)
+    const authorId = parseCourtListenerId(opinion?.author_id ?? opinion?.author)
+    const clusterId = parseCourtListenerId(opinion?.cluster_id ?? opinion?.cluster)
+    if (!authorId || !clusterId) return null
+
+    const judge = await this.findJudgeByCourtListenerId(authorId)
+    if (!judge) return null
+
+    const cluster = await this.courtListener.getClusterDetails(clusterId)
+    const decision: CourtListenerDecision = {
+      id: Number(opinion.id),
+      opinion_id: Number(opinion.id),
+      cluster_id: Number(clusterId),
+      case_name: cluster?.case_name || 'Unknown Case',
+      date_filed: cluster?.date_filed,
+      precedential_status: cluster?.precedential_status,
+      author_str: opinion.author_str || undefined,
+      date_created: opinion.date_created
+    }
+
+    const caseResult = await this.repository.upsertDecision(judge.id, normalizeJurisdiction(judge.jurisdiction || null), decision)
+    if (caseResult.caseId) {
+      await ensureOpinionForCaseExternal(this.supabase, this.courtListener, caseResult.caseId, decision)
+    }
+    await this.repository.updateJudgeCaseCount(judge.id)
+    return { judgeId: judge.id, ...caseResult }
+  }
+
+  /**
+   * Refresh a single docket and its parties, e.g. after a docket alert.
+   * The docket is filed under its assigned judge, or under the judge of the
+   * case we already hold for it. Returns null when neither is known to us.
+   */
+  async syncDocket(docketId: string | number): Promise<{ judgeId: string; created: number; updated: number; skipped: number } | null> {
+    this.preview = null
+    const docket = await this.courtListener.getDocketById(docketId)
+    if (!docket) {
+      throw new Error(`Docket not found: ${docketId}`)
+    }
+
+    let judge = docket.assigned_to_id ? await this.findJudgeByCourtListenerId(docket.assigned_to_id) : null
+    if (!judge) {
+      const { data: existingCase } = await this.supabase
+        .from('cases')
+        .select('judge_id')
+        .eq('courtlistener_id', `docket-${docket.id}`)
+        .not('judge_id', 'is', null)
+        .limit(1)
+        .maybeSingle()
+      if (existingCase?.judge_id) {
+        const { data } = await this.supabase
+          .from('judges')
+          .select('id, name, courtlistener_id, jurisdiction, court_id')
+          .eq('id', existingCase.judge_id)
+          .maybeSingle()
+        judge = data
+      }
+    }
+    if (!judge) return null
+
+    const stats = await applyJudgeFilingsExternal(this.supabase, this.courtListener, judge, [docket], { syncId: this.syncId })
+    await this.repository.updateJudgeCaseCount(judge.id)
+    return { judgeId: judge.id, created: stats.created, updated: stats.updated, skipped: stats.skipped }
+  }
+
+  private async findJudgeByCourtListenerId(courtlistenerId: string) {
+    const { data, error } = await this.supabase
+      .from('judges')
+      .select('id, name, courtlistener_id, jurisdiction, court_id')
+      .eq('courtlistener_id', courtlistenerId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to look up judge: ${error.message}`)
+    }
+
+    return data
+  }
+
   /**
    * Get judges that need decision updates
    */
-  private async getJudgesForDecisionSync(options: DecisionSyncOptions) {
+  private async getJudgesForDecisionSync(options: DecisionSyncOptions, afterJudgeId: string | null = null) {
     let query = this.supabase
       .from('judges')
       .select('id, name, courtlistener_id')
       .not('courtlistener_id', 'is', null)
+      .order('id', { ascending: true })
+
+    if (afterJudgeId) {
+      query = query.gt('id', afterJudgeId)
+    }
 
     if (options.jurisdiction) {
       query = query.eq('jurisdiction', options.jurisdiction)
@@ -230,6 +387,10 @@ export class DecisionSyncManager {
     let filingsSkipped = 0
 
     for (const judge of judges) {
+      if (this.checkpoint.shouldStop()) {
+        break
+      }
+
       try {
         const result = await this.syncJudgeDecisions(judge, options)
         decisionsProcessed += result.decisionsProcessed
@@ -252,6 +413,11 @@ export class DecisionSyncManager {
         })
         // Continue with other judges
       }
+
+      this.checkpoint.cursor.lastJudgeId = judge.id
+      delete this.checkpoint.cursor.judgeSinceDates[judge.id]
+      this.checkpoint.advance()
+      await this.checkpoint.save()
     }
 
     return {
@@ -285,8 +451,14 @@ export class DecisionSyncManager {
     }
 
     try {
-      // Determine date range for fetching decisions
-      const sinceDate = await this.getSinceDateForJudge(judge.id, options)
+      // Determine date range for fetching decisions, reusing the window of an interrupted run
+      const cursor = this.checkpoint.cursor
+      let sinceDate = cursor.judgeSinceDates[judge.id]
+      if (!sinceDate) {
+        sinceDate = await this.getSinceDateForJudge(judge.id, options)
+        cursor.judgeSinceDates[judge.id] = sinceDate
+        await this.checkpoint.save()
+      }
 
       logger.info('Syncing decisions for judge', {
         judge: judge.name,
@@ -311,11 +483,19 @@ export class DecisionSyncManager {
       }
 
       if (options.includeDockets !== false) {
-        filingStats = await syncJudgeFilingsExternal(this.supabase, this.courtListener, judge, options)
+        filingStats = await syncJudgeFilingsExternal(
+          this.supabase,
+          this.courtListener,
+          judge,
+          { ...options, syncId: this.syncId },
+          this.preview
+        )
       }
 
       // Update judge's total case count after decisions and filings
-      await this.repository.updateJudgeCaseCount(judge.id)
+      if (!this.preview) {
+        await this.repository.updateJudgeCaseCount(judge.id)
+      }
 
       logger.info('Completed decision sync for judge', {
         judge: judge.name,
@@ -481,6 +661,11 @@ export class DecisionSyncManager {
   ) {
     const decisionKey = getDecisionKey(decision)
     try {
+      if (this.preview) {
+        await this.previewSingleDecision(judge, decision, decisionKey, existingDecisions, decisionStats, jurisdiction)
+        return
+      }
+
       if (decisionKey && existingDecisions.has(decisionKey)) {
         const existingCaseId = existingDecisions.get(decisionKey)
         if (existingCaseId) {
@@ -511,6 +696,40 @@ export class DecisionSyncManager {
     }
   }
 
+  /**
+   * Dry-run counterpart of handleSingleDecision: records the case write it
+   * would make. Opinion text and citations are derived on apply and are not
+   * previewed.
+   */
+  private async previewSingleDecision(
+    judge: any,
+    decision: CourtListenerDecision,
+    decisionKey: string | null,
+    existingDecisions: Map<string, string>,
+    decisionStats: { processed: number; created: number; updated: number; duplicatesSkipped: number },
+    jurisdiction: string | null
+  ) {
+    const preview = this.preview!
+    const ref = { externalId: decisionKey, label: decision.case_name || null }
+
+    if (decisionKey && existingDecisions.has(decisionKey)) {
+      const existingCaseId = existingDecisions.get(decisionKey) || null
+      preview.skip('case', { ...ref, entityId: existingCaseId }, existingCaseId ? 'opinion refresh only' : 'duplicate')
+      if (existingCaseId) decisionStats.updated++
+      else decisionStats.duplicatesSkipped++
+      return
+    }
+
+    const plan = await this.repository.planDecision(judge.id, jurisdiction, decision)
+    if (plan.existing) {
+      preview.update('case', plan.existing.id, plan.existing, plan.caseRecord, ref)
+      decisionStats.updated++
+    } else {
+      preview.create('case', ref, plan.caseRecord)
+      decisionStats.created++
+    }
+  }
+
   /**
    * Create a new decision record
    */
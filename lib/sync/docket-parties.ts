@@ -0,0 +1,198 @@
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { type CourtListenerAttorney, type CourtListenerClient, type CourtListenerParty } from '@/lib/courtlistener/client'
+import { logger } from '@/lib/utils/logger'
+import { formatDate } from '@/lib/sync/decision-helpers'
+import { extractFirmName, normalizeFirmName, normalizePartyRole } from '@/lib/sync/normalization'
+
+// CourtListener attorney role codes on a party
+const ROLE_LEAD_ATTORNEY = 2
+const WITHDRAWN_ROLES = new Set([5, 6]) // self-terminated, terminated
+
+export interface DocketPartyRecord {
+  case_id: string
+  courtlistener_id: string
+  party_name: string
+  party_type: string | null
+  party_role: string | null
+  represented_by: string[]
+  contact_info: string | null
+}
+
+export interface DocketAttorneyRecord {
+  case_id: string
+  courtlistener_id: string
+  attorney_name: string
+  normalized_name: string
+  firm_name: string | null
+  firm_key: string | null
+  contact_info: string | null
+  representing: string[]
+  party_type: string | null
+  is_lead_attorney: boolean
+  date_withdrawn: string | null
+}
+
+export interface DocketPartySyncStats {
+  parties: number
+  attorneys: number
+  firms: number
+}
+
+export function normalizeAttorneyName(name: string): string {
+  return name.toLowerCase().replace(/[.,]/g, '').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Map CourtListener party and attorney payloads for one docket onto rows for
+ * `parties` and `case_attorneys`. Firm names come from the attorney contact block.
+ */
+export function buildDocketPartyRecords(
+  caseId: string,
+  docketId: string | number,
+  parties: CourtListenerParty[],
+  attorneys: CourtListenerAttorney[]
+): { parties: DocketPartyRecord[]; attorneys: DocketAttorneyRecord[] } {
+  const attorneyNames = new Map(attorneys.map(attorney => [attorney.id, attorney.name.trim()]))
+  const appearances = new Map<number, Array<{ partyName: string; partyType: string | null; role: number | null; dateAction: string | null }>>()
+
+  const partyRecords = parties
+    .filter(party => party.name?.trim())
+    .map(party => {
+      const partyTypeEntry = (party.party_types ?? []).find(entry => !entry.docket_id || String(entry.docket_id) === String(docketId))
+      const partyType = normalizePartyRole(partyTypeEntry?.name)
+      const partyName = party.name.trim().slice(0, 500)
+
+      for (const link of party.attorneys ?? []) {
+        if (!link.attorney_id) continue
+        const list = appearances.get(link.attorney_id) ?? []
+        list.push({ partyName, partyType, role: link.role ?? null, dateAction: formatDate(link.date_action) })
+        appearances.set(link.attorney_id, list)
+      }
+
+      return {
+        case_id: caseId,
+        courtlistener_id: String(party.id),
+        party_name: partyName,
+        party_type: partyType ? partyType.slice(0, 50) : null,
+        party_role: partyTypeEntry?.name?.trim().slice(0, 100) || null,
+        represented_by: (party.attorneys ?? [])
+          .map(link => (link.attorney_id ? attorneyNames.get(link.attorney_id) : undefined))
+          .filter((name): name is string => Boolean(name)),
+        contact_info: party.extra_info?.trim() || null
+      }
+    })
+
+  const attorneyRecords = attorneys
+    .filter(attorney => attorney.name?.trim())
+    .map(attorney => {
+      const links = appearances.get(attorney.id) ?? []
+      const firm = normalizeFirmName(extractFirmName(attorney.contact_raw))
+      const withdrawn = links.length > 0 && links.every(link => link.role !== null && WITHDRAWN_ROLES.has(link.role))
+      const withdrawnDates = links.map(link => link.dateAction).filter((date): date is string => Boolean(date)).sort()
+
+      return {
+        case_id: caseId,
+        courtlistener_id: String(attorney.id),
+        attorney_name: attorney.name.trim().slice(0, 255),
+        normalized_name: normalizeAttorneyName(attorney.name).slice(0, 255),
+        firm_name: firm?.display ?? null,
+        firm_key: firm?.key ?? null,
+        contact_info: attorney.contact_raw?.trim() || null,
+        representing: Array.from(new Set(links.map(link => link.partyName))),
+        party_type: links.find(link => link.partyType)?.partyType?.slice(0, 50) ?? null,
+        is_lead_attorney: links.some(link => link.role === ROLE_LEAD_ATTORNEY),
+        date_withdrawn: withdrawn ? withdrawnDates[withdrawnDates.length - 1] ?? null : null
+      }
+    })
+
+  return { parties: partyRecords, attorneys: attorneyRecords }
+}
+
+async function upsertLawFirms(
+  supabase: SupabaseClient,
+  attorneys: DocketAttorneyRecord[]
+): Promise<Map<string, string>> {
+  const firms = new Map<string, string>()
+  for (const attorney of attorneys) {
+    if (attorney.firm_key && attorney.firm_name && !firms.has(attorney.firm_key)) {
+      firms.set(attorney.firm_key, attorney.firm_name)
+    }
+  }
+  if (firms.size === 0) return new Map()
+
+  const { error } = await supabase
+    .from('law_firms')
+    .upsert(
+      Array.from(firms, ([normalizedName, name]) => ({ name, normalized_name: normalizedName })),
+      { onConflict: 'normalized_name', ignoreDuplicates: true }
+    )
+  if (error) throw new Error(`law_firms upsert failed: ${error.message}`)
+
+  // Existing firms keep their display name; resolve every key to its row id
+  const { data: rows, error: lookupError } = await supabase
+    .from('law_firms')
+    .select('id, normalized_name')
+    .in('normalized_name', Array.from(firms.keys()))
+  if (lookupError) throw new Error(`law_firms lookup failed: ${lookupError.message}`)
+
+  return new Map((rows ?? []).map((row: { id: string; normalized_name: string }) => [row.normalized_name, row.id]))
+}
+
+/**
+ * Fetch the parties and counsel on a CourtListener docket and store them
+ * against the synced case. Failures are logged and leave the case unmarked so
+ * the next sync retries it.
+ */
+export async function syncDocketParties(
+  supabase: SupabaseClient,
+  courtListener: CourtListenerClient,
+  caseId: string,
+  docketId: string | number
+): Promise<DocketPartySyncStats> {
+  const stats: DocketPartySyncStats = { parties: 0, attorneys: 0, firms: 0 }
+
+  try {
+    const [parties, attorneys] = await Promise.all([
+      courtListener.getDocketParties(docketId),
+      courtListener.getDocketAttorneys(docketId)
+    ])
+    const records = buildDocketPartyRecords(caseId, docketId, parties, attorneys)
+
+    if (records.parties.length > 0) {
+      const { error } = await supabase
+        .from('parties')
+        .upsert(records.parties, { onConflict: 'case_id,courtlistener_id' })
+      if (error) throw new Error(`parties upsert failed: ${error.message}`)
+    }
+
+    if (records.attorneys.length > 0) {
+      const firmIds = await upsertLawFirms(supabase, records.attorneys)
+      const rows = records.attorneys.map(({ firm_key: firmKey, ...attorney }) => ({
+        ...attorney,
+        law_firm_id: firmKey ? firmIds.get(firmKey) ?? null : null
+      }))
+      const { error } = await supabase
+        .from('case_attorneys')
+        .upsert(rows, { onConflict: 'case_id,courtlistener_id' })
+      if (error) throw new Error(`case_attorneys upsert failed: ${error.message}`)
+      stats.firms = firmIds.size
+    }
+
+    const { error: markError } = await supabase
+      .from('cases')
+      .update({ parties_synced_at: new Date().toISOString() })
+      .eq('id', caseId)
+    if (markError) throw new Error(`cases update failed: ${markError.message}`)
+
+    stats.parties = records.parties.length
+    stats.attorneys = records.attorneys.length
+    return stats
+  } catch (error) {
+    logger.warn('Failed to sync docket parties', {
+      caseId,
+      docketId,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    return stats
+  }
+}
@@ -7,8 +7,22 @@ import { createClient, type SupabaseClient } from '@supabase/supabase-js'
 import { CourtListenerClient, type CourtListenerJudge } from '@/lib/courtlistener/client'
 import { logger } from '@/lib/utils/logger'
 import { sleep } from '@/lib/utils/helpers'
-import { normalizeJurisdiction } from '@/lib/sync/normalization'
+import { courtListenerCourtIds, resolveCourtJurisdiction } from '@/lib/jurisdictions/config'
 import { SupabaseServiceRoleFactory } from '@/lib/supabase/service-role'
+import { buildEntityChange, recordEntityChanges } from '@/lib/sync/change-log'
+import { AUTO_LINK_THRESHOLD, findBestMatch, judgeLastName, toJudgeIdentity } from '@/lib/judges/entity-resolution'
+import { saveSyncPreview, SyncPreviewRecorder } from '@/lib/sync/preview'
+import {
+  createJudgeSyncCursor,
+  SyncCheckpointTracker,
+  type JudgeSyncCursor,
+  type SyncCheckpoint,
+  type SyncRunControl
+} from '@/lib/sync/checkpoint'
+
+const EXISTING_JUDGE_COLUMNS = 'id, name, aliases, court_id, court_name, jurisdiction, appointed_date, education, bio, courtlistener_id, updated_at'
+/** Unlinked judges sharing a last name that are scored against an incoming record. */
+const UNLINKED_MATCH_LIMIT = 50
 
 interface JudgeSyncOptions {
   batchSize?: number
@@ -20,6 +34,8 @@ interface JudgeSyncOptions {
    * Keep modest (e.g., 200–1000) for serverless time limits; a driving script can loop.
    */
   discoverLimit?: number
+  /** Record the planned writes in sync_previews instead of applying them. */
+  dryRun?: boolean
 }
 
 interface JudgeSyncResult {
@@ -30,6 +46,11 @@ interface JudgeSyncResult {
   profilesEnhanced: number
   errors: string[]
   duration: number
+  /** Set when the run stopped at its deadline; the job resumes from checkpoint. */
+  incomplete?: boolean
+  checkpoint?: SyncCheckpoint<JudgeSyncCursor>
+  dryRun?: boolean
+  previewId?: string | null
 }
 
 interface BatchSyncStats {
@@ -55,6 +76,8 @@ export class JudgeSyncManager {
   private readonly perRunCreateLimit = 150
   private processedCount = 0
   private createdCount = 0
+  private checkpoint = new SyncCheckpointTracker<JudgeSyncCursor>(createJudgeSyncCursor())
+  private preview: SyncPreviewRecorder | null = null
 
   constructor(dependencies?: Partial<JudgeSyncDependencies>) {
     this.supabase = dependencies?.supabase ?? this.createSupabaseServiceRoleClient()
@@ -128,10 +151,24 @@ export class JudgeSyncManager {
     this.createdCount = 0
   }
 
+  private accumulateStats(target: BatchSyncStats, source: BatchSyncStats) {
+    target.processed += source.processed
+    target.updated += source.updated
+    target.created += source.created
+    target.enhanced += source.enhanced
+    target.errors.push(...source.errors)
+  }
+
   /**
-   * Main judge sync function
+   * Main judge sync function. Queue-managed runs pass a control with the
+   * job's last checkpoint and a deadline; the cursor is saved after every
+   * batch so an interrupted run picks up where it stopped. Dry runs keep only
+   * the deadline: a preview is never resumed, it is saved as partial.
    */
-  async syncJudges(options: JudgeSyncOptions = {}): Promise<JudgeSyncResult> {
+  async syncJudges(
+    options: JudgeSyncOptions = {},
+    control: SyncRunControl<JudgeSyncCursor> = {}
+  ): Promise<JudgeSyncResult> {
     const startTime = Date.now()
     const result: JudgeSyncResult = {
       success: false,
@@ -143,8 +180,17 @@ export class JudgeSyncManager {
       duration: 0
     }
 
+    this.preview = options.dryRun ? new SyncPreviewRecorder() : null
+    this.checkpoint = new SyncCheckpointTracker(
+      createJudgeSyncCursor(),
+      this.preview ? { deadline: control.deadline } : control
+    )
+
     try {
       logger.info('Starting judge data sync', { syncId: this.syncId, options })
+      if (this.checkpoint.resumed) {
+        logger.info('Resuming judge sync from checkpoint', { syncId: this.syncId, cursor: this.checkpoint.cursor })
+      }
 
       await this.logSyncStart('judge', options)
 
@@ -157,6 +203,23 @@ export class JudgeSyncManager {
         this.mergeStats(result, stats)
       }
 
+      if (this.preview) {
+        this.preview.truncated = this.checkpoint.stoppedBy !== null
+        result.dryRun = true
+        result.previewId = await saveSyncPreview(this.supabase, {
+          syncType: 'judge',
+          syncId: this.syncId,
+          options: { ...options },
+          recorder: this.preview
+        })
+        if (!result.previewId) {
+          result.errors.push('Failed to save sync preview')
+        }
+      } else if (this.checkpoint.stoppedBy) {
+        result.incomplete = true
+        result.checkpoint = this.checkpoint.toCheckpoint()
+      }
+
       result.duration = Date.now() - startTime
       result.success = result.errors.length === 0
 
@@ -184,6 +247,28 @@ export class JudgeSyncManager {
     }
   }
 
+  /**
+   * Refresh one judge we already hold, e.g. when CourtListener reports the
+   * person changed. Returns null for people not in our database; new judges
+   * come in through the jurisdiction-filtered sync.
+   */
+  async refreshJudge(courtlistenerJudgeId: string): Promise<{ judgeId: string; enhanced: boolean } | null> {
+    this.preview = null
+    const { data, error } = await this.supabase
+      .from('judges')
+      .select('id')
+      .eq('courtlistener_id', courtlistenerJudgeId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database query failed: ${error.message}`)
+    }
+    if (!data) return null
+
+    const outcome = await this.syncSingleJudge(courtlistenerJudgeId, { forceRefresh: true })
+    return { judgeId: data.id, enhanced: outcome.enhanced }
+  }
+
   /**
    * Sync specific judges by their IDs
    */
@@ -246,7 +331,8 @@ export class JudgeSyncManager {
   }
 
   /**
-   * Sync all judges (with jurisdiction filter)
+   * Sync all judges (with jurisdiction filter): refresh stale judges in id
+   * order, then discover and import judges missing from our database
    */
   private async syncAllJudges(options: JudgeSyncOptions): Promise<BatchSyncStats> {
     const stats: BatchSyncStats = {
@@ -256,12 +342,13 @@ export class JudgeSyncManager {
       enhanced: 0,
       errors: []
     }
+    const checkpoint = this.checkpoint
+    const cursor = checkpoint.cursor
+    const batchSize = this.resolveBatchSize(options.batchSize)
 
-    // Get judges from our database that need updating
-    const judgesToSync = await this.getJudgesNeedingUpdate(options)
-
-    if (judgesToSync.length > 0) {
-      const batchSize = this.resolveBatchSize(options.batchSize)
+    if (cursor.phase === 'update') {
+      // Get judges from our database that need updating
+      const judgesToSync = await this.getJudgesNeedingUpdate(options, cursor.lastJudgeId)
 
       for (let i = 0; i < judgesToSync.length; i += batchSize) {
         if (this.shouldAbortSync()) {
@@ -270,14 +357,11 @@ export class JudgeSyncManager {
         }
 
         const batch = judgesToSync.slice(i, i + batchSize)
-        
+
         try {
           const batchResult = await this.processBatch(batch, options)
-          stats.processed += batchResult.processed
-          stats.updated += batchResult.updated
-          stats.created += batchResult.created
-          stats.enhanced += batchResult.enhanced
-          stats.errors.push(...batchResult.errors)
+          this.accumulateStats(stats, batchResult)
+          checkpoint.advance(batchResult.processed)
 
           this.trackBatchOutcome({ processed: batchResult.processed, created: batchResult.created })
         } catch (error) {
@@ -285,6 +369,11 @@ export class JudgeSyncManager {
           stats.errors.push(`Batch ${Math.floor(i / batchSize) + 1} failed: ${details}`)
         }
 
+        await checkpoint.save()
+        if (checkpoint.shouldStop()) {
+          break
+        }
+
         // Rate limiting
         if (i + batchSize < judgesToSync.length && !this.shouldAbortSync()) {
           await sleep(2000)
@@ -294,20 +383,41 @@ export class JudgeSyncManager {
           break
         }
       }
+
+      if (!checkpoint.shouldStop()) {
+        cursor.phase = 'discover'
+        cursor.lastJudgeId = null
+        await checkpoint.save()
+      }
     }
 
-    // Discover and import new judges that are not yet in our database
-    if (!this.shouldAbortSync()) {
+    // Discover new judges that are not yet in our database
+    if (cursor.phase === 'discover' && !this.shouldAbortSync() && !checkpoint.shouldStop()) {
       const newJudgeIds = await this.discoverNewJudgeIds(options)
 
-      if (newJudgeIds.length > 0) {
-        logger.info('Discovered new judges to import', { count: newJudgeIds.length })
-        const newJudgeStats = await this.syncSpecificJudges(newJudgeIds, options)
-        stats.processed += newJudgeStats.processed
-        stats.updated += newJudgeStats.updated
-        stats.created += newJudgeStats.created
-        stats.enhanced += newJudgeStats.enhanced
-        stats.errors.push(...newJudgeStats.errors)
+      if (!checkpoint.shouldStop()) {
+        cursor.phase = 'import'
+        cursor.discoveryUrl = null
+        cursor.pendingImportIds = newJudgeIds
+        await checkpoint.save()
+      }
+    }
+
+    if (cursor.phase === 'import' && cursor.pendingImportIds.length > 0) {
+      logger.info('Discovered new judges to import', { count: cursor.pendingImportIds.length })
+
+      while (cursor.pendingImportIds.length > 0 && !this.shouldAbortSync() && !checkpoint.shouldStop()) {
+        const batch = cursor.pendingImportIds.slice(0, batchSize)
+        const newJudgeStats = await this.syncSpecificJudges(batch, options)
+        this.accumulateStats(stats, newJudgeStats)
+        checkpoint.advance(newJudgeStats.processed)
+
+        cursor.pendingImportIds = cursor.pendingImportIds.slice(batch.length)
+        await checkpoint.save()
+
+        if (cursor.pendingImportIds.length > 0 && !this.shouldAbortSync() && !checkpoint.shouldStop()) {
+          await sleep(1000)
+        }
       }
     }
 
@@ -317,11 +427,16 @@ export class JudgeSyncManager {
   /**
    * Get judges that need updating
    */
-  private async getJudgesNeedingUpdate(options: JudgeSyncOptions) {
+  private async getJudgesNeedingUpdate(options: JudgeSyncOptions, afterJudgeId: string | null = null) {
     let query = this.supabase
       .from('judges')
       .select('id, name, courtlistener_id, updated_at')
       .not('courtlistener_id', 'is', null)
+      .order('id', { ascending: true })
+
+    if (afterJudgeId) {
+      query = query.gt('id', afterJudgeId)
+    }
 
     if (options.jurisdiction) {
       query = query.eq('jurisdiction', options.jurisdiction)
@@ -361,6 +476,10 @@ export class JudgeSyncManager {
         break
       }
 
+      if (this.checkpoint.shouldStop()) {
+        break
+      }
+
       try {
         const result = await this.syncSingleJudge(judge.courtlistener_id, options)
         if (result.updated) stats.updated++
@@ -375,20 +494,25 @@ export class JudgeSyncManager {
         stats.errors.push(`Failed to sync judge ${judge.name}: ${details}`)
         logger.error('Failed to sync judge', { judge: judge.name, error })
       }
+
+      this.checkpoint.cursor.lastJudgeId = judge.id
     }
 
     return stats
   }
 
   /**
-   * Discover new judges from CourtListener that we haven't imported yet
+   * Discover new judges from CourtListener that we haven't imported yet.
+   * Continues from the checkpointed page URL and IDs found so far.
    */
   private async discoverNewJudgeIds(options: JudgeSyncOptions): Promise<string[]> {
+    const checkpoint = this.checkpoint
+
     try {
       const existingIds = await this.getExistingCourtListenerIds(options)
-      const newIds: Set<string> = new Set()
+      const newIds: Set<string> = new Set(checkpoint.cursor.pendingImportIds)
       const discoverCap = Math.max(50, options.discoverLimit || this.perRunJudgeLimit)
-      let cursor: string | null = null
+      let cursor: string | null = checkpoint.cursor.discoveryUrl
       const filters = this.buildCourtListenerJurisdictionFilters(options.jurisdiction)
 
       while (newIds.size < discoverCap && !this.shouldAbortSync()) {
@@ -406,7 +530,11 @@ export class JudgeSyncManager {
           }
         }
 
-        if (!response.next) {
+        checkpoint.cursor.pendingImportIds = Array.from(newIds)
+        checkpoint.cursor.discoveryUrl = response.next ?? null
+        await checkpoint.save()
+
+        if (!response.next || checkpoint.shouldStop()) {
           break
         }
 
@@ -434,8 +562,9 @@ export class JudgeSyncManager {
       return { 'positions__court__jurisdiction': 'F' }
     }
 
-    if (/^[A-Z]{2}$/.test(normalized)) {
-      return { 'positions__court__state': normalized.toLowerCase() }
+    const courtIds = courtListenerCourtIds(normalized)
+    if (courtIds) {
+      return { 'positions__court__id__in': courtIds.join(',') }
     }
 
     return { 'positions__court__jurisdiction': normalized }
@@ -493,22 +622,43 @@ export class JudgeSyncManager {
 
       // Find existing judge in our database
       const existingJudge = await this.findExistingJudge(judgeData)
+      const profile = this.buildProfileEnhancement(judgeData)
+      const ref = { externalId: judgeData.id, label: judgeData.name_full || judgeData.name || null }
 
       if (existingJudge) {
+        const written = { ...this.buildJudgeUpdate(judgeData), ...this.buildLinkFields(existingJudge, judgeData) }
+        if (this.preview) {
+          this.preview.update('judge', existingJudge.id, existingJudge, { ...written, ...profile }, ref)
+          return { updated: true, created: false, enhanced: profile !== null }
+        }
+
         // Update existing judge
-        const updated = await this.updateJudge(existingJudge.id, judgeData)
-        const enhanced = await this.enhanceJudgeProfile(existingJudge.id, judgeData)
-        return { updated, created: false, enhanced }
+        await this.updateJudge(existingJudge.id, written)
+        const enhancement = await this.enhanceJudgeProfile(existingJudge.id, profile)
+        await recordEntityChanges(this.supabase, [
+          buildEntityChange('judge', existingJudge.id, existingJudge, { ...written, ...enhancement }, { source: 'judge-sync', syncId: this.syncId })
+        ])
+        return { updated: true, created: false, enhanced: enhancement !== null }
       } else {
         // Create new judge
         if (this.shouldAbortSync()) {
           return { updated: false, created: false, enhanced: false }
         }
 
-        const judgeId = await this.createJudge(judgeData)
-        const enhanced = await this.enhanceJudgeProfile(judgeId, judgeData)
+        const written = this.buildJudgeInsert(judgeData)
+        if (this.preview) {
+          this.preview.create('judge', ref, { ...written, ...profile })
+          this.createdCount++
+          return { updated: false, created: true, enhanced: profile !== null }
+        }
+
+        const judgeId = await this.createJudge(written)
+        const enhancement = await this.enhanceJudgeProfile(judgeId, profile)
+        await recordEntityChanges(this.supabase, [
+          buildEntityChange('judge', judgeId, null, { ...written, ...enhancement }, { source: 'judge-sync', syncId: this.syncId })
+        ])
         this.createdCount++
-        return { updated: false, created: true, enhanced }
+        return { updated: false, created: true, enhanced: enhancement !== null }
       }
 
     } catch (error) {
@@ -530,12 +680,13 @@ export class JudgeSyncManager {
   }
 
   /**
-   * Find existing judge in database
+   * Find existing judge in database, by CourtListener id or else by a
+   * confident match against an unlinked record
    */
   private async findExistingJudge(judgeData: CourtListenerJudge) {
     const { data, error } = await this.supabase
       .from('judges')
-      .select('id, name, courtlistener_id, updated_at')
+      .select(EXISTING_JUDGE_COLUMNS)
       .eq('courtlistener_id', judgeData.id)
       .single()
 
@@ -543,13 +694,55 @@ export class JudgeSyncManager {
       throw new Error(`Database query failed: ${error.message}`)
     }
 
-    return data
+    return data ?? this.findUnlinkedMatch(judgeData)
   }
 
   /**
-   * Update existing judge
+   * Judges from the CA and WCAB imports have no CourtListener id. Link one
+   * that scores as the same person instead of creating a duplicate; weaker
+   * matches are left to the admin duplicate review.
+   */
+  private async findUnlinkedMatch(judgeData: CourtListenerJudge) {
+    const incoming = toJudgeIdentity({ id: String(judgeData.id), ...this.buildJudgeInsert(judgeData) })
+    const lastName = judgeLastName(incoming.name)
+    if (!lastName) return null
+
+    const { data, error } = await this.supabase
+      .from('judges')
+      .select(EXISTING_JUDGE_COLUMNS)
+      .is('courtlistener_id', null)
+      .ilike('name', `%${lastName}%`)
+      .limit(UNLINKED_MATCH_LIMIT)
+
+    if (error) {
+      throw new Error(`Database query failed: ${error.message}`)
+    }
+
+    const rows = data ?? []
+    const best = findBestMatch(incoming, rows.map((row) => toJudgeIdentity(row)), AUTO_LINK_THRESHOLD)
+    if (!best) return null
+
+    logger.info('Linking CourtListener judge to existing record', { courtlistenerId: judgeData.id, judgeId: best.judge.id, score: best.score })
+    return rows.find((row) => String(row.id) === best.judge.id) ?? null
+  }
+
+  /**
+   * Fields that attach a CourtListener id to a record found by matching. The
+   * record's own name is kept as an alias since the sync overwrites it.
+   */
+  private buildLinkFields(existingJudge: { name?: string | null; aliases?: string[] | null; courtlistener_id?: string | null }, judgeData: CourtListenerJudge): Record<string, unknown> {
+    if (existingJudge.courtlistener_id) return {}
+
+    const incomingName = judgeData.name_full || judgeData.name
+    const aliases = new Set(existingJudge.aliases ?? [])
+    if (existingJudge.name && existingJudge.name !== incomingName) aliases.add(existingJudge.name)
+    return { courtlistener_id: judgeData.id, aliases: [...aliases] }
+  }
+
+  /**
+   * Fields written when refreshing an existing judge
    */
-  private async updateJudge(judgeId: string, judgeData: CourtListenerJudge): Promise<boolean> {
+  private buildJudgeUpdate(judgeData: CourtListenerJudge): Record<string, unknown> {
     const updateData: any = {
       name: judgeData.name_full || judgeData.name,
       courtlistener_data: judgeData,
@@ -561,10 +754,19 @@ export class JudgeSyncManager {
       const currentPosition = judgeData.positions.find(p => !p.date_termination) || judgeData.positions[0]
       if (currentPosition) {
         updateData.court_name = currentPosition.court?.full_name || currentPosition.court?.name
-        updateData.jurisdiction = this.extractJurisdiction(currentPosition)
+        // Keep the stored jurisdiction when the court can't be placed
+        const jurisdiction = this.extractJurisdiction(currentPosition)
+        if (jurisdiction) updateData.jurisdiction = jurisdiction
       }
     }
 
+    return updateData
+  }
+
+  /**
+   * Update existing judge
+   */
+  private async updateJudge(judgeId: string, updateData: Record<string, unknown>): Promise<void> {
     const { error } = await this.supabase
       .from('judges')
       .update(updateData)
@@ -573,14 +775,12 @@ export class JudgeSyncManager {
     if (error) {
       throw new Error(`Failed to update judge: ${error.message}`)
     }
-
-    return true
   }
 
   /**
-   * Create new judge
+   * Fields written when creating a judge
    */
-  private async createJudge(judgeData: CourtListenerJudge): Promise<string> {
+  private buildJudgeInsert(judgeData: CourtListenerJudge): Record<string, unknown> {
     const insertData: any = {
       name: judgeData.name_full || judgeData.name,
       courtlistener_id: judgeData.id,
@@ -599,6 +799,13 @@ export class JudgeSyncManager {
       }
     }
 
+    return insertData
+  }
+
+  /**
+   * Create new judge, returning its id
+   */
+  private async createJudge(insertData: Record<string, unknown>): Promise<string> {
     const { data, error } = await this.supabase
       .from('judges')
       .insert(insertData)
@@ -613,68 +820,67 @@ export class JudgeSyncManager {
   }
 
   /**
-   * Enhance judge profile with additional data
+   * Profile fields (education, bio) derived from CourtListener, or null when
+   * there is nothing to add
    */
-  private async enhanceJudgeProfile(judgeId: string, judgeData: CourtListenerJudge): Promise<boolean> {
-    try {
-      let enhanced = false
-      const updateData: any = {}
-
-      // Add education information
-      if (judgeData.educations && judgeData.educations.length > 0) {
-        const education = judgeData.educations
-          .map(edu => `${edu.school?.name || 'Unknown'} (${edu.degree || 'Unknown degree'})`)
-          .join('; ')
-        updateData.education = education
-        enhanced = true
-      }
+  private buildProfileEnhancement(judgeData: CourtListenerJudge): Record<string, unknown> | null {
+    let enhanced = false
+    const updateData: any = {}
 
-      // Add bio from positions
-      if (judgeData.positions && judgeData.positions.length > 0) {
-        const bio = judgeData.positions
-          .map(pos => `${pos.position_type || 'Judge'} at ${pos.court?.full_name || pos.court?.name || 'Unknown Court'}`)
-          .join('; ')
-        updateData.bio = bio
-        enhanced = true
-      }
+    // Add education information
+    if (judgeData.educations && judgeData.educations.length > 0) {
+      const education = judgeData.educations
+        .map(edu => `${edu.school?.name || 'Unknown'} (${edu.degree || 'Unknown degree'})`)
+        .join('; ')
+      updateData.education = education
+      enhanced = true
+    }
 
-      if (enhanced) {
-        const { error } = await this.supabase
-          .from('judges')
-          .update(updateData)
-          .eq('id', judgeId)
+    // Add bio from positions
+    if (judgeData.positions && judgeData.positions.length > 0) {
+      const bio = judgeData.positions
+        .map(pos => `${pos.position_type || 'Judge'} at ${pos.court?.full_name || pos.court?.name || 'Unknown Court'}`)
+        .join('; ')
+      updateData.bio = bio
+      enhanced = true
+    }
 
-        if (error) {
-          throw new Error(`Failed to enhance judge profile: ${error.message}`)
-        }
+    return enhanced ? updateData : null
+  }
+
+  /**
+   * Write profile enhancements. Returns the fields written, or null when
+   * there was nothing to add or the write failed.
+   */
+  private async enhanceJudgeProfile(judgeId: string, updateData: Record<string, unknown> | null): Promise<Record<string, unknown> | null> {
+    if (!updateData) return null
+
+    try {
+      const { error } = await this.supabase
+        .from('judges')
+        .update(updateData)
+        .eq('id', judgeId)
+
+      if (error) {
+        throw new Error(`Failed to enhance judge profile: ${error.message}`)
       }
 
-      return enhanced
+      return updateData
 
     } catch (error) {
       logger.error('Failed to enhance judge profile', { judgeId, error })
-      return false
+      return null
     }
   }
 
   /**
-   * Extract jurisdiction from position data
+   * Extract jurisdiction from position data; null when the position's court
+   * is neither federal nor in a configured state.
    */
-  private extractJurisdiction(position: any): string {
-    const courtJurisdiction: string | undefined = position.court?.jurisdiction
-    if (courtJurisdiction) {
-      const normalized = normalizeJurisdiction(courtJurisdiction)
-      if (normalized) {
-        return normalized
-      }
-    }
-
-    const courtName = position.court?.full_name || position.court?.name || ''
-    
-    if (courtName.includes('California') || courtName.includes('CA ')) return 'CA'
-    if (courtName.includes('Federal') || courtName.includes('U.S.')) return 'US'
-    
-    return 'CA' // Default
+  private extractJurisdiction(position: any): string | null {
+    const court = position.court
+    if (!court || typeof court !== 'object') return null
+    return resolveCourtJurisdiction(court).jurisdiction
   }
 
   /**
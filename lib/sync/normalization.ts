@@ -1,4 +1,5 @@
 import crypto from 'crypto'
+import { findStateByName } from '@/lib/jurisdictions/config'
 
 export type OutcomeCategory =
   | 'judgment_plaintiff'
@@ -91,6 +92,59 @@ export function normalizePartyRole(role?: string | null): string | null {
   return ROLE_ALIASES[trimmed] || role.trim().toLowerCase()
 }
 
+export interface NormalizedFirmName {
+  display: string
+  key: string
+}
+
+const FIRM_SUFFIXES = /\b(a professional (law )?corporation|professional corporation|limited liability partnership|pllc|llp|llc|lp|apc|plc|pc|inc|ltd|corp|co)\b/g
+const FIRM_PREFIXES = /^(the )?((law )?offices? of )?(the )?/
+
+/**
+ * Normalize a law firm name for matching: "Kirkland & Ellis, LLP" and
+ * "KIRKLAND AND ELLIS L.L.P." share the key "kirkland and ellis".
+ */
+export function normalizeFirmName(raw?: string | null): NormalizedFirmName | null {
+  if (!raw) return null
+  const display = raw.replace(/\s+/g, ' ').replace(/^[\s,;.-]+|[\s,;-]+$/g, '').slice(0, 255)
+  if (!display) return null
+
+  const key = display
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\b([a-z])\.(?=[a-z]\.)/g, '$1')
+    .replace(/[.,'’]/g, '')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(FIRM_PREFIXES, '')
+    .replace(FIRM_SUFFIXES, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  if (!key) return null
+  return { display, key }
+}
+
+/**
+ * Pull the firm from a CourtListener attorney contact block. The firm is the
+ * first line that is not an address, phone, fax, or email line.
+ */
+export function extractFirmName(contactRaw?: string | null): string | null {
+  if (!contactRaw) return null
+  const line = contactRaw
+    .split(/\r?\n/)
+    .map(entry => entry.trim())
+    .find(entry =>
+      entry.length > 0 &&
+      !/^\d/.test(entry) &&
+      !/^(p\.?\s?o\.?\s+box|suite|ste\.?|floor|email|e-mail|phone|tel|fax|facsimile|designation|pro se)\b/i.test(entry) &&
+      !/@|\(\d{3}\)|\d{3}[-.]\d{3}[-.]\d{4}/.test(entry) &&
+      !/,\s*[A-Z]{2}\s+\d{5}/.test(entry)
+    )
+  return line ?? null
+}
+
 export function normalizeOutcomeLabel(raw?: string | null): NormalizedOutcome {
   const value = (raw || '').trim()
   if (!value) {
@@ -120,7 +174,8 @@ export function normalizeJurisdiction(value?: string | null): string | null {
     return upper
   }
 
-  if (upper.includes('CALIFORNIA')) return 'CA'
+  const state = findStateByName(trimmed)
+  if (state) return state.code
   if (upper.includes('NEW YORK')) return 'NY'
 
   return upper.length <= 4 ? upper : upper.slice(0, 4)
@@ -0,0 +1,155 @@
+/**
+ * Sync Previews
+ * Dry-run support: a sync records what it would create, update or skip,
+ * with field diffs, in sync_previews instead of writing the live tables
+ */
+
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/utils/logger'
+import { diffRecords, TRACKED_FIELDS, type ChangeEntityType, type FieldChanges } from '@/lib/sync/change-log'
+
+export type SyncPreviewAction = 'create' | 'update' | 'skip'
+export type SyncPreviewStatus = 'pending_review' | 'approved' | 'rejected' | 'failed'
+export type SyncPreviewType = 'court' | 'judge' | 'decision'
+
+export interface SyncPreviewItem {
+  entity_type: ChangeEntityType
+  action: SyncPreviewAction
+  /** Our row id; null for rows that would be created. */
+  entity_id: string | null
+  /** CourtListener id or decision key the row comes from. */
+  external_id: string | null
+  label: string | null
+  changes: FieldChanges
+  reason: string | null
+}
+
+export type SyncPreviewSummary = Partial<Record<ChangeEntityType, Record<SyncPreviewAction, number>>>
+
+export interface SyncPreviewRef {
+  entityId?: string | null
+  externalId?: string | number | null
+  label?: string | null
+}
+
+/** Items kept per preview; the summary still counts every planned write. */
+export const MAX_PREVIEW_ITEMS = 5000
+const ITEM_INSERT_CHUNK = 500
+
+export class SyncPreviewRecorder {
+  private readonly items: SyncPreviewItem[] = []
+  private readonly counts: SyncPreviewSummary = {}
+  /** Set when the dry run stopped at its deadline, so the preview covers only part of the sync. */
+  truncated = false
+
+  create(entityType: ChangeEntityType, ref: SyncPreviewRef, record: Record<string, unknown>): void {
+    this.add(entityType, 'create', ref, diffRecords(null, record, TRACKED_FIELDS[entityType]), null)
+  }
+
+  /** An update that changes no tracked field is recorded as a skip. */
+  update(
+    entityType: ChangeEntityType,
+    entityId: string,
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+    ref: SyncPreviewRef = {}
+  ): void {
+    const changes = diffRecords(before, after, TRACKED_FIELDS[entityType])
+    if (Object.keys(changes).length === 0) {
+      this.add(entityType, 'skip', { ...ref, entityId }, {}, 'unchanged')
+      return
+    }
+    this.add(entityType, 'update', { ...ref, entityId }, changes, null)
+  }
+
+  skip(entityType: ChangeEntityType, ref: SyncPreviewRef, reason: string): void {
+    this.add(entityType, 'skip', ref, {}, reason)
+  }
+
+  get summary(): SyncPreviewSummary {
+    return JSON.parse(JSON.stringify(this.counts))
+  }
+
+  get recordedItems(): readonly SyncPreviewItem[] {
+    return this.items
+  }
+
+  private add(
+    entityType: ChangeEntityType,
+    action: SyncPreviewAction,
+    ref: SyncPreviewRef,
+    changes: FieldChanges,
+    reason: string | null
+  ): void {
+    const counts = this.counts[entityType] ?? (this.counts[entityType] = { create: 0, update: 0, skip: 0 })
+    counts[action]++
+    if (this.items.length >= MAX_PREVIEW_ITEMS) return
+    this.items.push({
+      entity_type: entityType,
+      action,
+      entity_id: ref.entityId ?? null,
+      external_id: ref.externalId === null || ref.externalId === undefined ? null : String(ref.externalId),
+      label: ref.label ?? null,
+      changes,
+      reason
+    })
+  }
+}
+
+/** Options as the approved job should run them: the same sync, without dryRun. */
+export function toApplyOptions(options: Record<string, unknown> = {}): Record<string, unknown> {
+  const applied = { ...options }
+  delete applied.dryRun
+  return applied
+}
+
+/**
+ * Store a finished dry run for review. Returns the preview id, or null when
+ * it could not be saved (the dry run itself still succeeds).
+ */
+export async function saveSyncPreview(
+  supabase: SupabaseClient,
+  preview: {
+    syncType: SyncPreviewType
+    syncId: string
+    options: Record<string, unknown>
+    recorder: SyncPreviewRecorder
+  }
+): Promise<string | null> {
+  const { recorder } = preview
+  const items = recorder.recordedItems
+  const { data, error } = await supabase
+    .from('sync_previews')
+    .insert({
+      sync_type: preview.syncType,
+      sync_id: preview.syncId,
+      options: toApplyOptions(preview.options),
+      status: 'pending_review',
+      summary: recorder.summary,
+      truncated: recorder.truncated,
+      items_truncated: items.length >= MAX_PREVIEW_ITEMS
+    })
+    .select('id')
+    .single()
+
+  if (error || !data) {
+    logger.error('Failed to save sync preview', { syncId: preview.syncId, error: error?.message })
+    return null
+  }
+
+  for (let i = 0; i < items.length; i += ITEM_INSERT_CHUNK) {
+    const chunk = items.slice(i, i + ITEM_INSERT_CHUNK).map((item, index) => ({
+      ...item,
+      preview_id: data.id,
+      position: i + index
+    }))
+    const { error: itemsError } = await supabase.from('sync_preview_items').insert(chunk)
+    if (itemsError) {
+      logger.error('Failed to save sync preview items', { previewId: data.id, error: itemsError.message })
+      await supabase.from('sync_previews').update({ status: 'failed' }).eq('id', data.id)
+      return null
+    }
+  }
+
+  return data.id
+}
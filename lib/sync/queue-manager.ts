@@ -3,14 +3,19 @@
  * Handles queuing and processing of sync jobs
  */
 
+import os from 'os'
 import { createClient } from '@supabase/supabase-js'
 import { logger } from '@/lib/utils/logger'
 import { CourtSyncManager } from './court-sync'
 import { JudgeSyncManager } from './judge-sync'
 import { DecisionSyncManager } from './decision-sync'
+import type { SyncCheckpoint, SyncRunControl } from './checkpoint'
+import { backfillOpinionCitations } from './citations'
+import { purgeExpiredExports, runExportJob } from '@/lib/export/jobs'
+import { purgeWebhookLog, runWebhookDeliveryJob } from '@/lib/webhooks/deliveries'
 
-export type SyncJobType = 'court' | 'judge' | 'decision' | 'full' | 'cleanup'
-export type SyncJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+export type SyncJobType = 'court' | 'judge' | 'decision' | 'full' | 'cleanup' | 'export' | 'webhook' | 'citations'
+export type SyncJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'dead_letter'
 
 export interface SyncJob {
   id: string
@@ -25,6 +30,13 @@ export interface SyncJob {
   error_message?: string
   retry_count: number
   max_retries: number
+  worker_id?: string | null
+  lease_expires_at?: string | null
+  heartbeat_at?: string | null
+  dead_lettered_at?: string | null
+  /** Resume cursor saved by a judge, decision, export or citations job that has not finished. */
+  checkpoint?: SyncCheckpoint<any> | null
+  checkpoint_at?: string | null
   created_at: string
   updated_at: string
 }
@@ -34,19 +46,77 @@ export interface QueueStats {
   running: number
   completed: number
   failed: number
+  dead_letter: number
   total: number
 }
 
+export interface SyncQueueOptions {
+  workerId?: string
+  /** How long a claimed job stays leased without a heartbeat. */
+  leaseSeconds?: number
+  /** Maximum running jobs per type across all workers. */
+  concurrency?: Partial<Record<SyncJobType, number>>
+  /**
+   * Wall-clock budget per job run. Judge and decision syncs checkpoint and
+   * yield back to the queue once it is spent; unset means no deadline.
+   */
+  timeBudgetSeconds?: number
+}
+
+const DEFAULT_LEASE_SECONDS = 600
+
+export const DEFAULT_TYPE_CONCURRENCY: Record<SyncJobType, number> = {
+  court: 1,
+  judge: 1,
+  decision: 2,
+  full: 1,
+  cleanup: 1,
+  export: 1,
+  webhook: 2,
+  citations: 1
+}
+
+/**
+ * Parse per-type limits such as "decision=3,judge=1" (SYNC_QUEUE_CONCURRENCY).
+ * Unknown types and non-positive values are ignored.
+ */
+export function parseConcurrencyLimits(value?: string | null): Partial<Record<SyncJobType, number>> {
+  const limits: Partial<Record<SyncJobType, number>> = {}
+  for (const entry of (value || '').split(',')) {
+    const [type, raw] = entry.split('=').map(part => part.trim())
+    const limit = parseInt(raw, 10)
+    if (type in DEFAULT_TYPE_CONCURRENCY && Number.isFinite(limit) && limit > 0) {
+      limits[type as SyncJobType] = limit
+    }
+  }
+  return limits
+}
+
 export class SyncQueueManager {
   private supabase: any
   private isProcessing = false
   private processingInterval: NodeJS.Timeout | null = null
+  readonly workerId: string
+  private leaseSeconds: number
+  private concurrency: Record<SyncJobType, number>
+  private timeBudgetSeconds: number | null
 
-  constructor() {
+  constructor(options: SyncQueueOptions = {}) {
     this.supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     )
+    this.workerId = options.workerId
+      || `${os.hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`
+    this.leaseSeconds = Math.max(30, options.leaseSeconds
+      ?? (parseInt(process.env.SYNC_QUEUE_LEASE_SECONDS || '', 10) || DEFAULT_LEASE_SECONDS))
+    this.concurrency = {
+      ...DEFAULT_TYPE_CONCURRENCY,
+      ...parseConcurrencyLimits(process.env.SYNC_QUEUE_CONCURRENCY),
+      ...options.concurrency
+    }
+    const budget = options.timeBudgetSeconds ?? parseInt(process.env.SYNC_JOB_TIME_BUDGET_SECONDS || '', 10)
+    this.timeBudgetSeconds = Number.isFinite(budget) && budget > 0 ? budget : null
   }
 
   /**
@@ -90,41 +160,100 @@ export class SyncQueueManager {
   }
 
   /**
-   * Get next job to process
+   * Atomically claim the next due job for this worker. Expired leases are
+   * reclaimed first, and job types at their concurrency limit are skipped.
+   */
+  async claimNextJob(types?: SyncJobType[]): Promise<SyncJob | null> {
+    const { data, error } = await this.supabase.rpc('claim_sync_job', {
+      p_worker_id: this.workerId,
+      p_lease_seconds: this.leaseSeconds,
+      p_concurrency: this.concurrency,
+      p_types: types ?? null
+    })
+
+    if (error) {
+      throw new Error(`Failed to claim next job: ${error.message}`)
+    }
+
+    return (Array.isArray(data) ? data[0] : data) ?? null
+  }
+
+  /**
+   * Extend this worker's lease on a running job. Returns false once the lease
+   * has been lost to reclamation.
    */
-  async getNextJob(): Promise<SyncJob | null> {
+  async heartbeat(jobId: string): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc('heartbeat_sync_job', {
+      p_job_id: jobId,
+      p_worker_id: this.workerId,
+      p_lease_seconds: this.leaseSeconds
+    })
+
+    if (error) {
+      throw new Error(`Failed to heartbeat job: ${error.message}`)
+    }
+
+    return data === true
+  }
+
+  /**
+   * Save a running job's resume cursor and extend its lease. Returns false
+   * once the lease has been lost, so the sync stops advancing the cursor.
+   */
+  async saveCheckpoint(jobId: string, checkpoint: SyncCheckpoint<any>): Promise<boolean> {
+    const now = new Date()
     const { data, error } = await this.supabase
       .from('sync_queue')
-      .select('*')
-      .eq('status', 'pending')
-      .lte('scheduled_for', new Date().toISOString())
-      .order('priority', { ascending: false })
-      .order('created_at', { ascending: true })
-      .limit(1)
-      .single()
+      .update({
+        checkpoint,
+        checkpoint_at: now.toISOString(),
+        heartbeat_at: now.toISOString(),
+        lease_expires_at: new Date(now.getTime() + this.leaseSeconds * 1000).toISOString(),
+        updated_at: now.toISOString()
+      })
+      .eq('id', jobId)
+      .eq('status', 'running')
+      .eq('worker_id', this.workerId)
+      .select('id')
 
-    if (error && error.code !== 'PGRST116') {
-      throw new Error(`Failed to get next job: ${error.message}`)
+    if (error) {
+      throw new Error(`Failed to save job checkpoint: ${error.message}`)
     }
 
-    return data
+    return Boolean(data && data.length > 0)
   }
 
   /**
-   * Mark job as running
+   * Return a job that stopped at its time budget to the queue. The saved
+   * checkpoint is kept and no retry is consumed, so the next claim resumes it.
    */
-  async startJob(jobId: string): Promise<void> {
-    const { error } = await this.supabase
+  async yieldJob(jobId: string, result: any): Promise<void> {
+    const now = new Date().toISOString()
+    const { data, error } = await this.supabase
       .from('sync_queue')
       .update({
-        status: 'running',
-        started_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
+        status: 'pending',
+        result,
+        checkpoint: result?.checkpoint ?? null,
+        checkpoint_at: now,
+        scheduled_for: now,
+        started_at: null,
+        worker_id: null,
+        lease_expires_at: null,
+        heartbeat_at: null,
+        updated_at: now
       })
       .eq('id', jobId)
+      .eq('status', 'running')
+      .eq('worker_id', this.workerId)
+      .select('id')
 
     if (error) {
-      throw new Error(`Failed to start job: ${error.message}`)
+      throw new Error(`Failed to requeue job: ${error.message}`)
+    }
+
+    if (!data || data.length === 0) {
+      logger.warn('Yielded job no longer leased to this worker; checkpoint left as is', { jobId, workerId: this.workerId })
     }
   }
 
@@ -132,36 +261,55 @@ export class SyncQueueManager {
    * Mark job as completed
    */
   async completeJob(jobId: string, result: any): Promise<void> {
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('sync_queue')
       .update({
         status: 'completed',
         result,
+        checkpoint: null,
         completed_at: new Date().toISOString(),
+        lease_expires_at: null,
         updated_at: new Date().toISOString()
       })
       .eq('id', jobId)
+      .eq('status', 'running')
+      .eq('worker_id', this.workerId)
+      .select('id')
 
     if (error) {
       throw new Error(`Failed to complete job: ${error.message}`)
     }
+
+    if (!data || data.length === 0) {
+      logger.warn('Completed job no longer leased to this worker; result discarded', { jobId, workerId: this.workerId })
+    }
   }
 
   /**
-   * Mark job as failed and potentially retry
+   * Mark job as failed and potentially retry. Jobs that exhaust max_retries
+   * move to the dead-letter state; non-retryable failures are marked failed.
    */
   async failJob(jobId: string, error: Error, shouldRetry: boolean = true): Promise<void> {
     const { data: job } = await this.supabase
       .from('sync_queue')
-      .select('retry_count, max_retries')
+      .select('retry_count, max_retries, status, worker_id')
       .eq('id', jobId)
       .single()
 
-    const canRetry = shouldRetry && job && job.retry_count < job.max_retries
-    
+    if (!job || job.status !== 'running' || job.worker_id !== this.workerId) {
+      logger.warn('Failed job no longer leased to this worker; leaving it as is', { jobId, workerId: this.workerId, error: error.message })
+      return
+    }
+
+    const canRetry = shouldRetry && job.retry_count < job.max_retries
+    const now = new Date().toISOString()
+
     const updateData: any = {
       error_message: error.message,
-      updated_at: new Date().toISOString()
+      worker_id: null,
+      lease_expires_at: null,
+      heartbeat_at: null,
+      updated_at: now
     }
 
     if (canRetry) {
@@ -173,15 +321,20 @@ export class SyncQueueManager {
       updateData.scheduled_for = retryAt.toISOString()
       updateData.retry_count = job.retry_count + 1
       updateData.started_at = null
+    } else if (shouldRetry) {
+      updateData.status = 'dead_letter'
+      updateData.dead_lettered_at = now
+      updateData.completed_at = now
     } else {
       updateData.status = 'failed'
-      updateData.completed_at = new Date().toISOString()
+      updateData.completed_at = now
     }
 
     const { error: updateError } = await this.supabase
       .from('sync_queue')
       .update(updateData)
       .eq('id', jobId)
+      .eq('worker_id', this.workerId)
 
     if (updateError) {
       throw new Error(`Failed to fail job: ${updateError.message}`)
@@ -193,24 +346,66 @@ export class SyncQueueManager {
         retryCount: job.retry_count + 1, 
         retryAt: updateData.scheduled_for 
       })
+    } else if (updateData.status === 'dead_letter') {
+      logger.error('Job moved to dead letter after exhausting retries', { jobId, retries: job.retry_count, error: error.message })
     } else {
       logger.error('Job failed permanently', { jobId, error: error.message })
     }
   }
 
   /**
-   * Process a single job
+   * Return a dead-lettered job to the queue with a fresh retry budget.
+   */
+  async requeueDeadLetter(jobId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('sync_queue')
+      .update({
+        status: 'pending',
+        retry_count: 0,
+        scheduled_for: new Date().toISOString(),
+        started_at: null,
+        completed_at: null,
+        dead_lettered_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', jobId)
+      .eq('status', 'dead_letter')
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to requeue job: ${error.message}`)
+    }
+
+    return Boolean(data && data.length > 0)
+  }
+
+  /**
+   * Process a job claimed by this worker, heartbeating its lease until it finishes
    */
   async processJob(job: SyncJob): Promise<void> {
     logger.info('Processing sync job', { 
       jobId: job.id, 
       type: job.type, 
-      attempt: job.retry_count + 1 
+      attempt: job.retry_count + 1,
+      workerId: this.workerId
     })
 
-    try {
-      await this.startJob(job.id)
+    const heartbeatTimer = setInterval(() => {
+      this.heartbeat(job.id)
+        .then((held) => {
+          if (!held) logger.warn('Lost lease on running job', { jobId: job.id, workerId: this.workerId })
+        })
+        .catch((error) => logger.warn('Job heartbeat failed', { jobId: job.id, error }))
+    }, Math.max(10, Math.floor(this.leaseSeconds / 3)) * 1000)
+    heartbeatTimer.unref?.()
+
+    const control: SyncRunControl<any> = {
+      checkpoint: job.checkpoint ?? null,
+      saveCheckpoint: (checkpoint) => this.saveCheckpoint(job.id, checkpoint),
+      deadline: this.timeBudgetSeconds ? Date.now() + this.timeBudgetSeconds * 1000 : null
+    }
 
+    try {
       let result: any
       
       switch (job.type) {
@@ -221,22 +416,37 @@ export class SyncQueueManager {
 
         case 'judge':
           const judgeSync = new JudgeSyncManager()
-          result = await judgeSync.syncJudges(job.options)
+          result = await judgeSync.syncJudges(job.options, control)
           break
 
         case 'decision':
           const decisionSync = new DecisionSyncManager()
-          result = await decisionSync.syncDecisions(job.options)
+          result = await decisionSync.syncDecisions(job.options, control)
           break
 
         case 'cleanup':
           const deletedCount = await this.cleanupOldJobs(job.options?.olderThanDays || 7)
           result = {
             success: true,
-            deleted: deletedCount
+            deleted: deletedCount,
+            purgedExports: await purgeExpiredExports(this.supabase),
+            purgedWebhookEvents: await purgeWebhookLog(this.supabase)
           }
           break
 
+        case 'export':
+          result = await runExportJob(this.supabase, job.options.exportId, control)
+          break
+
+        case 'webhook':
+          // On the last retry, deliveries that still fail are marked failed
+          result = await runWebhookDeliveryJob(this.supabase, job.options.endpointId, control, job.retry_count >= job.max_retries)
+          break
+
+        case 'citations':
+          result = await backfillOpinionCitations(this.supabase, control)
+          break
+
         case 'full':
           // Full sync - run all sync types in sequence
           result = await this.runFullSync(job.options)
@@ -246,6 +456,16 @@ export class SyncQueueManager {
           throw new Error(`Unknown job type: ${job.type}`)
       }
 
+      if (result?.incomplete) {
+        await this.yieldJob(job.id, result)
+        logger.info('Job checkpointed and requeued', {
+          jobId: job.id,
+          type: job.type,
+          progress: result.checkpoint?.progress
+        })
+        return
+      }
+
       await this.completeJob(job.id, result)
       
       logger.info('Job completed successfully', { 
@@ -262,6 +482,8 @@ export class SyncQueueManager {
       })
       
       await this.failJob(job.id, error as Error)
+    } finally {
+      clearInterval(heartbeatTimer)
     }
   }
 
@@ -328,7 +550,7 @@ export class SyncQueueManager {
 
     this.processingInterval = setInterval(async () => {
       try {
-        const job = await this.getNextJob()
+        const job = await this.claimNextJob()
         
         if (job) {
           await this.processJob(job)
@@ -374,11 +596,14 @@ export class SyncQueueManager {
       running: 0,
       completed: 0,
       failed: 0,
+      dead_letter: 0,
       total: data?.length || 0
     }
 
     data?.forEach((job: any) => {
-      stats[job.status as keyof Omit<QueueStats, 'total'>]++
+      if (job.status in stats && job.status !== 'total') {
+        stats[job.status as keyof Omit<QueueStats, 'total'>]++
+      }
     })
 
     return stats
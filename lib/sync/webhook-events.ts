@@ -0,0 +1,409 @@
+/**
+ * CourtListener Webhook Events
+ * Every delivery is stored in webhook_events under its webhook_id, so a
+ * redelivery is acknowledged without being applied twice and failed events
+ * can be reprocessed. Events are applied as targeted single-record refreshes
+ * rather than queued as broad sync jobs.
+ */
+
+import { type SupabaseClient } from '@supabase/supabase-js'
+import { type CourtListenerClient } from '@/lib/courtlistener/client'
+import { logger } from '@/lib/utils/logger'
+import { parseCourtListenerId } from '@/lib/sync/decision-helpers'
+import { CourtSyncManager } from '@/lib/sync/court-sync'
+import { DecisionSyncManager } from '@/lib/sync/decision-sync'
+import { JudgeSyncManager } from '@/lib/sync/judge-sync'
+
+export const COURTLISTENER_WEBHOOK_EVENTS = [
+  'opinion.created',
+  'opinion.updated',
+  'person.updated',
+  'court.updated',
+  'docket.alert',
+  'search.alert'
+] as const
+
+export type CourtListenerWebhookEventType = (typeof COURTLISTENER_WEBHOOK_EVENTS)[number]
+export type WebhookEventStatus = 'received' | 'processed' | 'ignored' | 'failed'
+
+export interface CourtListenerWebhookPayload {
+  event: string
+  data: {
+    id: string | number | null
+    type?: string
+    /** For docket and search alerts, CourtListener's alert payload (`alert`, `results`). */
+    attributes?: Record<string, any>
+  }
+  timestamp: string
+  webhook_id: string
+}
+
+export interface WebhookOutcome {
+  status: 'processed' | 'ignored' | 'failed'
+  result: Record<string, unknown>
+  error?: string
+}
+
+export interface ReceivedWebhookEvent extends Omit<WebhookOutcome, 'status'> {
+  eventId: string
+  /** 'received' when a redelivery arrives while the first attempt is still running. */
+  status: WebhookEventStatus
+  duplicate: boolean
+}
+
+/** The single-record refreshes events are applied with. */
+export interface WebhookProcessors {
+  decisions: Pick<DecisionSyncManager, 'syncOpinion' | 'syncDocket'>
+  judges: Pick<JudgeSyncManager, 'refreshJudge'>
+  courts: Pick<CourtSyncManager, 'refreshCourt'>
+}
+
+export function createWebhookProcessors(dependencies: { supabase: SupabaseClient; courtListener: CourtListenerClient }): WebhookProcessors {
+  return {
+    decisions: new DecisionSyncManager(dependencies),
+    judges: new JudgeSyncManager(dependencies),
+    courts: new CourtSyncManager(dependencies)
+  }
+}
+
+export class WebhookPayloadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookPayloadError'
+  }
+}
+
+/** Thrown when reprocessing an event that is missing, or neither failed nor stuck. */
+export class WebhookEventConflictError extends Error {
+  constructor(eventId: string) {
+    super(`Webhook event ${eventId} is not awaiting reprocessing`)
+    this.name = 'WebhookEventConflictError'
+  }
+}
+
+export const WEBHOOK_SOURCE = 'courtlistener'
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300
+/** Alerts can list many matches; refresh at most this many records per event. */
+export const MAX_WEBHOOK_TARGETS = 25
+/** An attempt still 'received' after this long was cut off (the route runs for at most 2 minutes). */
+export const STUCK_WEBHOOK_MINUTES = 10
+
+export function resolveWebhookToleranceSeconds(): number {
+  const configured = Number.parseInt(process.env.COURTLISTENER_WEBHOOK_TOLERANCE_SECONDS || '', 10)
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_WEBHOOK_TOLERANCE_SECONDS
+}
+
+export function parseWebhookPayload(body: unknown): CourtListenerWebhookPayload {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new WebhookPayloadError('Payload must be a JSON object')
+  }
+  const payload = body as Record<string, any>
+  if (typeof payload.webhook_id !== 'string' || !payload.webhook_id.trim()) {
+    throw new WebhookPayloadError('webhook_id is required')
+  }
+  if (typeof payload.event !== 'string' || !payload.event) {
+    throw new WebhookPayloadError('event is required')
+  }
+  if (typeof payload.timestamp !== 'string' || !payload.timestamp) {
+    throw new WebhookPayloadError('timestamp is required')
+  }
+  if (!payload.data || typeof payload.data !== 'object') {
+    throw new WebhookPayloadError('data is required')
+  }
+  return payload as CourtListenerWebhookPayload
+}
+
+/**
+ * Replay protection: the signed timestamp must be within the tolerance of
+ * our clock. Together with webhook_id idempotency this stops a captured
+ * delivery from being applied again later.
+ */
+export function checkWebhookTimestamp(
+  timestamp: string,
+  now: number = Date.now(),
+  toleranceSeconds: number = resolveWebhookToleranceSeconds()
+): 'ok' | 'stale' | 'future' | 'invalid' {
+  const sent = new Date(timestamp).getTime()
+  if (Number.isNaN(sent)) return 'invalid'
+  const skew = now - sent
+  if (skew > toleranceSeconds * 1000) return 'stale'
+  if (skew < -toleranceSeconds * 1000) return 'future'
+  return 'ok'
+}
+
+function isKnownEvent(event: string): event is CourtListenerWebhookEventType {
+  return (COURTLISTENER_WEBHOOK_EVENTS as readonly string[]).includes(event)
+}
+
+function uniqueIds(values: unknown[]): string[] {
+  const ids = values.map(parseCourtListenerId).filter((id): id is string => Boolean(id))
+  return Array.from(new Set(ids))
+}
+
+/** Dockets named by a docket alert: the event's docket and the docket of each new entry. */
+export function docketAlertTargets(payload: CourtListenerWebhookPayload): string[] {
+  const results: any[] = Array.isArray(payload.data.attributes?.results) ? payload.data.attributes.results : []
+  const own = payload.data.type === 'docket' ? [payload.data.id] : []
+  return uniqueIds([...own, ...results.map((entry) => entry?.docket_id ?? entry?.docket)])
+}
+
+/** Opinions and dockets matched by a search alert. */
+export function searchAlertTargets(payload: CourtListenerWebhookPayload): { opinions: string[]; dockets: string[] } {
+  const results: any[] = Array.isArray(payload.data.attributes?.results) ? payload.data.attributes.results : []
+  const opinions: unknown[] = []
+  const dockets: unknown[] = []
+  for (const result of results) {
+    if (Array.isArray(result?.opinions)) {
+      opinions.push(...result.opinions.map((opinion: any) => opinion?.id))
+    } else if (result?.docket_id) {
+      dockets.push(result.docket_id)
+    }
+  }
+  return { opinions: uniqueIds(opinions), dockets: uniqueIds(dockets) }
+}
+
+interface TargetOutcome {
+  kind: 'opinion' | 'docket'
+  id: string
+  outcome: unknown
+  error?: string
+}
+
+async function refreshTargets(
+  processors: WebhookProcessors,
+  targets: Array<{ kind: 'opinion' | 'docket'; id: string }>
+): Promise<WebhookOutcome> {
+  const selected = targets.slice(0, MAX_WEBHOOK_TARGETS)
+  const outcomes: TargetOutcome[] = []
+  for (const target of selected) {
+    try {
+      const outcome = target.kind === 'opinion'
+        ? await processors.decisions.syncOpinion(target.id)
+        : await processors.decisions.syncDocket(target.id)
+      outcomes.push({ ...target, outcome })
+    } catch (error) {
+      outcomes.push({ ...target, outcome: null, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const result = { targets: outcomes, skippedTargets: targets.length - selected.length }
+  const failed = outcomes.filter((entry) => entry.error)
+  if (failed.length > 0) {
+    return { status: 'failed', result, error: failed.map((entry) => `${entry.kind} ${entry.id}: ${entry.error}`).join('; ') }
+  }
+  if (outcomes.every((entry) => entry.outcome === null)) {
+    return { status: 'ignored', result: { ...result, reason: 'no tracked judge for any match' } }
+  }
+  return { status: 'processed', result }
+}
+
+/**
+ * Apply an event as a targeted refresh. Events about records we do not
+ * track are ignored rather than imported.
+ */
+export async function applyWebhookEvent(
+  payload: CourtListenerWebhookPayload,
+  processors: WebhookProcessors
+): Promise<WebhookOutcome> {
+  if (!isKnownEvent(payload.event)) {
+    return { status: 'ignored', result: { reason: `unhandled event type ${payload.event}` } }
+  }
+
+  const objectId = parseCourtListenerId(payload.data.id)
+  switch (payload.event) {
+    case 'opinion.created':
+    case 'opinion.updated': {
+      if (!objectId) throw new WebhookPayloadError('data.id is required for opinion events')
+      const outcome = await processors.decisions.syncOpinion(objectId)
+      return outcome
+        ? { status: 'processed', result: { opinionId: objectId, ...outcome } }
+        : { status: 'ignored', result: { opinionId: objectId, reason: 'author is not a tracked judge' } }
+    }
+    case 'person.updated': {
+      if (!objectId) throw new WebhookPayloadError('data.id is required for person events')
+      const outcome = await processors.judges.refreshJudge(objectId)
+      return outcome
+        ? { status: 'processed', result: { personId: objectId, ...outcome } }
+        : { status: 'ignored', result: { personId: objectId, reason: 'person is not a tracked judge' } }
+    }
+    case 'court.updated': {
+      if (!objectId) throw new WebhookPayloadError('data.id is required for court events')
+      const outcome = await processors.courts.refreshCourt(objectId)
+      return outcome
+        ? { status: 'processed', result: { courtlistenerId: objectId, ...outcome } }
+        : { status: 'ignored', result: { courtlistenerId: objectId, reason: 'court is not tracked' } }
+    }
+    case 'docket.alert': {
+      const dockets = docketAlertTargets(payload)
+      if (dockets.length === 0) return { status: 'ignored', result: { reason: 'alert names no dockets' } }
+      return refreshTargets(processors, dockets.map((id) => ({ kind: 'docket' as const, id })))
+    }
+    case 'search.alert': {
+      const { opinions, dockets } = searchAlertTargets(payload)
+      const targets = [
+        ...opinions.map((id) => ({ kind: 'opinion' as const, id })),
+        ...dockets.map((id) => ({ kind: 'docket' as const, id }))
+      ]
+      if (targets.length === 0) return { status: 'ignored', result: { reason: 'alert has no opinion or docket results' } }
+      return refreshTargets(processors, targets)
+    }
+  }
+}
+
+async function runStoredEvent(
+  supabase: SupabaseClient,
+  eventId: string,
+  payload: CourtListenerWebhookPayload,
+  processors: WebhookProcessors
+): Promise<WebhookOutcome> {
+  let outcome: WebhookOutcome
+  try {
+    outcome = await applyWebhookEvent(payload, processors)
+  } catch (error) {
+    outcome = { status: 'failed', result: {}, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const { error } = await supabase
+    .from('webhook_events')
+    .update({
+      status: outcome.status,
+      processed: outcome.status !== 'failed',
+      processed_at: new Date().toISOString(),
+      result: outcome.result,
+      error_message: outcome.error ?? null
+    })
+    .eq('id', eventId)
+  if (error) {
+    logger.error('Failed to record webhook event outcome', { eventId, error: error.message })
+  }
+
+  if (outcome.status === 'failed') {
+    logger.warn('Webhook event failed', { eventId, event: payload.event, error: outcome.error })
+  }
+  return outcome
+}
+
+/**
+ * Claim a failed event, or one cut off mid-attempt, for another attempt. The
+ * status check in the update means a redelivery and an admin retry cannot
+ * both run it.
+ */
+async function claimFailedEvent(
+  supabase: SupabaseClient,
+  eventId: string
+): Promise<{ payload: CourtListenerWebhookPayload } | null> {
+  const { data: current, error: readError } = await supabase
+    .from('webhook_events')
+    .select('id, status, attempts, payload, last_attempt_at')
+    .eq('id', eventId)
+    .maybeSingle()
+  if (readError) {
+    throw new Error(`Failed to load webhook event: ${readError.message}`)
+  }
+  if (!current || !isRetryable(current)) return null
+
+  const { data: claimed, error } = await supabase
+    .from('webhook_events')
+    .update({
+      status: 'received',
+      attempts: (current.attempts ?? 0) + 1,
+      last_attempt_at: new Date().toISOString(),
+      error_message: null
+    })
+    .eq('id', eventId)
+    .eq('status', current.status)
+    .eq('attempts', current.attempts ?? 0)
+    .select('id')
+    .maybeSingle()
+  if (error) {
+    throw new Error(`Failed to claim webhook event: ${error.message}`)
+  }
+  if (!claimed) return null
+
+  return { payload: current.payload as CourtListenerWebhookPayload }
+}
+
+export function isRetryable(event: { status: string; last_attempt_at?: string | null }, now: number = Date.now()): boolean {
+  if (event.status === 'failed') return true
+  if (event.status !== 'received' || !event.last_attempt_at) return false
+  return now - new Date(event.last_attempt_at).getTime() > STUCK_WEBHOOK_MINUTES * 60 * 1000
+}
+
+/**
+ * Store and apply a verified delivery. A webhook_id seen before is not
+ * applied again, unless the earlier attempt failed or was cut off.
+ */
+export async function receiveWebhookEvent(
+  supabase: SupabaseClient,
+  payload: CourtListenerWebhookPayload,
+  processors: WebhookProcessors
+): Promise<ReceivedWebhookEvent> {
+  const { data: inserted, error } = await supabase
+    .from('webhook_events')
+    .upsert(
+      {
+        source: WEBHOOK_SOURCE,
+        webhook_id: payload.webhook_id,
+        event_type: payload.event,
+        event_id: payload.data.id === null || payload.data.id === undefined ? null : String(payload.data.id),
+        event_timestamp: payload.timestamp,
+        payload,
+        status: 'received',
+        attempts: 1,
+        last_attempt_at: new Date().toISOString()
+      },
+      { onConflict: 'source,webhook_id', ignoreDuplicates: true }
+    )
+    .select('id')
+    .maybeSingle()
+  if (error) {
+    throw new Error(`Failed to store webhook event: ${error.message}`)
+  }
+
+  if (inserted) {
+    const outcome = await runStoredEvent(supabase, inserted.id, payload, processors)
+    return { eventId: inserted.id, duplicate: false, ...outcome }
+  }
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('webhook_events')
+    .select('id, status, result, error_message, last_attempt_at')
+    .eq('source', WEBHOOK_SOURCE)
+    .eq('webhook_id', payload.webhook_id)
+    .maybeSingle()
+  if (lookupError || !existing) {
+    throw new Error(`Failed to load webhook event ${payload.webhook_id}: ${lookupError?.message ?? 'not found'}`)
+  }
+
+  if (isRetryable(existing)) {
+    const claim = await claimFailedEvent(supabase, existing.id)
+    if (claim) {
+      const outcome = await runStoredEvent(supabase, existing.id, payload, processors)
+      return { eventId: existing.id, duplicate: true, ...outcome }
+    }
+  }
+
+  return {
+    eventId: existing.id,
+    duplicate: true,
+    status: existing.status,
+    result: existing.result ?? {},
+    error: existing.error_message ?? undefined
+  }
+}
+
+/**
+ * Apply a failed or stuck event again from its stored payload. The timestamp
+ * is not rechecked.
+ */
+export async function reprocessWebhookEvent(
+  supabase: SupabaseClient,
+  eventId: string,
+  processors: WebhookProcessors
+): Promise<WebhookOutcome> {
+  const claim = await claimFailedEvent(supabase, eventId)
+  if (!claim) {
+    throw new WebhookEventConflictError(eventId)
+  }
+  return runStoredEvent(supabase, eventId, parseWebhookPayload(claim.payload), processors)
+}
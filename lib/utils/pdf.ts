@@ -0,0 +1,74 @@
+/**
+ * Minimal PDF writer for plain-text reports: monospaced lines on US Letter
+ * landscape pages, no embedded fonts or images.
+ */
+
+const PAGE_WIDTH = 792
+const PAGE_HEIGHT = 612
+const MARGIN = 40
+const FONT_SIZE = 9
+const LINE_HEIGHT = 12
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LINE_HEIGHT)
+// Courier glyphs are 0.6em wide
+const CHARS_PER_LINE = Math.floor((PAGE_WIDTH - MARGIN * 2) / (FONT_SIZE * 0.6))
+
+function escapePdfText(value: string): string {
+  return value
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')
+}
+
+function wrapLine(line: string): string[] {
+  if (line.length <= CHARS_PER_LINE) return [line]
+  const wrapped: string[] = []
+  for (let offset = 0; offset < line.length; offset += CHARS_PER_LINE) {
+    wrapped.push(line.slice(offset, offset + CHARS_PER_LINE))
+  }
+  return wrapped
+}
+
+function pageContent(lines: string[]): string {
+  const body = lines.map((line) => `(${escapePdfText(line)}) Tj T*`).join('\n')
+  return `BT\n/F1 ${FONT_SIZE} Tf\n${LINE_HEIGHT} TL\n${MARGIN} ${PAGE_HEIGHT - MARGIN} Td\n${body}\nET`
+}
+
+export function renderTextPdf(lines: string[], title = 'Report'): Uint8Array {
+  const wrapped = lines.flatMap(wrapLine)
+  const pages: string[][] = []
+  for (let index = 0; index < Math.max(1, wrapped.length); index += LINES_PER_PAGE) {
+    pages.push(wrapped.slice(index, index + LINES_PER_PAGE))
+  }
+
+  // Object numbers: 1 catalog, 2 page tree, 3 font, 4 info, then a page and content pair per page
+  const pageObjectId = (index: number) => 5 + index * 2
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObjectId(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>',
+    `<< /Title (${escapePdfText(title)}) /Producer (JudgeFinder) >>`
+  ]
+  pages.forEach((pageLines, index) => {
+    const content = pageContent(pageLines)
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageObjectId(index) + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    )
+  })
+
+  // Every character is ASCII after escaping, so string length equals byte length
+  let output = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((object, index) => {
+    offsets.push(output.length)
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`
+  })
+
+  const xrefOffset = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return new TextEncoder().encode(output)
+}
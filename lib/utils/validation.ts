@@ -59,6 +59,20 @@ export const courtJudgesSearchParamsSchema = z.object({
   position_type: z.string().max(50).optional()
 })
 
+// Opinion full-text search
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+
+export const opinionSearchParamsSchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(256, 'Search query too long'),
+  judge_id: z.string().uuid('Invalid judge ID format').optional(),
+  court_id: z.string().uuid('Invalid court ID format').optional(),
+  case_type: z.string().max(100).optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  page: z.coerce.number().int().min(1).max(500).default(1)
+})
+
 // Analytics API schemas
 export const analyticsParamsSchema = z.object({
   id: z.string().uuid('Invalid ID format'),
@@ -67,7 +81,7 @@ export const analyticsParamsSchema = z.object({
 
 // Validation helper function
 export function validateParams<T>(
-  schema: z.ZodSchema<T>,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
   params: unknown,
   context?: string
 ): { success: true; data: T } | { success: false; response: NextResponse } {
@@ -119,7 +133,7 @@ export function validateParams<T>(
 
 // URL search params validation helper
 export function validateSearchParams<T>(
-  schema: z.ZodSchema<T>,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
   searchParams: URLSearchParams,
   context?: string
 ): { success: true; data: T } | { success: false; response: NextResponse } {
@@ -129,7 +143,7 @@ export function validateSearchParams<T>(
 
 // JSON body validation helper
 export async function validateJsonBody<T>(
-  schema: z.ZodSchema<T>,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
   request: Request,
   context?: string
 ): Promise<{ success: true; data: T } | { success: false; response: NextResponse }> {
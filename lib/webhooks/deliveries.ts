@@ -0,0 +1,466 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ApiKeyOwner } from '@/lib/security/api-keys'
+import { getWebhookEndpoint } from '@/lib/webhooks/endpoints'
+import type { WebhookEvent, WebhookEventType } from '@/lib/webhooks/events'
+import { signWebhookBody } from '@/lib/webhooks/signing'
+import { pinnedTransport, type WebhookTransport } from '@/lib/webhooks/transport'
+import type { SyncRunControl } from '@/lib/sync/checkpoint'
+import { logger } from '@/lib/utils/logger'
+
+/** Retries after the first attempt; SyncQueueManager backs off 1, 2, 4, 8 and 16 minutes. */
+export const WEBHOOK_MAX_RETRIES = 5
+
+/** Events and their delivery log are kept this long. */
+export const WEBHOOK_LOG_RETENTION_DAYS = 30
+
+const DELIVERY_TIMEOUT_MS = 10000
+const DISPATCH_BATCH_SIZE = 500
+const DELIVERIES_PER_BATCH = 100
+const RESPONSE_EXCERPT_LENGTH = 1000
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface WebhookDeliveryView {
+  id: string
+  eventId: string
+  eventType: WebhookEventType
+  status: WebhookDeliveryStatus
+  attempts: number
+  responseStatus: number | null
+  /** Start of the response body, or why the request failed. */
+  responseBody: string | null
+  error: string | null
+  durationMs: number | null
+  lastAttemptAt: string | null
+  deliveredAt: string | null
+  /** The delivery this one manually redelivers. */
+  redeliveryOf: string | null
+  createdAt: string
+}
+
+interface WebhookDeliveryRow {
+  id: string
+  endpoint_id: string
+  event_id: string
+  event_type: WebhookEventType
+  status: WebhookDeliveryStatus
+  attempts: number
+  response_status: number | null
+  response_body: string | null
+  error: string | null
+  duration_ms: number | null
+  last_attempt_at: string | null
+  delivered_at: string | null
+  redelivery_of: string | null
+  created_at: string
+}
+
+interface DeliveryTarget {
+  id: string
+  url: string
+  secret: string
+  disabled_at: string | null
+}
+
+/** What dispatch and redelivery need from SyncQueueManager; injected so routes and tests can supply it. */
+export interface WebhookJobQueue {
+  addJob(type: 'webhook', options: { endpointId: string }, priority?: number, scheduledFor?: Date, maxRetries?: number): Promise<string>
+}
+
+export interface WebhookDispatchResult {
+  events: number
+  deliveries: number
+  jobsQueued: number
+}
+
+export interface WebhookJobResult {
+  success: boolean
+  endpointId: string
+  delivered: number
+  incomplete?: boolean
+}
+
+export interface WebhookDeliveryOptions {
+  transport?: WebhookTransport
+  now?: () => Date
+}
+
+const DELIVERY_COLUMNS =
+  'id, endpoint_id, event_id, event_type, status, attempts, response_status, response_body, error, duration_ms, last_attempt_at, delivered_at, redelivery_of, created_at'
+
+export class WebhookDeliveryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookDeliveryError'
+  }
+}
+
+export class WebhookDeliveryNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Webhook delivery ${id} not found`)
+    this.name = 'WebhookDeliveryNotFoundError'
+  }
+}
+
+function toView(row: WebhookDeliveryRow): WebhookDeliveryView {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    status: row.status,
+    attempts: Number(row.attempts),
+    responseStatus: row.response_status,
+    responseBody: row.response_body,
+    error: row.error,
+    durationMs: row.duration_ms,
+    lastAttemptAt: row.last_attempt_at,
+    deliveredAt: row.delivered_at,
+    redeliveryOf: row.redelivery_of,
+    createdAt: row.created_at
+  }
+}
+
+/**
+ * Queue a `webhook` job for the endpoint unless one is already pending or
+ * running; one job delivers everything pending for its endpoint, in order.
+ */
+export async function ensureWebhookJob(supabase: SupabaseClient, queue: WebhookJobQueue, endpointId: string): Promise<boolean> {
+  const { data: endpoint, error } = await supabase
+    .from('webhook_endpoints')
+    .select('queue_job_id')
+    .eq('id', endpointId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load webhook endpoint: ${error.message}`)
+  if (!endpoint) return false
+
+  const jobId = (endpoint as { queue_job_id: string | null }).queue_job_id
+  if (jobId) {
+    const { data: job } = await supabase.from('sync_queue').select('status').eq('id', jobId).maybeSingle()
+    const status = (job as { status?: string } | null)?.status
+    if (status === 'pending' || status === 'running') return false
+  }
+
+  const queued = await queue.addJob('webhook', { endpointId }, 0, undefined, WEBHOOK_MAX_RETRIES)
+  await supabase.from('webhook_endpoints').update({ queue_job_id: queued }).eq('id', endpointId)
+  return true
+}
+
+/** Claim undispatched events; events another dispatcher claimed first are left to it. */
+async function claimEvents(supabase: SupabaseClient, now: Date): Promise<Array<Pick<WebhookEvent, 'id' | 'event_type'>>> {
+  const { data, error } = await supabase
+    .from('webhook_outbox')
+    .select('id')
+    .is('dispatched_at', null)
+    .order('created_at', { ascending: true })
+    .limit(DISPATCH_BATCH_SIZE)
+  if (error) throw new Error(`Failed to load webhook events: ${error.message}`)
+  const ids = (data ?? []).map((row: { id: string }) => row.id)
+  if (ids.length === 0) return []
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('webhook_outbox')
+    .update({ dispatched_at: now.toISOString() })
+    .in('id', ids)
+    .is('dispatched_at', null)
+    .select('id, event_type')
+  if (claimError) throw new Error(`Failed to claim webhook events: ${claimError.message}`)
+  return (claimed ?? []) as Array<Pick<WebhookEvent, 'id' | 'event_type'>>
+}
+
+async function createDeliveries(
+  supabase: SupabaseClient,
+  events: Array<Pick<WebhookEvent, 'id' | 'event_type'>>,
+  now: Date
+): Promise<number> {
+  const { data: endpoints, error } = await supabase
+    .from('webhook_endpoints')
+    .select('id, events')
+    .is('disabled_at', null)
+  if (error) throw new Error(`Failed to load webhook endpoints: ${error.message}`)
+
+  const deliveries = events.flatMap((event) =>
+    ((endpoints ?? []) as Array<{ id: string; events: WebhookEventType[] }>)
+      .filter((endpoint) => endpoint.events.includes(event.event_type))
+      .map((endpoint) => ({
+        endpoint_id: endpoint.id,
+        event_id: event.id,
+        event_type: event.event_type,
+        status: 'pending',
+        attempts: 0,
+        created_at: now.toISOString()
+      }))
+  )
+  if (deliveries.length === 0) return 0
+
+  const { error: insertError } = await supabase.from('webhook_deliveries').insert(deliveries)
+  if (insertError) {
+    // Hand the events back so the next run dispatches them
+    await supabase.from('webhook_outbox').update({ dispatched_at: null }).in('id', events.map((event) => event.id))
+    throw new Error(`Failed to create webhook deliveries: ${insertError.message}`)
+  }
+  return deliveries.length
+}
+
+/**
+ * Fan recorded events out to the enabled endpoints subscribed to them, then
+ * make sure every endpoint with pending deliveries has a `webhook` job. Run
+ * by the queue worker before it claims a job.
+ */
+export async function dispatchWebhookEvents(
+  supabase: SupabaseClient,
+  queue: WebhookJobQueue,
+  now: Date = new Date()
+): Promise<WebhookDispatchResult> {
+  const events = await claimEvents(supabase, now)
+  const deliveries = events.length > 0 ? await createDeliveries(supabase, events, now) : 0
+
+  const { data: pending, error } = await supabase
+    .from('webhook_deliveries')
+    .select('endpoint_id')
+    .eq('status', 'pending')
+    .limit(DISPATCH_BATCH_SIZE * 2)
+  if (error) throw new Error(`Failed to load pending webhook deliveries: ${error.message}`)
+
+  let jobsQueued = 0
+  for (const endpointId of new Set((pending ?? []).map((row: { endpoint_id: string }) => row.endpoint_id))) {
+    if (await ensureWebhookJob(supabase, queue, endpointId)) jobsQueued++
+  }
+
+  if (events.length > 0) logger.info('Dispatched webhook events', { events: events.length, deliveries, jobsQueued })
+  return { events: events.length, deliveries, jobsQueued }
+}
+
+/** The JSON body subscribers receive; redeliveries send the same event id. */
+export function webhookBody(event: WebhookEvent): string {
+  return JSON.stringify({ id: event.id, type: event.event_type, created_at: event.created_at, data: event.data })
+}
+
+async function post(
+  transport: WebhookTransport,
+  target: DeliveryTarget,
+  delivery: WebhookDeliveryRow,
+  body: string
+): Promise<{ ok: boolean; status: number | null; excerpt: string | null; error: string | null }> {
+  try {
+    const response = await transport(target.url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': 'JudgeFinder-Webhooks/1.0',
+        'x-judgefinder-event': delivery.event_type,
+        'x-judgefinder-delivery': delivery.id,
+        'x-judgefinder-signature': signWebhookBody(target.secret, body)
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    })
+    const ok = response.status >= 200 && response.status < 300
+    const excerpt = (await response.text().catch(() => '')).slice(0, RESPONSE_EXCERPT_LENGTH)
+    return {
+      ok,
+      status: response.status,
+      excerpt: excerpt || null,
+      error: ok ? null : `Endpoint responded with status ${response.status}`
+    }
+  } catch (error) {
+    return { ok: false, status: null, excerpt: null, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+async function attemptDelivery(
+  supabase: SupabaseClient,
+  target: DeliveryTarget,
+  delivery: WebhookDeliveryRow,
+  event: WebhookEvent | undefined,
+  options: Required<WebhookDeliveryOptions>
+): Promise<boolean> {
+  const started = options.now()
+  const outcome = event
+    ? await post(options.transport, target, delivery, webhookBody(event))
+    : { ok: false, status: null, excerpt: null, error: 'Event no longer exists' }
+  const finished = options.now()
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: outcome.ok ? 'succeeded' : 'pending',
+      attempts: Number(delivery.attempts) + 1,
+      response_status: outcome.status,
+      response_body: outcome.excerpt,
+      error: outcome.error,
+      duration_ms: finished.getTime() - started.getTime(),
+      last_attempt_at: finished.toISOString(),
+      delivered_at: outcome.ok ? finished.toISOString() : null
+    })
+    .eq('id', delivery.id)
+  if (error) throw new Error(`Failed to record webhook delivery ${delivery.id}: ${error.message}`)
+  return outcome.ok
+}
+
+async function failPending(supabase: SupabaseClient, endpointId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'failed', error: reason })
+    .eq('endpoint_id', endpointId)
+    .eq('status', 'pending')
+  if (error) throw new Error(`Failed to mark webhook deliveries failed: ${error.message}`)
+}
+
+async function loadPendingBatch(
+  supabase: SupabaseClient,
+  endpointId: string
+): Promise<{ deliveries: WebhookDeliveryRow[]; events: Map<string, WebhookEvent> }> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select(DELIVERY_COLUMNS)
+    .eq('endpoint_id', endpointId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(DELIVERIES_PER_BATCH)
+  if (error) throw new Error(`Failed to load webhook deliveries: ${error.message}`)
+  const deliveries = (data ?? []) as WebhookDeliveryRow[]
+  if (deliveries.length === 0) return { deliveries, events: new Map() }
+
+  const { data: events, error: eventsError } = await supabase
+    .from('webhook_outbox')
+    .select('id, event_type, data, created_at')
+    .in('id', [...new Set(deliveries.map((delivery) => delivery.event_id))])
+  if (eventsError) throw new Error(`Failed to load webhook events: ${eventsError.message}`)
+  return { deliveries, events: new Map(((events ?? []) as WebhookEvent[]).map((event) => [event.id, event])) }
+}
+
+async function loadTarget(supabase: SupabaseClient, endpointId: string): Promise<DeliveryTarget | null> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('id, url, secret, disabled_at')
+    .eq('id', endpointId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load webhook endpoint: ${error.message}`)
+  return (data as DeliveryTarget | null) ?? null
+}
+
+/**
+ * Deliver pending deliveries in order until none are left, one fails or the
+ * deadline passes. Returns how many succeeded, or null when one failed.
+ */
+async function deliverPending(
+  supabase: SupabaseClient,
+  target: DeliveryTarget,
+  deadline: number | null,
+  options: Required<WebhookDeliveryOptions>
+): Promise<{ delivered: number; failed: WebhookDeliveryRow | null; incomplete: boolean }> {
+  let delivered = 0
+  for (;;) {
+    const { deliveries, events } = await loadPendingBatch(supabase, target.id)
+    for (const delivery of deliveries) {
+      if (deadline && options.now().getTime() >= deadline) return { delivered, failed: null, incomplete: true }
+      const ok = await attemptDelivery(supabase, target, delivery, events.get(delivery.event_id), options)
+      if (!ok) return { delivered, failed: delivery, incomplete: false }
+      delivered++
+    }
+    if (deliveries.length < DELIVERIES_PER_BATCH) return { delivered, failed: null, incomplete: false }
+  }
+}
+
+/**
+ * Runs a `webhook` job for SyncQueueManager: POSTs the endpoint's pending
+ * deliveries oldest first, each signed with the endpoint secret. The first
+ * failure stops the run and throws, so the queue retries it with backoff;
+ * on the final attempt the endpoint's pending deliveries are marked failed.
+ */
+export async function runWebhookDeliveryJob(
+  supabase: SupabaseClient,
+  endpointId: string,
+  control: SyncRunControl = {},
+  finalAttempt: boolean = false,
+  { transport = pinnedTransport, now = () => new Date() }: WebhookDeliveryOptions = {}
+): Promise<WebhookJobResult> {
+  const target = await loadTarget(supabase, endpointId)
+  // Deleting an endpoint deletes its deliveries
+  if (!target) return { success: true, endpointId, delivered: 0 }
+  if (target.disabled_at) {
+    await failPending(supabase, endpointId, 'Endpoint disabled')
+    return { success: true, endpointId, delivered: 0 }
+  }
+
+  const { delivered, failed, incomplete } = await deliverPending(supabase, target, control.deadline ?? null, { transport, now })
+  if (failed) {
+    if (finalAttempt) await failPending(supabase, endpointId, 'Gave up after repeated failures')
+    throw new WebhookDeliveryError(`Webhook delivery ${failed.id} to endpoint ${endpointId} failed`)
+  }
+  return incomplete ? { success: true, endpointId, delivered, incomplete } : { success: true, endpointId, delivered }
+}
+
+/** The endpoint's delivery log, newest first. */
+export async function listWebhookDeliveries(
+  supabase: SupabaseClient,
+  owner: ApiKeyOwner,
+  endpointId: string,
+  { status, limit = 50 }: { status?: WebhookDeliveryStatus; limit?: number } = {}
+): Promise<WebhookDeliveryView[]> {
+  await getWebhookEndpoint(supabase, owner, endpointId)
+  let query = supabase.from('webhook_deliveries').select(DELIVERY_COLUMNS).eq('endpoint_id', endpointId)
+  if (status) query = query.eq('status', status)
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit)
+  if (error) throw new Error(`Failed to load webhook deliveries: ${error.message}`)
+  return ((data ?? []) as WebhookDeliveryRow[]).map(toView)
+}
+
+/**
+ * Send a delivery's event to its endpoint again, as a new delivery in the
+ * log. Works for succeeded deliveries too, e.g. after a subscriber lost data.
+ */
+export async function redeliverWebhook(
+  supabase: SupabaseClient,
+  queue: WebhookJobQueue,
+  owner: ApiKeyOwner,
+  endpointId: string,
+  deliveryId: string,
+  now: Date = new Date()
+): Promise<WebhookDeliveryView> {
+  await getWebhookEndpoint(supabase, owner, endpointId)
+  const { data: original, error } = await supabase
+    .from('webhook_deliveries')
+    .select(DELIVERY_COLUMNS)
+    .eq('id', deliveryId)
+    .eq('endpoint_id', endpointId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load webhook delivery: ${error.message}`)
+  if (!original) throw new WebhookDeliveryNotFoundError(deliveryId)
+
+  const source = original as WebhookDeliveryRow
+  const { data, error: insertError } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      endpoint_id: endpointId,
+      event_id: source.event_id,
+      event_type: source.event_type,
+      status: 'pending',
+      attempts: 0,
+      redelivery_of: source.id,
+      created_at: now.toISOString()
+    })
+    .select(DELIVERY_COLUMNS)
+    .single()
+  if (insertError || !data) {
+    throw new Error(`Failed to create webhook redelivery: ${insertError?.message ?? 'no row returned'}`)
+  }
+  await ensureWebhookJob(supabase, queue, endpointId)
+  return toView(data as WebhookDeliveryRow)
+}
+
+/** Delete events, and with them their deliveries, older than the retention window. */
+export async function purgeWebhookLog(
+  supabase: SupabaseClient,
+  now: Date = new Date(),
+  retentionDays: number = WEBHOOK_LOG_RETENTION_DAYS
+): Promise<number> {
+  const cutoff = new Date(now.getTime() - retentionDays * 86_400_000).toISOString()
+  const { data, error } = await supabase
+    .from('webhook_outbox')
+    .delete()
+    .lt('created_at', cutoff)
+    .select('id')
+  if (error) throw new Error(`Failed to purge webhook events: ${error.message}`)
+  return data?.length ?? 0
+}
@@ -0,0 +1,241 @@
+import { randomBytes } from 'node:crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import type { ApiKeyOwner } from '@/lib/security/api-keys'
+import { WEBHOOK_EVENT_TYPES, type WebhookEventType } from '@/lib/webhooks/events'
+
+/** Endpoints an owner may register, enabled or not. */
+export const MAX_WEBHOOK_ENDPOINTS_PER_OWNER = 10
+
+export const WEBHOOK_SECRET_PREFIX = 'whsec_'
+
+export interface WebhookEndpointView {
+  id: string
+  url: string
+  description: string | null
+  events: WebhookEventType[]
+  enabled: boolean
+  /** Start of the signing secret, to tell secrets apart. */
+  secretPrefix: string
+  createdAt: string
+  updatedAt: string
+  disabledAt: string | null
+}
+
+interface WebhookEndpointRow {
+  id: string
+  owner_type: ApiKeyOwner['type']
+  owner_id: string
+  url: string
+  description: string | null
+  events: WebhookEventType[]
+  secret_prefix: string
+  created_at: string
+  updated_at: string
+  disabled_at: string | null
+}
+
+const ENDPOINT_COLUMNS = 'id, owner_type, owner_id, url, description, events, secret_prefix, created_at, updated_at, disabled_at'
+
+// Hosts that resolve inside our network; deliveries are made server-side
+const INTERNAL_HOSTNAME = /(^|\.)(localhost|local|internal)$/i
+const PRIVATE_IPV4 = /^(0|10|127)\.|^169\.254\.|^172\.(1[6-9]|2\d|3[01])\.|^192\.168\./
+const PRIVATE_IPV6 = /^\[(::1?|f[cd][0-9a-f]{0,2}:.*|fe[89ab][0-9a-f]?:.*|::ffff:.*)\]$/i
+
+/**
+ * Why a URL cannot receive deliveries, or null when it can: HTTPS to a public
+ * host only. This only reads the URL; each delivery also vets the addresses
+ * the host resolves to (`resolveDeliveryAddress`).
+ */
+export function webhookUrlProblem(value: string): string | null {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'Webhook URL is not a valid URL'
+  }
+  if (url.protocol !== 'https:') return 'Webhook URL must use https'
+  if (url.username || url.password) return 'Webhook URL must not contain credentials'
+  const host = url.hostname
+  if (INTERNAL_HOSTNAME.test(host) || PRIVATE_IPV4.test(host) || PRIVATE_IPV6.test(host)) {
+    return 'Webhook URL must point to a public host'
+  }
+  return null
+}
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .max(2000)
+  .superRefine((value, ctx) => {
+    const problem = webhookUrlProblem(value)
+    if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem })
+  })
+
+const eventsSchema = z
+  .array(z.enum(WEBHOOK_EVENT_TYPES))
+  .min(1)
+  .transform((events) => [...new Set(events)])
+
+export const webhookEndpointSettingsSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(200).nullable().optional(),
+  events: eventsSchema
+})
+
+export const webhookEndpointUpdateSchema = z
+  .object({
+    url: webhookUrlSchema.optional(),
+    description: z.string().trim().max(200).nullable().optional(),
+    events: eventsSchema.optional(),
+    enabled: z.boolean().optional()
+  })
+  .refine((update) => Object.values(update).some((value) => value !== undefined), 'Nothing to update')
+
+export type WebhookEndpointSettings = z.infer<typeof webhookEndpointSettingsSchema>
+export type WebhookEndpointUpdate = z.infer<typeof webhookEndpointUpdateSchema>
+
+export class WebhookEndpointNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Webhook endpoint ${id} not found`)
+    this.name = 'WebhookEndpointNotFoundError'
+  }
+}
+
+export class WebhookEndpointLimitError extends Error {
+  constructor() {
+    super(`At most ${MAX_WEBHOOK_ENDPOINTS_PER_OWNER} webhook endpoints are allowed`)
+    this.name = 'WebhookEndpointLimitError'
+  }
+}
+
+/** A new signing secret. Unlike API keys it is stored as is: deliveries are signed with it. */
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString('base64url')}`
+}
+
+function toView(row: WebhookEndpointRow): WebhookEndpointView {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description,
+    events: row.events,
+    enabled: !row.disabled_at,
+    secretPrefix: row.secret_prefix,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    disabledAt: row.disabled_at
+  }
+}
+
+async function loadOwnerEndpoints(supabase: SupabaseClient, owner: ApiKeyOwner): Promise<WebhookEndpointRow[]> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select(ENDPOINT_COLUMNS)
+    .eq('owner_type', owner.type)
+    .eq('owner_id', owner.id)
+    .order('created_at', { ascending: false })
+  if (error) {
+    throw new Error(`Failed to load webhook endpoints: ${error.message}`)
+  }
+  return (data ?? []) as WebhookEndpointRow[]
+}
+
+/** The owner's endpoints, newest first. */
+export async function listWebhookEndpoints(supabase: SupabaseClient, owner: ApiKeyOwner): Promise<WebhookEndpointView[]> {
+  return (await loadOwnerEndpoints(supabase, owner)).map(toView)
+}
+
+/** One of the owner's endpoints; other owners' endpoints are reported as missing. */
+export async function getWebhookEndpoint(
+  supabase: SupabaseClient,
+  owner: ApiKeyOwner,
+  id: string
+): Promise<WebhookEndpointView> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select(ENDPOINT_COLUMNS)
+    .eq('id', id)
+    .eq('owner_type', owner.type)
+    .eq('owner_id', owner.id)
+    .maybeSingle()
+  if (error) {
+    throw new Error(`Failed to load webhook endpoint: ${error.message}`)
+  }
+  if (!data) throw new WebhookEndpointNotFoundError(id)
+  return toView(data as WebhookEndpointRow)
+}
+
+/**
+ * Register an endpoint. The signing secret is returned once and is not shown
+ * again; deliveries carry its HMAC in `X-JudgeFinder-Signature`.
+ */
+export async function createWebhookEndpoint(
+  supabase: SupabaseClient,
+  owner: ApiKeyOwner,
+  settings: WebhookEndpointSettings,
+  { createdBy = null, now = new Date() }: { createdBy?: string | null; now?: Date } = {}
+): Promise<{ secret: string; endpoint: WebhookEndpointView }> {
+  if ((await loadOwnerEndpoints(supabase, owner)).length >= MAX_WEBHOOK_ENDPOINTS_PER_OWNER) {
+    throw new WebhookEndpointLimitError()
+  }
+  const secret = generateWebhookSecret()
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .insert({
+      owner_type: owner.type,
+      owner_id: owner.id,
+      url: settings.url,
+      description: settings.description ?? null,
+      events: settings.events,
+      secret,
+      secret_prefix: secret.slice(0, WEBHOOK_SECRET_PREFIX.length + 6),
+      created_by: createdBy,
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+      disabled_at: null
+    })
+    .select(ENDPOINT_COLUMNS)
+    .single()
+  if (error || !data) {
+    throw new Error(`Failed to create webhook endpoint: ${error?.message ?? 'no row returned'}`)
+  }
+  return { secret, endpoint: toView(data as WebhookEndpointRow) }
+}
+
+/** Change an endpoint's URL, description or events, or turn deliveries off and on. */
+export async function updateWebhookEndpoint(
+  supabase: SupabaseClient,
+  owner: ApiKeyOwner,
+  id: string,
+  update: WebhookEndpointUpdate,
+  now: Date = new Date()
+): Promise<WebhookEndpointView> {
+  const current = await getWebhookEndpoint(supabase, owner, id)
+  const changes: Record<string, unknown> = { updated_at: now.toISOString() }
+  if (update.url !== undefined) changes.url = update.url
+  if (update.description !== undefined) changes.description = update.description
+  if (update.events !== undefined) changes.events = update.events
+  if (update.enabled !== undefined && update.enabled !== current.enabled) {
+    changes.disabled_at = update.enabled ? null : now.toISOString()
+  }
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .update(changes)
+    .eq('id', id)
+    .select(ENDPOINT_COLUMNS)
+    .single()
+  if (error || !data) {
+    throw new Error(`Failed to update webhook endpoint: ${error?.message ?? 'no row returned'}`)
+  }
+  return toView(data as WebhookEndpointRow)
+}
+
+/** Remove an endpoint and its delivery log. */
+export async function deleteWebhookEndpoint(supabase: SupabaseClient, owner: ApiKeyOwner, id: string): Promise<void> {
+  await getWebhookEndpoint(supabase, owner, id)
+  const { error } = await supabase.from('webhook_endpoints').delete().eq('id', id)
+  if (error) {
+    throw new Error(`Failed to delete webhook endpoint: ${error.message}`)
+  }
+}
@@ -0,0 +1,45 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/utils/logger'
+
+/**
+ * Events subscribers can receive. `judge.reassigned` is recorded by a
+ * trigger on judge_court_positions (migration 20251019_016); the others are
+ * emitted by the code that makes the change.
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  'judge.reassigned',
+  'decision.synced',
+  'analytics.regenerated',
+  'profile_issue.resolved'
+] as const
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number]
+
+export interface WebhookEvent {
+  id: string
+  event_type: WebhookEventType
+  data: Record<string, unknown>
+  created_at: string
+}
+
+/**
+ * Record an event for delivery. Events land in the webhook_outbox table and
+ * are fanned out to subscribed endpoints by `dispatchWebhookEvents` on the
+ * next queue worker run. Failures are logged and swallowed so a webhook never
+ * fails the sync or request that caused it.
+ */
+export async function emitWebhookEvent(
+  supabase: SupabaseClient,
+  eventType: WebhookEventType,
+  data: Record<string, unknown>,
+  now: Date = new Date()
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('webhook_outbox')
+    .insert({ event_type: eventType, data, created_at: now.toISOString() })
+  if (error) {
+    logger.warn('Failed to record webhook event', { eventType, error: error.message })
+    return false
+  }
+  return true
+}
@@ -0,0 +1,13 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+/** `sha256=<hex HMAC-SHA256 of the raw body>`, the form CourtListener signs inbound events with. */
+export function signWebhookBody(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body, 'utf8').digest('hex')}`
+}
+
+/** Constant-time check of a `signWebhookBody` signature; the `sha256=` prefix is optional. */
+export function verifyWebhookBody(secret: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookBody(secret, body).slice('sha256='.length), 'hex')
+  const received = Buffer.from(signature.trim().replace(/^sha256=/, ''), 'hex')
+  return received.length === expected.length && timingSafeEqual(expected, received)
+}
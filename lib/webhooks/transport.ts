@@ -0,0 +1,123 @@
+import type { LookupAddress } from 'node:dns'
+import { lookup } from 'node:dns/promises'
+import https from 'node:https'
+import { BlockList, isIP } from 'node:net'
+
+export interface WebhookRequest {
+  method: 'POST'
+  headers: Record<string, string>
+  body: string
+  signal?: AbortSignal
+}
+
+export interface WebhookResponse {
+  status: number
+  text(): Promise<string>
+}
+
+/** Sends one delivery; injected so tests can stand in for subscriber endpoints. */
+export type WebhookTransport = (url: string, request: WebhookRequest) => Promise<WebhookResponse>
+
+type Resolver = (hostname: string) => Promise<LookupAddress[]>
+
+const MAX_RESPONSE_BYTES = 64 * 1024
+
+// Addresses inside our network or otherwise not a subscriber's server. Kept
+// apart by family: a BlockList matches IPv4 rules against IPv4-mapped IPv6
+// addresses and the other way round.
+const BLOCKED_IPV4 = new BlockList()
+const BLOCKED_IPV6 = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_IPV4.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  // IPv4-mapped and NAT64 addresses can reach any IPv4 host
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  BLOCKED_IPV6.addSubnet(network, prefix, 'ipv6')
+}
+
+/** Whether deliveries may connect to `address`: public unicast only. */
+export function isDeliverableAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 0) return false
+  return family === 4 ? !BLOCKED_IPV4.check(address, 'ipv4') : !BLOCKED_IPV6.check(address, 'ipv6')
+}
+
+const systemResolver: Resolver = (hostname) => lookup(hostname, { all: true, verbatim: true })
+
+/**
+ * Resolve the delivery host and vet every address it resolves to. A public
+ * name can point at a private or metadata address, so the registration check
+ * on the URL is not enough.
+ */
+export async function resolveDeliveryAddress(hostname: string, resolve: Resolver = systemResolver): Promise<LookupAddress> {
+  const host = hostname.replace(/^\[|\]$/g, '')
+  const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await resolve(host)
+  if (addresses.length === 0) throw new Error(`${host} did not resolve`)
+  const blocked = addresses.find((entry) => !isDeliverableAddress(entry.address))
+  if (blocked) throw new Error(`${host} resolves to a non-public address (${blocked.address})`)
+  return addresses[0]
+}
+
+/**
+ * POST over HTTPS to the vetted address. The socket connects to the address
+ * resolved above, so a second lookup cannot swap in another one, while TLS
+ * still verifies the certificate against the hostname. Redirects are not
+ * followed.
+ */
+export function createPinnedTransport(resolve: Resolver = systemResolver): WebhookTransport {
+  return async (url, request) => {
+    const target = new URL(url)
+    if (target.protocol !== 'https:') throw new Error('Webhook URL must use https')
+    const { address, family } = await resolveDeliveryAddress(target.hostname, resolve)
+
+    return new Promise<WebhookResponse>((resolveResponse, reject) => {
+      const outgoing = https.request(
+        target,
+        {
+          method: request.method,
+          headers: { ...request.headers, 'content-length': String(Buffer.byteLength(request.body)) },
+          signal: request.signal,
+          lookup: ((_hostname: string, options: { all?: boolean }, callback: (...args: unknown[]) => void) => {
+            if (options?.all) callback(null, [{ address, family }])
+            else callback(null, address, family)
+          }) as unknown as https.RequestOptions['lookup']
+        },
+        (response) => {
+          const chunks: Buffer[] = []
+          let size = 0
+          response.on('data', (chunk: Buffer) => {
+            if (size < MAX_RESPONSE_BYTES) chunks.push(chunk)
+            size += chunk.length
+          })
+          response.on('end', () => {
+            const text = Buffer.concat(chunks).toString('utf8')
+            resolveResponse({ status: response.statusCode ?? 0, text: async () => text })
+          })
+          response.on('error', reject)
+        }
+      )
+      outgoing.on('error', reject)
+      outgoing.end(request.body)
+    })
+  }
+}
+
+export const pinnedTransport = createPinnedTransport()
@@ -152,7 +152,12 @@ async function batchGenerateAnalytics() {
           
           const analyticsData = await fetchWithRetry(`${baseUrl}/api/judges/${judge.id}/analytics`, config.retries)
           const duration = Date.now() - startTime
-          
+
+          if (!analyticsData.analytics) {
+            console.log(`   ⏭️  Skipping ${judge.name} - insufficient case data (${analyticsData.insufficient_data?.reason || 'unknown'})`)
+            return { status: 'skipped', judge: judge.name, reason: 'insufficient_data' }
+          }
+
           console.log(`   ✅ Generated analytics for ${judge.name} (${duration}ms, ${analyticsData.analytics.total_cases_analyzed} cases, ${analyticsData.analytics.overall_confidence}% confidence)`)
           
           return { 
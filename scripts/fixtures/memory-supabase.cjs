@@ -0,0 +1,140 @@
+/**
+ * In-memory stand-in for the Supabase query builder, covering the calls the
+ * sync managers make. Filters compare as strings, like PostgREST query params.
+ */
+function createMemorySupabase(seed = {}) {
+  const tables = new Map(Object.entries(seed).map(([name, rows]) => [name, rows.map((row) => ({ ...row }))]))
+  let sequence = 0
+  const table = (name) => {
+    if (!tables.has(name)) tables.set(name, [])
+    return tables.get(name)
+  }
+  const same = (a, b) => a !== null && a !== undefined && String(a) === String(b)
+
+  class Query {
+    constructor(name) {
+      this.name = name
+      this.action = 'select'
+      this.filters = []
+      this.orders = []
+      this.offset = 0
+      this.limitCount = null
+      this.returning = false
+      this.head = false
+      this.singleMode = null
+    }
+
+    select(_columns, options = {}) {
+      if (this.action !== 'select') this.returning = true
+      this.head = Boolean(options.head)
+      return this
+    }
+
+    insert(rows) { this.action = 'insert'; this.payload = rows; return this }
+    upsert(rows, options = {}) { this.action = 'upsert'; this.payload = rows; this.upsertOptions = options; return this }
+    update(values) { this.action = 'update'; this.payload = values; return this }
+    delete() { this.action = 'delete'; return this }
+
+    eq(column, value) { this.filters.push((row) => same(row[column], value)); return this }
+    neq(column, value) { this.filters.push((row) => !same(row[column], value)); return this }
+    in(column, values) { this.filters.push((row) => values.some((value) => same(row[column], value))); return this }
+    is(column, value) { this.filters.push((row) => (row[column] ?? null) === value); return this }
+    not(column, operator, value) {
+      this.filters.push((row) => operator === 'is' ? (row[column] ?? null) !== value : !same(row[column], value))
+      return this
+    }
+    gt(column, value) { this.filters.push((row) => row[column] > value); return this }
+    gte(column, value) { this.filters.push((row) => row[column] >= value); return this }
+    lt(column, value) { this.filters.push((row) => row[column] < value); return this }
+    lte(column, value) { this.filters.push((row) => row[column] <= value); return this }
+    ilike(column, pattern) {
+      const regex = new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*')}$`, 'i')
+      this.filters.push((row) => regex.test(String(row[column] ?? '')))
+      return this
+    }
+    // PostgREST or-filters, e.g. 'case_number.in.("A","B"),docket_hash.eq.x,score.is.null,score.gte.0.5'
+    or(expression) {
+      const conditions = expression.match(/[^,()]+\.(?:in\.\([^)]*\)|(?:eq|is|gte)\.[^,]*)/g) || []
+      const tests = conditions.map((condition) => {
+        const [, column, operator, raw] = condition.match(/^([^.]+)\.(in|eq|is|gte)\.(.*)$/)
+        if (operator === 'is') return (row) => (row[column] ?? null) === null
+        if (operator === 'gte') return (row) => row[column] !== null && row[column] !== undefined && Number(row[column]) >= Number(raw)
+        const values = operator === 'in'
+          ? raw.slice(1, -1).split(',').map((value) => value.replace(/^"|"$/g, ''))
+          : [raw]
+        return (row) => values.some((value) => same(row[column], value))
+      })
+      this.filters.push((row) => tests.some((test) => test(row)))
+      return this
+    }
+    order(column, { ascending = true } = {}) { this.orders.push([column, ascending]); return this }
+    limit(count) { this.limitCount = count; return this }
+    range(from, to) { this.offset = from; this.limitCount = to - from + 1; return this }
+    single() { this.singleMode = 'single'; return this }
+    maybeSingle() { this.singleMode = 'maybe'; return this }
+
+    then(resolve, reject) {
+      return Promise.resolve().then(() => this.execute()).then(resolve, reject)
+    }
+
+    matching() {
+      return table(this.name).filter((row) => this.filters.every((filter) => filter(row)))
+    }
+
+    insertRow(row) {
+      const stored = { id: `${this.name}-${String(++sequence).padStart(6, '0')}`, ...row }
+      table(this.name).push(stored)
+      return stored
+    }
+
+    execute() {
+      let rows
+      switch (this.action) {
+        case 'insert':
+          rows = [].concat(this.payload).map((row) => this.insertRow(row))
+          break
+        case 'upsert': {
+          const columns = (this.upsertOptions.onConflict || 'id').split(',').map((column) => column.trim())
+          rows = []
+          for (const row of [].concat(this.payload)) {
+            const existing = table(this.name).find((candidate) => columns.every((column) => same(candidate[column], row[column])))
+            if (existing && this.upsertOptions.ignoreDuplicates) continue
+            rows.push(existing ? Object.assign(existing, row) : this.insertRow(row))
+          }
+          break
+        }
+        case 'update':
+          rows = this.matching().map((row) => Object.assign(row, this.payload))
+          break
+        case 'delete':
+          rows = this.matching()
+          tables.set(this.name, table(this.name).filter((row) => !rows.includes(row)))
+          break
+        default: {
+          rows = this.matching()
+          for (const [column, ascending] of [...this.orders].reverse()) {
+            rows = [...rows].sort((a, b) => (a[column] > b[column] ? 1 : a[column] < b[column] ? -1 : 0) * (ascending ? 1 : -1))
+          }
+          if (this.head) return { data: null, count: rows.length, error: null }
+          rows = rows.slice(this.offset, this.limitCount === null ? undefined : this.offset + this.limitCount)
+        }
+      }
+
+      const data = this.action === 'select' || this.returning ? rows.map((row) => ({ ...row })) : null
+      if (this.singleMode && data) {
+        if (data.length === 1) return { data: data[0], error: null }
+        if (data.length === 0 && this.singleMode === 'maybe') return { data: null, error: null }
+        return { data: null, error: { code: 'PGRST116', message: `Expected one ${this.name} row, found ${data.length}` } }
+      }
+      return { data, error: null, count: data ? data.length : null }
+    }
+  }
+
+  return {
+    tables,
+    from: (name) => new Query(name),
+    rpc: async () => ({ data: null, error: null })
+  }
+}
+
+module.exports = { createMemorySupabase }
@@ -0,0 +1,392 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const fixtures = require('./fixtures/analytics-classifier-cases.json')
+const {
+  classifyCase,
+  classifyMotionSubtype,
+  classifyOutcome,
+  evaluateMetrics,
+  getMetricClassifiers,
+  isMotionGranted,
+  mentionsMotion,
+  tallyCases,
+  toCaseText
+} = require('../lib/analytics/classifiers')
+const {
+  buildMetricBaseline,
+  buildPeerPopulation,
+  caseTypeStratum,
+  extractCountyName,
+  peerBaseline,
+  peerOutcomePriors
+} = require('../lib/analytics/metric-baselines')
+const { computeAdjustedMetrics } = require('../lib/analytics/adjusted-metrics')
+const { computePosteriorEstimates } = require('../lib/analytics/posterior-metrics')
+const { DEFAULT_PRIOR_STRENGTH, estimateBetaPrior, posteriorFor } = require('../lib/analytics/shrinkage')
+const { betaCdf, betaQuantile } = require('../lib/analytics/statistics')
+const { analyzeTrends } = require('../lib/analytics/trends')
+const { buildInsufficientDataReport, selectNextSync } = require('../lib/analytics/insufficient-data')
+const { validateAndNormalizeAnalytics } = require('../lib/ai/judicial-analytics')
+const { hasCurrentAnalyticsFormat, isSyntheticAnalytics } = require('../lib/analytics/snapshots')
+
+function sorted(values) {
+  return [...values].sort()
+}
+
+function testFixtureClassification() {
+  for (const fixture of fixtures) {
+    const { included, succeeded } = classifyCase(fixture.case)
+    assert.deepEqual(sorted(included), sorted(fixture.included), `${fixture.name}: included metrics`)
+    assert.deepEqual(sorted(succeeded), sorted(fixture.succeeded), `${fixture.name}: succeeded metrics`)
+  }
+}
+
+function testRegistry() {
+  const classifiers = getMetricClassifiers()
+  assert.equal(classifiers.length, 10)
+  for (const classifier of classifiers) {
+    assert.ok(classifier.minSample > 0, `${classifier.key} declares a minimum sample`)
+    assert.equal(typeof classifier.includes, 'function')
+    assert.equal(typeof classifier.succeeds, 'function')
+  }
+}
+
+function testTallies() {
+  const tallies = tallyCases(fixtures.map((fixture) => fixture.case))
+  for (const [key, tally] of Object.entries(tallies)) {
+    const expectedTotal = fixtures.filter((fixture) => fixture.included.includes(key)).length
+    const expectedSuccesses = fixtures.filter((fixture) => fixture.succeeded.includes(key)).length
+    assert.equal(tally.total, expectedTotal, `${key} total`)
+    assert.equal(tally.successes, expectedSuccesses, `${key} successes`)
+  }
+}
+
+function testEvaluateMetrics() {
+  const empty = evaluateMetrics([])
+  assert.deepEqual(
+    { percentage: empty.civil.percentage, confidence: empty.civil.confidence, sample: empty.civil.sample, sufficient: empty.civil.sufficient },
+    { percentage: null, confidence: 0, sample: 0, sufficient: false }
+  )
+
+  const civilWin = fixtures[0].case
+  const civilLoss = fixtures[1].case
+  const cases = [...Array(12).fill(civilWin), ...Array(4).fill(civilLoss)]
+  const { civil } = evaluateMetrics(cases)
+  assert.equal(civil.total, 16)
+  assert.equal(civil.percentage, 75)
+  assert.equal(civil.confidence, 75)
+  assert.equal(civil.sufficient, true)
+
+  const thin = evaluateMetrics(cases.slice(0, 14)).civil
+  assert.equal(thin.sufficient, false)
+}
+
+function testMotionHelpers() {
+  const partial = toCaseText({ outcome: 'MTN to dismiss granted in part', summary: null })
+  assert.equal(mentionsMotion(partial), true)
+  assert.equal(isMotionGranted(partial), true)
+  assert.equal(classifyMotionSubtype(partial), 'dismiss')
+
+  const summaryJudgment = toCaseText({ outcome: 'Denied', summary: 'Motion for summary judgment' })
+  assert.equal(classifyMotionSubtype(summaryJudgment), 'summary_judgment')
+  assert.equal(isMotionGranted(summaryJudgment), false)
+
+  assert.equal(mentionsMotion(toCaseText({ outcome: 'Settled' })), false)
+}
+
+function testClassifyOutcome() {
+  assert.equal(classifyOutcome('Settled before trial'), 'settled')
+  assert.equal(classifyOutcome('Dismissed with prejudice'), 'dismissed')
+  assert.equal(classifyOutcome('Motion granted'), 'judgment')
+  assert.equal(classifyOutcome('Continued'), 'other')
+  assert.equal(classifyOutcome(null), 'other')
+}
+
+function civilCases(caseType, plaintiffWins, total) {
+  return Array.from({ length: total }, (_, index) => ({
+    case_type: caseType,
+    outcome: index < plaintiffWins ? 'Judgment for Plaintiff' : 'Judgment for Defendant'
+  }))
+}
+
+function findMetric(results, key) {
+  return results.find((result) => result.metric === key)
+}
+
+function testBaselineHelpers() {
+  assert.equal(caseTypeStratum('  Civil -  Unlawful Detainer '), 'civil - unlawful detainer')
+  assert.equal(caseTypeStratum(null), 'unspecified')
+  assert.equal(extractCountyName('Superior Court of California, County of Orange'), 'Orange')
+  assert.equal(extractCountyName('Superior Court of Los Angeles County'), 'Los Angeles')
+  assert.equal(extractCountyName('U.S. District Court for the Central District of California'), null)
+}
+
+function testCaseMixAdjustment() {
+  const court = buildMetricBaseline('court', 'Test Superior Court', [
+    ...civilCases('Civil - Unlawful Detainer', 90, 100),
+    ...civilCases('Civil', 40, 100)
+  ])
+
+  // Mostly unlawful detainers: a high raw plaintiff rate is expected for this mix
+  const detainerJudge = [...civilCases('Civil - Unlawful Detainer', 34, 40), ...civilCases('Civil', 2, 5)]
+  const adjusted = findMetric(computeAdjustedMetrics(detainerJudge, [court]), 'civil')
+  assert.equal(adjusted.baseline_scope, 'court')
+  assert.equal(adjusted.judge_rate, 80)
+  assert.equal(adjusted.expected_rate, 84.4)
+  assert.equal(adjusted.deviation, -4.4)
+  assert.equal(adjusted.significant, false)
+  assert.equal(adjusted.case_types, 2)
+
+  const generalJudge = civilCases('Civil', 36, 40)
+  const deviating = findMetric(computeAdjustedMetrics(generalJudge, [court]), 'civil')
+  assert.equal(deviating.expected_rate, 40)
+  assert.equal(deviating.significant, true)
+  assert.ok(deviating.ci_lower > 0 && deviating.ci_upper > deviating.ci_lower)
+
+  const untouched = findMetric(computeAdjustedMetrics(generalJudge, [court]), 'custody')
+  assert.equal(untouched.deviation, null)
+  assert.equal(untouched.judge_sample_size, 0)
+}
+
+function testBaselineFallback() {
+  const thinCourt = buildMetricBaseline('court', 'Small Court', civilCases('Civil', 3, 5))
+  const state = buildMetricBaseline('state', 'CA', civilCases('Civil', 100, 200))
+  const result = findMetric(computeAdjustedMetrics(civilCases('Civil', 10, 20), [thinCourt, state]), 'civil')
+  assert.equal(result.baseline_scope, 'state')
+  assert.equal(result.baseline_sample_size, 200)
+
+  const noBaseline = findMetric(computeAdjustedMetrics(civilCases('Civil', 10, 20), [thinCourt]), 'civil')
+  assert.equal(noBaseline.baseline_scope, null)
+  assert.equal(noBaseline.judge_rate, 50)
+  assert.equal(noBaseline.deviation, null)
+}
+
+function testPeerBaselineExcludesJudge() {
+  const assign = (judgeId, records) => records.map((record) => ({ ...record, judge_id: judgeId }))
+  const peers = [
+    ...assign('judge-a', civilCases('Civil', 8, 12)),
+    ...assign('judge-b', civilCases('Family Law', 3, 10)),
+    ...assign('judge-c', civilCases('Civil', 6, 11)),
+    ...assign(null, civilCases('Civil', 2, 4))
+  ]
+  const own = assign('judge-x', [...civilCases('Civil', 20, 20), ...civilCases('Probate', 1, 5)])
+  const population = buildPeerPopulation('court', 'Test Superior Court', [...own, ...peers])
+
+  const baseline = peerBaseline(population, 'judge-x')
+  const expected = buildMetricBaseline('court', 'Test Superior Court', peers)
+  assert.equal(baseline.sample_size, expected.sample_size)
+  assert.deepEqual(baseline.totals, expected.totals)
+  assert.deepEqual(baseline.priors, expected.priors)
+  for (const [stratum, tallies] of Object.entries(expected.by_case_type)) {
+    assert.deepEqual(baseline.by_case_type[stratum], tallies, `${stratum} tallies`)
+  }
+  assert.equal(baseline.by_case_type.probate.civil.total, 0, "the judge's own stratum is emptied")
+
+  // The same cached population serves every judge in the scope
+  assert.equal(peerBaseline(population, 'judge-a').totals.civil.total, population.totals.civil.total - 12)
+  assert.equal(peerBaseline(buildPeerPopulation('court', 'Solo', own), 'judge-x'), null)
+}
+
+function testPeerOutcomePriors() {
+  const outcomes = (judgeId, settled, dismissed, total) =>
+    [...Array(total).keys()].map((index) => ({
+      judge_id: judgeId,
+      case_type: 'Civil',
+      outcome: index < settled ? 'Settled' : index < settled + dismissed ? 'Dismissed' : 'Judgment for Plaintiff'
+    }))
+  const peers = [...outcomes('judge-a', 4, 2, 10), ...outcomes('judge-b', 6, 1, 12), ...outcomes('judge-c', 3, 3, 9)]
+  const own = outcomes('judge-x', 30, 0, 30)
+  const population = buildPeerPopulation('court', 'Test Superior Court', [...own, ...peers])
+
+  const priors = peerOutcomePriors(population, 'judge-x')
+  const peerOnly = peerOutcomePriors(buildPeerPopulation('court', 'Test Superior Court', peers), 'judge-x')
+  assert.deepEqual(priors, peerOnly, "the judge's own cases do not shape their priors")
+  assert.equal(priors.settlement.judges, 3)
+  assert.equal(priors.settlement.mean, 13 / 31)
+
+  // Too few peers to fit a spread: fall back to the peers' pooled rate, then to uniform
+  const thin = peerOutcomePriors(buildPeerPopulation('court', 'Small Court', [...own, ...outcomes('judge-a', 1, 1, 4)]), 'judge-x')
+  assert.equal(thin.settlement.source, 'default')
+  assert.equal(thin.settlement.mean, 0.25)
+  assert.equal(peerOutcomePriors(buildPeerPopulation('court', 'Solo', own), 'judge-x').settlement.source, 'uninformative')
+  assert.equal(peerOutcomePriors(null, 'judge-x').dismissal.source, 'uninformative')
+}
+
+function testBetaDistribution() {
+  assert.ok(Math.abs(betaCdf(0.5, 2, 3) - 0.6875) < 1e-9)
+  assert.ok(Math.abs(betaQuantile(0.975, 1, 1) - 0.975) < 1e-6)
+  assert.ok(Math.abs(betaQuantile(0.025, 6, 16) - 0.1128) < 1e-3)
+}
+
+function testBetaPrior() {
+  const identical = estimateBetaPrior([
+    { total: 20, successes: 10 },
+    { total: 20, successes: 10 },
+    { total: 20, successes: 10 }
+  ])
+  assert.equal(identical.source, 'empirical')
+  assert.equal(identical.mean, 0.5)
+  assert.equal(identical.strength, 200)
+
+  const spread = estimateBetaPrior([
+    { total: 50, successes: 5 },
+    { total: 50, successes: 45 },
+    { total: 50, successes: 25 }
+  ])
+  assert.ok(spread.strength < 5, 'widely differing judges give a weak prior')
+
+  const fewPeers = estimateBetaPrior([{ total: 10, successes: 3 }])
+  assert.equal(fewPeers.source, 'default')
+  assert.equal(fewPeers.strength, DEFAULT_PRIOR_STRENGTH)
+  assert.equal(estimateBetaPrior([]), null)
+}
+
+function testPosterior() {
+  const prior = { mean: 0.4, strength: 20, judges: 10, source: 'empirical' }
+  const empty = posteriorFor({ total: 0, successes: 0 }, prior)
+  assert.ok(Math.abs(empty.mean - 0.4) < 1e-9)
+  assert.equal(empty.shrinkage, 1)
+
+  const small = posteriorFor({ total: 5, successes: 5 }, prior)
+  assert.ok(small.mean > 0.4 && small.mean < 0.6, 'five wins are pulled toward the prior')
+  assert.ok(small.lower < small.mean && small.mean < small.upper)
+
+  const large = posteriorFor({ total: 2000, successes: 1800 }, prior)
+  assert.ok(Math.abs(large.mean - 0.9) < 0.01, 'large samples converge on the raw rate')
+  assert.ok(large.upper - large.lower < small.upper - small.lower)
+}
+
+function testPosteriorEstimates() {
+  const peers = ['a', 'b', 'c', 'd'].flatMap((judgeId, index) =>
+    civilCases('Civil', 8 + index * 2, 20).map((record) => ({ ...record, judge_id: judgeId }))
+  )
+  const court = buildMetricBaseline('court', 'Test Superior Court', peers)
+  assert.equal(court.priors.civil.judges, 4)
+
+  const [civil] = computePosteriorEstimates(civilCases('Civil', 5, 5), [court]).filter((entry) => entry.metric === 'civil')
+  assert.equal(civil.raw_rate, 100)
+  assert.equal(civil.prior_scope, 'court')
+  assert.ok(civil.posterior_mean < 100 && civil.posterior_mean > civil.prior_mean)
+  assert.ok(civil.credible_lower < civil.posterior_mean && civil.posterior_mean < civil.credible_upper)
+
+  const [custody] = computePosteriorEstimates([], [court]).filter((entry) => entry.metric === 'custody')
+  assert.equal(custody.prior_source, 'uninformative')
+  assert.equal(custody.raw_rate, null)
+  assert.equal(custody.posterior_mean, 50)
+}
+
+function datedCivilCases(year, plaintiffWins, total) {
+  return civilCases('Civil', plaintiffWins, total).map((record, index) => ({
+    ...record,
+    decision_date: `${year}-${String((index % 12) + 1).padStart(2, '0')}-15`
+  }))
+}
+
+function testTrends() {
+  const cases = [...datedCivilCases(2022, 5, 24), ...datedCivilCases(2023, 20, 24)]
+  const report = analyzeTrends(cases, [{ date: '2023-01-03', label: 'Judge, Test Superior Court' }], 6)
+
+  const all = report.series.find((series) => series.case_type === 'all')
+  assert.deepEqual(all.metrics, ['civil'])
+  assert.equal(all.points.length, 24)
+  assert.equal(all.points[0].month, '2022-01')
+  assert.equal(all.points[0].rates.civil, null, 'windows below the minimum sample have no rate')
+
+  const event = report.change_points.find((point) => point.kind === 'event' && point.case_type === 'all')
+  assert.equal(event.month, '2023-01')
+  assert.equal(event.before_cases, 24)
+  assert.ok(event.after_rate > event.before_rate)
+  assert.ok(event.p_value < 0.05)
+  assert.ok(report.change_points.some((point) => point.kind === 'detected'))
+
+  const flat = analyzeTrends([...datedCivilCases(2022, 12, 24), ...datedCivilCases(2023, 12, 24)])
+  assert.equal(flat.change_points.length, 0)
+}
+
+function testInsufficientData() {
+  const judge = { id: 'judge-1', jurisdiction: 'CA' }
+  const jobs = [
+    { id: 'nv', type: 'decision', status: 'pending', options: { jurisdiction: 'NV' }, scheduled_for: '2025-01-01T00:00:00Z' },
+    { id: 'judges', type: 'judge', status: 'pending', options: {}, scheduled_for: '2025-01-01T01:00:00Z' },
+    { id: 'other', type: 'decision', status: 'pending', options: { judgeIds: ['judge-2'] }, scheduled_for: '2025-01-01T02:00:00Z' },
+    { id: 'ca', type: 'decision', status: 'pending', options: { jurisdiction: 'CA' }, scheduled_for: '2025-01-02T00:00:00Z' },
+    { id: 'mine', type: 'decision', status: 'pending', options: { judgeIds: ['judge-1'] }, scheduled_for: '2025-01-02T00:00:00Z' }
+  ]
+  const next = selectNextSync(jobs, judge)
+  assert.equal(next.job_id, 'mine')
+  assert.equal(next.targets_judge, true)
+  assert.equal(selectNextSync(jobs.slice(0, 3), judge), null)
+
+  const running = selectNextSync(
+    [{ id: 'full', type: 'full', status: 'running', options: null, scheduled_for: '2025-01-01T00:00:00Z', started_at: '2025-01-01T00:05:00Z' }],
+    judge
+  )
+  assert.equal(running.expected_at, '2025-01-01T00:05:00Z')
+
+  const report = buildInsufficientDataReport({
+    reason: 'no_cases_in_window',
+    casesFound: 0,
+    lookbackYears: 5,
+    windowStart: '2020-01-01',
+    nextSync: next
+  })
+  assert.equal(report.status, 'insufficient_data')
+  assert.equal(report.next_sync, next)
+  assert.ok(report.missing.length > 0)
+  assert.equal(report.corrections.event, 'open-report-profile-issue')
+}
+
+function testCachedAnalyticsFormat() {
+  // A judge with no civil cases in the window caches confidence 0, which is still the current format
+  const noCivilCases = evaluateMetrics([])
+  const cached = { confidence_civil: noCivilCases.civil.confidence, civil_plaintiff_favor: noCivilCases.civil.percentage, ai_model: 'statistical_analysis_3year' }
+  assert.equal(cached.confidence_civil, 0)
+  assert.equal(hasCurrentAnalyticsFormat(cached), true)
+  assert.equal(isSyntheticAnalytics(cached), false)
+  assert.equal(hasCurrentAnalyticsFormat({ civil_plaintiff_favor: 50 }), false, 'payloads from before confidence fields are regenerated')
+  assert.equal(hasCurrentAnalyticsFormat(null), false)
+}
+
+function testAiMetricNormalization() {
+  const partial = validateAndNormalizeAnalytics({ civil_plaintiff_favor: 0, criminal_plea_acceptance: '120' }, 12)
+  assert.equal(partial.civil_plaintiff_favor, 5)
+  assert.equal(partial.civil_defendant_favor, 95)
+  assert.equal(partial.criminal_plea_acceptance, 95)
+  for (const metric of ['family_custody_mother', 'family_custody_father', 'contract_enforcement_rate', 'contract_dismissal_rate']) {
+    assert.equal(partial[metric], null, `${metric} is not invented when the model omits it`)
+  }
+  assert.equal(partial.confidence_civil, null)
+  assert.equal(partial.overall_confidence, null)
+  assert.equal(validateAndNormalizeAnalytics({ criminal_sentencing_severity: 'n/a' }, 1).criminal_sentencing_severity, null)
+}
+
+function run() {
+  testFixtureClassification()
+  testRegistry()
+  testTallies()
+  testEvaluateMetrics()
+  testMotionHelpers()
+  testClassifyOutcome()
+  testBaselineHelpers()
+  testCaseMixAdjustment()
+  testBaselineFallback()
+  testPeerBaselineExcludesJudge()
+  testPeerOutcomePriors()
+  testBetaDistribution()
+  testBetaPrior()
+  testPosterior()
+  testPosteriorEstimates()
+  testTrends()
+  testInsufficientData()
+  testAiMetricNormalization()
+  testCachedAnalyticsFormat()
+
+  console.log(`✓ analytics classifiers verified against ${fixtures.length} fixtures`)
+}
+
+run()
@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+
+const {
+  API_KEY_PREFIX,
+  ApiKeyLimitError,
+  ApiKeyNotFoundError,
+  DEFAULT_MONTHLY_QUOTA,
+  MAX_ACTIVE_KEYS_PER_OWNER,
+  apiKeySettingsSchema,
+  authenticateApiKey,
+  createApiKey,
+  generateApiKey,
+  hashApiKey,
+  isCustomerApiKey,
+  listApiKeys,
+  meterApiKeyRequest,
+  revokeApiKey,
+  rotateApiKey,
+  usagePeriod
+} = require('../lib/security/api-keys')
+const { createMemorySupabase } = require('./fixtures/memory-supabase.cjs')
+
+const NOW = new Date('2025-10-19T12:00:00Z')
+const USER = { type: 'user', id: 'user_123' }
+const ORG = { type: 'organization', id: 'org_456' }
+
+function hoursLater(hours) {
+  return new Date(NOW.getTime() + hours * 3_600_000)
+}
+
+/** Mirrors consume_api_key_request: refuse without counting once the quota is used up. */
+function withMeter(supabase) {
+  supabase.rpc = async (name, { p_key_id: keyId, p_endpoint: endpoint }) => {
+    assert.equal(name, 'consume_api_key_request')
+    const key = supabase.tables.get('api_keys').find((row) => row.id === keyId)
+    if (!key) return { data: [], error: null }
+    const period = usagePeriod(NOW)
+    if (!supabase.tables.has('api_key_usage')) supabase.tables.set('api_key_usage', [])
+    const usage = supabase.tables.get('api_key_usage')
+    const used = usage.filter((row) => row.api_key_id === keyId && row.period_start === period).reduce((sum, row) => sum + row.request_count, 0)
+    if (key.monthly_quota !== null && used >= key.monthly_quota) {
+      return { data: [{ allowed: false, used, quota: key.monthly_quota }], error: null }
+    }
+    const existing = usage.find((row) => row.api_key_id === keyId && row.period_start === period && row.endpoint === endpoint)
+    if (existing) existing.request_count++
+    else usage.push({ api_key_id: keyId, period_start: period, endpoint, request_count: 1 })
+    key.last_used_at = NOW.toISOString()
+    return { data: [{ allowed: true, used: used + 1, quota: key.monthly_quota }], error: null }
+  }
+  return supabase
+}
+
+async function testKeyFormat() {
+  const first = generateApiKey()
+  const second = generateApiKey()
+  assert.ok(first.key.startsWith(API_KEY_PREFIX))
+  assert.notEqual(first.key, second.key)
+  assert.equal(first.prefix, first.key.slice(0, API_KEY_PREFIX.length + 6))
+  assert.equal(first.hash, hashApiKey(first.key))
+  assert.match(first.hash, /^[0-9a-f]{64}$/)
+  assert.ok(isCustomerApiKey(first.key))
+  assert.ok(!isCustomerApiKey('legacy-shared-key'))
+
+  assert.equal(usagePeriod(new Date('2025-02-28T23:59:59Z')), '2025-02-01')
+
+  const parsed = apiKeySettingsSchema.parse({ name: '  Integration ', scopes: ['export', 'export', 'judges:read'] })
+  assert.deepEqual(parsed, { name: 'Integration', scopes: ['export', 'judges:read'] })
+  assert.ok(!apiKeySettingsSchema.safeParse({ name: 'x', scopes: [] }).success)
+  assert.ok(!apiKeySettingsSchema.safeParse({ name: 'x', scopes: ['admin'] }).success)
+}
+
+async function testLifecycle() {
+  const supabase = withMeter(createMemorySupabase())
+
+  const created = await createApiKey(supabase, USER, { name: 'CMS', scopes: ['judges:read'] }, { createdBy: 'user_123', now: NOW })
+  const [stored] = supabase.tables.get('api_keys')
+  assert.equal(stored.key_hash, hashApiKey(created.key), 'only the hash is stored')
+  assert.ok(!Object.values(stored).includes(created.key))
+  assert.equal(created.apiKey.status, 'active')
+  assert.equal(created.apiKey.monthlyQuota, DEFAULT_MONTHLY_QUOTA)
+
+  await createApiKey(supabase, ORG, { name: 'Firm', scopes: ['analytics:read'] }, { now: NOW })
+  assert.deepEqual((await listApiKeys(supabase, USER, NOW)).map((key) => key.name), ['CMS'], 'owners only see their own keys')
+
+  await assert.rejects(revokeApiKey(supabase, ORG, created.apiKey.id, NOW), ApiKeyNotFoundError)
+  await assert.rejects(rotateApiKey(supabase, ORG, created.apiKey.id, { now: NOW }), ApiKeyNotFoundError)
+
+  const rotated = await rotateApiKey(supabase, USER, created.apiKey.id, { createdBy: 'user_123', now: hoursLater(1) })
+  assert.notEqual(rotated.key, created.key)
+  assert.deepEqual(rotated.apiKey.scopes, ['judges:read'])
+  const afterRotation = await listApiKeys(supabase, USER, hoursLater(1))
+  assert.deepEqual(afterRotation.map((key) => key.status), ['active', 'expiring'])
+  assert.equal(afterRotation[1].expiresAt, hoursLater(25).toISOString())
+  assert.equal(supabase.tables.get('api_keys').find((row) => row.id === rotated.apiKey.id).rotated_from, created.apiKey.id)
+
+  const during = await authenticateApiKey(supabase, created.key, 'judges:read', hoursLater(23))
+  assert.ok(during.ok, 'the old key works during the grace period')
+  assert.deepEqual(
+    await authenticateApiKey(supabase, created.key, 'judges:read', hoursLater(26)),
+    { ok: false, status: 401, error: 'Invalid or revoked API key' }
+  )
+  await assert.rejects(rotateApiKey(supabase, USER, created.apiKey.id, { now: hoursLater(26) }), ApiKeyNotFoundError, 'expired keys cannot be rotated')
+
+  const revoked = await revokeApiKey(supabase, USER, rotated.apiKey.id, hoursLater(2))
+  assert.equal(revoked.status, 'revoked')
+  assert.equal((await revokeApiKey(supabase, USER, rotated.apiKey.id, hoursLater(3))).revokedAt, hoursLater(2).toISOString(), 'revoking twice keeps the first time')
+  assert.equal((await authenticateApiKey(supabase, rotated.key, 'judges:read', hoursLater(3))).status, 401)
+}
+
+async function testKeyLimit() {
+  const supabase = createMemorySupabase()
+  const keys = []
+  for (let index = 0; index < MAX_ACTIVE_KEYS_PER_OWNER; index++) {
+    keys.push(await createApiKey(supabase, USER, { name: `Key ${index}`, scopes: ['judges:read'] }, { now: NOW }))
+  }
+  await assert.rejects(createApiKey(supabase, USER, { name: 'One more', scopes: ['judges:read'] }, { now: NOW }), ApiKeyLimitError)
+  await createApiKey(supabase, ORG, { name: 'Other owner', scopes: ['judges:read'] }, { now: NOW })
+
+  await revokeApiKey(supabase, USER, keys[0].apiKey.id, NOW)
+  await createApiKey(supabase, USER, { name: 'Replacement', scopes: ['judges:read'] }, { now: NOW })
+}
+
+async function testAuthenticateAndMeter() {
+  const supabase = withMeter(createMemorySupabase())
+  const { key, apiKey } = await createApiKey(supabase, ORG, { name: 'Firm', scopes: ['judges:read', 'analytics:read'] }, { now: NOW })
+
+  const authenticated = await authenticateApiKey(supabase, key, 'analytics:read', NOW)
+  assert.deepEqual(authenticated, {
+    ok: true,
+    key: { id: apiKey.id, owner: ORG, scopes: ['judges:read', 'analytics:read'], rateLimitPerMinute: 60, monthlyQuota: DEFAULT_MONTHLY_QUOTA }
+  })
+  assert.deepEqual(await authenticateApiKey(supabase, key, 'export', NOW), { ok: false, status: 403, error: 'API key lacks the export scope' })
+  assert.equal((await authenticateApiKey(supabase, `${API_KEY_PREFIX}unknown`, 'judges:read', NOW)).status, 401)
+
+  supabase.tables.get('api_keys')[0].monthly_quota = 3
+  assert.deepEqual(await meterApiKeyRequest(supabase, apiKey.id, 'judges.search'), { allowed: true, used: 1, quota: 3 })
+  await meterApiKeyRequest(supabase, apiKey.id, 'judges.search')
+  await meterApiKeyRequest(supabase, apiKey.id, 'compare')
+  assert.deepEqual(await meterApiKeyRequest(supabase, apiKey.id, 'compare'), { allowed: false, used: 3, quota: 3 }, 'over quota is refused')
+  assert.equal(await meterApiKeyRequest(supabase, 'missing', 'compare'), null)
+
+  const [listed] = await listApiKeys(supabase, ORG, NOW)
+  assert.deepEqual(listed.usage, {
+    month: 3,
+    byEndpoint: [{ endpoint: 'judges.search', requests: 2 }, { endpoint: 'compare', requests: 1 }]
+  })
+  assert.equal(listed.lastUsedAt, NOW.toISOString())
+
+  supabase.tables.get('api_key_usage').push({ api_key_id: apiKey.id, period_start: '2025-09-01', endpoint: 'compare', request_count: 50 })
+  assert.equal((await listApiKeys(supabase, ORG, NOW))[0].usage.month, 3, 'earlier months do not count')
+}
+
+async function run() {
+  await testKeyFormat()
+  await testLifecycle()
+  await testKeyLimit()
+  await testAuthenticateAndMeter()
+
+  console.log('✓ API key store, rotation and metering verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
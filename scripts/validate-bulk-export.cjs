@@ -0,0 +1,366 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+
+const { DATASETS, resolveExportFields } = require('../lib/export/datasets')
+const { createExportEncoder, csvField, csvRecord } = require('../lib/export/formats')
+const {
+  EXPORT_BATCH_SIZE,
+  decodeExportCursor,
+  encodeExportCursor,
+  planExportPage,
+  streamExport
+} = require('../lib/export/service')
+const {
+  ExportJobNotFoundError,
+  createExportJob,
+  getExportJob,
+  purgeExpiredExports,
+  runExportJob,
+  streamExportDownload
+} = require('../lib/export/jobs')
+const { v1ExportJobRequestSchema, v1ExportQuerySchema } = require('../lib/api/v1-schemas')
+const { createMemorySupabase } = require('./fixtures/memory-supabase.cjs')
+
+const NOW = new Date('2025-10-19T12:00:00Z')
+const OWNER = { type: 'user', id: 'user_123' }
+const JUDGE_COUNT = 2500
+
+function judgeRows() {
+  return Array.from({ length: JUDGE_COUNT }, (_, index) => ({
+    id: `judge-${String(index + 1).padStart(5, '0')}`,
+    name: index === 0 ? 'Hon. "Ann" Smith, Jr.' : `Judge ${index + 1}`,
+    slug: `judge-${index + 1}`,
+    court_name: index % 3 === 0 ? null : 'Superior Court\nof Orange',
+    jurisdiction: 'CA',
+    total_cases: index % 5 === 0 ? null : index,
+    aliases: index === 0 ? ['A. Smith'] : [],
+    appointed_date: '2010-06-01',
+    updated_at: index < 2000 ? '2025-01-01T00:00:00Z' : '2025-10-01T00:00:00Z'
+  }))
+}
+
+async function readAll(stream) {
+  const chunks = []
+  const reader = stream.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(Buffer.from(value))
+  }
+  return Buffer.concat(chunks)
+}
+
+/** Thrift compact-protocol reader, enough to walk Parquet metadata and page headers. */
+function compactReader(buffer, start = 0) {
+  let offset = start
+  const byte = () => buffer[offset++]
+  const varint = () => {
+    let result = 0
+    let multiplier = 1
+    for (;;) {
+      const b = byte()
+      result += (b & 0x7f) * multiplier
+      if (b < 0x80) return result
+      multiplier *= 128
+    }
+  }
+  const zigzag = () => {
+    const value = varint()
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2
+  }
+  const value = (type) => {
+    switch (type) {
+      case 1: return true
+      case 2: return false
+      case 5:
+      case 6: return zigzag()
+      case 8: {
+        const length = varint()
+        const data = buffer.subarray(offset, offset + length)
+        offset += length
+        return data.toString('utf8')
+      }
+      case 9: {
+        const header = byte()
+        const size = header >> 4 === 15 ? varint() : header >> 4
+        return Array.from({ length: size }, () => value(header & 0x0f))
+      }
+      case 12: return struct()
+      default: throw new Error(`Unexpected compact type ${type}`)
+    }
+  }
+  const struct = () => {
+    const fields = {}
+    let last = 0
+    for (;;) {
+      const header = byte()
+      if (header === 0) return fields
+      const delta = header >> 4
+      const id = delta ? last + delta : zigzag()
+      fields[id] = value(header & 0x0f)
+      last = id
+    }
+  }
+  return { struct, get offset() { return offset } }
+}
+
+function readParquetMetadata(file) {
+  assert.equal(file.subarray(0, 4).toString(), 'PAR1')
+  assert.equal(file.subarray(file.length - 4).toString(), 'PAR1')
+  const metadataLength = file.readUInt32LE(file.length - 8)
+  return compactReader(file, file.length - 8 - metadataLength).struct()
+}
+
+/** Decodes one OPTIONAL column chunk written as a single PLAIN data page. */
+function readColumnChunk(file, chunk, physicalType) {
+  const reader = compactReader(file, chunk[2])
+  const header = reader.struct()
+  let offset = reader.offset
+  const rows = header[5][1]
+  const levelsEnd = offset + 4 + file.readUInt32LE(offset)
+  offset += 4
+  const present = []
+  while (offset < levelsEnd) {
+    let runHeader = 0
+    let multiplier = 1
+    for (;;) {
+      const b = file[offset++]
+      runHeader += (b & 0x7f) * multiplier
+      if (b < 0x80) break
+      multiplier *= 128
+    }
+    assert.equal(runHeader % 2, 0, 'definition levels are RLE runs')
+    const level = file[offset++]
+    for (let i = 0; i < runHeader / 2; i++) present.push(level === 1)
+  }
+  assert.equal(present.length, rows)
+
+  return present.map((isPresent) => {
+    if (!isPresent) return null
+    if (physicalType === 6) {
+      const length = file.readUInt32LE(offset)
+      const text = file.subarray(offset + 4, offset + 4 + length).toString('utf8')
+      offset += 4 + length
+      return text
+    }
+    const number = Number(file.readBigInt64LE(offset))
+    offset += 8
+    return number
+  })
+}
+
+function testCsv() {
+  assert.equal(csvField(null), '')
+  assert.equal(csvField('plain'), 'plain')
+  assert.equal(csvField('a,b'), '"a,b"')
+  assert.equal(csvField('say "hi"'), '"say ""hi"""')
+  assert.equal(csvField('two\nlines'), '"two\nlines"')
+  assert.equal(csvField(['x', 'y']), '"[""x"",""y""]"')
+  assert.equal(csvField(0), '0')
+  assert.equal(csvRecord(['a', null, 'b,c']), 'a,,"b,c"\r\n')
+}
+
+function testFieldsAndCursors() {
+  assert.deepEqual(
+    resolveExportFields('judges', []).fields.map((field) => field.name),
+    DATASETS.judges.fields.map((field) => field.name)
+  )
+  assert.deepEqual(resolveExportFields('courts', ['slug', 'id']).fields, [
+    { name: 'slug', type: 'string' },
+    { name: 'id', type: 'string' }
+  ])
+  const unknown = resolveExportFields('cases', ['id', 'secret'])
+  assert.equal(unknown.ok, false)
+  assert.match(unknown.error, /Unknown cases fields: secret/)
+  assert.equal(resolveExportFields('cases', ['id', 'id']).ok, false)
+
+  const cursor = encodeExportCursor('judges', 'judge-01000')
+  assert.equal(decodeExportCursor(cursor, 'judges'), 'judge-01000')
+  assert.equal(decodeExportCursor(cursor, 'cases'), null, 'cursors are bound to their dataset')
+  assert.equal(decodeExportCursor('not-a-cursor', 'judges'), null)
+
+  const query = v1ExportQuerySchema.parse({ fields: 'id, name,,slug', format: 'NDJSON' })
+  assert.deepEqual(query.fields, ['id', 'name', 'slug'])
+  assert.equal(query.format, 'ndjson')
+  assert.equal(query.limit, 50000)
+  assert.equal(v1ExportQuerySchema.safeParse({ updated_since: 'yesterday' }).success, false)
+  assert.equal(v1ExportQuerySchema.safeParse({ limit: '100001' }).success, false)
+  assert.deepEqual(v1ExportJobRequestSchema.parse({ dataset: 'cases' }), { dataset: 'cases', format: 'csv', fields: [] })
+  assert.equal(v1ExportJobRequestSchema.safeParse({ dataset: 'users' }).success, false)
+}
+
+async function testStreaming() {
+  const supabase = createMemorySupabase({ judges: judgeRows() })
+  const fields = resolveExportFields('judges', ['id', 'name', 'court_name']).fields
+  const query = { dataset: 'judges', fields }
+
+  const csv = (await readAll(streamExport(supabase, query, 'csv'))).toString('utf8')
+  const lines = csv.split('\r\n')
+  assert.equal(lines[0], 'id,name,court_name')
+  assert.equal(lines[1], 'judge-00001,"Hon. ""Ann"" Smith, Jr.",')
+  assert.equal(lines[2], 'judge-00002,Judge 2,"Superior Court\nof Orange"')
+  assert.equal(lines.length, JUDGE_COUNT + 2, 'header, every row and a trailing CRLF')
+
+  const ndjson = (await readAll(streamExport(supabase, { ...query, updatedSince: '2025-06-01' }, 'ndjson'))).toString('utf8')
+  const records = ndjson.trim().split('\n').map((line) => JSON.parse(line))
+  assert.equal(records.length, 500, 'updated_since filters rows')
+  assert.deepEqual(Object.keys(records[0]), ['id', 'name', 'court_name'])
+  assert.equal(records[0].id, 'judge-02001')
+
+  // Keyset pages: each response is a complete file bounded by the next cursor
+  const ids = []
+  let after = null
+  let pages = 0
+  for (;;) {
+    const page = await planExportPage(supabase, query, after, 1000)
+    const body = (await readAll(streamExport(supabase, query, 'ndjson', { after, through: page.through }))).toString('utf8')
+    ids.push(...body.trim().split('\n').map((line) => JSON.parse(line).id))
+    pages++
+    if (!page.nextCursor) break
+    after = decodeExportCursor(page.nextCursor, 'judges')
+  }
+  assert.equal(pages, 3)
+  assert.equal(ids.length, JUDGE_COUNT)
+  assert.equal(new Set(ids).size, JUDGE_COUNT, 'pages neither overlap nor skip rows')
+
+  const exact = await planExportPage(supabase, query, 'judge-01500', 1000)
+  assert.deepEqual(exact, { through: null, nextCursor: null }, 'no cursor when the page reaches the end exactly')
+}
+
+async function testParquet() {
+  const supabase = createMemorySupabase({ judges: judgeRows() })
+  const fields = resolveExportFields('judges', ['id', 'total_cases', 'updated_at', 'appointed_date', 'aliases']).fields
+  const file = await readAll(streamExport(supabase, { dataset: 'judges', fields }, 'parquet'))
+
+  const metadata = readParquetMetadata(file)
+  assert.equal(metadata[3], JUDGE_COUNT, 'num_rows')
+  assert.deepEqual(metadata[2].map((element) => element[4]), ['schema', 'id', 'total_cases', 'updated_at', 'appointed_date', 'aliases'])
+  assert.deepEqual(metadata[2].slice(1).map((element) => element[6] ?? null), [0, null, 9, 6, 19], 'logical types')
+  assert.equal(metadata[4].length, Math.ceil(JUDGE_COUNT / EXPORT_BATCH_SIZE), 'one row group per batch')
+  assert.deepEqual(metadata[4].map((group) => group[3]), [1000, 1000, 500])
+
+  const [firstGroup] = metadata[4]
+  const ids = readColumnChunk(file, firstGroup[1][0], 6)
+  assert.equal(ids[0], 'judge-00001')
+  assert.equal(ids[999], 'judge-01000')
+  const totals = readColumnChunk(file, firstGroup[1][1], 2)
+  assert.deepEqual(totals.slice(0, 6), [null, 1, 2, 3, 4, null])
+  const updated = readColumnChunk(file, firstGroup[1][2], 2)
+  assert.equal(updated[0], Date.parse('2025-01-01T00:00:00Z'))
+
+  const lastGroup = metadata[4][2]
+  const lastChunk = lastGroup[1][4]
+  assert.equal(lastChunk[2] + lastChunk[3][7], file.length - 8 - file.readUInt32LE(file.length - 8), 'chunks end where the footer starts')
+}
+
+async function testJobs() {
+  const supabase = createMemorySupabase({ judges: judgeRows() })
+  const queued = []
+  const queue = { addJob: async (type, options) => { queued.push({ type, options }); return `export-${queued.length}` } }
+
+  const job = await createExportJob(
+    supabase,
+    queue,
+    OWNER,
+    'key-1',
+    { dataset: 'judges', format: 'parquet', fields: ['id', 'name', 'total_cases'], updatedSince: null },
+    NOW
+  )
+  assert.equal(job.status, 'queued')
+  assert.equal(job.download_url, null)
+  assert.deepEqual(queued, [{ type: 'export', options: { exportId: job.id } }])
+  assert.equal(supabase.tables.get('export_jobs')[0].queue_job_id, 'export-1')
+  await assert.rejects(getExportJob(supabase, { type: 'user', id: 'someone_else' }, job.id), ExportJobNotFoundError)
+  assert.equal(await streamExportDownload(supabase, OWNER, job.id, NOW), null, 'nothing to download yet')
+
+  // First run yields after one batch, as it would at the queue's time budget
+  const saved = []
+  const control = {
+    deadline: null,
+    saveCheckpoint: async (checkpoint) => {
+      saved.push(JSON.parse(JSON.stringify(checkpoint)))
+      control.deadline = 1
+      return true
+    }
+  }
+  const first = await runExportJob(supabase, job.id, control, () => NOW)
+  assert.equal(first.incomplete, true)
+  assert.equal(first.checkpoint.cursor.lastId, 'judge-01000')
+  assert.equal(first.checkpoint.progress.processed, 1000)
+  assert.equal((await getExportJob(supabase, OWNER, job.id, NOW)).status, 'running')
+
+  // The resumed run starts from a serialized checkpoint, like one read back from sync_queue
+  const second = await runExportJob(supabase, job.id, { checkpoint: saved[saved.length - 1] }, () => NOW)
+  assert.equal(second.success, true)
+  assert.equal(second.incomplete, undefined)
+  assert.equal(second.rows, JUDGE_COUNT)
+
+  const done = await getExportJob(supabase, OWNER, job.id, NOW)
+  assert.equal(done.status, 'completed')
+  assert.equal(done.row_count, JUDGE_COUNT)
+  assert.equal(done.download_url, `/api/v1/export/jobs/${job.id}/download`)
+  assert.equal(done.expires_at, '2025-10-26T12:00:00.000Z')
+
+  const download = await streamExportDownload(supabase, OWNER, job.id, NOW)
+  const downloaded = await readAll(download.body)
+  const fields = resolveExportFields('judges', ['id', 'name', 'total_cases']).fields
+  const direct = await readAll(streamExport(supabase, { dataset: 'judges', fields }, 'parquet'))
+  assert.ok(downloaded.equals(direct), 'a resumed job writes the same file as a single stream')
+  assert.equal(done.byte_size, downloaded.length)
+  assert.equal(readParquetMetadata(downloaded)[3], JUDGE_COUNT)
+
+  assert.deepEqual(await runExportJob(supabase, job.id, {}, () => NOW), { success: true, exportId: job.id, rows: JUDGE_COUNT })
+
+  const broken = await createExportJob(
+    supabase,
+    queue,
+    OWNER,
+    'key-1',
+    { dataset: 'judges', format: 'csv', fields: ['missing_column'], updatedSince: null },
+    NOW
+  )
+  const failed = await runExportJob(supabase, broken.id, {}, () => NOW)
+  assert.equal(failed.success, false)
+  const brokenView = await getExportJob(supabase, OWNER, broken.id, NOW)
+  assert.equal(brokenView.status, 'failed')
+  assert.match(brokenView.error, /Unknown judges fields/)
+
+  const expired = await getExportJob(supabase, OWNER, job.id, new Date('2025-10-27T00:00:00Z'))
+  assert.equal(expired.download_url, null)
+  assert.equal(await purgeExpiredExports(supabase, new Date('2025-10-27T00:00:00Z')), 1)
+  await assert.rejects(getExportJob(supabase, OWNER, job.id, NOW), ExportJobNotFoundError)
+}
+
+function testEncoderResume() {
+  const columns = [{ name: 'id', type: 'string' }]
+  const rows = [{ id: 'a' }, { id: 'b' }]
+  const whole = createExportEncoder('parquet', columns)
+  const expected = Buffer.concat([whole.start(), whole.rows(rows.slice(0, 1)), whole.rows(rows.slice(1)), whole.finish()].map((part) => Buffer.from(part)))
+
+  const head = createExportEncoder('parquet', columns)
+  const parts = [head.start(), head.rows(rows.slice(0, 1))]
+  const tail = createExportEncoder('parquet', columns, JSON.parse(JSON.stringify(head.state)))
+  parts.push(tail.rows(rows.slice(1)), tail.finish())
+  assert.ok(Buffer.concat(parts.map((part) => Buffer.from(part))).equals(expected))
+}
+
+async function run() {
+  testCsv()
+  testFieldsAndCursors()
+  testEncoderResume()
+  await testStreaming()
+  await testParquet()
+  await testJobs()
+
+  console.log('✓ Bulk export streaming, formats and export jobs verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const path = require('node:path')
+
+// Replay must not need credentials
+delete process.env.COURTLISTENER_API_KEY
+delete process.env.COURTLISTENER_API_TOKEN
+
+const {
+  assessCaseAttribution,
+  attributionFields,
+  auditCaseAttributions,
+  relinkCaseAttributions,
+  TRUSTED_ATTRIBUTION_FILTER
+} = require('../lib/sync/case-attribution')
+const { getCaseAttributionReport } = require('../lib/admin/case-attributions')
+const { DecisionRepository } = require('../lib/sync/decision-repository')
+const { createDocketHash, normalizeCaseNumber } = require('../lib/sync/normalization')
+const { toJudgeIdentity } = require('../lib/judges/entity-resolution')
+const { CourtListenerClient } = require('../lib/courtlistener/client')
+const { createMemorySupabase } = require('./fixtures/memory-supabase.cjs')
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'courtlistener')
+
+function filingCase(overrides) {
+  const caseNumber = '24-cv-01187'
+  const row = {
+    id: 'case-filing',
+    judge_id: 'judge-a',
+    case_number: caseNumber,
+    courtlistener_id: 'docket-7001',
+    jurisdiction: 'CA',
+    filing_date: '2024-03-12',
+    judge_name: null,
+    status: 'pending',
+    ...overrides
+  }
+  row.docket_hash = createDocketHash({
+    caseNumberKey: normalizeCaseNumber(caseNumber, 7001).key,
+    jurisdiction: 'CA',
+    judgeId: overrides?.syncedJudgeId ?? row.judge_id,
+    courtlistenerId: 7001,
+    filingDate: row.filing_date
+  })
+  delete row.syncedJudgeId
+  return row
+}
+
+async function opinionCase(judgeId, overrides) {
+  const repository = new DecisionRepository(createMemorySupabase())
+  const { caseRecord } = await repository.planDecision(judgeId, 'CA', {
+    id: 5001,
+    cluster_id: 6001,
+    case_name: 'People v. Reyes',
+    date_filed: '2024-05-01',
+    precedential_status: 'Published',
+    date_created: '2024-05-02T09:30:00Z'
+  })
+  return { id: 'case-opinion', judge_name: null, ...caseRecord, ...overrides }
+}
+
+async function testAssess() {
+  const filed = filingCase()
+  assert.deepEqual(assessCaseAttribution(filed, { judge: null }), { method: 'assigned_to', confidence: 0.95 })
+
+  // Hash was computed for another judge: the link was rewritten after sync
+  const moved = filingCase({ judge_id: 'judge-b', syncedJudgeId: 'judge-a' })
+  assert.deepEqual(assessCaseAttribution(moved, { judge: null }), { method: 'redistribution', confidence: 0 })
+  assert.deepEqual(
+    assessCaseAttribution(moved, { judge: null, mergedJudgeIds: ['judge-a'] }),
+    { method: 'assigned_to', confidence: 0.95 },
+    'cases moved by a judge merge keep their evidence'
+  )
+
+  const opinion = await opinionCase('judge-a')
+  assert.equal(opinion.judge_attribution_method, 'opinion_author', 'decision syncs record their attribution')
+  assert.deepEqual(assessCaseAttribution(opinion, { judge: null }), { method: 'opinion_author', confidence: 0.9 })
+  assert.equal(assessCaseAttribution({ ...opinion, judge_id: 'judge-b' }, { judge: null }).method, 'redistribution')
+
+  const lopez = toJudgeIdentity({ id: 'judge-l', name: 'Maria L. Lopez' })
+  const imported = { id: 'case-x', judge_id: 'judge-l', case_number: 'BC-1', courtlistener_id: null, docket_hash: null, jurisdiction: 'CA', filing_date: null }
+  assert.deepEqual(assessCaseAttribution({ ...imported, judge_name: 'Hon. Maria L. Lopez' }, { judge: lopez }), { method: 'docket_text', confidence: 0.8 })
+  assert.deepEqual(assessCaseAttribution({ ...imported, judge_name: 'Maria Lopez' }, { judge: lopez }), { method: 'docket_text', confidence: 0.72 })
+  assert.equal(assessCaseAttribution({ ...imported, judge_name: 'Daniel Okafor' }, { judge: lopez }).method, 'redistribution')
+  assert.deepEqual(assessCaseAttribution(imported, { judge: lopez }), { method: 'unverified', confidence: 0.3 })
+
+  assert.equal(attributionFields('manual').judge_attribution_confidence, 1)
+  assert.equal(TRUSTED_ATTRIBUTION_FILTER, 'judge_attribution_confidence.is.null,judge_attribution_confidence.gte.0.6')
+}
+
+async function testAuditAndReport() {
+  const supabase = createMemorySupabase({
+    judges: [
+      { id: 'judge-a', name: 'Maria L. Alvarez', slug: 'maria-l-alvarez' },
+      { id: 'judge-b', name: 'Daniel Okafor', slug: 'daniel-okafor' },
+      { id: 'judge-c', name: 'Ana Ruiz', slug: 'ana-ruiz' }
+    ],
+    judge_merges: [{ id: 'merge-1', source_judge_id: 'judge-gone', target_judge_id: 'judge-c' }],
+    cases: [
+      filingCase({ id: 'case-1' }),
+      filingCase({ id: 'case-2', judge_id: 'judge-b', syncedJudgeId: 'judge-a' }),
+      filingCase({ id: 'case-3', judge_id: 'judge-c', syncedJudgeId: 'judge-gone' }),
+      { id: 'case-4', judge_id: 'judge-b', case_number: 'BC-4', courtlistener_id: null, docket_hash: null, jurisdiction: 'CA', filing_date: null, judge_name: null },
+      { id: 'case-5', judge_id: null, case_number: 'BC-5', courtlistener_id: null, docket_hash: null, jurisdiction: 'CA', filing_date: null },
+      { id: 'case-6', judge_id: 'judge-a', judge_attribution_method: 'manual', judge_attribution_confidence: 1 }
+    ]
+  })
+
+  const first = await auditCaseAttributions(supabase, { limit: 3 })
+  assert.deepEqual(first, { audited: 3, byMethod: { assigned_to: 2, redistribution: 1 }, hasMore: true })
+  const second = await auditCaseAttributions(supabase, { limit: 3 })
+  assert.deepEqual(second, { audited: 1, byMethod: { unverified: 1 }, hasMore: false })
+
+  const cases = new Map(supabase.tables.get('cases').map((row) => [row.id, row]))
+  assert.equal(cases.get('case-2').judge_attribution_confidence, 0)
+  assert.equal(cases.get('case-5').judge_attribution_method, undefined, 'unlinked cases are not audited')
+  assert.equal(cases.get('case-6').judge_attribution_method, 'manual', 'audited cases are left alone')
+
+  const report = await getCaseAttributionReport(supabase)
+  assert.equal(report.counts.redistribution, 1)
+  assert.equal(report.counts.assigned_to, 2)
+  assert.equal(report.counts.manual, 1)
+  assert.equal(report.unaudited, 0)
+  assert.deepEqual(report.cases.map((flagged) => [flagged.id, flagged.judge?.slug]), [['case-2', 'daniel-okafor']])
+}
+
+async function testRelink() {
+  const supabase = createMemorySupabase({
+    judges: [
+      { id: 'judge-a', name: 'Maria L. Alvarez', courtlistener_id: '1001', total_cases: 0 },
+      { id: 'judge-b', name: 'Daniel Okafor', courtlistener_id: '1002', total_cases: 5 },
+      { id: 'judge-c', name: 'Ana Ruiz', courtlistener_id: null, total_cases: 0 }
+    ],
+    cases: [
+      { id: 'case-1', judge_id: 'judge-b', courtlistener_id: 'docket-7001', case_number: '24-cv-01187', jurisdiction: 'CA', status: 'decided', judge_attribution_method: 'redistribution' },
+      { id: 'case-2', judge_id: 'judge-a', courtlistener_id: '5001', case_number: 'CL-6001', jurisdiction: 'CA', status: 'decided', judge_attribution_method: 'redistribution' },
+      { id: 'case-3', judge_id: 'judge-b', courtlistener_id: null, case_number: 'BC-3', jurisdiction: 'CA', status: 'decided', judge_name: 'Hon. Ana Ruiz', judge_attribution_method: 'unverified' },
+      { id: 'case-4', judge_id: 'judge-b', courtlistener_id: null, case_number: 'BC-4', jurisdiction: 'CA', status: 'decided', judge_name: null, judge_attribution_method: 'unverified' },
+      { id: 'case-5', judge_id: 'judge-b', courtlistener_id: 'docket-7001', case_number: '24-cv-01187', jurisdiction: 'CA', status: 'decided', judge_attribution_method: 'assigned_to' }
+    ]
+  })
+  const courtListener = new CourtListenerClient({ mode: 'replay', fixturesDir: FIXTURES_DIR })
+
+  const page = await relinkCaseAttributions(supabase, courtListener, { limit: 2 })
+  assert.deepEqual(page, { examined: 2, relinked: 1, confirmed: 1, unresolved: 0, failed: 0, nextCursor: 'case-2' })
+  const rest = await relinkCaseAttributions(supabase, courtListener, { limit: 2, afterId: page.nextCursor })
+  assert.deepEqual(rest, { examined: 2, relinked: 1, confirmed: 0, unresolved: 1, failed: 0, nextCursor: 'case-4' })
+
+  const cases = new Map(supabase.tables.get('cases').map((row) => [row.id, row]))
+  assert.equal(cases.get('case-1').judge_id, 'judge-a', 'docket assignment wins')
+  assert.equal(cases.get('case-1').judge_attribution_method, 'assigned_to')
+  assert.equal(cases.get('case-2').judge_attribution_method, 'opinion_author')
+  assert.equal(cases.get('case-3').judge_id, 'judge-c')
+  assert.equal(cases.get('case-3').judge_attribution_method, 'docket_text')
+  assert.equal(cases.get('case-4').judge_attribution_method, 'unverified', 'no evidence leaves the link flagged')
+
+  const judges = new Map(supabase.tables.get('judges').map((row) => [row.id, row]))
+  assert.equal(judges.get('judge-a').total_cases, 2)
+  assert.equal(judges.get('judge-b').total_cases, 2)
+  assert.equal(judges.get('judge-c').total_cases, 1)
+
+  const changes = supabase.tables.get('entity_changes')
+  assert.deepEqual(
+    changes.map((change) => [change.entity_id, change.source, change.changes.judge_id]),
+    [
+      ['case-1', 'case-attribution', { old: 'judge-b', new: 'judge-a' }],
+      ['case-3', 'case-attribution', { old: 'judge-b', new: 'judge-c' }]
+    ]
+  )
+}
+
+async function run() {
+  await testAssess()
+  await testAuditAndReport()
+  await testRelink()
+
+  console.log('✓ case attribution verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const { buildEntityChange, diffRecords, recordEntityChanges, TRACKED_FIELDS } = require('../lib/sync/change-log')
+const { decodeChangeCursor, encodeChangeCursor, parseChangeEntityTypes } = require('../lib/changes/service')
+
+function testCursorRoundTrip() {
+  const cursor = encodeChangeCursor(42)
+  assert.match(cursor, /^[A-Za-z0-9_-]+$/, 'cursor is URL-safe')
+  assert.equal(decodeChangeCursor(cursor), 42)
+  assert.equal(decodeChangeCursor(encodeChangeCursor('9007199254740991')), 9007199254740991)
+
+  assert.equal(decodeChangeCursor('42'), null)
+  assert.equal(decodeChangeCursor(Buffer.from('c1:abc').toString('base64url')), null)
+  assert.equal(decodeChangeCursor(Buffer.from('c1:99999999999999999999').toString('base64url')), null)
+}
+
+function testEntityTypeParsing() {
+  assert.deepEqual(parseChangeEntityTypes(null), [])
+  assert.deepEqual(parseChangeEntityTypes('Judge, case,judge'), ['judge', 'case'])
+  assert.equal(parseChangeEntityTypes('judge,opinion'), null)
+}
+
+function testDiffRecords() {
+  const before = { name: 'Maria Alvarez', court_name: 'Superior Court', jurisdiction: 'CA', bio: null }
+  const after = { name: 'Maria L. Alvarez', court_name: 'Superior Court', bio: null, updated_at: '2025-10-19' }
+  assert.deepEqual(diffRecords(before, after, TRACKED_FIELDS.judge), {
+    name: { old: 'Maria Alvarez', new: 'Maria L. Alvarez' }
+  })
+
+  // Numeric and string IDs from PostgREST compare equal
+  assert.deepEqual(diffRecords({ courtlistener_id: 1001 }, { courtlistener_id: '1001' }, TRACKED_FIELDS.court), {})
+
+  // Inserts report every non-null tracked field
+  assert.deepEqual(diffRecords(null, { name: 'Daniel Okafor', bio: null, jurisdiction: 'CA' }, TRACKED_FIELDS.judge), {
+    name: { old: null, new: 'Daniel Okafor' },
+    jurisdiction: { old: null, new: 'CA' }
+  })
+}
+
+function testBuildEntityChange() {
+  assert.equal(
+    buildEntityChange('court', 'court-1', { name: 'Court A', jurisdiction: 'CA' }, { name: 'Court A' }, { source: 'court-sync' }),
+    null,
+    'an update that changes no tracked field is not logged'
+  )
+
+  const update = buildEntityChange('case', 'case-1', { status: 'pending', jurisdiction: 'CA' }, { status: 'decided' }, {
+    source: 'decision-sync',
+    syncId: 'decision-sync-1'
+  })
+  assert.equal(update.operation, 'update')
+  assert.equal(update.jurisdiction, 'CA', 'jurisdiction falls back to the stored row')
+  assert.equal(update.sync_id, 'decision-sync-1')
+  assert.deepEqual(update.changes, { status: { old: 'pending', new: 'decided' } })
+
+  const insert = buildEntityChange('judge', 'judge-2', null, { name: 'Daniel Okafor' }, { source: 'judge-sync', jurisdiction: 'CA' })
+  assert.equal(insert.operation, 'insert')
+  assert.equal(insert.jurisdiction, 'CA')
+  assert.equal(insert.sync_id, null)
+}
+
+async function testRecordingNeverThrows() {
+  const inserted = []
+  const ok = { from: () => ({ insert: async (rows) => { inserted.push(...rows); return { error: null } } }) }
+  const failing = { from: () => ({ insert: async () => ({ error: { message: 'relation does not exist' } }) }) }
+  const change = buildEntityChange('judge', 'judge-1', null, { name: 'A' }, { source: 'judge-sync' })
+
+  assert.equal(await recordEntityChanges(ok, [change, null]), 1)
+  assert.equal(inserted.length, 1)
+  assert.equal(await recordEntityChanges(ok, [null]), 0)
+  assert.equal(await recordEntityChanges(failing, [change]), 0)
+}
+
+async function run() {
+  testCursorRoundTrip()
+  testEntityTypeParsing()
+  testDiffRecords()
+  testBuildEntityChange()
+  await testRecordingNeverThrows()
+
+  console.log('✓ change log diffs and feed cursors verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
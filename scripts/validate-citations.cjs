@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const { backfillOpinionCitations, canonicalReporter, extractCitations } = require('../lib/sync/citations')
+const { createMemorySupabase } = require('./fixtures/memory-supabase.cjs')
+
+function testCaliforniaCitations() {
+  const text = 'People v. Smith (2005) 35 Cal.4th 1, 12; Doe v. Roe (2004) 123 Cal. App. 4th 456, 9 Cal.Rptr.3d 100; 5 Cal. 3d 584.'
+  assert.deepEqual(
+    extractCitations(text).map((citation) => citation.normalized),
+    ['35 Cal.4th 1', '123 Cal.App.4th 456', '9 Cal.Rptr.3d 100', '5 Cal.3d 584']
+  )
+  assert.equal(extractCitations(text)[0].citation_type, 'state')
+}
+
+function testFederalCitations() {
+  const text = 'Roe v. Wade, 410 U.S. 113 (1973); 410 U. S. 113; 93 S. Ct. 705; 123 F.3d 456 (9th Cir. 1997); 55 F. Supp. 2d 77; 999 F. App\'x 12.'
+  const citations = extractCitations(text)
+  assert.deepEqual(
+    citations.map((citation) => citation.normalized),
+    ['410 U.S. 113', '93 S.Ct. 705', '123 F.3d 456', '55 F.Supp.2d 77', "999 F.App'x 12"]
+  )
+  assert.ok(citations.every((citation) => citation.citation_type === 'federal'))
+  assert.deepEqual(
+    { volume: citations[2].volume, reporter: citations[2].reporter, page: citations[2].page },
+    { volume: 123, reporter: 'F.3d', page: '456' }
+  )
+}
+
+function testReporterAliases() {
+  const text = '12 Fed. Appx 34; 56 Fed. Appx. 78; 90 F. Appx 12; 34 F. App\u2019x 56; 78 Fed. App\'x 90.'
+  assert.deepEqual(
+    extractCitations(text).map((citation) => citation.normalized),
+    ["12 F.App'x 34", "56 F.App'x 78", "90 F.App'x 12", "34 F.App'x 56", "78 F.App'x 90"]
+  )
+}
+
+function testIgnoredText() {
+  assert.deepEqual(extractCitations('Cal. Code Civ. Proc. section 437c; 12 N.E.2d 34; id. at 12'), [])
+  assert.deepEqual(extractCitations(null), [])
+}
+
+function testCanonicalReporter() {
+  assert.equal(canonicalReporter('Cal. App. 5th').canonical, 'Cal.App.5th')
+  assert.equal(canonicalReporter('F. Supp. 3d').canonical, 'F.Supp.3d')
+  assert.equal(canonicalReporter('Fed. Appx.').canonical, "F.App'x")
+  assert.equal(canonicalReporter('N.E.2d'), null)
+}
+
+async function testBackfill() {
+  const opinions = Array.from({ length: 101 }, (_, index) => ({
+    id: `op-${String(index).padStart(3, '0')}`,
+    case_id: `case-${index}`,
+    plain_text: index === 100 ? null : `See 12 Fed. Appx ${index + 1} and 35 Cal.4th 1.`
+  }))
+  const supabase = createMemorySupabase({
+    opinions,
+    case_reporter_citations: [{ case_id: 'case-cited', normalized_citation: '35 Cal.4th 1' }]
+  })
+
+  const saved = []
+  const first = await backfillOpinionCitations(supabase, {
+    saveCheckpoint: async (checkpoint) => {
+      saved.push(checkpoint)
+      return false
+    }
+  })
+  assert.equal(first.incomplete, true, 'a lost lease stops the run after the batch')
+  assert.equal(saved[0].cursor.lastOpinionId, 'op-099')
+
+  const resumed = await backfillOpinionCitations(supabase, { checkpoint: first.checkpoint })
+  assert.equal(resumed.incomplete, undefined)
+  assert.equal(resumed.opinions, 101)
+  assert.equal(resumed.citations, 200)
+
+  const edges = supabase.tables.get('citations')
+  assert.equal(edges.length, 200)
+  assert.ok(edges.some((edge) => edge.opinion_id === 'op-000' && edge.normalized_citation === "12 F.App'x 1"))
+  assert.ok(edges.filter((edge) => edge.normalized_citation === '35 Cal.4th 1').every((edge) => edge.cited_case_id === 'case-cited'))
+
+  await backfillOpinionCitations(supabase)
+  assert.equal(supabase.tables.get('citations').length, 200, 'a rerun upserts the same edges')
+}
+
+async function run() {
+  testCaliforniaCitations()
+  testFederalCitations()
+  testReporterAliases()
+  testIgnoredText()
+  testCanonicalReporter()
+  await testBackfill()
+
+  console.log('✓ citation extraction verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
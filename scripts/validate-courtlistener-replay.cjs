@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const fs = require('node:fs')
+const os = require('node:os')
+const path = require('node:path')
+
+// Replay must not need credentials
+delete process.env.COURTLISTENER_API_KEY
+delete process.env.COURTLISTENER_API_TOKEN
+
+const { createCourtListenerTransport, fixtureKey } = require('../lib/courtlistener/transport')
+const { CourtListenerClient } = require('../lib/courtlistener/client')
+const { CourtSyncManager } = require('../lib/sync/court-sync')
+const { JudgeSyncManager } = require('../lib/sync/judge-sync')
+const { DecisionSyncManager } = require('../lib/sync/decision-sync')
+const { createMemorySupabase } = require('./fixtures/memory-supabase.cjs')
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'courtlistener')
+const BASE = 'https://www.courtlistener.com/api/rest/v4'
+
+function replayClient() {
+  return new CourtListenerClient({ mode: 'replay', fixturesDir: FIXTURES_DIR })
+}
+
+function testFixtureKeys() {
+  const relative = fixtureKey(`${BASE}/people/?ordering=-date_modified&page_size=100&format=json`)
+  assert.equal(relative, fixtureKey('/api/rest/v4/people/?page_size=100&ordering=-date_modified'))
+  assert.match(relative, /^people__[0-9a-f]{12}\.json$/)
+  assert.equal(fixtureKey(`${BASE}/people/1001/?format=json`), 'people-1001.json')
+
+  // Date windows move with the clock, so they do not change the key
+  assert.equal(
+    fixtureKey(`${BASE}/opinions/?author=1&cluster__date_filed__gte=2020-01-01`),
+    fixtureKey(`${BASE}/opinions/?author=1&cluster__date_filed__gte=2021-06-30`)
+  )
+  assert.notEqual(fixtureKey(`${BASE}/opinions/?author=1`), fixtureKey(`${BASE}/opinions/?author=2`))
+}
+
+async function testRecordThenReplay() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'courtlistener-fixtures-'))
+  const upstreamCalls = []
+  const upstream = {
+    mode: 'live',
+    async send(url) {
+      upstreamCalls.push(url)
+      if (url.includes('/people/7/')) return new Response('slow down', { status: 429 })
+      return new Response(JSON.stringify({ id: 3, name_full: 'Recorded Judge' }), { status: 200 })
+    }
+  }
+
+  try {
+    const recorder = createCourtListenerTransport({ mode: 'record', fixturesDir: dir, upstream })
+    const recorded = await recorder.send(`${BASE}/people/3/?format=json`, {})
+    assert.equal((await recorded.json()).name_full, 'Recorded Judge')
+    await recorder.send(`${BASE}/people/7/?format=json`, {})
+
+    const files = fs.readdirSync(dir)
+    assert.deepEqual(files, ['people-3.json'], 'throttled responses are not recorded')
+    const fixture = JSON.parse(fs.readFileSync(path.join(dir, 'people-3.json'), 'utf8'))
+    assert.equal(fixture.request.path, '/people/3/')
+    assert.equal(fixture.status, 200)
+
+    const replay = createCourtListenerTransport({ mode: 'replay', fixturesDir: dir })
+    const replayed = await replay.send(`${BASE}/people/3/`, {})
+    assert.equal((await replayed.json()).name_full, 'Recorded Judge')
+    assert.equal(upstreamCalls.length, 2, 'replay never reaches upstream')
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+async function testReplayClient() {
+  assert.throws(() => new CourtListenerClient({ mode: 'live' }), /COURTLISTENER_API_KEY/)
+
+  const client = replayClient()
+  assert.equal(client.transportMode, 'replay')
+  const judge = await client.getJudgeById('1001')
+  assert.equal(judge.name_full, 'Maria L. Alvarez')
+
+  await assert.rejects(() => client.getJudgeById('9999'), /No CourtListener fixture for \/people\/9999\//)
+}
+
+async function testCourtSync() {
+  const supabase = createMemorySupabase({
+    courts: [{ id: 'court-existing', name: 'California Court of Appeal', courtlistener_id: 'calctapp', updated_at: '2020-01-01T00:00:00Z' }]
+  })
+  const manager = new CourtSyncManager({ supabase, courtListener: replayClient() })
+  const result = await manager.syncCourts()
+
+  assert.equal(result.success, true, result.errors.join('; '))
+  assert.equal(result.courtsProcessed, 2)
+  assert.equal(result.courtsUpdated, 1)
+  assert.equal(result.courtsCreated, 1)
+  const courts = supabase.tables.get('courts')
+  assert.equal(courts.length, 2)
+  const casd = courts.find((court) => court.courtlistener_id === 'casd')
+  assert.equal(casd.courthouse_metadata.citation_string, 'S.D. Cal.')
+  assert.equal(casd.jurisdiction, 'US', 'federal district courts are stored under US, not the CourtListener code')
+  assert.equal(casd.type, 'federal')
+  assert.equal(courts.find((court) => court.id === 'court-existing').jurisdiction, 'CA')
+
+  const changes = supabase.tables.get('entity_changes')
+  assert.deepEqual(changes.map((change) => `${change.entity_type}:${change.operation}`).sort(), ['court:insert', 'court:update'])
+  assert.equal(changes.find((change) => change.operation === 'update').entity_id, 'court-existing')
+}
+
+async function testJudgeSync() {
+  const supabase = createMemorySupabase({
+    judges: [{ id: 'judge-a', name: 'Maria Alvarez', courtlistener_id: '1001', jurisdiction: 'CA', updated_at: '2020-01-01T00:00:00Z' }]
+  })
+  const manager = new JudgeSyncManager({ supabase, courtListener: replayClient() })
+  const result = await manager.syncJudges({ jurisdiction: 'CA' })
+
+  assert.equal(result.success, true, result.errors.join('; '))
+  assert.equal(result.judgesUpdated, 1)
+  assert.equal(result.judgesCreated, 1)
+
+  const judges = supabase.tables.get('judges')
+  assert.equal(judges.find((judge) => judge.id === 'judge-a').name, 'Maria L. Alvarez')
+  assert.match(judges.find((judge) => judge.id === 'judge-a').education, /UC Berkeley/)
+  const imported = judges.find((judge) => String(judge.courtlistener_id) === '1002')
+  assert.equal(imported.name, 'Daniel Okafor')
+  assert.equal(imported.court_name, 'California Court of Appeal')
+  assert.equal(imported.jurisdiction, 'CA')
+
+  const changes = supabase.tables.get('entity_changes')
+  const updated = changes.find((change) => change.entity_id === 'judge-a')
+  assert.equal(updated.operation, 'update')
+  assert.deepEqual(updated.changes.name, { old: 'Maria Alvarez', new: 'Maria L. Alvarez' })
+  assert.equal(changes.find((change) => change.entity_id === imported.id).operation, 'insert')
+}
+
+async function testDecisionSync() {
+  const supabase = createMemorySupabase({
+    judges: [{ id: 'judge-a', name: 'Maria L. Alvarez', courtlistener_id: '1001', jurisdiction: 'CA' }]
+  })
+  const manager = new DecisionSyncManager({ supabase, courtListener: replayClient() })
+  const result = await manager.syncDecisions({ judgeIds: ['judge-a'], daysSinceLast: 3650, includeDockets: false })
+
+  assert.equal(result.success, true, result.errors.join('; '))
+  assert.equal(result.decisionsProcessed, 1)
+  assert.equal(result.decisionsCreated, 1)
+
+  const [decision] = supabase.tables.get('cases')
+  assert.equal(decision.case_name, 'Reyes v. Coastal Freight Lines')
+  assert.equal(decision.decision_date, '2024-05-01')
+  const [opinion] = supabase.tables.get('opinions')
+  assert.equal(opinion.case_id, decision.id)
+  const cited = supabase.tables.get('citations').map((citation) => citation.normalized_citation).sort()
+  assert.deepEqual(cited, ['50 Cal.4th 512', '55 Cal.4th 747'])
+  assert.equal(supabase.tables.get('judges')[0].total_cases, 1)
+
+  const [change] = supabase.tables.get('entity_changes')
+  assert.equal(change.entity_type, 'case')
+  assert.equal(change.entity_id, decision.id)
+  assert.equal(change.operation, 'insert')
+  assert.equal(change.changes.case_name.new, 'Reyes v. Coastal Freight Lines')
+}
+
+async function run() {
+  testFixtureKeys()
+  await testRecordThenReplay()
+  await testReplayClient()
+  await testCourtSync()
+  await testJudgeSync()
+  await testDecisionSync()
+
+  console.log('✓ CourtListener record/replay transport and offline syncs verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,217 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const path = require('node:path')
+
+delete process.env.COURTLISTENER_API_KEY
+delete process.env.COURTLISTENER_API_TOKEN
+delete process.env.COURTLISTENER_WEBHOOK_TOLERANCE_SECONDS
+
+const { CourtListenerClient } = require('../lib/courtlistener/client')
+const {
+  checkWebhookTimestamp,
+  createWebhookProcessors,
+  docketAlertTargets,
+  parseWebhookPayload,
+  receiveWebhookEvent,
+  reprocessWebhookEvent,
+  searchAlertTargets,
+  WebhookEventConflictError,
+  WebhookPayloadError
+} = require('../lib/sync/webhook-events')
+const { listUnresolvedWebhookEvents } = require('../lib/admin/webhook-events')
+const { createMemorySupabase } = require('./fixtures/memory-supabase.cjs')
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'courtlistener')
+
+let deliveries = 0
+function delivery(event, data) {
+  return { event, data, timestamp: new Date().toISOString(), webhook_id: `wh-${++deliveries}` }
+}
+
+function replayProcessors(supabase) {
+  return createWebhookProcessors({ supabase, courtListener: new CourtListenerClient({ mode: 'replay', fixturesDir: FIXTURES_DIR }) })
+}
+
+function seededSupabase() {
+  return createMemorySupabase({
+    judges: [{ id: 'judge-a', name: 'Maria Alvarez', courtlistener_id: '1001', jurisdiction: 'CA', updated_at: '2020-01-01T00:00:00Z' }],
+    courts: [{ id: 'court-a', name: 'California Court of Appeal', courtlistener_id: 'calctapp', updated_at: '2020-01-01T00:00:00Z' }]
+  })
+}
+
+function testPayloadChecks() {
+  assert.throws(() => parseWebhookPayload({ event: 'opinion.created', data: { id: 1 }, timestamp: 'x' }), WebhookPayloadError)
+  assert.throws(() => parseWebhookPayload([]), /JSON object/)
+  const parsed = parseWebhookPayload({ event: 'court.updated', data: { id: 'calctapp' }, timestamp: '2025-10-19T12:00:00Z', webhook_id: 'abc' })
+  assert.equal(parsed.webhook_id, 'abc')
+
+  const now = Date.parse('2025-10-19T12:00:00Z')
+  assert.equal(checkWebhookTimestamp('2025-10-19T11:58:00Z', now), 'ok')
+  assert.equal(checkWebhookTimestamp('2025-10-19T11:54:00Z', now), 'stale')
+  assert.equal(checkWebhookTimestamp('2025-10-19T12:06:00Z', now), 'future')
+  assert.equal(checkWebhookTimestamp('yesterday-ish', now), 'invalid')
+  assert.equal(checkWebhookTimestamp('2025-10-19T11:54:00Z', now, 900), 'ok')
+}
+
+function testAlertTargets() {
+  const docketAlert = delivery('docket.alert', {
+    id: 7001,
+    type: 'docket',
+    attributes: { results: [{ id: 1, docket: 7001 }, { id: 2, docket: 'https://www.courtlistener.com/api/rest/v4/dockets/7002/' }] }
+  })
+  assert.deepEqual(docketAlertTargets(docketAlert), ['7001', '7002'])
+
+  const searchAlert = delivery('search.alert', {
+    id: 55,
+    type: 'alert',
+    attributes: {
+      alert: { id: 55, name: 'Employment appeals' },
+      results: [{ cluster_id: 6001, opinions: [{ id: 5001 }, { id: 5001 }] }, { docket_id: 7001 }]
+    }
+  })
+  assert.deepEqual(searchAlertTargets(searchAlert), { opinions: ['5001'], dockets: ['7001'] })
+}
+
+async function testOpinionEventIsIdempotent() {
+  const supabase = seededSupabase()
+  const processors = replayProcessors(supabase)
+  const payload = delivery('opinion.created', { id: '5001', type: 'opinion', attributes: {} })
+
+  const first = await receiveWebhookEvent(supabase, payload, processors)
+  assert.equal(first.status, 'processed', first.error)
+  assert.equal(first.duplicate, false)
+  assert.equal(first.result.judgeId, 'judge-a')
+
+  const [decision] = supabase.tables.get('cases')
+  assert.equal(decision.case_name, 'Reyes v. Coastal Freight Lines')
+  assert.equal(decision.judge_id, 'judge-a')
+  assert.equal(supabase.tables.get('opinions').length, 1)
+  assert.equal(supabase.tables.get('judges')[0].total_cases, 1)
+
+  const [stored] = supabase.tables.get('webhook_events')
+  assert.equal(stored.status, 'processed')
+  assert.equal(stored.processed, true)
+  assert.equal(stored.event_id, '5001')
+  assert.equal(stored.attempts, 1)
+
+  const changesBefore = supabase.tables.get('entity_changes').length
+  const redelivered = await receiveWebhookEvent(supabase, payload, processors)
+  assert.equal(redelivered.duplicate, true)
+  assert.equal(redelivered.status, 'processed')
+  assert.equal(redelivered.eventId, first.eventId)
+  assert.equal(supabase.tables.get('webhook_events').length, 1)
+  assert.equal(supabase.tables.get('entity_changes').length, changesBefore, 'a redelivery is not applied again')
+}
+
+async function testTargetedRefreshes() {
+  const supabase = seededSupabase()
+  const processors = replayProcessors(supabase)
+
+  const person = await receiveWebhookEvent(supabase, delivery('person.updated', { id: '1001', type: 'person' }), processors)
+  assert.equal(person.status, 'processed', person.error)
+  assert.equal(supabase.tables.get('judges')[0].name, 'Maria L. Alvarez')
+
+  // Not one of our judges: ignored, and nothing is fetched or imported
+  const stranger = await receiveWebhookEvent(supabase, delivery('person.updated', { id: '9999', type: 'person' }), processors)
+  assert.equal(stranger.status, 'ignored')
+  assert.equal(supabase.tables.get('judges').length, 1)
+
+  const court = await receiveWebhookEvent(supabase, delivery('court.updated', { id: 'calctapp', type: 'court' }), processors)
+  assert.equal(court.status, 'processed', court.error)
+  assert.equal(supabase.tables.get('courts')[0].address, 'San Francisco, CA')
+
+  const alert = await receiveWebhookEvent(
+    supabase,
+    delivery('docket.alert', { id: 7001, type: 'docket', attributes: { results: [{ id: 1, docket: 7001 }] } }),
+    processors
+  )
+  assert.equal(alert.status, 'processed', alert.error)
+  const filing = supabase.tables.get('cases').find((row) => row.courtlistener_id === 'docket-7001')
+  assert.equal(filing.case_name, 'Ortega v. Harbor Logistics')
+  assert.equal(filing.judge_id, 'judge-a')
+  assert.equal(supabase.tables.get('parties')[0].party_name, 'Luis Ortega')
+  assert.equal(supabase.tables.get('case_attorneys')[0].attorney_name, 'Dana Whitfield')
+
+  const search = await receiveWebhookEvent(
+    supabase,
+    delivery('search.alert', { id: 55, type: 'alert', attributes: { results: [{ cluster_id: 6001, opinions: [{ id: 5001 }] }] } }),
+    processors
+  )
+  assert.equal(search.status, 'processed', search.error)
+  assert.equal(search.result.targets[0].kind, 'opinion')
+
+  const unknown = await receiveWebhookEvent(supabase, delivery('recap.fetch', { id: 1 }), processors)
+  assert.equal(unknown.status, 'ignored')
+  assert.match(unknown.result.reason, /unhandled event type/)
+}
+
+async function testFailedEventsCanBeReprocessed() {
+  const supabase = createMemorySupabase()
+  let failuresLeft = 2
+  const processors = {
+    decisions: {
+      async syncOpinion(id) {
+        if (failuresLeft-- > 0) throw new Error('CourtListener timed out')
+        return { judgeId: 'judge-a', caseId: `case-${id}`, created: true }
+      },
+      async syncDocket() { return null }
+    },
+    judges: { async refreshJudge() { return null } },
+    courts: { async refreshCourt() { return null } }
+  }
+  const payload = delivery('opinion.updated', { id: '5001', type: 'opinion' })
+
+  const failed = await receiveWebhookEvent(supabase, payload, processors)
+  assert.equal(failed.status, 'failed')
+  assert.match(failed.error, /timed out/)
+  const [stored] = supabase.tables.get('webhook_events')
+  assert.equal(stored.processed, false)
+  assert.equal(stored.error_message, 'CourtListener timed out')
+
+  const unresolved = await listUnresolvedWebhookEvents(supabase)
+  assert.equal(unresolved.length, 1)
+  assert.equal(unresolved[0].retryable, true)
+
+  // A redelivery of a failed event is another attempt
+  const retried = await receiveWebhookEvent(supabase, payload, processors)
+  assert.equal(retried.duplicate, true)
+  assert.equal(retried.status, 'failed')
+  assert.equal(supabase.tables.get('webhook_events')[0].attempts, 2)
+
+  const outcome = await reprocessWebhookEvent(supabase, failed.eventId, processors)
+  assert.equal(outcome.status, 'processed')
+  assert.equal(outcome.result.caseId, 'case-5001')
+  assert.equal(stored.attempts, 3)
+  assert.equal(stored.error_message, null)
+  assert.deepEqual(await listUnresolvedWebhookEvents(supabase), [])
+
+  await assert.rejects(() => reprocessWebhookEvent(supabase, failed.eventId, processors), WebhookEventConflictError)
+  await assert.rejects(() => reprocessWebhookEvent(supabase, 'missing', processors), WebhookEventConflictError)
+
+  // An attempt cut off mid-run stays 'received'; once stale it can be reprocessed
+  stored.status = 'received'
+  stored.last_attempt_at = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+  const [stuck] = await listUnresolvedWebhookEvents(supabase)
+  assert.equal(stuck.retryable, true)
+  assert.equal((await reprocessWebhookEvent(supabase, stuck.id, processors)).status, 'processed')
+}
+
+async function run() {
+  testPayloadChecks()
+  testAlertTargets()
+  await testOpinionEventIsIdempotent()
+  await testTargetedRefreshes()
+  await testFailedEventsCanBeReprocessed()
+
+  console.log('✓ CourtListener webhook storage, deduplication, targeted processing and reprocessing verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const { extractFirmName, normalizeFirmName } = require('../lib/sync/normalization')
+const { buildDocketPartyRecords } = require('../lib/sync/docket-parties')
+const { classifyAppearance, summarizeAttorneyAppearances } = require('../lib/attorneys/service')
+
+function testFirmNormalization() {
+  assert.equal(normalizeFirmName('Kirkland & Ellis, LLP').key, 'kirkland and ellis')
+  assert.equal(normalizeFirmName('KIRKLAND AND ELLIS L.L.P.').key, 'kirkland and ellis')
+  assert.equal(normalizeFirmName('Munger, Tolles & Olson LLP,').display, 'Munger, Tolles & Olson LLP')
+  assert.equal(normalizeFirmName('Law Offices of Jane Doe, APC').key, 'jane doe')
+  assert.equal(normalizeFirmName('  '), null)
+
+  const contact = 'Munger, Tolles & Olson LLP\n350 South Grand Avenue\nLos Angeles, CA 90071\n(213) 683-9100\nEmail: someone@mto.com'
+  assert.equal(extractFirmName(contact), 'Munger, Tolles & Olson LLP')
+  assert.equal(extractFirmName('123 Main St\nSan Jose, CA 95113\n408-555-0100'), null)
+}
+
+function testDocketPartyRecords() {
+  const parties = [
+    {
+      id: 11,
+      name: 'Acme Corp.',
+      party_types: [{ docket_id: 900, name: 'Plaintiff' }],
+      attorneys: [{ attorney_id: 21, role: 2 }, { attorney_id: 22, role: 6, date_action: '2023-04-01' }]
+    },
+    { id: 12, name: 'Widget LLC', party_types: [{ docket_id: 900, name: 'Deft' }], attorneys: [{ attorney_id: 23, role: 1 }] }
+  ]
+  const attorneys = [
+    { id: 21, name: 'Jane  Roe', contact_raw: 'Roe & Partners, LLP\n1 Market St' },
+    { id: 22, name: 'John Poe', contact_raw: null },
+    { id: 23, name: 'Sam Q. Lee', contact_raw: 'Office of the County Counsel\n70 W Hedding St' }
+  ]
+
+  const records = buildDocketPartyRecords('case-1', 900, parties, attorneys)
+  assert.deepEqual(records.parties.map((party) => [party.party_name, party.party_type, party.represented_by]), [
+    ['Acme Corp.', 'plaintiff', ['Jane  Roe', 'John Poe']],
+    ['Widget LLC', 'defendant', ['Sam Q. Lee']]
+  ])
+
+  const [roe, poe, lee] = records.attorneys
+  assert.equal(roe.normalized_name, 'jane roe')
+  assert.equal(roe.is_lead_attorney, true)
+  assert.equal(roe.firm_key, 'roe and partners')
+  assert.deepEqual(roe.representing, ['Acme Corp.'])
+  assert.equal(roe.party_type, 'plaintiff')
+  assert.equal(poe.date_withdrawn, '2023-04-01')
+  assert.equal(poe.firm_key, null)
+  assert.equal(lee.firm_key, 'county counsel')
+  assert.equal(lee.party_type, 'defendant')
+}
+
+function testAppearanceOutcomes() {
+  const decided = { case_status: 'decided', decision_date: '2024-01-10' }
+  assert.equal(classifyAppearance({ ...decided, party_type: 'defendant', case_outcome: 'Dismissed' }).result, 'favorable')
+  assert.equal(classifyAppearance({ ...decided, party_type: 'plaintiff', case_outcome: 'Dismissed' }).result, 'unfavorable')
+  assert.equal(classifyAppearance({ ...decided, party_type: 'plaintiff', case_outcome: 'Settled' }).result, 'settled')
+  assert.equal(classifyAppearance({ ...decided, party_type: null, case_outcome: 'Judgment for Plaintiff' }).result, 'other')
+  assert.equal(classifyAppearance({ case_status: 'pending', decision_date: null, party_type: 'plaintiff', case_outcome: null }).result, 'pending')
+
+  const appearance = (overrides) => ({
+    attorney_name: 'Jane Roe',
+    normalized_name: 'jane roe',
+    law_firm_id: 'firm-1',
+    firm_name: 'Roe & Partners',
+    party_type: 'defendant',
+    is_lead_attorney: true,
+    case_outcome: 'Dismissed',
+    case_status: 'decided',
+    decision_date: '2024-01-10',
+    filing_date: '2023-01-10',
+    ...overrides
+  })
+
+  const summary = summarizeAttorneyAppearances([
+    appearance({ case_id: 'a' }),
+    appearance({ case_id: 'a' }),
+    appearance({ case_id: 'b', case_outcome: 'Judgment for Plaintiff', decision_date: '2024-06-01' }),
+    appearance({ case_id: 'c', attorney_name: 'Ann Lu', normalized_name: 'ann lu', is_lead_attorney: false, case_outcome: 'Settled' })
+  ], 10)
+
+  const [roe, lu] = summary.attorneys
+  assert.equal(roe.appearances, 2)
+  assert.equal(roe.favorable, 1)
+  assert.equal(roe.unfavorable, 1)
+  assert.equal(roe.favorable_rate, 50)
+  assert.equal(roe.last_appearance, '2024-06-01')
+  assert.equal(lu.settled, 1)
+  assert.equal(lu.favorable_rate, null)
+
+  assert.equal(summary.firms.length, 1)
+  assert.equal(summary.firms[0].appearances, 3)
+  assert.equal(summary.firms[0].attorneys, 2)
+  assert.equal(summary.cases_with_counsel, 3)
+}
+
+function run() {
+  testFirmNormalization()
+  testDocketPartyRecords()
+  testAppearanceOutcomes()
+
+  console.log('✓ docket party and attorney history helpers verified')
+}
+
+run()
@@ -0,0 +1,351 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const { parse } = require('graphql')
+
+const { analyzeQuery, maxQueryCost, requestsForCost, MAX_QUERY_COST } = require('../lib/graphql/cost')
+const graphql = require('../lib/graphql/execute')
+const { createLoaders } = require('../lib/graphql/loaders')
+const { sha256Hex } = require('../lib/graphql/persisted')
+const { getGraphQLSchema } = require('../lib/graphql/schema')
+const { v1GraphQLRequestSchema } = require('../lib/api/v1-schemas')
+const { createMemorySupabase } = require('./fixtures/memory-supabase.cjs')
+
+// Round-trip through JSON as the route does; execution results have null prototypes
+const executeGraphQLRequest = async (body, options) => JSON.parse(JSON.stringify(await graphql.executeGraphQLRequest(body, options)))
+const uuid = (n) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`
+const COURT_A = uuid(101)
+const COURT_B = uuid(102)
+const JUDGES = [uuid(1), uuid(2), uuid(3)]
+const BASELINE = { metrics: { consistency_score: 70 }, sample_size: 40 }
+
+function seed() {
+  const judge = (id, index, courtId) => ({
+    id,
+    name: `Judge ${['Adams', 'Baker', 'Chen'][index]}`,
+    slug: `judge-${['adams', 'baker', 'chen'][index]}`,
+    court_id: courtId,
+    court_name: courtId === COURT_A ? 'Orange Superior Court' : 'Marin Superior Court',
+    jurisdiction: courtId === COURT_A ? 'CA' : 'NV',
+    total_cases: null,
+    reversal_rate: 0.1,
+    aliases: null,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z'
+  })
+  const cases = []
+  for (const [index, judgeId] of JUDGES.entries()) {
+    for (let n = 0; n < 4; n++) {
+      cases.push({
+        id: uuid(1000 + index * 10 + n),
+        case_number: `C-${index}-${n}`,
+        case_name: `Case ${index}-${n}`,
+        judge_id: judgeId,
+        court_id: index === 2 ? COURT_B : COURT_A,
+        case_type: n % 2 ? 'Civil' : 'Criminal',
+        outcome: n % 2 ? 'Settled' : 'Dismissed',
+        status: 'decided',
+        filing_date: `2024-0${n + 1}-01`,
+        decision_date: index === 1 ? null : `2024-0${n + 2}-15`,
+        judge_attribution_confidence: n === 3 ? 0.1 : null,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z'
+      })
+    }
+  }
+  return {
+    courts: [
+      { id: COURT_A, name: 'Orange Superior Court', slug: 'orange-superior', created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z' },
+      { id: COURT_B, name: 'Marin Superior Court', slug: 'marin-superior', created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z' }
+    ],
+    judges: [judge(JUDGES[0], 0, COURT_A), judge(JUDGES[1], 1, COURT_A), judge(JUDGES[2], 2, COURT_B)],
+    cases,
+    court_assignments: [
+      { id: uuid(201), judge_id: JUDGES[0], court_id: COURT_A, assignment_start_date: '2020-01-01', assignment_end_date: null, assignment_type: 'primary', assignment_status: 'active', position_title: 'Judge' },
+      { id: uuid(202), judge_id: JUDGES[0], court_id: COURT_B, assignment_start_date: '2015-01-01', assignment_end_date: '2019-12-31', assignment_type: 'primary', assignment_status: 'inactive', position_title: 'Commissioner' }
+    ],
+    judge_analytics_cache: [
+      { judge_id: JUDGES[0], analytics: { total_cases_analyzed: 12, ai_model: 'judge_analytics_v3' }, created_at: '2025-10-01T00:00:00Z' },
+      { judge_id: JUDGES[1], analytics: { total_cases_analyzed: 0, ai_model: 'statistical_estimation' }, created_at: '2025-10-01T00:00:00Z' }
+    ]
+  }
+}
+
+/** Memory Supabase that counts table reads and implements the recent-cases RPC. */
+function instrumentedSupabase() {
+  const supabase = createMemorySupabase(seed())
+  const reads = {}
+  const rpcCalls = []
+  const from = supabase.from
+  supabase.from = (name) => {
+    reads[name] = (reads[name] ?? 0) + 1
+    return from(name)
+  }
+  supabase.rpc = async (name, args) => {
+    rpcCalls.push({ name, args })
+    assert.equal(name, 'get_recent_cases_for_judges')
+    const rows = []
+    for (const judgeId of args.p_judge_ids) {
+      const cases = supabase.tables.get('cases')
+        .filter((row) => row.judge_id === judgeId)
+        .sort((a, b) => String(b.decision_date ?? '').localeCompare(String(a.decision_date ?? '')) ||
+          String(b.filing_date).localeCompare(String(a.filing_date)))
+      rows.push(...cases.slice(0, args.p_limit))
+    }
+    return { data: rows, error: null }
+  }
+  return { supabase, reads, rpcCalls }
+}
+
+function options(supabase, overrides = {}) {
+  const charged = []
+  return {
+    charged,
+    options: {
+      supabase,
+      scopes: null,
+      maxCost: MAX_QUERY_COST,
+      charge: async (requests) => {
+        charged.push(requests)
+        return true
+      },
+      loaders: createLoaders(supabase, { courtBaseline: async (courtId) => (courtId === COURT_A ? BASELINE : null) }),
+      ...overrides
+    }
+  }
+}
+
+function analyze(query, variables = {}) {
+  const schema = getGraphQLSchema()
+  const document = parse(query)
+  const fragments = {}
+  for (const definition of document.definitions) {
+    if (definition.kind === 'FragmentDefinition') fragments[definition.name.value] = definition
+  }
+  return analyzeQuery(schema, document.definitions[0], fragments, variables)
+}
+
+async function testBatchedRelations() {
+  const { supabase, reads, rpcCalls } = instrumentedSupabase()
+  const { options: opts, charged } = options(supabase)
+  const result = await executeGraphQLRequest(
+    {
+      query: `query Panel($ids: [ID!]!) {
+        judges(ids: $ids) {
+          name total_cases aliases court_slug
+          court { name }
+          assignments(current: true) { position_title court { slug } }
+          recent_cases(limit: 2) { case_number judge { name } }
+        }
+      }`,
+      variables: { ids: [...JUDGES, 'not-a-uuid'] }
+    },
+    opts
+  )
+
+  assert.equal(result.status, 200)
+  assert.equal(result.body.errors, undefined)
+  const judges = result.body.data.judges
+  assert.equal(judges.length, 4)
+  assert.equal(judges[3], null, 'unknown ids resolve to null in place')
+  assert.deepEqual(judges.map((judge) => judge && judge.court_slug), ['orange-superior', 'orange-superior', 'marin-superior', null])
+  assert.equal(judges[0].total_cases, 0)
+  assert.deepEqual(judges[0].aliases, [])
+  assert.deepEqual(judges[0].assignments, [{ position_title: 'Judge', court: { slug: 'orange-superior' } }])
+  assert.deepEqual(judges[0].recent_cases.map((row) => row.case_number), ['C-0-3', 'C-0-2'])
+  assert.equal(judges[2].recent_cases[0].judge.name, 'Judge Chen')
+
+  // One query per table however many judges were selected
+  assert.equal(reads.judges, 1)
+  assert.equal(reads.courts, 1)
+  assert.equal(reads.court_assignments, 1)
+  assert.equal(rpcCalls.length, 1)
+  assert.deepEqual(rpcCalls[0].args, { p_judge_ids: JUDGES, p_limit: 2 })
+
+  const cost = result.body.extensions.cost
+  // judges + 4 x (court_slug + court + assignments x 10 courts + recent_cases x 2 judges)
+  assert.equal(cost.requested, 1 + 4 * (1 + 1 + (1 + 10 * 1) + (1 + 2 * 1)))
+  assert.equal(cost.requests, requestsForCost(cost.requested))
+  assert.deepEqual(charged, [cost.requests - 1])
+}
+
+async function testLookupsAndSearch() {
+  const { supabase } = instrumentedSupabase()
+  const { options: opts } = options(supabase)
+
+  const bySlug = await executeGraphQLRequest(
+    { query: '{ judge(slug: "judge-baker") { id } court(slug: "marin-superior") { name } case(id: "nope") { id } }' },
+    opts
+  )
+  assert.deepEqual(bySlug.body.data, { judge: { id: JUDGES[1] }, court: { name: 'Marin Superior Court' }, case: null })
+
+  const search = await executeGraphQLRequest(
+    { query: '{ search_judges(query: "judge", jurisdiction: "CA", limit: 5) { name court { name } } }' },
+    opts
+  )
+  assert.deepEqual(search.body.data.search_judges.map((judge) => judge.name), ['Judge Adams', 'Judge Baker'])
+
+  const missing = await executeGraphQLRequest({ query: '{ judge { id } }' }, opts)
+  assert.equal(missing.status, 200)
+  assert.equal(missing.body.data.judge, null)
+  assert.equal(missing.body.errors[0].extensions.code, 'BAD_USER_INPUT')
+
+  const badLimit = await executeGraphQLRequest({ query: `{ judge(id: "${JUDGES[0]}") { recent_cases(limit: 500) { id } } }` }, opts)
+  assert.match(badLimit.body.errors[0].message, /limit must be between 1 and 50/)
+}
+
+async function testAnalyticsAndScopes() {
+  const { supabase } = instrumentedSupabase()
+  const query = `{ judges(ids: ["${JUDGES[0]}", "${JUDGES[1]}", "${JUDGES[2]}"]) {
+    analytics { analytics generated_at }
+    bias_analysis
+  } }`
+
+  const denied = await executeGraphQLRequest({ query }, options(supabase, { scopes: ['judges:read'] }).options)
+  assert.equal(denied.status, 403)
+  assert.equal(denied.body.errors[0].extensions.code, 'FORBIDDEN')
+  assert.match(denied.body.errors[0].message, /analytics:read/)
+
+  const allowed = await executeGraphQLRequest({ query }, options(supabase, { scopes: ['judges:read', 'analytics:read'] }).options)
+  assert.equal(allowed.status, 200)
+  const [adams, baker, chen] = allowed.body.data.judges
+  assert.equal(adams.analytics.analytics.total_cases_analyzed, 12)
+  assert.equal(baker.analytics, null, 'synthetic analytics are not served')
+  assert.equal(baker.bias_analysis, null, 'no decided cases')
+  // The low-confidence attribution is left out, as in the REST route
+  const analyzed = adams.bias_analysis.case_type_patterns.reduce((sum, pattern) => sum + pattern.total_cases, 0)
+  assert.equal(analyzed, 3)
+  assert.ok(Array.isArray(adams.bias_analysis.classified_metrics))
+  assert.deepEqual(adams.bias_analysis.court_baseline, BASELINE)
+  assert.equal(chen.bias_analysis.court_baseline, null)
+
+  const legacy = await executeGraphQLRequest({ query }, options(supabase).options)
+  assert.equal(legacy.status, 200, 'callers without a customer key are not scope-restricted')
+}
+
+async function testCostLimits() {
+  assert.deepEqual(analyze('{ judge(id: "x") { name } }'), { cost: 1, depth: 2, scopes: [] })
+  const viaFragments = analyze(`
+    query($n: Int) { search_judges(query: "a", limit: $n) { ...J ... on Judge { court { name } } } }
+    fragment J on Judge { bias_analysis }
+  `, { n: 20 })
+  assert.equal(viaFragments.cost, 2 + 20 * (5 + 1))
+  assert.deepEqual(viaFragments.scopes, ['analytics:read'])
+  assert.equal(maxQueryCost(60), 300)
+  assert.equal(maxQueryCost(10_000), MAX_QUERY_COST)
+
+  const { supabase } = instrumentedSupabase()
+  const costly = await executeGraphQLRequest(
+    { query: '{ search_judges(query: "judge", limit: 50) { bias_analysis recent_cases(limit: 50) { judge { name } } } }' },
+    options(supabase, { maxCost: maxQueryCost(60) }).options
+  )
+  assert.equal(costly.status, 400)
+  assert.equal(costly.body.errors[0].extensions.code, 'QUERY_TOO_COSTLY')
+  assert.equal(costly.body.extensions.cost.maximum, 300)
+
+  // A negative limit fails in its resolver, but sibling fields still run, so it must not discount the cost
+  const ids = Array.from({ length: 50 }, (_, index) => `"${uuid(index + 1)}"`).join(', ')
+  const negative = `{ a: search_judges(query: "xx", limit: -10000) { bias_analysis } b: judges(ids: [${ids}]) { bias_analysis recent_cases(limit: 50) { judge { bias_analysis } } } }`
+  assert.equal(analyze(negative).cost, (2 + 5) + (1 + 50 * (5 + 1 + 50 * (1 + 5))))
+  assert.equal(analyze('{ search_judges(query: "xx", limit: 100000) { bias_analysis } }').cost, 2 + 50 * 5)
+  const bypass = await executeGraphQLRequest({ query: negative }, options(supabase, { maxCost: maxQueryCost(60) }).options)
+  assert.equal(bypass.status, 400)
+  assert.equal(bypass.body.errors[0].extensions.code, 'QUERY_TOO_COSTLY')
+
+  const deep = await executeGraphQLRequest(
+    { query: '{ case(id: "x") { judge { recent_cases { judge { recent_cases { judge { recent_cases { id } } } } } } } }' },
+    options(supabase).options
+  )
+  assert.equal(deep.status, 400)
+  assert.equal(deep.body.errors[0].extensions.code, 'QUERY_TOO_DEEP')
+
+  const limited = await executeGraphQLRequest(
+    { query: '{ search_judges(query: "judge") { name } }' },
+    options(supabase, { charge: async () => false }).options
+  )
+  assert.equal(limited.status, 429)
+  assert.equal(limited.body.errors[0].extensions.code, 'RATE_LIMITED')
+
+  const invalid = await executeGraphQLRequest({ query: '{ judge(id: "x") { salary } }' }, options(supabase).options)
+  assert.equal(invalid.status, 400)
+  assert.match(invalid.body.errors[0].message, /Cannot query field "salary"/)
+
+  const mutation = await executeGraphQLRequest({ query: 'mutation { judge(id: "x") { id } }' }, options(supabase).options)
+  assert.equal(mutation.status, 400, 'the schema is read-only')
+}
+
+async function testPersistedQueries() {
+  const { supabase } = instrumentedSupabase()
+  const query = `{ judge(id: "${JUDGES[2]}") { name } }`
+  const sha256Hash = sha256Hex(query)
+  const persistedQuery = { version: 1, sha256Hash }
+
+  const miss = await executeGraphQLRequest({ extensions: { persistedQuery } }, options(supabase).options)
+  assert.equal(miss.status, 200)
+  assert.equal(miss.body.errors[0].message, 'PersistedQueryNotFound')
+  assert.equal(miss.body.errors[0].extensions.code, 'PERSISTED_QUERY_NOT_FOUND')
+
+  const mismatch = await executeGraphQLRequest(
+    { query: '{ judge(id: "x") { id } }', extensions: { persistedQuery } },
+    options(supabase).options
+  )
+  assert.equal(mismatch.status, 400)
+  assert.equal(supabase.tables.get('graphql_persisted_queries').length, 0)
+
+  const register = await executeGraphQLRequest({ query, extensions: { persistedQuery } }, options(supabase).options)
+  assert.deepEqual(register.body.data, { judge: { name: 'Judge Chen' } })
+  assert.equal(supabase.tables.get('graphql_persisted_queries').length, 1)
+
+  const hit = await executeGraphQLRequest({ extensions: { persistedQuery } }, options(supabase).options)
+  assert.deepEqual(hit.body.data, { judge: { name: 'Judge Chen' } })
+
+  const invalidQuery = '{ judge(id: "x") { salary } }'
+  await executeGraphQLRequest(
+    { query: invalidQuery, extensions: { persistedQuery: { version: 1, sha256Hash: sha256Hex(invalidQuery) } } },
+    options(supabase).options
+  )
+  assert.equal(supabase.tables.get('graphql_persisted_queries').length, 1, 'invalid queries are not stored')
+
+  assert.equal(v1GraphQLRequestSchema.safeParse({ extensions: { persistedQuery } }).success, true)
+  assert.equal(v1GraphQLRequestSchema.safeParse({ query: 42 }).success, false)
+}
+
+async function testErrorMasking() {
+  const { supabase } = instrumentedSupabase()
+  supabase.rpc = async () => ({ data: null, error: { message: 'relation "cases" does not exist' } })
+  const originalError = console.error
+  console.error = () => {}
+  try {
+    const result = await executeGraphQLRequest(
+      { query: `{ judge(id: "${JUDGES[0]}") { name recent_cases { id } } }` },
+      options(supabase).options
+    )
+    assert.equal(result.status, 200)
+    assert.equal(result.body.data.judge, null)
+    assert.equal(result.body.errors[0].message, 'Internal server error')
+    assert.equal(result.body.errors[0].extensions.code, 'INTERNAL_SERVER_ERROR')
+    assert.deepEqual(result.body.errors[0].path, ['judge', 'recent_cases'])
+    assert.doesNotMatch(JSON.stringify(result.body), /does not exist/)
+  } finally {
+    console.error = originalError
+  }
+}
+
+async function run() {
+  await testBatchedRelations()
+  await testLookupsAndSearch()
+  await testAnalyticsAndScopes()
+  await testCostLimits()
+  await testPersistedQueries()
+  await testErrorMasking()
+  console.log('✓ GraphQL endpoint verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
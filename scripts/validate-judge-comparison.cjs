@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const { compareJudges, matchedWindow } = require('../lib/analytics/comparison')
+const { comparisonToCsv, comparisonToPdf } = require('../lib/analytics/comparison-export')
+
+function civilCases(count, plaintiffWins, { caseType = 'Civil', start = '2022-01-01' } = {}) {
+  const base = new Date(`${start}T00:00:00Z`)
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(base)
+    date.setUTCDate(date.getUTCDate() + index * 3)
+    return {
+      case_type: caseType,
+      outcome: index < plaintiffWins ? 'Judgment for plaintiff' : 'Judgment for defendant',
+      status: 'decided',
+      summary: '',
+      decision_date: date.toISOString().slice(0, 10)
+    }
+  })
+}
+
+function testMatchedWindow() {
+  const window = matchedWindow([
+    { id: 'a', name: 'A', cases: [{ decision_date: '2021-01-05' }, { decision_date: '2023-06-01' }] },
+    { id: 'b', name: 'B', cases: [{ filing_date: '2022-02-01' }, { decision_date: '2024-01-01' }] }
+  ])
+  assert.deepEqual(window, { start: '2022-02-01', end: '2023-06-01' })
+  assert.equal(matchedWindow([
+    { id: 'a', name: 'A', cases: [{ decision_date: '2020-01-01' }] },
+    { id: 'b', name: 'B', cases: [{ decision_date: '2021-01-01' }] }
+  ]), null)
+}
+
+function testSignificantDifference() {
+  const report = compareJudges([
+    { id: 'a', name: 'Judge A', cases: civilCases(120, 90) },
+    { id: 'b', name: 'Judge B', cases: civilCases(120, 36) },
+    { id: 'c', name: 'Judge C', cases: civilCases(120, 88) }
+  ])
+
+  const civil = report.metrics.find((metric) => metric.metric === 'civil')
+  assert.deepEqual(civil.case_types, ['civil'])
+  assert.equal(civil.judges[0].rate, 75)
+  assert.equal(civil.judges[1].rate, 30)
+  assert.equal(civil.comparisons.length, 3)
+
+  const [ab, ac, bc] = civil.comparisons
+  assert.equal(ab.significant, true)
+  assert.equal(ab.difference, 45)
+  assert.ok(ab.adjusted_p_value <= ab.p_value * 3 + 1e-9)
+  assert.equal(ac.significant, false)
+  assert.equal(bc.significant, true)
+}
+
+function testCaseTypeMixIsMatched() {
+  // A hears mostly contract-heavy civil work, B mostly personal injury; rates
+  // within each case type are identical, so the standardized rates must match
+  const judgeA = [
+    ...civilCases(80, 64, { caseType: 'Civil - Contract' }),
+    ...civilCases(20, 4, { caseType: 'Civil - Personal Injury' }),
+    ...civilCases(30, 15, { caseType: 'Civil - Probate Dispute' })
+  ]
+  const judgeB = [
+    ...civilCases(20, 16, { caseType: 'Civil - Contract' }),
+    ...civilCases(80, 16, { caseType: 'Civil - Personal Injury' })
+  ]
+  const report = compareJudges([
+    { id: 'a', name: 'A', cases: judgeA },
+    { id: 'b', name: 'B', cases: judgeB }
+  ])
+
+  const civil = report.metrics.find((metric) => metric.metric === 'civil')
+  assert.deepEqual(civil.case_types, ['civil - contract', 'civil - personal injury'])
+  assert.equal(civil.judges[0].rate, civil.judges[1].rate)
+  assert.notEqual(civil.judges[0].raw_rate, civil.judges[1].raw_rate)
+  assert.equal(civil.judges[0].excluded_cases, 30)
+  assert.equal(civil.comparisons[0].significant, false)
+}
+
+function testExports() {
+  const report = compareJudges([
+    { id: 'a', name: 'Judge "Ann" A', cases: civilCases(40, 30) },
+    { id: 'b', name: 'Judge B', cases: civilCases(40, 10) }
+  ])
+
+  const csv = comparisonToCsv(report).split('\n')
+  assert.ok(csv[0].startsWith('metric,label,window_start'))
+  const civilRow = csv.find((row) => row.startsWith('civil,'))
+  assert.ok(civilRow.includes('"Judge ""Ann"" A"'))
+
+  const pdf = Buffer.from(comparisonToPdf(report)).toString('latin1')
+  assert.ok(pdf.startsWith('%PDF-1.4'))
+  assert.ok(pdf.trimEnd().endsWith('%%EOF'))
+  const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)[1])
+  assert.equal(pdf.slice(xrefOffset, xrefOffset + 4), 'xref')
+  const firstObject = Number(pdf.match(/xref\n0 \d+\n0000000000 65535 f \n(\d{10})/)[1])
+  assert.equal(pdf.slice(firstObject, firstObject + 7), '1 0 obj')
+}
+
+function run() {
+  testMatchedWindow()
+  testSignificantDifference()
+  testCaseTypeMixIsMatched()
+  testExports()
+
+  console.log('✓ judge comparison statistics and exports verified')
+}
+
+run()
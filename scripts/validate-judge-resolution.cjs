@@ -0,0 +1,190 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const path = require('node:path')
+
+// Replay must not need credentials
+delete process.env.COURTLISTENER_API_KEY
+delete process.env.COURTLISTENER_API_TOKEN
+
+const {
+  AUTO_LINK_THRESHOLD,
+  REVIEW_THRESHOLD,
+  detectJudgeDuplicates,
+  findDuplicateCandidates,
+  normalizeJudgeName,
+  scoreJudgeMatch,
+  toJudgeIdentity
+} = require('../lib/judges/entity-resolution')
+const { JudgeMergeConflictError, mergeJudges } = require('../lib/judges/merge')
+const { dismissJudgeDuplicate, JudgeDuplicateConflictError, listJudgeDuplicateCandidates } = require('../lib/admin/judge-duplicates')
+const { CourtListenerClient } = require('../lib/courtlistener/client')
+const { JudgeSyncManager } = require('../lib/sync/judge-sync')
+const { createMemorySupabase } = require('./fixtures/memory-supabase.cjs')
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'courtlistener')
+
+function identity(overrides) {
+  return toJudgeIdentity({ id: 'judge', name: '', court_name: null, jurisdiction: 'CA', ...overrides })
+}
+
+function testNormalizeJudgeName() {
+  assert.equal(normalizeJudgeName('Hon. Maria L. Lopez'), 'maria l lopez')
+  assert.equal(normalizeJudgeName('Lopez, Maria L.'), 'maria l lopez')
+  assert.equal(normalizeJudgeName('The Honorable  Robert Chen, Jr.'), 'robert chen')
+  assert.equal(normalizeJudgeName('Presiding Judge Ana Ruiz'), 'ana ruiz')
+}
+
+function testScoreJudgeMatch() {
+  const lopez = identity({
+    id: 'a',
+    name: 'Maria L. Lopez',
+    court_name: 'Superior Court of California, County of Los Angeles',
+    appointed_date: '2012-03-01'
+  })
+
+  const sameRecord = scoreJudgeMatch(lopez, identity({ id: 'b', name: 'Lopez, Maria L.', court_name: 'Los Angeles County Superior Court', appointed_date: '2012-03-15' }))
+  assert.deepEqual(sameRecord.signals, { name: 1, court: 1, appointment: 1 })
+  assert.equal(sameRecord.score, 1)
+
+  // Middle initial dropped by an import: a name variant, with unknown appointment
+  const variant = scoreJudgeMatch(lopez, identity({ id: 'c', name: 'Hon. Maria Lopez', court_name: 'Los Angeles Superior Court' }))
+  assert.equal(variant.signals.name, 0.9)
+  assert.equal(variant.signals.appointment, null)
+  assert.ok(variant.score >= REVIEW_THRESHOLD && variant.score < AUTO_LINK_THRESHOLD, `variant scored ${variant.score}`)
+
+  // Aliases count as names
+  const alias = scoreJudgeMatch(lopez, identity({ id: 'd', name: 'Maria Lopez-Garcia', aliases: ['Maria L. Lopez'] }))
+  assert.equal(alias.signals.name, 1)
+
+  // Same surname, different person
+  const relative = scoreJudgeMatch(lopez, identity({ id: 'e', name: 'Carlos Lopez', court_name: 'Superior Court of California, County of Los Angeles', appointed_date: '2001-06-01' }))
+  assert.ok(relative.score < REVIEW_THRESHOLD, `relative scored ${relative.score}`)
+
+  assert.equal(scoreJudgeMatch(lopez, identity({ id: 'f', name: 'Daniel Okafor' })).score, 0)
+
+  // Distinct CourtListener people never reach review
+  const conflicting = scoreJudgeMatch(
+    identity({ id: 'g', name: 'John Smith', courtlistener_id: '1' }),
+    identity({ id: 'h', name: 'John Smith', courtlistener_id: '2' })
+  )
+  assert.equal(conflicting.score, 0.5)
+}
+
+function testFindDuplicateCandidates() {
+  const judges = [
+    identity({ id: 'b', name: 'Maria Lopez', court_name: 'Los Angeles County Superior Court' }),
+    identity({ id: 'a', name: 'Maria L. Lopez', court_name: 'Superior Court of California, County of Los Angeles' }),
+    identity({ id: 'c', name: 'Carlos Lopez', court_name: 'Superior Court of California, County of Fresno' }),
+    identity({ id: 'd', name: 'Daniel Okafor', court_name: 'California Court of Appeal' })
+  ]
+  const candidates = findDuplicateCandidates(judges)
+  assert.equal(candidates.length, 1)
+  assert.equal(candidates[0].judgeId, 'a', 'pairs are ordered by id')
+  assert.equal(candidates[0].candidateId, 'b')
+}
+
+async function testDetectAndReview() {
+  const supabase = createMemorySupabase({
+    judges: [
+      { id: 'judge-1', name: 'Maria L. Lopez', slug: 'maria-l-lopez', court_name: 'Los Angeles County Superior Court', jurisdiction: 'CA', total_cases: 4 },
+      { id: 'judge-2', name: 'Hon. Maria L. Lopez', slug: 'hon-maria-l-lopez', court_name: 'Superior Court of Los Angeles County', jurisdiction: 'CA', total_cases: 1 },
+      { id: 'judge-3', name: 'Robert Chen', jurisdiction: 'CA', courtlistener_data: { aliases: ['Bob Chen'] } },
+      { id: 'judge-4', name: 'Bob Chen', jurisdiction: 'CA' },
+      { id: 'judge-5', name: 'Ana Ruiz', jurisdiction: 'NV' }
+    ]
+  })
+
+  const first = await detectJudgeDuplicates(supabase)
+  assert.deepEqual(first, { scanned: 5, candidates: 2, queued: 2 })
+
+  const queue = await listJudgeDuplicateCandidates(supabase)
+  assert.equal(queue.length, 2)
+  assert.equal(queue[0].judge.id, 'judge-1')
+  assert.equal(queue[0].candidate.slug, 'hon-maria-l-lopez')
+  assert.equal(queue[1].judge.name, 'Robert Chen', 'CourtListener aliases link Bob and Robert')
+
+  await dismissJudgeDuplicate(supabase, queue[1].id, 'admin-1')
+  await assert.rejects(() => dismissJudgeDuplicate(supabase, queue[1].id, 'admin-1'), JudgeDuplicateConflictError)
+
+  const second = await detectJudgeDuplicates(supabase)
+  assert.equal(second.queued, 0, 'known pairs are not queued again')
+  const dismissed = supabase.tables.get('judge_duplicate_candidates').find((row) => row.id === queue[1].id)
+  assert.equal(dismissed.status, 'dismissed', 'dismissed pairs stay dismissed')
+  assert.equal(dismissed.reviewed_by, 'admin-1')
+  assert.equal((await listJudgeDuplicateCandidates(supabase)).length, 1)
+
+  assert.deepEqual(await detectJudgeDuplicates(supabase, { jurisdiction: 'NV' }), { scanned: 1, candidates: 0, queued: 0 })
+}
+
+async function testMergeJudges() {
+  const supabase = createMemorySupabase()
+  const calls = []
+  supabase.rpc = async (name, params) => {
+    calls.push({ name, params })
+    if (params.p_source_id === 'booked') {
+      return { data: null, error: { code: 'JM002', message: 'Both judges have a booked ad at position 1' } }
+    }
+    return {
+      data: {
+        merge_id: 'merge-1',
+        moved: { cases: 3, bookmarks: 1 },
+        before: { id: 'judge-1', name: 'Maria L. Lopez', jurisdiction: 'CA', appointed_date: null },
+        after: { id: 'judge-1', name: 'Maria L. Lopez', jurisdiction: 'CA', appointed_date: '2012-03-01' }
+      },
+      error: null
+    }
+  }
+
+  const result = await mergeJudges(supabase, { sourceId: 'judge-2', targetId: 'judge-1', mergedBy: 'admin-1' })
+  assert.deepEqual(result, { mergeId: 'merge-1', targetId: 'judge-1', moved: { cases: 3, bookmarks: 1 } })
+  assert.deepEqual(calls[0], { name: 'merge_judges', params: { p_source_id: 'judge-2', p_target_id: 'judge-1', p_merged_by: 'admin-1' } })
+
+  const [change] = supabase.tables.get('entity_changes')
+  assert.equal(change.entity_id, 'judge-1')
+  assert.equal(change.source, 'judge-merge')
+  assert.equal(change.sync_id, 'merge-1')
+  assert.deepEqual(change.changes, { appointed_date: { old: null, new: '2012-03-01' } })
+
+  await assert.rejects(() => mergeJudges(supabase, { sourceId: 'booked', targetId: 'judge-1' }), JudgeMergeConflictError)
+}
+
+async function testSyncLinksUnlinkedJudge() {
+  const supabase = createMemorySupabase({
+    judges: [
+      { id: 'judge-a', name: 'Maria Alvarez', courtlistener_id: '1001', jurisdiction: 'CA', updated_at: '2020-01-01T00:00:00Z' },
+      { id: 'judge-ca', name: 'Hon. Daniel Okafor', courtlistener_id: null, court_name: 'California Court of Appeal', jurisdiction: 'CA', aliases: [] }
+    ]
+  })
+  const manager = new JudgeSyncManager({ supabase, courtListener: new CourtListenerClient({ mode: 'replay', fixturesDir: FIXTURES_DIR }) })
+  const result = await manager.syncJudges({ jurisdiction: 'CA' })
+
+  assert.equal(result.success, true, result.errors.join('; '))
+  assert.equal(result.judgesCreated, 0, 'the CA import record is linked instead of duplicated')
+  assert.equal(result.judgesUpdated, 2)
+
+  const linked = supabase.tables.get('judges').find((judge) => judge.id === 'judge-ca')
+  assert.equal(String(linked.courtlistener_id), '1002')
+  assert.equal(linked.name, 'Daniel Okafor')
+  assert.deepEqual(linked.aliases, ['Hon. Daniel Okafor'])
+}
+
+async function run() {
+  testNormalizeJudgeName()
+  testScoreJudgeMatch()
+  testFindDuplicateCandidates()
+  await testDetectAndReview()
+  await testMergeJudges()
+  await testSyncLinksUnlinkedJudge()
+
+  console.log('✓ judge entity resolution verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const {
+  FEDERAL_JURISDICTION,
+  STATE_JURISDICTIONS,
+  courtListenerCourtIds,
+  getJurisdictionListing,
+  listJurisdictionListings,
+  resolveCourtJurisdiction,
+  resolveSyncJurisdictions
+} = require('../lib/jurisdictions/config')
+
+function testConfiguredStates() {
+  assert.deepEqual(STATE_JURISDICTIONS.map((state) => state.code), ['CA', 'NV', 'OR', 'AZ'])
+
+  const ids = STATE_JURISDICTIONS.flatMap((state) => [...state.courts, ...state.federalCourts].map((court) => court.courtListenerId))
+  assert.equal(new Set(ids).size, ids.length, 'each CourtListener court belongs to one jurisdiction')
+
+  assert.deepEqual(courtListenerCourtIds('nv'), ['nev', 'nevapp'])
+  assert.ok(courtListenerCourtIds('US').includes('azd'))
+  assert.ok(!courtListenerCourtIds('US').includes('ariz'))
+  assert.equal(courtListenerCourtIds('TX'), null)
+}
+
+function testResolveCourtJurisdiction() {
+  // Configured IDs win over CourtListener's own jurisdiction code
+  assert.deepEqual(resolveCourtJurisdiction({ id: 'calctapp', jurisdiction: 'S', name: 'California Court of Appeal' }), { jurisdiction: 'CA', type: 'state' })
+  assert.deepEqual(resolveCourtJurisdiction({ id: 'ord', jurisdiction: 'FD', name: 'District Court, D. Oregon' }), { jurisdiction: 'US', type: 'federal' })
+  assert.deepEqual(resolveCourtJurisdiction({ id: 'ca9', jurisdiction: 'F', name: 'Court of Appeals for the Ninth Circuit' }), { jurisdiction: 'US', type: 'federal' })
+
+  // Name fallbacks apply each state's court-type mapping
+  assert.deepEqual(resolveCourtJurisdiction({ name: 'Circuit Court of Oregon for Multnomah County' }), { jurisdiction: 'OR', type: 'state' })
+  assert.deepEqual(resolveCourtJurisdiction({ name: 'Eighth Judicial District Court of Nevada' }), { jurisdiction: 'NV', type: 'state' })
+  assert.deepEqual(resolveCourtJurisdiction({ name: 'Las Vegas Justice Court, Nevada' }), { jurisdiction: 'NV', type: 'local' })
+  assert.deepEqual(resolveCourtJurisdiction({ full_name: 'Superior Court of Arizona, Maricopa County' }), { jurisdiction: 'AZ', type: 'state' })
+  assert.deepEqual(resolveCourtJurisdiction({ name: 'District Court, D. Nevada' }), { jurisdiction: 'US', type: 'federal' })
+
+  // Unconfigured states are left unassigned rather than defaulting to California
+  assert.deepEqual(resolveCourtJurisdiction({ id: 'tex', jurisdiction: 'S', name: 'Texas Supreme Court' }), { jurisdiction: null, type: 'state' })
+}
+
+function testResolveSyncJurisdictions() {
+  assert.deepEqual(resolveSyncJurisdictions(''), ['CA', 'NV', 'OR', 'AZ'])
+  assert.deepEqual(resolveSyncJurisdictions('az, ca'), ['CA', 'AZ'])
+  assert.deepEqual(resolveSyncJurisdictions(['nv', 'TX']), ['NV'], 'unconfigured codes are dropped')
+}
+
+function testListings() {
+  const listings = listJurisdictionListings()
+  assert.deepEqual(listings.slice(0, 5).map((listing) => listing.slug), ['california', 'nevada', 'oregon', 'arizona', 'federal'])
+  assert.equal(new Set(listings.map((listing) => listing.slug)).size, listings.length, 'slugs are unique')
+
+  assert.equal(getJurisdictionListing('federal').jurisdictionValue, FEDERAL_JURISDICTION)
+  assert.equal(getJurisdictionListing('maricopa-county').jurisdictionValue, 'AZ')
+  assert.equal(getJurisdictionListing('clark-county').stateName, 'Nevada')
+  assert.equal(getJurisdictionListing('texas'), null)
+}
+
+function run() {
+  testConfiguredStates()
+  testResolveCourtJurisdiction()
+  testResolveSyncJurisdictions()
+  testListings()
+
+  console.log('✓ jurisdiction config verified')
+}
+
+run()
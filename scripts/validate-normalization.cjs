@@ -42,6 +42,9 @@ function testNormalizeJurisdiction() {
   assert.equal(normalizeJurisdiction('ca'), 'CA')
   assert.equal(normalizeJurisdiction('California Superior Court'), 'CA')
   assert.equal(normalizeJurisdiction('NY'), 'NY')
+  assert.equal(normalizeJurisdiction('Eighth Judicial District Court of Nevada'), 'NV')
+  assert.equal(normalizeJurisdiction('Oregon'), 'OR')
+  assert.equal(normalizeJurisdiction('Superior Court of Arizona, Maricopa County'), 'AZ')
 }
 
 function testNormalizeCaseNumber() {
@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const fs = require('node:fs')
+const path = require('node:path')
+const { z } = require('zod')
+
+const { zodToOpenApi } = require('../lib/api/json-schema')
+const { API_OPERATIONS, buildOpenApiSpec } = require('../lib/api/openapi')
+const {
+  v1AnalyticsHistoryQuerySchema,
+  v1ChangesQuerySchema,
+  v1CompareQuerySchema,
+  v1JudgeExportQuerySchema,
+  v1JudgeSearchQuerySchema
+} = require('../lib/api/v1-schemas')
+const { encodeChangeCursor } = require('../lib/changes/service')
+
+const V1_DIR = path.join(__dirname, '..', 'app', 'api', 'v1')
+const JUDGE_A = '11111111-1111-4111-8111-111111111111'
+const JUDGE_B = '22222222-2222-4222-8222-222222222222'
+
+/** Every v1 route file with its OpenAPI path, method and the scope it authorizes with. */
+function v1Routes(dir = V1_DIR) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name)
+    if (entry.isDirectory()) return v1Routes(full)
+    if (entry.name !== 'route.ts') return []
+    const route = '/api/v1/' + path.relative(V1_DIR, dir).split(path.sep).join('/')
+    const source = fs.readFileSync(full, 'utf8')
+    const scope = source.match(/authorizeV1Request\(request, \{ scope: '([^']+)'/)
+    const method = source.match(/export async function (GET|POST)\b/)
+    return [{ path: route.replace(/\[(\w+)\]/g, '{$1}'), method: method[1].toLowerCase(), scope: scope && scope[1] }]
+  })
+}
+
+function resolveRef(spec, ref) {
+  return ref.replace(/^#\//, '').split('/').reduce((node, key) => node && node[key], spec)
+}
+
+function collectRefs(node, refs = []) {
+  if (Array.isArray(node)) node.forEach((item) => collectRefs(item, refs))
+  else if (node && typeof node === 'object') {
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '$ref') refs.push(value)
+      else collectRefs(value, refs)
+    }
+  }
+  return refs
+}
+
+function testConverter() {
+  const schema = z
+    .object({
+      id: z.string().uuid().describe('Judge ID'),
+      day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      count: z.coerce.number().int().min(1).max(20).default(10),
+      ratio: z.number().gt(0),
+      quality: z.enum(['low', 'high']).nullable(),
+      span: z.tuple([z.string().nullable(), z.string().nullable()]),
+      metrics: z.record(z.number().nullable()),
+      kind: z.union([z.literal('a'), z.literal('b')]),
+      flag: z.enum(['true', 'false']).optional().transform((value) => value === 'true')
+    })
+    .passthrough()
+
+  assert.deepEqual(zodToOpenApi(schema), {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid', description: 'Judge ID' },
+      day: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+      count: { type: 'integer', minimum: 1, maximum: 20, default: 10 },
+      ratio: { type: 'number', minimum: 0, exclusiveMinimum: true },
+      quality: { type: 'string', enum: ['low', 'high', null], nullable: true },
+      span: { type: 'array', items: { type: 'string', nullable: true }, minItems: 2, maxItems: 2 },
+      metrics: { type: 'object', additionalProperties: { type: 'number', nullable: true } },
+      kind: { type: 'string', enum: ['a', 'b'] },
+      flag: { type: 'string', enum: ['true', 'false'] }
+    },
+    required: ['id', 'ratio', 'quality', 'span', 'metrics', 'kind'],
+    additionalProperties: true
+  })
+  assert.throws(() => zodToOpenApi(z.bigint()), /No OpenAPI mapping/)
+}
+
+function testQuerySchemas() {
+  assert.deepEqual(v1JudgeSearchQuerySchema.parse({ q: '  Smith ' }), { q: 'Smith', limit: 10 })
+  assert.ok(!v1JudgeSearchQuerySchema.safeParse({ q: 'Smith', limit: '50' }).success, 'limit above 20 is rejected')
+  assert.deepEqual(v1JudgeExportQuerySchema.parse({ format: 'JSON' }), { page: 1, per_page: 500, format: 'json' })
+
+  assert.deepEqual(v1CompareQuerySchema.parse({ judges: `${JUDGE_A}, ${JUDGE_B},${JUDGE_A}` }).judges, [JUDGE_A, JUDGE_B])
+  const single = v1CompareQuerySchema.safeParse({ judges: JUDGE_A })
+  assert.match(single.error.issues[0].message, /between 2 and 5/)
+  const invalid = v1CompareQuerySchema.safeParse({ judges: `${JUDGE_A},nope` })
+  assert.deepEqual(invalid.error.issues.map((issue) => [issue.path.join('.'), issue.message]), [['judges.1', 'Invalid judge ID format']])
+  assert.ok(!v1CompareQuerySchema.safeParse({ judges: `${JUDGE_A},${JUDGE_B}`, format: 'xml' }).success)
+
+  const history = v1AnalyticsHistoryQuerySchema.safeParse({ from: JUDGE_A })
+  assert.equal(history.error.issues[0].message, 'from and to must be provided together')
+  assert.equal(v1AnalyticsHistoryQuerySchema.parse({ include_analytics: 'true' }).include_analytics, true)
+  assert.equal(v1AnalyticsHistoryQuerySchema.parse({}).include_analytics, false)
+  assert.equal(v1AnalyticsHistoryQuerySchema.parse({}).limit, 25)
+  for (const limit of ['abc', '0', '-5', '101', '2.5']) {
+    assert.ok(!v1AnalyticsHistoryQuerySchema.safeParse({ limit }).success, `limit=${limit} is rejected`)
+  }
+
+  const cursor = encodeChangeCursor(42)
+  assert.deepEqual(v1ChangesQuerySchema.parse({ since: cursor, entity_type: 'Judge,case' }), {
+    since: cursor,
+    entity_type: ['judge', 'case'],
+    limit: 500
+  })
+  assert.equal(v1ChangesQuerySchema.safeParse({ since: 'garbage' }).error.issues[0].message, 'Invalid cursor')
+  assert.match(v1ChangesQuerySchema.safeParse({ entity_type: 'opinion' }).error.issues[0].message, /comma-separated list/)
+}
+
+function testSpec() {
+  const spec = buildOpenApiSpec()
+  assert.equal(spec.openapi, '3.0.3')
+
+  const routes = v1Routes()
+  assert.ok(routes.length >= 9)
+  for (const route of routes) {
+    const operation = spec.paths[route.path]?.[route.method]
+    assert.ok(operation, `${route.method.toUpperCase()} ${route.path} is documented`)
+    assert.equal(operation['x-required-scope'], route.scope, `${route.path} documents the scope it enforces`)
+    const success = operation.responses['200'] || operation.responses['202']
+    assert.ok(success, `${route.path} documents its success response`)
+    for (const status of ['401', '403', '429', '500']) {
+      assert.ok(operation.responses[status], `${route.path} documents ${status}`)
+    }
+    assert.ok(success.headers['RateLimit-Remaining'])
+    for (const param of operation.parameters.filter((p) => p.in === 'path')) {
+      assert.ok(route.path.includes(`{${param.name}}`), `${route.path} declares path parameter ${param.name}`)
+      assert.equal(param.required, true)
+    }
+  }
+  const documented = Object.keys(spec.paths).filter((p) => p.startsWith('/api/v1/'))
+  assert.deepEqual(documented.sort(), routes.map((route) => route.path).sort(), 'no stale v1 paths')
+
+  const compare = spec.paths['/api/v1/compare'].get
+  const params = Object.fromEntries(compare.parameters.map((param) => [param.name, param]))
+  assert.equal(params.judges.required, true)
+  assert.deepEqual(params.years.schema, { type: 'integer', minimum: 1, maximum: 10, default: 3 })
+  assert.deepEqual(params.format.schema, { type: 'string', enum: ['json', 'csv', 'pdf'], default: 'json' })
+  assert.deepEqual(Object.keys(compare.responses['200'].content), ['application/json', 'text/csv', 'application/pdf'])
+
+  const stream = spec.paths['/api/v1/export/{dataset}'].get
+  assert.deepEqual(Object.keys(stream.responses['200'].content), ['text/csv', 'application/x-ndjson', 'application/vnd.apache.parquet'])
+  assert.ok(stream.responses['200'].headers['X-Next-Cursor'])
+  const createExport = spec.paths['/api/v1/export/jobs'].post
+  assert.equal(createExport.requestBody.content['application/json'].schema.$ref, '#/components/schemas/ExportJobRequest')
+  assert.deepEqual(spec.components.schemas.ExportJobRequest.required, ['dataset'])
+  assert.ok(createExport.responses['202'] && !createExport.responses['200'])
+
+  const timeToRuling = spec.paths['/api/v1/analytics/time_to_ruling'].get
+  assert.deepEqual(timeToRuling.parameters.filter((param) => param.required).map((param) => param.name), ['judge_id'])
+
+  const quota = spec.components.responses.TooManyRequests.headers
+  assert.ok(quota['X-Quota-Limit'] && quota['X-Quota-Used'] && quota['RateLimit-Reset'])
+  assert.deepEqual(spec.paths['/api/stats/judges'].get.security, [], 'stats routes are public')
+
+  const profile = spec.components.schemas.JudgeProfile
+  assert.ok(profile.required.includes('analytics'))
+  assert.equal(profile.properties.analytics.nullable, true)
+  assert.deepEqual(profile.properties.analytics.properties.quality.enum, ['low', 'good', 'high'])
+
+  for (const ref of collectRefs(spec)) {
+    assert.ok(resolveRef(spec, ref), `${ref} resolves`)
+  }
+  const operationIds = API_OPERATIONS.map((operation) => spec.paths[operation.path][operation.method || 'get'].operationId)
+  assert.equal(new Set(operationIds).size, operationIds.length, 'operation IDs are unique')
+  assert.ok(operationIds.includes('v1JudgesByIdAnalyticsHistory'))
+  assert.ok(operationIds.includes('v1ExportJobsPost'))
+}
+
+async function run() {
+  testConverter()
+  testQuerySchemas()
+  testSpec()
+
+  console.log('✓ OpenAPI spec generation and v1 request schemas verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
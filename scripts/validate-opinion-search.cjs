@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const { buildCaseUrl, parseHighlightedSnippet, toWebSearchQuery } = require('../lib/search/opinions')
+
+function testWebSearchQuery() {
+  assert.equal(toWebSearchQuery('negligence AND damages'), 'negligence damages')
+  assert.equal(toWebSearchQuery('negligence NOT medical'), 'negligence -medical')
+  assert.equal(toWebSearchQuery('custody OR visitation'), 'custody or visitation')
+  assert.equal(toWebSearchQuery('"summary judgment" AND "NOT granted"'), '"summary judgment" "NOT granted"')
+  assert.equal(toWebSearchQuery('  breach   of  contract '), 'breach of contract')
+  assert.equal(toWebSearchQuery('x'.repeat(400)).length, 256)
+}
+
+function testHighlightedSnippet() {
+  assert.deepEqual(parseHighlightedSnippet('the [[hl]]motion[[/hl]] was [[hl]]granted[[/hl]]'), [
+    { text: 'the ', highlighted: false },
+    { text: 'motion', highlighted: true },
+    { text: ' was ', highlighted: false },
+    { text: 'granted', highlighted: true }
+  ])
+  assert.deepEqual(parseHighlightedSnippet('<b>plain</b>\n text'), [{ text: '<b>plain</b> text', highlighted: false }])
+  assert.deepEqual(parseHighlightedSnippet('[[hl]]unterminated'), [{ text: 'unterminated', highlighted: true }])
+  assert.deepEqual(parseHighlightedSnippet(null), [])
+}
+
+function testCaseUrl() {
+  assert.equal(buildCaseUrl('https://example.test/case', '123'), 'https://example.test/case')
+  assert.equal(buildCaseUrl(null, '123'), 'https://www.courtlistener.com/opinion/123/')
+  assert.equal(buildCaseUrl(null, 'docket-77'), 'https://www.courtlistener.com/docket/77/')
+  assert.equal(buildCaseUrl(null, 'abc'), null)
+}
+
+function run() {
+  testWebSearchQuery()
+  testHighlightedSnippet()
+  testCaseUrl()
+
+  console.log('✓ opinion search helpers verified')
+}
+
+run()
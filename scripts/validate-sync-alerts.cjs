@@ -0,0 +1,345 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const net = require('node:net')
+const { createHmac } = require('node:crypto')
+
+const {
+  applyAlertConditions,
+  deliverPendingAlerts,
+  evaluateFreshness,
+  listFiringAlerts,
+  runSyncAlertChecks
+} = require('../lib/alerts/sync-alerts')
+const { createAlertChannelsFromEnv, createSlackChannel, createWebhookChannel } = require('../lib/alerts/channels')
+const { SmtpError, formatMessage, sendMail } = require('../lib/alerts/smtp')
+const { createMemorySupabase } = require('./fixtures/memory-supabase.cjs')
+
+const NOW = new Date('2025-10-19T12:00:00Z')
+
+function hoursAgo(hours) {
+  return new Date(NOW.getTime() - hours * 3_600_000).toISOString()
+}
+
+function court(overrides) {
+  return {
+    court_id: 'court-1',
+    court_name: 'Superior Court of Orange County',
+    jurisdiction: 'CA',
+    courts_synced_at: hoursAgo(1),
+    judges_synced_at: hoursAgo(1),
+    decisions_synced_at: hoursAgo(1),
+    ...overrides
+  }
+}
+
+function recordingChannel(name, { fail = false } = {}) {
+  const batches = []
+  return {
+    name,
+    batches,
+    async send(notifications) {
+      batches.push(notifications)
+      if (fail) throw new Error(`${name} unreachable`)
+    }
+  }
+}
+
+async function testEvaluateFreshness() {
+  assert.deepEqual(evaluateFreshness([court()], [], NOW), [], 'fresh courts raise nothing')
+
+  const stale = evaluateFreshness([court({ decisions_synced_at: hoursAgo(200) })], [], NOW)
+  assert.equal(stale.length, 1)
+  assert.equal(stale[0].alertKey, 'freshness:decisions:court-1')
+  assert.equal(stale[0].severity, 'warning')
+  assert.match(stale[0].summary, /Decisions for Superior Court of Orange County are 8 days old \(SLO 168h\)/)
+
+  const critical = evaluateFreshness([court({ decisions_synced_at: hoursAgo(400) })], [], NOW)
+  assert.equal(critical[0].severity, 'critical', 'past twice the SLO escalates')
+
+  const slos = [
+    { entity_type: 'decisions', court_id: null, max_age_hours: 24, enabled: true },
+    { entity_type: 'decisions', court_id: 'court-2', max_age_hours: 500, enabled: true },
+    { entity_type: 'judges', court_id: 'court-2', max_age_hours: 1, enabled: false },
+    { entity_type: 'judges', court_id: 'court-3', max_age_hours: 48, enabled: true }
+  ]
+  const rows = [
+    court({ decisions_synced_at: hoursAgo(30) }),
+    court({ court_id: 'court-2', decisions_synced_at: hoursAgo(30), judges_synced_at: hoursAgo(100) }),
+    court({ court_id: 'court-3', judges_synced_at: null, decisions_synced_at: null })
+  ]
+  assert.deepEqual(
+    evaluateFreshness(rows, slos, NOW).map((condition) => [condition.alertKey, condition.severity]),
+    [
+      ['freshness:decisions:court-1', 'warning'],
+      ['freshness:judges:court-3', 'critical']
+    ],
+    'entity override applies, court override wins, disabled rows silence and never-synced needs a court SLO'
+  )
+}
+
+async function testApplyConditions() {
+  const supabase = createMemorySupabase()
+  const condition = {
+    alertKey: 'freshness:decisions:court-1',
+    kind: 'freshness',
+    severity: 'warning',
+    summary: 'Decisions are stale',
+    details: {}
+  }
+
+  assert.deepEqual(
+    await applyAlertConditions(supabase, [condition], { kinds: ['freshness'], now: NOW }),
+    { opened: 1, escalated: 0, resolved: 0, ongoing: 0 }
+  )
+  assert.deepEqual(
+    await applyAlertConditions(supabase, [condition], { kinds: ['freshness'], now: NOW }),
+    { opened: 0, escalated: 0, resolved: 0, ongoing: 1 },
+    'a condition that persists keeps its alert'
+  )
+  assert.equal(supabase.tables.get('sync_alerts').length, 1)
+
+  const [alert] = supabase.tables.get('sync_alerts')
+  alert.notified_at = hoursAgo(1)
+  assert.deepEqual(
+    await applyAlertConditions(supabase, [{ ...condition, severity: 'critical' }], { kinds: ['freshness'], now: NOW }),
+    { opened: 0, escalated: 1, resolved: 0, ongoing: 0 }
+  )
+  assert.equal(alert.severity, 'critical')
+  assert.equal(alert.notified_at, null, 'escalation is announced again')
+
+  await applyAlertConditions(supabase, [{ ...condition, severity: 'warning' }], { kinds: ['freshness'], now: NOW })
+  assert.equal(alert.severity, 'critical', 'severity never de-escalates while firing')
+
+  assert.deepEqual(
+    await applyAlertConditions(supabase, [], { kinds: ['circuit_breaker'], now: NOW }),
+    { opened: 0, escalated: 0, resolved: 0, ongoing: 0 },
+    'runs of other kinds leave the alert alone'
+  )
+  assert.deepEqual(
+    await applyAlertConditions(supabase, [], { kinds: ['freshness'], now: NOW }),
+    { opened: 0, escalated: 0, resolved: 1, ongoing: 0 }
+  )
+  assert.equal(alert.status, 'resolved')
+  assert.equal(alert.resolved_at, NOW.toISOString())
+
+  await applyAlertConditions(supabase, [condition], { kinds: ['freshness'], now: NOW })
+  assert.equal(supabase.tables.get('sync_alerts').length, 2, 'a recurrence opens a new alert')
+}
+
+async function testDelivery() {
+  const supabase = createMemorySupabase({
+    sync_alerts: [
+      { id: 'alert-1', alert_key: 'a', kind: 'freshness', severity: 'warning', status: 'firing', summary: 'A', fired_at: hoursAgo(2), notified_at: null },
+      { id: 'alert-2', alert_key: 'b', kind: 'freshness', severity: 'warning', status: 'resolved', summary: 'B', fired_at: hoursAgo(5), resolved_at: hoursAgo(1), notified_at: hoursAgo(4), resolve_notified_at: null },
+      { id: 'alert-3', alert_key: 'c', kind: 'freshness', severity: 'warning', status: 'resolved', summary: 'C', fired_at: hoursAgo(5), resolved_at: hoursAgo(1), notified_at: null, resolve_notified_at: null },
+      { id: 'alert-4', alert_key: 'd', kind: 'freshness', severity: 'critical', status: 'firing', summary: 'D', fired_at: hoursAgo(9), notified_at: hoursAgo(8) }
+    ]
+  })
+  const alerts = new Map(supabase.tables.get('sync_alerts').map((row) => [row.id, row]))
+
+  assert.deepEqual(await deliverPendingAlerts(supabase, []), { delivered: 0, errors: [] })
+  assert.equal(alerts.get('alert-1').notified_at, null, 'without channels nothing is marked')
+
+  const down = recordingChannel('webhook', { fail: true })
+  const failed = await deliverPendingAlerts(supabase, [down])
+  assert.deepEqual(failed, { delivered: 0, errors: ['webhook: webhook unreachable'] })
+  assert.equal(alerts.get('alert-1').notified_at, null, 'failed delivery stays pending')
+  assert.equal(alerts.get('alert-1').delivery_error, 'webhook: webhook unreachable')
+  assert.ok(alerts.get('alert-3').resolve_notified_at, 'unannounced alerts close silently')
+  assert.deepEqual(down.batches[0].map((notification) => [notification.alertKey, notification.event]), [['a', 'firing'], ['b', 'resolved']])
+
+  const slack = recordingChannel('slack')
+  const partial = await deliverPendingAlerts(supabase, [down, slack])
+  assert.deepEqual(partial, { delivered: 2, errors: ['webhook: webhook unreachable'] })
+  assert.ok(alerts.get('alert-1').notified_at, 'one working channel is enough')
+  assert.ok(alerts.get('alert-2').resolve_notified_at)
+
+  assert.deepEqual(await deliverPendingAlerts(supabase, [slack]), { delivered: 0, errors: [] }, 'nothing is sent twice')
+  assert.equal(slack.batches.length, 1)
+}
+
+async function testRunChecks() {
+  const supabase = createMemorySupabase({
+    performance_metrics: [
+      { id: 'metric-1', metric_name: 'courtlistener_circuit_open', created_at: new Date(NOW.getTime() - 10 * 60_000).toISOString() },
+      { id: 'metric-2', metric_name: 'courtlistener_circuit_open', created_at: hoursAgo(3) }
+    ],
+    freshness_slos: [{ entity_type: 'courts', court_id: null, max_age_hours: 24, enabled: true }]
+  })
+  supabase.rpc = async (name) => {
+    assert.equal(name, 'court_sync_freshness')
+    return { data: [court({ courts_synced_at: hoursAgo(30) })], error: null }
+  }
+
+  const channel = recordingChannel('slack')
+  const first = await runSyncAlertChecks(supabase, { channels: [channel], now: NOW })
+  assert.deepEqual(first, { conditions: 2, opened: 2, escalated: 0, resolved: 0, ongoing: 0, delivered: 2, deliveryErrors: [] })
+  assert.deepEqual(
+    (await listFiringAlerts(supabase)).map((alert) => [alert.kind, alert.severity, alert.notified]),
+    [['circuit_breaker', 'critical', true], ['freshness', 'warning', true]],
+    'critical alerts list first'
+  )
+  assert.match(channel.batches[0].find((notification) => notification.kind === 'circuit_breaker').summary, /opened 1 time in the last 60 minutes/)
+
+  supabase.tables.set('performance_metrics', [])
+  const circuitOnly = await runSyncAlertChecks(supabase, { kinds: ['circuit_breaker'], channels: [channel], now: NOW })
+  assert.deepEqual(circuitOnly, { conditions: 0, opened: 0, escalated: 0, resolved: 1, ongoing: 0, delivered: 1, deliveryErrors: [] })
+  assert.equal(channel.batches[1][0].event, 'resolved')
+  assert.deepEqual((await listFiringAlerts(supabase)).map((alert) => alert.kind), ['freshness'], 'freshness alert untouched')
+}
+
+async function testChannels() {
+  const requests = []
+  const fetchImpl = async (url, init) => {
+    requests.push({ url, init })
+    return { ok: !url.includes('broken'), status: url.includes('broken') ? 500 : 200 }
+  }
+  const notification = {
+    event: 'firing',
+    alertKey: 'circuit_breaker:courtlistener',
+    kind: 'circuit_breaker',
+    severity: 'critical',
+    summary: 'CourtListener circuit breaker opened',
+    details: {},
+    firedAt: NOW.toISOString(),
+    resolvedAt: null
+  }
+
+  await createWebhookChannel({ url: 'https://hooks.example.com/alerts', secret: 'shh', fetchImpl }).send([notification])
+  const { init } = requests[0]
+  const timestamp = init.headers['x-alert-timestamp']
+  assert.equal(init.headers['x-alert-signature'], `sha256=${createHmac('sha256', 'shh').update(`${timestamp}.${init.body}`).digest('hex')}`)
+  assert.deepEqual(JSON.parse(init.body).notifications, [notification])
+
+  await createSlackChannel({ webhookUrl: 'https://hooks.slack.example/T1', fetchImpl }).send([notification, { ...notification, event: 'resolved', alertKey: 'x' }])
+  assert.equal(
+    JSON.parse(requests[1].init.body).text,
+    'Sync alerts (1 firing, 1 resolved)\n:red_circle: [CRITICAL] CourtListener circuit breaker opened\n:white_check_mark: Resolved: CourtListener circuit breaker opened'
+  )
+
+  await assert.rejects(
+    createSlackChannel({ webhookUrl: 'https://broken.example/hook', fetchImpl }).send([notification]),
+    /broken\.example failed with status 500/
+  )
+
+  assert.deepEqual(createAlertChannelsFromEnv({}).map((channel) => channel.name), [])
+  assert.deepEqual(
+    createAlertChannelsFromEnv({
+      ALERT_WEBHOOK_URL: 'https://hooks.example.com',
+      ALERT_SLACK_WEBHOOK_URL: 'https://hooks.slack.example',
+      ALERT_EMAIL_TO: 'ops@example.com, oncall@example.com',
+      ALERT_EMAIL_FROM: 'alerts@example.com',
+      SMTP_HOST: 'smtp.example.com'
+    }).map((channel) => channel.name),
+    ['webhook', 'slack', 'email']
+  )
+  assert.deepEqual(
+    createAlertChannelsFromEnv({ ALERT_EMAIL_TO: 'ops@example.com' }).map((channel) => channel.name),
+    [],
+    'email needs a relay and sender'
+  )
+}
+
+/** Just enough of an SMTP relay to record one conversation. */
+function startSmtpStub({ startTls = false } = {}) {
+  const transcript = []
+  const server = net.createServer((socket) => {
+    let buffer = ''
+    let inData = false
+    socket.write('220 stub ESMTP\r\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString()
+      let newline = buffer.indexOf('\r\n')
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline)
+        buffer = buffer.slice(newline + 2)
+        transcript.push(line)
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            socket.write('250 queued\r\n')
+          }
+        } else if (line.startsWith('EHLO')) {
+          socket.write(`250-stub\r\n${startTls ? '250-STARTTLS\r\n' : ''}250-AUTH PLAIN\r\n250 8BITMIME\r\n`)
+        } else if (line.startsWith('AUTH PLAIN')) {
+          socket.write('235 ok\r\n')
+        } else if (line === 'DATA') {
+          inData = true
+          socket.write('354 go ahead\r\n')
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n')
+        } else {
+          socket.write('250 ok\r\n')
+        }
+        newline = buffer.indexOf('\r\n')
+      }
+    })
+  })
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, transcript, port: server.address().port }))
+  })
+}
+
+async function testSmtp() {
+  const message = formatMessage({ from: 'Alerts <alerts@example.com>', to: ['ops@example.com'], subject: 'Sync — stale', text: 'line one\n.dot line' }, NOW)
+  assert.match(message, /^From: Alerts <alerts@example.com>\r\nTo: ops@example.com\r\nSubject: =\?UTF-8\?B\?/)
+  assert.match(message, /Message-ID: <[0-9a-f-]+@example\.com>/)
+  assert.ok(message.endsWith('\r\n\r\nline one\r\n..dot line'), 'body lines starting with a dot are stuffed')
+
+  const { server, transcript, port } = await startSmtpStub()
+  try {
+    await sendMail(
+      { host: '127.0.0.1', port, timeoutMs: 5000 },
+      { from: 'Alerts <alerts@example.com>', to: ['ops@example.com', 'oncall@example.com'], subject: 'Sync alerts', text: 'hello\n.' }
+    )
+  } finally {
+    await new Promise((resolve) => server.close(resolve))
+  }
+
+  assert.equal(transcript[0], 'EHLO localhost')
+  assert.deepEqual(transcript.slice(1, 4), ['MAIL FROM:<alerts@example.com>', 'RCPT TO:<ops@example.com>', 'RCPT TO:<oncall@example.com>'])
+  assert.equal(transcript[4], 'DATA')
+  assert.deepEqual(transcript.slice(-4), ['hello', '..', '.', 'QUIT'])
+}
+
+async function testSmtpCredentialsNeedTls() {
+  const message = { from: 'alerts@example.com', to: ['ops@example.com'], subject: 'Sync alerts', text: 'hello' }
+  for (const [stubOptions, config] of [
+    [{}, {}],
+    [{ startTls: true }, { startTls: false }]
+  ]) {
+    const { server, transcript, port } = await startSmtpStub(stubOptions)
+    try {
+      await assert.rejects(
+        sendMail({ host: '127.0.0.1', port, username: 'user', password: 'pass', timeoutMs: 5000, ...config }, message),
+        (error) => error instanceof SmtpError && /unencrypted/.test(error.message)
+      )
+    } finally {
+      await new Promise((resolve) => server.close(resolve))
+    }
+    assert.ok(!transcript.some((line) => line.startsWith('AUTH')), 'credentials are never sent in the clear')
+    assert.ok(!transcript.some((line) => line.startsWith('MAIL FROM')))
+  }
+}
+
+async function run() {
+  await testEvaluateFreshness()
+  await testApplyConditions()
+  await testDelivery()
+  await testRunChecks()
+  await testChannels()
+  await testSmtp()
+  await testSmtpCredentialsNeedTls()
+
+  console.log('✓ sync alerts verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
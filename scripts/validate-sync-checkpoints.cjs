@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const {
+  SyncCheckpointTracker,
+  createDecisionSyncCursor,
+  createJudgeSyncCursor
+} = require('../lib/sync/checkpoint')
+
+function testFreshRun() {
+  const tracker = new SyncCheckpointTracker(createJudgeSyncCursor())
+  assert.equal(tracker.resumed, false)
+  assert.equal(tracker.cursor.phase, 'update')
+  assert.equal(tracker.shouldStop(), false)
+
+  tracker.advance(3)
+  const checkpoint = tracker.toCheckpoint()
+  assert.deepEqual(checkpoint.progress, { processed: 3, total: null })
+  assert.equal(checkpoint.runs, 1)
+}
+
+function testResumeCarriesCursorAndProgress() {
+  const previous = {
+    cursor: { lastJudgeId: 'judge-40', judgeSinceDates: { 'judge-41': '2024-03-01' } },
+    progress: { processed: 40, total: 100 },
+    runs: 2,
+    savedAt: '2025-10-19T00:00:00.000Z'
+  }
+  const tracker = new SyncCheckpointTracker(createDecisionSyncCursor(), { checkpoint: previous })
+  assert.equal(tracker.resumed, true)
+  assert.equal(tracker.cursor.lastJudgeId, 'judge-40')
+  assert.equal(tracker.cursor.judgeSinceDates['judge-41'], '2024-03-01')
+
+  tracker.advance()
+  const checkpoint = tracker.toCheckpoint()
+  assert.deepEqual(checkpoint.progress, { processed: 41, total: 100 })
+  assert.equal(checkpoint.runs, 3)
+}
+
+function testOlderCheckpointGainsNewCursorFields() {
+  const tracker = new SyncCheckpointTracker(createJudgeSyncCursor(), {
+    checkpoint: { cursor: { phase: 'discover', discoveryUrl: 'https://example.test/people/?cursor=abc' }, progress: { processed: 5, total: null }, runs: 1 }
+  })
+  assert.equal(tracker.cursor.phase, 'discover')
+  assert.equal(tracker.cursor.discoveryUrl, 'https://example.test/people/?cursor=abc')
+  assert.deepEqual(tracker.cursor.pendingImportIds, [])
+}
+
+function testDeadlineStopsRun() {
+  const now = Date.now()
+  const tracker = new SyncCheckpointTracker(createJudgeSyncCursor(), { deadline: now + 1000 })
+  assert.equal(tracker.shouldStop(now), false)
+  assert.equal(tracker.shouldStop(now + 1000), true)
+  assert.equal(tracker.stoppedBy, 'deadline')
+  // Once stopped, the run stays stopped
+  assert.equal(tracker.shouldStop(now), true)
+}
+
+async function testSaveAndLostLease() {
+  const saved = []
+  let held = true
+  const tracker = new SyncCheckpointTracker(createJudgeSyncCursor(), {
+    saveCheckpoint: async (checkpoint) => {
+      saved.push(JSON.parse(JSON.stringify(checkpoint)))
+      return held
+    }
+  })
+
+  tracker.cursor.lastJudgeId = 'judge-10'
+  tracker.advance(10)
+  await tracker.save()
+  assert.equal(saved.length, 1)
+  assert.equal(saved[0].cursor.lastJudgeId, 'judge-10')
+  assert.equal(saved[0].progress.processed, 10)
+  assert.equal(tracker.shouldStop(), false)
+
+  held = false
+  await tracker.save()
+  assert.equal(tracker.shouldStop(), true)
+  assert.equal(tracker.stoppedBy, 'lease_lost')
+}
+
+async function testSaveWithoutQueueIsNoop() {
+  const tracker = new SyncCheckpointTracker(createJudgeSyncCursor())
+  await tracker.save()
+  assert.equal(tracker.shouldStop(), false)
+}
+
+async function run() {
+  testFreshRun()
+  testResumeCarriesCursorAndProgress()
+  testOlderCheckpointGainsNewCursorFields()
+  testDeadlineStopsRun()
+  await testSaveAndLostLease()
+  await testSaveWithoutQueueIsNoop()
+
+  console.log('✓ sync checkpoint tracking verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,241 @@
+#!/usr/bin/env node
+
+process.env.TS_NODE_COMPILER_OPTIONS = JSON.stringify({ module: 'commonjs', moduleResolution: 'node' })
+require('ts-node/register/transpile-only')
+require('tsconfig-paths/register')
+
+const assert = require('node:assert/strict')
+const path = require('node:path')
+
+// Replay must not need credentials
+delete process.env.COURTLISTENER_API_KEY
+delete process.env.COURTLISTENER_API_TOKEN
+
+const { CourtListenerClient } = require('../lib/courtlistener/client')
+const { CourtSyncManager } = require('../lib/sync/court-sync')
+const { JudgeSyncManager } = require('../lib/sync/judge-sync')
+const { DecisionSyncManager } = require('../lib/sync/decision-sync')
+const { SyncPreviewRecorder, toApplyOptions } = require('../lib/sync/preview')
+const {
+  approveSyncPreview,
+  listSyncPreviews,
+  rejectSyncPreview,
+  SyncPreviewConflictError,
+  SyncPreviewStaleError
+} = require('../lib/admin/sync-previews')
+const { createMemorySupabase } = require('./fixtures/memory-supabase.cjs')
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'courtlistener')
+
+function replayClient() {
+  return new CourtListenerClient({ mode: 'replay', fixturesDir: FIXTURES_DIR })
+}
+
+function snapshot(supabase, names) {
+  return JSON.stringify(names.map((name) => supabase.tables.get(name) || []))
+}
+
+function testRecorder() {
+  const recorder = new SyncPreviewRecorder()
+  recorder.create('judge', { externalId: 1002, label: 'Daniel Okafor' }, { name: 'Daniel Okafor', bio: null })
+  recorder.update('judge', 'judge-a', { name: 'Maria Alvarez' }, { name: 'Maria L. Alvarez' })
+  recorder.update('judge', 'judge-b', { name: 'Same Name' }, { name: 'Same Name', updated_at: '2025-10-19' })
+  recorder.skip('court', { entityId: 'court-1' }, 'recently updated')
+
+  assert.deepEqual(recorder.summary, {
+    judge: { create: 1, update: 1, skip: 1 },
+    court: { create: 0, update: 0, skip: 1 }
+  })
+  const [created, updated, unchanged] = recorder.recordedItems
+  assert.equal(created.external_id, '1002')
+  assert.deepEqual(created.changes, { name: { old: null, new: 'Daniel Okafor' } })
+  assert.deepEqual(updated.changes, { name: { old: 'Maria Alvarez', new: 'Maria L. Alvarez' } })
+  assert.equal(unchanged.action, 'skip')
+  assert.equal(unchanged.reason, 'unchanged')
+
+  assert.deepEqual(toApplyOptions({ jurisdiction: 'CA', dryRun: true }), { jurisdiction: 'CA' })
+}
+
+async function testCourtDryRun() {
+  const supabase = createMemorySupabase({
+    courts: [{ id: 'court-existing', name: 'California Court of Appeal', courtlistener_id: 'calctapp', updated_at: '2020-01-01T00:00:00Z' }]
+  })
+  const before = snapshot(supabase, ['courts'])
+  const manager = new CourtSyncManager({ supabase, courtListener: replayClient() })
+  const result = await manager.syncCourts({ dryRun: true })
+
+  assert.equal(result.success, true, result.errors.join('; '))
+  assert.equal(result.dryRun, true)
+  assert.equal(result.courtsUpdated, 1)
+  assert.equal(result.courtsCreated, 1)
+  assert.equal(snapshot(supabase, ['courts']), before, 'dry run leaves courts untouched')
+  assert.equal((supabase.tables.get('entity_changes') || []).length, 0, 'dry run writes no change log')
+
+  const [preview] = supabase.tables.get('sync_previews')
+  assert.equal(preview.id, result.previewId)
+  assert.equal(preview.sync_type, 'court')
+  assert.equal(preview.status, 'pending_review')
+  assert.deepEqual(preview.options, {}, 'dryRun is stripped from the options the approved job runs with')
+  assert.deepEqual(preview.summary, { court: { create: 1, update: 1, skip: 0 } })
+
+  const items = supabase.tables.get('sync_preview_items')
+  assert.equal(items.length, 2)
+  assert.ok(items.every((item) => item.preview_id === preview.id))
+  const created = items.find((item) => item.action === 'create')
+  assert.equal(created.external_id, 'casd')
+  assert.equal(created.changes.courtlistener_id.new, 'casd')
+}
+
+async function testJudgeDryRun() {
+  const supabase = createMemorySupabase({
+    judges: [{ id: 'judge-a', name: 'Maria Alvarez', courtlistener_id: '1001', jurisdiction: 'CA', updated_at: '2020-01-01T00:00:00Z' }]
+  })
+  const before = snapshot(supabase, ['judges'])
+  const manager = new JudgeSyncManager({ supabase, courtListener: replayClient() })
+  const saved = []
+  const result = await manager.syncJudges({ jurisdiction: 'CA', dryRun: true }, {
+    saveCheckpoint: async (checkpoint) => { saved.push(checkpoint); return true }
+  })
+
+  assert.equal(result.success, true, result.errors.join('; '))
+  assert.equal(result.incomplete, undefined)
+  assert.equal(saved.length, 0, 'dry runs never checkpoint')
+  assert.equal(snapshot(supabase, ['judges']), before, 'dry run leaves judges untouched')
+
+  const [preview] = supabase.tables.get('sync_previews')
+  assert.deepEqual(preview.summary, { judge: { create: 1, update: 1, skip: 0 } })
+  const items = supabase.tables.get('sync_preview_items')
+  const updated = items.find((item) => item.action === 'update')
+  assert.equal(updated.entity_id, 'judge-a')
+  assert.deepEqual(updated.changes.name, { old: 'Maria Alvarez', new: 'Maria L. Alvarez' })
+  assert.match(updated.changes.education.new, /UC Berkeley/)
+  assert.equal(items.find((item) => item.action === 'create').label, 'Daniel Okafor')
+}
+
+async function testDecisionDryRun() {
+  const supabase = createMemorySupabase({
+    judges: [{ id: 'judge-a', name: 'Maria L. Alvarez', courtlistener_id: '1001', jurisdiction: 'CA' }]
+  })
+  const manager = new DecisionSyncManager({ supabase, courtListener: replayClient() })
+  const result = await manager.syncDecisions({ judgeIds: ['judge-a'], daysSinceLast: 3650, includeDockets: false, dryRun: true })
+
+  assert.equal(result.success, true, result.errors.join('; '))
+  assert.equal(result.decisionsCreated, 1)
+  for (const table of ['cases', 'opinions', 'citations']) {
+    assert.equal((supabase.tables.get(table) || []).length, 0, `dry run writes no ${table}`)
+  }
+  assert.equal(supabase.tables.get('judges')[0].total_cases, undefined, 'case counts are not refreshed')
+
+  const [preview] = supabase.tables.get('sync_previews')
+  assert.deepEqual(preview.summary, { case: { create: 1, update: 0, skip: 0 } })
+  const [item] = supabase.tables.get('sync_preview_items')
+  assert.equal(item.changes.case_name.new, 'Reyes v. Coastal Freight Lines')
+}
+
+async function testApproveAndReject() {
+  const supabase = createMemorySupabase({
+    sync_previews: [
+      { id: 'preview-1', sync_type: 'judge', status: 'pending_review', options: { jurisdiction: 'CA' } },
+      { id: 'preview-2', sync_type: 'court', status: 'pending_review', options: {} }
+    ]
+  })
+  const queued = []
+  const queueManager = {
+    async addJob(type, options, priority) {
+      queued.push({ type, options, priority })
+      return `job-${queued.length}`
+    }
+  }
+
+  const { jobId } = await approveSyncPreview(supabase, queueManager, 'preview-1', 'user_admin')
+  assert.equal(jobId, 'job-1')
+  assert.deepEqual(queued, [{ type: 'judge', options: { jurisdiction: 'CA' }, priority: 80 }])
+  const approved = supabase.tables.get('sync_previews')[0]
+  assert.equal(approved.status, 'approved')
+  assert.equal(approved.reviewed_by, 'user_admin')
+  assert.equal(approved.applied_job_id, 'job-1')
+
+  // A preview is applied at most once
+  await assert.rejects(() => approveSyncPreview(supabase, queueManager, 'preview-1'), SyncPreviewConflictError)
+  assert.equal(queued.length, 1)
+
+  await rejectSyncPreview(supabase, 'preview-2', 'user_admin')
+  assert.equal(supabase.tables.get('sync_previews')[1].status, 'rejected')
+  await assert.rejects(() => approveSyncPreview(supabase, queueManager, 'preview-2'), SyncPreviewConflictError)
+
+  // A failed enqueue leaves the preview reviewable
+  supabase.tables.get('sync_previews').push({ id: 'preview-3', sync_type: 'decision', status: 'pending_review', options: {} })
+  const failing = { addJob: async () => { throw new Error('queue unavailable') } }
+  await assert.rejects(() => approveSyncPreview(supabase, failing, 'preview-3'), /queue unavailable/)
+  assert.equal(supabase.tables.get('sync_previews')[2].status, 'pending_review')
+}
+
+async function testStalePreviews() {
+  const now = () => new Date('2025-10-19T12:00:00Z')
+  const summary = { judge: { create: 1, update: 1, skip: 1 } }
+  const item = (previewId, position, action, entityId) =>
+    ({ preview_id: previewId, position, entity_type: 'judge', action, entity_id: entityId, external_id: `cl-${position}` })
+  const supabase = createMemorySupabase({
+    sync_previews: [
+      { id: 'fresh', sync_type: 'judge', status: 'pending_review', options: { jurisdiction: 'CA' }, summary, created_at: '2025-10-19T10:00:00Z' },
+      { id: 'old', sync_type: 'judge', status: 'pending_review', options: {}, summary, created_at: '2025-10-19T05:00:00Z' },
+      { id: 'drifted', sync_type: 'judge', status: 'pending_review', options: {}, summary, created_at: '2025-10-19T09:00:00Z' }
+    ],
+    sync_preview_items: [
+      item('fresh', 0, 'create', null),
+      item('fresh', 1, 'update', 'judge-1'),
+      item('fresh', 2, 'skip', 'judge-2'),
+      item('drifted', 0, 'update', 'judge-3')
+    ],
+    entity_changes: [
+      // Before the dry run, a record the preview does not list, and another entity type: none of them drift it
+      { id: 1, entity_type: 'judge', entity_id: 'judge-1', jurisdiction: 'CA', recorded_at: '2025-10-19T09:30:00Z' },
+      { id: 2, entity_type: 'judge', entity_id: 'judge-9', jurisdiction: 'CA', recorded_at: '2025-10-19T11:00:00Z' },
+      { id: 3, entity_type: 'case', entity_id: 'judge-1', jurisdiction: 'CA', recorded_at: '2025-10-19T11:00:00Z' },
+      { id: 4, entity_type: 'judge', entity_id: 'judge-3', jurisdiction: 'NV', recorded_at: '2025-10-19T11:00:00Z' }
+    ]
+  })
+  const queued = []
+  const queueManager = { addJob: async (type) => { queued.push(type); return `job-${queued.length}` } }
+
+  const listed = await listSyncPreviews(supabase, { now })
+  assert.deepEqual(
+    Object.fromEntries(listed.map((preview) => [preview.id, preview.staleReason])),
+    { fresh: null, old: 'expired', drifted: 'drifted' }
+  )
+
+  for (const [id, reason] of [['old', 'expired'], ['drifted', 'drifted']]) {
+    await assert.rejects(
+      () => approveSyncPreview(supabase, queueManager, id, 'user_admin', now),
+      (error) => error instanceof SyncPreviewStaleError && error.reason === reason
+    )
+    const row = supabase.tables.get('sync_previews').find((preview) => preview.id === id)
+    assert.equal(row.status, 'pending_review', 'a refused approval leaves the preview for rejection')
+  }
+  assert.equal(queued.length, 0)
+
+  await approveSyncPreview(supabase, queueManager, 'fresh', 'user_admin', now)
+  assert.deepEqual(queued, ['judge'])
+
+  // A write after the dry run to a record the preview skips still drifts it
+  supabase.tables.get('sync_previews').push({ id: 'fresh-2', sync_type: 'judge', status: 'pending_review', options: {}, summary, created_at: '2025-10-19T10:00:00Z' })
+  supabase.tables.get('sync_preview_items').push(item('fresh-2', 0, 'skip', 'judge-2'))
+  supabase.tables.get('entity_changes').push({ id: 5, entity_type: 'judge', entity_id: 'judge-2', jurisdiction: 'CA', recorded_at: '2025-10-19T11:30:00Z' })
+  await assert.rejects(() => approveSyncPreview(supabase, queueManager, 'fresh-2', null, now), SyncPreviewStaleError)
+}
+
+async function run() {
+  testRecorder()
+  await testCourtDryRun()
+  await testJudgeDryRun()
+  await testDecisionDryRun()
+  await testApproveAndReject()
+  await testStalePreviews()
+
+  console.log('✓ dry-run sync previews and approval verified')
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
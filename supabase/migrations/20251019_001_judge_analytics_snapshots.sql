@@ -0,0 +1,70 @@
+-- Immutable, versioned history of every judge analytics regeneration
+CREATE TABLE IF NOT EXISTS public.judge_analytics_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  judge_id UUID NOT NULL REFERENCES judges(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  analytics JSONB NOT NULL,
+  input_case_ids UUID[] NOT NULL DEFAULT '{}',
+  input_fingerprint TEXT NOT NULL,
+  lookback_years INTEGER NOT NULL,
+  case_fetch_limit INTEGER NOT NULL,
+  ai_model TEXT,
+  code_version TEXT NOT NULL,
+  data_source TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc', now()),
+  UNIQUE (judge_id, version)
+);
+
+COMMENT ON TABLE public.judge_analytics_snapshots IS 'Append-only history of generated judge analytics; judge_analytics_cache holds only the latest copy.';
+COMMENT ON COLUMN public.judge_analytics_snapshots.version IS 'Per-judge sequence number assigned on insert.';
+COMMENT ON COLUMN public.judge_analytics_snapshots.input_case_ids IS 'Case IDs fed into the generator, in fetch order.';
+COMMENT ON COLUMN public.judge_analytics_snapshots.input_fingerprint IS 'SHA-256 of sorted input case IDs plus generator settings; equal fingerprints mean identical inputs.';
+COMMENT ON COLUMN public.judge_analytics_snapshots.lookback_years IS 'JUDGE_ANALYTICS_LOOKBACK_YEARS at generation time.';
+COMMENT ON COLUMN public.judge_analytics_snapshots.case_fetch_limit IS 'JUDGE_ANALYTICS_CASE_LIMIT at generation time.';
+COMMENT ON COLUMN public.judge_analytics_snapshots.ai_model IS 'Model (or statistical method) that produced the analytics.';
+COMMENT ON COLUMN public.judge_analytics_snapshots.code_version IS 'Analytics engine version and deployed commit that produced the snapshot.';
+
+CREATE INDEX IF NOT EXISTS idx_judge_analytics_snapshots_judge_created
+  ON public.judge_analytics_snapshots (judge_id, created_at DESC);
+
+-- Assign the next per-judge version number. The lock serialises concurrent
+-- regenerations of one judge until commit, so they cannot both read the same
+-- MAX(version) and have one insert fail on UNIQUE (judge_id, version).
+CREATE OR REPLACE FUNCTION assign_judge_analytics_snapshot_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('judge_analytics_snapshots:' || NEW.judge_id::text));
+  SELECT COALESCE(MAX(version), 0) + 1
+    INTO NEW.version
+    FROM public.judge_analytics_snapshots
+   WHERE judge_id = NEW.judge_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_judge_analytics_snapshots_version ON public.judge_analytics_snapshots;
+CREATE TRIGGER trg_judge_analytics_snapshots_version
+  BEFORE INSERT ON public.judge_analytics_snapshots
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_judge_analytics_snapshot_version();
+
+-- Snapshots are immutable once written
+CREATE OR REPLACE FUNCTION prevent_judge_analytics_snapshot_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'judge_analytics_snapshots rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_judge_analytics_snapshots_immutable ON public.judge_analytics_snapshots;
+CREATE TRIGGER trg_judge_analytics_snapshots_immutable
+  BEFORE UPDATE ON public.judge_analytics_snapshots
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_judge_analytics_snapshot_update();
+
+ALTER TABLE public.judge_analytics_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "judge_analytics_snapshots_service_role" ON public.judge_analytics_snapshots;
+CREATE POLICY "judge_analytics_snapshots_service_role" ON public.judge_analytics_snapshots
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,144 @@
+-- Full-text index over opinion text for case-law search
+ALTER TABLE public.opinions
+  ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+COMMENT ON COLUMN public.opinions.search_vector IS 'Case name/number (weight A) plus opinion text (weight B); maintained by refresh_opinion_search_vectors().';
+
+CREATE INDEX IF NOT EXISTS idx_opinions_search_vector
+  ON public.opinions USING GIN (search_vector);
+
+-- tsvector values are capped at 1MB, so very long opinions are indexed on their leading text
+CREATE OR REPLACE FUNCTION build_opinion_search_vector(
+  p_case_name TEXT,
+  p_case_number TEXT,
+  p_text TEXT
+) RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('english', COALESCE(p_case_name, '') || ' ' || COALESCE(p_case_number, '')), 'A')
+      || setweight(to_tsvector('english', LEFT(COALESCE(p_text, ''), 500000)), 'B');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The vector includes the parent case's name, so it cannot be a generated column;
+-- sync calls this after writing opinions.
+CREATE OR REPLACE FUNCTION refresh_opinion_search_vectors(p_opinion_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.opinions o
+     SET search_vector = build_opinion_search_vector(c.case_name, c.case_number, COALESCE(o.plain_text, o.opinion_text))
+    FROM public.opinions src
+    LEFT JOIN public.cases c ON c.id = src.case_id
+   WHERE o.id = src.id
+     AND o.id = ANY(p_opinion_ids);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill existing opinions
+UPDATE public.opinions o
+   SET search_vector = build_opinion_search_vector(c.case_name, c.case_number, COALESCE(o.plain_text, o.opinion_text))
+  FROM public.opinions src
+  LEFT JOIN public.cases c ON c.id = src.case_id
+ WHERE o.id = src.id
+   AND o.search_vector IS NULL;
+
+-- p_query uses web search syntax: "quoted phrases", OR, and -negation
+CREATE OR REPLACE FUNCTION search_opinions(
+  p_query TEXT,
+  p_judge_id UUID DEFAULT NULL,
+  p_court_id UUID DEFAULT NULL,
+  p_case_type TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  opinion_id UUID,
+  opinion_type TEXT,
+  case_id UUID,
+  case_name TEXT,
+  case_number TEXT,
+  case_type TEXT,
+  decision_date DATE,
+  source_url TEXT,
+  courtlistener_id TEXT,
+  judge_id UUID,
+  judge_name TEXT,
+  judge_slug TEXT,
+  court_id UUID,
+  court_name TEXT,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_query tsquery := websearch_to_tsquery('english', p_query);
+  v_limit INTEGER := LEAST(GREATEST(p_limit, 1), 50);
+BEGIN
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      o.id,
+      o.opinion_type,
+      COALESCE(o.plain_text, o.opinion_text) AS body,
+      c.id AS case_id,
+      c.case_name,
+      c.case_number,
+      c.case_type,
+      COALESCE(c.decision_date, c.filing_date) AS decided_on,
+      c.source_url,
+      c.courtlistener_id,
+      c.judge_id,
+      c.court_id,
+      ts_rank_cd(o.search_vector, v_query) AS rank,
+      COUNT(*) OVER () AS total_count
+    FROM public.opinions o
+    JOIN public.cases c ON c.id = o.case_id
+    WHERE o.search_vector @@ v_query
+      AND (p_judge_id IS NULL OR c.judge_id = p_judge_id)
+      AND (p_court_id IS NULL OR c.court_id = p_court_id)
+      -- Exact match, ignoring case; a user-supplied % or _ is not a wildcard
+      AND (p_case_type IS NULL OR lower(c.case_type) = lower(p_case_type))
+      AND (p_date_from IS NULL OR COALESCE(c.decision_date, c.filing_date) >= p_date_from)
+      AND (p_date_to IS NULL OR COALESCE(c.decision_date, c.filing_date) <= p_date_to)
+    ORDER BY rank DESC, decided_on DESC NULLS LAST
+    LIMIT v_limit
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT
+    m.id,
+    m.opinion_type::TEXT,
+    m.case_id,
+    m.case_name::TEXT,
+    m.case_number::TEXT,
+    m.case_type::TEXT,
+    m.decided_on,
+    m.source_url,
+    m.courtlistener_id::TEXT,
+    m.judge_id,
+    j.name::TEXT,
+    j.slug::TEXT,
+    m.court_id,
+    ct.name::TEXT,
+    m.rank,
+    -- Highlight markers are plain text so the client can render them without trusting HTML
+    ts_headline(
+      'english',
+      LEFT(m.body, 200000),
+      v_query,
+      'StartSel=[[hl]], StopSel=[[/hl]], MaxFragments=2, MaxWords=35, MinWords=15, FragmentDelimiter=" … "'
+    ),
+    m.total_count
+  FROM matches m
+  LEFT JOIN public.judges j ON j.id = m.judge_id
+  LEFT JOIN public.courts ct ON ct.id = m.court_id
+  ORDER BY m.rank DESC, m.decided_on DESC NULLS LAST;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_opinions(TEXT, UUID, UUID, TEXT, DATE, DATE, INTEGER, INTEGER) TO anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION refresh_opinion_search_vectors(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION refresh_opinion_search_vectors(UUID[]) TO service_role;
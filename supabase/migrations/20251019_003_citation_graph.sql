@@ -0,0 +1,115 @@
+-- Citation graph: edges from synced opinions to the reporter citations they cite,
+-- resolved to known cases through the cases' own published citations
+
+ALTER TABLE public.citations
+  ADD COLUMN IF NOT EXISTS normalized_citation VARCHAR(200),
+  ADD COLUMN IF NOT EXISTS cited_case_id UUID REFERENCES cases(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.citations.opinion_id IS 'The citing opinion.';
+COMMENT ON COLUMN public.citations.normalized_citation IS 'Canonical "volume reporter page", e.g. "35 Cal.4th 1".';
+COMMENT ON COLUMN public.citations.cited_case_id IS 'Known case published under normalized_citation; NULL until that case is synced.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_citations_opinion_normalized
+  ON public.citations (opinion_id, normalized_citation);
+CREATE INDEX IF NOT EXISTS idx_citations_normalized ON public.citations (normalized_citation);
+CREATE INDEX IF NOT EXISTS idx_citations_cited_case ON public.citations (cited_case_id) WHERE cited_case_id IS NOT NULL;
+
+-- Reporter citations each synced case is published under (from CourtListener clusters)
+CREATE TABLE IF NOT EXISTS public.case_reporter_citations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  volume INTEGER NOT NULL,
+  reporter VARCHAR(100) NOT NULL,
+  page VARCHAR(50) NOT NULL,
+  citation_type VARCHAR(50),
+  normalized_citation VARCHAR(200) NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_reporter_citations_case ON public.case_reporter_citations (case_id);
+
+ALTER TABLE public.case_reporter_citations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "case_reporter_citations_public_read" ON public.case_reporter_citations;
+CREATE POLICY "case_reporter_citations_public_read" ON public.case_reporter_citations
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "case_reporter_citations_service_role" ON public.case_reporter_citations;
+CREATE POLICY "case_reporter_citations_service_role" ON public.case_reporter_citations
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Authorities most often cited in opinions from the judge's cases
+CREATE OR REPLACE FUNCTION get_judge_cited_authorities(
+  p_judge_id UUID,
+  p_limit INTEGER DEFAULT 10
+) RETURNS TABLE (
+  normalized_citation TEXT,
+  citation_type TEXT,
+  citing_opinions BIGINT,
+  cited_case_id UUID,
+  cited_case_name TEXT,
+  cited_source_url TEXT,
+  cited_courtlistener_id TEXT
+) AS $$
+  SELECT
+    ci.normalized_citation::TEXT,
+    MAX(ci.citation_type)::TEXT,
+    COUNT(DISTINCT ci.opinion_id),
+    ci.cited_case_id,
+    cited.case_name::TEXT,
+    cited.source_url,
+    cited.courtlistener_id::TEXT
+  FROM public.citations ci
+  JOIN public.opinions o ON o.id = ci.opinion_id
+  JOIN public.cases c ON c.id = o.case_id
+  LEFT JOIN public.cases cited ON cited.id = ci.cited_case_id
+  WHERE c.judge_id = p_judge_id
+    AND ci.normalized_citation IS NOT NULL
+  GROUP BY ci.normalized_citation, ci.cited_case_id, cited.case_name, cited.source_url, cited.courtlistener_id
+  ORDER BY COUNT(DISTINCT ci.opinion_id) DESC, ci.normalized_citation
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$ LANGUAGE sql STABLE;
+
+-- Opinions in other cases that cite one of the judge's decisions
+CREATE OR REPLACE FUNCTION get_opinions_citing_judge(
+  p_judge_id UUID,
+  p_limit INTEGER DEFAULT 10
+) RETURNS TABLE (
+  citing_case_id UUID,
+  citing_case_name TEXT,
+  citing_decision_date DATE,
+  citing_source_url TEXT,
+  citing_courtlistener_id TEXT,
+  citing_judge_name TEXT,
+  citing_judge_slug TEXT,
+  cited_case_id UUID,
+  cited_case_name TEXT,
+  normalized_citation TEXT,
+  total_count BIGINT
+) AS $$
+  SELECT
+    citing.id,
+    citing.case_name::TEXT,
+    COALESCE(citing.decision_date, citing.filing_date),
+    citing.source_url,
+    citing.courtlistener_id::TEXT,
+    j.name::TEXT,
+    j.slug::TEXT,
+    cited.id,
+    cited.case_name::TEXT,
+    ci.normalized_citation::TEXT,
+    COUNT(*) OVER ()
+  FROM public.citations ci
+  JOIN public.cases cited ON cited.id = ci.cited_case_id
+  JOIN public.opinions o ON o.id = ci.opinion_id
+  JOIN public.cases citing ON citing.id = o.case_id
+  LEFT JOIN public.judges j ON j.id = citing.judge_id
+  WHERE cited.judge_id = p_judge_id
+    AND citing.id <> cited.id
+  ORDER BY COALESCE(citing.decision_date, citing.filing_date) DESC NULLS LAST
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_judge_cited_authorities(UUID, INTEGER) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_opinions_citing_judge(UUID, INTEGER) TO anon, authenticated, service_role;
@@ -0,0 +1,54 @@
+-- Parties and counsel from CourtListener dockets, keyed to the synced case,
+-- with attorney firms normalized into law_firms
+
+CREATE TABLE IF NOT EXISTS public.law_firms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  normalized_name VARCHAR(255) NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc', now()),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc', now())
+);
+
+COMMENT ON COLUMN public.law_firms.normalized_name IS 'Matching key: lowercased, "&" as "and", punctuation and entity suffixes (LLP, APC, ...) removed.';
+
+ALTER TABLE public.parties
+  ADD COLUMN IF NOT EXISTS case_id UUID REFERENCES cases(id) ON DELETE CASCADE;
+
+ALTER TABLE public.case_attorneys
+  ADD COLUMN IF NOT EXISTS case_id UUID REFERENCES cases(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS law_firm_id UUID REFERENCES law_firms(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS normalized_name VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS party_type VARCHAR(50);
+
+COMMENT ON COLUMN public.case_attorneys.party_type IS 'Normalized role of the first party represented (plaintiff, defendant, ...).';
+
+ALTER TABLE public.cases
+  ADD COLUMN IF NOT EXISTS parties_synced_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_parties_case_courtlistener
+  ON public.parties (case_id, courtlistener_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_case_attorneys_case_courtlistener
+  ON public.case_attorneys (case_id, courtlistener_id);
+CREATE INDEX IF NOT EXISTS idx_case_attorneys_normalized_name ON public.case_attorneys (normalized_name);
+CREATE INDEX IF NOT EXISTS idx_case_attorneys_law_firm ON public.case_attorneys (law_firm_id) WHERE law_firm_id IS NOT NULL;
+
+ALTER TABLE public.law_firms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "law_firms_public_read" ON public.law_firms;
+CREATE POLICY "law_firms_public_read" ON public.law_firms
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "law_firms_service_role" ON public.law_firms;
+CREATE POLICY "law_firms_service_role" ON public.law_firms
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "parties_service_role" ON public.parties;
+CREATE POLICY "parties_service_role" ON public.parties
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "case_attorneys_service_role" ON public.case_attorneys;
+CREATE POLICY "case_attorneys_service_role" ON public.case_attorneys
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,190 @@
+-- Durable sync queue: atomic job claiming, leases with heartbeats, per-type
+-- concurrency limits, and a dead-letter state once retries are exhausted
+
+-- Align sync_queue with the shape SyncQueueManager writes (lib/database/sync-tables.sql),
+-- so a database built from migrations alone runs the queue
+ALTER TABLE public.sync_queue
+  ADD COLUMN IF NOT EXISTS type VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS options JSONB DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS result JSONB,
+  ADD COLUMN IF NOT EXISTS error_message TEXT,
+  ADD COLUMN IF NOT EXISTS retry_count INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_retries INTEGER DEFAULT 3,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'sync_queue' AND column_name = 'id' AND data_type = 'uuid'
+  ) THEN
+    ALTER TABLE public.sync_queue ALTER COLUMN id DROP DEFAULT;
+    ALTER TABLE public.sync_queue ALTER COLUMN id TYPE VARCHAR(100) USING id::TEXT;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'sync_queue' AND column_name = 'entity_type'
+  ) THEN
+    ALTER TABLE public.sync_queue
+      ALTER COLUMN entity_type DROP NOT NULL,
+      ALTER COLUMN entity_id DROP NOT NULL,
+      ALTER COLUMN operation DROP NOT NULL;
+  END IF;
+END $$;
+
+ALTER TABLE public.sync_queue
+  ADD COLUMN IF NOT EXISTS worker_id VARCHAR(200),
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.sync_queue.lease_expires_at IS 'A running job whose lease has expired is reclaimed by the next claim_sync_job call.';
+
+ALTER TABLE public.sync_queue DROP CONSTRAINT IF EXISTS sync_queue_status_check;
+ALTER TABLE public.sync_queue ADD CONSTRAINT sync_queue_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled', 'dead_letter'));
+
+-- 'citations' re-extracts citations from stored opinions (lib/sync/citations.ts)
+ALTER TABLE public.sync_queue DROP CONSTRAINT IF EXISTS sync_queue_type_check;
+ALTER TABLE public.sync_queue ADD CONSTRAINT sync_queue_type_check
+  CHECK (type IN ('court', 'judge', 'decision', 'full', 'cleanup', 'citations'));
+
+CREATE INDEX IF NOT EXISTS idx_sync_queue_claim
+  ON public.sync_queue (priority DESC, created_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_sync_queue_running_lease
+  ON public.sync_queue (type, lease_expires_at)
+  WHERE status = 'running';
+
+-- Return running jobs with expired leases to pending, or dead-letter them when
+-- the reclaim would exceed max_retries. Legacy rows without a lease count as
+-- expired once they have not been updated for p_lease_seconds.
+CREATE OR REPLACE FUNCTION reclaim_expired_sync_jobs(p_lease_seconds INTEGER DEFAULT 600)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH expired AS (
+    SELECT id
+    FROM public.sync_queue
+    WHERE status = 'running'
+      AND (
+        lease_expires_at < now()
+        OR (lease_expires_at IS NULL AND updated_at < now() - make_interval(secs => p_lease_seconds))
+      )
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.sync_queue q
+  SET
+    status = CASE WHEN q.retry_count + 1 > q.max_retries THEN 'dead_letter' ELSE 'pending' END,
+    retry_count = q.retry_count + 1,
+    error_message = 'Lease expired while running on worker ' || COALESCE(q.worker_id, 'unknown'),
+    dead_lettered_at = CASE WHEN q.retry_count + 1 > q.max_retries THEN now() ELSE NULL END,
+    completed_at = CASE WHEN q.retry_count + 1 > q.max_retries THEN now() ELSE NULL END,
+    scheduled_for = now(),
+    started_at = NULL,
+    worker_id = NULL,
+    lease_expires_at = NULL,
+    heartbeat_at = NULL,
+    updated_at = now()
+  FROM expired
+  WHERE q.id = expired.id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Atomically claim the highest-priority due job. Rows another worker is
+-- claiming are skipped (SKIP LOCKED). p_concurrency maps job type to the
+-- maximum running jobs of that type, e.g. '{"decision": 2}'; the per-type
+-- advisory lock makes the running count and the claim a single step.
+CREATE OR REPLACE FUNCTION claim_sync_job(
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 600,
+  p_concurrency JSONB DEFAULT '{}'::JSONB,
+  p_types TEXT[] DEFAULT NULL
+) RETURNS SETOF public.sync_queue AS $$
+DECLARE
+  v_job public.sync_queue%ROWTYPE;
+  v_skipped TEXT[] := ARRAY[]::TEXT[];
+  v_limit INTEGER;
+  v_running INTEGER;
+BEGIN
+  PERFORM reclaim_expired_sync_jobs(p_lease_seconds);
+
+  LOOP
+    SELECT * INTO v_job
+    FROM public.sync_queue
+    WHERE status = 'pending'
+      AND scheduled_for <= now()
+      AND (p_types IS NULL OR type = ANY(p_types))
+      AND NOT (type = ANY(v_skipped))
+    ORDER BY priority DESC, created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    v_limit := (p_concurrency ->> v_job.type)::INTEGER;
+    IF v_limit IS NOT NULL THEN
+      PERFORM pg_advisory_xact_lock(hashtext('sync_queue:' || v_job.type));
+      SELECT COUNT(*) INTO v_running
+      FROM public.sync_queue
+      WHERE status = 'running' AND type = v_job.type;
+
+      IF v_running >= v_limit THEN
+        v_skipped := array_append(v_skipped, v_job.type);
+        CONTINUE;
+      END IF;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.sync_queue
+    SET
+      status = 'running',
+      worker_id = p_worker_id,
+      started_at = now(),
+      heartbeat_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+    WHERE id = v_job.id
+    RETURNING *;
+    RETURN;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Extend the lease on a job the worker still owns. False means the lease was
+-- lost (reclaimed or finished elsewhere) and the worker should stop.
+CREATE OR REPLACE FUNCTION heartbeat_sync_job(
+  p_job_id TEXT,
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 600
+) RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.sync_queue
+  SET
+    heartbeat_at = now(),
+    lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+    updated_at = now()
+  WHERE id = p_job_id
+    AND status = 'running'
+    AND worker_id = p_worker_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION reclaim_expired_sync_jobs(INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION claim_sync_job(TEXT, INTEGER, JSONB, TEXT[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION heartbeat_sync_job(TEXT, TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reclaim_expired_sync_jobs(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_sync_job(TEXT, INTEGER, JSONB, TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION heartbeat_sync_job(TEXT, TEXT, INTEGER) TO service_role;
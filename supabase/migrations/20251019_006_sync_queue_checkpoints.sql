@@ -0,0 +1,13 @@
+-- Resumable sync jobs: judge and decision syncs save a cursor on their
+-- sync_queue row after each batch, so a run that is cut off (or yields at its
+-- time budget) resumes from the checkpoint on the next claim
+
+ALTER TABLE public.sync_queue
+  ADD COLUMN IF NOT EXISTS checkpoint JSONB,
+  ADD COLUMN IF NOT EXISTS checkpoint_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.sync_queue.checkpoint IS 'Resume cursor and progress ({cursor, progress, runs, savedAt}); kept across retries and lease reclaims, cleared on completion.';
+
+CREATE INDEX IF NOT EXISTS idx_sync_queue_checkpointed
+  ON public.sync_queue (checkpoint_at DESC)
+  WHERE checkpoint IS NOT NULL AND status IN ('pending', 'running');
@@ -0,0 +1,47 @@
+-- Append-only change log written by the sync managers: one row per insert or
+-- update of a judge, court or case, with field-level diffs. The bigserial id
+-- is the feed cursor behind /api/v1/changes
+
+CREATE TABLE IF NOT EXISTS public.entity_changes (
+  id BIGSERIAL PRIMARY KEY,
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('judge', 'court', 'case')),
+  entity_id TEXT NOT NULL,
+  operation VARCHAR(10) NOT NULL CHECK (operation IN ('insert', 'update')),
+  jurisdiction VARCHAR(50),
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  source VARCHAR(50) NOT NULL,
+  sync_id TEXT,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc', now())
+);
+
+COMMENT ON COLUMN public.entity_changes.changes IS 'Changed fields as {"field": {"old": ..., "new": ...}}; old is null for inserts.';
+
+CREATE INDEX IF NOT EXISTS idx_entity_changes_type_id ON public.entity_changes (entity_type, id);
+CREATE INDEX IF NOT EXISTS idx_entity_changes_jurisdiction_id ON public.entity_changes (jurisdiction, id);
+CREATE INDEX IF NOT EXISTS idx_entity_changes_entity ON public.entity_changes (entity_type, entity_id, id);
+
+-- Rows are never rewritten: consumers page by id and must see the same history
+CREATE OR REPLACE FUNCTION public.prevent_entity_change_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'entity_changes is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS entity_changes_append_only ON public.entity_changes;
+CREATE TRIGGER entity_changes_append_only
+  BEFORE UPDATE OR DELETE ON public.entity_changes
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_entity_change_mutation();
+
+ALTER TABLE public.entity_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "entity_changes_public_read" ON public.entity_changes;
+CREATE POLICY "entity_changes_public_read" ON public.entity_changes
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "entity_changes_service_role" ON public.entity_changes;
+CREATE POLICY "entity_changes_service_role" ON public.entity_changes
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,53 @@
+-- Dry-run sync previews: a court, judge or decision sync run with dryRun
+-- records what it would create, update or skip here instead of writing the
+-- live tables. An admin reviews the diff and approves it, which queues the
+-- same sync as a real job
+
+CREATE TABLE IF NOT EXISTS public.sync_previews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sync_type VARCHAR(20) NOT NULL CHECK (sync_type IN ('court', 'judge', 'decision')),
+  sync_id VARCHAR(100) NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending_review'
+    CHECK (status IN ('pending_review', 'approved', 'rejected', 'failed')),
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  truncated BOOLEAN NOT NULL DEFAULT false,
+  items_truncated BOOLEAN NOT NULL DEFAULT false,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  applied_job_id VARCHAR(100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc', now())
+);
+
+COMMENT ON COLUMN public.sync_previews.options IS 'Sync options without dryRun; the approved job runs with these.';
+COMMENT ON COLUMN public.sync_previews.summary IS 'Planned writes per entity type: {"judge": {"create": n, "update": n, "skip": n}, ...}.';
+COMMENT ON COLUMN public.sync_previews.truncated IS 'The dry run stopped at its time budget, so the preview covers only part of the sync.';
+
+CREATE TABLE IF NOT EXISTS public.sync_preview_items (
+  id BIGSERIAL PRIMARY KEY,
+  preview_id UUID NOT NULL REFERENCES public.sync_previews(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('judge', 'court', 'case')),
+  action VARCHAR(10) NOT NULL CHECK (action IN ('create', 'update', 'skip')),
+  entity_id TEXT,
+  external_id TEXT,
+  label TEXT,
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_previews_status_created ON public.sync_previews (status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_preview_items_preview ON public.sync_preview_items (preview_id, position);
+
+ALTER TABLE public.sync_previews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sync_preview_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "sync_previews_service_role" ON public.sync_previews;
+CREATE POLICY "sync_previews_service_role" ON public.sync_previews
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "sync_preview_items_service_role" ON public.sync_preview_items;
+CREATE POLICY "sync_preview_items_service_role" ON public.sync_preview_items
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
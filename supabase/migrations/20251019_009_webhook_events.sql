@@ -0,0 +1,51 @@
+-- CourtListener webhook deliveries. Each delivery is stored once per
+-- webhook_id so redeliveries are not applied twice, with its processing
+-- status so failed events can be reprocessed from the admin dashboard.
+-- The table was previously only defined in lib/database/sync-tables.sql.
+
+CREATE TABLE IF NOT EXISTS public.webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source VARCHAR(50) NOT NULL DEFAULT 'courtlistener',
+  event_type VARCHAR(100) NOT NULL,
+  event_id VARCHAR(100),
+  payload JSONB NOT NULL,
+  processed BOOLEAN DEFAULT FALSE,
+  processed_at TIMESTAMPTZ,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+  ALTER TABLE public.webhook_events ADD COLUMN IF NOT EXISTS webhook_id VARCHAR(200);
+  ALTER TABLE public.webhook_events ADD COLUMN IF NOT EXISTS event_timestamp TIMESTAMPTZ;
+  ALTER TABLE public.webhook_events ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'received';
+  ALTER TABLE public.webhook_events ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE public.webhook_events ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ;
+  ALTER TABLE public.webhook_events ADD COLUMN IF NOT EXISTS result JSONB NOT NULL DEFAULT '{}'::jsonb;
+END $$;
+
+-- Rows written before this migration were handled by queueing sync jobs
+UPDATE public.webhook_events
+SET status = CASE WHEN error_message IS NOT NULL THEN 'failed' WHEN processed THEN 'processed' ELSE 'ignored' END
+WHERE status = 'received' AND webhook_id IS NULL;
+
+ALTER TABLE public.webhook_events DROP CONSTRAINT IF EXISTS webhook_events_status_check;
+ALTER TABLE public.webhook_events ADD CONSTRAINT webhook_events_status_check
+  CHECK (status IN ('received', 'processed', 'ignored', 'failed'));
+
+COMMENT ON COLUMN public.webhook_events.webhook_id IS 'Delivery id from the payload; unique per source so redeliveries are deduplicated.';
+COMMENT ON COLUMN public.webhook_events.event_timestamp IS 'Signed send time from the payload, checked against a replay window on receipt.';
+COMMENT ON COLUMN public.webhook_events.status IS 'received while an attempt runs, then processed, ignored (record not tracked) or failed.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_source_webhook_id ON public.webhook_events (source, webhook_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status_created ON public.webhook_events (status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_processed ON public.webhook_events (processed, created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_source_type ON public.webhook_events (source, event_type);
+
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "webhook_events_service_role" ON public.webhook_events;
+CREATE POLICY "webhook_events_service_role" ON public.webhook_events
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,257 @@
+-- Judge entity resolution: duplicate candidates scored by lib/judges/entity-resolution.ts
+-- wait in judge_duplicate_candidates for admin review, and merge_judges() folds a
+-- duplicate into the surviving record, leaving a slug redirect behind.
+
+ALTER TABLE public.judges ADD COLUMN IF NOT EXISTS aliases TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.judges.aliases IS 'Other names the judge is known by, including the names of merged duplicates.';
+
+CREATE TABLE IF NOT EXISTS public.judge_duplicate_candidates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  judge_id UUID NOT NULL REFERENCES public.judges(id) ON DELETE CASCADE,
+  candidate_id UUID NOT NULL REFERENCES public.judges(id) ON DELETE CASCADE,
+  score NUMERIC(4, 3) NOT NULL CHECK (score BETWEEN 0 AND 1),
+  signals JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc', now()),
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  CONSTRAINT judge_duplicate_candidates_ordered CHECK (judge_id < candidate_id),
+  UNIQUE (judge_id, candidate_id)
+);
+
+COMMENT ON TABLE public.judge_duplicate_candidates IS 'Scored pairs of judges that may be the same person. Pairs are stored once, lowest id first; merged pairs disappear with the deleted judge.';
+COMMENT ON COLUMN public.judge_duplicate_candidates.signals IS 'Per-signal scores (name, court, appointment) behind the overall score.';
+
+CREATE INDEX IF NOT EXISTS idx_judge_duplicate_candidates_status_score
+  ON public.judge_duplicate_candidates (status, score DESC);
+CREATE INDEX IF NOT EXISTS idx_judge_duplicate_candidates_candidate
+  ON public.judge_duplicate_candidates (candidate_id);
+
+CREATE TABLE IF NOT EXISTS public.judge_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_judge_id UUID NOT NULL,
+  target_judge_id UUID REFERENCES public.judges(id) ON DELETE SET NULL,
+  source_name TEXT NOT NULL,
+  source_slug TEXT,
+  source_snapshot JSONB NOT NULL,
+  source_analytics_snapshots JSONB NOT NULL DEFAULT '[]'::jsonb,
+  moved JSONB NOT NULL DEFAULT '{}'::jsonb,
+  merged_by TEXT,
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc', now())
+);
+
+COMMENT ON TABLE public.judge_merges IS 'Audit trail of judge merges; source_snapshot keeps the deleted row.';
+COMMENT ON COLUMN public.judge_merges.source_analytics_snapshots IS 'The source judge''s analytics snapshots, oldest first, archived before its row (and their cascade) is deleted.';
+COMMENT ON COLUMN public.judge_merges.moved IS 'Counts of rows re-pointed to the target, by table.';
+
+CREATE INDEX IF NOT EXISTS idx_judge_merges_target ON public.judge_merges (target_judge_id, merged_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.judge_redirects (
+  slug TEXT PRIMARY KEY,
+  judge_id UUID NOT NULL REFERENCES public.judges(id) ON DELETE CASCADE,
+  merge_id UUID REFERENCES public.judge_merges(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc', now())
+);
+
+COMMENT ON TABLE public.judge_redirects IS 'Slugs of merged judges, resolved to the surviving judge by the profile lookup.';
+
+CREATE INDEX IF NOT EXISTS idx_judge_redirects_judge ON public.judge_redirects (judge_id);
+
+ALTER TABLE public.judge_duplicate_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.judge_merges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.judge_redirects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "judge_duplicate_candidates_service_role" ON public.judge_duplicate_candidates;
+CREATE POLICY "judge_duplicate_candidates_service_role" ON public.judge_duplicate_candidates
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "judge_merges_service_role" ON public.judge_merges;
+CREATE POLICY "judge_merges_service_role" ON public.judge_merges
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "judge_redirects_public_read" ON public.judge_redirects;
+CREATE POLICY "judge_redirects_public_read" ON public.judge_redirects
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "judge_redirects_service_role" ON public.judge_redirects;
+CREATE POLICY "judge_redirects_service_role" ON public.judge_redirects
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Fold p_source_id into p_target_id in one transaction. Raises JM001 for an
+-- invalid pair and JM002 when both judges have a booked ad at the same
+-- position, which needs an admin to move one booking first.
+CREATE OR REPLACE FUNCTION merge_judges(
+  p_source_id UUID,
+  p_target_id UUID,
+  p_merged_by TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_source public.judges%ROWTYPE;
+  v_target public.judges%ROWTYPE;
+  v_updated public.judges%ROWTYPE;
+  v_merge_id UUID := gen_random_uuid();
+  v_cases INTEGER := 0;
+  v_positions INTEGER := 0;
+  v_bookmarks INTEGER := 0;
+  v_ad_spots INTEGER := 0;
+  v_profile_issues INTEGER := 0;
+  v_redirects INTEGER := 0;
+  v_spot RECORD;
+  v_target_spot public.ad_spots%ROWTYPE;
+BEGIN
+  IF p_source_id IS NULL OR p_target_id IS NULL OR p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'A merge needs two different judges' USING ERRCODE = 'JM001';
+  END IF;
+
+  -- Lock in id order so concurrent merges over the same pair cannot deadlock
+  PERFORM 1 FROM public.judges WHERE id IN (p_source_id, p_target_id) ORDER BY id FOR UPDATE;
+  SELECT * INTO v_source FROM public.judges WHERE id = p_source_id;
+  SELECT * INTO v_target FROM public.judges WHERE id = p_target_id;
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Judge % or % no longer exists', p_source_id, p_target_id USING ERRCODE = 'JM001';
+  END IF;
+
+  INSERT INTO public.entity_changes (entity_type, entity_id, operation, jurisdiction, changes, source, sync_id)
+  SELECT 'case', c.id::TEXT, 'update', c.jurisdiction,
+         jsonb_build_object('judge_id', jsonb_build_object('old', p_source_id, 'new', p_target_id)),
+         'judge-merge', v_merge_id::TEXT
+    FROM public.cases c
+   WHERE c.judge_id = p_source_id;
+
+  UPDATE public.cases SET judge_id = p_target_id WHERE judge_id = p_source_id;
+  GET DIAGNOSTICS v_cases = ROW_COUNT;
+
+  DELETE FROM public.judge_court_positions s
+   USING public.judge_court_positions t
+   WHERE s.judge_id = p_source_id
+     AND t.judge_id = p_target_id
+     AND t.court_id = s.court_id
+     AND t.status IS NOT DISTINCT FROM s.status
+     AND t.position_type IS NOT DISTINCT FROM s.position_type;
+  UPDATE public.judge_court_positions SET judge_id = p_target_id WHERE judge_id = p_source_id;
+  GET DIAGNOSTICS v_positions = ROW_COUNT;
+
+  -- Bookmarks are created outside these migrations, so only touch them when present
+  IF to_regclass('public.user_bookmarks') IS NOT NULL THEN
+    EXECUTE 'DELETE FROM public.user_bookmarks s USING public.user_bookmarks t
+              WHERE s.judge_id = $1 AND t.judge_id = $2 AND t.user_id = s.user_id'
+      USING p_source_id, p_target_id;
+    EXECUTE 'UPDATE public.user_bookmarks SET judge_id = $2 WHERE judge_id = $1'
+      USING p_source_id, p_target_id;
+    GET DIAGNOSTICS v_bookmarks = ROW_COUNT;
+  END IF;
+
+  FOR v_spot IN
+    SELECT * FROM public.ad_spots WHERE entity_type = 'judge' AND entity_id = p_source_id ORDER BY position FOR UPDATE
+  LOOP
+    SELECT * INTO v_target_spot FROM public.ad_spots
+     WHERE entity_type = 'judge' AND entity_id = p_target_id AND position = v_spot.position
+     FOR UPDATE;
+
+    IF v_target_spot.id IS NULL THEN
+      UPDATE public.ad_spots SET entity_id = p_target_id, updated_at = timezone('utc', now()) WHERE id = v_spot.id;
+      v_ad_spots := v_ad_spots + 1;
+    ELSIF v_spot.status IN ('booked', 'reserved') AND v_target_spot.status IN ('booked', 'reserved') THEN
+      RAISE EXCEPTION 'Both judges have a booked ad at position %', v_spot.position USING ERRCODE = 'JM002';
+    ELSIF v_spot.status IN ('booked', 'reserved') THEN
+      DELETE FROM public.ad_spots WHERE id = v_target_spot.id;
+      UPDATE public.ad_spots SET entity_id = p_target_id, updated_at = timezone('utc', now()) WHERE id = v_spot.id;
+      v_ad_spots := v_ad_spots + 1;
+    ELSE
+      DELETE FROM public.ad_spots WHERE id = v_spot.id;
+    END IF;
+  END LOOP;
+
+  IF v_source.slug IS NOT NULL THEN
+    UPDATE public.profile_issues SET judge_slug = v_target.slug
+     WHERE judge_slug = v_source.slug AND v_target.slug IS NOT NULL;
+    GET DIAGNOSTICS v_profile_issues = ROW_COUNT;
+  END IF;
+
+  -- Snapshot rows are immutable, so the source's cannot be re-pointed: the
+  -- target keeps its own history and the source's is archived on the merge
+  -- record below before its row (and the cascade) goes. Dropping the
+  -- target's cached analytics makes the next run regenerate from the
+  -- combined cases and record a new snapshot.
+  IF to_regclass('public.judge_analytics_cache') IS NOT NULL THEN
+    EXECUTE 'DELETE FROM public.judge_analytics_cache WHERE judge_id = $1' USING p_target_id;
+  END IF;
+
+  INSERT INTO public.judge_merges (
+    id, source_judge_id, target_judge_id, source_name, source_slug, source_snapshot, source_analytics_snapshots, merged_by
+  )
+  VALUES (
+    v_merge_id, p_source_id, p_target_id, v_source.name, v_source.slug, to_jsonb(v_source),
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(s) ORDER BY s.version)
+         FROM public.judge_analytics_snapshots s
+        WHERE s.judge_id = p_source_id),
+      '[]'::jsonb
+    ),
+    p_merged_by
+  );
+
+  -- Earlier merges into the source now point straight at the target
+  UPDATE public.judge_redirects SET judge_id = p_target_id WHERE judge_id = p_source_id;
+  GET DIAGNOSTICS v_redirects = ROW_COUNT;
+  IF v_source.slug IS NOT NULL AND v_source.slug IS DISTINCT FROM v_target.slug THEN
+    INSERT INTO public.judge_redirects (slug, judge_id, merge_id)
+    VALUES (v_source.slug, p_target_id, v_merge_id)
+    ON CONFLICT (slug) DO UPDATE SET judge_id = EXCLUDED.judge_id, merge_id = EXCLUDED.merge_id;
+    v_redirects := v_redirects + 1;
+  END IF;
+
+  -- courtlistener_id is unique, so release it from the source before moving it
+  IF v_target.courtlistener_id IS NULL AND v_source.courtlistener_id IS NOT NULL THEN
+    UPDATE public.judges SET courtlistener_id = NULL WHERE id = p_source_id;
+  END IF;
+
+  UPDATE public.judges t SET
+    aliases = ARRAY(
+      SELECT DISTINCT alias
+        FROM unnest(t.aliases || v_source.aliases || ARRAY[v_source.name]) AS alias
+       WHERE alias IS NOT NULL AND btrim(alias) <> '' AND alias <> t.name
+       ORDER BY alias
+    ),
+    court_id = COALESCE(t.court_id, v_source.court_id),
+    court_name = COALESCE(t.court_name, v_source.court_name),
+    appointed_date = COALESCE(t.appointed_date, v_source.appointed_date),
+    education = COALESCE(t.education, v_source.education),
+    bio = COALESCE(t.bio, v_source.bio),
+    profile_image_url = COALESCE(t.profile_image_url, v_source.profile_image_url),
+    courtlistener_id = COALESCE(t.courtlistener_id, v_source.courtlistener_id),
+    courtlistener_data = COALESCE(t.courtlistener_data, v_source.courtlistener_data),
+    total_cases = (SELECT count(*) FROM public.cases WHERE judge_id = p_target_id),
+    updated_at = timezone('utc', now())
+  WHERE t.id = p_target_id
+  RETURNING * INTO v_updated;
+
+  UPDATE public.judge_merges SET moved = jsonb_build_object(
+    'cases', v_cases,
+    'positions', v_positions,
+    'bookmarks', v_bookmarks,
+    'ad_spots', v_ad_spots,
+    'profile_issues', v_profile_issues,
+    'redirects', v_redirects
+  ) WHERE id = v_merge_id;
+
+  DELETE FROM public.judges WHERE id = p_source_id;
+
+  RETURN jsonb_build_object(
+    'merge_id', v_merge_id,
+    'moved', (SELECT moved FROM public.judge_merges WHERE id = v_merge_id),
+    'before', to_jsonb(v_target),
+    'after', to_jsonb(v_updated)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION merge_judges(UUID, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_judges(UUID, UUID, TEXT) TO service_role;
@@ -0,0 +1,24 @@
+-- How each case's judge_id was derived and how far it can be trusted. Syncs
+-- record the CourtListener evidence they linked on; lib/sync/case-attribution.ts
+-- audits older links. Judge analytics skip links below the confidence floor.
+
+ALTER TABLE public.cases
+  ADD COLUMN IF NOT EXISTS judge_attribution_method VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS judge_attribution_confidence NUMERIC(3, 2),
+  ADD COLUMN IF NOT EXISTS judge_attributed_at TIMESTAMPTZ;
+
+ALTER TABLE public.cases DROP CONSTRAINT IF EXISTS cases_judge_attribution_method_check;
+ALTER TABLE public.cases ADD CONSTRAINT cases_judge_attribution_method_check
+  CHECK (judge_attribution_method IN ('assigned_to', 'opinion_author', 'docket_text', 'manual', 'redistribution', 'unverified'));
+
+ALTER TABLE public.cases DROP CONSTRAINT IF EXISTS cases_judge_attribution_confidence_check;
+ALTER TABLE public.cases ADD CONSTRAINT cases_judge_attribution_confidence_check
+  CHECK (judge_attribution_confidence BETWEEN 0 AND 1);
+
+COMMENT ON COLUMN public.cases.judge_attribution_method IS 'Evidence behind judge_id: CourtListener assigned_to or opinion author, docket judge text, manual, or redistribution (the link contradicts the evidence). NULL until synced or audited.';
+COMMENT ON COLUMN public.cases.judge_attribution_confidence IS 'Confidence in judge_id from 0 to 1; analytics exclude links below 0.6.';
+
+CREATE INDEX IF NOT EXISTS idx_cases_judge_attribution_method
+  ON public.cases (judge_attribution_method, id);
+CREATE INDEX IF NOT EXISTS idx_cases_judge_attribution_unaudited
+  ON public.cases (id) WHERE judge_id IS NOT NULL AND judge_attribution_method IS NULL;
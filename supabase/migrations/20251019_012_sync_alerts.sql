@@ -0,0 +1,94 @@
+-- Freshness SLOs and sync alerts. Cron runs evaluate per-court freshness
+-- against the SLOs (lib/alerts/sync-alerts.ts), open one alert per breach and
+-- resolve it once the data is fresh again. Delivery state lives on the alert
+-- so a failed notification is retried on the next run instead of duplicated.
+
+-- Overrides for the built-in SLOs. A row without court_id applies to every
+-- court for that entity; a court row takes precedence. enabled = false
+-- silences the entity (or one court) without deleting the row.
+CREATE TABLE IF NOT EXISTS public.freshness_slos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('courts', 'judges', 'decisions')),
+  court_id UUID REFERENCES public.courts(id) ON DELETE CASCADE,
+  max_age_hours INTEGER NOT NULL CHECK (max_age_hours > 0),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE NULLS NOT DISTINCT (entity_type, court_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.sync_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- What is being alerted on, e.g. freshness:decisions:<court id>. At most one
+  -- firing alert per key.
+  alert_key TEXT NOT NULL,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('freshness', 'circuit_breaker')),
+  severity VARCHAR(10) NOT NULL CHECK (severity IN ('warning', 'critical')),
+  status VARCHAR(10) NOT NULL DEFAULT 'firing' CHECK (status IN ('firing', 'resolved')),
+  summary TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  fired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  -- NULL until the firing (or escalation) notification was delivered
+  notified_at TIMESTAMPTZ,
+  resolve_notified_at TIMESTAMPTZ,
+  delivery_error TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_alerts_firing_key
+  ON public.sync_alerts (alert_key) WHERE status = 'firing';
+CREATE INDEX IF NOT EXISTS idx_sync_alerts_status_fired
+  ON public.sync_alerts (status, fired_at DESC);
+
+ALTER TABLE public.freshness_slos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sync_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "freshness_slos_service_role" ON public.freshness_slos;
+CREATE POLICY "freshness_slos_service_role" ON public.freshness_slos
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "sync_alerts_service_role" ON public.sync_alerts;
+CREATE POLICY "sync_alerts_service_role" ON public.sync_alerts
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- Latest sync activity per court: the court record itself, its
+-- CourtListener-linked judges, and synced cases heard by those judges.
+CREATE OR REPLACE FUNCTION public.court_sync_freshness()
+RETURNS TABLE (
+  court_id UUID,
+  court_name TEXT,
+  jurisdiction TEXT,
+  courts_synced_at TIMESTAMPTZ,
+  judges_synced_at TIMESTAMPTZ,
+  decisions_synced_at TIMESTAMPTZ
+) AS $$
+  WITH judge_activity AS (
+    SELECT j.court_id, MAX(j.updated_at) AS synced_at
+    FROM public.judges j
+    WHERE j.court_id IS NOT NULL AND j.courtlistener_id IS NOT NULL
+    GROUP BY j.court_id
+  ),
+  decision_activity AS (
+    SELECT j.court_id, MAX(cs.updated_at) AS synced_at
+    FROM public.cases cs
+    JOIN public.judges j ON j.id = cs.judge_id
+    WHERE j.court_id IS NOT NULL AND cs.courtlistener_id IS NOT NULL
+    GROUP BY j.court_id
+  )
+  SELECT
+    c.id,
+    c.name::TEXT,
+    c.jurisdiction::TEXT,
+    c.updated_at,
+    ja.synced_at,
+    da.synced_at
+  FROM public.courts c
+  LEFT JOIN judge_activity ja ON ja.court_id = c.id
+  LEFT JOIN decision_activity da ON da.court_id = c.id
+  WHERE c.courtlistener_id IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+
+REVOKE ALL ON FUNCTION public.court_sync_freshness() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.court_sync_freshness() TO service_role;
@@ -0,0 +1,94 @@
+-- Per-customer API keys for /api/v1 (lib/security/api-keys.ts). Only a
+-- SHA-256 hash of each key is stored; the key itself is shown once when it is
+-- created or rotated. Keys belong to a Clerk user or organization and carry
+-- scopes, a per-minute rate limit and a monthly request quota.
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_type VARCHAR(20) NOT NULL CHECK (owner_type IN ('user', 'organization')),
+  -- Clerk user id (user_...) or organization id (org_...)
+  owner_id TEXT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  -- Leading characters of the key, so owners can tell keys apart
+  key_prefix VARCHAR(24) NOT NULL,
+  key_hash CHAR(64) NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0
+    AND scopes <@ ARRAY['judges:read', 'analytics:read', 'export']::TEXT[]
+  ),
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute > 0),
+  -- NULL means unmetered
+  monthly_quota INTEGER CHECK (monthly_quota IS NULL OR monthly_quota > 0),
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  -- Set on the old key when it is rotated, so integrations can switch over
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  rotated_from UUID REFERENCES public.api_keys(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_owner
+  ON public.api_keys (owner_type, owner_id, created_at DESC);
+
+-- Requests per key, endpoint and calendar month (UTC)
+CREATE TABLE IF NOT EXISTS public.api_key_usage (
+  api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  endpoint TEXT NOT NULL,
+  request_count BIGINT NOT NULL DEFAULT 0,
+  last_request_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (api_key_id, period_start, endpoint)
+);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_key_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "api_keys_service_role" ON public.api_keys;
+CREATE POLICY "api_keys_service_role" ON public.api_keys
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "api_key_usage_service_role" ON public.api_key_usage;
+CREATE POLICY "api_key_usage_service_role" ON public.api_key_usage
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- Count one request against the key's monthly quota. Returns allowed = false
+-- without counting when the quota is used up. The key row is locked so
+-- concurrent requests cannot overrun the quota.
+CREATE OR REPLACE FUNCTION public.consume_api_key_request(p_key_id UUID, p_endpoint TEXT)
+RETURNS TABLE (allowed BOOLEAN, used BIGINT, quota INTEGER) AS $$
+DECLARE
+  v_period DATE := date_trunc('month', now() AT TIME ZONE 'UTC')::DATE;
+  v_quota INTEGER;
+  v_used BIGINT;
+BEGIN
+  SELECT k.monthly_quota INTO v_quota
+  FROM public.api_keys k
+  WHERE k.id = p_key_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(u.request_count), 0) INTO v_used
+  FROM public.api_key_usage u
+  WHERE u.api_key_id = p_key_id AND u.period_start = v_period;
+
+  IF v_quota IS NOT NULL AND v_used >= v_quota THEN
+    RETURN QUERY SELECT FALSE, v_used, v_quota;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.api_key_usage (api_key_id, period_start, endpoint, request_count, last_request_at)
+  VALUES (p_key_id, v_period, p_endpoint, 1, now())
+  ON CONFLICT (api_key_id, period_start, endpoint)
+  DO UPDATE SET request_count = public.api_key_usage.request_count + 1, last_request_at = now();
+
+  UPDATE public.api_keys SET last_used_at = now() WHERE id = p_key_id;
+
+  RETURN QUERY SELECT TRUE, v_used + 1, v_quota;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.consume_api_key_request(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.consume_api_key_request(UUID, TEXT) TO service_role;
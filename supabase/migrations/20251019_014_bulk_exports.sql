@@ -0,0 +1,63 @@
+-- Asynchronous bulk exports for /api/v1/export (lib/export/jobs.ts). A queued
+-- 'export' sync job encodes the dataset a batch at a time into
+-- export_job_parts; the download streams the parts back in order. Finished
+-- exports are purged by the cleanup job once expires_at passes.
+CREATE TABLE IF NOT EXISTS public.export_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_type VARCHAR(20) NOT NULL CHECK (owner_type IN ('user', 'organization')),
+  owner_id TEXT NOT NULL,
+  api_key_id UUID REFERENCES public.api_keys(id) ON DELETE SET NULL,
+  dataset VARCHAR(40) NOT NULL CHECK (dataset IN ('judges', 'courts', 'cases', 'analytics_snapshots')),
+  format VARCHAR(20) NOT NULL CHECK (format IN ('csv', 'ndjson', 'parquet')),
+  -- Selected columns in output order; empty means every field
+  fields TEXT[] NOT NULL DEFAULT '{}',
+  updated_since TIMESTAMPTZ,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  queue_job_id VARCHAR(100),
+  row_count BIGINT NOT NULL DEFAULT 0,
+  byte_size BIGINT NOT NULL DEFAULT 0,
+  part_count INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_export_jobs_owner
+  ON public.export_jobs (owner_type, owner_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_export_jobs_expires
+  ON public.export_jobs (expires_at)
+  WHERE expires_at IS NOT NULL;
+
+-- Encoded file contents. Part 0 is the preamble (CSV header, Parquet magic),
+-- then one part per batch of rows, then the trailer (Parquet footer)
+CREATE TABLE IF NOT EXISTS public.export_job_parts (
+  export_id UUID NOT NULL REFERENCES public.export_jobs(id) ON DELETE CASCADE,
+  part_number INTEGER NOT NULL CHECK (part_number >= 0),
+  data BYTEA NOT NULL,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (export_id, part_number)
+);
+
+ALTER TABLE public.export_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.export_job_parts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "export_jobs_service_role" ON public.export_jobs;
+CREATE POLICY "export_jobs_service_role" ON public.export_jobs
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "export_job_parts_service_role" ON public.export_job_parts;
+CREATE POLICY "export_job_parts_service_role" ON public.export_job_parts
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- Streaming exports walk rows in id order filtered by updated_since
+CREATE INDEX IF NOT EXISTS idx_cases_updated_at_id ON public.cases (updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_judges_updated_at_id ON public.judges (updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_courts_updated_at_id ON public.courts (updated_at, id);
+
+-- Export jobs run on the sync queue as type 'export'
+ALTER TABLE public.sync_queue DROP CONSTRAINT IF EXISTS sync_queue_type_check;
+ALTER TABLE public.sync_queue ADD CONSTRAINT sync_queue_type_check
+  CHECK (type IN ('court', 'judge', 'decision', 'full', 'cleanup', 'citations', 'export'));
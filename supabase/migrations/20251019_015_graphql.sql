@@ -0,0 +1,36 @@
+-- Read-only GraphQL at /api/v1/graphql (lib/graphql).
+
+-- Automatic persisted queries: the query text keyed by its SHA-256 hex
+-- digest. Stored the first time a client sends both and the query validates.
+CREATE TABLE IF NOT EXISTS public.graphql_persisted_queries (
+  sha256 CHAR(64) PRIMARY KEY,
+  query TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.graphql_persisted_queries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "graphql_persisted_queries_service_role" ON public.graphql_persisted_queries;
+CREATE POLICY "graphql_persisted_queries_service_role" ON public.graphql_persisted_queries
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- The most recent cases for each of several judges in one call, as the
+-- Judge.recent_cases loader batches them. Same order as
+-- /api/judges/[id]/recent-cases.
+CREATE OR REPLACE FUNCTION get_recent_cases_for_judges(
+  p_judge_ids UUID[],
+  p_limit INTEGER DEFAULT 10
+) RETURNS SETOF public.cases AS $$
+  SELECT recent.*
+  FROM unnest(p_judge_ids) AS requested(judge_id)
+  CROSS JOIN LATERAL (
+    SELECT c.*
+    FROM public.cases c
+    WHERE c.judge_id = requested.judge_id
+    ORDER BY c.decision_date DESC NULLS LAST, c.filing_date DESC NULLS LAST
+    LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  ) AS recent;
+$$ LANGUAGE sql STABLE;
+
+REVOKE ALL ON FUNCTION get_recent_cases_for_judges(UUID[], INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_recent_cases_for_judges(UUID[], INTEGER) TO service_role;
@@ -0,0 +1,149 @@
+-- Outbound webhooks (lib/webhooks). Owners register endpoints and pick the
+-- events they want; events are recorded in webhook_outbox and fanned out to
+-- webhook_deliveries by the queue worker, and a 'webhook' sync job per
+-- endpoint POSTs them, retrying with the queue's backoff.
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_type VARCHAR(20) NOT NULL CHECK (owner_type IN ('user', 'organization')),
+  owner_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  description TEXT,
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['judge.reassigned', 'decision.synced', 'analytics.regenerated', 'profile_issue.resolved']::TEXT[]
+  ),
+  -- Signs deliveries, so unlike API keys it cannot be stored hashed
+  secret TEXT NOT NULL,
+  secret_prefix VARCHAR(20) NOT NULL,
+  -- The endpoint's current or last 'webhook' sync job
+  queue_job_id VARCHAR(100),
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  disabled_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_owner
+  ON public.webhook_endpoints (owner_type, owner_id, created_at DESC);
+
+-- Outbox. dispatched_at is set once deliveries exist for every subscriber
+CREATE TABLE IF NOT EXISTS public.webhook_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type VARCHAR(40) NOT NULL CHECK (
+    event_type IN ('judge.reassigned', 'decision.synced', 'analytics.regenerated', 'profile_issue.resolved')
+  ),
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  dispatched_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_undispatched
+  ON public.webhook_outbox (created_at)
+  WHERE dispatched_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_created
+  ON public.webhook_outbox (created_at);
+
+-- Delivery log: one row per event per endpoint, plus one per manual redelivery
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES public.webhook_outbox(id) ON DELETE CASCADE,
+  event_type VARCHAR(40) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  last_attempt_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  redelivery_of UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+  ON public.webhook_deliveries (endpoint_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending
+  ON public.webhook_deliveries (endpoint_id, created_at)
+  WHERE status = 'pending';
+
+-- Deliveries run on the sync queue as type 'webhook'
+ALTER TABLE public.sync_queue DROP CONSTRAINT IF EXISTS sync_queue_type_check;
+ALTER TABLE public.sync_queue ADD CONSTRAINT sync_queue_type_check
+  CHECK (type IN ('court', 'judge', 'decision', 'full', 'cleanup', 'citations', 'export', 'webhook'));
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "webhook_endpoints_service_role" ON public.webhook_endpoints;
+CREATE POLICY "webhook_endpoints_service_role" ON public.webhook_endpoints
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "webhook_outbox_service_role" ON public.webhook_outbox;
+CREATE POLICY "webhook_outbox_service_role" ON public.webhook_outbox
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "webhook_deliveries_service_role" ON public.webhook_deliveries;
+CREATE POLICY "webhook_deliveries_service_role" ON public.webhook_deliveries
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- judge.reassigned: a judge takes up an active position at a court, from any
+-- writer of judge_court_positions (sync, merges, admin edits). Recorded only
+-- while someone subscribes, so the outbox stays empty otherwise.
+CREATE OR REPLACE FUNCTION public.record_judge_reassigned()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous_court UUID;
+BEGIN
+  IF NEW.status <> 'active' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.court_id = NEW.court_id AND OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.webhook_endpoints
+    WHERE disabled_at IS NULL AND 'judge.reassigned' = ANY (events)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.court_id <> NEW.court_id THEN
+    v_previous_court := OLD.court_id;
+  ELSE
+    SELECT p.court_id INTO v_previous_court
+    FROM public.judge_court_positions p
+    WHERE p.judge_id = NEW.judge_id AND p.id <> NEW.id AND p.court_id <> NEW.court_id
+    ORDER BY p.end_date DESC NULLS FIRST, p.updated_at DESC NULLS LAST
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.webhook_outbox (event_type, data)
+  SELECT 'judge.reassigned', jsonb_build_object(
+    'judge_id', NEW.judge_id,
+    'court_id', NEW.court_id,
+    'court_name', c.name,
+    'previous_court_id', v_previous_court,
+    'position_type', NEW.position_type,
+    'start_date', NEW.start_date
+  )
+  FROM (SELECT NEW.court_id AS id) target
+  LEFT JOIN public.courts c ON c.id = target.id;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_judge_reassigned() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS judge_court_positions_webhook ON public.judge_court_positions;
+CREATE TRIGGER judge_court_positions_webhook
+  AFTER INSERT OR UPDATE OF court_id, status ON public.judge_court_positions
+  FOR EACH ROW EXECUTE FUNCTION public.record_judge_reassigned();
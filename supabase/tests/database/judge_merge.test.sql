@@ -0,0 +1,111 @@
+-- Judge merges: re-pointing cases, positions and ad spots, aliases and redirects.
+-- Run against the local stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(15);
+
+INSERT INTO public.judges (id, name, slug, jurisdiction, court_name, courtlistener_id, appointed_date, total_cases)
+VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'Maria Lopez', 'maria-lopez', 'CA', 'Superior Court of Los Angeles County', '9001', '2012-03-01', 0),
+  ('00000000-0000-0000-0000-0000000000a2', 'Hon. Maria L. Lopez', 'hon-maria-l-lopez', 'CA', NULL, NULL, NULL, 0),
+  ('00000000-0000-0000-0000-0000000000a3', 'Ann Reyes', 'ann-reyes', 'CA', NULL, NULL, NULL, 0);
+
+INSERT INTO public.cases (id, case_number, case_name, jurisdiction, judge_id)
+VALUES
+  ('00000000-0000-0000-0000-0000000000c1', 'MERGE-1', 'People v. One', 'CA', '00000000-0000-0000-0000-0000000000a2'),
+  ('00000000-0000-0000-0000-0000000000c2', 'MERGE-2', 'People v. Two', 'CA', '00000000-0000-0000-0000-0000000000a1');
+
+INSERT INTO public.ad_spots (entity_type, entity_id, position, status)
+VALUES
+  ('judge', '00000000-0000-0000-0000-0000000000a2', 1, 'booked'),
+  ('judge', '00000000-0000-0000-0000-0000000000a1', 1, 'available'),
+  ('judge', '00000000-0000-0000-0000-0000000000a2', 2, 'available'),
+  ('judge', '00000000-0000-0000-0000-0000000000a3', 1, 'booked');
+
+INSERT INTO public.judge_analytics_snapshots (judge_id, analytics, input_fingerprint, lookback_years, case_fetch_limit, code_version)
+VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '{}', 'target', 5, 1000, 'test'),
+  ('00000000-0000-0000-0000-0000000000a2', '{}', 'source', 5, 1000, 'test');
+
+SELECT throws_ok(
+  $$ SELECT merge_judges('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a1', 'admin') $$,
+  'JM001',
+  NULL,
+  'refuses to merge a judge into itself'
+);
+
+-- Fold the bare CA import into the CourtListener record
+SELECT is(
+  (merge_judges('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000a1', 'admin')->'moved'->>'cases')::INTEGER,
+  1,
+  'reports the re-pointed cases'
+);
+SELECT ok(
+  NOT EXISTS (SELECT 1 FROM public.judges WHERE id = '00000000-0000-0000-0000-0000000000a2'),
+  'deletes the source judge'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.cases WHERE judge_id = '00000000-0000-0000-0000-0000000000a1'),
+  2,
+  'moves the source cases to the target'
+);
+SELECT is(
+  (SELECT total_cases FROM public.judges WHERE id = '00000000-0000-0000-0000-0000000000a1'),
+  2,
+  'recomputes the target case count'
+);
+SELECT is(
+  (SELECT aliases FROM public.judges WHERE id = '00000000-0000-0000-0000-0000000000a1'),
+  ARRAY['Hon. Maria L. Lopez'],
+  'keeps the source name as an alias'
+);
+SELECT is(
+  (SELECT judge_id FROM public.judge_redirects WHERE slug = 'hon-maria-l-lopez'),
+  '00000000-0000-0000-0000-0000000000a1'::UUID,
+  'leaves a redirect from the source slug'
+);
+SELECT is(
+  (SELECT status FROM public.ad_spots WHERE entity_type = 'judge' AND entity_id = '00000000-0000-0000-0000-0000000000a1' AND position = 1),
+  'booked',
+  'a booked source spot replaces an available target spot'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.ad_spots WHERE entity_type = 'judge' AND entity_id = '00000000-0000-0000-0000-0000000000a1'),
+  2,
+  'free positions move across'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.judge_analytics_snapshots WHERE judge_id = '00000000-0000-0000-0000-0000000000a1'),
+  1,
+  'keeps the target snapshot history'
+);
+SELECT ok(
+  NOT EXISTS (SELECT 1 FROM public.judge_analytics_snapshots WHERE judge_id = '00000000-0000-0000-0000-0000000000a2'),
+  'source snapshots go with the source row'
+);
+SELECT is(
+  (SELECT source_analytics_snapshots->0->>'input_fingerprint' FROM public.judge_merges
+    WHERE source_judge_id = '00000000-0000-0000-0000-0000000000a2'),
+  'source',
+  'archives the source snapshot history on the merge record'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.entity_changes WHERE source = 'judge-merge' AND entity_id = '00000000-0000-0000-0000-0000000000c1'),
+  1,
+  'logs the case re-point in the change feed'
+);
+
+-- Two booked spots at the same position cannot both survive
+SELECT throws_ok(
+  $$ SELECT merge_judges('00000000-0000-0000-0000-0000000000a3', '00000000-0000-0000-0000-0000000000a1', 'admin') $$,
+  'JM002',
+  NULL,
+  'refuses to drop a booked ad spot'
+);
+SELECT ok(
+  EXISTS (SELECT 1 FROM public.judges WHERE id = '00000000-0000-0000-0000-0000000000a3'),
+  'a refused merge changes nothing'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,82 @@
+-- Queue claiming, leases, concurrency limits and dead-lettering.
+-- Run against the local stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(13);
+
+DELETE FROM public.sync_queue;
+
+INSERT INTO public.sync_queue (id, type, status, options, priority, scheduled_for, retry_count, max_retries, created_at)
+VALUES
+  ('decision-low', 'decision', 'pending', '{}', 10, now() - interval '1 minute', 0, 3, now() - interval '3 minutes'),
+  ('decision-high', 'decision', 'pending', '{}', 100, now() - interval '1 minute', 0, 3, now() - interval '2 minutes'),
+  ('judge-1', 'judge', 'pending', '{}', 50, now() - interval '1 minute', 0, 3, now() - interval '1 minute'),
+  ('court-future', 'court', 'pending', '{}', 500, now() + interval '1 hour', 0, 3, now());
+
+-- Highest-priority due job is claimed and leased to the worker
+SELECT is(
+  (SELECT id FROM claim_sync_job('worker-a', 600, '{"decision": 1}'::jsonb)),
+  'decision-high',
+  'claims the highest-priority due job'
+);
+SELECT is(
+  (SELECT status || ':' || worker_id FROM public.sync_queue WHERE id = 'decision-high'),
+  'running:worker-a',
+  'claimed job is running and owned by the worker'
+);
+SELECT ok(
+  (SELECT lease_expires_at > now() + interval '9 minutes' FROM public.sync_queue WHERE id = 'decision-high'),
+  'claimed job carries a lease'
+);
+
+-- The decision limit of 1 is reached, so the next claim falls through to the judge job
+SELECT is(
+  (SELECT id FROM claim_sync_job('worker-b', 600, '{"decision": 1}'::jsonb)),
+  'judge-1',
+  'skips job types at their concurrency limit'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM claim_sync_job('worker-b', 600, '{"decision": 1}'::jsonb)),
+  0,
+  'returns nothing when only limited or future jobs remain'
+);
+
+-- Heartbeats only extend leases the worker still owns
+SELECT ok(heartbeat_sync_job('decision-high', 'worker-a', 1200), 'owner can heartbeat');
+SELECT ok(NOT heartbeat_sync_job('decision-high', 'worker-b', 1200), 'other workers cannot heartbeat');
+
+-- An expired lease returns the job to pending with a retry counted
+UPDATE public.sync_queue
+SET lease_expires_at = now() - interval '1 second',
+    checkpoint = '{"cursor": {"lastJudgeId": "j-40"}, "progress": {"processed": 40, "total": 100}, "runs": 1}'
+WHERE id = 'decision-high';
+SELECT is(reclaim_expired_sync_jobs(600), 1, 'reclaims one expired job');
+SELECT is(
+  (SELECT status || ':' || retry_count FROM public.sync_queue WHERE id = 'decision-high'),
+  'pending:1',
+  'reclaimed job is pending again with its retry counted'
+);
+SELECT ok(NOT heartbeat_sync_job('decision-high', 'worker-a', 600), 'worker loses the reclaimed lease');
+SELECT is(
+  (SELECT checkpoint #>> '{cursor,lastJudgeId}' FROM public.sync_queue WHERE id = 'decision-high'),
+  'j-40',
+  'reclaimed job keeps its checkpoint for the next worker'
+);
+
+-- Reclaiming past max_retries dead-letters the job
+UPDATE public.sync_queue
+SET status = 'running', worker_id = 'worker-c', retry_count = 3, lease_expires_at = now() - interval '1 second'
+WHERE id = 'decision-low';
+SELECT reclaim_expired_sync_jobs(600);
+SELECT is(
+  (SELECT status FROM public.sync_queue WHERE id = 'decision-low'),
+  'dead_letter',
+  'job is dead-lettered once retries are exhausted'
+);
+SELECT ok(
+  (SELECT dead_lettered_at IS NOT NULL FROM public.sync_queue WHERE id = 'decision-low'),
+  'dead-lettered job is timestamped'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -15,6 +15,7 @@ export interface Judge {
   average_decision_time: number | null
   courtlistener_id?: string | null
   courtlistener_data?: Record<string, any> | null // Full CourtListener judge data
+  aliases?: string[] // Other known names, including merged duplicates
   created_at: string
   updated_at: string
 }
@@ -104,7 +105,7 @@ export interface SearchResult {
 // Enhanced types for judge lookups
 export interface JudgeLookupResult {
   judge: Judge | null
-  found_by: 'slug' | 'name_exact' | 'name_partial' | 'brute_force' | 'not_found'
+  found_by: 'slug' | 'redirect' | 'name_exact' | 'name_partial' | 'brute_force' | 'not_found'
   alternatives?: Judge[] // Similar judges if exact match not found
 }
 
@@ -168,4 +168,35 @@ export const PREDEFINED_JURISDICTIONS: JurisdictionSearchResult[] = [
     jurisdictionValue: 'CA',
     displayName: 'Alameda County'
   }
-]
\ No newline at end of file
+]
+export interface HighlightSegment {
+  text: string
+  highlighted: boolean
+}
+
+export interface OpinionSearchResult {
+  opinion_id: string
+  opinion_type: string | null
+  case_id: string
+  case_name: string
+  case_number: string | null
+  case_type: string | null
+  decision_date: string | null
+  case_url: string | null
+  judge_id: string | null
+  judge_name: string | null
+  judge_url: string | null
+  court_id: string | null
+  court_name: string | null
+  rank: number
+  snippet: HighlightSegment[]
+}
+
+export interface OpinionSearchResponse {
+  results: OpinionSearchResult[]
+  total_count: number
+  page: number
+  limit: number
+  query: string
+  took_ms: number
+}